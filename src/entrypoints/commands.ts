@@ -17,7 +17,10 @@ import { IndexerProcessor } from '../modules/indexer/indexer.processor';
 import { InvoiceExpirationModule } from '../modules/invoice-expiration/invoice-expiration.module';
 import { InvoicePaymentModule } from '../modules/invoice-payments/invoice-payment.module';
 import { InvoicePaymentProcessor } from '../modules/invoice-payments/invoice-payment.processor';
+import { LiquidationModule } from '../modules/liquidation/liquidation.module';
 import { LoanMatcherModule } from '../modules/loan-matcher/loan-matcher.module';
+import { LoanMatcherProcessor } from '../modules/loan-matcher/loan-matcher.processor';
+import { LoanMaturityModule } from '../modules/loan-maturity/loan-maturity.module';
 import { NotificationModule } from '../modules/notifications/notification.module';
 import { PricefeedModule } from '../modules/pricefeed/pricefeed.module';
 import { PricefeedScheduler } from '../modules/pricefeed/pricefeed.scheduler';
@@ -25,6 +28,7 @@ import { SettlementScheduler } from '../modules/settlement/schedulers/settlement
 import { SettlementModule } from '../modules/settlement/settlement.module';
 import { ValuationModule } from '../modules/valuation/valuation.module';
 import { ValuationProcessor } from '../modules/valuation/valuation.processor';
+import { InvoiceSweepProcessor } from '../modules/wallet-balance-collector/invoice-sweep.processor';
 import { WalletBalanceCollectorModule } from '../modules/wallet-balance-collector/wallet-balance-collector.module';
 import { WalletBalanceCollectorProcessor } from '../modules/wallet-balance-collector/wallet-balance-collector.processor';
 import { CryptographyService } from '../shared/cryptography/cryptography.service';
@@ -42,8 +46,10 @@ export type CommandKey =
   | 'indexer'
   | 'invoice-expiration'
   | 'invoice-payment'
+  | 'liquidation'
   | 'list-wallets'
   | 'loan-matcher'
+  | 'loan-maturity'
   | 'migration'
   | 'notification'
   | 'pricefeed'
@@ -161,8 +167,22 @@ export const COMMAND_DEFINITIONS: Record<CommandKey, CommandDefinition> = {
       };
     },
   },
+  liquidation: {
+    imports: [LiquidationModule],
+    usesBull: true,
+    async bootstrap() {
+      const logger = new TelemetryLogger('LiquidationWorker');
+      logger.log('Liquidation worker started successfully');
+      return {
+        cleanup: () => {
+          logger.log('Liquidation worker shutting down');
+        },
+      };
+    },
+  },
   'loan-matcher': {
     imports: [LoanMatcherModule],
+    providers: [LoanMatcherProcessor],
     usesBull: true,
     async bootstrap() {
       const logger = new TelemetryLogger('LoanMatcherWorker');
@@ -190,6 +210,19 @@ export const COMMAND_DEFINITIONS: Record<CommandKey, CommandDefinition> = {
       };
     },
   },
+  'loan-maturity': {
+    imports: [LoanMaturityModule],
+    usesBull: true,
+    async bootstrap() {
+      const logger = new TelemetryLogger('LoanMaturityWorker');
+      logger.log('Loan maturity worker started successfully');
+      return {
+        cleanup: () => {
+          logger.log('Loan maturity worker shutting down');
+        },
+      };
+    },
+  },
   indexer: {
     imports: [
       AuthModule.forRootAsync({ imports: [NotificationModule], useClass: AuthConfig }),
@@ -223,7 +256,7 @@ export const COMMAND_DEFINITIONS: Record<CommandKey, CommandDefinition> = {
   },
   'wallet-balance-collector': {
     imports: [WalletBalanceCollectorModule],
-    providers: [WalletBalanceCollectorProcessor],
+    providers: [WalletBalanceCollectorProcessor, InvoiceSweepProcessor],
     usesBull: true,
     async bootstrap() {
       const logger = new TelemetryLogger('WalletBalanceCollectorWorker');
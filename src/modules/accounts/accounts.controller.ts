@@ -121,6 +121,8 @@ export class AccountsController {
       'LoanInterestReceived',
       'LoanRepaymentReceived',
       'LoanLiquidationRepayment',
+      'LoanPositionPurchase',
+      'LoanPositionSale',
       'LoanDisbursementPrincipal',
       'LoanDisbursementFee',
       'LoanReturnFee',
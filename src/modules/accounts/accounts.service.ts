@@ -241,6 +241,8 @@ export class AccountsService {
       LoanInterestReceived: 'Loan interest received',
       LoanRepaymentReceived: 'Loan repayment received',
       LoanLiquidationRepayment: 'Loan liquidation repayment',
+      LoanPositionPurchase: 'Loan position purchase',
+      LoanPositionSale: 'Loan position sale',
       LoanDisbursementPrincipal: 'Loan disbursement principal',
       LoanDisbursementFee: 'Loan disbursement fee',
       LoanReturnFee: 'Loan return fee',
@@ -352,6 +354,9 @@ export class AccountsService {
   async getPortfolioOverview(userId: string): Promise<PortfolioOverviewResponseDto> {
     try {
       const result = await this.repository.userRetrievesPortfolioOverview({ userId });
+      const { rules: autoLendRules } = await this.repository.lenderViewsLoanAutoLendRules({
+        lenderUserId: userId,
+      });
 
       const portfolioOverview: PortfolioOverviewDto = {
         totalValue: {
@@ -390,6 +395,17 @@ export class AccountsService {
             percentage: result.performance.monthly.percentage,
           },
         },
+        autoLendRules: autoLendRules.map(rule => ({
+          id: rule.id,
+          status: rule.status,
+          currency: this.mapCurrencyToDto(rule.principalCurrency),
+          minTicketAmount: rule.minTicketAmount,
+          maxTicketAmount: rule.maxTicketAmount,
+          minInterestRate: rule.minInterestRate,
+          termOptions: rule.termInMonthsOptions,
+          maxExposureAmount: rule.maxExposureAmount,
+          currentExposureAmount: rule.currentExposureAmount,
+        })),
         lastUpdated: result.lastUpdated.toISOString(),
       };
 
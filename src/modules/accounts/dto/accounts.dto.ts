@@ -36,6 +36,8 @@ export enum AccountMutationType {
   LOAN_INTEREST_RECEIVED = 'LoanInterestReceived',
   LOAN_REPAYMENT_RECEIVED = 'LoanRepaymentReceived',
   LOAN_LIQUIDATION_REPAYMENT = 'LoanLiquidationRepayment',
+  LOAN_POSITION_PURCHASE = 'LoanPositionPurchase',
+  LOAN_POSITION_SALE = 'LoanPositionSale',
   LOAN_DISBURSEMENT_PRINCIPAL = 'LoanDisbursementPrincipal',
   LOAN_DISBURSEMENT_FEE = 'LoanDisbursementFee',
   LOAN_RETURN_FEE = 'LoanReturnFee',
@@ -622,6 +624,71 @@ export class PortfolioPerformanceDto {
   monthly: PerformanceMetricDto;
 }
 
+export class PortfolioAutoLendRuleDto {
+  @ApiProperty({
+    description: 'Auto-lend rule identifier',
+    example: '42',
+  })
+  @IsString()
+  id: string;
+
+  @ApiProperty({
+    description: 'Rule status',
+    example: 'Active',
+    enum: ['Active', 'Paused'],
+  })
+  @IsString()
+  status: string;
+
+  @ApiProperty({
+    description: 'Principal currency the rule lends',
+    type: CurrencyDto,
+  })
+  currency: CurrencyDto;
+
+  @ApiProperty({
+    description: 'Smallest loan the rule offers, in smallest currency unit',
+    example: '500000000',
+  })
+  @IsString()
+  minTicketAmount: string;
+
+  @ApiProperty({
+    description: 'Largest loan the rule offers, in smallest currency unit',
+    example: '5000000000',
+  })
+  @IsString()
+  maxTicketAmount: string;
+
+  @ApiProperty({
+    description: 'Interest rate floor as decimal',
+    example: 0.12,
+  })
+  @IsNumber()
+  minInterestRate: number;
+
+  @ApiProperty({
+    description: 'Allowed term options in months',
+    example: [3, 6],
+    type: [Number],
+  })
+  termOptions: number[];
+
+  @ApiProperty({
+    description: 'Exposure cap, in smallest currency unit',
+    example: '50000000000',
+  })
+  @IsString()
+  maxExposureAmount: string;
+
+  @ApiProperty({
+    description: 'Open offer principal plus outstanding loan principal, in smallest currency unit',
+    example: '12500000000',
+  })
+  @IsString()
+  currentExposureAmount: string;
+}
+
 export class PortfolioOverviewDto {
   @ApiProperty({
     description: 'Total portfolio value',
@@ -641,6 +708,12 @@ export class PortfolioOverviewDto {
   })
   performance: PortfolioPerformanceDto;
 
+  @ApiProperty({
+    description: 'Active and paused auto-lend rules',
+    type: [PortfolioAutoLendRuleDto],
+  })
+  autoLendRules: PortfolioAutoLendRuleDto[];
+
   @ApiProperty({
     description: 'Last updated timestamp',
     example: '2025-09-22T10:30:00Z',
@@ -5,6 +5,7 @@ import { AdminKycModule } from './kyc/admin-kyc.module';
 import { AdminSettingsModule } from './settings/admin-settings.module';
 import { AdminTestDataModule } from './test-data/admin-test-data.module';
 import { AdminUsersModule } from './users/admin-users.module';
+import { AdminValuationModule } from './valuation/admin-valuation.module';
 import { AdminWalletsModule } from './wallets/admin-wallets.module';
 import { AdminWithdrawalModule } from './withdrawals/admin-withdrawal.module';
 
@@ -17,6 +18,7 @@ import { AdminWithdrawalModule } from './withdrawals/admin-withdrawal.module';
     AdminSettingsModule,
     AdminUsersModule,
     AdminWalletsModule,
+    AdminValuationModule,
   ],
 })
 export class AdminModule {}
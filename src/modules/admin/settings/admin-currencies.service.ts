@@ -1,6 +1,11 @@
 import { Injectable, UnprocessableEntityException } from '@nestjs/common';
 
-import { assertDefined, assertPropNumber, assertPropString } from 'typeshaper';
+import {
+  assertDefined,
+  assertPropNullableString,
+  assertPropNumber,
+  assertPropString,
+} from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
 import { TelemetryLogger } from '../../../shared/telemetry.logger';
@@ -27,6 +32,8 @@ export class AdminCurrenciesService {
         COALESCE(min_withdrawal_amount, '0')::TEXT as min_withdrawal_amount,
         COALESCE(max_withdrawal_amount, '0')::TEXT as max_withdrawal_amount,
         COALESCE(max_daily_withdrawal_amount, '0')::TEXT as max_daily_withdrawal_amount,
+        withdrawal_approval_threshold::TEXT as withdrawal_approval_threshold,
+        withdrawal_dual_approval_threshold::TEXT as withdrawal_dual_approval_threshold,
         COALESCE(min_loan_principal_amount, '0')::TEXT as min_loan_principal_amount,
         COALESCE(max_loan_principal_amount, '0')::TEXT as max_loan_principal_amount,
         COALESCE(max_ltv, 0)::FLOAT as max_ltv,
@@ -51,6 +58,8 @@ export class AdminCurrenciesService {
       assertPropString(row, 'min_withdrawal_amount');
       assertPropString(row, 'max_withdrawal_amount');
       assertPropString(row, 'max_daily_withdrawal_amount');
+      assertPropNullableString(row, 'withdrawal_approval_threshold');
+      assertPropNullableString(row, 'withdrawal_dual_approval_threshold');
       assertPropString(row, 'min_loan_principal_amount');
       assertPropString(row, 'max_loan_principal_amount');
       assertPropNumber(row, 'max_ltv');
@@ -69,6 +78,8 @@ export class AdminCurrenciesService {
         minWithdrawalAmount: row.min_withdrawal_amount,
         maxWithdrawalAmount: row.max_withdrawal_amount,
         maxDailyWithdrawalAmount: row.max_daily_withdrawal_amount,
+        withdrawalApprovalThreshold: row.withdrawal_approval_threshold,
+        withdrawalDualApprovalThreshold: row.withdrawal_dual_approval_threshold,
         minLoanPrincipalAmount: row.min_loan_principal_amount,
         maxLoanPrincipalAmount: row.max_loan_principal_amount,
         maxLtv: row.max_ltv,
@@ -109,9 +120,23 @@ export class AdminCurrenciesService {
           'LTV critical threshold must be less than or equal to liquidation threshold',
         );
       }
-      if (updateData.ltvLiquidationThreshold > updateData.maxLtv) {
+      if (
+        updateData.withdrawalApprovalThreshold != null &&
+        updateData.withdrawalDualApprovalThreshold != null &&
+        BigInt(updateData.withdrawalDualApprovalThreshold) <
+          BigInt(updateData.withdrawalApprovalThreshold)
+      ) {
         throw new UnprocessableEntityException(
-          'LTV liquidation threshold must be less than or equal to maximum LTV',
+          'Withdrawal dual approval threshold must be greater than or equal to approval threshold',
+        );
+      }
+      // Loans originate at up to max LTV, the warning levels start above it
+      if (
+        updateData.ltvWarningThreshold > 0 &&
+        updateData.ltvWarningThreshold <= updateData.maxLtv
+      ) {
+        throw new UnprocessableEntityException(
+          'LTV warning threshold must be greater than maximum LTV',
         );
       }
 
@@ -123,6 +148,8 @@ export class AdminCurrenciesService {
           min_withdrawal_amount = ${updateData.minWithdrawalAmount},
           max_withdrawal_amount = ${updateData.maxWithdrawalAmount},
           max_daily_withdrawal_amount = ${updateData.maxDailyWithdrawalAmount},
+          withdrawal_approval_threshold = ${updateData.withdrawalApprovalThreshold ?? null},
+          withdrawal_dual_approval_threshold = ${updateData.withdrawalDualApprovalThreshold ?? null},
           min_loan_principal_amount = ${updateData.minLoanPrincipalAmount},
           max_loan_principal_amount = ${updateData.maxLoanPrincipalAmount},
           max_ltv = ${updateData.maxLtv},
@@ -149,6 +176,8 @@ export class AdminCurrenciesService {
         minWithdrawalAmount: updateData.minWithdrawalAmount,
         maxWithdrawalAmount: updateData.maxWithdrawalAmount,
         maxDailyWithdrawalAmount: updateData.maxDailyWithdrawalAmount,
+        withdrawalApprovalThreshold: updateData.withdrawalApprovalThreshold ?? null,
+        withdrawalDualApprovalThreshold: updateData.withdrawalDualApprovalThreshold ?? null,
         minLoanPrincipalAmount: updateData.minLoanPrincipalAmount,
         maxLoanPrincipalAmount: updateData.maxLoanPrincipalAmount,
         maxLtv: updateData.maxLtv,
@@ -1,7 +1,7 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 import { Type } from 'class-transformer';
-import { IsNumber, IsOptional, IsString, Max, Min } from 'class-validator';
+import { IsNumber, IsNumberString, IsOptional, IsString, Max, Min } from 'class-validator';
 
 export class CurrencyConfigDto {
   @ApiProperty({
@@ -64,6 +64,24 @@ export class CurrencyConfigDto {
   })
   maxDailyWithdrawalAmount: string;
 
+  @ApiProperty({
+    description:
+      'Withdrawals above this amount need one admin approval (in smallest currency unit), null when disabled',
+    example: '5000000000000000000000',
+    nullable: true,
+    type: String,
+  })
+  withdrawalApprovalThreshold: string | null;
+
+  @ApiProperty({
+    description:
+      'Withdrawals above this amount need two distinct admin approvals (in smallest currency unit), null when disabled',
+    example: '20000000000000000000000',
+    nullable: true,
+    type: String,
+  })
+  withdrawalDualApprovalThreshold: string | null;
+
   @ApiProperty({
     description: 'Minimum loan principal amount (in smallest currency unit)',
     example: '10000000000000000000',
@@ -83,20 +101,20 @@ export class CurrencyConfigDto {
   maxLtv: number;
 
   @ApiProperty({
-    description: 'LTV warning threshold (decimal, e.g. 0.70 = 70%)',
-    example: 0.65,
+    description: 'LTV warning threshold, above maximum LTV (decimal, e.g. 0.87 = 87%)',
+    example: 0.87,
   })
   ltvWarningThreshold: number;
 
   @ApiProperty({
-    description: 'LTV critical threshold (decimal, e.g. 0.80 = 80%)',
-    example: 0.72,
+    description: 'LTV critical threshold (decimal, e.g. 0.95 = 95%)',
+    example: 0.95,
   })
   ltvCriticalThreshold: number;
 
   @ApiProperty({
-    description: 'LTV liquidation threshold (decimal, e.g. 0.85 = 85%)',
-    example: 0.78,
+    description: 'LTV liquidation threshold (decimal, e.g. 1.00 = 100%)',
+    example: 1,
   })
   ltvLiquidationThreshold: number;
 }
@@ -177,6 +195,24 @@ export class CurrencyConfigUpdateDto {
   @IsString()
   maxDailyWithdrawalAmount: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Withdrawals above this amount need one admin approval (in smallest currency unit), omit to disable',
+    example: '5000000000000000000000',
+  })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  withdrawalApprovalThreshold?: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Withdrawals above this amount need two distinct admin approvals (in smallest currency unit), omit to disable',
+    example: '20000000000000000000000',
+  })
+  @IsOptional()
+  @IsNumberString({ no_symbols: true })
+  withdrawalDualApprovalThreshold?: string | null;
+
   @ApiProperty({
     description: 'Minimum loan principal amount (in smallest currency unit)',
     example: '10000000000000000000',
@@ -203,10 +239,10 @@ export class CurrencyConfigUpdateDto {
   maxLtv: number;
 
   @ApiProperty({
-    description: 'LTV warning threshold (decimal, e.g. 0.70 = 70%)',
+    description: 'LTV warning threshold, above maximum LTV (decimal, e.g. 0.87 = 87%)',
     minimum: 0,
     maximum: 1,
-    example: 0.65,
+    example: 0.87,
   })
   @IsNumber({ maxDecimalPlaces: 4 })
   @Min(0)
@@ -214,10 +250,10 @@ export class CurrencyConfigUpdateDto {
   ltvWarningThreshold: number;
 
   @ApiProperty({
-    description: 'LTV critical threshold (decimal, e.g. 0.80 = 80%)',
+    description: 'LTV critical threshold (decimal, e.g. 0.95 = 95%)',
     minimum: 0,
     maximum: 1,
-    example: 0.72,
+    example: 0.95,
   })
   @IsNumber({ maxDecimalPlaces: 4 })
   @Min(0)
@@ -225,10 +261,10 @@ export class CurrencyConfigUpdateDto {
   ltvCriticalThreshold: number;
 
   @ApiProperty({
-    description: 'LTV liquidation threshold (decimal, e.g. 0.85 = 85%)',
+    description: 'LTV liquidation threshold (decimal, e.g. 1.00 = 100%)',
     minimum: 0,
     maximum: 1,
-    example: 0.78,
+    example: 1,
   })
   @IsNumber({ maxDecimalPlaces: 4 })
   @Min(0)
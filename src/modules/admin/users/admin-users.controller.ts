@@ -400,9 +400,9 @@ export class AdminUsersController {
       const loansQuery = `
         SELECT COUNT(*) as active_loans
         FROM loans l
-        JOIN loan_offers lo ON l.loan_offer_id = lo.id
+        JOIN loan_positions lp ON lp.loan_id = l.id
         JOIN loan_applications la ON l.loan_application_id = la.id
-        WHERE (lo.lender_user_id = $1 OR la.borrower_user_id = $1)
+        WHERE (lp.lender_user_id = $1 OR la.borrower_user_id = $1)
           AND l.status IN ('Originated', 'Active')
       `;
 
@@ -462,7 +462,8 @@ export class AdminUsersController {
   @HttpCode(200)
   @ApiOperation({
     summary: 'Perform user administrative actions',
-    description: 'Execute basic administrative actions on user accounts',
+    description:
+      'Execute basic administrative actions on user accounts: suspend, activate, unlock or unfreeze-withdrawals',
   })
   @ApiParam({ name: 'id', description: 'User ID' })
   @ApiResponse({
@@ -496,7 +497,7 @@ export class AdminUsersController {
         throw new BadRequestException('Action is required');
       }
 
-      const validActions = ['suspend', 'activate', 'unlock'];
+      const validActions = ['suspend', 'activate', 'unlock', 'unfreeze-withdrawals'];
       if (!validActions.includes(body.action)) {
         throw new BadRequestException(`Invalid action. Must be one of: ${validActions.join(', ')}`);
       }
@@ -516,6 +517,26 @@ export class AdminUsersController {
         return row;
       });
 
+      // Withdrawal freeze is separate from the account status
+      if (body.action === 'unfreeze-withdrawals') {
+        await this.repo.adminUnfreezesUserWithdrawals({ userId });
+
+        this.logger.log('Admin unfroze user withdrawals', {
+          userId,
+          adminId: session.user.id,
+          reason: body.reason,
+        });
+
+        return {
+          success: true,
+          data: {
+            action: body.action,
+            userId: String(userId),
+            executedAt: new Date().toISOString(),
+          },
+        };
+      }
+
       // Perform action and update user status
       let newStatus: string;
       switch (body.action) {
@@ -0,0 +1,109 @@
+import type { UserSession } from '../../auth/types';
+
+import {
+  ConflictException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { Auth } from '../../../decorators/auth.decorator';
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { validationOptions } from '../../../shared/utils/validation-options';
+import { Session } from '../../auth/auth.decorator';
+import { ValuationCircuitBreakerService } from '../../valuation/valuation-circuit-breaker.service';
+import {
+  ListMarketCircuitBreakersQueryDto,
+  MarketCircuitBreakerListResponseDto,
+  MarketCircuitBreakerResumeResponseDto,
+} from './admin-valuation.dto';
+
+@Controller('admin/valuation')
+@ApiTags('Admin - Valuation')
+@Auth(['Admin'])
+export class AdminValuationController {
+  private readonly logger = new TelemetryLogger(AdminValuationController.name);
+
+  constructor(
+    private readonly repository: CryptogadaiRepository,
+    private readonly valuationCircuitBreakerService: ValuationCircuitBreakerService,
+  ) {}
+
+  @Get('circuit-breaker')
+  @ApiOperation({
+    summary: 'List market circuit breakers',
+    description:
+      'Lists pairs halted after an abnormal price move, most recent first. While a pair is halted its LTV breaches are deferred and platform liquidations of its collateral are blocked.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Circuit breakers retrieved successfully',
+    type: MarketCircuitBreakerListResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin privileges required' })
+  async listCircuitBreakers(
+    @Query(new ValidationPipe(validationOptions)) query: ListMarketCircuitBreakersQueryDto,
+  ): Promise<MarketCircuitBreakerListResponseDto> {
+    const { circuitBreakers } = await this.repository.adminListsMarketCircuitBreakers({
+      status: query.status,
+    });
+
+    return {
+      success: true,
+      data: circuitBreakers,
+    };
+  }
+
+  @Post('circuit-breaker/:id/resume')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resume a halted pair',
+    description:
+      'Ends the halt before the price has stabilised. Deferred LTV breaches that the latest valuation still confirms are emitted, at most the most severe one per loan.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Pair resumed successfully',
+    type: MarketCircuitBreakerResumeResponseDto,
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin privileges required' })
+  @ApiResponse({ status: 409, description: 'Pair is not halted' })
+  async resumeCircuitBreaker(
+    @Session() session: UserSession,
+    @Param('id') circuitBreakerId: string,
+  ): Promise<MarketCircuitBreakerResumeResponseDto> {
+    const result = await this.valuationCircuitBreakerService.resume(
+      circuitBreakerId,
+      session.user.id,
+    );
+
+    if (!result) {
+      throw new ConflictException('Market circuit breaker is not halted');
+    }
+
+    this.logger.log('Admin resumed halted market', {
+      adminId: session.user.id,
+      circuitBreakerId,
+      releasedCount: result.release.releasedCount,
+      emittedCount: result.release.emittedCount,
+    });
+
+    return {
+      success: true,
+      data: {
+        circuitBreaker: result.circuitBreaker,
+        releasedCount: result.release.releasedCount,
+        emittedCount: result.release.emittedCount,
+      },
+    };
+  }
+}
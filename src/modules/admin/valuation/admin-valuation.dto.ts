@@ -0,0 +1,95 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+import { IsIn, IsOptional } from 'class-validator';
+
+export class ListMarketCircuitBreakersQueryDto {
+  @ApiProperty({
+    description: 'Only list circuit breakers with this status',
+    enum: ['Halted', 'Resumed'],
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(['Halted', 'Resumed'])
+  status?: 'Halted' | 'Resumed';
+}
+
+export class MarketCircuitBreakerDto {
+  @ApiProperty({ example: '1' })
+  id: string;
+
+  @ApiProperty({ example: 'crosschain' })
+  blockchainKey: string;
+
+  @ApiProperty({ example: 'slip44:60' })
+  baseCurrencyTokenId: string;
+
+  @ApiProperty({ example: 'iso4217:usd' })
+  quoteCurrencyTokenId: string;
+
+  @ApiProperty({ enum: ['Halted', 'Resumed'], example: 'Halted' })
+  status: 'Halted' | 'Resumed';
+
+  @ApiProperty({
+    description: 'Largest rolling price change seen while halted, 0-1 decimal',
+    example: 0.1325,
+  })
+  priceChangeRate: number;
+
+  @ApiProperty({ example: '1024' })
+  triggerExchangeRateId: string;
+
+  @ApiProperty({ example: '2024-01-15T10:30:00Z' })
+  haltedDate: Date;
+
+  @ApiProperty({
+    description: 'Last time the price moved past the threshold',
+    example: '2024-01-15T10:40:00Z',
+  })
+  lastBreachDate: Date;
+
+  @ApiProperty({ example: '2024-01-15T11:10:00Z', required: false })
+  resumedDate?: Date;
+
+  @ApiProperty({
+    description: 'Admin who resumed the pair, absent when it resumed after stabilising',
+    example: '1',
+    required: false,
+  })
+  resumedByUserId?: string;
+}
+
+export class MarketCircuitBreakerListResponseDto {
+  @ApiProperty({ example: true })
+  success: boolean;
+
+  @ApiProperty({ type: [MarketCircuitBreakerDto] })
+  data: MarketCircuitBreakerDto[];
+}
+
+export class MarketCircuitBreakerResumeResponseDto {
+  @ApiProperty({ example: true })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Resumed circuit breaker and the deferred LTV breaches released by resuming it',
+    type: 'object',
+    properties: {
+      circuitBreaker: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', example: '1' },
+          status: { type: 'string', example: 'Resumed' },
+          resumedDate: { type: 'string', format: 'date-time', example: '2024-01-15T11:10:00Z' },
+          resumedByUserId: { type: 'string', example: '1' },
+        },
+      },
+      releasedCount: { type: 'integer', example: 4 },
+      emittedCount: { type: 'integer', example: 1 },
+    },
+  })
+  data: {
+    circuitBreaker: MarketCircuitBreakerDto;
+    releasedCount: number;
+    emittedCount: number;
+  };
+}
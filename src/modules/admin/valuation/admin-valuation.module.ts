@@ -0,0 +1,31 @@
+import { BullModule } from '@nestjs/bullmq';
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+
+import { SharedModule } from '../../../shared/shared.module';
+import { NotificationModule } from '../../notifications/notification.module';
+import { ValuationService } from '../../valuation/valuation.service';
+import { ValuationCircuitBreakerService } from '../../valuation/valuation-circuit-breaker.service';
+import { ValuationEventService } from '../../valuation/valuation-event.service';
+import { AdminValuationController } from './admin-valuation.controller';
+
+/**
+ * Provides the valuation services the admin endpoints need without the valuation worker,
+ * which only runs in the valuation command
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    SharedModule,
+    NotificationModule,
+    BullModule.registerQueue({
+      name: 'notificationQueue',
+    }),
+    BullModule.registerQueue({
+      name: 'liquidationQueue',
+    }),
+  ],
+  controllers: [AdminValuationController],
+  providers: [ValuationService, ValuationEventService, ValuationCircuitBreakerService],
+})
+export class AdminValuationModule {}
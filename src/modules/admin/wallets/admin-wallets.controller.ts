@@ -1,5 +1,5 @@
-import { Controller, Get } from '@nestjs/common';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Controller, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 
 import { assertDefined, assertPropNumber, assertPropString } from 'typeshaper';
 
@@ -307,4 +307,67 @@ export class AdminWalletsController {
       throw error;
     }
   }
+
+  @Get('unswept-balances')
+  @ApiOperation({
+    summary: 'List unswept invoice balances',
+    description:
+      'Paid invoice balances per blockchain and currency that have not been swept into the hot wallet yet, including sweeps waiting for a retry',
+  })
+  @ApiQuery({
+    name: 'blockchainKey',
+    required: false,
+    description: 'Filter by blockchain',
+    example: 'eip155:56',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Unswept balances retrieved successfully',
+    schema: {
+      type: 'object',
+      properties: {
+        success: { type: 'boolean' },
+        data: {
+          type: 'object',
+          properties: {
+            balances: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  blockchainKey: { type: 'string', example: 'eip155:56' },
+                  tokenId: {
+                    type: 'string',
+                    example: 'bep20:0x55d398326f99059fF775485246999027B3197955',
+                  },
+                  symbol: { type: 'string', example: 'USDT' },
+                  decimals: { type: 'number', example: 18 },
+                  invoiceCount: { type: 'number', example: 3 },
+                  unsweptAmount: {
+                    type: 'string',
+                    example: '1500000000000000000000',
+                    description: 'Paid amount waiting to be swept, in the smallest unit',
+                  },
+                  failedSweepCount: { type: 'number', example: 1 },
+                  oldestPaidDate: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Admin privileges required' })
+  async listUnsweptBalances(@Query('blockchainKey') blockchainKey?: string) {
+    this.logger.log('Admin requesting unswept balances', { blockchainKey });
+
+    const { balances } = await this.repository.adminViewsUnsweptBalances({ blockchainKey });
+
+    return {
+      success: true,
+      data: { balances },
+    };
+  }
 }
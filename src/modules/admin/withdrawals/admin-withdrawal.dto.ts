@@ -308,3 +308,54 @@ export class AdminNotificationDto {
   })
   createdAt: Date;
 }
+
+export class AdminWithdrawalApprovalDto {
+  @ApiPropertyOptional({
+    description: 'Internal notes for audit trail',
+    example: 'Verified beneficiary ownership with the user by phone',
+  })
+  @IsString()
+  @IsOptional()
+  adminNotes?: string;
+}
+
+export class AdminWithdrawalRejectionDto {
+  @ApiProperty({
+    description: 'Reason for rejecting the withdrawal, shared with the user',
+    example: 'Unable to confirm the destination address belongs to the account holder',
+  })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class WithdrawalApprovalResponseDto {
+  @ApiProperty({
+    description: 'Success status of the approval decision',
+    example: true,
+  })
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Withdrawal approval state after the decision',
+    type: 'object',
+    properties: {
+      withdrawalId: { type: 'string', example: '12345' },
+      status: {
+        type: 'string',
+        enum: ['PendingApproval', 'Requested', 'Rejected'],
+        example: 'Requested',
+      },
+      approvalCount: { type: 'number', example: 2 },
+      requiredApprovals: { type: 'number', example: 2 },
+      processedAt: { type: 'string', example: '2024-01-15T10:30:00Z' },
+    },
+  })
+  data: {
+    withdrawalId: string;
+    status: string;
+    approvalCount: number;
+    requiredApprovals: number;
+    processedAt: string;
+  };
+}
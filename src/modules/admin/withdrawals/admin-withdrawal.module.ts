@@ -1,13 +1,21 @@
+import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
 
 import { NotificationModule } from '../../notifications/notification.module';
+import { WithdrawalsQueueService } from '../../withdrawals/withdrawals-queue.service';
 import { AdminWithdrawalsController } from './admin-withdrawals.controller';
 import { AdminWithdrawalsService } from './admin-withdrawals.service';
 
 @Module({
-  imports: [NotificationModule],
+  imports: [
+    NotificationModule,
+    // Approved withdrawals are queued for processing from the admin API
+    BullModule.registerQueue({
+      name: 'withdrawalsQueue',
+    }),
+  ],
   controllers: [AdminWithdrawalsController],
-  providers: [AdminWithdrawalsService],
+  providers: [AdminWithdrawalsService, WithdrawalsQueueService],
   exports: [AdminWithdrawalsService],
 })
 export class AdminWithdrawalModule {}
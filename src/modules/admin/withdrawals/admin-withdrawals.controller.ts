@@ -27,11 +27,14 @@ import { validationOptions } from '../../../shared/utils/validation-options';
 import { Session } from '../../auth/auth.decorator';
 import {
   AdminRefundDecisionDto,
+  AdminWithdrawalApprovalDto,
+  AdminWithdrawalRejectionDto,
   FailedWithdrawalDetailsDto,
   FailedWithdrawalListDto,
   FailedWithdrawalListQueryDto,
   ProcessWithdrawalRefundDto,
   RefundProcessResponseDto,
+  WithdrawalApprovalResponseDto,
 } from './admin-withdrawal.dto';
 import { AdminWithdrawalsService } from './admin-withdrawals.service';
 
@@ -420,7 +423,16 @@ export class AdminWithdrawalsController {
     description: 'Filter by withdrawal status',
     type: 'string',
     required: false,
-    enum: ['Requested', 'Sent', 'Confirmed', 'Failed', 'RefundApproved', 'RefundRejected'],
+    enum: [
+      'PendingApproval',
+      'Rejected',
+      'Requested',
+      'Sent',
+      'Confirmed',
+      'Failed',
+      'RefundApproved',
+      'RefundRejected',
+    ],
   })
   @ApiResponse({
     status: 200,
@@ -521,4 +533,101 @@ export class AdminWithdrawalsController {
   ) {
     return this.adminWithdrawalsService.processWithdrawalRefund(id, session.user.id, body);
   }
+
+  @Post(':id/approve')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60_000 } }) // 10 decisions per minute
+  @ApiOperation({
+    summary: 'Approve withdrawal pending approval',
+    description:
+      'Approve a large withdrawal or a withdrawal to a recently added beneficiary. The withdrawal is queued for processing once enough distinct admins approved it.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Withdrawal ID',
+    example: '12345',
+  })
+  @ApiBody({
+    type: AdminWithdrawalApprovalDto,
+    description: 'Approval details',
+    required: false,
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Approval recorded',
+    type: WithdrawalApprovalResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - withdrawal is not pending approval',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Withdrawal not found',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - admin already approved this withdrawal',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - admin authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - insufficient admin privileges',
+  })
+  async approveWithdrawal(
+    @Param('id') id: string,
+    @Body(new ValidationPipe(validationOptions)) body: AdminWithdrawalApprovalDto,
+    @Session() session: UserSession,
+  ): Promise<WithdrawalApprovalResponseDto> {
+    return this.adminWithdrawalsService.approveWithdrawal(id, session.user.id, body ?? {});
+  }
+
+  @Post(':id/reject')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60_000 } }) // 10 decisions per minute
+  @ApiOperation({
+    summary: 'Reject withdrawal pending approval',
+    description:
+      'Reject a withdrawal pending approval. A single rejection is final and the amount is returned to the user balance.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Withdrawal ID',
+    example: '12345',
+  })
+  @ApiBody({
+    type: AdminWithdrawalRejectionDto,
+    description: 'Rejection details',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal rejected',
+    type: WithdrawalApprovalResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad request - withdrawal is not pending approval',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Withdrawal not found',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - admin authentication required',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - insufficient admin privileges',
+  })
+  async rejectWithdrawal(
+    @Param('id') id: string,
+    @Body(new ValidationPipe(validationOptions)) body: AdminWithdrawalRejectionDto,
+    @Session() session: UserSession,
+  ): Promise<WithdrawalApprovalResponseDto> {
+    return this.adminWithdrawalsService.rejectWithdrawal(id, session.user.id, body);
+  }
 }
@@ -0,0 +1,161 @@
+import type { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import type { AdminWithdrawalApprovalItem } from '../../../shared/repositories/finance.types';
+import type { NotificationQueueService } from '../../notifications/notification-queue.service';
+import type { WithdrawalsQueueService } from '../../withdrawals/withdrawals-queue.service';
+
+import assert from 'node:assert';
+import { describe, it, mock } from 'node:test';
+
+import { AdminWithdrawalsService } from './admin-withdrawals.service';
+
+function createApproval(
+  overrides: Partial<AdminWithdrawalApprovalItem> = {},
+): AdminWithdrawalApprovalItem {
+  return {
+    id: '12',
+    userId: '5',
+    amount: '250000',
+    currencyBlockchainKey: 'eip155:56',
+    currencyTokenId: 'slip44:714',
+    beneficiaryId: '3',
+    beneficiaryAddress: '0xBeneficiary',
+    status: 'PendingApproval',
+    requestDate: new Date('2025-01-01T00:00:00.000Z'),
+    requiredApprovals: 2,
+    approverUserIds: [],
+    approvedDate: null,
+    rejectedDate: null,
+    rejectionReason: null,
+    ...overrides,
+  };
+}
+
+function createService(options: {
+  pending: AdminWithdrawalApprovalItem | null;
+  approved?: AdminWithdrawalApprovalItem;
+}) {
+  const repository = {
+    adminViewsWithdrawalApproval: mock.fn(async () => ({ withdrawal: options.pending })),
+    adminApprovesWithdrawal: mock.fn(async () => ({ withdrawal: options.approved })),
+    adminRejectsWithdrawal: mock.fn(
+      async (params: { rejectionReason: string; rejectionDate: Date }) => ({
+        withdrawal: createApproval({
+          status: 'Rejected',
+          rejectedDate: params.rejectionDate,
+          rejectionReason: params.rejectionReason,
+        }),
+      }),
+    ),
+  };
+  const notificationQueue = {
+    queueNotification: mock.fn(async () => undefined),
+  };
+  const withdrawalsQueue = {
+    queueWithdrawalProcessing: mock.fn(async () => undefined),
+  };
+
+  const service = new AdminWithdrawalsService(
+    repository as unknown as CryptogadaiRepository,
+    notificationQueue as unknown as NotificationQueueService,
+    withdrawalsQueue as unknown as WithdrawalsQueueService,
+  );
+
+  return { service, repository, notificationQueue, withdrawalsQueue };
+}
+
+describe('AdminWithdrawalsService', () => {
+  describe('approveWithdrawal', () => {
+    it('should keep the withdrawal pending until the required approvals are reached', async () => {
+      const { service, repository, withdrawalsQueue } = createService({
+        pending: createApproval(),
+        approved: createApproval({ approverUserIds: ['100'] }),
+      });
+
+      const result = await service.approveWithdrawal('12', '100', {});
+
+      assert.strictEqual(repository.adminApprovesWithdrawal.mock.callCount(), 1);
+      assert.strictEqual(withdrawalsQueue.queueWithdrawalProcessing.mock.callCount(), 0);
+      assert.strictEqual(result.data.status, 'PendingApproval');
+      assert.strictEqual(result.data.approvalCount, 1);
+      assert.strictEqual(result.data.requiredApprovals, 2);
+    });
+
+    it('should queue the withdrawal for processing after the last approval', async () => {
+      const { service, withdrawalsQueue } = createService({
+        pending: createApproval({ approverUserIds: ['100'] }),
+        approved: createApproval({
+          status: 'Requested',
+          approverUserIds: ['100', '101'],
+          approvedDate: new Date('2025-01-01T01:00:00.000Z'),
+        }),
+      });
+
+      const result = await service.approveWithdrawal('12', '101', {});
+
+      assert.strictEqual(result.data.status, 'Requested');
+      assert.strictEqual(withdrawalsQueue.queueWithdrawalProcessing.mock.callCount(), 1);
+      assert.deepStrictEqual(withdrawalsQueue.queueWithdrawalProcessing.mock.calls[0].arguments, [
+        {
+          withdrawalId: '12',
+          amount: '250000',
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'slip44:714',
+          beneficiaryAddress: '0xBeneficiary',
+          userId: '5',
+        },
+      ]);
+    });
+
+    it('should not let the same admin approve twice', async () => {
+      const { service, repository } = createService({
+        pending: createApproval({ approverUserIds: ['100'] }),
+      });
+
+      await assert.rejects(() => service.approveWithdrawal('12', '100', {}), /already approved/);
+      assert.strictEqual(repository.adminApprovesWithdrawal.mock.callCount(), 0);
+    });
+
+    it('should reject withdrawals that are not pending approval', async () => {
+      const { service, repository } = createService({
+        pending: createApproval({ status: 'Requested', requiredApprovals: 0 }),
+      });
+
+      await assert.rejects(
+        () => service.approveWithdrawal('12', '100', {}),
+        /not pending approval/,
+      );
+      assert.strictEqual(repository.adminApprovesWithdrawal.mock.callCount(), 0);
+    });
+  });
+
+  describe('rejectWithdrawal', () => {
+    it('should reject the withdrawal and notify the user', async () => {
+      const { service, repository, notificationQueue, withdrawalsQueue } = createService({
+        pending: createApproval({ approverUserIds: ['100'] }),
+      });
+
+      const result = await service.rejectWithdrawal('12', '101', {
+        reason: 'Destination address flagged by compliance',
+      });
+
+      assert.strictEqual(result.data.status, 'Rejected');
+      assert.strictEqual(repository.adminRejectsWithdrawal.mock.callCount(), 1);
+      assert.strictEqual(withdrawalsQueue.queueWithdrawalProcessing.mock.callCount(), 0);
+      const [notification] = notificationQueue.queueNotification.mock.calls[0]
+        .arguments as unknown as [Record<string, unknown>];
+      assert.strictEqual(notification.type, 'WithdrawalRejected');
+      assert.strictEqual(notification.userId, '5');
+      assert.strictEqual(notification.rejectionReason, 'Destination address flagged by compliance');
+    });
+
+    it('should fail when the withdrawal does not exist', async () => {
+      const { service, repository } = createService({ pending: null });
+
+      await assert.rejects(
+        () => service.rejectWithdrawal('12', '101', { reason: 'Suspicious' }),
+        /Withdrawal not found/,
+      );
+      assert.strictEqual(repository.adminRejectsWithdrawal.mock.callCount(), 0);
+    });
+  });
+});
@@ -5,17 +5,22 @@ import { assertDefined, assertPropString } from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
 import { TelemetryLogger } from '../../../shared/telemetry.logger';
-import { ensureExists, ensureValid } from '../../../shared/utils/ensures.js';
+import { ensureExists, ensureUnique, ensureValid } from '../../../shared/utils/ensures.js';
+import { WithdrawalRejectedNotificationData } from '../../notifications/composers/withdrawal-rejected-notification.composer';
 import { NotificationQueueService } from '../../notifications/notification-queue.service';
+import { WithdrawalsQueueService } from '../../withdrawals/withdrawals-queue.service';
 import {
   AdminNotificationDto,
   AdminRefundDecisionDto,
+  AdminWithdrawalApprovalDto,
+  AdminWithdrawalRejectionDto,
   FailedWithdrawalDetailsDto,
   FailedWithdrawalListDto,
   FailedWithdrawalListQueryDto,
   FailureType,
   RefundDecision,
   RefundProcessResponseDto,
+  WithdrawalApprovalResponseDto,
 } from './admin-withdrawal.dto';
 
 @Injectable()
@@ -25,6 +30,7 @@ export class AdminWithdrawalsService {
   constructor(
     private readonly repo: CryptogadaiRepository,
     private readonly notificationQueueService: NotificationQueueService,
+    private readonly withdrawalsQueueService: WithdrawalsQueueService,
   ) {}
 
   /**
@@ -226,6 +232,101 @@ export class AdminWithdrawalsService {
     }
   }
 
+  /**
+   * Withdrawal approval: withdrawals above the currency approval thresholds or to recent beneficiaries
+   * wait in PendingApproval until enough distinct admins approve, then they are queued for processing
+   */
+  async approveWithdrawal(
+    withdrawalId: string,
+    adminUserId: string,
+    approval: AdminWithdrawalApprovalDto,
+  ): Promise<WithdrawalApprovalResponseDto> {
+    this.logger.log(`Admin ${adminUserId} approving withdrawal ${withdrawalId}`);
+
+    const { withdrawal: pending } = await this.repo.adminViewsWithdrawalApproval({ withdrawalId });
+    ensureExists(pending, 'Withdrawal not found');
+    ensureValid(pending.status === 'PendingApproval', 'Withdrawal is not pending approval');
+    ensureUnique(
+      !pending.approverUserIds.includes(adminUserId),
+      'You have already approved this withdrawal, another admin must approve it',
+    );
+
+    const processedAt = new Date();
+    const { withdrawal } = await this.repo.adminApprovesWithdrawal({
+      withdrawalId,
+      adminUserId,
+      approvalDate: processedAt,
+      notes: approval.adminNotes,
+    });
+
+    if (withdrawal.status === 'Requested') {
+      await this.withdrawalsQueueService.queueWithdrawalProcessing({
+        withdrawalId: withdrawal.id,
+        amount: withdrawal.amount,
+        currencyBlockchainKey: withdrawal.currencyBlockchainKey,
+        currencyTokenId: withdrawal.currencyTokenId,
+        beneficiaryAddress: withdrawal.beneficiaryAddress,
+        userId: withdrawal.userId,
+      });
+      this.logger.log(`Withdrawal ${withdrawalId} approved and queued for processing`);
+    }
+
+    return {
+      success: true,
+      data: {
+        withdrawalId: withdrawal.id,
+        status: withdrawal.status,
+        approvalCount: withdrawal.approverUserIds.length,
+        requiredApprovals: withdrawal.requiredApprovals,
+        processedAt: processedAt.toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Rejects a withdrawal pending approval, the held amount goes back to the user balance
+   */
+  async rejectWithdrawal(
+    withdrawalId: string,
+    adminUserId: string,
+    rejection: AdminWithdrawalRejectionDto,
+  ): Promise<WithdrawalApprovalResponseDto> {
+    this.logger.log(`Admin ${adminUserId} rejecting withdrawal ${withdrawalId}`);
+
+    const { withdrawal: pending } = await this.repo.adminViewsWithdrawalApproval({ withdrawalId });
+    ensureExists(pending, 'Withdrawal not found');
+    ensureValid(pending.status === 'PendingApproval', 'Withdrawal is not pending approval');
+
+    const processedAt = new Date();
+    const { withdrawal } = await this.repo.adminRejectsWithdrawal({
+      withdrawalId,
+      adminUserId,
+      rejectionReason: rejection.reason,
+      rejectionDate: processedAt,
+    });
+
+    const notificationData: WithdrawalRejectedNotificationData = {
+      type: 'WithdrawalRejected',
+      name: 'Withdrawal Rejected',
+      userId: withdrawal.userId,
+      withdrawalId: withdrawal.id,
+      amount: withdrawal.amount,
+      rejectionReason: rejection.reason,
+    };
+    await this.notificationQueueService.queueNotification(notificationData);
+
+    return {
+      success: true,
+      data: {
+        withdrawalId: withdrawal.id,
+        status: withdrawal.status,
+        approvalCount: withdrawal.approverUserIds.length,
+        requiredApprovals: withdrawal.requiredApprovals,
+        processedAt: processedAt.toISOString(),
+      },
+    };
+  }
+
   /**
    * WM-004 Step 1: Failure Detection and Administrative Notification
    * Create administrative notification for failed withdrawal
@@ -561,6 +662,31 @@ export class AdminWithdrawalsService {
       };
     }
 
+    if (query.status === 'PendingApproval') {
+      const result = await this.repo.adminViewsPendingApprovalWithdrawals({
+        page: query.page || 1,
+        limit: query.limit || 20,
+      });
+
+      return {
+        success: true,
+        data: {
+          withdrawals: result.withdrawals,
+          statistics: {
+            totalPendingApproval: result.total,
+          },
+        },
+        pagination: {
+          page: result.page,
+          limit: result.limit,
+          total: result.total,
+          totalPages: result.totalPages,
+          hasNext: result.page < result.totalPages,
+          hasPrev: result.page > 1,
+        },
+      };
+    }
+
     // For now, delegate to failed withdrawals when no status or 'Failed' status
     // TODO: Implement full withdrawal queue with all statuses
     const result = await this.getFailedWithdrawals({
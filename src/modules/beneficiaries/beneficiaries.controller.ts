@@ -1,7 +1,18 @@
 import type { Response } from 'express';
 import type { UserSession } from '../auth/types';
 
-import { Body, Controller, Get, Post, Query, Res } from '@nestjs/common';
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  Ip,
+  Post,
+  Query,
+  Res,
+} from '@nestjs/common';
 import { ApiBody, ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 
@@ -121,10 +132,15 @@ export class BeneficiariesController {
   async verify(
     @Query('token') token: string,
     @Query('callbackURL') callbackURL: string | undefined,
+    @Headers('user-agent') userAgent: string | undefined,
+    @Ip() ipAddress: string,
     @Res() res: Response,
   ) {
     try {
-      const result = await this.beneficiariesService.verify({ token, callbackURL });
+      const result = await this.beneficiariesService.verify(
+        { token, callbackURL },
+        { userAgent, ipAddress },
+      );
 
       // Extract redirect URL from the service response
       const redirectURL = result.data?.redirectURL || '/';
@@ -139,4 +155,76 @@ export class BeneficiariesController {
       return res.redirect(`${errorRedirectURL}?status=error&message=${errorMessage}`);
     }
   }
+
+  @Get('freeze')
+  @Auth({ public: true })
+  @ApiOperation({
+    summary: 'Freeze withdrawals',
+    description:
+      'One-click "this wasn\'t me" link sent when a beneficiary address is added. Freezes withdrawals of the account until an admin restores them, then redirects to the callback URL.',
+  })
+  @ApiQuery({
+    name: 'token',
+    description: 'Freeze token received in the new withdrawal address alert',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+    required: true,
+  })
+  @ApiResponse({
+    status: 302,
+    description: 'Withdrawals frozen, redirecting to the callback URL',
+  })
+  async freeze(@Query('token') token: string, @Res() res: Response) {
+    try {
+      const result = await this.beneficiariesService.freezeWithdrawals(token);
+      const redirectURL = result.data?.redirectURL || '/';
+
+      return res.redirect(`${redirectURL}?status=withdrawals_frozen`);
+    } catch (error) {
+      const errorMessage = encodeURIComponent(error?.message || 'Freeze failed');
+
+      return res.redirect(`/?status=error&message=${errorMessage}`);
+    }
+  }
+
+  @Get('security')
+  @ApiOperation({
+    summary: 'Get withdrawal security settings',
+    description: 'Whitelist-only mode and withdrawal freeze state of the authenticated user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal security settings retrieved successfully',
+  })
+  findSecurity(@Session() session: UserSession) {
+    return this.beneficiariesService.findSecurity(session.user.id);
+  }
+
+  @Post('whitelist-lock')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Lock withdrawal addresses',
+    description:
+      'Switch to whitelist-only mode: withdrawals are only allowed to existing addresses and no new address can be added',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal addresses locked',
+  })
+  lockWhitelist(@Session() session: UserSession) {
+    return this.beneficiariesService.lockWhitelist(session.user.id);
+  }
+
+  @Delete('whitelist-lock')
+  @ApiOperation({
+    summary: 'Unlock withdrawal addresses',
+    description:
+      'Leave whitelist-only mode. New addresses still require email verification and a cooling-off period',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Withdrawal addresses unlocked',
+  })
+  unlockWhitelist(@Session() session: UserSession) {
+    return this.beneficiariesService.unlockWhitelist(session.user.id);
+  }
 }
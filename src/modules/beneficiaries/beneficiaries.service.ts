@@ -8,7 +8,7 @@ import {
   JWTExpired,
   JWTInvalid,
 } from 'jose/errors';
-import { assertPropString } from 'typeshaper';
+import { assertDefined, assertPropString } from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
 import { AppConfigService } from '../../shared/services/app-config.service';
@@ -20,15 +20,31 @@ import {
   ensureUnique,
   ResponseHelper,
 } from '../../shared/utils';
+import { BeneficiaryAddedNotificationData } from '../notifications/composers/beneficiary-added-notification.composer';
 import { BeneficiaryVerificationNotificationData } from '../notifications/composers/beneficiary-verification.composer';
+import { LoginFromNewDeviceNotificationData } from '../notifications/composers/login-from-new-device-notification.composer';
 import { NotificationQueueService } from '../notifications/notification-queue.service';
 import { CreateBeneficiaryDto } from './dto/create-beneficiary.dto';
 import { GetBeneficiariesDto } from './dto/get-beneficiaries.dto';
 import { VerifyBeneficiaryDto } from './dto/verify-beneficiary.dto';
 
+const WITHDRAWAL_FREEZE_TOKEN_PURPOSE = 'withdrawal-freeze';
+
+/**
+ * Device that completed a beneficiary verification, reported in the security alert
+ */
+export interface BeneficiaryVerificationContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 /**
  * Service responsible for managing withdrawal beneficiaries (addresses)
  * Handles creation, validation, and retrieval of beneficiary addresses for cryptocurrency withdrawals
+ *
+ * A verified beneficiary only becomes usable after a cooling-off period (BENEFICIARY_COOLING_OFF_HOURS).
+ * The user is alerted with a "this wasn't me" link that freezes withdrawals of the account,
+ * and can lock the account to its existing beneficiaries (whitelist-only mode).
  */
 @Injectable()
 export class BeneficiariesService {
@@ -57,6 +73,9 @@ export class BeneficiariesService {
       'KYC must be verified before adding a withdrawal address',
     );
 
+    // Whitelist-only mode and frozen accounts do not accept new addresses
+    await this.validateBeneficiariesUnlocked(userId);
+
     // Validate the withdrawal address is not blacklisted or suspicious
     await this.validateAddressNotBlacklisted(createBeneficiaryDto.address);
 
@@ -206,13 +225,14 @@ export class BeneficiariesService {
    * @returns Created and activated beneficiary details with redirect URL
    * @throws Error if token is invalid, expired, or verification fails
    */
-  async verify(verifyDto: VerifyBeneficiaryDto) {
+  async verify(verifyDto: VerifyBeneficiaryDto, context: BeneficiaryVerificationContext = {}) {
     // Verify JWT token - all data is embedded in the token
     // This will throw specific errors (token_expired, invalid_token) if verification fails
     const tokenPayload = await this.verifyBeneficiaryToken(verifyDto.token);
 
     // tokenPayload will never be null here since errors are thrown above
     ensure(tokenPayload, 'Token verification failed');
+    ensure(!('purpose' in tokenPayload), 'Invalid verification token');
 
     // Check if beneficiary already exists (already verified case)
     const existingBeneficiaries = await this.repo.userViewsWithdrawalBeneficiaries({
@@ -241,36 +261,195 @@ export class BeneficiariesService {
         blockchainKey: existingBeneficiary.blockchainKey,
         address: existingBeneficiary.address,
         label: tokenPayload.label,
-        status: 'active',
-        message: 'This withdrawal address has already been verified and is active.',
+        status: existingBeneficiary.isActive ? 'active' : 'pending_activation',
+        activationDate: existingBeneficiary.activationDate,
+        message: 'This withdrawal address has already been verified.',
         redirectURL,
       });
     }
 
-    // Create beneficiary in database (immediately active)
+    // The whitelist may have been locked after the verification email was sent
+    await this.validateBeneficiariesUnlocked(tokenPayload.userId);
+
+    // Create beneficiary in database, usable once the cooling-off period is over
+    const { beneficiaryCoolingOffHours } = this.configService.withdrawalSecurityConfig;
+    const activationDate = new Date(Date.now() + beneficiaryCoolingOffHours * 60 * 60 * 1000);
     const beneficiary = await this.repo.userRegistersWithdrawalBeneficiary({
       userId: tokenPayload.userId,
       blockchainKey: tokenPayload.blockchain,
       address: tokenPayload.address,
+      activationDate,
     });
 
-    this.logger.log('Beneficiary verified and activated', {
+    this.logger.log('Beneficiary verified, activation pending cooling-off period', {
       beneficiaryId: beneficiary.id,
       userId: tokenPayload.userId,
       address: tokenPayload.address,
+      activationDate: activationDate.toISOString(),
     });
 
-    return ResponseHelper.success('Beneficiary address activated', {
+    await this.sendBeneficiaryAddedAlerts(
+      tokenPayload.userId,
+      String(beneficiary.id),
+      beneficiary.blockchainKey,
+      beneficiary.address,
+      activationDate,
+      context,
+      tokenPayload.callbackURL,
+    );
+
+    return ResponseHelper.success('Beneficiary address verified', {
       id: beneficiary.id,
       blockchainKey: beneficiary.blockchainKey,
       address: beneficiary.address,
       label: tokenPayload.label,
-      status: 'active',
-      message: 'Your withdrawal address has been successfully verified and activated.',
+      status: 'pending_activation',
+      activationDate: activationDate.toISOString(),
+      message: `Your withdrawal address has been verified and can be used for withdrawals from ${activationDate.toISOString()}.`,
       redirectURL, // Include redirect URL for frontend to handle
     });
   }
 
+  /**
+   * Freezes withdrawals of the account from the "this wasn't me" link of a new beneficiary alert
+   *
+   * @param token - Freeze token embedded in the alert link
+   * @returns Frozen state with the redirect URL of the beneficiary creation
+   * @throws BadRequestException if the token is invalid or expired
+   */
+  async freezeWithdrawals(token: string) {
+    const tokenPayload: unknown = await this.verifyBeneficiaryToken(token);
+    assertDefined(tokenPayload, 'Token verification failed');
+    assertPropString(tokenPayload, 'purpose');
+    assertPropString(tokenPayload, 'userId');
+    assertPropString(tokenPayload, 'beneficiaryId');
+    ensure(tokenPayload.purpose === WITHDRAWAL_FREEZE_TOKEN_PURPOSE, 'Invalid freeze token');
+
+    const { security } = await this.repo.userFreezesWithdrawals({
+      userId: tokenPayload.userId,
+      reportedBeneficiaryId: tokenPayload.beneficiaryId,
+      frozenDate: new Date(),
+      reason: `User reported beneficiary ${tokenPayload.beneficiaryId}`,
+    });
+
+    this.logger.warn('Withdrawals frozen by user report', {
+      userId: tokenPayload.userId,
+      beneficiaryId: tokenPayload.beneficiaryId,
+    });
+
+    const callbackURL = 'callbackURL' in tokenPayload ? tokenPayload.callbackURL : undefined;
+
+    return ResponseHelper.success('Withdrawals frozen', {
+      withdrawalsFrozenDate: security.withdrawalsFrozenDate,
+      message: 'Withdrawals are frozen for your account. Please contact support to restore them.',
+      redirectURL: typeof callbackURL === 'string' ? callbackURL : '/',
+    });
+  }
+
+  /**
+   * Retrieves the withdrawal security settings of a user
+   *
+   * @param userId - The ID of the user
+   * @returns Whitelist lock and withdrawal freeze state
+   */
+  async findSecurity(userId: string) {
+    const { security } = await this.repo.userViewsWithdrawalSecurity({ userId });
+    return ResponseHelper.success('Withdrawal security retrieved successfully', security);
+  }
+
+  /**
+   * Locks the account to whitelist-only mode, no withdrawal address can be added until unlocked
+   *
+   * @param userId - The ID of the user
+   * @returns Updated withdrawal security settings
+   */
+  async lockWhitelist(userId: string) {
+    const { security } = await this.repo.userLocksWithdrawalWhitelist({
+      userId,
+      lockedDate: new Date(),
+    });
+
+    this.logger.log('Withdrawal whitelist locked', { userId });
+
+    return ResponseHelper.success('Withdrawal addresses locked', security);
+  }
+
+  /**
+   * Leaves whitelist-only mode, new addresses still go through verification and the cooling-off period
+   *
+   * @param userId - The ID of the user
+   * @returns Updated withdrawal security settings
+   */
+  async unlockWhitelist(userId: string) {
+    const { security } = await this.repo.userUnlocksWithdrawalWhitelist({ userId });
+
+    this.logger.log('Withdrawal whitelist unlocked', { userId });
+
+    return ResponseHelper.success('Withdrawal addresses unlocked', security);
+  }
+
+  /**
+   * Ensures the user may add withdrawal addresses
+   *
+   * @param userId - The user ID to check
+   * @throws Error if the account is in whitelist-only mode or its withdrawals are frozen
+   */
+  private async validateBeneficiariesUnlocked(userId: string): Promise<void> {
+    const { security } = await this.repo.userViewsWithdrawalSecurity({ userId });
+
+    ensurePrecondition(
+      !security.withdrawalsFrozenDate,
+      'Withdrawals are frozen for your account. Please contact support',
+    );
+    ensurePrecondition(
+      !security.whitelistLockedDate,
+      'Withdrawal addresses are locked. Unlock them in your security settings to add a new address',
+    );
+  }
+
+  /**
+   * Alerts the user about a new beneficiary, on its own and through the new device security alert,
+   * both carrying the link that freezes withdrawals
+   */
+  private async sendBeneficiaryAddedAlerts(
+    userId: string,
+    beneficiaryId: string,
+    blockchainKey: string,
+    address: string,
+    activationDate: Date,
+    context: BeneficiaryVerificationContext,
+    callbackURL?: string,
+  ): Promise<void> {
+    const freezeToken = await signJWT(
+      { purpose: WITHDRAWAL_FREEZE_TOKEN_PURPOSE, userId, beneficiaryId, callbackURL },
+      this.configService.authConfig.secret,
+      this.configService.withdrawalSecurityConfig.freezeLinkExpirationHours * 60 * 60,
+    );
+    const baseUrl = this.configService.authConfig.url.replace(/\/api\/auth$/, '');
+    const freezeUrl = `${baseUrl}/api/beneficiaries/freeze?token=${freezeToken}`;
+
+    const beneficiaryAdded: BeneficiaryAddedNotificationData = {
+      type: 'BeneficiaryAdded',
+      userId,
+      beneficiaryId,
+      blockchain: blockchainKey,
+      address,
+      activationDate: activationDate.toISOString(),
+      freezeUrl,
+    };
+    await this.notificationQueueService.queueNotification(beneficiaryAdded);
+
+    const securityAlert: LoginFromNewDeviceNotificationData = {
+      type: 'LoginFromNewDevice',
+      userId,
+      deviceInfo: context.userAgent,
+      ipAddress: context.ipAddress,
+      timestamp: new Date().toISOString(),
+      freezeUrl,
+    };
+    await this.notificationQueueService.queueNotification(securityAlert);
+  }
+
   /**
    * Sends verification email with token link
    *
@@ -0,0 +1,142 @@
+import type { GeneratedDocument, LoanAmendmentData } from '../document.types';
+
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Injectable } from '@nestjs/common';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { DocumentComposer, DocumentComposerAbstract } from '../document-composer.abstract';
+
+@Injectable()
+@DocumentComposer('LoanAmendment')
+export class LoanAmendmentComposer extends DocumentComposerAbstract<LoanAmendmentData> {
+  private readonly logger = new TelemetryLogger(LoanAmendmentComposer.name);
+
+  async generateDocument(data: LoanAmendmentData): Promise<GeneratedDocument> {
+    this.logger.log(
+      `Generating loan amendment for loan: ${data.loanId}, extension: ${data.extensionId}`,
+    );
+
+    const documentId = uuidv4();
+    const fileName = `loan-amendment-${data.loanId}-${data.extensionId}-${documentId}`;
+    const outputDir = join(tmpdir(), 'cg-documents');
+    const filePath = join(outputDir, fileName);
+
+    await mkdir(outputDir, { recursive: true });
+
+    const content = this.generateHtmlContent(data);
+
+    await writeFile(filePath, content);
+    const stats = await stat(filePath);
+
+    return {
+      id: documentId,
+      type: data.type,
+      filePath,
+      fileName,
+      size: stats.size,
+      createdAt: new Date(),
+      metadata: {
+        loanId: data.loanId,
+        extensionId: data.extensionId,
+        borrowerId: data.borrowerId,
+        lenderId: data.lenderId,
+      },
+    };
+  }
+
+  private generateHtmlContent(data: LoanAmendmentData): string {
+    const symbol = data.principalCurrency.symbol;
+    const interestClause =
+      data.interestHandling === 'Capitalize'
+        ? `Interest accrued to the previous maturity date (${data.capitalizedInterestAmount} ${symbol}) is added to the principal.`
+        : `Interest accrued to the previous maturity date (${data.settledInterestAmount} ${symbol}) is paid to the lender on the amendment date.`;
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Loan Amendment - ${data.loanId}</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 40px; line-height: 1.6; }
+        .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; }
+        .section { margin: 20px 0; }
+        .terms { background: #f9f9f9; padding: 15px; border-left: 4px solid #007bff; }
+        table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+        th, td { border: 1px solid #ddd; padding: 12px; text-align: left; }
+        th { background-color: #f2f2f2; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>LOAN AMENDMENT</h1>
+        <p><strong>Agreement ID:</strong> ${data.loanId}</p>
+        <p><strong>Amendment ID:</strong> ${data.extensionId}</p>
+        <p><strong>Date:</strong> ${data.acceptedDate.toLocaleDateString()}</p>
+    </div>
+
+    <div class="section">
+        <h2>AMENDED TERMS</h2>
+        <table>
+            <tr>
+                <th></th>
+                <th>Previous</th>
+                <th>Amended</th>
+            </tr>
+            <tr>
+                <th>Principal Amount</th>
+                <td>${data.previousPrincipalAmount} ${symbol}</td>
+                <td>${data.principalAmount} ${symbol}</td>
+            </tr>
+            <tr>
+                <th>Maturity Date</th>
+                <td>${data.previousMaturityDate.toLocaleDateString()}</td>
+                <td>${data.maturityDate.toLocaleDateString()}</td>
+            </tr>
+            <tr>
+                <th>Extension Term</th>
+                <td></td>
+                <td>${data.termMonths} months</td>
+            </tr>
+            <tr>
+                <th>Interest Rate</th>
+                <td></td>
+                <td>${data.interestRate}% per annum</td>
+            </tr>
+            <tr>
+                <th>Interest Amount</th>
+                <td></td>
+                <td>${data.interestAmount} ${symbol}</td>
+            </tr>
+            <tr>
+                <th>Repayment Amount</th>
+                <td></td>
+                <td>${data.repaymentAmount} ${symbol}</td>
+            </tr>
+        </table>
+    </div>
+
+    <div class="terms">
+        <h3>TERMS OF THE AMENDMENT</h3>
+        <ol>
+            <li><strong>Accrued Interest:</strong> ${interestClause}</li>
+            <li><strong>Extension:</strong> The maturity date is moved to ${data.maturityDate.toLocaleDateString()} and interest for the extension term is payable in full at maturity.</li>
+            <li><strong>Collateral:</strong> The collateral pledged under the original agreement continues to secure the amended loan.</li>
+            <li><strong>Other Terms:</strong> All other terms of the original loan agreement remain in force.</li>
+        </ol>
+    </div>
+
+    <div style="margin-top: 40px; font-size: 12px; color: #666;">
+        <p><em>This amendment was requested by the borrower and accepted by the lender on the CryptoGadai platform.</em></p>
+        <p><em>Generated on: ${new Date().toLocaleString()}</em></p>
+    </div>
+</body>
+</html>`;
+  }
+}
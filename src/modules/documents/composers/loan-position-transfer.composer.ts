@@ -0,0 +1,142 @@
+import type { GeneratedDocument, LoanPositionTransferData } from '../document.types';
+
+import { mkdir, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { Injectable } from '@nestjs/common';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { DocumentComposer, DocumentComposerAbstract } from '../document-composer.abstract';
+
+@Injectable()
+@DocumentComposer('LoanPositionTransfer')
+export class LoanPositionTransferComposer extends DocumentComposerAbstract<LoanPositionTransferData> {
+  private readonly logger = new TelemetryLogger(LoanPositionTransferComposer.name);
+
+  async generateDocument(data: LoanPositionTransferData): Promise<GeneratedDocument> {
+    this.logger.log(
+      `Generating loan position transfer deed for loan: ${data.loanId}, listing: ${data.listingId}`,
+    );
+
+    const documentId = uuidv4();
+    const fileName = `loan-position-transfer-${data.loanId}-${data.listingId}-${documentId}`;
+    const outputDir = join(tmpdir(), 'cg-documents');
+    const filePath = join(outputDir, fileName);
+
+    await mkdir(outputDir, { recursive: true });
+
+    const content = this.generateHtmlContent(data);
+
+    await writeFile(filePath, content);
+    const stats = await stat(filePath);
+
+    return {
+      id: documentId,
+      type: data.type,
+      filePath,
+      fileName,
+      size: stats.size,
+      createdAt: new Date(),
+      metadata: {
+        loanId: data.loanId,
+        listingId: data.listingId,
+        borrowerId: data.borrowerId,
+        sellerId: data.sellerId,
+        buyerId: data.buyerId,
+      },
+    };
+  }
+
+  private generateHtmlContent(data: LoanPositionTransferData): string {
+    const symbol = data.principalCurrency.symbol;
+
+    return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Loan Position Transfer Deed - ${data.loanId}</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 40px; line-height: 1.6; }
+        .header { text-align: center; border-bottom: 2px solid #333; padding-bottom: 20px; }
+        .section { margin: 20px 0; }
+        .terms { background: #f9f9f9; padding: 15px; border-left: 4px solid #007bff; }
+        table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+        th, td { border: 1px solid #ddd; padding: 12px; text-align: left; }
+        th { background-color: #f2f2f2; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>LOAN POSITION TRANSFER DEED</h1>
+        <p><strong>Agreement ID:</strong> ${data.loanId}</p>
+        <p><strong>Listing ID:</strong> ${data.listingId}</p>
+        <p><strong>Date:</strong> ${data.transferDate.toLocaleDateString()}</p>
+    </div>
+
+    <div class="section">
+        <h2>PARTIES</h2>
+        <table>
+            <tr>
+                <th>Transferor (Seller)</th>
+                <td>User ${data.sellerId}</td>
+            </tr>
+            <tr>
+                <th>Transferee (Buyer)</th>
+                <td>User ${data.buyerId}</td>
+            </tr>
+            <tr>
+                <th>Borrower</th>
+                <td>User ${data.borrowerId}</td>
+            </tr>
+        </table>
+    </div>
+
+    <div class="section">
+        <h2>TRANSFERRED POSITION</h2>
+        <table>
+            <tr>
+                <th>Principal Amount</th>
+                <td>${data.principalAmount} ${symbol}</td>
+            </tr>
+            <tr>
+                <th>Interest Amount</th>
+                <td>${data.interestAmount} ${symbol}</td>
+            </tr>
+            <tr>
+                <th>Amount Receivable at Maturity</th>
+                <td>${data.redeliveryAmount} ${symbol}</td>
+            </tr>
+            <tr>
+                <th>Maturity Date</th>
+                <td>${data.maturityDate.toLocaleDateString()}</td>
+            </tr>
+            <tr>
+                <th>Purchase Price</th>
+                <td>${data.purchasePriceAmount} ${symbol}</td>
+            </tr>
+        </table>
+    </div>
+
+    <div class="terms">
+        <h3>TERMS OF THE TRANSFER</h3>
+        <ol>
+            <li><strong>Assignment:</strong> The transferor assigns all rights as lender under the loan agreement to the transferee from the transfer date.</li>
+            <li><strong>Consideration:</strong> The purchase price is paid from the transferee's platform balance to the transferor on the transfer date.</li>
+            <li><strong>Future Payments:</strong> Repayments, interest and liquidation proceeds received after the transfer date are paid to the transferee.</li>
+            <li><strong>Borrower Obligations:</strong> The borrower's obligations and the pledged collateral are unchanged by this transfer.</li>
+        </ol>
+    </div>
+
+    <div style="margin-top: 40px; font-size: 12px; color: #666;">
+        <p><em>This transfer was executed on the CryptoGadai secondary market.</em></p>
+        <p><em>Generated on: ${new Date().toLocaleString()}</em></p>
+    </div>
+</body>
+</html>`;
+  }
+}
@@ -4,6 +4,8 @@ import { DiscoveryModule } from '@nestjs/core';
 
 import { SharedModule } from '../../shared/shared.module';
 import { LoanAgreementComposer } from './composers/loan-agreement.composer';
+import { LoanAmendmentComposer } from './composers/loan-amendment.composer';
+import { LoanPositionTransferComposer } from './composers/loan-position-transfer.composer';
 import { DocumentService } from './document.service';
 import { DocumentCompletionProcessor } from './document-completion.processor';
 import { DocumentComposerFactory } from './document-composer.factory';
@@ -38,6 +40,8 @@ import { MinioStorageProvider } from './providers/minio-storage.provider';
 
     // Document Composers
     LoanAgreementComposer,
+    LoanAmendmentComposer,
+    LoanPositionTransferComposer,
   ],
   exports: [DocumentService, DocumentQueueService, DocumentEventService],
 })
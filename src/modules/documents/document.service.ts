@@ -167,15 +167,15 @@ export class DocumentService {
 
   /**
    * Create a document generation request and dispatch to BullMQ queue
+   * Callers that record the request in loan_documents beforehand pass their own requestId
    */
   async createDocumentRequest(
     type: DocumentTypeEnum,
     relatedEntityId: string,
     data: DocumentData,
     metadata?: Record<string, unknown>,
+    requestId: string = uuidv4(),
   ): Promise<DocumentGenerationRequest> {
-    const requestId = uuidv4();
-
     const request: DocumentGenerationRequest = {
       id: requestId,
       type,
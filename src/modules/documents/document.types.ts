@@ -3,6 +3,8 @@ export enum DocumentTypeEnum {
   LOAN_INVOICE = 'LoanInvoice',
   LIQUIDATION_NOTICE = 'LiquidationNotice',
   REPAYMENT_RECEIPT = 'RepaymentReceipt',
+  LOAN_AMENDMENT = 'LoanAmendment',
+  LOAN_POSITION_TRANSFER = 'LoanPositionTransfer',
 }
 
 export interface DocumentData {
@@ -40,6 +42,47 @@ export interface LoanAgreementData extends DocumentData {
   };
 }
 
+export interface LoanAmendmentData extends DocumentData {
+  loanId: string;
+  extensionId: string;
+  borrowerId: string;
+  lenderId: string;
+  interestHandling: 'Settle' | 'Capitalize';
+  termMonths: number;
+  interestRate: number;
+  previousPrincipalAmount: string;
+  principalAmount: string;
+  settledInterestAmount: string;
+  capitalizedInterestAmount: string;
+  interestAmount: string;
+  repaymentAmount: string;
+  previousMaturityDate: Date;
+  maturityDate: Date;
+  acceptedDate: Date;
+  principalCurrency: {
+    name: string;
+    symbol: string;
+  };
+}
+
+export interface LoanPositionTransferData extends DocumentData {
+  loanId: string;
+  listingId: string;
+  borrowerId: string;
+  sellerId: string;
+  buyerId: string;
+  purchasePriceAmount: string;
+  principalAmount: string;
+  interestAmount: string;
+  redeliveryAmount: string;
+  maturityDate: Date;
+  transferDate: Date;
+  principalCurrency: {
+    name: string;
+    symbol: string;
+  };
+}
+
 export interface DocumentGenerationPayload {
   type: DocumentTypeEnum;
   data: DocumentData;
@@ -81,4 +124,6 @@ export type DocumentType =
   | 'LoanAgreement'
   | 'LoanInvoice'
   | 'LiquidationNotice'
-  | 'RepaymentReceipt';
+  | 'RepaymentReceipt'
+  | 'LoanAmendment'
+  | 'LoanPositionTransfer';
@@ -129,8 +129,8 @@ export class CurrencyDetailDto {
   maxLtv: number;
 
   @ApiProperty({
-    description: 'LTV threshold that triggers warning notifications (decimal, e.g., 0.56 = 56%)',
-    example: 0.56,
+    description: 'LTV threshold that triggers warning notifications (decimal, e.g., 0.87 = 87%)',
+    example: 0.87,
     minimum: 0,
     maximum: 1,
   })
@@ -140,8 +140,8 @@ export class CurrencyDetailDto {
   ltvWarningThreshold: number;
 
   @ApiProperty({
-    description: 'LTV threshold that triggers critical alerts (decimal, e.g., 0.665 = 66.5%)',
-    example: 0.665,
+    description: 'LTV threshold that triggers critical alerts (decimal, e.g., 0.95 = 95%)',
+    example: 0.95,
     minimum: 0,
     maximum: 1,
   })
@@ -151,8 +151,8 @@ export class CurrencyDetailDto {
   ltvCriticalThreshold: number;
 
   @ApiProperty({
-    description: 'LTV threshold that triggers automatic liquidation (decimal, e.g., 0.70 = 70%)',
-    example: 0.7,
+    description: 'LTV threshold that triggers automatic liquidation (decimal, e.g., 1.00 = 100%)',
+    example: 1,
     minimum: 0,
     maximum: 1,
   })
@@ -4,6 +4,7 @@ import { DiscoveryService } from '@nestjs/core';
 import { assertDefined, assertPropString, isString } from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { IndexedBlock } from '../../shared/repositories/finance.types';
 import { RedisService } from '../../shared/services/redis.service';
 import { TelemetryLogger } from '../../shared/telemetry.logger';
 import { InvoicePaymentQueueService } from '../invoice-payments/invoice-payment.queue.service';
@@ -164,4 +165,88 @@ export abstract class IndexerListener {
       detectedAt: new Date(data.timestamp * 1000).toISOString(),
     });
   }
+
+  async loadCheckpoint(): Promise<IndexedBlock | undefined> {
+    const { checkpoint } = await this.repository.platformViewsIndexerCheckpoint({
+      blockchainKey: this.#requireBlockchainKey(),
+    });
+    return checkpoint;
+  }
+
+  async findIndexedBlock(blockNumber: number): Promise<IndexedBlock | undefined> {
+    const { block } = await this.repository.platformViewsIndexedBlock({
+      blockchainKey: this.#requireBlockchainKey(),
+      blockNumber,
+    });
+    return block;
+  }
+
+  /**
+   * Dispatches the payments of a confirmed block and checkpoints it.
+   * Payments dispatched earlier, before a restart or from a block that was reorged out, are not dispatched twice.
+   */
+  async dispatchConfirmedBlock(
+    block: IndexedBlock,
+    transactions: DetectedTransaction[],
+    retainedBlockCount: number,
+  ): Promise<IndexedBlock> {
+    const blockchainKey = this.#requireBlockchainKey();
+    const paymentHashes = transactions.map(transaction => transaction.txHash);
+
+    const { payments } = await this.repository.platformViewsIndexerDispatchedPayments({
+      blockchainKey,
+      paymentHashes,
+    });
+    const dispatchedHashes = new Set(payments.map(payment => payment.paymentHash));
+
+    for (const transaction of transactions) {
+      if (dispatchedHashes.has(transaction.txHash)) {
+        this.logger.debug(`Payment ${transaction.txHash} was already dispatched, skipping`);
+        continue;
+      }
+      await this.dispatchDetectedTransaction(transaction);
+    }
+
+    const { checkpoint } = await this.repository.platformRecordsIndexedBlock({
+      blockchainKey,
+      blockNumber: block.blockNumber,
+      blockHash: block.blockHash,
+      paymentHashes,
+      processedDate: new Date(),
+      retainedBlockCount,
+    });
+    return checkpoint;
+  }
+
+  /**
+   * Rewinds the checkpoint to a block that survived a reorg.
+   * Payments already dispatched from the orphaned blocks are flagged for review.
+   */
+  async orphanBlocksAbove(checkpoint: IndexedBlock): Promise<void> {
+    const blockchainKey = this.#requireBlockchainKey();
+
+    const { orphanedPayments } = await this.repository.platformOrphansIndexedBlocks({
+      blockchainKey,
+      checkpoint,
+      orphanedDate: new Date(),
+    });
+
+    this.logger.warn(
+      `Reorg on ${blockchainKey}: rewound to block ${checkpoint.blockNumber} (${checkpoint.blockHash})`,
+    );
+
+    for (const payment of orphanedPayments) {
+      this.logger.error(
+        `Payment ${payment.paymentHash} was dispatched from orphaned block ${payment.blockNumber} (${payment.blockHash}) on ${blockchainKey}`,
+      );
+    }
+  }
+
+  #requireBlockchainKey(): string {
+    const blockchainKey = this.getBlockchainKey();
+    if (!blockchainKey) {
+      throw new Error('Blockchain key not found for listener');
+    }
+    return blockchainKey;
+  }
 }
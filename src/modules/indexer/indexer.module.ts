@@ -7,14 +7,17 @@ import { IndexerEventService } from './indexer-event.service';
 import { BitcoinMainnetIndexerListener } from './listeners/bitcoin-mainnet.listener';
 import { BscMainnetIndexerListener } from './listeners/bsc-mainnet.listener';
 import { CgTestnetIndexerListener } from './listeners/cg-testnet.listener';
+import { ChainPluginIndexerListenerFactory } from './listeners/chain-plugin.listener';
 import { EthereumHoodiIndexerListener } from './listeners/ethereum-hoodi.listener';
 import { EthereumMainnetIndexerListener } from './listeners/ethereum-mainnet.listener';
 import { SolanaMainnetIndexerListener } from './listeners/solana-mainnet.listener';
+import { TronMainnetIndexerListener } from './listeners/tron-mainnet.listener';
 
 @Module({
   imports: [SharedModule, InvoicePaymentModule, DiscoveryModule],
   providers: [
     IndexerEventService,
+    ChainPluginIndexerListenerFactory,
 
     // Indexer Listeners
     BitcoinMainnetIndexerListener,
@@ -23,7 +26,8 @@ import { SolanaMainnetIndexerListener } from './listeners/solana-mainnet.listene
     EthereumHoodiIndexerListener,
     EthereumMainnetIndexerListener,
     SolanaMainnetIndexerListener,
+    TronMainnetIndexerListener,
   ],
-  exports: [IndexerEventService],
+  exports: [IndexerEventService, ChainPluginIndexerListenerFactory],
 })
 export class IndexerModule {}
@@ -4,6 +4,7 @@ import { DiscoveryService } from '@nestjs/core';
 import { AppConfigService } from '../../shared/services/app-config.service';
 import { TelemetryLogger } from '../../shared/telemetry.logger';
 import { IndexerListener } from './indexer-listener.abstract';
+import { ChainPluginIndexerListenerFactory } from './listeners/chain-plugin.listener';
 
 @Injectable()
 export class IndexerProcessor implements OnModuleInit, OnModuleDestroy {
@@ -12,6 +13,7 @@ export class IndexerProcessor implements OnModuleInit, OnModuleDestroy {
   constructor(
     private readonly discovery: DiscoveryService,
     private readonly appConfig: AppConfigService,
+    private readonly chainPluginListenerFactory: ChainPluginIndexerListenerFactory,
   ) {}
 
   #startedListeners = new Set<IndexerListener>();
@@ -25,12 +27,22 @@ export class IndexerProcessor implements OnModuleInit, OnModuleDestroy {
     const enabledIndexers = this.appConfig.enabledIndexers;
     this.logger.log(`Starting indexers for blockchain keys: ${enabledIndexers.join(', ')}`);
 
-    const listeners = this.discovery.getProviders().filter(wrapper => {
-      return wrapper.instance && wrapper.instance instanceof IndexerListener;
-    });
+    const discoveredListeners = this.discovery
+      .getProviders()
+      .filter(wrapper => wrapper.instance && wrapper.instance instanceof IndexerListener)
+      .map(wrapper => wrapper.instance as IndexerListener);
 
-    for (const wrapper of listeners) {
-      const listener = wrapper.instance as IndexerListener;
+    // Chain plug-ins get a listener unless the chain already has a dedicated one
+    const listeners = [
+      ...discoveredListeners,
+      ...this.chainPluginListenerFactory.createListeners(
+        discoveredListeners
+          .map(listener => listener.getBlockchainKey())
+          .filter((key): key is string => !!key),
+      ),
+    ];
+
+    for (const listener of listeners) {
       const blockchainKey = listener.getBlockchainKey();
 
       if (!blockchainKey || !enabledIndexers.includes(blockchainKey)) {
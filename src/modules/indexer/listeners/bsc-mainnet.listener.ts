@@ -33,6 +33,7 @@ export class BscMainnetIndexerListener extends EthereumIndexerListener {
       nativeTokenId: 'slip44:714',
       tokenPrefix: 'bep20',
       wsUrl,
+      confirmations: appConfig.blockchains[BSC_MAINNET_KEY].confirmations,
     });
   }
 }
@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { RedisService } from '../../../shared/services/redis.service';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { ChainRegistry } from '../../../shared/wallets/chain-registry.service';
+import { InvoicePaymentQueueService } from '../../invoice-payments/invoice-payment.queue.service';
+import { IndexerListener } from '../indexer-listener.abstract';
+import { EthereumIndexerConfig, EthereumIndexerListener } from './ethereum.listener';
+
+/**
+ * EVM indexer listener of a chain plug-in. It is created at runtime rather than discovered,
+ * so the blockchain key comes from the plug-in instead of the `@Listener` decorator.
+ */
+export class ChainPluginIndexerListener extends EthereumIndexerListener {
+  readonly logger: TelemetryLogger;
+
+  constructor(
+    discovery: DiscoveryService,
+    redis: RedisService,
+    invoicePaymentQueue: InvoicePaymentQueueService,
+    repository: CryptogadaiRepository,
+    private readonly blockchainKey: string,
+    config: EthereumIndexerConfig,
+  ) {
+    super(discovery, redis, invoicePaymentQueue, repository, config);
+    this.logger = new TelemetryLogger(`${ChainPluginIndexerListener.name}:${blockchainKey}`);
+  }
+
+  override getBlockchainKey() {
+    return this.blockchainKey;
+  }
+}
+
+@Injectable()
+export class ChainPluginIndexerListenerFactory {
+  constructor(
+    private readonly discovery: DiscoveryService,
+    private readonly redis: RedisService,
+    private readonly invoicePaymentQueue: InvoicePaymentQueueService,
+    private readonly repository: CryptogadaiRepository,
+    private readonly chainRegistry: ChainRegistry,
+  ) {}
+
+  /**
+   * Listeners of the plug-ins with an indexer, skipping chains that already have a discovered listener
+   */
+  createListeners(excludedBlockchainKeys: string[]): IndexerListener[] {
+    const listeners: IndexerListener[] = [];
+
+    for (const { blockchainKey, chain } of this.chainRegistry.getAllChains()) {
+      const indexer = chain.indexer;
+      if (!indexer || excludedBlockchainKeys.includes(blockchainKey)) continue;
+
+      switch (indexer.type) {
+        case 'evm':
+          listeners.push(
+            new ChainPluginIndexerListener(
+              this.discovery,
+              this.redis,
+              this.invoicePaymentQueue,
+              this.repository,
+              blockchainKey,
+              indexer,
+            ),
+          );
+          break;
+      }
+    }
+
+    return listeners;
+  }
+}
@@ -33,6 +33,7 @@ export class EthereumHoodiIndexerListener extends EthereumIndexerListener {
       wsUrl: appConfig.blockchains[ETHEREUM_HOODI_KEY].rpcUrls[0]
         .replace('https://', 'wss://')
         .replace('http://', 'ws://'),
+      confirmations: appConfig.blockchains[ETHEREUM_HOODI_KEY].confirmations,
     });
   }
 }
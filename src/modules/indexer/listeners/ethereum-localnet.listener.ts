@@ -33,6 +33,7 @@ export class EthereumLocalnetIndexerListener extends EthereumIndexerListener {
       wsUrl: appConfig.blockchains[ETHEREUM_LOCALNET_KEY].rpcUrls[0]
         .replace('https://', 'wss://')
         .replace('http://', 'ws://'),
+      confirmations: appConfig.blockchains[ETHEREUM_LOCALNET_KEY].confirmations,
     });
   }
 }
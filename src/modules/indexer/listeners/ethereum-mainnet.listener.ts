@@ -33,6 +33,7 @@ export class EthereumMainnetIndexerListener extends EthereumIndexerListener {
       wsUrl: appConfig.blockchains[ETHEREUM_MAINNET_KEY].rpcUrls[0]
         .replace('https://', 'wss://')
         .replace('http://', 'ws://'),
+      confirmations: appConfig.blockchains[ETHEREUM_MAINNET_KEY].confirmations,
     });
   }
 }
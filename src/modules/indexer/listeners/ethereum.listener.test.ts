@@ -135,8 +135,22 @@ describe('EthereumIndexerListener Integration Tests', function () {
         },
       };
 
+      let checkpoint: { blockNumber: number; blockHash: string } | undefined;
       const mockRepository = {
         platformViewsActiveInvoices: async () => [],
+        platformViewsIndexerCheckpoint: async () => ({ checkpoint }),
+        platformViewsIndexedBlock: async () => ({ block: undefined }),
+        platformViewsIndexerDispatchedPayments: async () => ({ payments: [] }),
+        platformRecordsIndexedBlock: async (params: { blockNumber: number; blockHash: string }) => {
+          checkpoint = { blockNumber: params.blockNumber, blockHash: params.blockHash };
+          return { checkpoint };
+        },
+        platformOrphansIndexedBlocks: async (params: {
+          checkpoint: { blockNumber: number; blockHash: string };
+        }) => {
+          checkpoint = params.checkpoint;
+          return { orphanedPayments: [] };
+        },
       };
 
       module = await Test.createTestingModule({
@@ -214,94 +228,90 @@ describe('EthereumIndexerListener Integration Tests', function () {
   );
 
   describe('Native ETH Transaction Detection', function () {
-    it(
-      'should detect native ETH transaction to watched address',
-      { timeout: 30000 },
-      async function () {
-        detectedTransactions = [];
+    it('should detect native ETH transaction to watched address', {
+      timeout: 30000,
+    }, async function () {
+      detectedTransactions = [];
 
-        // Get test accounts from Anvil
-        const accounts = await provider.listAccounts();
-        ok(accounts.length > 0, 'Should have test accounts');
+      // Get test accounts from Anvil
+      const accounts = await provider.listAccounts();
+      ok(accounts.length > 0, 'Should have test accounts');
 
-        const signer = await provider.getSigner(0);
-        const recipientAddress = accounts[1].address;
+      const signer = await provider.getSigner(0);
+      const recipientAddress = accounts[1].address;
 
-        ok(isAddress(recipientAddress), 'Recipient should be valid address');
+      ok(isAddress(recipientAddress), 'Recipient should be valid address');
 
-        // Start the listener
-        await listener.start();
+      // Start the listener
+      await listener.start();
 
-        // Add address to watch via Redis pub/sub
-        const addressChange: AddressChanged = {
-          tokenId: 'slip44:60',
-          address: recipientAddress,
-          derivedPath: "m/44'/60'/0'/0/1",
-        };
-
-        await redisService.publish(
-          'indexer:eip155:31337:address:added',
-          JSON.stringify(addressChange),
-        );
-
-        // Give it time to process
-        await new Promise(resolve => setTimeout(resolve, 500));
-
-        // Send ETH transaction
-        const tx = await signer.sendTransaction({
-          to: recipientAddress,
-          value: ethers.parseEther('1.5'),
-        });
-
-        ok(isHash(tx.hash), 'Transaction should have valid hash');
-
-        // Wait for transaction to be mined and detected
-        await tx.wait();
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        // Verify detection
-        strictEqual(detectedTransactions.length, 1, 'Should detect one transaction');
-
-        const detected = detectedTransactions[0];
-        assertDefined(detected);
-        strictEqual(detected.blockchainKey, 'eip155:31337');
-        strictEqual(detected.tokenId, 'slip44:60');
-        strictEqual(detected.address.toLowerCase(), recipientAddress.toLowerCase());
-        strictEqual(detected.derivedPath, "m/44'/60'/0'/0/1");
-        strictEqual(detected.txHash, tx.hash);
-        strictEqual(detected.amount, ethers.parseEther('1.5').toString());
-        ok(detected.timestamp > 0, 'Should have timestamp');
-      },
-    );
+      // Add address to watch via Redis pub/sub
+      const addressChange: AddressChanged = {
+        tokenId: 'slip44:60',
+        address: recipientAddress,
+        derivedPath: "m/44'/60'/0'/0/1",
+      };
 
-    it(
-      'should not detect transactions to non-watched addresses',
-      { timeout: 20000 },
-      async function () {
-        detectedTransactions = [];
+      await redisService.publish(
+        'indexer:eip155:31337:address:added',
+        JSON.stringify(addressChange),
+      );
 
-        const accounts = await provider.listAccounts();
-        const signer = await provider.getSigner(0);
-        const recipientAddress = accounts[2].address;
+      // Give it time to process
+      await new Promise(resolve => setTimeout(resolve, 500));
 
-        // Send transaction to non-watched address
-        const tx = await signer.sendTransaction({
-          to: recipientAddress,
-          value: ethers.parseEther('0.5'),
-        });
+      // Send ETH transaction
+      const tx = await signer.sendTransaction({
+        to: recipientAddress,
+        value: ethers.parseEther('1.5'),
+      });
 
-        ok(isHash(tx.hash), 'Transaction should have valid hash');
+      ok(isHash(tx.hash), 'Transaction should have valid hash');
 
-        await tx.wait();
-        await new Promise(resolve => setTimeout(resolve, 2000));
+      // Wait for transaction to be mined and detected
+      await tx.wait();
+      await new Promise(resolve => setTimeout(resolve, 2000));
 
-        strictEqual(
-          detectedTransactions.length,
-          0,
-          'Should not detect transaction to non-watched address',
-        );
-      },
-    );
+      // Verify detection
+      strictEqual(detectedTransactions.length, 1, 'Should detect one transaction');
+
+      const detected = detectedTransactions[0];
+      assertDefined(detected);
+      strictEqual(detected.blockchainKey, 'eip155:31337');
+      strictEqual(detected.tokenId, 'slip44:60');
+      strictEqual(detected.address.toLowerCase(), recipientAddress.toLowerCase());
+      strictEqual(detected.derivedPath, "m/44'/60'/0'/0/1");
+      strictEqual(detected.txHash, tx.hash);
+      strictEqual(detected.amount, ethers.parseEther('1.5').toString());
+      ok(detected.timestamp > 0, 'Should have timestamp');
+    });
+
+    it('should not detect transactions to non-watched addresses', {
+      timeout: 20000,
+    }, async function () {
+      detectedTransactions = [];
+
+      const accounts = await provider.listAccounts();
+      const signer = await provider.getSigner(0);
+      const recipientAddress = accounts[2].address;
+
+      // Send transaction to non-watched address
+      const tx = await signer.sendTransaction({
+        to: recipientAddress,
+        value: ethers.parseEther('0.5'),
+      });
+
+      ok(isHash(tx.hash), 'Transaction should have valid hash');
+
+      await tx.wait();
+      await new Promise(resolve => setTimeout(resolve, 2000));
+
+      strictEqual(
+        detectedTransactions.length,
+        0,
+        'Should not detect transaction to non-watched address',
+      );
+    });
 
     it('should stop detecting after address is removed', { timeout: 20000 }, async function () {
       detectedTransactions = [];
@@ -401,99 +411,96 @@ describe('EthereumIndexerListener Integration Tests', function () {
       { timeout: 15000 },
     );
 
-    it(
-      'should detect ERC20 token transfer to watched address',
-      { timeout: 30000 },
-      async function () {
-        detectedTransactions = [];
+    it('should detect ERC20 token transfer to watched address', {
+      timeout: 30000,
+    }, async function () {
+      detectedTransactions = [];
 
-        const accounts = await provider.listAccounts();
-        const _signer = await provider.getSigner(0);
-        const recipientAddress = accounts[4].address;
+      const accounts = await provider.listAccounts();
+      const _signer = await provider.getSigner(0);
+      const recipientAddress = accounts[4].address;
 
-        ok(isAddress(recipientAddress), 'Recipient should be valid address');
-        ok(isAddress(tokenAddress), 'Token contract should be valid address');
-        ok(tokenContract, 'Token contract should be defined');
+      ok(isAddress(recipientAddress), 'Recipient should be valid address');
+      ok(isAddress(tokenAddress), 'Token contract should be valid address');
+      ok(tokenContract, 'Token contract should be defined');
 
-        // Add address to watch for this specific ERC20 token
-        const addressChange: AddressChanged = {
-          tokenId: `erc20:${tokenAddress.toLowerCase()}`,
-          address: recipientAddress,
-          derivedPath: "m/44'/60'/0'/0/4",
-        };
+      // Add address to watch for this specific ERC20 token
+      const addressChange: AddressChanged = {
+        tokenId: `erc20:${tokenAddress.toLowerCase()}`,
+        address: recipientAddress,
+        derivedPath: "m/44'/60'/0'/0/4",
+      };
+
+      await redisService.publish(
+        'indexer:eip155:31337:address:added',
+        JSON.stringify(addressChange),
+      );
+
+      // Give it time to set up the listener
+      await new Promise(resolve => setTimeout(resolve, 1000));
 
-        await redisService.publish(
-          'indexer:eip155:31337:address:added',
-          JSON.stringify(addressChange),
-        );
+      // Transfer tokens to watched address
+      const transferAmount = ethers.parseEther('100');
+      const tx = await tokenContract.transfer(recipientAddress, transferAmount);
 
-        // Give it time to set up the listener
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      ok(isHash(tx.hash), 'Transaction should have valid hash');
 
-        // Transfer tokens to watched address
-        const transferAmount = ethers.parseEther('100');
-        const tx = await tokenContract.transfer(recipientAddress, transferAmount);
+      // Wait for transaction to be mined and detected
+      const receipt = await tx.wait();
+      assertDefined(receipt);
+      await new Promise(resolve => setTimeout(resolve, 3000));
+
+      // Verify detection
+      strictEqual(detectedTransactions.length, 1, 'Should detect one ERC20 transfer');
+
+      const detected = detectedTransactions[0];
+      assertDefined(detected);
+      strictEqual(detected.blockchainKey, 'eip155:31337');
+      strictEqual(detected.tokenId, `erc20:${tokenAddress.toLowerCase()}`);
+      strictEqual(detected.address.toLowerCase(), recipientAddress.toLowerCase());
+      strictEqual(detected.derivedPath, "m/44'/60'/0'/0/4");
+      strictEqual(detected.txHash, `${tx.hash}:${receipt.logs[0].index}`);
+      strictEqual(detected.amount, transferAmount.toString());
+      ok(detected.timestamp > 0, 'Should have timestamp');
+
+      const balance = await tokenContract.balanceOf(recipientAddress);
+      strictEqual(balance, transferAmount, 'Recipient should have received tokens');
+    });
 
-        ok(isHash(tx.hash), 'Transaction should have valid hash');
+    it('should not detect ERC20 transfers to non-watched addresses', {
+      timeout: 20000,
+    }, async function () {
+      detectedTransactions = [];
 
-        // Wait for transaction to be mined and detected
-        await tx.wait();
-        await new Promise(resolve => setTimeout(resolve, 3000));
+      const accounts = await provider.listAccounts();
+      const _signer = await provider.getSigner(0);
+      const recipientAddress = accounts[5].address;
 
-        // Verify detection
-        strictEqual(detectedTransactions.length, 1, 'Should detect one ERC20 transfer');
+      // Send tokens to non-watched address
+      const transferAmount = ethers.parseEther('50');
+      const tx = await tokenContract.transfer(recipientAddress, transferAmount);
 
-        const detected = detectedTransactions[0];
-        assertDefined(detected);
-        strictEqual(detected.blockchainKey, 'eip155:31337');
-        strictEqual(detected.tokenId, `erc20:${tokenAddress.toLowerCase()}`);
-        strictEqual(detected.address.toLowerCase(), recipientAddress.toLowerCase());
-        strictEqual(detected.derivedPath, "m/44'/60'/0'/0/4");
-        strictEqual(detected.txHash, tx.hash);
-        strictEqual(detected.amount, transferAmount.toString());
-        ok(detected.timestamp > 0, 'Should have timestamp');
+      await tx.wait();
+      await new Promise(resolve => setTimeout(resolve, 2000));
 
-        const balance = await tokenContract.balanceOf(recipientAddress);
-        strictEqual(balance, transferAmount, 'Recipient should have received tokens');
-      },
-    );
+      strictEqual(
+        detectedTransactions.length,
+        0,
+        'Should not detect ERC20 transfer to non-watched address',
+      );
 
-    it(
-      'should not detect ERC20 transfers to non-watched addresses',
-      { timeout: 20000 },
-      async function () {
-        detectedTransactions = [];
-
-        const accounts = await provider.listAccounts();
-        const _signer = await provider.getSigner(0);
-        const recipientAddress = accounts[5].address;
-
-        // Send tokens to non-watched address
-        const transferAmount = ethers.parseEther('50');
-        const tx = await tokenContract.transfer(recipientAddress, transferAmount);
-
-        await tx.wait();
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        strictEqual(
-          detectedTransactions.length,
-          0,
-          'Should not detect ERC20 transfer to non-watched address',
-        );
-
-        // Clean up: remove the watcher from previous test to reset state
-        const prevAddress = accounts[4].address;
-        await redisService.publish(
-          'indexer:eip155:31337:address:removed',
-          JSON.stringify({
-            tokenId: `erc20:${tokenAddress.toLowerCase()}`,
-            address: prevAddress,
-            derivedPath: "m/44'/60'/0'/0/4",
-          }),
-        );
-        await new Promise(resolve => setTimeout(resolve, 500));
-      },
-    );
+      // Clean up: remove the watcher from previous test to reset state
+      const prevAddress = accounts[4].address;
+      await redisService.publish(
+        'indexer:eip155:31337:address:removed',
+        JSON.stringify({
+          tokenId: `erc20:${tokenAddress.toLowerCase()}`,
+          address: prevAddress,
+          derivedPath: "m/44'/60'/0'/0/4",
+        }),
+      );
+      await new Promise(resolve => setTimeout(resolve, 500));
+    });
 
     it('should handle multiple ERC20 tokens separately', { timeout: 30000 }, async function () {
       detectedTransactions = [];
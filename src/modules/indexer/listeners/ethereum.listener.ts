@@ -4,10 +4,11 @@ import { ethers } from 'ethers';
 import { isAddress } from 'viem';
 
 import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { IndexedBlock } from '../../../shared/repositories/finance.types';
 import { RedisService } from '../../../shared/services/redis.service';
 import { TelemetryLogger } from '../../../shared/telemetry.logger';
 import { InvoicePaymentQueueService } from '../../invoice-payments/invoice-payment.queue.service';
-import { AddressChanged, IndexerListener } from '../indexer-listener.abstract';
+import { AddressChanged, DetectedTransaction, IndexerListener } from '../indexer-listener.abstract';
 
 type EthereumTokenStrategy =
   | {
@@ -27,24 +28,47 @@ export type EthereumIndexerConfig = {
   tokenPrefix: string;
   chainName: string;
   wsUrl: string;
+  /** Blocks mined on top of a block before its payments are dispatched (default: 0) */
+  confirmations?: number;
 };
 
+/**
+ * Processed block hashes kept to find where a reorg forked off
+ */
+const REORG_WINDOW_BLOCKS = 128;
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+const TRANSFER_INTERFACE = new ethers.Interface([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+
 /**
  * Base abstract class for Ethereum-compatible blockchain indexers.
  * Implements common logic for monitoring native and token (ERC20/BEP20) transactions.
+ *
+ * New heads only trigger a sync: blocks are processed in order once they are `confirmations` deep,
+ * from the checkpoint of the chain up to the confirmed head. The same sync catches up on blocks mined
+ * while the indexer was stopped or disconnected. A block whose parent hash differs from the
+ * checkpoint means a reorg, the indexer rewinds to the last block it processed that is still canonical.
+ *
+ * A token transaction can emit several transfers to watched addresses (batched payouts), each matching
+ * transfer is a separate payment identified by `txHash:logIndex`.
  */
 export abstract class EthereumIndexerListener extends IndexerListener {
   abstract logger: TelemetryLogger;
 
   #watchersByToken = new Map<string, Map<string, AddressChanged>>();
-  #activeStrategies = new Set<string>();
-  #activeSubscriptions = new Map<string, () => void>();
+  #strategiesByToken = new Map<string, EthereumTokenStrategy>();
   #provider: ethers.WebSocketProvider;
 
   #nativeTokenId: string;
   #tokenPrefix: string;
   #chainName: string;
   #wsUrl: string;
+  #confirmations: number;
+
+  #headBlockNumber = -1;
+  #syncing = false;
 
   constructor(
     discovery: DiscoveryService,
@@ -59,8 +83,14 @@ export abstract class EthereumIndexerListener extends IndexerListener {
     this.#tokenPrefix = config.tokenPrefix;
     this.#chainName = config.chainName;
     this.#wsUrl = config.wsUrl;
+    this.#confirmations = config.confirmations ?? 0;
   }
 
+  #headHandler = (blockNumber: number) => {
+    this.#headBlockNumber = Math.max(this.#headBlockNumber, blockNumber);
+    void this.#syncConfirmedBlocks();
+  };
+
   async start() {
     await super.start();
 
@@ -82,17 +112,21 @@ export abstract class EthereumIndexerListener extends IndexerListener {
     ws.addEventListener('close', () => {
       // this.logger.log(`${this.#chainName} WebSocket connection closed`);
     });
+
+    await this.#provider.on('block', this.#headHandler);
+
+    // Backfill blocks mined since the last checkpoint before following new heads
+    this.#headBlockNumber = await this.#provider.getBlockNumber();
+    this.logger.log(
+      `${this.#chainName} indexer following head ${this.#headBlockNumber} with ${this.#confirmations} confirmations`,
+    );
+    await this.#syncConfirmedBlocks();
   }
 
   async stop() {
     await super.stop();
 
-    for (const [key, cleanup] of this.#activeSubscriptions.entries()) {
-      this.logger.debug(`Cleaning up ${this.#chainName} subscription: ${key}`);
-      cleanup();
-    }
-    this.#activeSubscriptions.clear();
-
+    await this.#provider.off('block', this.#headHandler);
     await this.#provider.destroy();
   }
 
@@ -117,7 +151,13 @@ export abstract class EthereumIndexerListener extends IndexerListener {
     tokenWatchers.set(watchKey, { ...change, tokenId: strategy.tokenId });
     this.#watchersByToken.set(strategy.tokenKey, tokenWatchers);
 
-    await this.#ensureStrategyRunner(strategy);
+    if (!this.#strategiesByToken.has(strategy.tokenKey)) {
+      this.#strategiesByToken.set(strategy.tokenKey, strategy);
+      this.logger.log(`Watching ${this.#chainName} token`, {
+        mode: strategy.mode,
+        tokenId: strategy.tokenId,
+      });
+    }
   }
 
   async onAddressRemoved(change: AddressChanged): Promise<void> {
@@ -139,20 +179,11 @@ export abstract class EthereumIndexerListener extends IndexerListener {
 
     if (tokenWatchers.size === 0) {
       this.#watchersByToken.delete(strategy.tokenKey);
-      this.#activeStrategies.delete(strategy.tokenKey);
+      this.#strategiesByToken.delete(strategy.tokenKey);
 
-      const cleanup = this.#activeSubscriptions.get(strategy.tokenKey);
-      if (cleanup) {
-        cleanup();
-        this.#activeSubscriptions.delete(strategy.tokenKey);
-      }
-
-      this.logger.log(
-        `No more wallets tracked for ${this.#chainName} token, stopped strategy runner`,
-        {
-          tokenId: strategy.tokenId,
-        },
-      );
+      this.logger.log(`No more wallets tracked for ${this.#chainName} token, stopped watching`, {
+        tokenId: strategy.tokenId,
+      });
     }
   }
 
@@ -187,169 +218,215 @@ export abstract class EthereumIndexerListener extends IndexerListener {
     return `${change.address.toLowerCase()}::${change.derivedPath}`;
   }
 
-  async #ensureStrategyRunner(strategy: EthereumTokenStrategy) {
-    if (this.#activeStrategies.has(strategy.tokenKey)) {
+  /**
+   * Processes confirmed blocks from the checkpoint up to the confirmed head.
+   * Only one sync runs at a time, heads arriving meanwhile are picked up by the running loop.
+   */
+  async #syncConfirmedBlocks() {
+    if (this.#syncing) {
       return;
     }
+    this.#syncing = true;
 
-    this.#activeStrategies.add(strategy.tokenKey);
-    this.logger.log(`Starting ${this.#chainName} indexer strategy`, {
-      mode: strategy.mode,
-      tokenId: strategy.tokenId,
-    });
+    try {
+      let checkpoint = await this.loadCheckpoint();
 
-    if (strategy.mode === 'native') {
-      await this.#startNativeListener(strategy);
-    } else if (strategy.mode === 'token') {
-      await this.#startTokenListener(strategy);
+      while (true) {
+        const confirmedBlockNumber = this.#headBlockNumber - this.#confirmations;
+        const nextBlockNumber = checkpoint ? checkpoint.blockNumber + 1 : confirmedBlockNumber;
+
+        if (nextBlockNumber < 0 || nextBlockNumber > confirmedBlockNumber) {
+          break;
+        }
+
+        const block = await this.#provider.getBlock(nextBlockNumber, this.#hasNativeWatchers());
+        if (!block?.hash) {
+          break;
+        }
+
+        if (checkpoint && block.parentHash !== checkpoint.blockHash) {
+          checkpoint = await this.#rewindToCanonicalBlock(checkpoint);
+          continue;
+        }
+
+        checkpoint = await this.#processBlock(block, block.hash);
+      }
+    } catch (error) {
+      this.logger.error(`Error syncing ${this.#chainName} blocks`, error);
+    } finally {
+      this.#syncing = false;
     }
   }
 
-  async #startNativeListener(strategy: EthereumTokenStrategy) {
+  /**
+   * Walks back from the checkpoint to the newest processed block still on the canonical chain
+   */
+  async #rewindToCanonicalBlock(checkpoint: IndexedBlock): Promise<IndexedBlock> {
+    const lowestBlockNumber = Math.max(0, checkpoint.blockNumber - REORG_WINDOW_BLOCKS);
+
+    for (
+      let blockNumber = checkpoint.blockNumber;
+      blockNumber >= lowestBlockNumber;
+      blockNumber--
+    ) {
+      const canonicalBlock = await this.#provider.getBlock(blockNumber);
+      if (!canonicalBlock?.hash) {
+        continue;
+      }
+
+      const indexedBlock = await this.findIndexedBlock(blockNumber);
+      if (!indexedBlock || indexedBlock.blockHash === canonicalBlock.hash) {
+        const forkBlock = { blockNumber, blockHash: canonicalBlock.hash };
+        await this.orphanBlocksAbove(forkBlock);
+        return forkBlock;
+      }
+    }
+
+    throw new Error(
+      `${this.#chainName} reorg deeper than ${REORG_WINDOW_BLOCKS} blocks below ${checkpoint.blockNumber}`,
+    );
+  }
+
+  async #processBlock(block: ethers.Block, blockHash: string): Promise<IndexedBlock> {
     const blockchainKey = this.getBlockchainKey();
     if (!blockchainKey) {
       throw new Error('Blockchain key not found');
     }
 
-    const handler = async (blockNumber: number) => {
-      try {
-        const block = await this.#provider.getBlock(blockNumber, true);
-        if (!block) return;
+    const detectedTransactions: DetectedTransaction[] = [];
 
-        const watchers = this.#watchersByToken.get(strategy.tokenKey);
-        if (!watchers || watchers.size === 0) return;
+    for (const [tokenKey, strategy] of this.#strategiesByToken.entries()) {
+      const watchers = this.#watchersByToken.get(tokenKey);
+      if (!watchers || watchers.size === 0) continue;
 
-        const transactions = block.prefetchedTransactions || [];
+      if (strategy.mode === 'native') {
+        detectedTransactions.push(
+          ...this.#detectNativeTransactions(blockchainKey, strategy, watchers, block),
+        );
+      } else {
+        detectedTransactions.push(
+          ...(await this.#detectTokenTransfers(
+            blockchainKey,
+            strategy,
+            watchers,
+            block,
+            blockHash,
+          )),
+        );
+      }
+    }
 
-        for (const tx of transactions) {
-          if (!tx.to) continue;
+    return await this.dispatchConfirmedBlock(
+      { blockNumber: block.number, blockHash },
+      detectedTransactions,
+      REORG_WINDOW_BLOCKS,
+    );
+  }
 
-          const watchKey = this.#findWatchKey(watchers, tx.to);
-          if (!watchKey) continue;
+  #detectNativeTransactions(
+    blockchainKey: string,
+    strategy: EthereumTokenStrategy,
+    watchers: Map<string, AddressChanged>,
+    block: ethers.Block,
+  ): DetectedTransaction[] {
+    const detectedTransactions: DetectedTransaction[] = [];
 
-          const watcher = watchers.get(watchKey);
-          if (!watcher) continue;
+    for (const tx of block.prefetchedTransactions) {
+      if (!tx.to) continue;
 
-          const amount = tx.value.toString();
-          if (amount === '0') continue;
+      const watchKey = this.#findWatchKey(watchers, tx.to);
+      if (!watchKey) continue;
 
-          this.logger.log(`Detected native ${this.#chainName} transaction`, {
-            txHash: tx.hash,
-            to: tx.to,
-            amount: ethers.formatEther(tx.value),
-            blockNumber: block.number,
-          });
+      const watcher = watchers.get(watchKey);
+      if (!watcher) continue;
 
-          await this.dispatchDetectedTransaction({
-            blockchainKey,
-            tokenId: strategy.tokenId,
-            derivedPath: watcher.derivedPath,
-            address: watcher.address,
-            txHash: tx.hash,
-            sender: tx.from,
-            amount,
-            timestamp: block.timestamp,
-          });
-        }
-      } catch (error) {
-        this.logger.error(`Error processing ${this.#chainName} block`, error);
-      }
-    };
+      const amount = tx.value.toString();
+      if (amount === '0') continue;
 
-    this.#provider.on('block', handler);
+      this.logger.log(`Detected native ${this.#chainName} transaction`, {
+        txHash: tx.hash,
+        to: tx.to,
+        amount: ethers.formatEther(tx.value),
+        blockNumber: block.number,
+      });
 
-    this.#activeSubscriptions.set(strategy.tokenKey, () => {
-      this.#provider.off('block', handler);
-    });
+      detectedTransactions.push({
+        blockchainKey,
+        tokenId: strategy.tokenId,
+        derivedPath: watcher.derivedPath,
+        address: watcher.address,
+        txHash: tx.hash,
+        sender: tx.from,
+        amount,
+        timestamp: block.timestamp,
+      });
+    }
 
-    this.logger.log(`Native ${this.#chainName} listener started`);
+    return detectedTransactions;
   }
 
-  async #startTokenListener(strategy: EthereumTokenStrategy & { mode: 'token' }) {
-    const blockchainKey = this.getBlockchainKey();
-    if (!blockchainKey) {
-      throw new Error('Blockchain key not found');
-    }
-
-    const transferTopic = ethers.id('Transfer(address,address,uint256)');
+  async #detectTokenTransfers(
+    blockchainKey: string,
+    strategy: EthereumTokenStrategy & { mode: 'token' },
+    watchers: Map<string, AddressChanged>,
+    block: ethers.Block,
+    blockHash: string,
+  ): Promise<DetectedTransaction[]> {
+    const addresses = Array.from(watchers.values()).map(w => w.address);
+
+    // Querying by block hash only returns logs of that exact block, never of a block that replaced it
+    const logs = await this.#provider.getLogs({
+      blockHash,
+      address: strategy.contractAddress,
+      topics: [TRANSFER_TOPIC, null, addresses.map(addr => ethers.zeroPadValue(addr, 32))],
+    });
 
-    const getFilter = () => {
-      const watchers = this.#watchersByToken.get(strategy.tokenKey);
-      if (!watchers || watchers.size === 0) return null;
+    const detectedTransactions: DetectedTransaction[] = [];
 
-      const addresses = Array.from(watchers.values()).map(w => w.address);
+    for (const log of logs) {
+      const decoded = TRANSFER_INTERFACE.parseLog({
+        topics: log.topics as string[],
+        data: log.data,
+      });
+      if (!decoded) continue;
 
-      return {
-        address: strategy.contractAddress,
-        topics: [transferTopic, null, addresses.map(addr => ethers.zeroPadValue(addr, 32))],
-      };
-    };
+      const to = decoded.args.to as string;
+      const watchKey = this.#findWatchKey(watchers, to);
+      if (!watchKey) continue;
 
-    const handler = async (log: ethers.Log) => {
-      try {
-        const watchers = this.#watchersByToken.get(strategy.tokenKey);
-        if (!watchers || watchers.size === 0) return;
-
-        const iface = new ethers.Interface([
-          'event Transfer(address indexed from, address indexed to, uint256 value)',
-        ]);
-        const decoded = iface.parseLog({ topics: log.topics as string[], data: log.data });
-        if (!decoded) return;
-
-        const to = decoded.args.to as string;
-        const watchKey = this.#findWatchKey(watchers, to);
-        if (!watchKey) return;
-
-        const watcher = watchers.get(watchKey);
-        if (!watcher) return;
-
-        const amount = (decoded.args.value as bigint).toString();
-        const from = decoded.args.from as string;
-
-        const block = await this.#provider.getBlock(log.blockNumber);
-        if (!block) return;
-
-        this.logger.log(`Detected ${this.#tokenPrefix.toUpperCase()} transfer`, {
-          txHash: log.transactionHash,
-          contract: strategy.contractAddress,
-          to,
-          amount,
-          blockNumber: log.blockNumber,
-        });
-
-        await this.dispatchDetectedTransaction({
-          blockchainKey,
-          tokenId: strategy.tokenId,
-          derivedPath: watcher.derivedPath,
-          address: watcher.address,
-          txHash: log.transactionHash,
-          sender: from,
-          amount,
-          timestamp: block.timestamp,
-        });
-      } catch (error) {
-        this.logger.error(
-          `Error processing ${this.#tokenPrefix.toUpperCase()} transfer event`,
-          error,
-        );
-      }
-    };
+      const watcher = watchers.get(watchKey);
+      if (!watcher) continue;
 
-    const filter = getFilter();
-    if (filter) {
-      this.#provider.on(filter, handler);
+      const amount = (decoded.args.value as bigint).toString();
+      const from = decoded.args.from as string;
+      const paymentHash = `${log.transactionHash}:${log.index}`;
 
-      this.#activeSubscriptions.set(strategy.tokenKey, () => {
-        const currentFilter = getFilter();
-        if (currentFilter) {
-          this.#provider.off(currentFilter, handler);
-        }
+      this.logger.log(`Detected ${this.#tokenPrefix.toUpperCase()} transfer`, {
+        paymentHash,
+        contract: strategy.contractAddress,
+        to,
+        amount,
+        blockNumber: log.blockNumber,
       });
 
-      this.logger.log(`${this.#tokenPrefix.toUpperCase()} listener started`, {
-        contract: strategy.contractAddress,
+      detectedTransactions.push({
+        blockchainKey,
+        tokenId: strategy.tokenId,
+        derivedPath: watcher.derivedPath,
+        address: watcher.address,
+        txHash: paymentHash,
+        sender: from,
+        amount,
+        timestamp: block.timestamp,
       });
     }
+
+    return detectedTransactions;
+  }
+
+  #hasNativeWatchers(): boolean {
+    const watchers = this.#watchersByToken.get(`native:${this.#nativeTokenId}`);
+    return watchers !== undefined && watchers.size > 0;
   }
 
   #findWatchKey(watchers: Map<string, AddressChanged>, address: string): string | undefined {
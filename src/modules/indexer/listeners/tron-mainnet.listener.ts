@@ -0,0 +1,378 @@
+import { Injectable } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+
+import { ethers } from 'ethers';
+
+import { TRON_MAINNET_KEY } from '../../../shared/constants/blockchain';
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { IndexedBlock } from '../../../shared/repositories/finance.types';
+import { AppConfigService } from '../../../shared/services/app-config.service';
+import { RedisService } from '../../../shared/services/redis.service';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { AddressValidator } from '../../../shared/utils/address-validator';
+import {
+  TronBlock,
+  TronMainnetBlockchain,
+} from '../../../shared/wallets/blockchains/tron-mainnet.blockchain';
+import {
+  fromTronAddress,
+  getTrc20ContractAddress,
+  TRX_TOKEN_ID,
+  toTronAddress,
+} from '../../../shared/wallets/wallets/tron.wallet';
+import { InvoicePaymentQueueService } from '../../invoice-payments/invoice-payment.queue.service';
+import {
+  AddressChanged,
+  DetectedTransaction,
+  IndexerListener,
+  Listener,
+} from '../indexer-listener.abstract';
+
+type TronTokenStrategy =
+  | {
+      mode: 'native';
+      tokenId: string;
+      tokenKey: string;
+    }
+  | {
+      mode: 'trc20';
+      tokenId: string;
+      tokenKey: string;
+      /** 20 byte account of the contract in lowercase hex without 0x, as event logs report it */
+      contractAccount: string;
+    };
+
+/**
+ * Processed block hashes kept to find where a reorg forked off
+ */
+const REORG_WINDOW_BLOCKS = 64;
+
+/**
+ * Tron produces a block every 3 seconds
+ */
+const POLL_INTERVAL_MS = 3000;
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)').slice(2);
+
+/**
+ * Tron Mainnet indexer listener.
+ * Monitors native TRX transfers and TRC-20 Transfer events (tron:0x2b6653dc).
+ *
+ * TronGrid has no head subscription, so the head is polled. Blocks are processed in order once they are
+ * `confirmations` deep, from the checkpoint of the chain up to the confirmed head, with the same reorg
+ * handling as the Ethereum indexer.
+ */
+@Injectable()
+@Listener(TRON_MAINNET_KEY)
+export class TronMainnetIndexerListener extends IndexerListener {
+  readonly logger = new TelemetryLogger(TronMainnetIndexerListener.name);
+
+  #watchersByToken = new Map<string, Map<string, AddressChanged>>();
+  #strategiesByToken = new Map<string, TronTokenStrategy>();
+  #pollInterval?: NodeJS.Timeout;
+  #syncing = false;
+
+  constructor(
+    discovery: DiscoveryService,
+    redis: RedisService,
+    invoicePaymentQueue: InvoicePaymentQueueService,
+    repository: CryptogadaiRepository,
+    private readonly appConfig: AppConfigService,
+    private readonly tron: TronMainnetBlockchain,
+  ) {
+    super(discovery, redis, invoicePaymentQueue, repository);
+  }
+
+  get #confirmations(): number {
+    return this.appConfig.blockchains[TRON_MAINNET_KEY].confirmations;
+  }
+
+  async start() {
+    await super.start();
+
+    this.logger.log(`Tron indexer following head with ${this.#confirmations} confirmations`);
+
+    // Backfill blocks mined since the last checkpoint before polling new heads
+    await this.syncConfirmedBlocks();
+    this.#pollInterval = setInterval(() => {
+      void this.syncConfirmedBlocks();
+    }, POLL_INTERVAL_MS);
+  }
+
+  async stop() {
+    await super.stop();
+
+    clearInterval(this.#pollInterval);
+    this.#pollInterval = undefined;
+  }
+
+  async onAddressAdded(change: AddressChanged): Promise<void> {
+    if (!AddressValidator.validateTronAddress(change.address)) {
+      this.logger.error('Invalid Tron address', { address: change.address });
+      return;
+    }
+
+    const strategy = this.#resolveTokenStrategy(change);
+    if (!strategy) {
+      this.logger.warn('Unsupported token id received for Tron indexer', {
+        tokenId: change.tokenId,
+        address: change.address,
+      });
+      return;
+    }
+
+    const tokenWatchers =
+      this.#watchersByToken.get(strategy.tokenKey) || new Map<string, AddressChanged>();
+    tokenWatchers.set(change.address, { ...change, tokenId: strategy.tokenId });
+    this.#watchersByToken.set(strategy.tokenKey, tokenWatchers);
+
+    if (!this.#strategiesByToken.has(strategy.tokenKey)) {
+      this.#strategiesByToken.set(strategy.tokenKey, strategy);
+      this.logger.log('Watching Tron token', {
+        mode: strategy.mode,
+        tokenId: strategy.tokenId,
+      });
+    }
+  }
+
+  async onAddressRemoved(change: AddressChanged): Promise<void> {
+    const strategy = this.#resolveTokenStrategy(change);
+    if (!strategy) {
+      this.logger.warn('Attempted to remove unsupported Tron token watcher', {
+        tokenId: change.tokenId,
+        address: change.address,
+      });
+      return;
+    }
+
+    const tokenWatchers = this.#watchersByToken.get(strategy.tokenKey);
+    if (!tokenWatchers) {
+      return;
+    }
+
+    tokenWatchers.delete(change.address);
+
+    if (tokenWatchers.size === 0) {
+      this.#watchersByToken.delete(strategy.tokenKey);
+      this.#strategiesByToken.delete(strategy.tokenKey);
+
+      this.logger.log('No more wallets tracked for Tron token, stopped watching', {
+        tokenId: strategy.tokenId,
+      });
+    }
+  }
+
+  /**
+   * Processes confirmed blocks from the checkpoint up to the confirmed head.
+   * Only one sync runs at a time, polls arriving meanwhile are skipped.
+   */
+  async syncConfirmedBlocks() {
+    if (this.#syncing) {
+      return;
+    }
+    this.#syncing = true;
+
+    try {
+      const client = this.tron.apiClient;
+      const head = await client.getNowBlock();
+      const confirmedBlockNumber = head.block_header.raw_data.number - this.#confirmations;
+      let checkpoint = await this.loadCheckpoint();
+
+      while (true) {
+        const nextBlockNumber = checkpoint ? checkpoint.blockNumber + 1 : confirmedBlockNumber;
+
+        if (nextBlockNumber < 0 || nextBlockNumber > confirmedBlockNumber) {
+          break;
+        }
+
+        const block = await client.getBlockByNumber(nextBlockNumber);
+        if (!block?.blockID) {
+          break;
+        }
+
+        if (checkpoint && block.block_header.raw_data.parentHash !== checkpoint.blockHash) {
+          checkpoint = await this.#rewindToCanonicalBlock(checkpoint);
+          continue;
+        }
+
+        checkpoint = await this.#processBlock(block);
+      }
+    } catch (error) {
+      this.logger.error('Error syncing Tron blocks', error);
+    } finally {
+      this.#syncing = false;
+    }
+  }
+
+  #resolveTokenStrategy(change: AddressChanged): TronTokenStrategy | undefined {
+    if (change.tokenId === TRX_TOKEN_ID) {
+      return { mode: 'native', tokenId: TRX_TOKEN_ID, tokenKey: `native:${TRX_TOKEN_ID}` };
+    }
+
+    // Base58 contract addresses are case sensitive, the token id is kept as is
+    const contractAddress = getTrc20ContractAddress(change.tokenId);
+    if (contractAddress) {
+      return {
+        mode: 'trc20',
+        tokenId: change.tokenId,
+        tokenKey: change.tokenId,
+        contractAccount: fromTronAddress(contractAddress).slice(2),
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Walks back from the checkpoint to the newest processed block still on the canonical chain
+   */
+  async #rewindToCanonicalBlock(checkpoint: IndexedBlock): Promise<IndexedBlock> {
+    const lowestBlockNumber = Math.max(0, checkpoint.blockNumber - REORG_WINDOW_BLOCKS);
+
+    for (
+      let blockNumber = checkpoint.blockNumber;
+      blockNumber >= lowestBlockNumber;
+      blockNumber--
+    ) {
+      const canonicalBlock = await this.tron.apiClient.getBlockByNumber(blockNumber);
+      if (!canonicalBlock?.blockID) {
+        continue;
+      }
+
+      const indexedBlock = await this.findIndexedBlock(blockNumber);
+      if (!indexedBlock || indexedBlock.blockHash === canonicalBlock.blockID) {
+        const forkBlock = { blockNumber, blockHash: canonicalBlock.blockID };
+        await this.orphanBlocksAbove(forkBlock);
+        return forkBlock;
+      }
+    }
+
+    throw new Error(
+      `Tron reorg deeper than ${REORG_WINDOW_BLOCKS} blocks below ${checkpoint.blockNumber}`,
+    );
+  }
+
+  async #processBlock(block: TronBlock): Promise<IndexedBlock> {
+    const blockchainKey = this.getBlockchainKey();
+    if (!blockchainKey) {
+      throw new Error('Blockchain key not found');
+    }
+
+    const detectedTransactions: DetectedTransaction[] = [];
+    const tokenStrategies = new Map<string, TronTokenStrategy & { mode: 'trc20' }>();
+
+    for (const [tokenKey, strategy] of this.#strategiesByToken.entries()) {
+      const watchers = this.#watchersByToken.get(tokenKey);
+      if (!watchers || watchers.size === 0) continue;
+
+      if (strategy.mode === 'native') {
+        detectedTransactions.push(
+          ...this.#detectNativeTransfers(blockchainKey, strategy, watchers, block),
+        );
+      } else {
+        tokenStrategies.set(strategy.contractAccount, strategy);
+      }
+    }
+
+    if (tokenStrategies.size > 0) {
+      detectedTransactions.push(
+        ...(await this.#detectTokenTransfers(blockchainKey, tokenStrategies, block)),
+      );
+    }
+
+    return await this.dispatchConfirmedBlock(
+      { blockNumber: block.block_header.raw_data.number, blockHash: block.blockID },
+      detectedTransactions,
+      REORG_WINDOW_BLOCKS,
+    );
+  }
+
+  #detectNativeTransfers(
+    blockchainKey: string,
+    strategy: TronTokenStrategy,
+    watchers: Map<string, AddressChanged>,
+    block: TronBlock,
+  ): DetectedTransaction[] {
+    const detectedTransactions: DetectedTransaction[] = [];
+
+    for (const tx of block.transactions ?? []) {
+      const [contract] = tx.raw_data.contract;
+      if (contract?.type !== 'TransferContract') continue;
+      if (tx.ret?.[0]?.contractRet !== 'SUCCESS') continue;
+
+      const { owner_address, to_address, amount } = contract.parameter.value;
+      const watcher = watchers.get(String(to_address));
+      if (!watcher || !amount) continue;
+
+      this.logger.log('Detected native Tron transaction', {
+        txHash: tx.txID,
+        to: to_address,
+        amount,
+        blockNumber: block.block_header.raw_data.number,
+      });
+
+      detectedTransactions.push({
+        blockchainKey,
+        tokenId: strategy.tokenId,
+        derivedPath: watcher.derivedPath,
+        address: watcher.address,
+        txHash: tx.txID,
+        sender: String(owner_address),
+        amount: String(amount),
+        timestamp: Math.floor(block.block_header.raw_data.timestamp / 1000),
+      });
+    }
+
+    return detectedTransactions;
+  }
+
+  async #detectTokenTransfers(
+    blockchainKey: string,
+    strategies: Map<string, TronTokenStrategy & { mode: 'trc20' }>,
+    block: TronBlock,
+  ): Promise<DetectedTransaction[]> {
+    const blockNumber = block.block_header.raw_data.number;
+    const transactionInfos = await this.tron.apiClient.getTransactionInfoByBlockNumber(blockNumber);
+
+    const detectedTransactions: DetectedTransaction[] = [];
+
+    for (const info of transactionInfos ?? []) {
+      // Reverted contract calls still carry the logs emitted before the revert
+      if (info.receipt?.result && info.receipt.result !== 'SUCCESS') continue;
+
+      for (const log of info.log ?? []) {
+        const strategy = strategies.get(log.address.toLowerCase());
+        if (!strategy) continue;
+        if (log.topics.length !== 3 || log.topics[0] !== TRANSFER_TOPIC) continue;
+
+        const to = toTronAddress(`0x${log.topics[2].slice(24)}`);
+        const watcher = this.#watchersByToken.get(strategy.tokenKey)?.get(to);
+        if (!watcher) continue;
+
+        const amount = BigInt(`0x${log.data || '0'}`).toString();
+        if (amount === '0') continue;
+
+        this.logger.log('Detected TRC-20 transfer', {
+          txHash: info.id,
+          to,
+          amount,
+          tokenId: strategy.tokenId,
+          blockNumber,
+        });
+
+        detectedTransactions.push({
+          blockchainKey,
+          tokenId: strategy.tokenId,
+          derivedPath: watcher.derivedPath,
+          address: watcher.address,
+          txHash: info.id,
+          sender: toTronAddress(`0x${log.topics[1].slice(24)}`),
+          amount,
+          timestamp: Math.floor(block.block_header.raw_data.timestamp / 1000),
+        });
+      }
+    }
+
+    return detectedTransactions;
+  }
+}
@@ -0,0 +1,214 @@
+import type { DiscoveryService } from '@nestjs/core';
+import type { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import type { IndexedBlock } from '../../../shared/repositories/finance.types';
+import type { AppConfigService } from '../../../shared/services/app-config.service';
+import type { RedisService } from '../../../shared/services/redis.service';
+import type {
+  TronBlock,
+  TronMainnetBlockchain,
+  TronTransactionInfo,
+} from '../../../shared/wallets/blockchains/tron-mainnet.blockchain';
+import type { InvoicePaymentQueueService } from '../../invoice-payments/invoice-payment.queue.service';
+
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { ethers } from 'ethers';
+
+import { TRON_MAINNET_KEY } from '../../../shared/constants/blockchain';
+import { fromTronAddress } from '../../../shared/wallets/wallets/tron.wallet';
+import { TronMainnetIndexerListener } from './tron-mainnet.listener';
+
+const USDT_CONTRACT = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+const TRX_INVOICE = 'TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7';
+const USDT_INVOICE = 'TNPeeaaFB7K9cmo4uQpcU32zGK8G1NYqeL';
+const SENDER = 'TKHuVq1oKVruCGLvqVexFs6dawKv6fQgFs';
+
+const TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)').slice(2);
+
+class TestTronIndexerListener extends TronMainnetIndexerListener {
+  override getBlockchainKey() {
+    return TRON_MAINNET_KEY;
+  }
+}
+
+function buildBlock(number: number, parentHash: string, transactions: TronBlock['transactions']) {
+  return {
+    blockID: `hash-${number}`,
+    block_header: { raw_data: { number, timestamp: 1700000000000 + number * 3000, parentHash } },
+    transactions,
+  } satisfies TronBlock;
+}
+
+function toTopic(address: string) {
+  return ethers.zeroPadValue(fromTronAddress(address), 32).slice(2);
+}
+
+describe('TronMainnetIndexerListener', () => {
+  let blocks: Map<number, TronBlock>;
+  let transactionInfos: Map<number, TronTransactionInfo[]>;
+  let indexedBlocks: Map<number, IndexedBlock>;
+  let enqueuePaymentDetection: ReturnType<typeof mock.fn>;
+  let listener: TestTronIndexerListener;
+
+  beforeEach(async () => {
+    blocks = new Map();
+    transactionInfos = new Map();
+    indexedBlocks = new Map([[9, { blockNumber: 9, blockHash: 'hash-9' }]]);
+
+    const apiClient = {
+      getNowBlock: async () => blocks.get(Math.max(...blocks.keys())),
+      getBlockByNumber: async (blockNumber: number) => blocks.get(blockNumber),
+      getTransactionInfoByBlockNumber: async (blockNumber: number) =>
+        transactionInfos.get(blockNumber) ?? [],
+    };
+
+    const repository = {
+      platformViewsIndexerCheckpoint: async () => ({
+        checkpoint: indexedBlocks.get(Math.max(...indexedBlocks.keys())),
+      }),
+      platformViewsIndexedBlock: async ({ blockNumber }: { blockNumber: number }) => ({
+        block: indexedBlocks.get(blockNumber),
+      }),
+      platformViewsIndexerDispatchedPayments: async () => ({ payments: [] }),
+      platformRecordsIndexedBlock: async (params: IndexedBlock) => {
+        const checkpoint = { blockNumber: params.blockNumber, blockHash: params.blockHash };
+        indexedBlocks.set(params.blockNumber, checkpoint);
+        return { checkpoint };
+      },
+      platformOrphansIndexedBlocks: async ({ checkpoint }: { checkpoint: IndexedBlock }) => {
+        for (const blockNumber of indexedBlocks.keys()) {
+          if (blockNumber > checkpoint.blockNumber) indexedBlocks.delete(blockNumber);
+        }
+        return { orphanedPayments: [] };
+      },
+    };
+
+    enqueuePaymentDetection = mock.fn(async (_data: unknown) => undefined);
+
+    listener = new TestTronIndexerListener(
+      {} as unknown as DiscoveryService,
+      {} as unknown as RedisService,
+      { enqueuePaymentDetection } as unknown as InvoicePaymentQueueService,
+      repository as unknown as CryptogadaiRepository,
+      {
+        blockchains: { [TRON_MAINNET_KEY]: { confirmations: 1 } },
+      } as unknown as AppConfigService,
+      { apiClient } as unknown as TronMainnetBlockchain,
+    );
+
+    await listener.onAddressAdded({
+      tokenId: 'slip44:195',
+      address: TRX_INVOICE,
+      derivedPath: "m/44'/195'/0'/0/1",
+    });
+    await listener.onAddressAdded({
+      tokenId: `trc20:${USDT_CONTRACT}`,
+      address: USDT_INVOICE,
+      derivedPath: "m/44'/195'/0'/0/2",
+    });
+  });
+
+  it('should dispatch confirmed TRX transfers and TRC-20 Transfer events', async () => {
+    blocks.set(
+      10,
+      buildBlock(10, 'hash-9', [
+        {
+          txID: 'trx-payment',
+          ret: [{ contractRet: 'SUCCESS' }],
+          raw_data: {
+            contract: [
+              {
+                type: 'TransferContract',
+                parameter: {
+                  value: { owner_address: SENDER, to_address: TRX_INVOICE, amount: 5000000 },
+                },
+              },
+            ],
+          },
+        },
+        {
+          txID: 'trx-failed',
+          ret: [{ contractRet: 'REVERT' }],
+          raw_data: {
+            contract: [
+              {
+                type: 'TransferContract',
+                parameter: {
+                  value: { owner_address: SENDER, to_address: TRX_INVOICE, amount: 7000000 },
+                },
+              },
+            ],
+          },
+        },
+      ]),
+    );
+    blocks.set(11, buildBlock(11, 'hash-10', []));
+    transactionInfos.set(10, [
+      {
+        id: 'usdt-payment',
+        receipt: { result: 'SUCCESS' },
+        log: [
+          {
+            address: fromTronAddress(USDT_CONTRACT).slice(2),
+            topics: [TRANSFER_TOPIC, toTopic(SENDER), toTopic(USDT_INVOICE)],
+            data: ethers.toBeHex(150000000, 32).slice(2),
+          },
+        ],
+      },
+      {
+        id: 'usdt-reverted',
+        receipt: { result: 'REVERT' },
+        log: [
+          {
+            address: fromTronAddress(USDT_CONTRACT).slice(2),
+            topics: [TRANSFER_TOPIC, toTopic(SENDER), toTopic(USDT_INVOICE)],
+            data: ethers.toBeHex(1, 32).slice(2),
+          },
+        ],
+      },
+    ]);
+
+    await listener.syncConfirmedBlocks();
+
+    const payments = enqueuePaymentDetection.mock.calls.map(call => call.arguments[0]);
+    deepStrictEqual(payments, [
+      {
+        blockchainKey: TRON_MAINNET_KEY,
+        tokenId: 'slip44:195',
+        walletDerivationPath: "m/44'/195'/0'/0/1",
+        walletAddress: TRX_INVOICE,
+        transactionHash: 'trx-payment',
+        amount: '5000000',
+        detectedAt: new Date(1700000030000).toISOString(),
+      },
+      {
+        blockchainKey: TRON_MAINNET_KEY,
+        tokenId: `trc20:${USDT_CONTRACT}`,
+        walletDerivationPath: "m/44'/195'/0'/0/2",
+        walletAddress: USDT_INVOICE,
+        transactionHash: 'usdt-payment',
+        amount: '150000000',
+        detectedAt: new Date(1700000030000).toISOString(),
+      },
+    ]);
+    // Block 11 is not confirmed yet
+    strictEqual(Math.max(...indexedBlocks.keys()), 10);
+  });
+
+  it('should rewind to the last canonical block when the checkpoint was reorged out', async () => {
+    indexedBlocks.set(8, { blockNumber: 8, blockHash: 'hash-8' });
+    indexedBlocks.set(9, { blockNumber: 9, blockHash: 'orphaned-9' });
+
+    blocks.set(8, buildBlock(8, 'hash-7', []));
+    blocks.set(9, buildBlock(9, 'hash-8', []));
+    blocks.set(10, buildBlock(10, 'hash-9', []));
+    blocks.set(11, buildBlock(11, 'hash-10', []));
+
+    await listener.syncConfirmedBlocks();
+
+    deepStrictEqual(indexedBlocks.get(9), { blockNumber: 9, blockHash: 'hash-9' });
+    deepStrictEqual(indexedBlocks.get(10), { blockNumber: 10, blockHash: 'hash-10' });
+    strictEqual(enqueuePaymentDetection.mock.callCount(), 0);
+  });
+});
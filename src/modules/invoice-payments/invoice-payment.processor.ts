@@ -4,7 +4,7 @@ import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
 import { Injectable, Logger } from '@nestjs/common';
 
 import { TelemetryLogger } from '../../shared/telemetry.logger';
-import { WalletBalanceCollectorQueueService } from '../wallet-balance-collector/wallet-balance-collector.queue.service';
+import { InvoiceSweepService } from '../wallet-balance-collector/invoice-sweep.service';
 import { InvoicePaymentService } from './invoice-payment.service';
 import { InvoicePaymentJobData } from './invoice-payment.types';
 
@@ -15,21 +15,14 @@ export class InvoicePaymentProcessor extends WorkerHost {
 
   constructor(
     private readonly invoicePaymentService: InvoicePaymentService,
-    private readonly walletBalanceCollectorQueue: WalletBalanceCollectorQueueService,
+    private readonly invoiceSweepService: InvoiceSweepService,
   ) {
     super();
   }
 
   async process(job: Job<InvoicePaymentJobData>): Promise<void> {
-    const {
-      invoiceId,
-      blockchainKey,
-      walletAddress,
-      walletDerivationPath,
-      transactionHash,
-      amount,
-      detectedAt,
-    } = job.data;
+    const { invoiceId, blockchainKey, walletAddress, transactionHash, amount, detectedAt } =
+      job.data;
 
     this.logger.debug(
       `Processing invoice payment job ${job.id} for invoice of wallet ${walletAddress} on blockchain ${blockchainKey}`,
@@ -42,18 +35,12 @@ export class InvoicePaymentProcessor extends WorkerHost {
       paymentDate: new Date(detectedAt),
     });
 
-    // After recording payment, trigger balance collection
+    // After recording payment, sweep the invoice wallet once the invoice is paid
     this.logger.debug(
-      `Triggering balance collection for invoice if wallet ${walletAddress} on blockchain ${blockchainKey}`,
+      `Scheduling sweep for invoice of wallet ${walletAddress} on blockchain ${blockchainKey}`,
     );
 
-    await this.walletBalanceCollectorQueue.enqueueBalanceCollection({
-      blockchainKey,
-      walletAddress,
-      walletDerivationPath,
-      transactionHash,
-      paidAmount: amount,
-    });
+    await this.invoiceSweepService.scheduleInvoiceSweep(walletAddress);
   }
 
   @OnWorkerEvent('completed')
@@ -12,7 +12,10 @@ import {
 
 import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
 import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { LoanMatcherQueueService } from '../loan-matcher/services/loan-matcher-queue.service';
 import { LoanCalculationService } from '../loans/services/loan-calculation.service';
+import { LoanCollateralTopUpService } from '../loans/services/loan-collateral-top-up.service';
+import { LoanPartialRepaymentService } from '../loans/services/loan-partial-repayment.service';
 import { NotificationQueueService } from '../notifications/notification-queue.service';
 
 interface RecordPaymentParams {
@@ -30,6 +33,9 @@ export class InvoicePaymentService {
     @Inject(CryptogadaiRepository) private readonly repository: CryptogadaiRepository,
     private readonly notificationQueue: NotificationQueueService,
     private readonly loanCalculationService: LoanCalculationService,
+    private readonly loanCollateralTopUpService: LoanCollateralTopUpService,
+    private readonly loanPartialRepaymentService: LoanPartialRepaymentService,
+    private readonly loanMatcherQueueService: LoanMatcherQueueService,
   ) {}
 
   async recordPayment(params: RecordPaymentParams): Promise<void> {
@@ -51,11 +57,16 @@ export class InvoicePaymentService {
       // Check if this payment resulted in publishing a loan offer or loan application
       await this.#checkAndNotifyLoanOfferPublished(params.walletAddress);
       await this.#checkAndNotifyLoanApplicationPublished(params.walletAddress);
+
+      // Collateral top-up and partial repayment invoices are linked to an active loan instead of an application
+      await this.#applyActiveLoanInvoice(params.walletAddress, params.paymentDate);
     } catch (error) {
       if (error instanceof Error && error.message.includes('duplicate key value')) {
         this.logger.warn(
           `Duplicate payment detection ignored for invoice of wallet ${params.walletAddress} with hash ${params.transactionHash}`,
         );
+        // A retried job still needs to apply an invoice that failed after the payment was recorded
+        await this.#applyActiveLoanInvoice(params.walletAddress, params.paymentDate);
         return;
       }
 
@@ -131,9 +142,10 @@ export class InvoicePaymentService {
 
       this.logger.log(`Queued LoanOfferPublished notification for loan offer ${loanOffer.id}`);
 
-      // Note: Loan matching will be triggered automatically by the hourly cron scheduler
-      // or can be manually triggered via admin API at /admin/loan-matcher/trigger
-      this.logger.log(`Loan offer ${loanOffer.id} published - will be matched by scheduler`);
+      // Match the offer right away, the hourly cron scheduler picks it up if queueing fails
+      await this.loanMatcherQueueService.enqueueLoanOfferMatching(String(loanOffer.id));
+
+      this.logger.log(`Loan offer ${loanOffer.id} published - queued for instant matching`);
     } catch (error) {
       this.logger.error('Failed to check and notify loan offer published:', error);
       // Don't throw, as this is a notification failure, not a payment processing failure
@@ -209,10 +221,11 @@ export class InvoicePaymentService {
         `Queued LoanApplicationPublished notification for loan application ${loanApplication.id}`,
       );
 
-      // Note: Loan matching will be triggered automatically by the hourly cron scheduler
-      // or can be manually triggered via admin API at /admin/loan-matcher/trigger
+      // Match the application right away, the hourly cron scheduler picks it up if queueing fails
+      await this.loanMatcherQueueService.enqueueLoanApplicationMatching(String(loanApplication.id));
+
       this.logger.log(
-        `Loan application ${loanApplication.id} published - will be matched by scheduler`,
+        `Loan application ${loanApplication.id} published - queued for instant matching`,
       );
     } catch (error) {
       this.logger.error('Failed to check and notify loan application published:', error);
@@ -220,6 +233,12 @@ export class InvoicePaymentService {
     }
   }
 
+  async #applyActiveLoanInvoice(walletAddress: string, paymentDate: Date): Promise<void> {
+    // Errors are rethrown so the payment job is retried, unlike the notification checks
+    await this.loanCollateralTopUpService.applyPaidCollateralTopUp(walletAddress, paymentDate);
+    await this.loanPartialRepaymentService.applyPaidPartialRepayment(walletAddress, paymentDate);
+  }
+
   async #notifyInvoicePayment(walletAddress: string): Promise<void> {
     try {
       // Query the invoice to get its updated status and type
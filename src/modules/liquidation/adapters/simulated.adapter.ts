@@ -0,0 +1,94 @@
+import type { MarketOrder, MarketSellOrderRequest } from '../liquidation-market-adapter.types';
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { BigNumber } from 'bignumber.js';
+
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { defaultLiquidationConfig } from '../liquidation.config';
+import {
+  AbstractLiquidationMarketAdapter,
+  LiquidationMarketAdapter,
+} from '../liquidation-market-adapter.abstract';
+
+/**
+ * Simulated exchange that fills every sell order immediately at the reference price
+ * minus a fixed slippage. Orders are kept in memory for the lifetime of the process.
+ */
+@Injectable()
+@LiquidationMarketAdapter('simulated')
+export class SimulatedLiquidationMarketAdapter extends AbstractLiquidationMarketAdapter {
+  private readonly logger = new TelemetryLogger(SimulatedLiquidationMarketAdapter.name);
+  private readonly orders = new Map<string, MarketOrder>();
+
+  constructor(private readonly configService: ConfigService) {
+    super();
+  }
+
+  async placeSellOrder(request: MarketSellOrderRequest): Promise<MarketOrder> {
+    const existingOrder = this.orders.get(request.clientOrderId);
+    if (existingOrder) {
+      return existingOrder;
+    }
+
+    const slippageRate = Number(
+      this.configService.get<number>(
+        'LIQUIDATION_SIMULATED_SLIPPAGE_RATE',
+        defaultLiquidationConfig.simulatedSlippageRate,
+      ),
+    );
+
+    const fillPrice = new BigNumber(request.referencePrice).times(1 - slippageRate);
+
+    let order: MarketOrder;
+    if (!fillPrice.isFinite() || fillPrice.lte(0)) {
+      order = this.rejectedOrder(request, 'Invalid reference price');
+    } else if (fillPrice.lt(request.minimumPrice)) {
+      order = this.rejectedOrder(
+        request,
+        `Fill price ${fillPrice.toFixed()} is below minimum price ${request.minimumPrice}`,
+      );
+    } else {
+      const proceedsAmount = new BigNumber(request.quantity)
+        .div(new BigNumber(10).pow(request.baseCurrency.decimals))
+        .times(fillPrice)
+        .times(new BigNumber(10).pow(request.quoteCurrency.decimals))
+        .integerValue(BigNumber.ROUND_DOWN);
+
+      order = {
+        orderRef: request.clientOrderId,
+        marketSymbol: request.marketSymbol,
+        status: 'Filled',
+        requestedQuantity: request.quantity,
+        filledQuantity: request.quantity,
+        averagePrice: fillPrice.toFixed(),
+        proceedsAmount: proceedsAmount.toFixed(0),
+      };
+    }
+
+    this.orders.set(request.clientOrderId, order);
+    this.logger.log(
+      `Simulated ${request.marketSymbol} sell order ${request.clientOrderId}: ${order.status}`,
+    );
+
+    return order;
+  }
+
+  async fetchOrder(clientOrderId: string): Promise<MarketOrder | undefined> {
+    return this.orders.get(clientOrderId);
+  }
+
+  private rejectedOrder(request: MarketSellOrderRequest, failureReason: string): MarketOrder {
+    return {
+      orderRef: request.clientOrderId,
+      marketSymbol: request.marketSymbol,
+      status: 'Rejected',
+      requestedQuantity: request.quantity,
+      filledQuantity: '0',
+      averagePrice: '0',
+      proceedsAmount: '0',
+      failureReason,
+    };
+  }
+}
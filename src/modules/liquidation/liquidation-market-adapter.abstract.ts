@@ -0,0 +1,23 @@
+import type {
+  LiquidationMarketProvider,
+  MarketOrder,
+  MarketSellOrderRequest,
+} from './liquidation-market-adapter.types';
+
+import { DiscoveryService } from '@nestjs/core';
+
+export const LiquidationMarketAdapter =
+  DiscoveryService.createDecorator<LiquidationMarketProvider>();
+
+export abstract class AbstractLiquidationMarketAdapter {
+  /**
+   * Places a market sell order. Must be idempotent on clientOrderId.
+   */
+  abstract placeSellOrder(request: MarketSellOrderRequest): Promise<MarketOrder>;
+
+  /**
+   * Fetches an order previously placed with the given clientOrderId.
+   * Returns undefined when the market has no record of the order.
+   */
+  abstract fetchOrder(clientOrderId: string): Promise<MarketOrder | undefined>;
+}
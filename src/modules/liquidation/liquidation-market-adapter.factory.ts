@@ -0,0 +1,25 @@
+import type { LiquidationMarketProvider } from './liquidation-market-adapter.types';
+
+import { Injectable } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+
+import {
+  AbstractLiquidationMarketAdapter,
+  LiquidationMarketAdapter,
+} from './liquidation-market-adapter.abstract';
+
+@Injectable()
+export class LiquidationMarketAdapterFactory {
+  constructor(private readonly discoveryService: DiscoveryService) {}
+
+  getAdapter(provider: LiquidationMarketProvider): AbstractLiquidationMarketAdapter | undefined {
+    const providers = this.discoveryService.getProviders();
+    const adapter = providers.find(instanceWrapper => {
+      return (
+        this.discoveryService.getMetadataByDecorator(LiquidationMarketAdapter, instanceWrapper) ===
+        provider
+      );
+    })?.instance;
+    return adapter instanceof AbstractLiquidationMarketAdapter ? adapter : undefined;
+  }
+}
@@ -0,0 +1,38 @@
+import type { Currency } from '../../shared/repositories/loan.types';
+
+export type LiquidationMarketProvider = 'simulated';
+
+export function isLiquidationMarketProvider(value: string): value is LiquidationMarketProvider {
+  return ['simulated'].includes(value);
+}
+
+export function assertLiquidationMarketProvider(
+  value: string,
+): asserts value is LiquidationMarketProvider {
+  if (!isLiquidationMarketProvider(value)) {
+    throw new Error(`Invalid liquidation market provider: ${value}`);
+  }
+}
+
+export type MarketOrderStatus = 'Open' | 'Filled' | 'Rejected';
+
+export type MarketSellOrderRequest = {
+  clientOrderId: string; // Idempotency key, equals loan_liquidations.order_ref
+  marketSymbol: string; // e.g. BTC/USDC
+  baseCurrency: Currency; // Collateral currency being sold
+  quoteCurrency: Currency; // Principal currency being received
+  quantity: string; // Base currency smallest units
+  referencePrice: string; // Decimal string, quote per one base unit
+  minimumPrice: string; // Decimal string, orders must not fill below this price
+};
+
+export type MarketOrder = {
+  orderRef: string;
+  marketSymbol: string;
+  status: MarketOrderStatus;
+  requestedQuantity: string; // Base currency smallest units
+  filledQuantity: string; // Base currency smallest units
+  averagePrice: string; // Decimal string, quote per one base unit
+  proceedsAmount: string; // Quote currency smallest units, net of market fees
+  failureReason?: string;
+};
@@ -0,0 +1,19 @@
+import type { LiquidationMarketProvider } from './liquidation-market-adapter.types';
+
+export type LiquidationConfig = {
+  schedulerEnabled: boolean;
+  marketProvider: LiquidationMarketProvider;
+  batchSize: number;
+  maxSlippageRate: number; // 0-1 decimal, lowest accepted fill price relative to reference price
+  partialBufferRate: number; // 0-1 decimal, extra collateral sold in Partial mode to absorb slippage
+  simulatedSlippageRate: number; // 0-1 decimal, price impact applied by the simulated market
+};
+
+export const defaultLiquidationConfig: LiquidationConfig = {
+  schedulerEnabled: true,
+  marketProvider: 'simulated',
+  batchSize: 50,
+  maxSlippageRate: 0.05,
+  partialBufferRate: 0.01,
+  simulatedSlippageRate: 0.001,
+};
@@ -0,0 +1,45 @@
+import { BullModule } from '@nestjs/bullmq';
+import { forwardRef, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { ScheduleModule } from '@nestjs/schedule';
+
+import { SharedModule } from '../../shared/shared.module';
+import { LoansModule } from '../loans/loans.module';
+import { NotificationModule } from '../notifications/notification.module';
+import { SimulatedLiquidationMarketAdapter } from './adapters/simulated.adapter';
+import { LiquidationProcessor } from './liquidation.processor';
+import { LiquidationScheduler } from './liquidation.scheduler';
+import { LiquidationService } from './liquidation.service';
+import { LiquidationMarketAdapterFactory } from './liquidation-market-adapter.factory';
+
+/**
+ * LiquidationModule
+ *
+ * Consumes the liquidation queue fed by the valuation worker and periodically sweeps
+ * breached loans and pending loan_liquidations rows. Collateral is sold through a
+ * pluggable market adapter selected by LIQUIDATION_MARKET_PROVIDER.
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    DiscoveryModule,
+    ScheduleModule.forRoot(),
+    SharedModule,
+    NotificationModule,
+    forwardRef(() => LoansModule),
+    BullModule.registerQueue({
+      name: 'liquidationQueue',
+    }),
+  ],
+  providers: [
+    LiquidationService,
+    LiquidationProcessor,
+    LiquidationScheduler,
+    LiquidationMarketAdapterFactory,
+
+    SimulatedLiquidationMarketAdapter,
+  ],
+  exports: [LiquidationService],
+})
+export class LiquidationModule {}
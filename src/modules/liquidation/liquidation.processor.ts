@@ -0,0 +1,96 @@
+import type { LiquidationExecutionResult, LiquidationSweepResult } from './liquidation.types';
+
+import { Processor, WorkerHost } from '@nestjs/bullmq';
+
+import { Job } from 'bullmq';
+import { assertDefined, assertPropString } from 'typeshaper';
+
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { LiquidationService } from './liquidation.service';
+
+@Processor('liquidationQueue')
+export class LiquidationProcessor extends WorkerHost {
+  private readonly logger = new TelemetryLogger(LiquidationProcessor.name);
+
+  constructor(private readonly liquidationService: LiquidationService) {
+    super();
+  }
+
+  async process(job: Job): Promise<unknown> {
+    this.logger.log(`Processing job ${job.id} of type ${job.name}`);
+
+    switch (job.name) {
+      case 'ltvLiquidationTriggered':
+        return await this.handleLtvLiquidationTriggered(job);
+      case 'loanDefaulted':
+        return await this.handleLoanDefaulted(job);
+      case 'placePendingOrder':
+        return this.handlePlacePendingOrder(job);
+      case 'liquidationSweep':
+        return await this.handleLiquidationSweep();
+      default:
+        this.logger.warn(`Unknown job type: ${job.name}`);
+        return { success: false, message: 'Unknown job type' };
+    }
+  }
+
+  /**
+   * Handles LTV breach events emitted by the valuation worker
+   */
+  private async handleLtvLiquidationTriggered(job: Job): Promise<LiquidationExecutionResult> {
+    const data: unknown = job.data;
+    assertDefined(data);
+    assertPropString(data, 'loanId');
+
+    const result = await this.liquidationService.liquidateLoan(data.loanId, new Date());
+
+    this.logger.log(
+      `Liquidation for loan ${result.loanId} finished with outcome ${result.outcome}` +
+        (result.reason ? ` (${result.reason})` : ''),
+    );
+
+    return result;
+  }
+
+  /**
+   * Handles loans defaulted by the loan maturity worker after the grace window lapsed
+   */
+  private async handleLoanDefaulted(job: Job): Promise<LiquidationExecutionResult> {
+    const data: unknown = job.data;
+    assertDefined(data);
+    assertPropString(data, 'loanId');
+
+    const result = await this.liquidationService.liquidateLoan(data.loanId, new Date());
+
+    this.logger.log(
+      `Liquidation of defaulted loan ${result.loanId} finished with outcome ${result.outcome}` +
+        (result.reason ? ` (${result.reason})` : ''),
+    );
+
+    return result;
+  }
+
+  /**
+   * Risk premium level reached. The market order is only placed once the liquidation
+   * threshold is breached, so this event is acknowledged without executing anything.
+   */
+  private handlePlacePendingOrder(job: Job): { success: boolean; message: string } {
+    const data: unknown = job.data;
+    assertDefined(data);
+    assertPropString(data, 'loanId');
+
+    this.logger.log(`Loan ${data.loanId} reached risk premium level, awaiting liquidation breach`);
+
+    return { success: true, message: 'Acknowledged' };
+  }
+
+  private async handleLiquidationSweep(): Promise<LiquidationSweepResult> {
+    const result = await this.liquidationService.processLiquidations(new Date());
+
+    if (result.errors.length > 0) {
+      this.logger.warn(`Liquidation sweep had ${result.errors.length} errors:`, result.errors);
+    }
+
+    return result;
+  }
+}
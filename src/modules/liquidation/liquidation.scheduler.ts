@@ -0,0 +1,64 @@
+import type { Queue } from 'bullmq';
+
+import { InjectQueue } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { defaultLiquidationConfig } from './liquidation.config';
+
+/**
+ * Liquidation Scheduler
+ * Queues a liquidation sweep every 5 minutes. The sweep runs on the liquidation queue so it is
+ * processed one job at a time together with LTV breach events from the valuation worker.
+ *
+ * Environment Variables:
+ * - LIQUIDATION_SCHEDULER_ENABLED: Enable/disable scheduler (default: true)
+ * - LIQUIDATION_MARKET_PROVIDER: Market adapter used to sell collateral (default: simulated)
+ * - LIQUIDATION_BATCH_SIZE: Pending liquidations processed per sweep (default: 50)
+ * - LIQUIDATION_MAX_SLIPPAGE_RATE: Lowest accepted fill price below reference (default: 0.05)
+ * - LIQUIDATION_PARTIAL_BUFFER_RATE: Extra collateral sold in Partial mode (default: 0.01)
+ */
+@Injectable()
+export class LiquidationScheduler {
+  private readonly logger = new TelemetryLogger(LiquidationScheduler.name);
+
+  constructor(
+    @InjectQueue('liquidationQueue')
+    private readonly liquidationQueue: Queue,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Cron(CronExpression.EVERY_5_MINUTES, {
+    name: 'liquidation-sweep',
+  })
+  async handleLiquidationSweepCron() {
+    const isEnabled = this.configService.get<boolean>(
+      'LIQUIDATION_SCHEDULER_ENABLED',
+      defaultLiquidationConfig.schedulerEnabled,
+    );
+
+    if (!isEnabled) {
+      this.logger.debug('Liquidation scheduler is disabled');
+      return;
+    }
+
+    try {
+      const job = await this.liquidationQueue.add(
+        'liquidationSweep',
+        {},
+        {
+          priority: 5,
+          attempts: 1,
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      );
+      this.logger.log(`Queued liquidation sweep with job ID: ${job.id}`);
+    } catch (error) {
+      this.logger.error('Failed to queue liquidation sweep:', error);
+      // Don't throw - we want the scheduler to continue running
+    }
+  }
+}
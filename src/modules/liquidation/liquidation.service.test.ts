@@ -0,0 +1,429 @@
+import type { LoanLiquidationCandidate } from '../../shared/repositories/loan.types';
+import type { MarketOrder, MarketSellOrderRequest } from './liquidation-market-adapter.types';
+
+import assert from 'node:assert';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { LoanCalculationService } from '../loans/services/loan-calculation.service';
+import { LiquidationService } from './liquidation.service';
+
+interface MockLoanRepository {
+  platformMonitorsLtvRatios: ReturnType<typeof mock.fn>;
+  platformListsPendingLiquidations: ReturnType<typeof mock.fn>;
+  platformViewsLoanLiquidationCandidate: ReturnType<typeof mock.fn>;
+  platformLiquidatesCollateral: ReturnType<typeof mock.fn>;
+  platformPlacesLiquidationOrder: ReturnType<typeof mock.fn>;
+  platformSettlesLiquidation: ReturnType<typeof mock.fn>;
+  platformFailsLiquidation: ReturnType<typeof mock.fn>;
+  platformViewsLoanMarketHalt: ReturnType<typeof mock.fn>;
+}
+
+interface MockMarketAdapter {
+  placeSellOrder: ReturnType<typeof mock.fn>;
+  fetchOrder: ReturnType<typeof mock.fn>;
+}
+
+function createCandidate(
+  overrides: Partial<LoanLiquidationCandidate> = {},
+): LoanLiquidationCandidate {
+  return {
+    loanId: 'loan-1',
+    loanStatus: 'Active',
+    lenderUserId: 'lender-1',
+    borrowerUserId: 'borrower-1',
+    liquidationMode: 'Full',
+    principalCurrency: {
+      blockchainKey: 'eip155:56',
+      tokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+      decimals: 6,
+      symbol: 'USDC',
+      name: 'USD Coin',
+    },
+    collateralCurrency: {
+      blockchainKey: 'eip155:56',
+      tokenId: 'slip44:714',
+      decimals: 8,
+      symbol: 'BNB',
+      name: 'Binance Coin',
+    },
+    principalAmount: '1000000000', // 1000 USDC
+    repaymentAmount: '1100000000', // 1100 USDC
+    redeliveryAmount: '1070000000', // 1070 USDC
+    premiAmount: '20000000', // 20 USDC
+    liquidationFeeAmount: '20000000', // 20 USDC
+    collateralAmount: '300000000', // 3 BNB
+    currentLtvRatio: 1.02,
+    exchangeRate: {
+      id: 'rate-1',
+      bidPrice: '500',
+      askPrice: '501',
+      sourceDate: new Date('2024-01-15T10:00:00.000Z'),
+    },
+    ...overrides,
+  };
+}
+
+function filledOrder(request: MarketSellOrderRequest, price: string): MarketOrder {
+  const proceeds =
+    (BigInt(request.quantity) * BigInt(price) * 10n ** BigInt(request.quoteCurrency.decimals)) /
+    10n ** BigInt(request.baseCurrency.decimals);
+  return {
+    orderRef: request.clientOrderId,
+    marketSymbol: request.marketSymbol,
+    status: 'Filled',
+    requestedQuantity: request.quantity,
+    filledQuantity: request.quantity,
+    averagePrice: price,
+    proceedsAmount: proceeds.toString(),
+  };
+}
+
+describe('LiquidationService', () => {
+  let liquidationService: LiquidationService;
+  let mockRepository: MockLoanRepository;
+  let mockMarketAdapter: MockMarketAdapter;
+  let mockNotificationQueueService: { queueNotification: ReturnType<typeof mock.fn> };
+  const executionDate = new Date('2024-01-15T12:00:00.000Z');
+
+  beforeEach(() => {
+    mockRepository = {
+      platformMonitorsLtvRatios: mock.fn(() =>
+        Promise.resolve({ processedLoans: 0, breachedLoans: [] }),
+      ),
+      platformListsPendingLiquidations: mock.fn(() => Promise.resolve({ liquidations: [] })),
+      platformViewsLoanLiquidationCandidate: mock.fn(() => Promise.resolve(createCandidate())),
+      platformLiquidatesCollateral: mock.fn(() => Promise.resolve({})),
+      platformPlacesLiquidationOrder: mock.fn(() => Promise.resolve({})),
+      platformSettlesLiquidation: mock.fn(() => Promise.resolve({})),
+      platformFailsLiquidation: mock.fn(() => Promise.resolve({})),
+      platformViewsLoanMarketHalt: mock.fn(() => Promise.resolve({ circuitBreaker: undefined })),
+    };
+
+    mockMarketAdapter = {
+      placeSellOrder: mock.fn((request: MarketSellOrderRequest) =>
+        Promise.resolve(filledOrder(request, '500')),
+      ),
+      fetchOrder: mock.fn(() => Promise.resolve(undefined)),
+    };
+
+    mockNotificationQueueService = {
+      queueNotification: mock.fn(() => Promise.resolve()),
+    };
+
+    const mockMarketAdapterFactory = {
+      getAdapter: mock.fn(() => mockMarketAdapter),
+    };
+
+    const mockConfigService = {
+      get: mock.fn((_key: string, defaultValue: unknown) => defaultValue),
+    };
+
+    liquidationService = new LiquidationService(
+      // biome-ignore lint/suspicious/noExplicitAny: Mock repository for testing
+      mockRepository as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock factory for testing
+      mockMarketAdapterFactory as any,
+      new LoanCalculationService(),
+      // biome-ignore lint/suspicious/noExplicitAny: Mock notification queue for testing
+      mockNotificationQueueService as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock config service for testing
+      mockConfigService as any,
+    );
+  });
+
+  describe('liquidateLoan', () => {
+    it('should create a platform liquidation and sell all collateral in Full mode', async () => {
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'Settled');
+      assert.strictEqual(result.liquidationInitiator, 'Platform');
+      assert.strictEqual(mockRepository.platformLiquidatesCollateral.mock.callCount(), 1);
+      assert.strictEqual(mockRepository.platformPlacesLiquidationOrder.mock.callCount(), 0);
+
+      const liquidationParams = mockRepository.platformLiquidatesCollateral.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(liquidationParams.liquidationInitiator, 'Platform');
+      assert.strictEqual(liquidationParams.liquidationTargetAmount, '1140000000');
+      assert.strictEqual(liquidationParams.marketSymbol, 'BNB/USDC');
+      assert.strictEqual(liquidationParams.orderQuantity, '300000000');
+      assert.strictEqual(liquidationParams.orderPrice, '500000000');
+
+      const orderRequest = mockMarketAdapter.placeSellOrder.mock.calls[0]
+        .arguments[0] as MarketSellOrderRequest;
+      assert.strictEqual(orderRequest.clientOrderId, liquidationParams.orderRef);
+      assert.strictEqual(orderRequest.minimumPrice, '475');
+
+      // 3 BNB * 500 = 1500 USDC proceeds
+      const settlementParams = mockRepository.platformSettlesLiquidation.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.deepStrictEqual(settlementParams, {
+        loanId: 'loan-1',
+        soldCollateralAmount: '300000000',
+        releasedCollateralAmount: '0',
+        fulfilledAmount: '1500000000',
+        lenderRepaymentAmount: '1070000000',
+        platformFeeAmount: '50000000',
+        borrowerSurplusAmount: '380000000',
+        returnedPremiAmount: '20000000',
+        fulfilledDate: executionDate,
+      });
+
+      assert.strictEqual(mockNotificationQueueService.queueNotification.mock.callCount(), 1);
+      const notification = mockNotificationQueueService.queueNotification.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(notification.type, 'LoanLiquidation');
+      assert.strictEqual(notification.userId, 'borrower-1');
+      assert.strictEqual(notification.liquidationAmount, '1500.000000');
+    });
+
+    it('should only sell collateral covering the target amount in Partial mode', async () => {
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(() =>
+        Promise.resolve(createCandidate({ liquidationMode: 'Partial' })),
+      );
+
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'Settled');
+
+      // 1140 USDC / 500 * 1.01 buffer = 2.3028 BNB
+      const orderRequest = mockMarketAdapter.placeSellOrder.mock.calls[0]
+        .arguments[0] as MarketSellOrderRequest;
+      assert.strictEqual(orderRequest.quantity, '230280000');
+
+      const settlementParams = mockRepository.platformSettlesLiquidation.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(settlementParams.soldCollateralAmount, '230280000');
+      assert.strictEqual(settlementParams.releasedCollateralAmount, '69720000');
+      assert.strictEqual(settlementParams.fulfilledAmount, '1151400000');
+      assert.strictEqual(settlementParams.lenderRepaymentAmount, '1070000000');
+      assert.strictEqual(settlementParams.platformFeeAmount, '50000000');
+      assert.strictEqual(settlementParams.borrowerSurplusAmount, '31400000');
+    });
+
+    it('should place the order for a borrower-initiated pending liquidation', async () => {
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(() =>
+        Promise.resolve(
+          createCandidate({
+            liquidation: {
+              liquidationInitiator: 'Borrower',
+              liquidationTargetAmount: '0',
+              marketProvider: 'DefaultProvider',
+              marketSymbol: 'DEFAULT',
+              orderRef: 'borrower_liquidation_loan-1_1705312800000',
+              status: 'Pending',
+              orderDate: new Date('2024-01-15T10:00:00.000Z'),
+            },
+          }),
+        ),
+      );
+
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'Settled');
+      assert.strictEqual(result.liquidationInitiator, 'Borrower');
+      assert.strictEqual(mockRepository.platformLiquidatesCollateral.mock.callCount(), 0);
+      assert.strictEqual(mockRepository.platformPlacesLiquidationOrder.mock.callCount(), 1);
+      assert.strictEqual(mockMarketAdapter.fetchOrder.mock.callCount(), 0);
+
+      const placeParams = mockRepository.platformPlacesLiquidationOrder.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(placeParams.marketProvider, 'simulated');
+      assert.strictEqual(placeParams.liquidationTargetAmount, '1140000000');
+      assert.notStrictEqual(placeParams.orderRef, 'borrower_liquidation_loan-1_1705312800000');
+    });
+
+    it('should resume an order already placed on the market', async () => {
+      const existingOrder: MarketOrder = {
+        orderRef: 'liquidation_loan-1_1705312800000',
+        marketSymbol: 'BNB/USDC',
+        status: 'Open',
+        requestedQuantity: '300000000',
+        filledQuantity: '0',
+        averagePrice: '0',
+        proceedsAmount: '0',
+      };
+      mockMarketAdapter.fetchOrder.mock.mockImplementation(() => Promise.resolve(existingOrder));
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(() =>
+        Promise.resolve(
+          createCandidate({
+            liquidation: {
+              liquidationInitiator: 'Platform',
+              liquidationTargetAmount: '1140000000',
+              marketProvider: 'simulated',
+              marketSymbol: 'BNB/USDC',
+              orderRef: 'liquidation_loan-1_1705312800000',
+              orderQuantity: '300000000',
+              orderPrice: '500000000',
+              status: 'Pending',
+              orderDate: new Date('2024-01-15T10:00:00.000Z'),
+            },
+          }),
+        ),
+      );
+
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'OrderOpen');
+      assert.strictEqual(mockMarketAdapter.placeSellOrder.mock.callCount(), 0);
+      assert.strictEqual(mockRepository.platformSettlesLiquidation.mock.callCount(), 0);
+    });
+
+    it('should mark the liquidation as failed when the market rejects the order', async () => {
+      mockMarketAdapter.placeSellOrder.mock.mockImplementation((request: MarketSellOrderRequest) =>
+        Promise.resolve({
+          ...filledOrder(request, '0'),
+          status: 'Rejected',
+          filledQuantity: '0',
+          failureReason: 'Insufficient liquidity',
+        }),
+      );
+
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'Failed');
+      assert.strictEqual(result.reason, 'Insufficient liquidity');
+      assert.strictEqual(mockRepository.platformFailsLiquidation.mock.callCount(), 1);
+      assert.strictEqual(mockRepository.platformSettlesLiquidation.mock.callCount(), 0);
+      assert.strictEqual(mockNotificationQueueService.queueNotification.mock.callCount(), 0);
+    });
+
+    it('should skip loans that are no longer active', async () => {
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(() =>
+        Promise.resolve(createCandidate({ loanStatus: 'Repaid' })),
+      );
+
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'Skipped');
+      assert.strictEqual(mockMarketAdapter.placeSellOrder.mock.callCount(), 0);
+    });
+
+    it('should not liquidate while the collateral market is halted', async () => {
+      mockRepository.platformViewsLoanMarketHalt.mock.mockImplementation(() =>
+        Promise.resolve({
+          circuitBreaker: {
+            id: 'breaker-1',
+            blockchainKey: 'eip155:56',
+            baseCurrencyTokenId: 'slip44:714',
+            quoteCurrencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+            status: 'Halted',
+            priceChangeRate: 0.18,
+            triggerExchangeRateId: 'rate-1',
+            haltedDate: new Date('2024-01-15T11:50:00.000Z'),
+            lastBreachDate: new Date('2024-01-15T11:55:00.000Z'),
+          },
+        }),
+      );
+
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'Skipped');
+      assert.match(result.reason ?? '', /halted by the circuit breaker/);
+      assert.strictEqual(mockRepository.platformLiquidatesCollateral.mock.callCount(), 0);
+      assert.strictEqual(mockMarketAdapter.placeSellOrder.mock.callCount(), 0);
+    });
+
+    it('should still execute borrower-initiated liquidations while the market is halted', async () => {
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(() =>
+        Promise.resolve(
+          createCandidate({
+            liquidation: {
+              liquidationInitiator: 'Borrower',
+              liquidationTargetAmount: '0',
+              status: 'Pending',
+              orderDate: new Date('2024-01-15T10:00:00.000Z'),
+            },
+          }),
+        ),
+      );
+
+      const result = await liquidationService.liquidateLoan('loan-1', executionDate);
+
+      assert.strictEqual(result.outcome, 'Settled');
+      assert.strictEqual(mockRepository.platformViewsLoanMarketHalt.mock.callCount(), 0);
+    });
+
+    it('should keep the liquidation pending when no exchange rate is available', async () => {
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(() =>
+        Promise.resolve(createCandidate({ exchangeRate: undefined })),
+      );
+
+      await assert.rejects(liquidationService.liquidateLoan('loan-1', executionDate), {
+        message: 'No exchange rate available for loan loan-1',
+      });
+      assert.strictEqual(mockRepository.platformLiquidatesCollateral.mock.callCount(), 0);
+    });
+  });
+
+  describe('calculateSettlement', () => {
+    it('should pay the lender first when proceeds do not cover the debt', () => {
+      const candidate = createCandidate();
+      const settlement = liquidationService.calculateSettlement(candidate, {
+        orderRef: 'order-1',
+        marketSymbol: 'BNB/USDC',
+        status: 'Filled',
+        requestedQuantity: '300000000',
+        filledQuantity: '300000000',
+        averagePrice: '350',
+        proceedsAmount: '1050000000',
+      });
+
+      assert.strictEqual(settlement.lenderRepaymentAmount, '1050000000');
+      assert.strictEqual(settlement.platformFeeAmount, '0');
+      assert.strictEqual(settlement.borrowerSurplusAmount, '0');
+      assert.strictEqual(settlement.returnedPremiAmount, '0');
+      assert.strictEqual(settlement.releasedCollateralAmount, '0');
+    });
+  });
+
+  describe('processLiquidations', () => {
+    it('should process breached loans and pending liquidations once each', async () => {
+      mockRepository.platformMonitorsLtvRatios.mock.mockImplementation(() =>
+        Promise.resolve({
+          processedLoans: 2,
+          breachedLoans: [
+            { loanId: 'loan-1', borrowerUserId: 'borrower-1' },
+            { loanId: 'loan-2', borrowerUserId: 'borrower-2' },
+          ],
+        }),
+      );
+      mockRepository.platformListsPendingLiquidations.mock.mockImplementation(() =>
+        Promise.resolve({ liquidations: [createCandidate({ loanId: 'loan-2' })] }),
+      );
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(
+        (params: { loanId: string }) => Promise.resolve(createCandidate({ loanId: params.loanId })),
+      );
+
+      const result = await liquidationService.processLiquidations(executionDate);
+
+      assert.strictEqual(result.processedCount, 2);
+      assert.strictEqual(result.settledCount, 2);
+      assert.strictEqual(result.errors.length, 0);
+      assert.strictEqual(mockRepository.platformViewsLoanLiquidationCandidate.mock.callCount(), 2);
+    });
+
+    it('should collect errors without stopping the sweep', async () => {
+      mockRepository.platformListsPendingLiquidations.mock.mockImplementation(() =>
+        Promise.resolve({
+          liquidations: [
+            createCandidate({ loanId: 'loan-1' }),
+            createCandidate({ loanId: 'loan-2' }),
+          ],
+        }),
+      );
+      mockRepository.platformViewsLoanLiquidationCandidate.mock.mockImplementation(
+        (params: { loanId: string }) =>
+          params.loanId === 'loan-1'
+            ? Promise.reject(new Error('Database unavailable'))
+            : Promise.resolve(createCandidate({ loanId: params.loanId })),
+      );
+
+      const result = await liquidationService.processLiquidations(executionDate);
+
+      assert.strictEqual(result.processedCount, 2);
+      assert.strictEqual(result.settledCount, 1);
+      assert.strictEqual(result.errors.length, 1);
+      assert.match(result.errors[0], /loan-1: Database unavailable/);
+    });
+  });
+});
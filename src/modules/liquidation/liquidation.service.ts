@@ -0,0 +1,416 @@
+import type { LoanLiquidationCandidate } from '../../shared/repositories/loan.types';
+import type {
+  LiquidationExecutionResult,
+  LiquidationSettlement,
+  LiquidationSweepResult,
+} from './liquidation.types';
+import type { LiquidationMarketProvider, MarketOrder } from './liquidation-market-adapter.types';
+
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { BigNumber } from 'bignumber.js';
+
+import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { fromLowestDenomination, toLowestDenomination } from '../../shared/utils/decimal';
+import { LoanCalculationService } from '../loans/services/loan-calculation.service';
+import { NotificationQueueService } from '../notifications/notification-queue.service';
+import { defaultLiquidationConfig } from './liquidation.config';
+import { LiquidationMarketAdapterFactory } from './liquidation-market-adapter.factory';
+import { assertLiquidationMarketProvider } from './liquidation-market-adapter.types';
+
+@Injectable()
+export class LiquidationService {
+  private readonly logger = new TelemetryLogger(LiquidationService.name);
+
+  /** Loans currently being executed by this worker, shared by queue jobs and the sweep */
+  private readonly loansInProgress = new Set<string>();
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly marketAdapterFactory: LiquidationMarketAdapterFactory,
+    private readonly loanCalculationService: LoanCalculationService,
+    private readonly notificationQueueService: NotificationQueueService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Sweeps loans that need liquidation:
+   * 1. Breached loans without a liquidation record get a new platform-initiated liquidation
+   * 2. Pending liquidations (including borrower-initiated ones) are placed, polled or settled
+   */
+  async processLiquidations(asOfDate: Date): Promise<LiquidationSweepResult> {
+    const batchSize = Number(
+      this.configService.get<number>('LIQUIDATION_BATCH_SIZE', defaultLiquidationConfig.batchSize),
+    );
+
+    const loanIds = new Set<string>();
+    const errors: string[] = [];
+
+    try {
+      const monitoring = await this.repository.platformMonitorsLtvRatios({
+        monitoringDate: asOfDate,
+      });
+      for (const breachedLoan of monitoring.breachedLoans) {
+        loanIds.add(breachedLoan.loanId);
+      }
+    } catch (error) {
+      const errorMessage = `Failed to monitor LTV ratios: ${error instanceof Error ? error.message : String(error)}`;
+      this.logger.error(errorMessage);
+      errors.push(errorMessage);
+    }
+
+    const { liquidations } = await this.repository.platformListsPendingLiquidations({
+      limit: batchSize,
+    });
+    for (const liquidation of liquidations) {
+      loanIds.add(liquidation.loanId);
+    }
+
+    let processedCount = 0;
+    let settledCount = 0;
+    let failedCount = 0;
+
+    for (const loanId of loanIds) {
+      try {
+        const result = await this.liquidateLoan(loanId, asOfDate);
+        processedCount++;
+        if (result.outcome === 'Settled') settledCount++;
+        if (result.outcome === 'Failed') failedCount++;
+      } catch (error) {
+        const errorMessage = `Failed to liquidate loan ${loanId}: ${error instanceof Error ? error.message : String(error)}`;
+        this.logger.error(errorMessage);
+        errors.push(errorMessage);
+        processedCount++;
+      }
+    }
+
+    this.logger.log(
+      `Liquidation sweep completed. Processed: ${processedCount}, Settled: ${settledCount}, Failed: ${failedCount}, Errors: ${errors.length}`,
+    );
+
+    return { processedCount, settledCount, failedCount, errors };
+  }
+
+  /**
+   * Liquidates a single loan: creates the liquidation when missing, places the market order,
+   * then settles the proceeds once the order is filled.
+   */
+  async liquidateLoan(loanId: string, executionDate: Date): Promise<LiquidationExecutionResult> {
+    if (this.loansInProgress.has(loanId)) {
+      return { loanId, outcome: 'Skipped', reason: 'Liquidation already in progress' };
+    }
+
+    this.loansInProgress.add(loanId);
+    try {
+      const candidate = await this.repository.platformViewsLoanLiquidationCandidate({ loanId });
+
+      if (!['Active', 'Originated', 'Defaulted'].includes(candidate.loanStatus)) {
+        return { loanId, outcome: 'Skipped', reason: `Loan status is ${candidate.loanStatus}` };
+      }
+
+      if (candidate.liquidation && candidate.liquidation.status !== 'Pending') {
+        return {
+          loanId,
+          outcome: 'Skipped',
+          liquidationInitiator: candidate.liquidation.liquidationInitiator,
+          reason: `Liquidation status is ${candidate.liquidation.status}`,
+        };
+      }
+
+      // A halted market blocks new platform sell orders, borrower requests and placed orders carry on
+      if (
+        candidate.liquidation?.liquidationInitiator !== 'Borrower' &&
+        !candidate.liquidation?.orderRef
+      ) {
+        const { circuitBreaker } = await this.repository.platformViewsLoanMarketHalt({ loanId });
+        if (circuitBreaker) {
+          this.logger.warn(
+            `Liquidation of loan ${loanId} blocked, ${circuitBreaker.baseCurrencyTokenId}/${circuitBreaker.quoteCurrencyTokenId} is halted`,
+          );
+          return {
+            loanId,
+            outcome: 'Skipped',
+            liquidationInitiator: candidate.liquidation?.liquidationInitiator,
+            reason: `Market ${circuitBreaker.baseCurrencyTokenId}/${circuitBreaker.quoteCurrencyTokenId} is halted by the circuit breaker`,
+          };
+        }
+      }
+
+      return await this.executeLiquidation(candidate, executionDate);
+    } finally {
+      this.loansInProgress.delete(loanId);
+    }
+  }
+
+  /**
+   * Calculates how much collateral to sell.
+   * Full mode sells all collateral; Partial mode sells just enough to cover the target amount.
+   */
+  calculateOrderQuantity(
+    candidate: LoanLiquidationCandidate,
+    liquidationTargetAmount: string,
+    referencePrice: string,
+  ): string {
+    const collateralAmount = new BigNumber(candidate.collateralAmount);
+
+    if (candidate.liquidationMode === 'Full') {
+      return collateralAmount.toFixed(0);
+    }
+
+    const bufferRate = Number(
+      this.configService.get<number>(
+        'LIQUIDATION_PARTIAL_BUFFER_RATE',
+        defaultLiquidationConfig.partialBufferRate,
+      ),
+    );
+
+    const requiredQuantity = new BigNumber(liquidationTargetAmount)
+      .div(new BigNumber(10).pow(candidate.principalCurrency.decimals))
+      .div(referencePrice)
+      .times(1 + bufferRate)
+      .times(new BigNumber(10).pow(candidate.collateralCurrency.decimals))
+      .integerValue(BigNumber.ROUND_UP);
+
+    return BigNumber.min(requiredQuantity, collateralAmount).toFixed(0);
+  }
+
+  /**
+   * Distributes market proceeds in order of seniority:
+   * lender redelivery, platform fees (provision, redelivery fee and liquidation fee), then borrower surplus.
+   * Unsold collateral is released back to the borrower.
+   */
+  calculateSettlement(
+    candidate: LoanLiquidationCandidate,
+    order: MarketOrder,
+  ): LiquidationSettlement {
+    const collateralAmount = new BigNumber(candidate.collateralAmount);
+    const soldCollateralAmount = BigNumber.min(order.filledQuantity, collateralAmount);
+    const releasedCollateralAmount = collateralAmount.minus(soldCollateralAmount);
+
+    const fulfilledAmount = new BigNumber(order.proceedsAmount);
+
+    const lenderRepaymentAmount = BigNumber.min(fulfilledAmount, candidate.redeliveryAmount);
+    let remainingAmount = fulfilledAmount.minus(lenderRepaymentAmount);
+
+    const platformFeeDueAmount = new BigNumber(candidate.repaymentAmount)
+      .minus(candidate.redeliveryAmount)
+      .plus(candidate.liquidationFeeAmount);
+    const platformFeeAmount = BigNumber.min(
+      remainingAmount,
+      BigNumber.max(platformFeeDueAmount, 0),
+    );
+    remainingAmount = remainingAmount.minus(platformFeeAmount);
+
+    const returnedPremiAmount = BigNumber.min(remainingAmount, candidate.premiAmount);
+
+    return {
+      soldCollateralAmount: soldCollateralAmount.toFixed(0),
+      releasedCollateralAmount: releasedCollateralAmount.toFixed(0),
+      fulfilledAmount: fulfilledAmount.toFixed(0),
+      lenderRepaymentAmount: lenderRepaymentAmount.toFixed(0),
+      platformFeeAmount: platformFeeAmount.toFixed(0),
+      borrowerSurplusAmount: remainingAmount.toFixed(0),
+      returnedPremiAmount: returnedPremiAmount.toFixed(0),
+    };
+  }
+
+  private async executeLiquidation(
+    candidate: LoanLiquidationCandidate,
+    executionDate: Date,
+  ): Promise<LiquidationExecutionResult> {
+    const provider = this.getMarketProvider();
+    const adapter = this.marketAdapterFactory.getAdapter(provider);
+    if (!adapter) {
+      throw new Error(`Liquidation market adapter not found: ${provider}`);
+    }
+
+    const liquidation = candidate.liquidation;
+    const isRoutedToMarket =
+      liquidation?.marketProvider === provider && liquidation.orderRef !== undefined;
+
+    // Resume an order placed by a previous run instead of selling twice
+    if (isRoutedToMarket && liquidation.orderRef) {
+      const existingOrder = await adapter.fetchOrder(liquidation.orderRef);
+      if (existingOrder) {
+        return await this.handleMarketOrder(candidate, existingOrder, executionDate);
+      }
+    }
+
+    if (!candidate.exchangeRate) {
+      throw new Error(`No exchange rate available for loan ${candidate.loanId}`);
+    }
+
+    // Borrower-initiated liquidations are recorded without a target amount
+    const liquidationTargetAmount =
+      liquidation && new BigNumber(liquidation.liquidationTargetAmount).gt(0)
+        ? liquidation.liquidationTargetAmount
+        : this.loanCalculationService.calculateLiquidationTargetAmount(
+            candidate.repaymentAmount,
+            candidate.premiAmount,
+            candidate.liquidationFeeAmount,
+          );
+
+    const referencePrice = candidate.exchangeRate.bidPrice;
+    const orderQuantity = this.calculateOrderQuantity(
+      candidate,
+      liquidationTargetAmount,
+      referencePrice,
+    );
+    const orderPrice = toLowestDenomination(referencePrice, candidate.principalCurrency.decimals);
+    const marketSymbol = `${candidate.collateralCurrency.symbol}/${candidate.principalCurrency.symbol}`;
+    const orderRef =
+      isRoutedToMarket && liquidation.orderRef
+        ? liquidation.orderRef
+        : `liquidation_${candidate.loanId}_${executionDate.getTime()}`;
+
+    if (!liquidation) {
+      await this.repository.platformLiquidatesCollateral({
+        loanId: candidate.loanId,
+        liquidationTargetAmount,
+        marketProvider: provider,
+        marketSymbol,
+        orderRef,
+        orderQuantity,
+        orderPrice,
+        orderDate: executionDate,
+        liquidationInitiator: 'Platform',
+      });
+    } else {
+      await this.repository.platformPlacesLiquidationOrder({
+        loanId: candidate.loanId,
+        liquidationTargetAmount,
+        marketProvider: provider,
+        marketSymbol,
+        orderRef,
+        orderQuantity,
+        orderPrice,
+        orderDate: executionDate,
+      });
+    }
+
+    const maxSlippageRate = Number(
+      this.configService.get<number>(
+        'LIQUIDATION_MAX_SLIPPAGE_RATE',
+        defaultLiquidationConfig.maxSlippageRate,
+      ),
+    );
+
+    this.logger.log(
+      `Placing ${candidate.liquidationMode} liquidation order ${orderRef} for loan ${candidate.loanId}: ${orderQuantity} ${marketSymbol}`,
+    );
+
+    const order = await adapter.placeSellOrder({
+      clientOrderId: orderRef,
+      marketSymbol,
+      baseCurrency: candidate.collateralCurrency,
+      quoteCurrency: candidate.principalCurrency,
+      quantity: orderQuantity,
+      referencePrice,
+      minimumPrice: new BigNumber(referencePrice).times(1 - maxSlippageRate).toFixed(),
+    });
+
+    return await this.handleMarketOrder(candidate, order, executionDate);
+  }
+
+  private async handleMarketOrder(
+    candidate: LoanLiquidationCandidate,
+    order: MarketOrder,
+    executionDate: Date,
+  ): Promise<LiquidationExecutionResult> {
+    const liquidationInitiator = candidate.liquidation?.liquidationInitiator ?? 'Platform';
+
+    if (order.status === 'Open') {
+      this.logger.log(`Liquidation order ${order.orderRef} for loan ${candidate.loanId} is open`);
+      return {
+        loanId: candidate.loanId,
+        outcome: 'OrderOpen',
+        liquidationInitiator,
+        orderRef: order.orderRef,
+      };
+    }
+
+    if (order.status === 'Rejected') {
+      const failureReason = order.failureReason ?? 'Order rejected by market';
+      await this.repository.platformFailsLiquidation({
+        loanId: candidate.loanId,
+        failureReason,
+        failureDate: executionDate,
+      });
+
+      this.logger.error(
+        `Liquidation order ${order.orderRef} for loan ${candidate.loanId} failed: ${failureReason}`,
+      );
+
+      return {
+        loanId: candidate.loanId,
+        outcome: 'Failed',
+        liquidationInitiator,
+        orderRef: order.orderRef,
+        reason: failureReason,
+      };
+    }
+
+    const settlement = this.calculateSettlement(candidate, order);
+
+    await this.repository.platformSettlesLiquidation({
+      loanId: candidate.loanId,
+      ...settlement,
+      fulfilledDate: executionDate,
+    });
+
+    this.logger.log(
+      `Liquidation of loan ${candidate.loanId} settled: sold ${settlement.soldCollateralAmount}, ` +
+        `proceeds ${settlement.fulfilledAmount}, surplus ${settlement.borrowerSurplusAmount}`,
+    );
+
+    await this.sendLiquidationNotification(candidate, settlement);
+
+    return {
+      loanId: candidate.loanId,
+      outcome: 'Settled',
+      liquidationInitiator,
+      orderRef: order.orderRef,
+      fulfilledAmount: settlement.fulfilledAmount,
+    };
+  }
+
+  private async sendLiquidationNotification(
+    candidate: LoanLiquidationCandidate,
+    settlement: LiquidationSettlement,
+  ): Promise<void> {
+    try {
+      await this.notificationQueueService.queueNotification({
+        type: 'LoanLiquidation',
+        userId: candidate.borrowerUserId,
+        loanId: candidate.loanId,
+        liquidationAmount: fromLowestDenomination(
+          settlement.fulfilledAmount,
+          candidate.principalCurrency.decimals,
+        ),
+        originalAmount: fromLowestDenomination(
+          candidate.repaymentAmount,
+          candidate.principalCurrency.decimals,
+        ),
+        collateralType: candidate.collateralCurrency.symbol,
+      });
+    } catch (error) {
+      // Settlement is already committed, notification failure must not fail the job
+      this.logger.error(
+        `Failed to queue liquidation notification for loan ${candidate.loanId}:`,
+        error,
+      );
+    }
+  }
+
+  private getMarketProvider(): LiquidationMarketProvider {
+    const provider = this.configService.get<string>(
+      'LIQUIDATION_MARKET_PROVIDER',
+      defaultLiquidationConfig.marketProvider,
+    );
+    assertLiquidationMarketProvider(provider);
+    return provider;
+  }
+}
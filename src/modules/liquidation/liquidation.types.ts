@@ -0,0 +1,43 @@
+import type { LiquidationInitiator } from '../../shared/repositories/loan.types';
+
+export type LiquidationOutcome = 'Settled' | 'OrderOpen' | 'Failed' | 'Skipped';
+
+export type LiquidationExecutionResult = {
+  loanId: string;
+  outcome: LiquidationOutcome;
+  liquidationInitiator?: LiquidationInitiator;
+  orderRef?: string;
+  fulfilledAmount?: string;
+  reason?: string;
+};
+
+export type LiquidationSweepResult = {
+  processedCount: number;
+  settledCount: number;
+  failedCount: number;
+  errors: string[];
+};
+
+export type LiquidationSettlement = {
+  soldCollateralAmount: string;
+  releasedCollateralAmount: string;
+  fulfilledAmount: string;
+  lenderRepaymentAmount: string;
+  platformFeeAmount: string;
+  borrowerSurplusAmount: string;
+  returnedPremiAmount: string;
+};
+
+/**
+ * Payload of 'ltvLiquidationTriggered' jobs emitted by ValuationEventService
+ */
+export type LtvLiquidationTriggeredJobData = {
+  loanId: string;
+  borrowerUserId: string;
+  currentLtvRatio: number;
+  collateralValuationAmount: string;
+  totalDebtAmount: string;
+  triggeredDate: string | Date;
+  exchangeRateId: string;
+  reason: 'LTV_BREACH';
+};
@@ -1,13 +1,28 @@
 import type { UserSession } from '../../auth/types';
-import type { LoanMatchingWorkerData } from '../types/loan-matcher.types';
+import type {
+  BorrowerMatchingCriteria,
+  LenderMatchingCriteria,
+  LoanMatchingWorkerData,
+} from '../types/loan-matcher.types';
 
-import { Body, Controller, HttpCode, HttpStatus, Logger, Post } from '@nestjs/common';
-import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
 
 import { Auth } from '../../../decorators/auth.decorator';
 import { Session } from '../../auth/auth.decorator';
 import { LoanMatcherScheduler } from '../schedulers/loan-matcher.scheduler';
+import { LoanMatcherService } from '../services/loan-matcher.service';
 
 @Controller('admin/loan-matcher')
 @ApiTags('Admin - Loan Matcher')
@@ -16,7 +31,10 @@ import { LoanMatcherScheduler } from '../schedulers/loan-matcher.scheduler';
 export class LoanMatcherController {
   private readonly logger = new Logger(LoanMatcherController.name);
 
-  constructor(private readonly loanMatcherScheduler: LoanMatcherScheduler) {}
+  constructor(
+    private readonly loanMatcherScheduler: LoanMatcherScheduler,
+    private readonly loanMatcherService: LoanMatcherService,
+  ) {}
 
   @Post('trigger')
   @HttpCode(HttpStatus.OK)
@@ -198,4 +216,142 @@ export class LoanMatcherController {
       throw error;
     }
   }
+
+  @Get('explain/:applicationId')
+  @ApiOperation({
+    summary: 'Explain why a loan application is or is not matched',
+    description:
+      'Dry-runs matching for one loan application without reserving anything. ' +
+      'Every published loan offer is listed with the reasons it cannot fund the application: ' +
+      'currency mismatch, term not offered, interest above the maximum, principal outside the offer range, ' +
+      'insufficient available principal or offer targeting. Optional criteria are evaluated as in criteria matching.',
+  })
+  @ApiQuery({
+    name: 'targetOfferId',
+    required: false,
+    description: 'Restrict matching to one offer',
+  })
+  @ApiQuery({
+    name: 'durationOptions',
+    required: false,
+    description: 'Lender criteria: comma separated term options in months',
+    example: '6,12',
+  })
+  @ApiQuery({
+    name: 'fixedInterestRate',
+    required: false,
+    description: 'Lender criteria: fixed interest rate',
+  })
+  @ApiQuery({
+    name: 'fixedDuration',
+    required: false,
+    description: 'Borrower criteria: fixed term in months',
+  })
+  @ApiQuery({
+    name: 'fixedPrincipalAmount',
+    required: false,
+    description: 'Borrower criteria: fixed principal amount',
+  })
+  @ApiQuery({
+    name: 'maxInterestRate',
+    required: false,
+    description: 'Borrower criteria: maximum interest rate',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Matching explanation',
+    schema: {
+      type: 'object',
+      properties: {
+        loanApplicationId: { type: 'string', example: '123' },
+        status: { type: 'string', example: 'Published' },
+        matchable: { type: 'boolean', example: true },
+        compatibleOfferIds: { type: 'array', items: { type: 'string' }, example: ['456'] },
+        offers: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              loanOfferId: { type: 'string', example: '457' },
+              compatible: { type: 'boolean', example: false },
+              rejections: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    reason: { type: 'string', example: 'term-not-offered' },
+                    message: { type: 'string', example: 'Term 6mo not in options' },
+                  },
+                },
+              },
+            },
+          },
+        },
+        evaluatedAt: { type: 'string', format: 'date-time', example: '2025-10-16T13:00:00.000Z' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Admin access required',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Loan application not found',
+  })
+  async explainMatching(
+    @Param('applicationId') applicationId: string,
+    @Query('targetOfferId') targetOfferId?: string,
+    @Query('durationOptions') durationOptions?: string,
+    @Query('fixedInterestRate') fixedInterestRate?: string,
+    @Query('fixedDuration') fixedDuration?: string,
+    @Query('fixedPrincipalAmount') fixedPrincipalAmount?: string,
+    @Query('maxInterestRate') maxInterestRate?: string,
+  ) {
+    const lenderCriteria: LenderMatchingCriteria | undefined =
+      durationOptions || fixedInterestRate
+        ? {
+            durationOptions: durationOptions?.split(',').map(Number),
+            fixedInterestRate: fixedInterestRate ? Number(fixedInterestRate) : undefined,
+          }
+        : undefined;
+
+    const borrowerCriteria: BorrowerMatchingCriteria | undefined =
+      fixedDuration || fixedPrincipalAmount || maxInterestRate
+        ? {
+            fixedDuration: fixedDuration ? Number(fixedDuration) : undefined,
+            fixedPrincipalAmount,
+            maxInterestRate: maxInterestRate ? Number(maxInterestRate) : undefined,
+          }
+        : undefined;
+
+    const explanation = await this.loanMatcherService.explainLoanApplicationMatching(
+      applicationId,
+      { targetOfferId, lenderCriteria, borrowerCriteria },
+    );
+
+    return {
+      loanApplicationId: explanation.application.id,
+      status: explanation.application.status,
+      matchable: explanation.matchable,
+      principalAmount: explanation.application.principalAmount,
+      termInMonths: explanation.application.termInMonths,
+      maxInterestRate: explanation.application.maxInterestRate,
+      compatibleOfferIds: explanation.compatibleOfferIds,
+      offers: explanation.offers.map(({ offer, compatible, rejections }) => ({
+        loanOfferId: offer.id,
+        lenderUserId: offer.lenderUserId,
+        principalBlockchainKey: offer.principalCurrency.blockchainKey,
+        principalTokenId: offer.principalCurrency.tokenId,
+        availablePrincipalAmount: offer.availablePrincipalAmount,
+        minLoanPrincipalAmount: offer.minLoanPrincipalAmount,
+        maxLoanPrincipalAmount: offer.maxLoanPrincipalAmount,
+        interestRate: offer.interestRate,
+        termInMonthsOptions: offer.termInMonthsOptions,
+        compatible,
+        rejections,
+      })),
+      evaluatedAt: explanation.evaluatedDate.toISOString(),
+    };
+  }
 }
@@ -2,8 +2,12 @@ export * from './admin/loan-matcher-admin.module';
 export * from './controllers/loan-matcher.controller';
 export * from './controllers/loan-matcher-test.controller';
 export * from './loan-matcher.module';
+export * from './loan-matcher.processor';
+export * from './schedulers/loan-auto-lend.scheduler';
 export * from './schedulers/loan-matcher.scheduler';
+export * from './services/loan-auto-lend.service';
 export * from './services/loan-matcher.service';
+export * from './services/loan-matcher-queue.service';
 export * from './strategies/loan-matcher-strategy.abstract';
 export * from './strategies/loan-matcher-strategy.factory';
 export * from './types/loan-matcher.types';
@@ -1,3 +1,4 @@
+import { BullModule } from '@nestjs/bullmq';
 import { forwardRef, Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { DiscoveryModule } from '@nestjs/core';
@@ -7,26 +8,33 @@ import { SharedModule } from '../../shared/shared.module';
 import { LoansModule } from '../loans/loans.module';
 import { NotificationModule } from '../notifications/notification.module';
 import { LoanMatcherTestController } from './controllers/loan-matcher-test.controller';
+import { LoanAutoLendScheduler } from './schedulers/loan-auto-lend.scheduler';
 import { LoanMatcherScheduler } from './schedulers/loan-matcher.scheduler';
+import { LoanAutoLendService } from './services/loan-auto-lend.service';
 import { LoanMatcherService } from './services/loan-matcher.service';
+import { LoanMatcherQueueService } from './services/loan-matcher-queue.service';
 import { EnhancedLoanMatcherStrategy } from './strategies/enhanced-loan-matcher.strategy';
 import { LoanMatcherStrategyFactory } from './strategies/loan-matcher-strategy.factory';
+import { OrderBookLoanMatcherStrategy } from './strategies/order-book-loan-matcher.strategy';
 
 /**
  * LoanMatcherModule
  *
  * This module provides loan matching functionality using a cron-based scheduler approach.
  * Matching runs on a scheduled interval (hourly by default) and can be manually triggered
- * via admin API endpoints.
+ * via admin API endpoints. Newly published offers and applications are matched right away
+ * through targeted jobs on loanMatcherQueue.
  *
  * **Architecture:**
  * - Cron scheduler: Automatically runs matching every hour
+ * - Instant matching: LoanMatcherQueueService queues a job per published offer or application,
+ *   consumed by LoanMatcherProcessor in the loan-matcher worker
+ * - Locking: Offers and applications are locked row by row when matched, so the hourly sweep
+ *   and an instant job never reserve the same offer twice
+ * - Strategies: Legacy by default, order-book selectable via LOAN_MATCHER_STRATEGY
+ * - Auto-lend scheduler: Funds offers for lender auto-lend rules every 15 minutes
  * - Admin API: Manual trigger endpoints at /admin/loan-matcher
  * - Test API: Testing endpoints at /test/loan-matcher
- *
- * **Deprecated:**
- * - Queue-based matching (LoanMatcherQueueService, LoanMatcherProcessor) has been removed
- * - Use the scheduler pattern for all matching operations
  */
 @Module({
   imports: [
@@ -36,15 +44,36 @@ import { LoanMatcherStrategyFactory } from './strategies/loan-matcher-strategy.f
     SharedModule,
     NotificationModule,
     forwardRef(() => LoansModule),
+    BullModule.registerQueue({
+      name: 'loanMatcherQueue',
+      defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    }),
   ],
   controllers: [LoanMatcherTestController], // Test endpoints for E2E testing
   providers: [
     LoanMatcherService,
+    LoanMatcherQueueService,
     LoanMatcherStrategyFactory,
     LoanMatcherScheduler,
+    LoanAutoLendService,
+    LoanAutoLendScheduler,
     // Register all strategies
     EnhancedLoanMatcherStrategy,
+    OrderBookLoanMatcherStrategy,
+  ],
+  exports: [
+    LoanMatcherService,
+    LoanMatcherQueueService,
+    LoanMatcherScheduler,
+    LoanAutoLendScheduler,
   ],
-  exports: [LoanMatcherService, LoanMatcherScheduler],
 })
 export class LoanMatcherModule {}
@@ -0,0 +1,37 @@
+import type { Job } from 'bullmq';
+import type { LoanMatchingWorkerData } from './types/loan-matcher.types';
+
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { LoanMatcherService } from './services/loan-matcher.service';
+
+@Injectable()
+@Processor('loanMatcherQueue')
+export class LoanMatcherProcessor extends WorkerHost {
+  private readonly logger = new TelemetryLogger(LoanMatcherProcessor.name);
+
+  constructor(private readonly loanMatcherService: LoanMatcherService) {
+    super();
+  }
+
+  async process(job: Job<LoanMatchingWorkerData>): Promise<void> {
+    this.logger.log(`Processing targeted loan matching job ${job.id}`);
+
+    const result = await this.loanMatcherService.processLoanMatching(job.data);
+
+    this.logger.log(
+      `Targeted loan matching job ${job.id} created ${result.matchedPairs} matches from ${result.processedApplications} applications`,
+    );
+
+    if (result.errors.length > 0) {
+      this.logger.warn(`Job ${job.id} had ${result.errors.length} errors:`, result.errors);
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job<LoanMatchingWorkerData>, error: Error) {
+    this.logger.error(`Targeted loan matching job ${job.id} failed: ${error.message}`);
+  }
+}
@@ -0,0 +1,90 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+
+import { LoanAutoLendService } from '../services/loan-auto-lend.service';
+import { defaultLoanMatcherConfig } from '../types/loan-matcher.config';
+
+/**
+ * Loan Auto-Lend Scheduler
+ * Replenishes loan offers of active auto-lend rules from lender platform balance every 15 minutes,
+ * so the hourly loan matching always sees the rules' open principal
+ *
+ * Environment Variables:
+ * - LOAN_AUTO_LEND_SCHEDULER_ENABLED: Enable/disable scheduler (default: true)
+ * - LOAN_AUTO_LEND_BATCH_SIZE: Rules replenished per run (default: 100)
+ * - LOAN_AUTO_LEND_OFFER_EXPIRY_DAYS: Lifetime of created offers (default: 30)
+ */
+@Injectable()
+export class LoanAutoLendScheduler {
+  private readonly logger = new Logger(LoanAutoLendScheduler.name);
+  private isRunning = false;
+
+  constructor(
+    private readonly loanAutoLendService: LoanAutoLendService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  @Cron('*/15 * * * *', {
+    name: 'loan-auto-lend',
+    timeZone: 'UTC',
+  })
+  async handleAutoLendCron() {
+    const isEnabled = this.configService.get<boolean>(
+      'LOAN_AUTO_LEND_SCHEDULER_ENABLED',
+      defaultLoanMatcherConfig.autoLendSchedulerEnabled,
+    );
+
+    if (!isEnabled) {
+      this.logger.debug('Loan auto-lend scheduler is disabled');
+      return;
+    }
+
+    // A slow run must not overlap the next tick, both would fund offers from the same balance
+    if (this.isRunning) {
+      this.logger.warn('Previous auto-lend run still in progress, skipping');
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      await this.triggerManualAutoLend();
+    } catch (error) {
+      this.logger.error('Scheduled auto-lend failed:', error);
+      // Don't throw - we want the scheduler to continue running
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Manual trigger for testing purposes
+   * @param asOfDate Optional date to use as offer creation date (defaults to now)
+   */
+  async triggerManualAutoLend(asOfDate?: Date) {
+    const result = await this.loanAutoLendService.replenishAutoLendOffers({
+      asOfDate: asOfDate ?? new Date(),
+      batchSize: this.configService.get<number>(
+        'LOAN_AUTO_LEND_BATCH_SIZE',
+        defaultLoanMatcherConfig.autoLendBatchSize,
+      ),
+      offerExpiryDays: this.configService.get<number>(
+        'LOAN_AUTO_LEND_OFFER_EXPIRY_DAYS',
+        defaultLoanMatcherConfig.autoLendOfferExpiryDays,
+      ),
+    });
+
+    this.logger.log(
+      `Auto-lend completed: ${result.createdOffers} offers created from ${result.processedRules} rules`,
+    );
+
+    if (result.errors.length > 0) {
+      this.logger.warn(
+        `Encountered ${result.errors.length} errors during auto-lend:`,
+        result.errors,
+      );
+    }
+
+    return result;
+  }
+}
@@ -1,3 +1,5 @@
+import type { MatcherStrategyTypeValue } from '../strategies/loan-matcher-strategy.abstract';
+
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
@@ -15,6 +17,9 @@ import { defaultLoanMatcherConfig } from '../types/loan-matcher.config';
  * - LOAN_MATCHER_CRON_SCHEDULE: Cron schedule (default: "0 * * * *")
  * - LOAN_MATCHER_RUN_ON_INIT: Run on module init (default: false)
  * - LOAN_MATCHER_BATCH_SIZE: Batch size (default: 50)
+ * - LOAN_MATCHER_STRATEGY: Matching strategy, "legacy" or "order-book" (default: "legacy")
+ * - LOAN_MATCHER_ORDER_BOOK_ALLOCATION: Order-book allocation, "price-time" or "pro-rata" (default: "price-time")
+ * - LOAN_MATCHER_ORDER_BOOK_MAX_OFFERS: Offers one application can be split across (default: 5)
  */
 @Injectable()
 export class LoanMatcherScheduler implements OnModuleInit {
@@ -125,9 +130,15 @@ export class LoanMatcherScheduler implements OnModuleInit {
       defaultLoanMatcherConfig.batchSize,
     );
 
+    const strategy = this.configService.get<MatcherStrategyTypeValue>(
+      'LOAN_MATCHER_STRATEGY',
+      defaultLoanMatcherConfig.strategy,
+    );
+
     const result = await this.loanMatcherService.processLoanMatching({
       asOfDate: matchedDate.toISOString(),
       batchSize,
+      strategy,
     });
 
     return result;
@@ -0,0 +1,170 @@
+import type { LoanAutoLendRuleReplenishment } from '../../../shared/repositories/loan.types';
+
+import { strict as assert } from 'node:assert';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { LoanAutoLendService } from './loan-auto-lend.service';
+
+function createRule(
+  overrides: Partial<LoanAutoLendRuleReplenishment> = {},
+): LoanAutoLendRuleReplenishment {
+  return {
+    id: '42',
+    lenderUserId: 'lender-1',
+    principalCurrency: {
+      blockchainKey: 'eip155:56',
+      tokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+      decimals: 6,
+      symbol: 'USDC',
+      name: 'USD Coin',
+    },
+    minTicketAmount: '500000000', // 500 USDC
+    maxTicketAmount: '5000000000', // 5000 USDC
+    minInterestRate: 0.12,
+    termInMonthsOptions: [3, 6],
+    collateralCurrencies: [
+      { blockchainKey: 'bip122:000000000019d6689c085ae165831e93', tokenId: 'slip44:0' },
+    ],
+    maxExposureAmount: '20000000000', // 20000 USDC
+    currentExposureAmount: '0',
+    status: 'Active',
+    createdDate: new Date('2025-01-01T00:00:00.000Z'),
+    updatedDate: new Date('2025-01-01T00:00:00.000Z'),
+    openAvailableAmount: '0',
+    lenderBalanceAmount: '100000000000', // 100000 USDC
+    ...overrides,
+  };
+}
+
+describe('LoanAutoLendService', () => {
+  let service: LoanAutoLendService;
+  let mockRepository: {
+    platformListsLoanAutoLendRulesToReplenish: ReturnType<typeof mock.fn>;
+    lenderCreatesLoanOffer: ReturnType<typeof mock.fn>;
+    platformMarksLoanAutoLendRuleReplenished: ReturnType<typeof mock.fn>;
+  };
+  let mockInvoiceService: { prepareInvoice: ReturnType<typeof mock.fn> };
+
+  const asOfDate = new Date('2025-02-01T00:00:00.000Z');
+
+  beforeEach(() => {
+    mockRepository = {
+      platformListsLoanAutoLendRulesToReplenish: mock.fn(() =>
+        Promise.resolve({ rules: [createRule()] }),
+      ),
+      lenderCreatesLoanOffer: mock.fn(() => Promise.resolve({ id: 'offer-1' })),
+      platformMarksLoanAutoLendRuleReplenished: mock.fn(() => Promise.resolve()),
+    };
+
+    mockInvoiceService = {
+      prepareInvoice: mock.fn((params: Record<string, unknown>) =>
+        Promise.resolve({
+          ...params,
+          accountBlockchainKey: params.currencyBlockchainKey,
+          accountTokenId: params.currencyTokenId,
+          invoiceId: 1001,
+          walletAddress: '0xinvoice',
+          walletDerivationPath: "m/44'/60'/0'/0/1001",
+          payableAmount: '0',
+        }),
+      ),
+    };
+
+    service = new LoanAutoLendService(
+      // biome-ignore lint/suspicious/noExplicitAny: Mock repository for testing
+      mockRepository as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock invoice service for testing
+      mockInvoiceService as any,
+    );
+  });
+
+  describe('calculateOfferAmount', () => {
+    it('should size the offer to one max ticket', () => {
+      assert.equal(service.calculateOfferAmount(createRule()), '5000000000');
+    });
+
+    it('should skip rules that still have a full ticket open', () => {
+      assert.equal(
+        service.calculateOfferAmount(createRule({ openAvailableAmount: '5000000000' })),
+        undefined,
+      );
+    });
+
+    it('should cap the offer at the remaining exposure and idle balance', () => {
+      assert.equal(
+        service.calculateOfferAmount(createRule({ currentExposureAmount: '18000000000' })),
+        '2000000000',
+      );
+      assert.equal(
+        service.calculateOfferAmount(createRule({ lenderBalanceAmount: '750000000' })),
+        '750000000',
+      );
+    });
+
+    it('should skip rules that cannot fund a minimum ticket', () => {
+      assert.equal(
+        service.calculateOfferAmount(createRule({ currentExposureAmount: '19600000000' })),
+        undefined,
+      );
+      assert.equal(
+        service.calculateOfferAmount(createRule({ lenderBalanceAmount: '499999999' })),
+        undefined,
+      );
+    });
+  });
+
+  describe('replenishAutoLendOffers', () => {
+    it('should create a fully prepaid offer linked to the rule', async () => {
+      const result = await service.replenishAutoLendOffers({
+        asOfDate,
+        batchSize: 100,
+        offerExpiryDays: 30,
+      });
+
+      assert.equal(result.processedRules, 1);
+      assert.equal(result.createdOffers, 1);
+      assert.deepEqual(result.errors, []);
+
+      const invoiceParams = mockInvoiceService.prepareInvoice.mock.calls[0].arguments[0] as Record<
+        string,
+        unknown
+      >;
+      assert.equal(invoiceParams.invoicedAmount, '5000000000');
+      assert.equal(invoiceParams.prepaidAmount, '5000000000');
+
+      const offerParams = mockRepository.lenderCreatesLoanOffer.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.equal(offerParams.loanAutoLendRuleId, '42');
+      assert.equal(offerParams.offeredPrincipalAmount, '5000000000');
+      assert.equal(offerParams.fundingInvoicePrepaidAmount, '5000000000');
+      assert.equal(offerParams.minLoanPrincipalAmount, '500000000');
+      assert.equal(offerParams.interestRate, 0.12);
+      assert.deepEqual(offerParams.termInMonthsOptions, [3, 6]);
+      assert.deepEqual(offerParams.expirationDate, new Date('2025-03-03T00:00:00.000Z'));
+
+      assert.equal(mockRepository.platformMarksLoanAutoLendRuleReplenished.mock.callCount(), 1);
+    });
+
+    it('should keep going when one rule fails', async () => {
+      mockRepository.platformListsLoanAutoLendRulesToReplenish.mock.mockImplementation(() =>
+        Promise.resolve({
+          rules: [createRule({ id: '1' }), createRule({ id: '2' })],
+        }),
+      );
+      mockRepository.lenderCreatesLoanOffer.mock.mockImplementationOnce(() =>
+        Promise.reject(new Error('Insufficient balance')),
+      );
+
+      const result = await service.replenishAutoLendOffers({
+        asOfDate,
+        batchSize: 100,
+        offerExpiryDays: 30,
+      });
+
+      assert.equal(result.createdOffers, 1);
+      assert.equal(result.errors.length, 1);
+      assert.match(result.errors[0], /rule 1: Insufficient balance/);
+      assert.equal(mockRepository.platformMarksLoanAutoLendRuleReplenished.mock.callCount(), 1);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import type { LoanAutoLendRuleReplenishment } from '../../../shared/repositories/loan.types';
+
+import { Inject, Injectable } from '@nestjs/common';
+
+import { InvoiceService } from '../../../shared/invoice/invoice.service';
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+
+export interface LoanAutoLendResult {
+  processedRules: number;
+  createdOffers: number;
+  skippedRules: number;
+  errors: string[];
+}
+
+export interface LoanAutoLendOptions {
+  asOfDate: Date;
+  batchSize: number;
+  offerExpiryDays: number;
+}
+
+function minBigInt(...values: bigint[]): bigint {
+  return values.reduce((min, value) => (value < min ? value : min));
+}
+
+@Injectable()
+export class LoanAutoLendService {
+  private readonly logger = new TelemetryLogger(LoanAutoLendService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly invoiceService: InvoiceService,
+  ) {}
+
+  /**
+   * Tops up every active auto-lend rule that no longer has a full ticket of open principal.
+   * Each new offer is prepaid from the lender platform balance, so it is published immediately.
+   */
+  async replenishAutoLendOffers(options: LoanAutoLendOptions): Promise<LoanAutoLendResult> {
+    const { rules } = await this.repository.platformListsLoanAutoLendRulesToReplenish({
+      asOfDate: options.asOfDate,
+      limit: options.batchSize,
+    });
+
+    const result: LoanAutoLendResult = {
+      processedRules: rules.length,
+      createdOffers: 0,
+      skippedRules: 0,
+      errors: [],
+    };
+
+    for (const rule of rules) {
+      try {
+        const offerAmount = this.calculateOfferAmount(rule);
+
+        if (offerAmount === undefined) {
+          result.skippedRules++;
+          continue;
+        }
+
+        await this.createRuleOffer(rule, offerAmount, options);
+        result.createdOffers++;
+      } catch (error) {
+        const errorMsg = `Failed to replenish auto-lend rule ${rule.id}: ${error instanceof Error ? error.message : String(error)}`;
+        this.logger.error(errorMsg);
+        result.errors.push(errorMsg);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Size of the next offer for a rule, undefined when the rule should not get one yet.
+   * The offer aims for one full max ticket, bounded by exposure headroom and idle balance.
+   */
+  calculateOfferAmount(rule: LoanAutoLendRuleReplenishment): string | undefined {
+    const minTicket = BigInt(rule.minTicketAmount);
+    const maxTicket = BigInt(rule.maxTicketAmount);
+
+    if (BigInt(rule.openAvailableAmount) >= maxTicket) {
+      return undefined;
+    }
+
+    const exposureHeadroom = BigInt(rule.maxExposureAmount) - BigInt(rule.currentExposureAmount);
+    const offerAmount = minBigInt(maxTicket, exposureHeadroom, BigInt(rule.lenderBalanceAmount));
+
+    if (offerAmount < minTicket) {
+      this.logger.debug(
+        `Auto-lend rule ${rule.id} skipped: next offer ${offerAmount} is below min ticket ${minTicket}`,
+      );
+      return undefined;
+    }
+
+    return offerAmount.toString();
+  }
+
+  private async createRuleOffer(
+    rule: LoanAutoLendRuleReplenishment,
+    offerAmount: string,
+    options: LoanAutoLendOptions,
+  ) {
+    const createdDate = options.asOfDate;
+    const expirationDate = new Date(
+      createdDate.getTime() + options.offerExpiryDays * 24 * 60 * 60 * 1000,
+    );
+
+    const invoiceDraft = await this.invoiceService.prepareInvoice({
+      userId: rule.lenderUserId,
+      currencyBlockchainKey: rule.principalCurrency.blockchainKey,
+      currencyTokenId: rule.principalCurrency.tokenId,
+      invoiceType: 'LoanPrincipal',
+      invoicedAmount: offerAmount,
+      prepaidAmount: offerAmount,
+      invoiceDate: createdDate,
+      dueDate: expirationDate,
+      expiredDate: expirationDate,
+    });
+
+    const offer = await this.repository.lenderCreatesLoanOffer({
+      lenderUserId: rule.lenderUserId,
+      principalBlockchainKey: rule.principalCurrency.blockchainKey,
+      principalTokenId: rule.principalCurrency.tokenId,
+      offeredPrincipalAmount: offerAmount,
+      minLoanPrincipalAmount: rule.minTicketAmount,
+      maxLoanPrincipalAmount: offerAmount,
+      interestRate: rule.minInterestRate,
+      termInMonthsOptions: rule.termInMonthsOptions,
+      expirationDate,
+      createdDate,
+      fundingInvoiceId: invoiceDraft.invoiceId,
+      fundingInvoicePrepaidAmount: invoiceDraft.prepaidAmount,
+      fundingAccountBlockchainKey: invoiceDraft.accountBlockchainKey,
+      fundingAccountTokenId: invoiceDraft.accountTokenId,
+      fundingInvoiceDate: invoiceDraft.invoiceDate,
+      fundingInvoiceDueDate: invoiceDraft.dueDate ?? expirationDate,
+      fundingInvoiceExpiredDate: invoiceDraft.expiredDate ?? expirationDate,
+      fundingWalletDerivationPath: invoiceDraft.walletDerivationPath,
+      fundingWalletAddress: invoiceDraft.walletAddress,
+      loanAutoLendRuleId: rule.id,
+    });
+
+    await this.repository.platformMarksLoanAutoLendRuleReplenished({
+      ruleId: rule.id,
+      replenishedDate: createdDate,
+    });
+
+    this.logger.log(
+      `Auto-lend rule ${rule.id} created offer ${offer.id} of ${offerAmount} (${rule.principalCurrency.symbol} smallest unit)`,
+    );
+  }
+}
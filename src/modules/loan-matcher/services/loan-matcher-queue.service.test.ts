@@ -0,0 +1,63 @@
+import type { ConfigService } from '@nestjs/config';
+import type { Queue } from 'bullmq';
+import type { LoanMatchingWorkerData } from '../types/loan-matcher.types';
+
+import assert from 'node:assert';
+import { describe, it, mock } from 'node:test';
+
+import { LoanMatcherQueueService } from './loan-matcher-queue.service';
+
+function createService(config: Record<string, unknown> = {}) {
+  const mockQueue = {
+    add: mock.fn(async (_name: string, _data: LoanMatchingWorkerData, opts: { jobId: string }) => ({
+      id: opts.jobId,
+    })),
+  };
+
+  const mockConfigService = {
+    get: (key: string, defaultValue: unknown) => config[key] ?? defaultValue,
+  } as unknown as ConfigService;
+
+  const service = new LoanMatcherQueueService(
+    mockQueue as unknown as Queue<LoanMatchingWorkerData>,
+    mockConfigService,
+  );
+
+  return { service, mockQueue };
+}
+
+describe('LoanMatcherQueueService', () => {
+  it('should queue a targeted matching job keyed by the published loan offer', async () => {
+    const { service, mockQueue } = createService({ LOAN_MATCHER_STRATEGY: 'order-book' });
+
+    await service.enqueueLoanOfferMatching('42');
+
+    assert.strictEqual(mockQueue.add.mock.callCount(), 1);
+    const [name, data, opts] = mockQueue.add.mock.calls[0]?.arguments ?? [];
+    assert.strictEqual(name, 'loan-matching-targeted');
+    assert.strictEqual(data?.targetOfferId, '42');
+    assert.strictEqual(data?.targetApplicationId, undefined);
+    assert.strictEqual(data?.strategy, 'order-book');
+    assert.strictEqual(opts?.jobId, 'loan-offer-42');
+  });
+
+  it('should queue a targeted matching job keyed by the published loan application', async () => {
+    const { service, mockQueue } = createService();
+
+    await service.enqueueLoanApplicationMatching('7');
+
+    const [, data, opts] = mockQueue.add.mock.calls[0]?.arguments ?? [];
+    assert.strictEqual(data?.targetApplicationId, '7');
+    assert.strictEqual(data?.strategy, 'legacy');
+    assert.strictEqual(opts?.jobId, 'loan-application-7');
+  });
+
+  it('should leave matching to the scheduler when instant matching is disabled', async () => {
+    const { service, mockQueue } = createService({ LOAN_MATCHER_INSTANT_ENABLED: false });
+
+    await service.enqueueLoanOfferMatching('42');
+    await service.enqueueLoanApplicationMatching('7');
+
+    assert.strictEqual(mockQueue.add.mock.callCount(), 0);
+  });
+});
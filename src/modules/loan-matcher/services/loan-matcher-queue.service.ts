@@ -0,0 +1,104 @@
+import type { Queue } from 'bullmq';
+import type { LoanMatchingWorkerData } from '../types/loan-matcher.types';
+
+import { InjectQueue } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { MatcherStrategyTypeValue } from '../strategies/loan-matcher-strategy.abstract';
+import { defaultLoanMatcherConfig } from '../types/loan-matcher.config';
+
+export interface EnqueueTargetedMatchingOptions {
+  delay?: number;
+  attempts?: number;
+  priority?: number;
+}
+
+/**
+ * Loan Matcher Queue Service
+ * Queues targeted matching for a single loan offer or loan application right after it is published,
+ * so borrowers and lenders do not wait for the hourly sweep.
+ *
+ * Jobs are keyed by the published entity, a second publish event for the same offer or application
+ * is dropped while its job is still pending.
+ *
+ * Environment Variables:
+ * - LOAN_MATCHER_INSTANT_ENABLED: Enable/disable instant matching on publish (default: true)
+ */
+@Injectable()
+export class LoanMatcherQueueService {
+  private readonly logger = new TelemetryLogger(LoanMatcherQueueService.name);
+
+  constructor(
+    @InjectQueue('loanMatcherQueue')
+    private readonly loanMatcherQueue: Queue<LoanMatchingWorkerData>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async enqueueLoanOfferMatching(
+    loanOfferId: string,
+    options: EnqueueTargetedMatchingOptions = {},
+  ): Promise<void> {
+    await this.enqueueTargetedMatching(
+      `loan-offer-${loanOfferId}`,
+      { targetOfferId: loanOfferId },
+      options,
+    );
+  }
+
+  async enqueueLoanApplicationMatching(
+    loanApplicationId: string,
+    options: EnqueueTargetedMatchingOptions = {},
+  ): Promise<void> {
+    await this.enqueueTargetedMatching(
+      `loan-application-${loanApplicationId}`,
+      { targetApplicationId: loanApplicationId },
+      options,
+    );
+  }
+
+  private async enqueueTargetedMatching(
+    jobId: string,
+    data: LoanMatchingWorkerData,
+    options: EnqueueTargetedMatchingOptions,
+  ): Promise<void> {
+    const isEnabled = this.configService.get<boolean>(
+      'LOAN_MATCHER_INSTANT_ENABLED',
+      defaultLoanMatcherConfig.instantMatchingEnabled,
+    );
+
+    if (!isEnabled) {
+      this.logger.debug(`Instant loan matching is disabled, ${jobId} is left to the scheduler`);
+      return;
+    }
+
+    const strategy = this.configService.get<MatcherStrategyTypeValue>(
+      'LOAN_MATCHER_STRATEGY',
+      defaultLoanMatcherConfig.strategy,
+    );
+
+    const job = await this.loanMatcherQueue.add(
+      'loan-matching-targeted',
+      {
+        ...data,
+        strategy,
+        asOfDate: new Date().toISOString(),
+      },
+      {
+        jobId,
+        removeOnComplete: true,
+        removeOnFail: true,
+        attempts: options.attempts ?? 3,
+        backoff: {
+          type: 'exponential',
+          delay: 2000,
+        },
+        delay: options.delay ?? 0,
+        priority: options.priority ?? 1,
+      },
+    );
+
+    this.logger.debug(`Queued targeted loan matching job ${job.id}`);
+  }
+}
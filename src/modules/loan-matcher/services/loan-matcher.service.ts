@@ -2,22 +2,28 @@ import type {
   BorrowerMatchingCriteria,
   CompatibleLoanOffer,
   LenderMatchingCriteria,
+  LoanMatchingExplanation,
   LoanMatchingResult,
   LoanMatchingWorkerData,
   MatchableLoanApplication,
   MatchedLoanPair,
 } from '../types/loan-matcher.types';
 
-import { forwardRef, Inject, Injectable, Logger } from '@nestjs/common';
+import { forwardRef, Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
 
 import { assertDefined, assertProp, check, isNumber, isString } from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { PlatformMatchesLoanApplicationWithOffersResult } from '../../../shared/repositories/loan.types';
 import { TelemetryLogger } from '../../../shared/telemetry.logger';
 import { LoanCalculationService } from '../../loans/services/loan-calculation.service';
 import { LoansService } from '../../loans/services/loans.service';
 import { NotificationQueueService } from '../../notifications/notification-queue.service';
-import { MatcherStrategyType } from '../strategies/loan-matcher-strategy.abstract';
+import { EnhancedLoanMatcherStrategy } from '../strategies/enhanced-loan-matcher.strategy';
+import {
+  MatcherStrategyType,
+  MatcherStrategyTypeValue,
+} from '../strategies/loan-matcher-strategy.abstract';
 import { LoanMatcherStrategyFactory } from '../strategies/loan-matcher-strategy.factory';
 
 @Injectable()
@@ -48,6 +54,7 @@ export class LoanMatcherService {
       lenderCriteria,
       borrowerCriteria,
       criteria, // legacy support
+      strategy,
     } = data;
     const processingDate = new Date(asOfDate);
 
@@ -112,10 +119,20 @@ export class LoanMatcherService {
               data.targetOfferId,
               data.lenderCriteria,
               data.borrowerCriteria,
+              strategy,
             );
             processedOffers += compatibleOffers.length;
 
-            if (compatibleOffers.length > 0) {
+            // Order-book strategies may split the application, each allocated offer funds one tranche
+            const allocatedOffers = compatibleOffers.filter(
+              offer => offer.allocatedPrincipalAmount !== undefined,
+            );
+
+            if (allocatedOffers.length > 1) {
+              const trancheMatches = await this.processSplitLoanMatch(application, allocatedOffers);
+              matchedLoans.push(...trancheMatches);
+              matchedPairs += trancheMatches.length;
+            } else if (compatibleOffers.length > 0) {
               // Match with the best offer (first one, since they should be ordered by best terms)
               const bestOffer = compatibleOffers[0];
 
@@ -209,6 +226,52 @@ export class LoanMatcherService {
     }
   }
 
+  /**
+   * Dry-run matching for a single application
+   * Evaluates every published offer with the enhanced strategy rules and reports why each one
+   * cannot fund the application. Nothing is matched, reserved or notified.
+   */
+  async explainLoanApplicationMatching(
+    loanApplicationId: string,
+    options: {
+      targetOfferId?: string;
+      lenderCriteria?: LenderMatchingCriteria;
+      borrowerCriteria?: BorrowerMatchingCriteria;
+    } = {},
+  ): Promise<LoanMatchingExplanation> {
+    const { loanApplication } = await this.repository.platformViewsMatchableLoanApplication({
+      loanApplicationId,
+    });
+
+    if (!loanApplication) {
+      throw new NotFoundException(`Loan application ${loanApplicationId} not found`);
+    }
+
+    const strategy = this.strategyFactory.getStrategy(MatcherStrategyType.Enhanced);
+    if (!(strategy instanceof EnhancedLoanMatcherStrategy)) {
+      throw new Error('Enhanced matcher strategy is not registered');
+    }
+
+    const evaluatedDate = new Date();
+    const offers = await strategy.explainOffers(
+      loanApplication,
+      options.targetOfferId,
+      options.lenderCriteria,
+      options.borrowerCriteria,
+    );
+
+    return {
+      application: loanApplication,
+      matchable:
+        loanApplication.status === 'Published' &&
+        loanApplication.matchedLoanOfferId === undefined &&
+        loanApplication.expirationDate > evaluatedDate,
+      offers,
+      compatibleOfferIds: offers.filter(offer => offer.compatible).map(offer => offer.offer.id),
+      evaluatedDate,
+    };
+  }
+
   /**
    * Get loan applications that are ready for matching
    * These should be applications that are approved but not yet matched
@@ -261,7 +324,23 @@ export class LoanMatcherService {
     targetOfferId?: string,
     lenderCriteria?: LenderMatchingCriteria,
     borrowerCriteria?: BorrowerMatchingCriteria,
+    strategyType?: MatcherStrategyTypeValue,
   ): Promise<CompatibleLoanOffer[]> {
+    // Use the configured strategy when matching without explicit criteria
+    if (
+      !lenderCriteria &&
+      !borrowerCriteria &&
+      strategyType &&
+      strategyType !== MatcherStrategyType.Legacy
+    ) {
+      const strategy = this.strategyFactory.getStrategy(strategyType);
+      if (strategy) {
+        this.logger.debug(`Using ${strategy.getDescription()} matching strategy`);
+        return await strategy.findCompatibleOffers(application, targetOfferId);
+      }
+      this.logger.warn(`Matcher strategy ${strategyType} is not registered, using legacy matching`);
+    }
+
     // Try to use enhanced strategy if criteria provided
     if (lenderCriteria || borrowerCriteria) {
       const strategy = this.strategyFactory.getStrategy(MatcherStrategyType.Enhanced);
@@ -303,6 +382,8 @@ export class LoanMatcherService {
       const allOffers = await this.repository.platformListsAvailableLoanOffers({
         principalBlockchainKey: application.principalBlockchainKey,
         principalTokenId: application.principalTokenId,
+        collateralBlockchainKey: application.collateralBlockchainKey,
+        collateralTokenId: application.collateralTokenId,
         limit: 100, // Get more to find the specific one
       });
 
@@ -319,6 +400,8 @@ export class LoanMatcherService {
     const offers = await this.repository.platformListsAvailableLoanOffers({
       principalBlockchainKey: application.principalBlockchainKey,
       principalTokenId: application.principalTokenId,
+      collateralBlockchainKey: application.collateralBlockchainKey,
+      collateralTokenId: application.collateralTokenId,
       limit: 50, // Get up to 50 potential matches
     });
 
@@ -665,38 +748,159 @@ export class LoanMatcherService {
   }
 
   /**
-   * Create a loan match between application and offer
+   * LTV ratio and collateral valuation of an application at matching time
    */
-  private async createLoanMatch(
+  private async calculateMatchValuation(
     application: MatchableLoanApplication,
-    offer: CompatibleLoanOffer,
-  ): Promise<MatchedLoanPair | null> {
+  ): Promise<{ ltvRatio: number; collateralValuationAmount: string }> {
+    // Calculate LTV ratio based on current collateral valuation
+    // Returns value in decimal form (e.g., 1.0 for 1 USD)
+    const collateralValueDecimal = await this.calculateCollateralValue(
+      application.collateralBlockchainKey,
+      application.collateralTokenId,
+      application.collateralDepositAmount,
+    );
+
+    // Convert principal amount from smallest units to decimal form
+    const principalAmountNum =
+      Number(application.principalAmount) / Math.pow(10, application.principalCurrency.decimals);
+    const ltvRatio = collateralValueDecimal > 0 ? principalAmountNum / collateralValueDecimal : 0;
+
+    // Convert collateral value from decimal back to smallest units for storage (assuming 18 decimals for quote currency)
+    const QUOTE_CURRENCY_DECIMALS = 18;
+    const collateralValueSmallestUnits = Math.round(
+      collateralValueDecimal * Math.pow(10, QUOTE_CURRENCY_DECIMALS),
+    );
+
+    return { ltvRatio, collateralValuationAmount: collateralValueSmallestUnits.toString() };
+  }
+
+  /**
+   * Match an application with every allocated offer, then originate and disburse one loan per tranche.
+   * Returns one matched pair per tranche, or none when the split match fails.
+   */
+  private async processSplitLoanMatch(
+    application: MatchableLoanApplication,
+    allocatedOffers: CompatibleLoanOffer[],
+  ): Promise<MatchedLoanPair[]> {
+    let matchResult: PlatformMatchesLoanApplicationWithOffersResult;
     try {
-      // Calculate LTV ratio based on current collateral valuation
-      // Returns value in decimal form (e.g., 1.0 for 1 USD)
-      const collateralValueDecimal = await this.calculateCollateralValue(
-        application.collateralBlockchainKey,
-        application.collateralTokenId,
-        application.collateralDepositAmount,
+      const { ltvRatio, collateralValuationAmount } =
+        await this.calculateMatchValuation(application);
+
+      matchResult = await this.repository.platformMatchesLoanApplicationWithOffers({
+        loanApplicationId: application.id,
+        allocations: allocatedOffers.map(offer => ({
+          loanOfferId: offer.id,
+          principalAmount: String(offer.allocatedPrincipalAmount),
+        })),
+        matchedDate: new Date(),
+        matchedLtvRatio: ltvRatio,
+        matchedCollateralValuationAmount: collateralValuationAmount,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to match application ${application.id} with ${allocatedOffers.length} offers:`,
+        error,
       );
+      return [];
+    }
 
-      // Convert principal amount from smallest units to decimal form
-      const principalAmountNum =
-        Number(application.principalAmount) / Math.pow(10, application.principalCurrency.decimals);
-      const ltvRatio = collateralValueDecimal > 0 ? principalAmountNum / collateralValueDecimal : 0;
+    const interestRates = new Map(allocatedOffers.map(offer => [offer.id, offer.interestRate]));
+    const tranchePairs: MatchedLoanPair[] = matchResult.matches.map(match => ({
+      loanApplicationId: matchResult.loanApplicationId,
+      loanOfferId: match.loanOfferId,
+      borrowerUserId: application.borrowerUserId,
+      lenderUserId: match.lenderUserId,
+      principalAmount: match.principalAmount,
+      interestRate: interestRates.get(match.loanOfferId) ?? 0,
+      termInMonths: application.termInMonths,
+      collateralValuationAmount: matchResult.matchedCollateralValuationAmount,
+      ltvRatio: matchResult.matchedLtvRatio,
+      matchedDate: matchResult.matchedDate,
+    }));
+
+    // Automatically originate and disburse the tranche loans after matching
+    try {
+      const platformConfig = await this.repository.platformRetrievesProvisionRate();
+      const provisionRate = Number(platformConfig.loanProvisionRate);
 
-      // Convert collateral value from decimal back to smallest units for storage (assuming 18 decimals for quote currency)
-      const QUOTE_CURRENCY_DECIMALS = 18;
-      const collateralValueSmallestUnits = Math.round(
-        collateralValueDecimal * Math.pow(10, QUOTE_CURRENCY_DECIMALS),
+      const tranches = matchResult.matches.map(match => ({
+        loanOfferId: match.loanOfferId,
+        ...this.loanCalculationService.calculateLoanOriginationParams({
+          principalAmount: match.principalAmount,
+          interestRate: interestRates.get(match.loanOfferId) ?? 0,
+          termInMonths: application.termInMonths,
+          collateralAmount: match.collateralAmount,
+          matchedLtvRatio: matchResult.matchedLtvRatio,
+          matchedCollateralValuationAmount: matchResult.matchedCollateralValuationAmount,
+          provisionRate,
+        }),
+      }));
+
+      const firstTranche = tranches[0];
+      assertDefined(firstTranche, 'Split match without tranches');
+
+      const { loanIds } = await this.loansService.originateLoanTranches({
+        loanApplicationId: application.id,
+        tranches,
+        originationDate: matchResult.matchedDate,
+        maturityDate: firstTranche.maturityDate,
+      });
+      this.logger.log(
+        `Loan tranches originated successfully: ${loanIds.join(', ')} for application ${application.id}`,
+      );
+
+      for (const loanId of loanIds) {
+        try {
+          await this.repository.platformDisbursesPrincipal({
+            loanId,
+            disbursementDate: new Date(),
+          });
+          this.logger.log(`Loan disbursed successfully: ${loanId}`);
+        } catch (disbursementError) {
+          this.logger.error(
+            `Failed to disburse loan ${loanId}: ${disbursementError instanceof Error ? disbursementError.message : String(disbursementError)}`,
+          );
+          // Continue even if disbursement fails - loan is still originated
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to originate loan tranches for application ${application.id}: ${error instanceof Error ? error.message : String(error)}`,
       );
+      // Continue even if origination fails - match is still valid
+    }
+
+    // Send notifications about the match, every lender hears about their own tranche
+    for (const pair of tranchePairs) {
+      await this.sendMatchNotifications(pair);
+    }
+
+    this.logger.log(
+      `Matched loan application ${application.id} with offers ${tranchePairs.map(pair => pair.loanOfferId).join(', ')}`,
+    );
+
+    return tranchePairs;
+  }
+
+  /**
+   * Create a loan match between application and offer
+   */
+  private async createLoanMatch(
+    application: MatchableLoanApplication,
+    offer: CompatibleLoanOffer,
+  ): Promise<MatchedLoanPair | null> {
+    try {
+      const { ltvRatio, collateralValuationAmount } =
+        await this.calculateMatchValuation(application);
 
       const matchResult = await this.repository.platformMatchesLoanOffers({
         loanApplicationId: application.id,
         loanOfferId: offer.id,
         matchedDate: new Date(),
         matchedLtvRatio: ltvRatio,
-        matchedCollateralValuationAmount: collateralValueSmallestUnits.toString(),
+        matchedCollateralValuationAmount: collateralValuationAmount,
       });
 
       return {
@@ -198,4 +198,132 @@ describe('EnhancedLoanMatcherStrategy', () => {
     assert.strictEqual(result[0].id, 'offer1');
     assert.strictEqual(result[0].interestRate, 8.0);
   });
+
+  it('should explain every published offer with the reasons it cannot fund the application', async () => {
+    const createOffer = (id: string, overrides: Record<string, unknown> = {}) => ({
+      id,
+      lenderUserId: `lender-${id}`,
+      principalCurrency: { blockchainKey: 'eip155:1', tokenId: 'USDC' },
+      availablePrincipalAmount: '100000',
+      minLoanPrincipalAmount: '10000',
+      maxLoanPrincipalAmount: '200000',
+      interestRate: 8.0,
+      termInMonthsOptions: [24],
+      expirationDate: new Date('2025-12-31'),
+      publishedDate: new Date('2025-01-01'),
+      ...overrides,
+    });
+
+    const mockRepository = {
+      platformListsAvailableLoanOffers: mock.fn(async () => ({
+        loanOffers: [
+          createOffer('offer1'),
+          createOffer('offer2', {
+            principalCurrency: { blockchainKey: 'eip155:56', tokenId: 'USDT' },
+          }),
+          createOffer('offer3', { termInMonthsOptions: [12], interestRate: 12.0 }),
+          createOffer('offer4', { minLoanPrincipalAmount: '60000' }),
+          createOffer('offer5', { availablePrincipalAmount: '40000' }),
+        ],
+        pagination: { page: 1, limit: 100, total: 5 },
+      })),
+    } as unknown as CryptogadaiRepository;
+
+    const strategy = new EnhancedLoanMatcherStrategy(mockRepository);
+
+    const application: MatchableLoanApplication = {
+      id: 'app1',
+      borrowerUserId: 'borrower1',
+      principalAmount: '50000',
+      maxInterestRate: 10.0,
+      termInMonths: 24,
+      collateralBlockchainKey: 'eip155:1',
+      collateralTokenId: 'ETH',
+      collateralDepositAmount: '25',
+      principalBlockchainKey: 'eip155:1',
+      principalTokenId: 'USDC',
+      status: 'Published',
+      appliedDate: new Date(),
+      expirationDate: new Date('2025-12-31'),
+    };
+
+    const result = await strategy.explainOffers(application);
+
+    assert.deepStrictEqual(
+      result.map(evaluation => [
+        evaluation.offer.id,
+        evaluation.compatible,
+        evaluation.rejections.map(rejection => rejection.reason),
+      ]),
+      [
+        ['offer1', true, []],
+        ['offer2', false, ['currency-mismatch']],
+        ['offer3', false, ['term-not-offered', 'interest-rate-above-max']],
+        ['offer4', false, ['principal-out-of-range']],
+        ['offer5', false, ['insufficient-available-principal']],
+      ],
+    );
+
+    // Explanations list offers in every currency, the dry-run must not narrow the query
+    const [listParams] = mockRepository.platformListsAvailableLoanOffers.mock.calls[0].arguments;
+    assert.strictEqual(listParams.principalBlockchainKey, undefined);
+  });
+
+  it('should explain offer targeting and criteria rejections', async () => {
+    const offer = {
+      id: 'offer1',
+      lenderUserId: 'lender1',
+      principalCurrency: { blockchainKey: 'eip155:1', tokenId: 'USDC' },
+      availablePrincipalAmount: '100000',
+      minLoanPrincipalAmount: '10000',
+      maxLoanPrincipalAmount: '200000',
+      interestRate: 8.0,
+      termInMonthsOptions: [24],
+      expirationDate: new Date('2025-12-31'),
+      publishedDate: new Date('2025-01-01'),
+    };
+    const mockRepository = {
+      platformListsAvailableLoanOffers: mock.fn(async () => ({
+        loanOffers: [offer],
+        pagination: { page: 1, limit: 100, total: 1 },
+      })),
+    } as unknown as CryptogadaiRepository;
+
+    const strategy = new EnhancedLoanMatcherStrategy(mockRepository);
+
+    const application: MatchableLoanApplication = {
+      id: 'app1',
+      borrowerUserId: 'borrower1',
+      loanOfferId: 'offer9',
+      principalAmount: '50000',
+      maxInterestRate: 10.0,
+      termInMonths: 24,
+      collateralBlockchainKey: 'eip155:1',
+      collateralTokenId: 'ETH',
+      collateralDepositAmount: '25',
+      principalBlockchainKey: 'eip155:1',
+      principalTokenId: 'USDC',
+      status: 'Published',
+      appliedDate: new Date(),
+      expirationDate: new Date('2025-12-31'),
+    };
+
+    const [evaluation] = await strategy.explainOffers(
+      application,
+      undefined,
+      { fixedInterestRate: 7.5 },
+      { fixedDuration: 12 },
+    );
+
+    assert.deepStrictEqual(
+      evaluation.rejections.map(rejection => rejection.reason),
+      ['interest-rate-mismatch', 'term-not-offered', 'not-targeted-offer'],
+    );
+
+    // Matching honours the same targeting
+    const compatibleOffers = await strategy.findCompatibleOffers(application, undefined, {
+      durationOptions: [24],
+    });
+    assert.strictEqual(compatibleOffers.length, 0);
+  });
 });
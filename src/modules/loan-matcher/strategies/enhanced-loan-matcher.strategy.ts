@@ -2,7 +2,9 @@ import type {
   BorrowerMatchingCriteria,
   CompatibleLoanOffer,
   LenderMatchingCriteria,
+  LoanOfferEvaluation,
   MatchableLoanApplication,
+  OfferRejection,
 } from '../types/loan-matcher.types';
 
 import { Injectable, Logger } from '@nestjs/common';
@@ -11,12 +13,22 @@ import invariant from 'tiny-invariant';
 
 import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
 import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { OfferRejectionReason } from '../types/loan-matcher.types';
 import {
   LoanMatcherStrategy,
   MatcherStrategy,
   MatcherStrategyType,
 } from './loan-matcher-strategy.abstract';
 
+interface CriteriaOffer {
+  id: string;
+  interestRate: number;
+  termInMonthsOptions: number[];
+  minLoanPrincipalAmount: string;
+  maxLoanPrincipalAmount: string;
+  availablePrincipalAmount: string;
+}
+
 @Injectable()
 @MatcherStrategy(MatcherStrategyType.Enhanced)
 export class EnhancedLoanMatcherStrategy extends LoanMatcherStrategy {
@@ -69,6 +81,8 @@ export class EnhancedLoanMatcherStrategy extends LoanMatcherStrategy {
     const offers = await this.repository.platformListsAvailableLoanOffers({
       principalBlockchainKey: application.principalBlockchainKey,
       principalTokenId: application.principalTokenId,
+      collateralBlockchainKey: application.collateralBlockchainKey,
+      collateralTokenId: application.collateralTokenId,
       limit: 50,
     });
 
@@ -86,175 +100,244 @@ export class EnhancedLoanMatcherStrategy extends LoanMatcherStrategy {
     }
 
     // Apply standard compatibility rules
-    return this.filterCompatibleOffers(candidateOffers, application);
+    return this.filterCompatibleOffers(candidateOffers, application, targetOfferId);
   }
 
-  private applyLenderCriteria<
-    T extends {
-      id: string;
-      interestRate: number;
-      termInMonthsOptions: number[];
-      minLoanPrincipalAmount: string;
-      maxLoanPrincipalAmount: string;
-    },
-  >(offers: T[], lenderCriteria: LenderMatchingCriteria): T[] {
-    return offers.filter(offer => {
-      // Filter by lender's duration options
-      if (lenderCriteria.durationOptions && lenderCriteria.durationOptions.length > 0) {
-        const hasMatchingDuration = lenderCriteria.durationOptions.some(duration =>
-          offer.termInMonthsOptions.includes(duration),
-        );
-        if (!hasMatchingDuration) {
-          this.logger.debug(`Offer ${offer.id} rejected: Duration options don't overlap`);
-          return false;
-        }
-      }
+  /**
+   * Dry-run of findCompatibleOffers that keeps every published offer, whatever its currency,
+   * together with all the reasons it cannot fund the application
+   */
+  async explainOffers(
+    application: MatchableLoanApplication,
+    targetOfferId?: string,
+    lenderCriteria?: LenderMatchingCriteria,
+    borrowerCriteria?: BorrowerMatchingCriteria,
+  ): Promise<LoanOfferEvaluation[]> {
+    invariant(this.repository, 'Repository not available');
 
-      // Filter by lender's fixed interest rate
-      if (typeof lenderCriteria.fixedInterestRate === 'number') {
-        if (Math.abs(offer.interestRate - lenderCriteria.fixedInterestRate) > 0.001) {
-          this.logger.debug(
-            `Offer ${offer.id} rejected: Interest rate mismatch (${offer.interestRate} vs ${lenderCriteria.fixedInterestRate})`,
-          );
-          return false;
-        }
+    const offers = await this.repository.platformListsAvailableLoanOffers({ limit: 100 });
+
+    return offers.loanOffers.map(offer => {
+      const rejections: OfferRejection[] = [];
+
+      if (
+        offer.principalCurrency.blockchainKey !== application.principalBlockchainKey ||
+        offer.principalCurrency.tokenId !== application.principalTokenId
+      ) {
+        rejections.push({
+          reason: OfferRejectionReason.CurrencyMismatch,
+          message: `Principal currency ${offer.principalCurrency.blockchainKey}/${offer.principalCurrency.tokenId} differs from ${application.principalBlockchainKey}/${application.principalTokenId}`,
+        });
       }
 
-      // Filter by lender's principal amount range
-      if (lenderCriteria.minPrincipalAmount || lenderCriteria.maxPrincipalAmount) {
-        const offerMin = parseFloat(offer.minLoanPrincipalAmount);
-        const offerMax = parseFloat(offer.maxLoanPrincipalAmount);
-
-        if (lenderCriteria.minPrincipalAmount) {
-          const criteriaMin = parseFloat(lenderCriteria.minPrincipalAmount);
-          if (offerMax < criteriaMin) {
-            this.logger.debug(
-              `Offer ${offer.id} rejected: Max amount ${offerMax} below criteria min ${criteriaMin}`,
-            );
-            return false;
-          }
-        }
+      if (lenderCriteria) {
+        rejections.push(...this.getLenderCriteriaRejections(offer, lenderCriteria));
+      }
 
-        if (lenderCriteria.maxPrincipalAmount) {
-          const criteriaMax = parseFloat(lenderCriteria.maxPrincipalAmount);
-          if (offerMin > criteriaMax) {
-            this.logger.debug(
-              `Offer ${offer.id} rejected: Min amount ${offerMin} above criteria max ${criteriaMax}`,
-            );
-            return false;
-          }
-        }
+      if (borrowerCriteria) {
+        rejections.push(...this.getBorrowerCriteriaRejections(offer, borrowerCriteria));
       }
 
-      return true;
+      rejections.push(...this.getCompatibilityRejections(offer, application, targetOfferId));
+
+      return { offer, compatible: rejections.length === 0, rejections };
     });
   }
 
-  private applyBorrowerCriteria<
-    T extends {
-      id: string;
-      interestRate: number;
-      termInMonthsOptions: number[];
-      minLoanPrincipalAmount: string;
-      maxLoanPrincipalAmount: string;
-      availablePrincipalAmount: string;
-    },
-  >(offers: T[], borrowerCriteria: BorrowerMatchingCriteria): T[] {
-    return offers.filter(offer => {
-      // Borrower rule 1: Fixed duration requirement
-      if (typeof borrowerCriteria.fixedDuration === 'number') {
-        if (!offer.termInMonthsOptions.includes(borrowerCriteria.fixedDuration)) {
-          this.logger.debug(
-            `Offer ${offer.id} rejected: Fixed duration ${borrowerCriteria.fixedDuration} not in options`,
-          );
-          return false;
-        }
+  private applyLenderCriteria<T extends CriteriaOffer>(
+    offers: T[],
+    lenderCriteria: LenderMatchingCriteria,
+  ): T[] {
+    return offers.filter(offer =>
+      this.accepts(offer, this.getLenderCriteriaRejections(offer, lenderCriteria)),
+    );
+  }
+
+  private applyBorrowerCriteria<T extends CriteriaOffer>(
+    offers: T[],
+    borrowerCriteria: BorrowerMatchingCriteria,
+  ): T[] {
+    return offers.filter(offer =>
+      this.accepts(offer, this.getBorrowerCriteriaRejections(offer, borrowerCriteria)),
+    );
+  }
+
+  private filterCompatibleOffers<T extends CriteriaOffer>(
+    offers: T[],
+    application: MatchableLoanApplication,
+    targetOfferId?: string,
+  ): T[] {
+    return offers.filter(offer =>
+      this.accepts(offer, this.getCompatibilityRejections(offer, application, targetOfferId)),
+    );
+  }
+
+  private accepts(offer: CriteriaOffer, rejections: OfferRejection[]): boolean {
+    const [rejection] = rejections;
+    if (rejection) {
+      this.logger.debug(`Offer ${offer.id} rejected: ${rejection.message}`);
+      return false;
+    }
+    return true;
+  }
+
+  private getLenderCriteriaRejections(
+    offer: CriteriaOffer,
+    lenderCriteria: LenderMatchingCriteria,
+  ): OfferRejection[] {
+    const rejections: OfferRejection[] = [];
+
+    // Filter by lender's duration options
+    if (lenderCriteria.durationOptions && lenderCriteria.durationOptions.length > 0) {
+      const hasMatchingDuration = lenderCriteria.durationOptions.some(duration =>
+        offer.termInMonthsOptions.includes(duration),
+      );
+      if (!hasMatchingDuration) {
+        rejections.push({
+          reason: OfferRejectionReason.TermNotOffered,
+          message: "Duration options don't overlap",
+        });
       }
+    }
 
-      // Borrower rule 2: Fixed principal amount requirement
-      if (borrowerCriteria.fixedPrincipalAmount) {
-        const fixedAmount = parseFloat(borrowerCriteria.fixedPrincipalAmount);
-        const minAmount = parseFloat(offer.minLoanPrincipalAmount);
-        const maxAmount = parseFloat(offer.maxLoanPrincipalAmount);
-        const availableAmount = parseFloat(offer.availablePrincipalAmount);
-
-        if (fixedAmount < minAmount || fixedAmount > maxAmount) {
-          this.logger.debug(
-            `Offer ${offer.id} rejected: Fixed amount ${fixedAmount} outside range ${minAmount}-${maxAmount}`,
-          );
-          return false;
-        }
+    // Filter by lender's fixed interest rate
+    if (typeof lenderCriteria.fixedInterestRate === 'number') {
+      if (Math.abs(offer.interestRate - lenderCriteria.fixedInterestRate) > 0.001) {
+        rejections.push({
+          reason: OfferRejectionReason.InterestRateMismatch,
+          message: `Interest rate mismatch (${offer.interestRate} vs ${lenderCriteria.fixedInterestRate})`,
+        });
+      }
+    }
 
-        if (fixedAmount > availableAmount) {
-          this.logger.debug(
-            `Offer ${offer.id} rejected: Fixed amount ${fixedAmount} exceeds available ${availableAmount}`,
-          );
-          return false;
+    // Filter by lender's principal amount range
+    if (lenderCriteria.minPrincipalAmount || lenderCriteria.maxPrincipalAmount) {
+      const offerMin = parseFloat(offer.minLoanPrincipalAmount);
+      const offerMax = parseFloat(offer.maxLoanPrincipalAmount);
+
+      if (lenderCriteria.minPrincipalAmount) {
+        const criteriaMin = parseFloat(lenderCriteria.minPrincipalAmount);
+        if (offerMax < criteriaMin) {
+          rejections.push({
+            reason: OfferRejectionReason.PrincipalOutOfRange,
+            message: `Max amount ${offerMax} below criteria min ${criteriaMin}`,
+          });
         }
       }
 
-      // Borrower rule 3: Maximum acceptable interest rate
-      if (typeof borrowerCriteria.maxInterestRate === 'number') {
-        if (offer.interestRate > borrowerCriteria.maxInterestRate) {
-          this.logger.debug(
-            `Offer ${offer.id} rejected: Interest rate ${offer.interestRate}% exceeds max ${borrowerCriteria.maxInterestRate}%`,
-          );
-          return false;
+      if (lenderCriteria.maxPrincipalAmount) {
+        const criteriaMax = parseFloat(lenderCriteria.maxPrincipalAmount);
+        if (offerMin > criteriaMax) {
+          rejections.push({
+            reason: OfferRejectionReason.PrincipalOutOfRange,
+            message: `Min amount ${offerMin} above criteria max ${criteriaMax}`,
+          });
         }
       }
+    }
 
-      return true;
-    });
+    return rejections;
   }
 
-  private filterCompatibleOffers<
-    T extends {
-      id: string;
-      interestRate: number;
-      termInMonthsOptions: number[];
-      minLoanPrincipalAmount: string;
-      maxLoanPrincipalAmount: string;
-      availablePrincipalAmount: string;
-    },
-  >(offers: T[], application: MatchableLoanApplication): T[] {
-    return offers.filter(offer => {
-      // Rule 1: Principal Amount Validation
-      const requestedAmount = parseFloat(application.principalAmount);
+  private getBorrowerCriteriaRejections(
+    offer: CriteriaOffer,
+    borrowerCriteria: BorrowerMatchingCriteria,
+  ): OfferRejection[] {
+    const rejections: OfferRejection[] = [];
+
+    // Borrower rule 1: Fixed duration requirement
+    if (typeof borrowerCriteria.fixedDuration === 'number') {
+      if (!offer.termInMonthsOptions.includes(borrowerCriteria.fixedDuration)) {
+        rejections.push({
+          reason: OfferRejectionReason.TermNotOffered,
+          message: `Fixed duration ${borrowerCriteria.fixedDuration} not in options`,
+        });
+      }
+    }
+
+    // Borrower rule 2: Fixed principal amount requirement
+    if (borrowerCriteria.fixedPrincipalAmount) {
+      const fixedAmount = parseFloat(borrowerCriteria.fixedPrincipalAmount);
       const minAmount = parseFloat(offer.minLoanPrincipalAmount);
       const maxAmount = parseFloat(offer.maxLoanPrincipalAmount);
       const availableAmount = parseFloat(offer.availablePrincipalAmount);
 
-      if (requestedAmount < minAmount || requestedAmount > maxAmount) {
-        this.logger.debug(
-          `Offer ${offer.id} rejected: Amount ${requestedAmount} outside range ${minAmount}-${maxAmount}`,
-        );
-        return false;
+      if (fixedAmount < minAmount || fixedAmount > maxAmount) {
+        rejections.push({
+          reason: OfferRejectionReason.PrincipalOutOfRange,
+          message: `Fixed amount ${fixedAmount} outside range ${minAmount}-${maxAmount}`,
+        });
+      } else if (fixedAmount > availableAmount) {
+        rejections.push({
+          reason: OfferRejectionReason.InsufficientAvailablePrincipal,
+          message: `Fixed amount ${fixedAmount} exceeds available ${availableAmount}`,
+        });
       }
+    }
 
-      if (requestedAmount > availableAmount) {
-        this.logger.debug(
-          `Offer ${offer.id} rejected: Amount ${requestedAmount} exceeds available ${availableAmount}`,
-        );
-        return false;
+    // Borrower rule 3: Maximum acceptable interest rate
+    if (typeof borrowerCriteria.maxInterestRate === 'number') {
+      if (offer.interestRate > borrowerCriteria.maxInterestRate) {
+        rejections.push({
+          reason: OfferRejectionReason.InterestRateAboveMax,
+          message: `Interest rate ${offer.interestRate}% exceeds max ${borrowerCriteria.maxInterestRate}%`,
+        });
       }
+    }
 
-      // Rule 2: Duration Validation
-      if (!offer.termInMonthsOptions.includes(application.termInMonths)) {
-        this.logger.debug(
-          `Offer ${offer.id} rejected: Term ${application.termInMonths}mo not in options`,
-        );
-        return false;
-      }
+    return rejections;
+  }
 
-      // Rule 3: Interest Rate Validation
-      if (offer.interestRate > application.maxInterestRate) {
-        this.logger.debug(
-          `Offer ${offer.id} rejected: Rate ${offer.interestRate}% exceeds max ${application.maxInterestRate}%`,
-        );
-        return false;
-      }
+  private getCompatibilityRejections(
+    offer: CriteriaOffer,
+    application: MatchableLoanApplication,
+    targetOfferId?: string,
+  ): OfferRejection[] {
+    const rejections: OfferRejection[] = [];
+
+    // Rule 0: Offer targeting, by the matching run or by the application itself
+    const requiredOfferId = targetOfferId ?? application.loanOfferId;
+    if (requiredOfferId !== undefined && offer.id !== requiredOfferId) {
+      rejections.push({
+        reason: OfferRejectionReason.NotTargetedOffer,
+        message: `Matching is restricted to offer ${requiredOfferId}`,
+      });
+    }
 
-      return true;
-    });
+    // Rule 1: Principal Amount Validation
+    const requestedAmount = parseFloat(application.principalAmount);
+    const minAmount = parseFloat(offer.minLoanPrincipalAmount);
+    const maxAmount = parseFloat(offer.maxLoanPrincipalAmount);
+    const availableAmount = parseFloat(offer.availablePrincipalAmount);
+
+    if (requestedAmount < minAmount || requestedAmount > maxAmount) {
+      rejections.push({
+        reason: OfferRejectionReason.PrincipalOutOfRange,
+        message: `Amount ${requestedAmount} outside range ${minAmount}-${maxAmount}`,
+      });
+    } else if (requestedAmount > availableAmount) {
+      rejections.push({
+        reason: OfferRejectionReason.InsufficientAvailablePrincipal,
+        message: `Amount ${requestedAmount} exceeds available ${availableAmount}`,
+      });
+    }
+
+    // Rule 2: Duration Validation
+    if (!offer.termInMonthsOptions.includes(application.termInMonths)) {
+      rejections.push({
+        reason: OfferRejectionReason.TermNotOffered,
+        message: `Term ${application.termInMonths}mo not in options`,
+      });
+    }
+
+    // Rule 3: Interest Rate Validation
+    if (offer.interestRate > application.maxInterestRate) {
+      rejections.push({
+        reason: OfferRejectionReason.InterestRateAboveMax,
+        message: `Rate ${offer.interestRate}% exceeds max ${application.maxInterestRate}%`,
+      });
+    }
+
+    return rejections;
   }
 }
@@ -18,6 +18,7 @@ export const MatcherStrategyType = {
   Enhanced: 'enhanced',
   Targeted: 'targeted',
   Legacy: 'legacy',
+  OrderBook: 'order-book',
 } as const;
 
 export type MatcherStrategyTypeValue =
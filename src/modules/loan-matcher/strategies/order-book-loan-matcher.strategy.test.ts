@@ -0,0 +1,244 @@
+import type { ConfigService } from '@nestjs/config';
+import type { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import type { MatchableLoanApplication } from '../types/loan-matcher.types';
+
+import assert from 'node:assert';
+import { describe, it, mock } from 'node:test';
+
+import { OrderBookLoanMatcherStrategy } from './order-book-loan-matcher.strategy';
+
+function createOffer(
+  id: string,
+  overrides: {
+    lenderUserId?: string;
+    availablePrincipalAmount?: string;
+    minLoanPrincipalAmount?: string;
+    maxLoanPrincipalAmount?: string;
+    interestRate?: number;
+    termInMonthsOptions?: number[];
+    createdDate?: Date;
+  } = {},
+) {
+  return {
+    id,
+    lenderUserId: `lender-${id}`,
+    principalCurrency: {
+      blockchainKey: 'eip155:56',
+      tokenId: 'erc20:usdc',
+      decimals: 6,
+      symbol: 'USDC',
+      name: 'USD Coin',
+    },
+    availablePrincipalAmount: '10000',
+    minLoanPrincipalAmount: '100',
+    maxLoanPrincipalAmount: '10000',
+    interestRate: 0.1,
+    termInMonthsOptions: [6, 12],
+    createdDate: new Date('2025-01-01T00:00:00.000Z'),
+    expirationDate: new Date('2099-01-01T00:00:00.000Z'),
+    publishedDate: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function createStrategy(
+  offers: ReturnType<typeof createOffer>[],
+  config: Record<string, unknown> = {},
+) {
+  const mockRepository = {
+    platformListsAvailableLoanOffers: mock.fn(async () => ({
+      loanOffers: offers,
+      pagination: { page: 1, limit: 100, total: offers.length },
+    })),
+  } as unknown as CryptogadaiRepository;
+
+  const mockConfigService = {
+    get: (key: string, defaultValue: unknown) => config[key] ?? defaultValue,
+  } as unknown as ConfigService;
+
+  return new OrderBookLoanMatcherStrategy(mockRepository, mockConfigService);
+}
+
+const application: MatchableLoanApplication = {
+  id: 'app1',
+  borrowerUserId: 'borrower1',
+  principalCurrency: {
+    blockchainKey: 'eip155:56',
+    tokenId: 'erc20:usdc',
+    decimals: 6,
+    symbol: 'USDC',
+    name: 'USD Coin',
+  },
+  principalAmount: '5000',
+  maxInterestRate: 0.15,
+  termInMonths: 6,
+  collateralBlockchainKey: 'bip122:000000000019d6689c085ae165831e93',
+  collateralTokenId: 'slip44:0',
+  collateralDepositAmount: '100000',
+  principalBlockchainKey: 'eip155:56',
+  principalTokenId: 'erc20:usdc',
+  status: 'Published',
+  appliedDate: new Date('2025-01-01T00:00:00.000Z'),
+  expirationDate: new Date('2099-01-01T00:00:00.000Z'),
+};
+
+function allocationsOf(offers: Array<{ id: string; allocatedPrincipalAmount?: string }>) {
+  return offers.map(offer => [offer.id, offer.allocatedPrincipalAmount]);
+}
+
+describe('OrderBookLoanMatcherStrategy', () => {
+  it('should only handle matching without lender or borrower criteria', () => {
+    const strategy = createStrategy([]);
+
+    assert.strictEqual(strategy.canHandle(undefined, undefined), true);
+    assert.strictEqual(strategy.canHandle({ durationOptions: [12] }, undefined), false);
+    assert.ok(strategy.getDescription().includes('price-time allocation across up to 5 offers'));
+  });
+
+  it('should fill the whole application with the best priced offer that covers it', async () => {
+    const strategy = createStrategy([
+      createOffer('1', { interestRate: 0.12, createdDate: new Date('2025-01-02') }),
+      createOffer('2', { interestRate: 0.12, createdDate: new Date('2025-01-01') }),
+      createOffer('3', { interestRate: 0.08, availablePrincipalAmount: '4000' }),
+    ]);
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(allocationsOf(result), [['2', '5000']]);
+  });
+
+  it('should split the application in price-time order when no single offer covers it', async () => {
+    const strategy = createStrategy([
+      createOffer('1', {
+        interestRate: 0.1,
+        availablePrincipalAmount: '2000',
+        createdDate: new Date('2025-01-03'),
+      }),
+      createOffer('2', {
+        interestRate: 0.1,
+        availablePrincipalAmount: '2000',
+        createdDate: new Date('2025-01-02'),
+      }),
+      createOffer('3', { interestRate: 0.08, maxLoanPrincipalAmount: '1500' }),
+      createOffer('4', { interestRate: 0.14, availablePrincipalAmount: '3000' }),
+    ]);
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(allocationsOf(result), [
+      ['3', '1500'],
+      ['2', '2000'],
+      ['1', '1500'],
+    ]);
+  });
+
+  it('should skip offers whose minimum loan amount exceeds the remaining principal', async () => {
+    const strategy = createStrategy([
+      createOffer('1', { interestRate: 0.08, availablePrincipalAmount: '4500' }),
+      createOffer('2', {
+        interestRate: 0.09,
+        availablePrincipalAmount: '3000',
+        minLoanPrincipalAmount: '1000',
+      }),
+      createOffer('3', { interestRate: 0.1, availablePrincipalAmount: '3000' }),
+    ]);
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(allocationsOf(result), [
+      ['1', '4500'],
+      ['3', '500'],
+    ]);
+  });
+
+  it('should not match when the eligible order book cannot fill the application', async () => {
+    const strategy = createStrategy([
+      createOffer('1', { availablePrincipalAmount: '2000' }),
+      createOffer('2', { availablePrincipalAmount: '9000', termInMonthsOptions: [12] }),
+      createOffer('3', { availablePrincipalAmount: '9000', interestRate: 0.2 }),
+      createOffer('4', { availablePrincipalAmount: '9000', lenderUserId: 'borrower1' }),
+    ]);
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(result, []);
+  });
+
+  it('should limit a split to the configured number of offers', async () => {
+    const strategy = createStrategy(
+      [
+        createOffer('1', { availablePrincipalAmount: '2000' }),
+        createOffer('2', { availablePrincipalAmount: '2000' }),
+        createOffer('3', { availablePrincipalAmount: '2000' }),
+      ],
+      { LOAN_MATCHER_ORDER_BOOK_MAX_OFFERS: 2 },
+    );
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(result, []);
+  });
+
+  it('should share the best interest rate level in proportion to capacity with pro-rata allocation', async () => {
+    const strategy = createStrategy(
+      [
+        createOffer('1', { interestRate: 0.1, availablePrincipalAmount: '6000' }),
+        createOffer('2', { interestRate: 0.1, availablePrincipalAmount: '3000' }),
+        createOffer('3', { interestRate: 0.1, maxLoanPrincipalAmount: '1000' }),
+        createOffer('4', { interestRate: 0.12 }),
+      ],
+      { LOAN_MATCHER_ORDER_BOOK_ALLOCATION: 'pro-rata' },
+    );
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(allocationsOf(result), [
+      ['1', '3000'],
+      ['2', '1500'],
+      ['3', '500'],
+    ]);
+  });
+
+  it('should drop offers whose pro-rata share is below their minimum loan amount', async () => {
+    const strategy = createStrategy(
+      [
+        createOffer('1', { interestRate: 0.1, availablePrincipalAmount: '8000' }),
+        createOffer('2', {
+          interestRate: 0.1,
+          availablePrincipalAmount: '2000',
+          minLoanPrincipalAmount: '1500',
+        }),
+      ],
+      { LOAN_MATCHER_ORDER_BOOK_ALLOCATION: 'pro-rata' },
+    );
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(allocationsOf(result), [['1', '5000']]);
+  });
+
+  it('should continue to the next interest rate level once a pro-rata level is exhausted', async () => {
+    const strategy = createStrategy(
+      [
+        createOffer('1', { interestRate: 0.1, availablePrincipalAmount: '2000' }),
+        createOffer('2', { interestRate: 0.1, availablePrincipalAmount: '1000' }),
+        createOffer('3', { interestRate: 0.11, availablePrincipalAmount: '4000' }),
+        createOffer('4', {
+          interestRate: 0.11,
+          availablePrincipalAmount: '4000',
+          createdDate: new Date('2025-01-02'),
+        }),
+      ],
+      { LOAN_MATCHER_ORDER_BOOK_ALLOCATION: 'pro-rata' },
+    );
+
+    const result = await strategy.findCompatibleOffers(application);
+
+    assert.deepStrictEqual(allocationsOf(result), [
+      ['1', '2000'],
+      ['2', '1000'],
+      ['3', '1000'],
+      ['4', '1000'],
+    ]);
+  });
+});
@@ -0,0 +1,298 @@
+import type { PlatformListsAvailableLoanOffersResult } from '../../../shared/repositories/loan.types';
+import type {
+  BorrowerMatchingCriteria,
+  CompatibleLoanOffer,
+  LenderMatchingCriteria,
+  MatchableLoanApplication,
+  OrderBookAllocationValue,
+} from '../types/loan-matcher.types';
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import invariant from 'tiny-invariant';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { defaultLoanMatcherConfig } from '../types/loan-matcher.config';
+import { OrderBookAllocation } from '../types/loan-matcher.types';
+import {
+  LoanMatcherStrategy,
+  MatcherStrategy,
+  MatcherStrategyType,
+} from './loan-matcher-strategy.abstract';
+
+type OrderBookOffer = PlatformListsAvailableLoanOffersResult['loanOffers'][number];
+
+interface OfferAllocation {
+  offer: OrderBookOffer;
+  amount: bigint;
+}
+
+function minBigInt(...values: bigint[]): bigint {
+  return values.reduce((min, value) => (value < min ? value : min));
+}
+
+/**
+ * Principal an offer can still lend to a single application
+ */
+function offerCapacity(offer: OrderBookOffer): bigint {
+  return minBigInt(BigInt(offer.maxLoanPrincipalAmount), BigInt(offer.availablePrincipalAmount));
+}
+
+/**
+ * Price-time priority: lowest interest rate first, then the oldest offer
+ */
+function comparePriceTime(a: OrderBookOffer, b: OrderBookOffer): number {
+  if (a.interestRate !== b.interestRate) {
+    return a.interestRate - b.interestRate;
+  }
+  const createdDiff = a.createdDate.getTime() - b.createdDate.getTime();
+  if (createdDiff !== 0) {
+    return createdDiff;
+  }
+  return BigInt(a.id) < BigInt(b.id) ? -1 : 1;
+}
+
+/**
+ * Order-book matching strategy
+ *
+ * Offers are ranked by price-time priority. An application is filled by the best offer that covers
+ * its whole principal, and only split across several offers when no single offer can.
+ * With pro-rata allocation (LOAN_MATCHER_ORDER_BOOK_ALLOCATION=pro-rata) the offers sharing the best
+ * interest rate split the application in proportion to their capacity instead.
+ *
+ * Returned offers carry allocatedPrincipalAmount, the tranche each offer funds.
+ */
+@Injectable()
+@MatcherStrategy(MatcherStrategyType.OrderBook)
+export class OrderBookLoanMatcherStrategy extends LoanMatcherStrategy {
+  private readonly logger = new TelemetryLogger(OrderBookLoanMatcherStrategy.name);
+
+  constructor(
+    repository: CryptogadaiRepository,
+    private readonly configService: ConfigService,
+  ) {
+    super(repository);
+  }
+
+  canHandle(
+    lenderCriteria?: LenderMatchingCriteria,
+    borrowerCriteria?: BorrowerMatchingCriteria,
+  ): boolean {
+    return !lenderCriteria && !borrowerCriteria;
+  }
+
+  getDescription(): string {
+    return `Order book: ${this.getAllocation()} allocation across up to ${this.getMaxOffersPerApplication()} offers`;
+  }
+
+  async findCompatibleOffers(
+    application: MatchableLoanApplication,
+    targetOfferId?: string,
+  ): Promise<CompatibleLoanOffer[]> {
+    invariant(this.repository, 'Repository not available');
+
+    const offers = await this.repository.platformListsAvailableLoanOffers({
+      principalBlockchainKey: application.principalBlockchainKey,
+      principalTokenId: application.principalTokenId,
+      collateralBlockchainKey: application.collateralBlockchainKey,
+      collateralTokenId: application.collateralTokenId,
+      limit: 100,
+    });
+
+    const orderBook = offers.loanOffers
+      .filter(offer => targetOfferId === undefined || offer.id === targetOfferId)
+      .filter(offer => this.isEligible(offer, application))
+      .sort(comparePriceTime);
+
+    const requestedAmount = BigInt(application.principalAmount);
+    const maxOffers = targetOfferId === undefined ? this.getMaxOffersPerApplication() : 1;
+
+    const allocations =
+      this.getAllocation() === OrderBookAllocation.ProRata
+        ? this.allocateProRata(orderBook, requestedAmount, maxOffers)
+        : this.allocatePriceTime(orderBook, requestedAmount, maxOffers);
+
+    if (!allocations) {
+      this.logger.debug(
+        `Application ${application.id}: order book of ${orderBook.length} offers cannot fill ${requestedAmount}`,
+      );
+      return [];
+    }
+
+    return allocations.map(({ offer, amount }) => ({
+      ...offer,
+      allocatedPrincipalAmount: amount.toString(),
+    }));
+  }
+
+  private isEligible(offer: OrderBookOffer, application: MatchableLoanApplication): boolean {
+    if (offer.lenderUserId === application.borrowerUserId) {
+      this.logger.debug(`Offer ${offer.id} rejected: Lender is the borrower`);
+      return false;
+    }
+
+    if (!offer.termInMonthsOptions.includes(application.termInMonths)) {
+      this.logger.debug(
+        `Offer ${offer.id} rejected: Term ${application.termInMonths}mo not in options`,
+      );
+      return false;
+    }
+
+    if (offer.interestRate > application.maxInterestRate) {
+      this.logger.debug(
+        `Offer ${offer.id} rejected: Rate ${offer.interestRate} exceeds max ${application.maxInterestRate}`,
+      );
+      return false;
+    }
+
+    if (offer.expirationDate < new Date()) {
+      this.logger.debug(`Offer ${offer.id} rejected: Expired`);
+      return false;
+    }
+
+    if (offerCapacity(offer) < BigInt(offer.minLoanPrincipalAmount)) {
+      this.logger.debug(`Offer ${offer.id} rejected: Capacity below its minimum loan amount`);
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whole fill by the best offer that covers the application, otherwise walk the book
+   * taking as much as each offer can lend until the principal is covered
+   */
+  private allocatePriceTime(
+    orderBook: OrderBookOffer[],
+    requestedAmount: bigint,
+    maxOffers: number,
+  ): OfferAllocation[] | undefined {
+    const wholeFillOffer = orderBook.find(
+      offer =>
+        BigInt(offer.minLoanPrincipalAmount) <= requestedAmount &&
+        offerCapacity(offer) >= requestedAmount,
+    );
+    if (wholeFillOffer) {
+      return [{ offer: wholeFillOffer, amount: requestedAmount }];
+    }
+
+    const allocations: OfferAllocation[] = [];
+    let remainingAmount = requestedAmount;
+
+    for (const offer of orderBook) {
+      if (remainingAmount === 0n || allocations.length >= maxOffers) {
+        break;
+      }
+
+      const amount = minBigInt(remainingAmount, offerCapacity(offer));
+      if (amount < BigInt(offer.minLoanPrincipalAmount)) {
+        continue;
+      }
+
+      allocations.push({ offer, amount });
+      remainingAmount -= amount;
+    }
+
+    return remainingAmount === 0n ? allocations : undefined;
+  }
+
+  /**
+   * Walk the book one interest rate level at a time, sharing each level in proportion
+   * to offer capacity. Offers whose share falls below their minimum loan amount sit the level out.
+   */
+  private allocateProRata(
+    orderBook: OrderBookOffer[],
+    requestedAmount: bigint,
+    maxOffers: number,
+  ): OfferAllocation[] | undefined {
+    const allocations: OfferAllocation[] = [];
+    let remainingAmount = requestedAmount;
+
+    for (const level of this.groupByInterestRate(orderBook)) {
+      const openSlots = maxOffers - allocations.length;
+      if (remainingAmount === 0n || openSlots <= 0) {
+        break;
+      }
+
+      let participants = level.slice(0, openSlots);
+      let shares = this.shareProRata(participants, remainingAmount);
+
+      while (shares.some(share => share.amount < BigInt(share.offer.minLoanPrincipalAmount))) {
+        participants = shares
+          .filter(share => share.amount >= BigInt(share.offer.minLoanPrincipalAmount))
+          .map(share => share.offer);
+        if (participants.length === 0) {
+          break;
+        }
+        shares = this.shareProRata(participants, remainingAmount);
+      }
+
+      for (const share of shares) {
+        if (share.amount > 0n && share.amount >= BigInt(share.offer.minLoanPrincipalAmount)) {
+          allocations.push(share);
+          remainingAmount -= share.amount;
+        }
+      }
+    }
+
+    return remainingAmount === 0n ? allocations : undefined;
+  }
+
+  private shareProRata(offers: OrderBookOffer[], amount: bigint): OfferAllocation[] {
+    const capacities = offers.map(offerCapacity);
+    const levelCapacity = capacities.reduce((sum, capacity) => sum + capacity, 0n);
+
+    if (levelCapacity <= amount) {
+      return offers.map((offer, index) => ({ offer, amount: capacities[index] ?? 0n }));
+    }
+
+    const shares = offers.map((offer, index) => ({
+      offer,
+      amount: (amount * (capacities[index] ?? 0n)) / levelCapacity,
+    }));
+
+    // Rounding dust goes to the oldest offers with spare capacity
+    let dust = amount - shares.reduce((sum, share) => sum + share.amount, 0n);
+    for (const [index, share] of shares.entries()) {
+      if (dust === 0n) {
+        break;
+      }
+      const extra = minBigInt(dust, (capacities[index] ?? 0n) - share.amount);
+      share.amount += extra;
+      dust -= extra;
+    }
+
+    return shares;
+  }
+
+  private groupByInterestRate(orderBook: OrderBookOffer[]): OrderBookOffer[][] {
+    const levels: OrderBookOffer[][] = [];
+    for (const offer of orderBook) {
+      const currentLevel = levels[levels.length - 1];
+      if (currentLevel && currentLevel[0]?.interestRate === offer.interestRate) {
+        currentLevel.push(offer);
+      } else {
+        levels.push([offer]);
+      }
+    }
+    return levels;
+  }
+
+  private getAllocation(): OrderBookAllocationValue {
+    return this.configService.get<OrderBookAllocationValue>(
+      'LOAN_MATCHER_ORDER_BOOK_ALLOCATION',
+      defaultLoanMatcherConfig.orderBookAllocation,
+    );
+  }
+
+  private getMaxOffersPerApplication(): number {
+    return Number(
+      this.configService.get<number>(
+        'LOAN_MATCHER_ORDER_BOOK_MAX_OFFERS',
+        defaultLoanMatcherConfig.orderBookMaxOffersPerApplication,
+      ),
+    );
+  }
+}
@@ -1,3 +1,6 @@
+import type { MatcherStrategyTypeValue } from '../strategies/loan-matcher-strategy.abstract';
+import type { OrderBookAllocationValue } from './loan-matcher.types';
+
 /**
  * Loan Matcher Configuration
  * Default values for loan matching scheduler
@@ -14,6 +17,20 @@ export interface LoanMatcherConfig {
   batchSize: number;
   /** Maximum total applications to process */
   maxTotalProcessed: number;
+  /** Matching strategy used by the scheduler */
+  strategy: MatcherStrategyTypeValue;
+  /** Order-book allocation among offers with the same interest rate */
+  orderBookAllocation: OrderBookAllocationValue;
+  /** Maximum number of offers one application can be split across */
+  orderBookMaxOffersPerApplication: number;
+  /** Queue a targeted matching job as soon as an offer or application is published */
+  instantMatchingEnabled: boolean;
+  /** Enable/disable auto-lend rule scheduler */
+  autoLendSchedulerEnabled: boolean;
+  /** Number of auto-lend rules replenished per run */
+  autoLendBatchSize: number;
+  /** Lifetime of offers created by auto-lend rules */
+  autoLendOfferExpiryDays: number;
 }
 
 export const defaultLoanMatcherConfig: LoanMatcherConfig = {
@@ -22,4 +39,11 @@ export const defaultLoanMatcherConfig: LoanMatcherConfig = {
   runOnInit: false,
   batchSize: 50,
   maxTotalProcessed: 1000,
+  strategy: 'legacy',
+  orderBookAllocation: 'price-time',
+  orderBookMaxOffersPerApplication: 5,
+  instantMatchingEnabled: true,
+  autoLendSchedulerEnabled: true,
+  autoLendBatchSize: 100,
+  autoLendOfferExpiryDays: 30,
 };
@@ -1,3 +1,5 @@
+import type { MatcherStrategyTypeValue } from '../strategies/loan-matcher-strategy.abstract';
+
 export interface LoanMatchingCriteria {
   duration: number; // in months
   interest: number; // interest rate as percentage (e.g., 5.5 for 5.5%)
@@ -42,6 +44,17 @@ export interface BorrowerMatchingCriteria {
   principalCurrency?: string; // currency borrower prefers
 }
 
+/**
+ * How the order-book strategy splits an application across offers of the same interest rate
+ */
+export const OrderBookAllocation = {
+  PriceTime: 'price-time',
+  ProRata: 'pro-rata',
+} as const;
+
+export type OrderBookAllocationValue =
+  (typeof OrderBookAllocation)[keyof typeof OrderBookAllocation];
+
 export interface LoanMatchingWorkerData {
   batchSize?: number;
 
@@ -55,6 +68,7 @@ export interface LoanMatchingWorkerData {
   borrowerCriteria?: BorrowerMatchingCriteria;
 
   asOfDate?: string;
+  strategy?: MatcherStrategyTypeValue; // Strategy used when no lender or borrower criteria are given
   targetApplicationId?: string; // Focus matching on specific application
   targetOfferId?: string; // Focus matching on specific offer
 }
@@ -124,4 +138,53 @@ export interface CompatibleLoanOffer {
   termInMonthsOptions: number[];
   expirationDate: Date;
   publishedDate: Date;
+  /** Share of the application principal assigned to this offer when a strategy splits the application */
+  allocatedPrincipalAmount?: string;
+}
+
+/**
+ * Why a loan offer cannot fund a loan application
+ */
+export const OfferRejectionReason = {
+  CurrencyMismatch: 'currency-mismatch',
+  NotTargetedOffer: 'not-targeted-offer',
+  TermNotOffered: 'term-not-offered',
+  InterestRateAboveMax: 'interest-rate-above-max',
+  InterestRateMismatch: 'interest-rate-mismatch',
+  PrincipalOutOfRange: 'principal-out-of-range',
+  InsufficientAvailablePrincipal: 'insufficient-available-principal',
+} as const;
+
+export type OfferRejectionReasonValue =
+  (typeof OfferRejectionReason)[keyof typeof OfferRejectionReason];
+
+export interface OfferRejection {
+  reason: OfferRejectionReasonValue;
+  message: string;
+}
+
+/**
+ * Dry-run verdict on one candidate offer, rejections is empty for compatible offers
+ */
+export interface LoanOfferEvaluation {
+  offer: CompatibleLoanOffer & {
+    principalCurrency: {
+      blockchainKey: string;
+      tokenId: string;
+    };
+  };
+  compatible: boolean;
+  rejections: OfferRejection[];
+}
+
+/**
+ * Dry-run of matching one loan application, nothing is reserved or persisted
+ */
+export interface LoanMatchingExplanation {
+  application: MatchableLoanApplication;
+  /** Whether the application itself is picked up by matching runs (Published, unmatched, not expired) */
+  matchable: boolean;
+  offers: LoanOfferEvaluation[];
+  compatibleOfferIds: string[];
+  evaluatedDate: Date;
 }
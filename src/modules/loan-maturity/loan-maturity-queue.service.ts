@@ -0,0 +1,96 @@
+import type { Queue } from 'bullmq';
+import type { LoanMaturityWorkerData } from './loan-maturity.types';
+
+import { InjectQueue } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { defaultLoanMaturityConfig } from './loan-maturity.config';
+
+export interface QueueLoanMaturityOptions {
+  priority?: number;
+  delay?: number;
+  attempts?: number;
+}
+
+/**
+ * Loan Maturity Queue Service
+ * Queues an hourly maturity check covering repayment invoicing, reminders, settlement and defaults.
+ *
+ * Environment Variables:
+ * - LOAN_MATURITY_SCHEDULER_ENABLED: Enable/disable scheduler (default: true)
+ * - LOAN_MATURITY_BATCH_SIZE: Loans processed per step and run (default: 50)
+ * - LOAN_MATURITY_GRACE_PERIOD_DAYS: Days after maturity before an unpaid loan is defaulted (default: 3)
+ * - LOAN_MATURITY_REMINDER_OFFSET_DAYS: Days before maturity to send reminders (default: 7,3,1)
+ */
+@Injectable()
+export class LoanMaturityQueueService {
+  private readonly logger = new TelemetryLogger(LoanMaturityQueueService.name);
+
+  constructor(
+    @InjectQueue('loanMaturityQueue')
+    private readonly loanMaturityQueue: Queue<LoanMaturityWorkerData>,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async queueLoanMaturityCheck(
+    data: LoanMaturityWorkerData = { type: 'loan-maturity-check' },
+    options: QueueLoanMaturityOptions = {},
+  ): Promise<void> {
+    try {
+      const job = await this.loanMaturityQueue.add(
+        'loan-maturity-check',
+        {
+          ...data,
+          asOfDate: data.asOfDate || new Date().toISOString(),
+        },
+        {
+          priority: options.priority ?? 5,
+          delay: options.delay ?? 0,
+          attempts: options.attempts ?? 3,
+          backoff: {
+            type: 'exponential',
+            delay: 5000,
+          },
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      );
+
+      this.logger.log(`Queued loan maturity check with job ID: ${job.id}`);
+    } catch (error) {
+      this.logger.error('Failed to queue loan maturity check:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Scheduled cron job that runs every hour to process maturing loans
+   */
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'loan-maturity-check',
+  })
+  async handleScheduledLoanMaturityCheck(): Promise<void> {
+    const isEnabled = this.configService.get<boolean>(
+      'LOAN_MATURITY_SCHEDULER_ENABLED',
+      defaultLoanMaturityConfig.schedulerEnabled,
+    );
+
+    if (!isEnabled) {
+      this.logger.debug('Loan maturity scheduler is disabled');
+      return;
+    }
+
+    try {
+      await this.queueLoanMaturityCheck({
+        type: 'loan-maturity-check',
+        asOfDate: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.error('Failed to queue scheduled loan maturity check:', error);
+      // Don't throw - we don't want to crash the scheduler
+    }
+  }
+}
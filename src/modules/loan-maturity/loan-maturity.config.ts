@@ -0,0 +1,13 @@
+export type LoanMaturityConfig = {
+  schedulerEnabled: boolean;
+  batchSize: number;
+  gracePeriodDays: number; // days after maturity before an unpaid loan is defaulted
+  reminderOffsetDays: string; // comma separated days before maturity, e.g. "7,3,1"
+};
+
+export const defaultLoanMaturityConfig: LoanMaturityConfig = {
+  schedulerEnabled: true,
+  batchSize: 50,
+  gracePeriodDays: 3,
+  reminderOffsetDays: '7,3,1',
+};
@@ -0,0 +1,48 @@
+import { BullModule } from '@nestjs/bullmq';
+import { forwardRef, Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
+
+import { SharedModule } from '../../shared/shared.module';
+import { LoansModule } from '../loans/loans.module';
+import { NotificationModule } from '../notifications/notification.module';
+import { LoanMaturityProcessor } from './loan-maturity.processor';
+import { LoanMaturityService } from './loan-maturity.service';
+import { LoanMaturityQueueService } from './loan-maturity-queue.service';
+
+/**
+ * LoanMaturityModule
+ *
+ * Drives loans through maturity: issues platform-initiated repayment invoices, reminds
+ * borrowers, releases collateral once repaid and defaults loans left unpaid after the
+ * grace window by handing them to the liquidation queue.
+ */
+@Module({
+  imports: [
+    ConfigModule,
+    SharedModule,
+    NotificationModule,
+    forwardRef(() => LoansModule),
+    ScheduleModule.forRoot(),
+    BullModule.registerQueue(
+      {
+        name: 'loanMaturityQueue',
+        defaultJobOptions: {
+          attempts: 3,
+          backoff: {
+            type: 'exponential',
+            delay: 2000,
+          },
+          removeOnComplete: 10,
+          removeOnFail: 5,
+        },
+      },
+      {
+        name: 'liquidationQueue',
+      },
+    ),
+  ],
+  providers: [LoanMaturityService, LoanMaturityQueueService, LoanMaturityProcessor],
+  exports: [LoanMaturityService, LoanMaturityQueueService],
+})
+export class LoanMaturityModule {}
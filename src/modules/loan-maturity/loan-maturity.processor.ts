@@ -0,0 +1,38 @@
+import type { Job } from 'bullmq';
+import type { LoanMaturityWorkerData } from './loan-maturity.types';
+
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { LoanMaturityService } from './loan-maturity.service';
+
+@Injectable()
+@Processor('loanMaturityQueue')
+export class LoanMaturityProcessor extends WorkerHost {
+  private readonly logger = new TelemetryLogger(LoanMaturityProcessor.name);
+
+  constructor(private readonly loanMaturityService: LoanMaturityService) {
+    super();
+  }
+
+  async process(job: Job<LoanMaturityWorkerData>): Promise<void> {
+    this.logger.log(`Processing loan maturity job ${job.id} of type ${job.data.type}`);
+
+    try {
+      const result = await this.loanMaturityService.processMaturingLoans(job.data);
+
+      if (result.errors.length > 0) {
+        this.logger.warn(`Job ${job.id} had ${result.errors.length} errors:`, result.errors);
+      }
+    } catch (error) {
+      this.logger.error(`Loan maturity job ${job.id} failed:`, error);
+      throw error;
+    }
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job<LoanMaturityWorkerData>, err: Error) {
+    this.logger.error(`Loan maturity job ${job.id} has failed with error:`, err);
+  }
+}
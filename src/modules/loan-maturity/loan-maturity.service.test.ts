@@ -0,0 +1,292 @@
+import type { MaturingLoan } from '../../shared/repositories/loan.types';
+
+import assert from 'node:assert';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { LoanCalculationService } from '../loans/services/loan-calculation.service';
+import { LoanMaturityService } from './loan-maturity.service';
+
+interface MockLoanRepository {
+  platformListsSettleableLoanRepayments: ReturnType<typeof mock.fn>;
+  platformSettlesLoanRepayment: ReturnType<typeof mock.fn>;
+  platformListsLoansPastGracePeriod: ReturnType<typeof mock.fn>;
+  platformDefaultsLoan: ReturnType<typeof mock.fn>;
+  platformListsLoansDueForRepaymentInvoice: ReturnType<typeof mock.fn>;
+  platformCreatesLoanRepaymentInvoice: ReturnType<typeof mock.fn>;
+  platformListsLoansDueForRepaymentReminder: ReturnType<typeof mock.fn>;
+  platformRecordsLoanRepaymentReminder: ReturnType<typeof mock.fn>;
+}
+
+function createMaturingLoan(overrides: Partial<MaturingLoan> = {}): MaturingLoan {
+  return {
+    loanId: 'loan-1',
+    loanStatus: 'Active',
+    borrowerUserId: 'borrower-1',
+    lenderUserId: 'lender-1',
+    principalCurrency: {
+      blockchainKey: 'eip155:56',
+      tokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+      decimals: 6,
+      symbol: 'USDC',
+      name: 'USD Coin',
+    },
+    repaymentAmount: '1100000000', // 1100 USDC
+    premiAmount: '20000000',
+    liquidationFeeAmount: '20000000',
+    maturityDate: new Date('2024-07-04T10:00:00.000Z'),
+    repaymentPaidAmount: '0',
+    ...overrides,
+  };
+}
+
+describe('LoanMaturityService', () => {
+  let loanMaturityService: LoanMaturityService;
+  let mockRepository: MockLoanRepository;
+  let mockInvoiceService: { prepareInvoice: ReturnType<typeof mock.fn> };
+  let mockNotificationQueueService: { queueNotification: ReturnType<typeof mock.fn> };
+  let mockLiquidationQueue: { add: ReturnType<typeof mock.fn> };
+
+  beforeEach(() => {
+    mockRepository = {
+      platformListsSettleableLoanRepayments: mock.fn(() => Promise.resolve({ loans: [] })),
+      platformSettlesLoanRepayment: mock.fn(() =>
+        Promise.resolve({ releasedCollateralAmount: '300000000' }),
+      ),
+      platformListsLoansPastGracePeriod: mock.fn(() => Promise.resolve({ loans: [] })),
+      platformDefaultsLoan: mock.fn(() => Promise.resolve({})),
+      platformListsLoansDueForRepaymentInvoice: mock.fn(() => Promise.resolve({ loans: [] })),
+      platformCreatesLoanRepaymentInvoice: mock.fn(() =>
+        Promise.resolve({ repaymentInvoiceId: '12345' }),
+      ),
+      platformListsLoansDueForRepaymentReminder: mock.fn(() => Promise.resolve({ loans: [] })),
+      platformRecordsLoanRepaymentReminder: mock.fn(() => Promise.resolve({ recorded: true })),
+    };
+
+    mockInvoiceService = {
+      prepareInvoice: mock.fn(() =>
+        Promise.resolve({
+          invoiceId: 12345,
+          walletAddress: '0xrepayment',
+          walletDerivationPath: "m/44'/60'/5'/0/12345",
+        }),
+      ),
+    };
+
+    mockNotificationQueueService = {
+      queueNotification: mock.fn(() => Promise.resolve()),
+    };
+
+    mockLiquidationQueue = {
+      add: mock.fn(() => Promise.resolve({ id: 'job-1' })),
+    };
+
+    const mockConfigService = {
+      get: mock.fn((_key: string, defaultValue: unknown) => defaultValue),
+    };
+
+    loanMaturityService = new LoanMaturityService(
+      // biome-ignore lint/suspicious/noExplicitAny: Mock repository for testing
+      mockRepository as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock invoice service for testing
+      mockInvoiceService as any,
+      new LoanCalculationService(),
+      // biome-ignore lint/suspicious/noExplicitAny: Mock notification queue for testing
+      mockNotificationQueueService as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock config service for testing
+      mockConfigService as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock queue for testing
+      mockLiquidationQueue as any,
+    );
+  });
+
+  describe('processMaturingLoans', () => {
+    it('should create repayment invoice due at the end of the grace period', async () => {
+      mockRepository.platformListsLoansDueForRepaymentInvoice.mock.mockImplementation(() =>
+        Promise.resolve({ loans: [createMaturingLoan()] }),
+      );
+
+      const asOfDate = '2024-06-04T10:00:00.000Z';
+      const result = await loanMaturityService.processMaturingLoans({
+        type: 'loan-maturity-check',
+        asOfDate,
+      });
+
+      assert.strictEqual(result.invoicedCount, 1);
+      assert.strictEqual(result.errors.length, 0);
+
+      const invoiceParams = mockInvoiceService.prepareInvoice.mock.calls[0].arguments[0] as Record<
+        string,
+        unknown
+      >;
+      assert.strictEqual(invoiceParams.userId, 'borrower-1');
+      assert.strictEqual(invoiceParams.invoiceType, 'LoanRepayment');
+      assert.strictEqual(invoiceParams.invoicedAmount, '1100000000');
+
+      const createParams = mockRepository.platformCreatesLoanRepaymentInvoice.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(createParams.loanId, 'loan-1');
+      assert.strictEqual(createParams.repaymentInvoiceId, 12345);
+      assert.strictEqual(createParams.repaymentWalletAddress, '0xrepayment');
+      assert.deepStrictEqual(createParams.invoiceDate, new Date(asOfDate));
+      assert.deepStrictEqual(createParams.dueDate, new Date('2024-07-07T10:00:00.000Z'));
+    });
+
+    it('should settle loans whose repayment invoice is fully paid', async () => {
+      mockRepository.platformListsSettleableLoanRepayments.mock.mockImplementation(() =>
+        Promise.resolve({
+          loans: [
+            createMaturingLoan({
+              repaymentInitiator: 'Platform',
+              repaymentInvoiceId: '12345',
+              repaymentPaidAmount: '1100000000',
+            }),
+          ],
+        }),
+      );
+
+      const result = await loanMaturityService.processMaturingLoans({
+        type: 'loan-maturity-check',
+        asOfDate: '2024-07-03T10:00:00.000Z',
+      });
+
+      assert.strictEqual(result.settledCount, 1);
+      const settleParams = mockRepository.platformSettlesLoanRepayment.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(settleParams.loanId, 'loan-1');
+    });
+
+    it('should default unpaid loans and hand them to liquidation', async () => {
+      mockRepository.platformListsLoansPastGracePeriod.mock.mockImplementation(() =>
+        Promise.resolve({
+          loans: [
+            createMaturingLoan({
+              repaymentInitiator: 'Platform',
+              repaymentInvoiceId: '12345',
+              repaymentPaidAmount: '500000000',
+            }),
+          ],
+        }),
+      );
+
+      const result = await loanMaturityService.processMaturingLoans({
+        type: 'loan-maturity-check',
+        asOfDate: '2024-07-08T10:00:00.000Z',
+      });
+
+      assert.strictEqual(result.defaultedCount, 1);
+
+      const defaultParams = mockRepository.platformDefaultsLoan.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(defaultParams.loanId, 'loan-1');
+      assert.strictEqual(defaultParams.liquidationTargetAmount, '1140000000');
+
+      assert.strictEqual(mockLiquidationQueue.add.mock.callCount(), 1);
+      assert.strictEqual(mockLiquidationQueue.add.mock.calls[0].arguments[0], 'loanDefaulted');
+    });
+
+    it('should not default loans whose repayment is already covered', async () => {
+      mockRepository.platformListsLoansPastGracePeriod.mock.mockImplementation(() =>
+        Promise.resolve({
+          loans: [
+            createMaturingLoan({
+              repaymentInvoiceId: '12345',
+              repaymentPaidAmount: '1100000000',
+            }),
+          ],
+        }),
+      );
+
+      const result = await loanMaturityService.processMaturingLoans({
+        type: 'loan-maturity-check',
+        asOfDate: '2024-07-08T10:00:00.000Z',
+      });
+
+      assert.strictEqual(result.defaultedCount, 0);
+      assert.strictEqual(mockRepository.platformDefaultsLoan.mock.callCount(), 0);
+      assert.strictEqual(mockLiquidationQueue.add.mock.callCount(), 0);
+    });
+
+    it('should send the reminder for the closest reached offset only once', async () => {
+      mockRepository.platformListsLoansDueForRepaymentReminder.mock.mockImplementation(() =>
+        Promise.resolve({
+          loans: [
+            createMaturingLoan({ repaymentInvoiceId: '12345', repaymentPaidAmount: '100000000' }),
+          ],
+        }),
+      );
+
+      const result = await loanMaturityService.processMaturingLoans({
+        type: 'loan-maturity-check',
+        asOfDate: '2024-07-02T10:00:00.000Z', // 2 days before maturity
+      });
+
+      assert.strictEqual(result.remindedCount, 1);
+
+      const reminderParams = mockRepository.platformRecordsLoanRepaymentReminder.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(reminderParams.reminderOffsetDays, 3);
+
+      const notification = mockNotificationQueueService.queueNotification.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(notification.type, 'LoanRepaymentDue');
+      assert.strictEqual(notification.userId, 'borrower-1');
+      assert.strictEqual(notification.amount, '1000.000000');
+      assert.strictEqual(notification.currency, 'USDC');
+      assert.strictEqual(notification.dueDate, '2024-07-04T10:00:00.000Z');
+
+      mockRepository.platformRecordsLoanRepaymentReminder.mock.mockImplementation(() =>
+        Promise.resolve({ recorded: false }),
+      );
+
+      const secondResult = await loanMaturityService.processMaturingLoans({
+        type: 'loan-maturity-check',
+        asOfDate: '2024-07-02T11:00:00.000Z',
+      });
+
+      assert.strictEqual(secondResult.remindedCount, 0);
+      assert.strictEqual(mockNotificationQueueService.queueNotification.mock.callCount(), 1);
+    });
+
+    it('should collect errors without stopping other steps', async () => {
+      mockRepository.platformListsSettleableLoanRepayments.mock.mockImplementation(() =>
+        Promise.resolve({ loans: [createMaturingLoan({ loanId: 'loan-2' })] }),
+      );
+      mockRepository.platformSettlesLoanRepayment.mock.mockImplementation(() =>
+        Promise.reject(new Error('Insufficient balance')),
+      );
+      mockRepository.platformListsLoansDueForRepaymentInvoice.mock.mockImplementation(() =>
+        Promise.resolve({ loans: [createMaturingLoan()] }),
+      );
+
+      const result = await loanMaturityService.processMaturingLoans({
+        type: 'loan-maturity-check',
+        asOfDate: '2024-06-04T10:00:00.000Z',
+      });
+
+      assert.strictEqual(result.settledCount, 0);
+      assert.strictEqual(result.invoicedCount, 1);
+      assert.strictEqual(result.errors.length, 1);
+      assert.match(result.errors[0], /loan-2: Insufficient balance/);
+    });
+  });
+
+  describe('getDueReminderOffset', () => {
+    it('should return undefined before the first reminder offset', () => {
+      const offset = loanMaturityService.getDueReminderOffset(
+        new Date('2024-07-04T10:00:00.000Z'),
+        new Date('2024-06-20T10:00:00.000Z'),
+      );
+
+      assert.strictEqual(offset, undefined);
+    });
+
+    it('should return the closest offset to maturity that has been reached', () => {
+      const offset = loanMaturityService.getDueReminderOffset(
+        new Date('2024-07-04T10:00:00.000Z'),
+        new Date('2024-07-03T10:00:00.000Z'),
+      );
+
+      assert.strictEqual(offset, 1);
+    });
+  });
+});
@@ -0,0 +1,326 @@
+import type { Queue } from 'bullmq';
+import type { MaturingLoan } from '../../shared/repositories/loan.types';
+import type {
+  LoanDefaultedJobData,
+  LoanMaturityResult,
+  LoanMaturityWorkerData,
+} from './loan-maturity.types';
+
+import { InjectQueue } from '@nestjs/bullmq';
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { InvoiceService } from '../../shared/invoice/invoice.service';
+import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { fromLowestDenomination } from '../../shared/utils/decimal';
+import { LoanCalculationService } from '../loans/services/loan-calculation.service';
+import { NotificationQueueService } from '../notifications/notification-queue.service';
+import { defaultLoanMaturityConfig } from './loan-maturity.config';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class LoanMaturityService {
+  private readonly logger = new TelemetryLogger(LoanMaturityService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly invoiceService: InvoiceService,
+    private readonly loanCalculationService: LoanCalculationService,
+    private readonly notificationQueueService: NotificationQueueService,
+    private readonly configService: ConfigService,
+    @InjectQueue('liquidationQueue')
+    private readonly liquidationQueue: Queue<LoanDefaultedJobData>,
+  ) {}
+
+  /**
+   * Runs the maturity lifecycle in order:
+   * 1. Settles loans whose repayment invoice payments cover the repayment amount
+   * 2. Defaults unpaid loans past the grace window and hands them to liquidation
+   * 3. Issues repayment invoices loan_repayment_duration_in_days before maturity
+   * 4. Sends LoanRepaymentDue reminders at the configured offsets
+   */
+  async processMaturingLoans(data: LoanMaturityWorkerData): Promise<LoanMaturityResult> {
+    const { asOfDate = new Date().toISOString(), batchSize = this.getBatchSize() } = data;
+    const processingDate = new Date(asOfDate);
+
+    this.logger.log(`Starting loan maturity check as of ${processingDate.toISOString()}`);
+
+    const result: LoanMaturityResult = {
+      settledCount: 0,
+      defaultedCount: 0,
+      invoicedCount: 0,
+      remindedCount: 0,
+      errors: [],
+    };
+
+    await this.settleRepaidLoans(processingDate, batchSize, result);
+    await this.defaultOverdueLoans(processingDate, batchSize, result);
+    await this.createRepaymentInvoices(processingDate, batchSize, result);
+    await this.sendRepaymentReminders(processingDate, batchSize, result);
+
+    this.logger.log(
+      `Loan maturity check completed. Settled: ${result.settledCount}, Defaulted: ${result.defaultedCount}, ` +
+        `Invoiced: ${result.invoicedCount}, Reminded: ${result.remindedCount}, Errors: ${result.errors.length}`,
+    );
+
+    return result;
+  }
+
+  /**
+   * Returns the reminder offset that is due, the closest one to maturity that has been reached.
+   * Older offsets that were missed (e.g. worker downtime) are not sent anymore.
+   */
+  getDueReminderOffset(maturityDate: Date, asOfDate: Date): number | undefined {
+    return this.getReminderOffsetDays()
+      .filter(offsetDays => asOfDate.getTime() >= maturityDate.getTime() - offsetDays * ONE_DAY_MS)
+      .sort((a, b) => a - b)[0];
+  }
+
+  private async settleRepaidLoans(
+    asOfDate: Date,
+    batchSize: number,
+    result: LoanMaturityResult,
+  ): Promise<void> {
+    const { loans } = await this.repository.platformListsSettleableLoanRepayments({
+      limit: batchSize,
+    });
+
+    for (const loan of loans) {
+      try {
+        const settlement = await this.repository.platformSettlesLoanRepayment({
+          loanId: loan.loanId,
+          settlementDate: asOfDate,
+        });
+
+        result.settledCount++;
+        this.logger.log(
+          `Loan ${loan.loanId} repaid, released ${settlement.releasedCollateralAmount} collateral to borrower`,
+        );
+      } catch (error) {
+        this.collectError(result, `Failed to settle repayment for loan ${loan.loanId}`, error);
+      }
+    }
+  }
+
+  private async defaultOverdueLoans(
+    asOfDate: Date,
+    batchSize: number,
+    result: LoanMaturityResult,
+  ): Promise<void> {
+    const { loans } = await this.repository.platformListsLoansPastGracePeriod({
+      asOfDate,
+      gracePeriodDays: this.getGracePeriodDays(),
+      limit: batchSize,
+    });
+
+    for (const loan of loans) {
+      if (this.isRepaymentCovered(loan)) {
+        // Settled on the next run once the payment is reflected in the listing
+        continue;
+      }
+
+      try {
+        const liquidationTargetAmount =
+          this.loanCalculationService.calculateLiquidationTargetAmount(
+            loan.repaymentAmount,
+            loan.premiAmount,
+            loan.liquidationFeeAmount,
+          );
+
+        await this.repository.platformDefaultsLoan({
+          loanId: loan.loanId,
+          liquidationTargetAmount,
+          defaultedDate: asOfDate,
+        });
+
+        result.defaultedCount++;
+        this.logger.warn(
+          `Loan ${loan.loanId} defaulted after grace period, handing to liquidation`,
+        );
+
+        await this.liquidationQueue.add(
+          'loanDefaulted',
+          {
+            loanId: loan.loanId,
+            borrowerUserId: loan.borrowerUserId,
+            liquidationTargetAmount,
+            defaultedDate: asOfDate.toISOString(),
+          },
+          {
+            priority: 1,
+            attempts: 3,
+            backoff: {
+              type: 'exponential',
+              delay: 5000,
+            },
+            removeOnComplete: 10,
+            removeOnFail: 5,
+          },
+        );
+      } catch (error) {
+        this.collectError(result, `Failed to default loan ${loan.loanId}`, error);
+      }
+    }
+  }
+
+  private async createRepaymentInvoices(
+    asOfDate: Date,
+    batchSize: number,
+    result: LoanMaturityResult,
+  ): Promise<void> {
+    const { loans } = await this.repository.platformListsLoansDueForRepaymentInvoice({
+      asOfDate,
+      limit: batchSize,
+    });
+
+    const gracePeriodDays = this.getGracePeriodDays();
+
+    for (const loan of loans) {
+      try {
+        // Payments are accepted until the grace window lapses
+        const dueDate = new Date(
+          Math.max(loan.maturityDate.getTime() + gracePeriodDays * ONE_DAY_MS, asOfDate.getTime()),
+        );
+
+        const invoiceDraft = await this.invoiceService.prepareInvoice({
+          userId: loan.borrowerUserId,
+          currencyBlockchainKey: loan.principalCurrency.blockchainKey,
+          currencyTokenId: loan.principalCurrency.tokenId,
+          invoiceType: 'LoanRepayment',
+          invoicedAmount: loan.repaymentAmount,
+          invoiceDate: asOfDate,
+          dueDate,
+          expiredDate: dueDate,
+        });
+
+        const invoice = await this.repository.platformCreatesLoanRepaymentInvoice({
+          loanId: loan.loanId,
+          repaymentInvoiceId: invoiceDraft.invoiceId,
+          repaymentWalletDerivationPath: invoiceDraft.walletDerivationPath,
+          repaymentWalletAddress: invoiceDraft.walletAddress,
+          invoiceDate: asOfDate,
+          dueDate,
+          expiredDate: dueDate,
+        });
+
+        result.invoicedCount++;
+        this.logger.log(
+          `Created repayment invoice ${invoice.repaymentInvoiceId} for loan ${loan.loanId} due ${dueDate.toISOString()}`,
+        );
+      } catch (error) {
+        this.collectError(
+          result,
+          `Failed to create repayment invoice for loan ${loan.loanId}`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async sendRepaymentReminders(
+    asOfDate: Date,
+    batchSize: number,
+    result: LoanMaturityResult,
+  ): Promise<void> {
+    const reminderOffsetDays = this.getReminderOffsetDays();
+    if (reminderOffsetDays.length === 0) {
+      return;
+    }
+
+    const { loans } = await this.repository.platformListsLoansDueForRepaymentReminder({
+      asOfDate,
+      maxReminderOffsetDays: Math.max(...reminderOffsetDays),
+      limit: batchSize,
+    });
+
+    for (const loan of loans) {
+      if (this.isRepaymentCovered(loan)) {
+        continue;
+      }
+
+      const offsetDays = this.getDueReminderOffset(loan.maturityDate, asOfDate);
+      if (offsetDays === undefined) {
+        continue;
+      }
+
+      try {
+        const { recorded } = await this.repository.platformRecordsLoanRepaymentReminder({
+          loanId: loan.loanId,
+          reminderOffsetDays: offsetDays,
+          remindedDate: asOfDate,
+        });
+
+        if (!recorded) {
+          continue;
+        }
+
+        const outstandingAmount = (
+          BigInt(loan.repaymentAmount) - BigInt(loan.repaymentPaidAmount)
+        ).toString();
+
+        await this.notificationQueueService.queueNotification({
+          type: 'LoanRepaymentDue',
+          userId: loan.borrowerUserId,
+          loanId: loan.loanId,
+          amount: fromLowestDenomination(outstandingAmount, loan.principalCurrency.decimals),
+          currency: loan.principalCurrency.symbol,
+          dueDate: loan.maturityDate.toISOString(),
+        });
+
+        result.remindedCount++;
+      } catch (error) {
+        this.collectError(
+          result,
+          `Failed to send repayment reminder for loan ${loan.loanId}`,
+          error,
+        );
+      }
+    }
+  }
+
+  private isRepaymentCovered(loan: MaturingLoan): boolean {
+    return (
+      loan.repaymentInvoiceId !== undefined &&
+      BigInt(loan.repaymentPaidAmount) >= BigInt(loan.repaymentAmount)
+    );
+  }
+
+  private collectError(result: LoanMaturityResult, message: string, error: unknown): void {
+    const errorMessage = `${message}: ${error instanceof Error ? error.message : String(error)}`;
+    this.logger.error(errorMessage);
+    result.errors.push(errorMessage);
+  }
+
+  private getBatchSize(): number {
+    return Number(
+      this.configService.get<number>(
+        'LOAN_MATURITY_BATCH_SIZE',
+        defaultLoanMaturityConfig.batchSize,
+      ),
+    );
+  }
+
+  private getGracePeriodDays(): number {
+    return Number(
+      this.configService.get<number>(
+        'LOAN_MATURITY_GRACE_PERIOD_DAYS',
+        defaultLoanMaturityConfig.gracePeriodDays,
+      ),
+    );
+  }
+
+  private getReminderOffsetDays(): number[] {
+    const offsets = this.configService.get<string>(
+      'LOAN_MATURITY_REMINDER_OFFSET_DAYS',
+      defaultLoanMaturityConfig.reminderOffsetDays,
+    );
+
+    return String(offsets)
+      .split(',')
+      .map(offset => Number(offset.trim()))
+      .filter(offset => Number.isInteger(offset) && offset > 0);
+  }
+}
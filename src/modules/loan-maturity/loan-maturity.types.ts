@@ -0,0 +1,23 @@
+export interface LoanMaturityWorkerData {
+  type: 'loan-maturity-check';
+  asOfDate?: string; // ISO date string
+  batchSize?: number;
+}
+
+export interface LoanMaturityResult {
+  settledCount: number;
+  defaultedCount: number;
+  invoicedCount: number;
+  remindedCount: number;
+  errors: string[];
+}
+
+/**
+ * Payload of 'loanDefaulted' jobs consumed by the liquidation worker
+ */
+export interface LoanDefaultedJobData {
+  loanId: string;
+  borrowerUserId: string;
+  liquidationTargetAmount: string;
+  defaultedDate: string; // ISO date string
+}
@@ -0,0 +1,170 @@
+import type { UserSession } from '../../auth/types';
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { validationOptions } from '../../../shared/utils/validation-options';
+import { Session } from '../../auth/auth.decorator';
+import { AuthGuard } from '../../auth/auth.guard';
+import { ErrorResponseDto } from '../dto/common.dto';
+import {
+  CreateLoanAutoLendRuleDto,
+  LoanAutoLendRuleListResponseDto,
+  LoanAutoLendRuleResponseDto,
+  UpdateLoanAutoLendRuleDto,
+} from '../dto/loan-auto-lend-rules.dto';
+import { LoanAutoLendRulesService } from '../services/loan-auto-lend-rules.service';
+
+@ApiTags('Loan Auto-Lend Rules')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+@Controller('loan-auto-lend-rules')
+export class LoanAutoLendRulesController {
+  private readonly logger = new TelemetryLogger(LoanAutoLendRulesController.name);
+
+  constructor(private readonly loanAutoLendRulesService: LoanAutoLendRulesService) {}
+
+  /**
+   * Create an auto-lend rule
+   */
+  @Post()
+  @ApiOperation({
+    summary: 'Create auto-lend rule',
+    description:
+      'Create a standing rule that keeps loan offers funded from idle platform balance. Offers are created and replenished by the auto-lend scheduler within the rule exposure cap.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Auto-lend rule created',
+    type: LoanAutoLendRuleResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Validation error',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNPROCESSABLE_ENTITY,
+    description: 'Principal or collateral currency not supported',
+    type: ErrorResponseDto,
+  })
+  async createRule(
+    @Session() session: UserSession,
+    @Body(new ValidationPipe(validationOptions)) dto: CreateLoanAutoLendRuleDto,
+  ): Promise<LoanAutoLendRuleResponseDto> {
+    this.logger.log(`Creating auto-lend rule for lender: ${session.user.id}`);
+    return await this.loanAutoLendRulesService.createRule(session.user.id, dto);
+  }
+
+  /**
+   * List my auto-lend rules
+   */
+  @Get()
+  @ApiOperation({
+    summary: 'List auto-lend rules',
+    description: 'Retrieve the active and paused auto-lend rules of the authenticated lender',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: "Lender's auto-lend rules",
+    type: LoanAutoLendRuleListResponseDto,
+  })
+  async listRules(@Session() session: UserSession): Promise<LoanAutoLendRuleListResponseDto> {
+    return await this.loanAutoLendRulesService.listRules(session.user.id);
+  }
+
+  /**
+   * Get auto-lend rule details
+   */
+  @Get(':id')
+  @ApiOperation({
+    summary: 'Get auto-lend rule',
+    description: 'Retrieve an auto-lend rule with its current exposure',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Auto-lend rule ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Auto-lend rule details',
+    type: LoanAutoLendRuleResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Auto-lend rule not found',
+    type: ErrorResponseDto,
+  })
+  async getRule(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+  ): Promise<LoanAutoLendRuleResponseDto> {
+    return await this.loanAutoLendRulesService.getRule(session.user.id, id);
+  }
+
+  /**
+   * Update auto-lend rule
+   */
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Update auto-lend rule',
+    description:
+      'Change rule terms or pause and resume it. New terms apply to offers created afterwards.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Auto-lend rule ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Auto-lend rule updated',
+    type: LoanAutoLendRuleResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Auto-lend rule not found',
+    type: ErrorResponseDto,
+  })
+  async updateRule(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+    @Body(new ValidationPipe(validationOptions)) dto: UpdateLoanAutoLendRuleDto,
+  ): Promise<LoanAutoLendRuleResponseDto> {
+    this.logger.log(`Updating auto-lend rule ${id} for lender: ${session.user.id}`);
+    return await this.loanAutoLendRulesService.updateRule(session.user.id, id, dto);
+  }
+
+  /**
+   * Delete auto-lend rule
+   */
+  @Delete(':id')
+  @ApiOperation({
+    summary: 'Delete auto-lend rule',
+    description:
+      'Stop the rule from creating offers. Offers it already funded stay published until they run out or expire.',
+  })
+  @ApiParam({ name: 'id', type: String, description: 'Auto-lend rule ID' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Auto-lend rule deleted',
+    type: LoanAutoLendRuleResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Auto-lend rule not found',
+    type: ErrorResponseDto,
+  })
+  async deleteRule(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+  ): Promise<LoanAutoLendRuleResponseDto> {
+    this.logger.log(`Deleting auto-lend rule ${id} for lender: ${session.user.id}`);
+    return await this.loanAutoLendRulesService.deleteRule(session.user.id, id);
+  }
+}
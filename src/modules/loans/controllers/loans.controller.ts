@@ -26,11 +26,20 @@ import { Session } from '../../auth/auth.decorator';
 import { AuthGuard } from '../../auth/auth.guard';
 import { ErrorResponseDto, LoanStatus, UserRole } from '../dto/common.dto';
 import {
+  CollateralTopUpRequestDto,
+  CollateralTopUpResponseDto,
   EarlyLiquidationEstimateResponseDto,
   EarlyLiquidationRequestDto,
   EarlyLiquidationRequestResponseDto,
   EarlyRepaymentRequestDto,
   EarlyRepaymentRequestResponseDto,
+  LoanExtensionDeclineDto,
+  LoanExtensionListResponseDto,
+  LoanExtensionRequestDto,
+  LoanExtensionResponseDto,
+  LoanPositionListingListResponseDto,
+  LoanPositionListingRequestDto,
+  LoanPositionListingResponseDto,
 } from '../dto/loan-operations.dto';
 import {
   LoanAgreementResponseDto,
@@ -38,6 +47,9 @@ import {
   LoanResponseDto,
   LoanValuationListResponseDto,
 } from '../dto/loans.dto';
+import { LoanCollateralTopUpService } from '../services/loan-collateral-top-up.service';
+import { LoanExtensionService } from '../services/loan-extension.service';
+import { LoanPositionService } from '../services/loan-position.service';
 import { LoansService } from '../services/loans.service';
 
 @ApiTags('Loans')
@@ -47,7 +59,12 @@ import { LoansService } from '../services/loans.service';
 export class LoansController {
   private readonly logger = new TelemetryLogger(LoansController.name);
 
-  constructor(private readonly loansService: LoansService) {}
+  constructor(
+    private readonly loansService: LoansService,
+    private readonly loanCollateralTopUpService: LoanCollateralTopUpService,
+    private readonly loanExtensionService: LoanExtensionService,
+    private readonly loanPositionService: LoanPositionService,
+  ) {}
 
   /**
    * Convert string status to LoanStatus enum
@@ -149,6 +166,139 @@ export class LoansController {
     });
   }
 
+  /**
+   * Browse loan positions for sale
+   */
+  @Get('position-listings')
+  @ApiOperation({
+    summary: 'Browse loan positions for sale',
+    description:
+      'Active loan positions listed by their lenders, newest first. Buying one makes the buyer the lender of the loan.',
+  })
+  @ApiQuery({
+    name: 'page',
+    required: false,
+    type: Number,
+    description: 'Page number (1-based)',
+    example: 1,
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    type: Number,
+    description: 'Items per page (1-100)',
+    example: 20,
+  })
+  @ApiQuery({
+    name: 'principalBlockchainKey',
+    required: false,
+    type: String,
+    description: 'Filter by principal currency blockchain',
+  })
+  @ApiQuery({
+    name: 'principalTokenId',
+    required: false,
+    type: String,
+    description: 'Filter by principal currency token',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Open loan position listings',
+    type: LoanPositionListingListResponseDto,
+  })
+  async browseLoanPositionListings(
+    @Query('page') page?: number,
+    @Query('limit') limit?: number,
+    @Query('principalBlockchainKey') principalBlockchainKey?: string,
+    @Query('principalTokenId') principalTokenId?: string,
+  ): Promise<LoanPositionListingListResponseDto> {
+    return await this.loanPositionService.browseListings({
+      page: page || 1,
+      limit: limit || 20,
+      principalBlockchainKey,
+      principalTokenId,
+    });
+  }
+
+  /**
+   * Purchase a listed loan position
+   */
+  @Post('position-listings/:listingId/purchase')
+  @ApiOperation({
+    summary: 'Purchase loan position',
+    description:
+      'Pay the asking price from platform balance to take over the lender position. Later repayments and interest go to the buyer and a transfer deed is generated.',
+  })
+  @ApiParam({
+    name: 'listingId',
+    type: String,
+    description: 'Position listing ID',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Position transferred to the buyer',
+    type: LoanPositionListingResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Listing no longer open, insufficient platform balance, own listing or loan not eligible',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'KYC not verified',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Listing not found',
+    type: ErrorResponseDto,
+  })
+  async purchaseLoanPosition(
+    @Session() session: UserSession,
+    @Param('listingId') listingId: string,
+  ): Promise<LoanPositionListingResponseDto> {
+    this.logger.log(`Purchasing position listing ${listingId}, buyer: ${session.user.id}`);
+    return await this.loanPositionService.purchasePosition(session.user.id, listingId);
+  }
+
+  /**
+   * Cancel a loan position listing
+   */
+  @Post('position-listings/:listingId/cancel')
+  @ApiOperation({
+    summary: 'Cancel loan position listing',
+    description: 'Seller withdraws an open listing. The position stays with the seller.',
+  })
+  @ApiParam({
+    name: 'listingId',
+    type: String,
+    description: 'Position listing ID',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Listing cancelled',
+    type: LoanPositionListingResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Listing no longer open',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Listing not found',
+    type: ErrorResponseDto,
+  })
+  async cancelLoanPositionListing(
+    @Session() session: UserSession,
+    @Param('listingId') listingId: string,
+  ): Promise<LoanPositionListingResponseDto> {
+    this.logger.log(`Cancelling position listing ${listingId}, seller: ${session.user.id}`);
+    return await this.loanPositionService.cancelListing(session.user.id, listingId);
+  }
+
   /**
    * Get loan details
    */
@@ -333,7 +483,10 @@ export class LoansController {
   @Post(':id/early-repayment/request')
   @ApiOperation({
     summary: 'Request early loan repayment',
-    description: 'Submit a request for early repayment of an active loan before maturity date.',
+    description:
+      'Submit a request for early repayment of an active loan before maturity date. ' +
+      'Provide an amount below the outstanding principal to pay down part of the principal; ' +
+      'interest for the remaining term is recomputed and excess collateral is released once paid.',
   })
   @ApiParam({
     name: 'id',
@@ -374,6 +527,275 @@ export class LoansController {
     return await this.loansService.requestEarlyRepayment(session.user.id, id, requestDto);
   }
 
+  /**
+   * Top up loan collateral
+   */
+  @Post(':id/collateral-top-up')
+  @ApiOperation({
+    summary: 'Top up loan collateral',
+    description:
+      'Add collateral to an active loan to lower its LTV ratio. Creates a collateral invoice, optionally prepaid from platform balance.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Loan ID to add collateral to',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Collateral top-up invoice created or applied from platform balance',
+    type: CollateralTopUpResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Validation error, insufficient balance or loan not eligible',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not the borrower of this loan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Loan not found',
+    type: ErrorResponseDto,
+  })
+  async requestCollateralTopUp(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+    @Body(ValidationPipe) requestDto: CollateralTopUpRequestDto,
+  ): Promise<CollateralTopUpResponseDto> {
+    this.logger.log(`Requesting collateral top-up for loan: ${id}, borrower: ${session.user.id}`);
+    return await this.loanCollateralTopUpService.requestCollateralTopUp(
+      session.user.id,
+      id,
+      requestDto,
+    );
+  }
+
+  /**
+   * Request loan extension
+   */
+  @Post(':id/extension-requests')
+  @ApiOperation({
+    summary: 'Request loan extension',
+    description:
+      "Ask the lender to extend an active loan for another term from the lender offer's term options. Accrued interest is settled from platform balance or capitalised once the lender accepts.",
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Loan ID to extend',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Extension request recorded and sent to the lender',
+    type: LoanExtensionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Term not offered, request already pending or loan not eligible',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not the borrower of this loan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Loan not found',
+    type: ErrorResponseDto,
+  })
+  async requestLoanExtension(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+    @Body(ValidationPipe) requestDto: LoanExtensionRequestDto,
+  ): Promise<LoanExtensionResponseDto> {
+    this.logger.log(`Requesting extension for loan: ${id}, borrower: ${session.user.id}`);
+    return await this.loanExtensionService.requestExtension(session.user.id, id, requestDto);
+  }
+
+  /**
+   * List loan extension requests
+   */
+  @Get(':id/extension-requests')
+  @ApiOperation({
+    summary: 'List loan extension requests',
+    description: 'Extension requests of a loan, newest first. Visible to the borrower and lender.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Loan ID',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Loan extension requests',
+    type: LoanExtensionListResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Loan not found',
+    type: ErrorResponseDto,
+  })
+  async listLoanExtensions(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+  ): Promise<LoanExtensionListResponseDto> {
+    return await this.loanExtensionService.listExtensions(session.user.id, id);
+  }
+
+  /**
+   * Accept loan extension
+   */
+  @Post(':id/extension-requests/:extensionId/accept')
+  @ApiOperation({
+    summary: 'Accept loan extension',
+    description:
+      'Lender accepts a pending extension request. The loan gets a new maturity and interest amount, and a loan amendment document is generated.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Loan ID',
+  })
+  @ApiParam({
+    name: 'extensionId',
+    type: String,
+    description: 'Extension request ID',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Extension applied to the loan',
+    type: LoanExtensionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Request no longer pending or expired, insufficient borrower balance or loan not eligible',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not the lender of this loan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Loan or extension request not found',
+    type: ErrorResponseDto,
+  })
+  async acceptLoanExtension(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+    @Param('extensionId') extensionId: string,
+  ): Promise<LoanExtensionResponseDto> {
+    this.logger.log(
+      `Accepting extension ${extensionId} for loan: ${id}, lender: ${session.user.id}`,
+    );
+    return await this.loanExtensionService.acceptExtension(session.user.id, id, extensionId);
+  }
+
+  /**
+   * Decline loan extension
+   */
+  @Post(':id/extension-requests/:extensionId/decline')
+  @ApiOperation({
+    summary: 'Decline loan extension',
+    description: 'Lender declines a pending extension request. The loan keeps its current terms.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Loan ID',
+  })
+  @ApiParam({
+    name: 'extensionId',
+    type: String,
+    description: 'Extension request ID',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Extension request declined',
+    type: LoanExtensionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Request no longer pending',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not the lender of this loan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Loan or extension request not found',
+    type: ErrorResponseDto,
+  })
+  async declineLoanExtension(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+    @Param('extensionId') extensionId: string,
+    @Body(ValidationPipe) declineDto: LoanExtensionDeclineDto,
+  ): Promise<LoanExtensionResponseDto> {
+    this.logger.log(
+      `Declining extension ${extensionId} for loan: ${id}, lender: ${session.user.id}`,
+    );
+    return await this.loanExtensionService.declineExtension(
+      session.user.id,
+      id,
+      extensionId,
+      declineDto,
+    );
+  }
+
+  /**
+   * List a loan position for sale
+   */
+  @Post(':id/position-listings')
+  @ApiOperation({
+    summary: 'List loan position for sale',
+    description:
+      'Lender offers the position in an active loan to other lenders at an asking price in the principal currency.',
+  })
+  @ApiParam({
+    name: 'id',
+    type: String,
+    description: 'Loan ID',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Position listed',
+    type: LoanPositionListingResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Position already listed or loan not eligible',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'User is not the lender of this loan',
+    type: ErrorResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Loan not found',
+    type: ErrorResponseDto,
+  })
+  async listLoanPosition(
+    @Session() session: UserSession,
+    @Param('id') id: string,
+    @Body(ValidationPipe) requestDto: LoanPositionListingRequestDto,
+  ): Promise<LoanPositionListingResponseDto> {
+    this.logger.log(`Listing position of loan: ${id}, lender: ${session.user.id}`);
+    return await this.loanPositionService.listPosition(session.user.id, id, requestDto);
+  }
+
   /**
    * Download loan agreement document
    */
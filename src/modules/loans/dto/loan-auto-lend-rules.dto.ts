@@ -0,0 +1,264 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+import { CurrencyDto, IsDecimalAmount } from './common.dto';
+
+export class AutoLendCollateralCurrencyDto {
+  @ApiProperty({
+    description: 'Blockchain key of an accepted collateral currency',
+    example: 'bip122:000000000019d6689c085ae165831e93',
+  })
+  @IsString()
+  blockchainKey: string;
+
+  @ApiProperty({
+    description: 'Token ID of an accepted collateral currency',
+    example: 'slip44:0',
+  })
+  @IsString()
+  tokenId: string;
+}
+
+export class CreateLoanAutoLendRuleDto {
+  @ApiProperty({
+    description: 'Blockchain key for principal currency',
+    example: 'eip155:56',
+    maxLength: 64,
+  })
+  @IsString()
+  principalBlockchainKey: string;
+
+  @ApiProperty({
+    description: 'Token ID for principal currency',
+    example: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+    maxLength: 64,
+  })
+  @IsString()
+  principalTokenId: string;
+
+  @ApiProperty({
+    description: 'Smallest loan the rule offers (18 decimal precision)',
+    example: '500.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsString()
+  @IsDecimalAmount()
+  minTicketAmount: string;
+
+  @ApiProperty({
+    description: 'Largest loan the rule offers (18 decimal precision)',
+    example: '5000.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsString()
+  @IsDecimalAmount()
+  maxTicketAmount: string;
+
+  @ApiProperty({
+    description:
+      'Interest rate floor as decimal, offers are created at this rate (e.g., 0.12 = 12%)',
+    example: 0.12,
+    minimum: 0.001,
+    maximum: 0.5,
+  })
+  @IsNumber()
+  @Min(0.001)
+  @Max(0.5)
+  minInterestRate: number;
+
+  @ApiProperty({
+    description: 'Allowed term options in months',
+    example: [3, 6],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  termOptions: number[];
+
+  @ApiProperty({
+    description: 'Collateral currencies the rule accepts',
+    type: [AutoLendCollateralCurrencyDto],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => AutoLendCollateralCurrencyDto)
+  collateralCurrencies: AutoLendCollateralCurrencyDto[];
+
+  @ApiProperty({
+    description:
+      'Cap on open offer principal plus outstanding loan principal funded by the rule (18 decimal precision)',
+    example: '50000.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsString()
+  @IsDecimalAmount()
+  maxExposureAmount: string;
+}
+
+export class UpdateLoanAutoLendRuleDto {
+  @ApiPropertyOptional({
+    description: 'Smallest loan the rule offers (18 decimal precision)',
+    example: '500.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsOptional()
+  @IsString()
+  @IsDecimalAmount()
+  minTicketAmount?: string;
+
+  @ApiPropertyOptional({
+    description: 'Largest loan the rule offers (18 decimal precision)',
+    example: '5000.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsOptional()
+  @IsString()
+  @IsDecimalAmount()
+  maxTicketAmount?: string;
+
+  @ApiPropertyOptional({
+    description: 'Interest rate floor as decimal (e.g., 0.12 = 12%)',
+    example: 0.12,
+    minimum: 0.001,
+    maximum: 0.5,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.001)
+  @Max(0.5)
+  minInterestRate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Allowed term options in months',
+    example: [3, 6],
+    type: [Number],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  termOptions?: number[];
+
+  @ApiPropertyOptional({
+    description: 'Collateral currencies the rule accepts, replaces the current list',
+    type: [AutoLendCollateralCurrencyDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => AutoLendCollateralCurrencyDto)
+  collateralCurrencies?: AutoLendCollateralCurrencyDto[];
+
+  @ApiPropertyOptional({
+    description: 'Cap on rule exposure (18 decimal precision)',
+    example: '50000.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsOptional()
+  @IsString()
+  @IsDecimalAmount()
+  maxExposureAmount?: string;
+
+  @ApiPropertyOptional({
+    description: 'Pause or resume the rule',
+    enum: ['Active', 'Paused'],
+    example: 'Paused',
+  })
+  @IsOptional()
+  @IsIn(['Active', 'Paused'])
+  status?: 'Active' | 'Paused';
+}
+
+export class LoanAutoLendRuleDto {
+  @ApiProperty({ description: 'Auto-lend rule identifier', example: '42' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: 'Principal currency', type: CurrencyDto })
+  @Type(() => CurrencyDto)
+  principalCurrency: CurrencyDto;
+
+  @ApiProperty({ description: 'Smallest loan the rule offers', example: '500' })
+  @IsString()
+  minTicketAmount: string;
+
+  @ApiProperty({ description: 'Largest loan the rule offers', example: '5000' })
+  @IsString()
+  maxTicketAmount: string;
+
+  @ApiProperty({ description: 'Interest rate floor as decimal', example: 0.12 })
+  @IsNumber()
+  minInterestRate: number;
+
+  @ApiProperty({ description: 'Allowed term options in months', example: [3, 6], type: [Number] })
+  termOptions: number[];
+
+  @ApiProperty({
+    description: 'Collateral currencies the rule accepts',
+    type: [AutoLendCollateralCurrencyDto],
+  })
+  collateralCurrencies: AutoLendCollateralCurrencyDto[];
+
+  @ApiProperty({ description: 'Cap on rule exposure', example: '50000' })
+  @IsString()
+  maxExposureAmount: string;
+
+  @ApiProperty({
+    description: 'Open offer principal plus outstanding loan principal funded by the rule',
+    example: '12500',
+  })
+  @IsString()
+  currentExposureAmount: string;
+
+  @ApiProperty({ description: 'Rule status', enum: ['Active', 'Paused', 'Deleted'] })
+  @IsString()
+  status: string;
+
+  @ApiProperty({ description: 'Creation date', example: '2025-09-11T10:30:00Z' })
+  createdDate: string;
+
+  @ApiProperty({ description: 'Last update date', example: '2025-09-12T08:00:00Z' })
+  updatedDate: string;
+
+  @ApiPropertyOptional({
+    description: 'When the rule last created an offer',
+    example: '2025-09-12T09:00:00Z',
+  })
+  lastReplenishedDate?: string;
+}
+
+export class LoanAutoLendRuleResponseDto {
+  @ApiProperty({ description: 'Request success status', example: true })
+  success: boolean;
+
+  @ApiProperty({ description: 'Auto-lend rule', type: LoanAutoLendRuleDto })
+  data: LoanAutoLendRuleDto;
+}
+
+export class LoanAutoLendRuleListResponseDto {
+  @ApiProperty({ description: 'Request success status', example: true })
+  success: boolean;
+
+  @ApiProperty({ description: 'Response data' })
+  data: {
+    rules: LoanAutoLendRuleDto[];
+  };
+}
@@ -1,9 +1,21 @@
 import { ApiProperty } from '@nestjs/swagger';
 
 import { Type } from 'class-transformer';
-import { IsArray, IsBoolean, IsDateString, IsEnum, IsNumber, IsString } from 'class-validator';
-
-import { CurrencyDto, IsDecimalAmount } from './common.dto';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+import { CurrencyDto, IsDecimalAmount, PaginationMetaDto } from './common.dto';
 
 export class EarlyLiquidationRequestDto {
   @ApiProperty({
@@ -21,6 +33,18 @@ export class EarlyRepaymentRequestDto {
   })
   @IsBoolean()
   acknowledgment: boolean;
+
+  @ApiProperty({
+    description:
+      'Principal amount to pay down. When less than the outstanding principal, the loan stays active with interest recomputed for the remaining term',
+    example: '500.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsDecimalAmount()
+  amount?: string;
 }
 
 export class CollateralValuationDto {
@@ -313,6 +337,16 @@ export class EarlyRepaymentRequestDataDto {
   @IsDateString()
   submittedDate: string;
 
+  @ApiProperty({
+    description: 'Whether the request pays off the loan or only part of the principal',
+    enum: ['Full', 'Partial'],
+    example: 'Full',
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(['Full', 'Partial'])
+  repaymentMode?: 'Full' | 'Partial';
+
   @ApiProperty({ type: RepaymentBreakdownDto })
   @Type(() => RepaymentBreakdownDto)
   repaymentBreakdown: RepaymentBreakdownDto;
@@ -360,3 +394,464 @@ export class EarlyRepaymentRequestResponseDto {
   @IsString()
   message: string;
 }
+
+export class CollateralTopUpRequestDto {
+  @ApiProperty({
+    description: 'Collateral amount to add to the loan',
+    example: '0.500000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsString()
+  @IsDecimalAmount()
+  amount: string;
+
+  @ApiProperty({
+    description: 'Part of the amount paid from the borrower platform balance',
+    example: '0.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @IsDecimalAmount()
+  prepaidAmount?: string;
+}
+
+export class CollateralTopUpDataDto {
+  @ApiProperty({
+    description: 'Associated loan identifier',
+    example: '12345',
+  })
+  @IsString()
+  loanId: string;
+
+  @ApiProperty({
+    description: 'Current top-up status',
+    enum: ['Pending', 'Applied'],
+    example: 'Pending',
+  })
+  @IsEnum(['Pending', 'Applied'])
+  status: 'Pending' | 'Applied';
+
+  @ApiProperty({
+    description: 'When the top-up was requested',
+    example: '2025-08-13T15:30:00Z',
+  })
+  @IsDateString()
+  submittedDate: string;
+
+  @ApiProperty({
+    description: 'Collateral amount to add',
+    example: '0.500000000000000000',
+  })
+  @IsString()
+  topUpAmount: string;
+
+  @ApiProperty({
+    description: 'LTV ratio of the loan after the top-up, set once applied',
+    example: 0.65,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  ltvRatio?: number;
+
+  @ApiProperty({
+    description: 'Collateral top-up invoice details',
+  })
+  topUpInvoice: {
+    id: string;
+    amount: string;
+    prepaidAmount: string;
+    currency: CurrencyDto;
+    walletAddress: string;
+    expiryDate: string;
+    paidDate?: string;
+  };
+}
+
+export class CollateralTopUpResponseDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  success: boolean;
+
+  @ApiProperty({ type: CollateralTopUpDataDto })
+  @Type(() => CollateralTopUpDataDto)
+  data: CollateralTopUpDataDto;
+
+  @ApiProperty({
+    description: 'Confirmation message',
+    example: 'Collateral top-up invoice created successfully',
+  })
+  @IsString()
+  message: string;
+}
+
+export class LoanExtensionRequestDto {
+  @ApiProperty({
+    description: "Extension term in months, one of the lender offer's term options",
+    example: 3,
+    minimum: 1,
+    maximum: 60,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  termInMonths: number;
+
+  @ApiProperty({
+    description:
+      'How interest accrued to the current maturity is handled: Settle pays it to the lender from the platform balance on acceptance, Capitalize adds it to the principal',
+    enum: ['Settle', 'Capitalize'],
+    example: 'Settle',
+  })
+  @IsEnum(['Settle', 'Capitalize'])
+  interestHandling: 'Settle' | 'Capitalize';
+}
+
+export class LoanExtensionDeclineDto {
+  @ApiProperty({
+    description: 'Reason shared with the borrower',
+    example: 'Funds are committed elsewhere after the current maturity',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class LoanExtensionDataDto {
+  @ApiProperty({
+    description: 'Extension request identifier',
+    example: '42',
+  })
+  @IsString()
+  id: string;
+
+  @ApiProperty({
+    description: 'Associated loan identifier',
+    example: '12345',
+  })
+  @IsString()
+  loanId: string;
+
+  @ApiProperty({
+    description: 'Extension request status',
+    enum: ['Pending', 'Accepted', 'Declined'],
+    example: 'Pending',
+  })
+  @IsEnum(['Pending', 'Accepted', 'Declined'])
+  status: 'Pending' | 'Accepted' | 'Declined';
+
+  @ApiProperty({
+    description: 'Extension term in months',
+    example: 3,
+  })
+  @IsNumber()
+  termInMonths: number;
+
+  @ApiProperty({
+    description: 'Annual interest rate percentage of the lender offer',
+    example: 12.5,
+  })
+  @IsNumber()
+  interestRate: number;
+
+  @ApiProperty({
+    description: 'How interest accrued to the current maturity is handled',
+    enum: ['Settle', 'Capitalize'],
+    example: 'Settle',
+  })
+  @IsEnum(['Settle', 'Capitalize'])
+  interestHandling: 'Settle' | 'Capitalize';
+
+  @ApiProperty({
+    description: 'When the extension was requested',
+    example: '2025-08-13T15:30:00Z',
+  })
+  @IsDateString()
+  requestedDate: string;
+
+  @ApiProperty({
+    description: 'Lender must respond before this date, the loan maturity at request time',
+    example: '2025-09-01T00:00:00Z',
+  })
+  @IsDateString()
+  expiryDate: string;
+
+  @ApiProperty({
+    description: 'When the lender accepted or declined',
+    example: '2025-08-14T09:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  respondedDate?: string;
+
+  @ApiProperty({
+    description: 'Reason given by the lender when declining',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  declineReason?: string;
+
+  @ApiProperty({
+    description: 'Maturity date after the extension, set once accepted',
+    example: '2025-12-01T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  maturityDate?: string;
+
+  @ApiProperty({
+    description: 'Principal after the extension, set once accepted',
+    example: '1050.000000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  principalAmount?: string;
+
+  @ApiProperty({
+    description: 'Accrued interest paid to the lender on acceptance',
+    example: '50.000000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  settledInterestAmount?: string;
+
+  @ApiProperty({
+    description: 'Accrued interest added to the principal on acceptance',
+    example: '0.000000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  capitalizedInterestAmount?: string;
+
+  @ApiProperty({
+    description: 'Interest charged for the extension term',
+    example: '31.250000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  interestAmount?: string;
+
+  @ApiProperty({
+    description: 'Loan amendment document request, track it with the loan documents endpoints',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  amendmentDocumentRequestId?: string;
+}
+
+export class LoanExtensionResponseDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  success: boolean;
+
+  @ApiProperty({ type: LoanExtensionDataDto })
+  @Type(() => LoanExtensionDataDto)
+  data: LoanExtensionDataDto;
+
+  @ApiProperty({
+    description: 'Confirmation message',
+    example: 'Loan extension requested successfully',
+  })
+  @IsString()
+  message: string;
+}
+
+export class LoanExtensionListResponseDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  success: boolean;
+
+  @ApiProperty({ type: [LoanExtensionDataDto] })
+  @IsArray()
+  @Type(() => LoanExtensionDataDto)
+  data: LoanExtensionDataDto[];
+}
+
+export class LoanPositionListingRequestDto {
+  @ApiProperty({
+    description: 'Asking price in the loan principal currency',
+    example: '1020.000000000000000000',
+    pattern: '^\\d+\\.\\d{18}$',
+  })
+  @IsString()
+  @IsDecimalAmount()
+  askingPrice: string;
+}
+
+export class LoanPositionListingDataDto {
+  @ApiProperty({
+    description: 'Position listing identifier',
+    example: '17',
+  })
+  @IsString()
+  id: string;
+
+  @ApiProperty({
+    description: 'Listed loan identifier',
+    example: '12345',
+  })
+  @IsString()
+  loanId: string;
+
+  @ApiProperty({
+    description: 'Listing status',
+    enum: ['Listed', 'Sold', 'Cancelled'],
+    example: 'Listed',
+  })
+  @IsEnum(['Listed', 'Sold', 'Cancelled'])
+  status: 'Listed' | 'Sold' | 'Cancelled';
+
+  @ApiProperty({
+    description: 'Asking price in the loan principal currency',
+    example: '1020.000000000000000000',
+  })
+  @IsString()
+  askingPrice: string;
+
+  @ApiProperty({
+    description: 'When the position was listed',
+    example: '2025-08-13T15:30:00Z',
+  })
+  @IsDateString()
+  listedDate: string;
+
+  @ApiProperty({
+    description: 'When the position was sold',
+    example: '2025-08-14T09:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  soldDate?: string;
+
+  @ApiProperty({
+    description: 'When the seller withdrew the listing',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  cancelledDate?: string;
+
+  @ApiProperty({
+    description: 'Transfer deed document request, track it with the loan documents endpoints',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  transferDocumentRequestId?: string;
+
+  @ApiProperty({
+    description: 'Loan principal currency',
+    type: CurrencyDto,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => CurrencyDto)
+  principalCurrency?: CurrencyDto;
+
+  @ApiProperty({
+    description: 'Outstanding loan principal',
+    example: '1000.000000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  principalAmount?: string;
+
+  @ApiProperty({
+    description: 'Interest due at maturity',
+    example: '50.000000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  interestAmount?: string;
+
+  @ApiProperty({
+    description: 'Amount the position holder receives when the loan is repaid',
+    example: '1049.500000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  redeliveryAmount?: string;
+
+  @ApiProperty({
+    description: 'Loan collateral currency',
+    type: CurrencyDto,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => CurrencyDto)
+  collateralCurrency?: CurrencyDto;
+
+  @ApiProperty({
+    description: 'Collateral securing the loan',
+    example: '2.000000000000000000',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  collateralAmount?: string;
+
+  @ApiProperty({
+    description: 'Latest LTV ratio of the loan',
+    example: 0.55,
+    required: false,
+  })
+  @IsOptional()
+  @IsNumber()
+  currentLtvRatio?: number;
+
+  @ApiProperty({
+    description: 'Loan maturity date',
+    example: '2025-12-01T00:00:00Z',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString()
+  maturityDate?: string;
+}
+
+export class LoanPositionListingResponseDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  success: boolean;
+
+  @ApiProperty({ type: LoanPositionListingDataDto })
+  @Type(() => LoanPositionListingDataDto)
+  data: LoanPositionListingDataDto;
+
+  @ApiProperty({
+    description: 'Confirmation message',
+    example: 'Loan position listed successfully',
+  })
+  @IsString()
+  message: string;
+}
+
+export class LoanPositionListingListResponseDto {
+  @ApiProperty({ example: true })
+  @IsBoolean()
+  success: boolean;
+
+  @ApiProperty({
+    description: 'Open position listings and pagination',
+  })
+  data: {
+    listings: LoanPositionListingDataDto[];
+    pagination: PaginationMetaDto;
+  };
+}
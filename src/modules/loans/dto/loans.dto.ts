@@ -1,7 +1,15 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 
 import { Type } from 'class-transformer';
-import { IsBoolean, IsDateString, IsEnum, IsNumber, IsOptional, IsString } from 'class-validator';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 
 import {
   CurrencyDto,
@@ -250,6 +258,38 @@ export class LoanListResponseDto {
   };
 }
 
+export class LoanValuationPriceBasisDto {
+  @ApiProperty({
+    description: 'Price the collateral currency is valued at',
+    enum: ['Mid', 'Bid', 'Twap'],
+    example: 'Twap',
+  })
+  @IsIn(['Mid', 'Bid', 'Twap'])
+  priceMode: 'Mid' | 'Bid' | 'Twap';
+
+  @ApiProperty({
+    description: 'Collateral price in principal currency used for the valuation',
+    example: '2300.000000000000',
+  })
+  @IsString()
+  valuationPrice: string;
+
+  @ApiPropertyOptional({
+    description: 'Start of the averaged window for Twap, the window ends at the exchange rate date',
+    example: '2025-09-11T15:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  priceWindowStartDate?: string;
+
+  @ApiProperty({
+    description: 'Number of exchange rates the valuation price was computed from',
+    example: 6,
+  })
+  @IsNumber()
+  priceSampleCount: number;
+}
+
 export class LoanValuationResponseDto {
   @ApiProperty({
     description: 'Valuation identifier',
@@ -287,6 +327,16 @@ export class LoanValuationResponseDto {
   @IsDecimalAmount()
   collateralValue: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Outstanding debt (principal + interest + premi) the LTV ratio was computed against',
+    example: '10030.000000000000000000',
+  })
+  @IsOptional()
+  @IsString()
+  @IsDecimalAmount()
+  debtValue?: string;
+
   @ApiProperty({
     description: 'Exchange rate used for valuation',
     example: '2300.000000000000000000',
@@ -294,6 +344,15 @@ export class LoanValuationResponseDto {
   @IsString()
   @IsDecimalAmount()
   exchangeRate: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Price basis of the valuation, absent for valuations recorded before price modes were introduced',
+    type: LoanValuationPriceBasisDto,
+  })
+  @IsOptional()
+  @Type(() => LoanValuationPriceBasisDto)
+  priceBasis?: LoanValuationPriceBasisDto;
 }
 
 export class LoanValuationListResponseDto {
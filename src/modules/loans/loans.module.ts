@@ -4,13 +4,20 @@ import { forwardRef, Module } from '@nestjs/common';
 import { SharedModule } from '../../shared/shared.module';
 import { DocumentModule } from '../documents/document.module';
 import { IndexerModule } from '../indexer/indexer.module';
+import { NotificationModule } from '../notifications/notification.module';
 import { LoanApplicationsController } from './controllers/loan-applications.controller';
+import { LoanAutoLendRulesController } from './controllers/loan-auto-lend-rules.controller';
 import { LoanOffersController } from './controllers/loan-offers.controller';
 import { LoansController } from './controllers/loans.controller';
 import { LoanApplicationsService } from './services/loan-applications.service';
+import { LoanAutoLendRulesService } from './services/loan-auto-lend-rules.service';
 import { LoanCalculationService } from './services/loan-calculation.service';
+import { LoanCollateralTopUpService } from './services/loan-collateral-top-up.service';
 import { LoanDocumentRequestService } from './services/loan-document-request.service';
+import { LoanExtensionService } from './services/loan-extension.service';
 import { LoanOffersService } from './services/loan-offers.service';
+import { LoanPartialRepaymentService } from './services/loan-partial-repayment.service';
+import { LoanPositionService } from './services/loan-position.service';
 import { LoansService } from './services/loans.service';
 
 @Module({
@@ -18,16 +25,27 @@ import { LoansService } from './services/loans.service';
     SharedModule,
     DocumentModule,
     forwardRef(() => IndexerModule),
+    NotificationModule,
     BullModule.registerQueue({
       name: 'documentQueue',
     }),
   ],
-  controllers: [LoanOffersController, LoanApplicationsController, LoansController],
+  controllers: [
+    LoanOffersController,
+    LoanApplicationsController,
+    LoansController,
+    LoanAutoLendRulesController,
+  ],
   providers: [
     LoanOffersService,
     LoanApplicationsService,
     LoansService,
     LoanCalculationService,
+    LoanCollateralTopUpService,
+    LoanPartialRepaymentService,
+    LoanExtensionService,
+    LoanPositionService,
+    LoanAutoLendRulesService,
     LoanDocumentRequestService,
   ],
   exports: [
@@ -35,6 +53,11 @@ import { LoansService } from './services/loans.service';
     LoanApplicationsService,
     LoansService,
     LoanCalculationService,
+    LoanCollateralTopUpService,
+    LoanPartialRepaymentService,
+    LoanExtensionService,
+    LoanPositionService,
+    LoanAutoLendRulesService,
     LoanDocumentRequestService,
   ],
 })
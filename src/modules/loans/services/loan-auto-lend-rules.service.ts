@@ -0,0 +1,241 @@
+import type { LoanAutoLendRule } from '../../../shared/repositories/loan.types';
+
+import { BadRequestException, Inject, Injectable, NotFoundException } from '@nestjs/common';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import {
+  AutoLendCollateralCurrencyDto,
+  CreateLoanAutoLendRuleDto,
+  LoanAutoLendRuleDto,
+  LoanAutoLendRuleListResponseDto,
+  LoanAutoLendRuleResponseDto,
+  UpdateLoanAutoLendRuleDto,
+} from '../dto/loan-auto-lend-rules.dto';
+import { CurrencyNotSupportedException } from '../exceptions/loan-exceptions';
+import { LoanCalculationService } from './loan-calculation.service';
+
+function mapAutoLendRuleError(error: unknown): never {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('not found')) {
+    throw new NotFoundException(message);
+  }
+  if (message.includes('Cannot update auto-lend rule')) {
+    throw new BadRequestException(message);
+  }
+  throw error;
+}
+
+@Injectable()
+export class LoanAutoLendRulesService {
+  private readonly logger = new TelemetryLogger(LoanAutoLendRulesService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly loanCalculationService: LoanCalculationService,
+  ) {}
+
+  /**
+   * Creates a standing rule. The auto-lend scheduler funds offers for it from the lender platform balance.
+   */
+  async createRule(
+    lenderUserId: string,
+    dto: CreateLoanAutoLendRuleDto,
+  ): Promise<LoanAutoLendRuleResponseDto> {
+    this.logger.log(`Creating auto-lend rule for lender: ${lenderUserId}`);
+
+    const { currencies } = await this.repository.userViewsCurrencies({
+      blockchainKey: dto.principalBlockchainKey,
+    });
+    const principalCurrency = currencies.find(
+      currency => currency.tokenId === dto.principalTokenId && currency.isLoanCurrency,
+    );
+    if (!principalCurrency) {
+      throw new CurrencyNotSupportedException(dto.principalBlockchainKey, dto.principalTokenId);
+    }
+
+    await this.assertCollateralCurrencies(dto.collateralCurrencies);
+
+    const toPrincipalSmallestUnit = (amount: string) =>
+      this.loanCalculationService.toSmallestUnit(amount, principalCurrency.decimals);
+
+    const minTicketAmount = toPrincipalSmallestUnit(dto.minTicketAmount);
+    const maxTicketAmount = toPrincipalSmallestUnit(dto.maxTicketAmount);
+    const maxExposureAmount = toPrincipalSmallestUnit(dto.maxExposureAmount);
+
+    this.assertAmounts(minTicketAmount, maxTicketAmount, maxExposureAmount);
+
+    const rule = await this.repository.lenderCreatesLoanAutoLendRule({
+      lenderUserId,
+      principalBlockchainKey: dto.principalBlockchainKey,
+      principalTokenId: dto.principalTokenId,
+      minTicketAmount,
+      maxTicketAmount,
+      minInterestRate: dto.minInterestRate,
+      termInMonthsOptions: [...new Set(dto.termOptions)].sort((a, b) => a - b),
+      collateralCurrencies: dto.collateralCurrencies,
+      maxExposureAmount,
+      createdDate: new Date(),
+    });
+
+    return {
+      success: true,
+      data: this.toRuleDto(rule),
+    };
+  }
+
+  async listRules(lenderUserId: string): Promise<LoanAutoLendRuleListResponseDto> {
+    const { rules } = await this.repository.lenderViewsLoanAutoLendRules({ lenderUserId });
+
+    return {
+      success: true,
+      data: {
+        rules: rules.map(rule => this.toRuleDto(rule)),
+      },
+    };
+  }
+
+  async getRule(lenderUserId: string, ruleId: string): Promise<LoanAutoLendRuleResponseDto> {
+    const rule = await this.repository
+      .lenderViewsLoanAutoLendRule({ ruleId, lenderUserId })
+      .catch(mapAutoLendRuleError);
+
+    return {
+      success: true,
+      data: this.toRuleDto(rule),
+    };
+  }
+
+  async updateRule(
+    lenderUserId: string,
+    ruleId: string,
+    dto: UpdateLoanAutoLendRuleDto,
+  ): Promise<LoanAutoLendRuleResponseDto> {
+    this.logger.log(`Updating auto-lend rule ${ruleId} for lender: ${lenderUserId}`);
+
+    const currentRule = await this.repository
+      .lenderViewsLoanAutoLendRule({ ruleId, lenderUserId })
+      .catch(mapAutoLendRuleError);
+
+    if (dto.collateralCurrencies) {
+      await this.assertCollateralCurrencies(dto.collateralCurrencies);
+    }
+
+    const toPrincipalSmallestUnit = (amount: string | undefined) =>
+      amount === undefined
+        ? undefined
+        : this.loanCalculationService.toSmallestUnit(
+            amount,
+            currentRule.principalCurrency.decimals,
+          );
+
+    const minTicketAmount = toPrincipalSmallestUnit(dto.minTicketAmount);
+    const maxTicketAmount = toPrincipalSmallestUnit(dto.maxTicketAmount);
+    const maxExposureAmount = toPrincipalSmallestUnit(dto.maxExposureAmount);
+
+    // Validate the rule as it will be stored, unchanged fields keep their current values
+    this.assertAmounts(
+      minTicketAmount ?? currentRule.minTicketAmount,
+      maxTicketAmount ?? currentRule.maxTicketAmount,
+      maxExposureAmount ?? currentRule.maxExposureAmount,
+    );
+
+    const rule = await this.repository
+      .lenderUpdatesLoanAutoLendRule({
+        ruleId,
+        lenderUserId,
+        minTicketAmount,
+        maxTicketAmount,
+        minInterestRate: dto.minInterestRate,
+        termInMonthsOptions: dto.termOptions
+          ? [...new Set(dto.termOptions)].sort((a, b) => a - b)
+          : undefined,
+        collateralCurrencies: dto.collateralCurrencies,
+        maxExposureAmount,
+        status: dto.status,
+        updatedDate: new Date(),
+      })
+      .catch(mapAutoLendRuleError);
+
+    return {
+      success: true,
+      data: this.toRuleDto(rule),
+    };
+  }
+
+  async deleteRule(lenderUserId: string, ruleId: string): Promise<LoanAutoLendRuleResponseDto> {
+    this.logger.log(`Deleting auto-lend rule ${ruleId} for lender: ${lenderUserId}`);
+
+    const rule = await this.repository
+      .lenderDeletesLoanAutoLendRule({ ruleId, lenderUserId, deletedDate: new Date() })
+      .catch(mapAutoLendRuleError);
+
+    return {
+      success: true,
+      data: this.toRuleDto(rule),
+    };
+  }
+
+  private async assertCollateralCurrencies(collateralCurrencies: AutoLendCollateralCurrencyDto[]) {
+    const { currencies } = await this.repository.userViewsCurrencies({ type: 'collateral' });
+
+    for (const collateralCurrency of collateralCurrencies) {
+      const isSupported = currencies.some(
+        currency =>
+          currency.blockchainKey === collateralCurrency.blockchainKey &&
+          currency.tokenId === collateralCurrency.tokenId,
+      );
+      if (!isSupported) {
+        throw new CurrencyNotSupportedException(
+          collateralCurrency.blockchainKey,
+          collateralCurrency.tokenId,
+        );
+      }
+    }
+  }
+
+  private assertAmounts(
+    minTicketAmount: string,
+    maxTicketAmount: string,
+    maxExposureAmount: string,
+  ) {
+    if (BigInt(minTicketAmount) <= 0n) {
+      throw new BadRequestException('Minimum ticket amount must be positive');
+    }
+    if (BigInt(minTicketAmount) > BigInt(maxTicketAmount)) {
+      throw new BadRequestException('Minimum ticket amount cannot exceed maximum ticket amount');
+    }
+    if (BigInt(maxTicketAmount) > BigInt(maxExposureAmount)) {
+      throw new BadRequestException('Maximum ticket amount cannot exceed maximum exposure');
+    }
+  }
+
+  private toRuleDto(rule: LoanAutoLendRule): LoanAutoLendRuleDto {
+    const toPrincipalUnit = (amount: string) =>
+      this.loanCalculationService.fromSmallestUnit(amount, rule.principalCurrency.decimals);
+
+    return {
+      id: rule.id,
+      principalCurrency: {
+        blockchainKey: rule.principalCurrency.blockchainKey,
+        tokenId: rule.principalCurrency.tokenId,
+        name: rule.principalCurrency.name,
+        symbol: rule.principalCurrency.symbol,
+        decimals: rule.principalCurrency.decimals,
+        logoUrl: `https://assets.cryptogadai.com/currencies/${rule.principalCurrency.symbol.toLowerCase()}.png`,
+      },
+      minTicketAmount: toPrincipalUnit(rule.minTicketAmount),
+      maxTicketAmount: toPrincipalUnit(rule.maxTicketAmount),
+      minInterestRate: rule.minInterestRate,
+      termOptions: rule.termInMonthsOptions,
+      collateralCurrencies: rule.collateralCurrencies,
+      maxExposureAmount: toPrincipalUnit(rule.maxExposureAmount),
+      currentExposureAmount: toPrincipalUnit(rule.currentExposureAmount),
+      status: rule.status,
+      createdDate: rule.createdDate.toISOString(),
+      updatedDate: rule.updatedDate.toISOString(),
+      lastReplenishedDate: rule.lastReplenishedDate?.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,257 @@
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { BigNumber } from 'bignumber.js';
+
+import { fromFixedPoint } from '../../../shared/utils/decimal';
+import { forAllCases } from '../../../shared/utils/property-test';
+import { LoanCalculationService } from './loan-calculation.service';
+
+// Reference implementation: arbitrary precision decimals, rounded once at the end
+const ReferenceNumber = BigNumber.clone({ DECIMAL_PLACES: 100 });
+
+function reference(value: string | number | bigint) {
+  return new ReferenceNumber(value.toString());
+}
+
+function floor(value: BigNumber): string {
+  return value.integerValue(BigNumber.ROUND_FLOOR).toFixed(0);
+}
+
+function ratio(numerator: BigNumber, denominator: BigNumber, roundingMode: BigNumber.RoundingMode) {
+  return numerator.dividedBy(denominator).decimalPlaces(18, roundingMode).toNumber();
+}
+
+const sourceDate = new Date('2024-01-10T10:00:00.000Z');
+
+describe('LoanCalculationService', () => {
+  const service = new LoanCalculationService();
+
+  describe('calculateLoanValuation', () => {
+    it('should value large 18-decimal positions exactly', () => {
+      const valuation = service.calculateLoanValuation({
+        principalAmount: '90000000000000000000000000',
+        interestAmount: '1234567890123456789',
+        premiAmount: '987654321987654321',
+        principalDecimals: 18,
+        collateralAmount: '123456789123456789123456789',
+        collateralDecimals: 18,
+        exchangeRate: {
+          id: '1',
+          bidPrice: '3000.123456789012',
+          askPrice: '3000.123456789014',
+          sourceDate,
+        },
+      });
+
+      strictEqual(valuation.collateralValuationAmount, '370385608949137404408394404038');
+      strictEqual(valuation.totalDebtAmount, '90000002222222212111111110');
+    });
+
+    it('should match the reference for any amounts and prices', () => {
+      forAllCases(500, 53, random => {
+        const collateralDecimals = random.pick([6, 8, 9, 18]);
+        const principalDecimals = random.pick([6, 18]);
+        const collateralAmount = (random.bigInt(30) + 1n).toString();
+        const principalAmount = random.bigInt(30).toString();
+        const interestAmount = random.bigInt(20).toString();
+        const premiAmount = random.bigInt(20).toString();
+        const bidPrice = fromFixedPoint(random.bigInt(20) + 10n ** 12n, 12);
+        const askPrice = fromFixedPoint(random.bigInt(20) + 10n ** 12n, 12);
+
+        const expectedValuation = reference(collateralAmount)
+          .shiftedBy(-collateralDecimals)
+          .multipliedBy(reference(bidPrice).plus(askPrice).dividedBy(2))
+          .shiftedBy(principalDecimals);
+        const expectedDebt = reference(principalAmount).plus(interestAmount).plus(premiAmount);
+
+        if (expectedValuation.isLessThan(1)) return; // rejected as worthless collateral
+
+        const valuation = service.calculateLoanValuation({
+          principalAmount,
+          interestAmount,
+          premiAmount,
+          principalDecimals,
+          collateralAmount,
+          collateralDecimals,
+          exchangeRate: { id: '1', bidPrice, askPrice, sourceDate },
+        });
+
+        strictEqual(valuation.collateralValuationAmount, floor(expectedValuation));
+        strictEqual(valuation.totalDebtAmount, expectedDebt.toFixed(0));
+        strictEqual(
+          valuation.ltvRatio,
+          ratio(expectedDebt, reference(floor(expectedValuation)), BigNumber.ROUND_CEIL),
+        );
+      });
+    });
+  });
+
+  describe('calculateLoanOriginationParams', () => {
+    it('should round every fee down and sum repayment from the rounded parts', () => {
+      const params = service.calculateLoanOriginationParams({
+        principalAmount: '1000000001',
+        interestRate: 0.05,
+        termInMonths: 6,
+        collateralAmount: '500000000000000000',
+        matchedLtvRatio: 0.5,
+        matchedCollateralValuationAmount: '2000000000',
+        provisionRate: 0.03,
+      });
+
+      deepStrictEqual(
+        {
+          interestAmount: params.interestAmount,
+          premiAmount: params.premiAmount,
+          liquidationFeeAmount: params.liquidationFeeAmount,
+          repaymentAmount: params.repaymentAmount,
+          redeliveryFeeAmount: params.redeliveryFeeAmount,
+          redeliveryAmount: params.redeliveryAmount,
+          minCollateralValuation: params.minCollateralValuation,
+        },
+        {
+          interestAmount: '50000000',
+          premiAmount: '30000000',
+          liquidationFeeAmount: '20000000',
+          repaymentAmount: '1080000001',
+          redeliveryFeeAmount: '500000',
+          redeliveryAmount: '1079500001',
+          minCollateralValuation: '1100000001',
+        },
+      );
+    });
+
+    it('should match the reference for any principal and rates', () => {
+      forAllCases(500, 530, random => {
+        const principalAmount = (random.bigInt(35) + 1n).toString();
+        const interestRate = random.integer(0, 10000) / 10000;
+        const provisionRate = random.integer(0, 1000) / 10000;
+
+        const params = service.calculateLoanOriginationParams({
+          principalAmount,
+          interestRate,
+          termInMonths: 6,
+          collateralAmount: '1',
+          matchedLtvRatio: 0.5,
+          matchedCollateralValuationAmount: '1',
+          provisionRate,
+        });
+
+        const principal = reference(principalAmount);
+        const interest = floor(principal.multipliedBy(interestRate));
+        const premi = floor(principal.multipliedBy(provisionRate));
+        const liquidationFee = floor(principal.multipliedBy('0.02'));
+        const repayment = principal.plus(interest).plus(premi);
+        const minCollateralValuation = repayment.plus(liquidationFee);
+
+        strictEqual(params.interestAmount, interest);
+        strictEqual(params.premiAmount, premi);
+        strictEqual(params.liquidationFeeAmount, liquidationFee);
+        strictEqual(params.repaymentAmount, repayment.toFixed(0));
+        strictEqual(
+          params.redeliveryAmount,
+          repayment.minus(floor(reference(interest).multipliedBy('0.01'))).toFixed(0),
+        );
+        strictEqual(params.minCollateralValuation, minCollateralValuation.toFixed(0));
+        strictEqual(
+          params.mcLtvRatio,
+          ratio(principal, minCollateralValuation, BigNumber.ROUND_FLOOR),
+        );
+      });
+    });
+  });
+
+  describe('calculateEarlyLiquidationEstimate', () => {
+    it('should match the reference for any amounts and prices', () => {
+      forAllCases(500, 5300, random => {
+        const principalAmount = (random.bigInt(25) + 1n).toString();
+        const interestAmount = random.bigInt(20).toString();
+        const premiAmount = random.bigInt(20).toString();
+        const liquidationFeeAmount = random.bigInt(20).toString();
+        const collateralAmount = (random.bigInt(25) + 1n).toString();
+        const bidPrice = (random.bigInt(20) + 1n).toString();
+
+        const estimate = service.calculateEarlyLiquidationEstimate({
+          principalAmount,
+          interestAmount,
+          premiAmount,
+          liquidationFeeAmount,
+          collateralAmount,
+          exchangeRate: { id: '1', bidPrice, askPrice: bidPrice, sourceDate },
+          estimateDate: sourceDate,
+        });
+
+        const totalOutstanding = reference(principalAmount)
+          .plus(interestAmount)
+          .plus(premiAmount)
+          .plus(liquidationFeeAmount);
+        const valuation = reference(collateralAmount).multipliedBy(bidPrice);
+        const slippage = valuation.multipliedBy('0.02').integerValue(BigNumber.ROUND_CEIL);
+        const liquidation = valuation.minus(slippage);
+
+        strictEqual(estimate.totalOutstandingAmount, totalOutstanding.toFixed(0));
+        strictEqual(estimate.currentValuationAmount, valuation.toFixed(0));
+        strictEqual(
+          estimate.currentLtvRatio,
+          ratio(reference(principalAmount), valuation, BigNumber.ROUND_CEIL),
+        );
+        strictEqual(estimate.estimatedLiquidationAmount, liquidation.toFixed(0));
+        strictEqual(
+          estimate.estimatedSurplusDeficit,
+          liquidation.minus(totalOutstanding).toFixed(0),
+        );
+      });
+    });
+  });
+
+  describe('calculateLiquidationTargetAmount', () => {
+    it('should sum amounts of any size without losing digits', () => {
+      forAllCases(200, 503, random => {
+        const repaymentAmount = random.bigInt(70);
+        const premiAmount = random.bigInt(70);
+        const liquidationFeeAmount = random.bigInt(70);
+
+        strictEqual(
+          service.calculateLiquidationTargetAmount(
+            repaymentAmount.toString(),
+            premiAmount.toString(),
+            liquidationFeeAmount.toString(),
+          ),
+          (repaymentAmount + premiAmount + liquidationFeeAmount).toString(),
+        );
+      });
+    });
+  });
+
+  describe('calculateLoanRequirements', () => {
+    it('should require collateral rounded up to the smallest collateral unit', () => {
+      const requirements = service.calculateLoanRequirements({
+        principalAmount: '1000000000',
+        principalCurrency: {
+          blockchainKey: 'eip155:56',
+          tokenId: 'iso4217:usd',
+          decimals: 6,
+          symbol: 'USD',
+          name: 'US Dollar',
+        },
+        collateralCurrency: {
+          blockchainKey: 'bip122:000000000019d6689c085ae165831e93',
+          tokenId: 'slip44:0',
+          decimals: 8,
+          symbol: 'BTC',
+          name: 'Bitcoin',
+        },
+        platformConfig: { loanProvisionRate: 0.03, loanMinLtvRatio: 0.6, loanMaxLtvRatio: 0.7 },
+        // 30000 USD per BTC in quote smallest units
+        exchangeRate: { id: '1', bidPrice: '30000000000000000000000', askPrice: '0', sourceDate },
+        termInMonths: 6,
+        calculationDate: sourceDate,
+      });
+
+      // 1000 / (0.6 * 30000) = 0.0555555555... BTC
+      strictEqual(requirements.requiredCollateralAmount, '5555556');
+      strictEqual(requirements.provisionAmount, '30000000');
+      strictEqual(requirements.exchangeRate.rate, '30000');
+    });
+  });
+});
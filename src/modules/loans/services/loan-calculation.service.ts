@@ -2,6 +2,26 @@ import { Injectable } from '@nestjs/common';
 
 import { BigNumber } from 'bignumber.js';
 
+import { EXCHANGE_RATE_DECIMALS } from '../../../shared/repositories/pricefeed.repository';
+import {
+  applyRate,
+  mulDiv,
+  pow10,
+  RATIO_DECIMALS,
+  ratioToNumber,
+  toFixedPoint,
+} from '../../../shared/utils/decimal';
+
+// Exchange rates used for loan requirements are in quote smallest units, assuming 18 decimals
+const QUOTE_CURRENCY_DECIMALS = 18;
+
+/**
+ * Amounts are integers in smallest units
+ */
+function toAmount(amount: string | number): bigint {
+  return toFixedPoint(amount, 0, 'floor');
+}
+
 export interface Currency {
   blockchainKey: string;
   tokenId: string;
@@ -104,15 +124,91 @@ export interface EarlyRepaymentCalculationResult {
   earlyRepaymentDate: Date;
 }
 
+export interface LoanValuationCalculationParams {
+  principalAmount: string;
+  interestAmount: string;
+  premiAmount: string;
+  principalDecimals: number;
+  collateralAmount: string;
+  collateralDecimals: number;
+  exchangeRate: ExchangeRate; // prices in human-readable units
+}
+
+export interface LoanValuationCalculationResult {
+  collateralValuationAmount: string;
+  totalDebtAmount: string;
+  ltvRatio: number;
+}
+
+export interface PartialRepaymentCalculationParams {
+  principalAmount: string;
+  interestAmount: string;
+  premiAmount: string;
+  repaymentAmount: string;
+  redeliveryFeeAmount: string;
+  liquidationFeeAmount: string;
+  repaidPrincipalAmount: string;
+  originationDate: Date;
+  maturityDate: Date;
+  repaymentDate: Date;
+}
+
+export interface PartialRepaymentCalculationResult {
+  principalAmount: string;
+  interestAmount: string;
+  interestReductionAmount: string;
+  repaymentAmount: string;
+  redeliveryFeeAmount: string;
+  redeliveryAmount: string;
+  minCollateralValuation: string;
+  mcLtvRatio: number;
+  remainingTermDays: number;
+}
+
+export interface CollateralReleaseCalculationParams {
+  collateralAmount: string;
+  collateralDecimals: number;
+  previousPrincipalAmount: string;
+  repaidPrincipalAmount: string;
+  totalDebtAmount: string; // debt after the repayment
+  principalDecimals: number;
+  maxLtvRatio: number; // 0-1 decimal
+  exchangeRate: ExchangeRate; // prices in human-readable units
+}
+
+export interface LoanExtensionCalculationParams {
+  principalAmount: string;
+  interestAmount: string;
+  premiAmount: string;
+  redeliveryFeeAmount: string;
+  liquidationFeeAmount: string;
+  interestRate: number; // 0-1 decimal per annum
+  termInMonths: number;
+  interestHandling: 'Settle' | 'Capitalize';
+  maturityDate: Date;
+}
+
+export interface LoanExtensionCalculationResult {
+  principalAmount: string;
+  interestAmount: string;
+  settledInterestAmount: string;
+  settledRedeliveryFeeAmount: string;
+  capitalizedInterestAmount: string;
+  repaymentAmount: string;
+  redeliveryFeeAmount: string;
+  redeliveryAmount: string;
+  minCollateralValuation: string;
+  mcLtvRatio: number;
+  maturityDate: Date;
+}
+
 @Injectable()
 export class LoanCalculationService {
   /**
    * Converts an amount from human-readable units to smallest units (like wei, satoshi, lamports)
    */
   public toSmallestUnit(amount: string, decimals: number): string {
-    const bn = new BigNumber(amount);
-    const multiplier = new BigNumber(10).pow(decimals);
-    return bn.multipliedBy(multiplier).integerValue(BigNumber.ROUND_DOWN).toFixed(0);
+    return toFixedPoint(amount, decimals, 'floor').toString();
   }
 
   /**
@@ -125,19 +221,25 @@ export class LoanCalculationService {
   }
 
   /**
-   * Converts percentage to decimal (e.g., 75 -> 0.75)
-   * Used for interest rates which are stored as 0-100 in the database
+   * Collateral needed to borrow the principal at the min LTV ratio, in collateral smallest units.
+   * Rounded up so the deposit always covers the principal at that ratio.
    */
-  private percentageToDecimal(percentage: string | number): BigNumber {
-    return new BigNumber(percentage).dividedBy(100);
-  }
-
-  /**
-   * Converts a rate/ratio that's already in decimal format (0-1) to BigNumber
-   * Used for platform config rates/ratios which are stored as 0-1 in the database
-   */
-  private decimalToBigNumber(decimal: string | number): BigNumber {
-    return new BigNumber(decimal);
+  private calculateRequiredCollateralAmount(
+    principalAmount: string,
+    principalCurrency: Currency,
+    collateralCurrency: Currency,
+    minLtvRatio: string | number,
+    exchangeRate: ExchangeRate,
+  ): bigint {
+    // collateral = principal / (minLtvRatio * bidPrice), each converted from its own precision
+    return mulDiv(
+      toAmount(principalAmount) * pow10(collateralCurrency.decimals),
+      pow10(RATIO_DECIMALS + EXCHANGE_RATE_DECIMALS + QUOTE_CURRENCY_DECIMALS),
+      pow10(principalCurrency.decimals) *
+        toFixedPoint(minLtvRatio, RATIO_DECIMALS, 'halfUp') *
+        toFixedPoint(exchangeRate.bidPrice, EXCHANGE_RATE_DECIMALS, 'halfUp'),
+      'ceil',
+    );
   }
 
   /**
@@ -157,38 +259,20 @@ export class LoanCalculationService {
       calculationDate,
     } = params;
 
-    // principalAmount is already in smallest units
-    const principalAmountBN = new BigNumber(principalAmount);
-    // Platform config rates/ratios are already in 0-1 decimal format
-    const provisionRateBN = this.decimalToBigNumber(platformConfig.loanProvisionRate);
-    const minLtvRatioBN = this.decimalToBigNumber(platformConfig.loanMinLtvRatio);
-    const maxLtvRatioBN = this.decimalToBigNumber(platformConfig.loanMaxLtvRatio);
-
-    // Exchange rate is stored in smallest units (e.g., 1000000000000000000 for 1.0 USD)
-    // We need to convert it to decimal form by dividing by 10^decimals
-    // Assuming the quote currency (USD) has 18 decimals
-    const QUOTE_CURRENCY_DECIMALS = 18;
-    const exchangeRateBN = new BigNumber(exchangeRate.bidPrice).dividedBy(
-      new BigNumber(10).pow(QUOTE_CURRENCY_DECIMALS),
-    );
+    // Provision is a fee, rounded down
+    const provisionAmount = applyRate(
+      toAmount(principalAmount),
+      platformConfig.loanProvisionRate,
+      'floor',
+    ).toString();
 
-    // Calculate provision amount (keep in smallest units)
-    const provisionAmountBN = principalAmountBN.multipliedBy(provisionRateBN);
-    const provisionAmount = provisionAmountBN.integerValue(BigNumber.ROUND_DOWN).toString();
-
-    // Convert principal amount to human units for exchange rate calculation
-    const principalAmountHuman = this.fromSmallestUnit(principalAmount, principalCurrency.decimals);
-    const principalAmountHumanBN = new BigNumber(principalAmountHuman);
-
-    // Calculate required collateral amount using minimum LTV ratio (more conservative)
-    // Formula: collateralAmount = principalAmount / (minLtvRatio * exchangeRate)
-    const requiredCollateralAmountHumanBN = principalAmountHumanBN
-      .dividedBy(minLtvRatioBN.multipliedBy(exchangeRateBN))
-      .integerValue(BigNumber.ROUND_UP);
-    const requiredCollateralAmount = this.toSmallestUnit(
-      requiredCollateralAmountHumanBN.toString(),
-      collateralCurrency.decimals,
-    );
+    const requiredCollateralAmount = this.calculateRequiredCollateralAmount(
+      principalAmount,
+      principalCurrency,
+      collateralCurrency,
+      platformConfig.loanMinLtvRatio,
+      exchangeRate,
+    ).toString();
 
     // Calculate expiration date (default to 30 days from calculation)
     const expirationDate = new Date(calculationDate.getTime() + 30 * 24 * 60 * 60 * 1000);
@@ -198,13 +282,13 @@ export class LoanCalculationService {
       principalCurrency,
       collateralCurrency,
       requiredCollateralAmount,
-      minLtvRatio: minLtvRatioBN.toNumber(),
-      maxLtvRatio: maxLtvRatioBN.toNumber(),
+      minLtvRatio: Number(platformConfig.loanMinLtvRatio),
+      maxLtvRatio: Number(platformConfig.loanMaxLtvRatio),
       provisionAmount,
-      provisionRate: new BigNumber(platformConfig.loanProvisionRate).toNumber(),
+      provisionRate: Number(platformConfig.loanProvisionRate),
       exchangeRate: {
         id: String(exchangeRate.id),
-        rate: exchangeRateBN.toString(),
+        rate: new BigNumber(exchangeRate.bidPrice).shiftedBy(-QUOTE_CURRENCY_DECIMALS).toString(),
         timestamp: exchangeRate.sourceDate,
       },
       termInMonths,
@@ -222,48 +306,32 @@ export class LoanCalculationService {
     const { principalAmount, principalCurrency, collateralCurrency, platformConfig, exchangeRate } =
       params;
 
-    // principalAmount is already in smallest units
-    const principalAmountBN = new BigNumber(principalAmount);
-    // Platform config rates/ratios are already in 0-1 decimal format
-    const provisionRateBN = this.decimalToBigNumber(platformConfig.loanProvisionRate);
-    const minLtvRatioBN = this.decimalToBigNumber(platformConfig.loanMinLtvRatio);
-    const maxLtvRatioBN = this.decimalToBigNumber(platformConfig.loanMaxLtvRatio);
-
-    // Exchange rate is stored in smallest units (e.g., 1000000000000000000 for 1.0 USD)
-    // We need to convert it to decimal form by dividing by 10^decimals
-    // Assuming the quote currency (USD) has 18 decimals
-    const QUOTE_CURRENCY_DECIMALS = 18;
-    const exchangeRateBN = new BigNumber(exchangeRate.bidPrice).dividedBy(
-      new BigNumber(10).pow(QUOTE_CURRENCY_DECIMALS),
-    );
+    // Provision is a fee, rounded down
+    const provisionAmount = applyRate(
+      toAmount(principalAmount),
+      platformConfig.loanProvisionRate,
+      'floor',
+    ).toString();
 
-    // Calculate provision amount (keep in smallest units)
-    const provisionAmountBN = principalAmountBN.multipliedBy(provisionRateBN);
-    const provisionAmount = provisionAmountBN.integerValue(BigNumber.ROUND_DOWN).toString();
-
-    // Convert principal amount to human units for exchange rate calculation
-    const principalAmountHuman = this.fromSmallestUnit(principalAmount, principalCurrency.decimals);
-    const principalAmountHumanBN = new BigNumber(principalAmountHuman);
-
-    // Calculate collateral deposit amount using minimum LTV ratio
-    const collateralDepositAmountHumanBN = principalAmountHumanBN
-      .dividedBy(minLtvRatioBN.multipliedBy(exchangeRateBN))
-      .integerValue(BigNumber.ROUND_UP);
-    const collateralDepositAmount = this.toSmallestUnit(
-      collateralDepositAmountHumanBN.toString(),
-      collateralCurrency.decimals,
-    );
+    const collateralDepositAmount = this.calculateRequiredCollateralAmount(
+      principalAmount,
+      principalCurrency,
+      collateralCurrency,
+      platformConfig.loanMinLtvRatio,
+      exchangeRate,
+    ).toString();
 
     return {
       provisionAmount,
-      minLtvRatio: minLtvRatioBN.toNumber(),
-      maxLtvRatio: maxLtvRatioBN.toNumber(),
+      minLtvRatio: Number(platformConfig.loanMinLtvRatio),
+      maxLtvRatio: Number(platformConfig.loanMaxLtvRatio),
       collateralDepositAmount,
     };
   }
 
   /**
    * Estimate early liquidation breakdown and surplus/deficit
+   * Valuation and proceeds are rounded down and the LTV ratio up, so the estimate never flatters the borrower
    */
   calculateEarlyLiquidationEstimate(
     params: EarlyLiquidationEstimateParams,
@@ -277,49 +345,33 @@ export class LoanCalculationService {
       exchangeRate,
     } = params;
 
-    // Convert to BigNumber for precise calculations
-    const principalAmountBN = new BigNumber(principalAmount);
-    const interestAmountBN = new BigNumber(interestAmount);
-    const premiAmountBN = new BigNumber(premiAmount);
-    const liquidationFeeAmountBN = new BigNumber(liquidationFeeAmount);
-    const collateralAmountBN = new BigNumber(collateralAmount);
-    const exchangeRateBN = new BigNumber(exchangeRate.bidPrice);
-
-    // Calculate total outstanding amount
-    const totalOutstandingAmountBN = principalAmountBN
-      .plus(interestAmountBN)
-      .plus(premiAmountBN)
-      .plus(liquidationFeeAmountBN);
+    const principal = toAmount(principalAmount);
+    const totalOutstandingAmount =
+      principal + toAmount(interestAmount) + toAmount(premiAmount) + toAmount(liquidationFeeAmount);
 
-    // Calculate current valuation
-    const currentValuationAmountBN = collateralAmountBN.multipliedBy(exchangeRateBN);
+    const currentValuationAmount = mulDiv(
+      toAmount(collateralAmount),
+      toFixedPoint(exchangeRate.bidPrice, EXCHANGE_RATE_DECIMALS, 'halfUp'),
+      pow10(EXCHANGE_RATE_DECIMALS),
+      'floor',
+    );
+    if (currentValuationAmount <= 0n) {
+      throw new Error('Collateral valuation must be positive');
+    }
 
-    // Calculate current LTV ratio
-    const currentLtvRatio = principalAmountBN.dividedBy(currentValuationAmountBN).toNumber();
+    const currentLtvRatio = ratioToNumber(principal, currentValuationAmount, 'ceil');
 
     // Apply estimated market slippage (2%)
     const estimatedSlippage = 0.02;
-    const estimatedLiquidationAmountBN = currentValuationAmountBN.multipliedBy(
-      new BigNumber(1).minus(estimatedSlippage),
-    );
-
-    // Calculate surplus or deficit
-    const estimatedSurplusDeficitBN = estimatedLiquidationAmountBN.minus(totalOutstandingAmountBN);
+    const estimatedLiquidationAmount =
+      currentValuationAmount - applyRate(currentValuationAmount, estimatedSlippage, 'ceil');
 
     return {
-      totalOutstandingAmount: totalOutstandingAmountBN
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toString(),
-      currentValuationAmount: currentValuationAmountBN
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toString(),
+      totalOutstandingAmount: totalOutstandingAmount.toString(),
+      currentValuationAmount: currentValuationAmount.toString(),
       currentLtvRatio,
-      estimatedLiquidationAmount: estimatedLiquidationAmountBN
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toString(),
-      estimatedSurplusDeficit: estimatedSurplusDeficitBN
-        .integerValue(BigNumber.ROUND_DOWN)
-        .toString(),
+      estimatedLiquidationAmount: estimatedLiquidationAmount.toString(),
+      estimatedSurplusDeficit: (estimatedLiquidationAmount - totalOutstandingAmount).toString(),
       estimatedSlippage,
     };
   }
@@ -361,16 +413,203 @@ export class LoanCalculationService {
     premiAmount: string,
     liquidationFeeAmount: string,
   ): string {
-    const repaymentAmountBN = new BigNumber(repaymentAmount);
-    const premiAmountBN = new BigNumber(premiAmount);
-    const liquidationFeeAmountBN = new BigNumber(liquidationFeeAmount);
+    return (
+      toAmount(repaymentAmount) +
+      toAmount(premiAmount) +
+      toAmount(liquidationFeeAmount)
+    ).toString();
+  }
+
+  /**
+   * Calculate collateral valuation and LTV ratio at the mid price of the exchange rate
+   * Debt is principal + interest + premi, the same basis as the valuation worker
+   */
+  calculateLoanValuation(params: LoanValuationCalculationParams): LoanValuationCalculationResult {
+    const bidAndAskPrice =
+      toFixedPoint(params.exchangeRate.bidPrice, EXCHANGE_RATE_DECIMALS, 'halfUp') +
+      toFixedPoint(params.exchangeRate.askPrice, EXCHANGE_RATE_DECIMALS, 'halfUp');
+
+    // collateral * (bid + ask) / 2, rounded down so collateral is never overvalued
+    const collateralValuationAmount = mulDiv(
+      toAmount(params.collateralAmount) * bidAndAskPrice,
+      pow10(params.principalDecimals),
+      2n * pow10(params.collateralDecimals + EXCHANGE_RATE_DECIMALS),
+      'floor',
+    );
+
+    const totalDebtAmount =
+      toAmount(params.principalAmount) +
+      toAmount(params.interestAmount) +
+      toAmount(params.premiAmount);
+
+    if (collateralValuationAmount <= 0n) {
+      throw new Error('Collateral valuation must be positive');
+    }
+
+    return {
+      collateralValuationAmount: collateralValuationAmount.toString(),
+      totalDebtAmount: totalDebtAmount.toString(),
+      ltvRatio: ratioToNumber(totalDebtAmount, collateralValuationAmount, 'ceil'),
+    };
+  }
+
+  /**
+   * Calculate loan terms after part of the principal is repaid before maturity
+   * Interest already accrued on the full principal is kept, interest for the remaining term
+   * is charged on the remaining principal only. Premi and liquidation fee are not refunded.
+   */
+  calculatePartialRepaymentTerms(
+    params: PartialRepaymentCalculationParams,
+  ): PartialRepaymentCalculationResult {
+    const principalAmount = toAmount(params.principalAmount);
+    const repaidPrincipalAmount = toAmount(params.repaidPrincipalAmount);
+
+    if (repaidPrincipalAmount <= 0n || repaidPrincipalAmount >= principalAmount) {
+      throw new Error('Partial repayment must be positive and less than the outstanding principal');
+    }
+
+    const totalTermMs = params.maturityDate.getTime() - params.originationDate.getTime();
+    const remainingTermMs = Math.min(
+      Math.max(0, params.maturityDate.getTime() - params.repaymentDate.getTime()),
+      totalTermMs,
+    );
+
+    // interest * repaid share * remaining term share, rounded down so the borrower is never over-refunded
+    const interestAmount = toAmount(params.interestAmount);
+    const interestReductionAmount =
+      totalTermMs > 0
+        ? mulDiv(
+            interestAmount * repaidPrincipalAmount,
+            BigInt(remainingTermMs),
+            principalAmount * BigInt(totalTermMs),
+            'floor',
+          )
+        : 0n;
+
+    const newPrincipalAmount = principalAmount - repaidPrincipalAmount;
+    const newInterestAmount = interestAmount - interestReductionAmount;
+    const newRepaymentAmount =
+      toAmount(params.repaymentAmount) - repaidPrincipalAmount - interestReductionAmount;
+
+    // Redelivery fee is a rate on interest, so it shrinks with the interest
+    const newRedeliveryFeeAmount =
+      interestAmount > 0n
+        ? mulDiv(toAmount(params.redeliveryFeeAmount), newInterestAmount, interestAmount, 'floor')
+        : 0n;
+    const newRedeliveryAmount = newRepaymentAmount - newRedeliveryFeeAmount;
+
+    const newMinCollateralValuation = newRepaymentAmount + toAmount(params.liquidationFeeAmount);
+
+    return {
+      principalAmount: newPrincipalAmount.toString(),
+      interestAmount: newInterestAmount.toString(),
+      interestReductionAmount: interestReductionAmount.toString(),
+      repaymentAmount: newRepaymentAmount.toString(),
+      redeliveryFeeAmount: newRedeliveryFeeAmount.toString(),
+      redeliveryAmount: newRedeliveryAmount.toString(),
+      minCollateralValuation: newMinCollateralValuation.toString(),
+      // Margin call ratio is rounded down so the margin call is never late
+      mcLtvRatio: ratioToNumber(newPrincipalAmount, newMinCollateralValuation, 'floor'),
+      remainingTermDays: Math.ceil(remainingTermMs / (1000 * 60 * 60 * 24)),
+    };
+  }
+
+  /**
+   * Calculate collateral to release after a partial repayment
+   * Releases the repaid share of the collateral, capped so the remaining collateral keeps
+   * the loan at or below the max LTV ratio at the mid price
+   */
+  calculateCollateralRelease(params: CollateralReleaseCalculationParams): string {
+    const collateralAmount = toAmount(params.collateralAmount);
+
+    const proportionalRelease = mulDiv(
+      collateralAmount,
+      toAmount(params.repaidPrincipalAmount),
+      toAmount(params.previousPrincipalAmount),
+      'floor',
+    );
+
+    const bidAndAskPrice =
+      toFixedPoint(params.exchangeRate.bidPrice, EXCHANGE_RATE_DECIMALS, 'halfUp') +
+      toFixedPoint(params.exchangeRate.askPrice, EXCHANGE_RATE_DECIMALS, 'halfUp');
+    const maxLtvRatio = toFixedPoint(params.maxLtvRatio, RATIO_DECIMALS, 'halfUp');
+
+    if (bidAndAskPrice <= 0n || maxLtvRatio <= 0n) {
+      return '0';
+    }
+
+    // debt / (maxLtvRatio * (bid + ask) / 2), rounded up so the remaining collateral is never short
+    const requiredCollateralAmount = mulDiv(
+      toAmount(params.totalDebtAmount) * pow10(params.collateralDecimals),
+      2n * pow10(RATIO_DECIMALS + EXCHANGE_RATE_DECIMALS),
+      pow10(params.principalDecimals) * maxLtvRatio * bidAndAskPrice,
+      'ceil',
+    );
+
+    const releasableAmount =
+      collateralAmount > requiredCollateralAmount
+        ? collateralAmount - requiredCollateralAmount
+        : 0n;
+
+    return (
+      proportionalRelease < releasableAmount ? proportionalRelease : releasableAmount
+    ).toString();
+  }
+
+  /**
+   * Calculate loan terms after an extension is accepted
+   * Interest accrued to the current maturity is either settled now (redelivery fee included)
+   * or added to the principal. Interest for the extension term is charged pro rata on the new principal.
+   */
+  calculateLoanExtensionTerms(
+    params: LoanExtensionCalculationParams,
+  ): LoanExtensionCalculationResult {
+    const accruedInterestAmount = toAmount(params.interestAmount);
+    const capitalized = params.interestHandling === 'Capitalize';
+
+    const principalAmount = capitalized
+      ? toAmount(params.principalAmount) + accruedInterestAmount
+      : toAmount(params.principalAmount);
+
+    const interestAmount = mulDiv(
+      principalAmount * toFixedPoint(params.interestRate, RATIO_DECIMALS, 'halfUp'),
+      BigInt(params.termInMonths),
+      12n * pow10(RATIO_DECIMALS),
+      'floor',
+    );
 
-    return repaymentAmountBN.plus(premiAmountBN).plus(liquidationFeeAmountBN).toString();
+    // Redelivery fee (1% of interest) on capitalised interest is still due at maturity
+    const extensionRedeliveryFeeAmount = applyRate(interestAmount, 0.01, 'floor');
+    const redeliveryFeeAmount = capitalized
+      ? extensionRedeliveryFeeAmount + toAmount(params.redeliveryFeeAmount)
+      : extensionRedeliveryFeeAmount;
+
+    const repaymentAmount = principalAmount + interestAmount + toAmount(params.premiAmount);
+    const redeliveryAmount = repaymentAmount - redeliveryFeeAmount;
+    const minCollateralValuation = repaymentAmount + toAmount(params.liquidationFeeAmount);
+
+    const maturityDate = new Date(params.maturityDate);
+    maturityDate.setMonth(maturityDate.getMonth() + params.termInMonths);
+
+    return {
+      principalAmount: principalAmount.toString(),
+      interestAmount: interestAmount.toString(),
+      settledInterestAmount: capitalized ? '0' : accruedInterestAmount.toString(),
+      settledRedeliveryFeeAmount: capitalized ? '0' : params.redeliveryFeeAmount,
+      capitalizedInterestAmount: capitalized ? accruedInterestAmount.toString() : '0',
+      repaymentAmount: repaymentAmount.toString(),
+      redeliveryFeeAmount: redeliveryFeeAmount.toString(),
+      redeliveryAmount: redeliveryAmount.toString(),
+      minCollateralValuation: minCollateralValuation.toString(),
+      mcLtvRatio: ratioToNumber(principalAmount, minCollateralValuation, 'floor'),
+      maturityDate,
+    };
   }
 
   /**
    * Calculate all loan origination parameters from matched offer and application
    * All amounts are expected to be in smallest units
+   * Interest and fees are rounded down, and repayment is the sum of the rounded parts
    */
   calculateLoanOriginationParams(params: {
     principalAmount: string;
@@ -393,57 +632,33 @@ export class LoanCalculationService {
     collateralAmount: string;
     maturityDate: Date;
   } {
-    const {
-      principalAmount,
-      interestRate,
-      termInMonths,
-      collateralAmount,
-      matchedLtvRatio,
-      matchedCollateralValuationAmount,
-      provisionRate,
-    } = params;
+    const { principalAmount, interestRate, termInMonths, collateralAmount, provisionRate } = params;
 
-    // Convert to BigNumber for precise calculations
-    const principalAmountBN = new BigNumber(principalAmount);
-    const interestRateBN = this.decimalToBigNumber(interestRate);
-    const provisionRateBN = this.decimalToBigNumber(provisionRate);
+    const principal = toAmount(principalAmount);
 
     // Calculate interest amount (simple interest for the term)
-    const interestAmountBN = principalAmountBN.multipliedBy(interestRateBN);
-    const interestAmount = interestAmountBN.integerValue(BigNumber.ROUND_DOWN).toString();
+    const interestAmount = applyRate(principal, interestRate, 'floor');
 
     // Calculate provision/premi amount (origination fee)
-    const premiAmountBN = principalAmountBN.multipliedBy(provisionRateBN);
-    const premiAmount = premiAmountBN.integerValue(BigNumber.ROUND_DOWN).toString();
+    const premiAmount = applyRate(principal, provisionRate, 'floor');
 
     // Calculate liquidation fee (fixed 2% of principal as per common practice)
-    const liquidationFeeRateBN = this.decimalToBigNumber(0.02);
-    const liquidationFeeAmountBN = principalAmountBN.multipliedBy(liquidationFeeRateBN);
-    const liquidationFeeAmount = liquidationFeeAmountBN
-      .integerValue(BigNumber.ROUND_DOWN)
-      .toString();
+    const liquidationFeeAmount = applyRate(principal, 0.02, 'floor');
 
     // Calculate repayment amount (principal + interest + provision)
-    const repaymentAmountBN = principalAmountBN.plus(interestAmountBN).plus(premiAmountBN);
-    const repaymentAmount = repaymentAmountBN.integerValue(BigNumber.ROUND_DOWN).toString();
+    const repaymentAmount = principal + interestAmount + premiAmount;
 
     // Calculate redelivery fee (1% of interest amount)
-    const redeliveryFeeRateBN = this.decimalToBigNumber(0.01);
-    const redeliveryFeeAmountBN = interestAmountBN.multipliedBy(redeliveryFeeRateBN);
-    const redeliveryFeeAmount = redeliveryFeeAmountBN.integerValue(BigNumber.ROUND_DOWN).toString();
+    const redeliveryFeeAmount = applyRate(interestAmount, 0.01, 'floor');
 
     // Calculate redelivery amount (repayment - redelivery fee)
-    const redeliveryAmountBN = repaymentAmountBN.minus(redeliveryFeeAmountBN);
-    const redeliveryAmount = redeliveryAmountBN.integerValue(BigNumber.ROUND_DOWN).toString();
+    const redeliveryAmount = repaymentAmount - redeliveryFeeAmount;
 
     // Calculate minimum collateral valuation (repayment + premi + liquidation fee)
-    const minCollateralValuationBN = repaymentAmountBN.plus(liquidationFeeAmountBN);
-    const minCollateralValuation = minCollateralValuationBN
-      .integerValue(BigNumber.ROUND_DOWN)
-      .toString();
+    const minCollateralValuation = repaymentAmount + liquidationFeeAmount;
 
-    // Calculate margin call LTV ratio (principal / min collateral valuation)
-    const mcLtvRatio = principalAmountBN.dividedBy(minCollateralValuationBN).toNumber();
+    // Margin call LTV ratio (principal / min collateral valuation), rounded down so the margin call is never late
+    const mcLtvRatio = ratioToNumber(principal, minCollateralValuation, 'floor');
 
     // Calculate maturity date (origination date + term in months)
     const originationDate = new Date();
@@ -452,13 +667,13 @@ export class LoanCalculationService {
 
     return {
       principalAmount,
-      interestAmount,
-      repaymentAmount,
-      redeliveryFeeAmount,
-      redeliveryAmount,
-      premiAmount,
-      liquidationFeeAmount,
-      minCollateralValuation,
+      interestAmount: interestAmount.toString(),
+      repaymentAmount: repaymentAmount.toString(),
+      redeliveryFeeAmount: redeliveryFeeAmount.toString(),
+      redeliveryAmount: redeliveryAmount.toString(),
+      premiAmount: premiAmount.toString(),
+      liquidationFeeAmount: liquidationFeeAmount.toString(),
+      minCollateralValuation: minCollateralValuation.toString(),
       mcLtvRatio,
       collateralAmount,
       maturityDate,
@@ -0,0 +1,247 @@
+import type { LoanCollateralTopUp } from '../../../shared/repositories/loan.types';
+
+import assert from 'node:assert';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+
+import { LoanCalculationService } from './loan-calculation.service';
+import { LoanCollateralTopUpService } from './loan-collateral-top-up.service';
+
+const usdc = {
+  blockchainKey: 'eip155:56',
+  tokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+  decimals: 6,
+  symbol: 'USDC',
+  name: 'USD Coin',
+};
+
+const btc = {
+  blockchainKey: 'bip122:000000000019d6689c085ae165831e93',
+  tokenId: 'slip44:0',
+  decimals: 8,
+  symbol: 'BTC',
+  name: 'Bitcoin',
+};
+
+function createTopUp(overrides: Partial<LoanCollateralTopUp> = {}): LoanCollateralTopUp {
+  return {
+    invoiceId: '777',
+    loanId: 'loan-1',
+    loanStatus: 'Active',
+    borrowerUserId: 'borrower-1',
+    topUpAmount: '50000000', // 0.5 BTC
+    invoiceStatus: 'Paid',
+    paidDate: new Date('2024-06-01T10:00:00.000Z'),
+    principalCurrency: usdc,
+    collateralCurrency: btc,
+    principalAmount: '1000000000', // 1000 USDC
+    interestAmount: '50000000',
+    premiAmount: '30000000',
+    collateralAmount: '100000000', // 1 BTC
+    currentLtvRatio: 1.08,
+    exchangeRate: {
+      id: '42',
+      bidPrice: '990',
+      askPrice: '1010',
+      sourceDate: new Date('2024-06-01T09:59:00.000Z'),
+    },
+    ...overrides,
+  };
+}
+
+describe('LoanCollateralTopUpService', () => {
+  let service: LoanCollateralTopUpService;
+  let mockRepository: {
+    userViewsLoanDetails: ReturnType<typeof mock.fn>;
+    borrowerRequestsLoanCollateralTopUp: ReturnType<typeof mock.fn>;
+    platformViewsLoanCollateralTopUp: ReturnType<typeof mock.fn>;
+    platformAppliesLoanCollateralTopUp: ReturnType<typeof mock.fn>;
+  };
+  let mockInvoiceService: { prepareInvoice: ReturnType<typeof mock.fn> };
+  let mockIndexerEventService: { addWallet: ReturnType<typeof mock.fn> };
+
+  function mockTopUpInvoice(status: 'Pending' | 'Paid', prepaidAmount: string) {
+    mockRepository.borrowerRequestsLoanCollateralTopUp.mock.mockImplementation(() =>
+      Promise.resolve({
+        loanId: 'loan-1',
+        topUpAmount: '50000000',
+        collateralCurrency: btc,
+        topUpInvoice: {
+          id: '777',
+          amount: '50000000',
+          prepaidAmount,
+          currency: btc,
+          status,
+          createdDate: new Date('2024-06-01T10:00:00.000Z'),
+          expiryDate: new Date('2024-06-02T10:00:00.000Z'),
+          paidDate: status === 'Paid' ? new Date('2024-06-01T10:00:00.000Z') : undefined,
+          walletAddress: 'bc1qtopup',
+        },
+      }),
+    );
+  }
+
+  beforeEach(() => {
+    mockRepository = {
+      userViewsLoanDetails: mock.fn(() =>
+        Promise.resolve({
+          id: 'loan-1',
+          borrowerUserId: 'borrower-1',
+          lenderUserId: 'lender-1',
+          status: 'Active',
+          collateralCurrency: btc,
+          principalCurrency: usdc,
+        }),
+      ),
+      borrowerRequestsLoanCollateralTopUp: mock.fn(),
+      platformViewsLoanCollateralTopUp: mock.fn(() => Promise.resolve({ topUp: createTopUp() })),
+      platformAppliesLoanCollateralTopUp: mock.fn((params: { ltvRatio: number }) =>
+        Promise.resolve({
+          loanId: 'loan-1',
+          invoiceId: '777',
+          topUpAmount: '50000000',
+          collateralAmount: '150000000',
+          previousLtvRatio: 1.08,
+          ltvRatio: params.ltvRatio,
+          appliedDate: new Date('2024-06-01T10:00:00.000Z'),
+        }),
+      ),
+    };
+
+    mockInvoiceService = {
+      prepareInvoice: mock.fn((params: { prepaidAmount: string }) =>
+        Promise.resolve({
+          ...params,
+          invoiceId: 777,
+          walletAddress: 'bc1qtopup',
+          walletDerivationPath: "m/44'/0'/5'/0/777",
+        }),
+      ),
+    };
+
+    mockIndexerEventService = {
+      addWallet: mock.fn(() => Promise.resolve()),
+    };
+
+    service = new LoanCollateralTopUpService(
+      // biome-ignore lint/suspicious/noExplicitAny: Mock repository for testing
+      mockRepository as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock invoice service for testing
+      mockInvoiceService as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock indexer event service for testing
+      mockIndexerEventService as any,
+      new LoanCalculationService(),
+    );
+  });
+
+  describe('requestCollateralTopUp', () => {
+    it('should create a collateral invoice and watch its wallet', async () => {
+      mockTopUpInvoice('Pending', '0');
+
+      const response = await service.requestCollateralTopUp('borrower-1', 'loan-1', {
+        amount: '0.500000000000000000',
+      });
+
+      const invoiceParams = mockInvoiceService.prepareInvoice.mock.calls[0].arguments[0] as Record<
+        string,
+        unknown
+      >;
+      assert.strictEqual(invoiceParams.invoiceType, 'LoanCollateral');
+      assert.strictEqual(invoiceParams.invoicedAmount, '50000000');
+      assert.strictEqual(invoiceParams.prepaidAmount, '0');
+
+      const requestParams = mockRepository.borrowerRequestsLoanCollateralTopUp.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(requestParams.topUpInvoiceId, 777);
+      assert.strictEqual(requestParams.topUpWalletAddress, 'bc1qtopup');
+
+      assert.strictEqual(mockIndexerEventService.addWallet.mock.callCount(), 1);
+      assert.strictEqual(mockRepository.platformAppliesLoanCollateralTopUp.mock.callCount(), 0);
+      assert.strictEqual(response.data.status, 'Pending');
+      assert.strictEqual(response.data.topUpAmount, '0.5');
+    });
+
+    it('should apply a fully prepaid top-up immediately', async () => {
+      mockTopUpInvoice('Paid', '50000000');
+
+      const response = await service.requestCollateralTopUp('borrower-1', 'loan-1', {
+        amount: '0.500000000000000000',
+        prepaidAmount: '0.500000000000000000',
+      });
+
+      assert.strictEqual(mockIndexerEventService.addWallet.mock.callCount(), 0);
+      assert.strictEqual(mockRepository.platformAppliesLoanCollateralTopUp.mock.callCount(), 1);
+      assert.strictEqual(response.data.status, 'Applied');
+      assert.strictEqual(response.data.ltvRatio, 0.72);
+    });
+
+    it('should reject lenders topping up collateral', async () => {
+      await assert.rejects(
+        service.requestCollateralTopUp('lender-1', 'loan-1', {
+          amount: '0.500000000000000000',
+        }),
+        ForbiddenException,
+      );
+    });
+
+    it('should surface insufficient balance for prepaid top-ups', async () => {
+      mockRepository.borrowerRequestsLoanCollateralTopUp.mock.mockImplementation(() =>
+        Promise.reject(new Error('Insufficient balance on account 12')),
+      );
+
+      await assert.rejects(
+        service.requestCollateralTopUp('borrower-1', 'loan-1', {
+          amount: '0.500000000000000000',
+          prepaidAmount: '0.500000000000000000',
+        }),
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('applyPaidCollateralTopUp', () => {
+    it('should revalue the loan with the added collateral', async () => {
+      const result = await service.applyPaidCollateralTopUp(
+        'bc1qtopup',
+        new Date('2024-06-01T10:00:00.000Z'),
+      );
+
+      assert.ok(result);
+      const applyParams = mockRepository.platformAppliesLoanCollateralTopUp.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(applyParams.invoiceId, '777');
+      assert.strictEqual(applyParams.exchangeRateId, '42');
+      // 1.5 BTC at mid price 1000 against 1080 USDC debt
+      assert.strictEqual(applyParams.collateralValuationAmount, '1500000000');
+      assert.strictEqual(applyParams.ltvRatio, 0.72);
+    });
+
+    it('should ignore wallets that are not paid top-up invoices', async () => {
+      mockRepository.platformViewsLoanCollateralTopUp.mock.mockImplementation(() =>
+        Promise.resolve({ topUp: undefined }),
+      );
+      assert.strictEqual(await service.applyPaidCollateralTopUp('0xother', new Date()), undefined);
+
+      mockRepository.platformViewsLoanCollateralTopUp.mock.mockImplementation(() =>
+        Promise.resolve({
+          topUp: createTopUp({ invoiceStatus: 'PartiallyPaid', paidDate: undefined }),
+        }),
+      );
+      assert.strictEqual(
+        await service.applyPaidCollateralTopUp('bc1qtopup', new Date()),
+        undefined,
+      );
+
+      mockRepository.platformViewsLoanCollateralTopUp.mock.mockImplementation(() =>
+        Promise.resolve({ topUp: createTopUp({ appliedDate: new Date() }) }),
+      );
+      assert.strictEqual(
+        await service.applyPaidCollateralTopUp('bc1qtopup', new Date()),
+        undefined,
+      );
+
+      assert.strictEqual(mockRepository.platformAppliesLoanCollateralTopUp.mock.callCount(), 0);
+    });
+  });
+});
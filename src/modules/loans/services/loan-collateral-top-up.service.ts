@@ -0,0 +1,212 @@
+import type { PlatformAppliesLoanCollateralTopUpResult } from '../../../shared/repositories/loan.types';
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { InvoiceService } from '../../../shared/invoice/invoice.service';
+import { InvoiceError } from '../../../shared/invoice/invoice.types';
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { IndexerEventService } from '../../indexer/indexer-event.service';
+import { CollateralTopUpRequestDto, CollateralTopUpResponseDto } from '../dto/loan-operations.dto';
+import { LoanCalculationService } from './loan-calculation.service';
+
+// Borrowers top up to cure LTV breaches, so the invoice is kept short-lived
+const TOP_UP_INVOICE_VALIDITY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class LoanCollateralTopUpService {
+  private readonly logger = new TelemetryLogger(LoanCollateralTopUpService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly invoiceService: InvoiceService,
+    private readonly indexerEventService: IndexerEventService,
+    private readonly loanCalculationService: LoanCalculationService,
+  ) {}
+
+  /**
+   * Creates a LoanCollateral invoice for an active loan.
+   * The prepaid part is taken from the borrower platform balance; a fully prepaid top-up is applied immediately.
+   */
+  async requestCollateralTopUp(
+    userId: string,
+    loanId: string,
+    requestDto: CollateralTopUpRequestDto,
+  ): Promise<CollateralTopUpResponseDto> {
+    this.logger.log(`Requesting collateral top-up for loan: ${loanId}, borrower: ${userId}`);
+
+    const loanDetails = await this.repository
+      .userViewsLoanDetails({ loanId, userId })
+      .catch(function (error) {
+        if (error instanceof Error && error.message.includes('Loan not found')) {
+          throw new NotFoundException('Loan not found');
+        }
+        throw error;
+      });
+
+    if (loanDetails.borrowerUserId !== userId) {
+      throw new ForbiddenException('Only the borrower can top up collateral');
+    }
+
+    if (loanDetails.status !== 'Active') {
+      throw new BadRequestException('Loan is not eligible for collateral top-up');
+    }
+
+    const { collateralCurrency } = loanDetails;
+    const topUpAmount = this.loanCalculationService.toSmallestUnit(
+      requestDto.amount,
+      collateralCurrency.decimals,
+    );
+    const prepaidAmount = this.loanCalculationService.toSmallestUnit(
+      requestDto.prepaidAmount ?? '0',
+      collateralCurrency.decimals,
+    );
+
+    if (BigInt(topUpAmount) <= 0n) {
+      throw new BadRequestException('Top-up amount must be positive');
+    }
+
+    const requestDate = new Date();
+    const dueDate = new Date(requestDate.getTime() + TOP_UP_INVOICE_VALIDITY_MS);
+
+    const invoiceDraft = await this.invoiceService
+      .prepareInvoice({
+        userId,
+        currencyBlockchainKey: collateralCurrency.blockchainKey,
+        currencyTokenId: collateralCurrency.tokenId,
+        invoiceType: 'LoanCollateral',
+        invoicedAmount: topUpAmount,
+        prepaidAmount,
+        invoiceDate: requestDate,
+        dueDate,
+        expiredDate: dueDate,
+      })
+      .catch(function (error) {
+        if (error instanceof InvoiceError) {
+          throw new BadRequestException(error.message);
+        }
+        throw error;
+      });
+
+    const result = await this.repository
+      .borrowerRequestsLoanCollateralTopUp({
+        loanId,
+        borrowerUserId: userId,
+        topUpAmount,
+        topUpInvoiceId: invoiceDraft.invoiceId,
+        topUpInvoicePrepaidAmount: invoiceDraft.prepaidAmount,
+        topUpWalletDerivationPath: invoiceDraft.walletDerivationPath,
+        topUpWalletAddress: invoiceDraft.walletAddress,
+        requestDate,
+        dueDate: invoiceDraft.dueDate ?? dueDate,
+        expiredDate: invoiceDraft.expiredDate ?? dueDate,
+      })
+      .catch(function (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (message.includes('Insufficient balance')) {
+          throw new BadRequestException('Insufficient platform balance for prepaid amount');
+        }
+        throw error;
+      });
+
+    let application: PlatformAppliesLoanCollateralTopUpResult | undefined;
+    if (result.topUpInvoice.status === 'Paid') {
+      application = await this.applyPaidCollateralTopUp(invoiceDraft.walletAddress, requestDate);
+    } else {
+      await this.indexerEventService.addWallet(
+        collateralCurrency.blockchainKey,
+        collateralCurrency.tokenId,
+        invoiceDraft.walletAddress,
+        invoiceDraft.walletDerivationPath,
+      );
+    }
+
+    return {
+      success: true,
+      data: {
+        loanId,
+        status: application ? 'Applied' : 'Pending',
+        submittedDate: requestDate.toISOString(),
+        topUpAmount: this.loanCalculationService.fromSmallestUnit(
+          result.topUpAmount,
+          collateralCurrency.decimals,
+        ),
+        ltvRatio: application?.ltvRatio,
+        topUpInvoice: {
+          id: result.topUpInvoice.id,
+          amount: this.loanCalculationService.fromSmallestUnit(
+            result.topUpInvoice.amount,
+            collateralCurrency.decimals,
+          ),
+          prepaidAmount: this.loanCalculationService.fromSmallestUnit(
+            result.topUpInvoice.prepaidAmount,
+            collateralCurrency.decimals,
+          ),
+          currency: {
+            ...result.topUpInvoice.currency,
+            logoUrl: `https://assets.cryptogadai.com/currencies/${result.topUpInvoice.currency.symbol.toLowerCase()}.png`,
+          },
+          walletAddress: invoiceDraft.walletAddress,
+          expiryDate: result.topUpInvoice.expiryDate.toISOString(),
+          paidDate: result.topUpInvoice.paidDate?.toISOString(),
+        },
+      },
+      message: application
+        ? 'Collateral top-up applied from platform balance.'
+        : 'Collateral top-up invoice created successfully. Please pay the invoice to add collateral.',
+    };
+  }
+
+  /**
+   * Applies a paid top-up invoice to its loan: raises collateral_amount and records a new valuation.
+   * Returns undefined when the wallet does not belong to a top-up invoice that is ready to apply.
+   */
+  async applyPaidCollateralTopUp(
+    walletAddress: string,
+    appliedDate: Date,
+  ): Promise<PlatformAppliesLoanCollateralTopUpResult | undefined> {
+    const { topUp } = await this.repository.platformViewsLoanCollateralTopUp({ walletAddress });
+
+    if (!topUp || topUp.appliedDate || topUp.invoiceStatus !== 'Paid' || !topUp.paidDate) {
+      return undefined;
+    }
+
+    if (!topUp.exchangeRate) {
+      throw new Error(
+        `Exchange rate not available for ${topUp.collateralCurrency.symbol}, cannot value loan ${topUp.loanId}`,
+      );
+    }
+
+    const valuation = this.loanCalculationService.calculateLoanValuation({
+      principalAmount: topUp.principalAmount,
+      interestAmount: topUp.interestAmount,
+      premiAmount: topUp.premiAmount,
+      principalDecimals: topUp.principalCurrency.decimals,
+      collateralAmount: (BigInt(topUp.collateralAmount) + BigInt(topUp.topUpAmount)).toString(),
+      collateralDecimals: topUp.collateralCurrency.decimals,
+      exchangeRate: topUp.exchangeRate,
+    });
+
+    const result = await this.repository.platformAppliesLoanCollateralTopUp({
+      invoiceId: topUp.invoiceId,
+      exchangeRateId: topUp.exchangeRate.id,
+      ltvRatio: valuation.ltvRatio,
+      collateralValuationAmount: valuation.collateralValuationAmount,
+      debtAmount: valuation.totalDebtAmount,
+      appliedDate,
+    });
+
+    this.logger.log(
+      `Applied collateral top-up ${result.invoiceId} to loan ${result.loanId}: LTV ${result.previousLtvRatio ?? 'n/a'} → ${result.ltvRatio.toFixed(4)}`,
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,299 @@
+import type { LoanExtension } from '../../../shared/repositories/loan.types';
+
+import assert from 'node:assert';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+
+import { LoanCalculationService } from './loan-calculation.service';
+import { LoanExtensionService } from './loan-extension.service';
+
+const usdc = {
+  blockchainKey: 'eip155:56',
+  tokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+  decimals: 6,
+  symbol: 'USDC',
+  name: 'USD Coin',
+};
+
+const btc = {
+  blockchainKey: 'bip122:000000000019d6689c085ae165831e93',
+  tokenId: 'slip44:0',
+  decimals: 8,
+  symbol: 'BTC',
+  name: 'Bitcoin',
+};
+
+const maturityDate = new Date('2099-07-01T00:00:00.000Z');
+
+function createExtension(overrides: Partial<LoanExtension> = {}): LoanExtension {
+  return {
+    id: '42',
+    loanId: 'loan-1',
+    termInMonths: 6,
+    interestRate: 0.12,
+    interestHandling: 'Settle',
+    status: 'Pending',
+    requestedDate: new Date('2099-06-01T00:00:00.000Z'),
+    expiredDate: maturityDate,
+    ...overrides,
+  };
+}
+
+describe('LoanExtensionService', () => {
+  let service: LoanExtensionService;
+  let mockRepository: {
+    userViewsLoanDetails: ReturnType<typeof mock.fn>;
+    userViewsLoanExtensions: ReturnType<typeof mock.fn>;
+    borrowerRequestsLoanExtension: ReturnType<typeof mock.fn>;
+    lenderAcceptsLoanExtension: ReturnType<typeof mock.fn>;
+    lenderDeclinesLoanExtension: ReturnType<typeof mock.fn>;
+  };
+  let mockDocumentService: { createDocumentRequest: ReturnType<typeof mock.fn> };
+  let mockNotificationQueueService: { queueNotification: ReturnType<typeof mock.fn> };
+
+  beforeEach(() => {
+    mockRepository = {
+      userViewsLoanDetails: mock.fn(() =>
+        Promise.resolve({
+          id: 'loan-1',
+          borrowerUserId: 'borrower-1',
+          lenderUserId: 'lender-1',
+          status: 'Active',
+          principalCurrency: usdc,
+          collateralCurrency: btc,
+          principalAmount: '1000000000', // 1000 USDC
+          interestAmount: '50000000',
+          premiAmount: '30000000',
+          repaymentAmount: '1080000000',
+          redeliveryFeeAmount: '500000',
+          liquidationFeeAmount: '20000000',
+          collateralAmount: '200000000',
+          originationDate: new Date('2099-01-01T00:00:00.000Z'),
+          maturityDate,
+        }),
+      ),
+      userViewsLoanExtensions: mock.fn(() => Promise.resolve({ extensions: [createExtension()] })),
+      borrowerRequestsLoanExtension: mock.fn(
+        (params: { termInMonths: number; interestHandling: 'Settle' | 'Capitalize' }) =>
+          Promise.resolve(
+            createExtension({
+              termInMonths: params.termInMonths,
+              interestHandling: params.interestHandling,
+            }),
+          ),
+      ),
+      lenderAcceptsLoanExtension: mock.fn(
+        (params: {
+          principalAmount: string;
+          interestAmount: string;
+          settledInterestAmount: string;
+          capitalizedInterestAmount: string;
+          maturityDate: Date;
+          amendmentDocumentRequestId: string;
+          acceptedDate: Date;
+        }) =>
+          Promise.resolve({
+            ...createExtension({
+              status: 'Accepted',
+              respondedDate: params.acceptedDate,
+              previousMaturityDate: maturityDate,
+              maturityDate: params.maturityDate,
+              previousPrincipalAmount: '1000000000',
+              principalAmount: params.principalAmount,
+              settledInterestAmount: params.settledInterestAmount,
+              capitalizedInterestAmount: params.capitalizedInterestAmount,
+              interestAmount: params.interestAmount,
+              amendmentDocumentRequestId: params.amendmentDocumentRequestId,
+            }),
+            borrowerUserId: 'borrower-1',
+            lenderUserId: 'lender-1',
+          }),
+      ),
+      lenderDeclinesLoanExtension: mock.fn((params: { declineReason?: string }) =>
+        Promise.resolve({
+          ...createExtension({
+            status: 'Declined',
+            respondedDate: new Date(),
+            declineReason: params.declineReason,
+          }),
+          borrowerUserId: 'borrower-1',
+          lenderUserId: 'lender-1',
+        }),
+      ),
+    };
+
+    mockDocumentService = {
+      createDocumentRequest: mock.fn(() => Promise.resolve({ id: 'doc-1' })),
+    };
+
+    mockNotificationQueueService = {
+      queueNotification: mock.fn(() => Promise.resolve()),
+    };
+
+    service = new LoanExtensionService(
+      // biome-ignore lint/suspicious/noExplicitAny: Mock repository for testing
+      mockRepository as any,
+      new LoanCalculationService(),
+      // biome-ignore lint/suspicious/noExplicitAny: Mock document service for testing
+      mockDocumentService as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock notification queue for testing
+      mockNotificationQueueService as any,
+    );
+  });
+
+  describe('requestExtension', () => {
+    it('should record the request and notify the lender', async () => {
+      const response = await service.requestExtension('borrower-1', 'loan-1', {
+        termInMonths: 6,
+        interestHandling: 'Capitalize',
+      });
+
+      const requestParams = mockRepository.borrowerRequestsLoanExtension.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(requestParams.termInMonths, 6);
+      assert.strictEqual(requestParams.interestHandling, 'Capitalize');
+
+      const notification = mockNotificationQueueService.queueNotification.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(notification.type, 'LoanExtensionRequested');
+      assert.strictEqual(notification.userId, 'lender-1');
+      assert.strictEqual(notification.termInMonths, '6');
+
+      assert.strictEqual(response.data.status, 'Pending');
+      assert.strictEqual(response.data.interestRate, 12);
+    });
+
+    it('should reject lenders requesting an extension', async () => {
+      await assert.rejects(
+        service.requestExtension('lender-1', 'loan-1', {
+          termInMonths: 6,
+          interestHandling: 'Settle',
+        }),
+        ForbiddenException,
+      );
+      assert.strictEqual(mockRepository.borrowerRequestsLoanExtension.mock.callCount(), 0);
+    });
+
+    it('should surface terms outside the lender offer as bad requests', async () => {
+      mockRepository.borrowerRequestsLoanExtension.mock.mockImplementation(() =>
+        Promise.reject(new Error('Extension term is not offered by the lender')),
+      );
+
+      await assert.rejects(
+        service.requestExtension('borrower-1', 'loan-1', {
+          termInMonths: 5,
+          interestHandling: 'Settle',
+        }),
+        BadRequestException,
+      );
+      assert.strictEqual(mockNotificationQueueService.queueNotification.mock.callCount(), 0);
+    });
+  });
+
+  describe('acceptExtension', () => {
+    it('should settle accrued interest and charge the extension term on the same principal', async () => {
+      const response = await service.acceptExtension('lender-1', 'loan-1', '42');
+
+      const acceptParams = mockRepository.lenderAcceptsLoanExtension.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(acceptParams.previousPrincipalAmount, '1000000000');
+      assert.deepStrictEqual(acceptParams.previousMaturityDate, maturityDate);
+      assert.strictEqual(acceptParams.principalAmount, '1000000000');
+      assert.strictEqual(acceptParams.settledInterestAmount, '50000000');
+      assert.strictEqual(acceptParams.settledRedeliveryFeeAmount, '500000');
+      assert.strictEqual(acceptParams.capitalizedInterestAmount, '0');
+      // 1000 USDC at 12% per annum for 6 months
+      assert.strictEqual(acceptParams.interestAmount, '60000000');
+      assert.strictEqual(acceptParams.repaymentAmount, '1090000000');
+      assert.strictEqual(acceptParams.redeliveryFeeAmount, '600000');
+      assert.strictEqual(acceptParams.redeliveryAmount, '1089400000');
+      assert.strictEqual(acceptParams.minCollateralValuation, '1110000000');
+      assert.strictEqual(
+        (acceptParams.maturityDate as Date).getMonth(),
+        (maturityDate.getMonth() + 6) % 12,
+      );
+
+      const documentCall = mockDocumentService.createDocumentRequest.mock.calls[0];
+      assert.strictEqual(documentCall.arguments[0], 'LoanAmendment');
+      assert.strictEqual(documentCall.arguments[1], 'loan-1');
+      assert.strictEqual(documentCall.arguments[4], acceptParams.amendmentDocumentRequestId);
+
+      const notification = mockNotificationQueueService.queueNotification.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(notification.type, 'LoanExtensionAccepted');
+      assert.strictEqual(notification.userId, 'borrower-1');
+      assert.strictEqual(notification.repaymentAmount, '1090');
+
+      assert.strictEqual(response.data.status, 'Accepted');
+      assert.strictEqual(response.data.interestAmount, '60');
+    });
+
+    it('should capitalise accrued interest into the principal', async () => {
+      mockRepository.userViewsLoanExtensions.mock.mockImplementation(() =>
+        Promise.resolve({ extensions: [createExtension({ interestHandling: 'Capitalize' })] }),
+      );
+
+      await service.acceptExtension('lender-1', 'loan-1', '42');
+
+      const acceptParams = mockRepository.lenderAcceptsLoanExtension.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(acceptParams.principalAmount, '1050000000');
+      assert.strictEqual(acceptParams.settledInterestAmount, '0');
+      assert.strictEqual(acceptParams.capitalizedInterestAmount, '50000000');
+      assert.strictEqual(acceptParams.interestAmount, '63000000');
+      assert.strictEqual(acceptParams.repaymentAmount, '1143000000');
+      // Fee on the capitalised interest is kept and the extension interest adds its own
+      assert.strictEqual(acceptParams.redeliveryFeeAmount, '1130000');
+    });
+
+    it('should surface insufficient borrower balance for settled interest', async () => {
+      mockRepository.lenderAcceptsLoanExtension.mock.mockImplementation(() =>
+        Promise.reject(new Error('Insufficient balance on account 7')),
+      );
+
+      await assert.rejects(
+        service.acceptExtension('lender-1', 'loan-1', '42'),
+        BadRequestException,
+      );
+      assert.strictEqual(mockDocumentService.createDocumentRequest.mock.callCount(), 0);
+      assert.strictEqual(mockNotificationQueueService.queueNotification.mock.callCount(), 0);
+    });
+
+    it('should only let the lender respond to pending requests', async () => {
+      await assert.rejects(
+        service.acceptExtension('borrower-1', 'loan-1', '42'),
+        ForbiddenException,
+      );
+
+      await assert.rejects(service.acceptExtension('lender-1', 'loan-1', '99'), NotFoundException);
+
+      mockRepository.userViewsLoanExtensions.mock.mockImplementation(() =>
+        Promise.resolve({ extensions: [createExtension({ status: 'Declined' })] }),
+      );
+      await assert.rejects(
+        service.acceptExtension('lender-1', 'loan-1', '42'),
+        BadRequestException,
+      );
+
+      assert.strictEqual(mockRepository.lenderAcceptsLoanExtension.mock.callCount(), 0);
+    });
+  });
+
+  describe('declineExtension', () => {
+    it('should decline the request and notify the borrower with the reason', async () => {
+      const response = await service.declineExtension('lender-1', 'loan-1', '42', {
+        reason: 'Funds are committed elsewhere',
+      });
+
+      const notification = mockNotificationQueueService.queueNotification.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(notification.type, 'LoanExtensionDeclined');
+      assert.strictEqual(notification.userId, 'borrower-1');
+      assert.strictEqual(notification.reason, 'Funds are committed elsewhere');
+
+      assert.strictEqual(response.data.status, 'Declined');
+      assert.strictEqual(response.data.declineReason, 'Funds are committed elsewhere');
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import type { LoanExtension } from '../../../shared/repositories/loan.types';
+import type { LoanAmendmentData } from '../../documents/document.types';
+import type { NotificationData } from '../../notifications/notification.types';
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { DocumentService } from '../../documents/document.service';
+import { DocumentTypeEnum } from '../../documents/document.types';
+import { NotificationQueueService } from '../../notifications/notification-queue.service';
+import {
+  LoanExtensionDataDto,
+  LoanExtensionDeclineDto,
+  LoanExtensionListResponseDto,
+  LoanExtensionRequestDto,
+  LoanExtensionResponseDto,
+} from '../dto/loan-operations.dto';
+import { LoanCalculationService } from './loan-calculation.service';
+
+// Repository errors a caller can act on, everything else is a server error
+const LOAN_EXTENSION_REJECTIONS = [
+  'Cannot extend loan',
+  'Cannot accept loan extension',
+  'Cannot decline loan extension',
+  'pending extension request',
+  'not offered by the lender',
+  'repayment already requested',
+  'pending partial repayment',
+  'already has payments',
+  'request has expired',
+  'terms changed since',
+];
+
+function mapLoanExtensionError(error: unknown): never {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('Insufficient balance')) {
+    throw new BadRequestException('Borrower platform balance does not cover the accrued interest');
+  }
+  if (LOAN_EXTENSION_REJECTIONS.some(rejection => message.includes(rejection))) {
+    throw new BadRequestException(message);
+  }
+  throw error;
+}
+
+@Injectable()
+export class LoanExtensionService {
+  private readonly logger = new TelemetryLogger(LoanExtensionService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly loanCalculationService: LoanCalculationService,
+    private readonly documentService: DocumentService,
+    private readonly notificationQueueService: NotificationQueueService,
+  ) {}
+
+  /**
+   * Records the borrower's proposal to extend an active loan for another term of the lender's offer.
+   * The loan is unchanged until the lender accepts.
+   */
+  async requestExtension(
+    userId: string,
+    loanId: string,
+    requestDto: LoanExtensionRequestDto,
+  ): Promise<LoanExtensionResponseDto> {
+    this.logger.log(`Requesting extension for loan: ${loanId}, borrower: ${userId}`);
+
+    const loanDetails = await this.getLoanDetails(userId, loanId);
+
+    if (loanDetails.borrowerUserId !== userId) {
+      throw new ForbiddenException('Only the borrower can request a loan extension');
+    }
+
+    if (loanDetails.status !== 'Active') {
+      throw new BadRequestException('Loan is not eligible for extension');
+    }
+
+    const extension = await this.repository
+      .borrowerRequestsLoanExtension({
+        loanId,
+        borrowerUserId: userId,
+        termInMonths: requestDto.termInMonths,
+        interestHandling: requestDto.interestHandling,
+        requestDate: new Date(),
+      })
+      .catch(mapLoanExtensionError);
+
+    await this.queueNotification({
+      type: 'LoanExtensionRequested',
+      userId: loanDetails.lenderUserId,
+      loanId,
+      extensionId: extension.id,
+      termInMonths: String(extension.termInMonths),
+      interestHandling: extension.interestHandling,
+      expiryDate: extension.expiredDate.toISOString(),
+    });
+
+    return {
+      success: true,
+      data: this.toExtensionDataDto(extension, loanDetails.principalCurrency.decimals),
+      message: 'Loan extension requested successfully. The lender will accept or decline it.',
+    };
+  }
+
+  async listExtensions(userId: string, loanId: string): Promise<LoanExtensionListResponseDto> {
+    const loanDetails = await this.getLoanDetails(userId, loanId);
+    const { extensions } = await this.repository.userViewsLoanExtensions({ loanId, userId });
+
+    return {
+      success: true,
+      data: extensions.map(extension =>
+        this.toExtensionDataDto(extension, loanDetails.principalCurrency.decimals),
+      ),
+    };
+  }
+
+  /**
+   * Applies an extension on the lender's acceptance: settles or capitalises the accrued interest,
+   * moves the maturity, recomputes the loan terms and queues the LoanAmendment document.
+   */
+  async acceptExtension(
+    userId: string,
+    loanId: string,
+    extensionId: string,
+  ): Promise<LoanExtensionResponseDto> {
+    this.logger.log(`Accepting extension ${extensionId} for loan: ${loanId}, lender: ${userId}`);
+
+    const loanDetails = await this.getLoanDetails(userId, loanId);
+
+    if (loanDetails.lenderUserId !== userId) {
+      throw new ForbiddenException('Only the lender can respond to a loan extension');
+    }
+
+    const extension = await this.getPendingExtension(userId, loanId, extensionId);
+
+    const terms = this.loanCalculationService.calculateLoanExtensionTerms({
+      principalAmount: loanDetails.principalAmount,
+      interestAmount: loanDetails.interestAmount,
+      premiAmount: loanDetails.premiAmount,
+      redeliveryFeeAmount: loanDetails.redeliveryFeeAmount,
+      liquidationFeeAmount: loanDetails.liquidationFeeAmount,
+      interestRate: extension.interestRate,
+      termInMonths: extension.termInMonths,
+      interestHandling: extension.interestHandling,
+      maturityDate: loanDetails.maturityDate,
+    });
+
+    const acceptedDate = new Date();
+    const amendmentDocumentRequestId = uuidv4();
+
+    const result = await this.repository
+      .lenderAcceptsLoanExtension({
+        extensionId,
+        lenderUserId: userId,
+        previousPrincipalAmount: loanDetails.principalAmount,
+        previousMaturityDate: loanDetails.maturityDate,
+        principalAmount: terms.principalAmount,
+        interestAmount: terms.interestAmount,
+        settledInterestAmount: terms.settledInterestAmount,
+        settledRedeliveryFeeAmount: terms.settledRedeliveryFeeAmount,
+        capitalizedInterestAmount: terms.capitalizedInterestAmount,
+        repaymentAmount: terms.repaymentAmount,
+        redeliveryFeeAmount: terms.redeliveryFeeAmount,
+        redeliveryAmount: terms.redeliveryAmount,
+        minCollateralValuation: terms.minCollateralValuation,
+        mcLtvRatio: terms.mcLtvRatio,
+        maturityDate: terms.maturityDate,
+        amendmentDocumentRequestId,
+        acceptedDate,
+      })
+      .catch(mapLoanExtensionError);
+
+    if (result.cancelledRepaymentInvoiceId) {
+      this.logger.log(
+        `Cancelled maturity repayment invoice ${result.cancelledRepaymentInvoiceId} of extended loan ${loanId}`,
+      );
+    }
+
+    const { principalCurrency } = loanDetails;
+    const toPrincipalUnit = (amount: string) =>
+      this.loanCalculationService.fromSmallestUnit(amount, principalCurrency.decimals);
+
+    const amendmentData: LoanAmendmentData = {
+      id: amendmentDocumentRequestId,
+      type: DocumentTypeEnum.LOAN_AMENDMENT,
+      loanId,
+      extensionId,
+      borrowerId: result.borrowerUserId,
+      lenderId: result.lenderUserId,
+      interestHandling: extension.interestHandling,
+      termMonths: extension.termInMonths,
+      interestRate: extension.interestRate * 100,
+      previousPrincipalAmount: toPrincipalUnit(loanDetails.principalAmount),
+      principalAmount: toPrincipalUnit(terms.principalAmount),
+      settledInterestAmount: toPrincipalUnit(terms.settledInterestAmount),
+      capitalizedInterestAmount: toPrincipalUnit(terms.capitalizedInterestAmount),
+      interestAmount: toPrincipalUnit(terms.interestAmount),
+      repaymentAmount: toPrincipalUnit(terms.repaymentAmount),
+      previousMaturityDate: loanDetails.maturityDate,
+      maturityDate: terms.maturityDate,
+      acceptedDate,
+      principalCurrency: {
+        name: principalCurrency.name,
+        symbol: principalCurrency.symbol,
+      },
+    };
+
+    // The extension is already committed, a failed amendment stays visible in loan_documents
+    try {
+      await this.documentService.createDocumentRequest(
+        DocumentTypeEnum.LOAN_AMENDMENT,
+        loanId,
+        amendmentData,
+        { extensionId },
+        amendmentDocumentRequestId,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue loan amendment ${amendmentDocumentRequestId} for loan ${loanId}: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    await this.queueNotification({
+      type: 'LoanExtensionAccepted',
+      userId: result.borrowerUserId,
+      loanId,
+      extensionId,
+      maturityDate: terms.maturityDate.toISOString(),
+      repaymentAmount: toPrincipalUnit(terms.repaymentAmount),
+      currency: principalCurrency.symbol,
+    });
+
+    return {
+      success: true,
+      data: this.toExtensionDataDto(result, principalCurrency.decimals),
+      message: 'Loan extension accepted. The loan amendment document is being generated.',
+    };
+  }
+
+  async declineExtension(
+    userId: string,
+    loanId: string,
+    extensionId: string,
+    declineDto: LoanExtensionDeclineDto,
+  ): Promise<LoanExtensionResponseDto> {
+    this.logger.log(`Declining extension ${extensionId} for loan: ${loanId}, lender: ${userId}`);
+
+    const loanDetails = await this.getLoanDetails(userId, loanId);
+
+    if (loanDetails.lenderUserId !== userId) {
+      throw new ForbiddenException('Only the lender can respond to a loan extension');
+    }
+
+    await this.getPendingExtension(userId, loanId, extensionId);
+
+    const result = await this.repository
+      .lenderDeclinesLoanExtension({
+        extensionId,
+        lenderUserId: userId,
+        declineReason: declineDto.reason,
+        declinedDate: new Date(),
+      })
+      .catch(mapLoanExtensionError);
+
+    await this.queueNotification({
+      type: 'LoanExtensionDeclined',
+      userId: result.borrowerUserId,
+      loanId,
+      extensionId,
+      maturityDate: loanDetails.maturityDate.toISOString(),
+      reason: declineDto.reason,
+    });
+
+    return {
+      success: true,
+      data: this.toExtensionDataDto(result, loanDetails.principalCurrency.decimals),
+      message: 'Loan extension declined.',
+    };
+  }
+
+  private async getLoanDetails(userId: string, loanId: string) {
+    return await this.repository.userViewsLoanDetails({ loanId, userId }).catch(function (error) {
+      if (error instanceof Error && error.message.includes('Loan not found')) {
+        throw new NotFoundException('Loan not found');
+      }
+      throw error;
+    });
+  }
+
+  private async getPendingExtension(
+    userId: string,
+    loanId: string,
+    extensionId: string,
+  ): Promise<LoanExtension> {
+    const { extensions } = await this.repository.userViewsLoanExtensions({ loanId, userId });
+    const extension = extensions.find(item => item.id === String(extensionId));
+
+    if (!extension) {
+      throw new NotFoundException('Loan extension not found');
+    }
+
+    if (extension.status !== 'Pending') {
+      throw new BadRequestException(`Loan extension is already ${extension.status.toLowerCase()}`);
+    }
+
+    return extension;
+  }
+
+  // Notifications go out after the change is committed, a queue failure must not fail the request
+  private async queueNotification(data: NotificationData) {
+    try {
+      await this.notificationQueueService.queueNotification(data);
+    } catch (error) {
+      this.logger.error(`Failed to queue ${data.type} notification: ${error.message}`, error.stack);
+    }
+  }
+
+  private toExtensionDataDto(extension: LoanExtension, decimals: number): LoanExtensionDataDto {
+    const toPrincipalUnit = (amount?: string) =>
+      amount !== undefined
+        ? this.loanCalculationService.fromSmallestUnit(amount, decimals)
+        : undefined;
+
+    return {
+      id: extension.id,
+      loanId: extension.loanId,
+      status: extension.status,
+      termInMonths: extension.termInMonths,
+      interestRate: extension.interestRate * 100,
+      interestHandling: extension.interestHandling,
+      requestedDate: extension.requestedDate.toISOString(),
+      expiryDate: extension.expiredDate.toISOString(),
+      respondedDate: extension.respondedDate?.toISOString(),
+      declineReason: extension.declineReason,
+      maturityDate: extension.maturityDate?.toISOString(),
+      principalAmount: toPrincipalUnit(extension.principalAmount),
+      settledInterestAmount: toPrincipalUnit(extension.settledInterestAmount),
+      capitalizedInterestAmount: toPrincipalUnit(extension.capitalizedInterestAmount),
+      interestAmount: toPrincipalUnit(extension.interestAmount),
+      amendmentDocumentRequestId: extension.amendmentDocumentRequestId,
+    };
+  }
+}
@@ -0,0 +1,275 @@
+import type { LoanPartialRepayment } from '../../../shared/repositories/loan.types';
+
+import assert from 'node:assert';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+
+import { LoanCalculationService } from './loan-calculation.service';
+import { LoanPartialRepaymentService } from './loan-partial-repayment.service';
+
+const usdc = {
+  blockchainKey: 'eip155:56',
+  tokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+  decimals: 6,
+  symbol: 'USDC',
+  name: 'USD Coin',
+};
+
+const btc = {
+  blockchainKey: 'bip122:000000000019d6689c085ae165831e93',
+  tokenId: 'slip44:0',
+  decimals: 8,
+  symbol: 'BTC',
+  name: 'Bitcoin',
+};
+
+function createPartialRepayment(
+  overrides: Partial<LoanPartialRepayment> = {},
+): LoanPartialRepayment {
+  return {
+    invoiceId: '888',
+    loanId: 'loan-1',
+    loanStatus: 'Active',
+    borrowerUserId: 'borrower-1',
+    lenderUserId: 'lender-1',
+    repaidPrincipalAmount: '400000000', // 400 USDC
+    invoiceStatus: 'Paid',
+    paidDate: new Date('2024-04-01T00:00:00.000Z'), // half of the term remaining
+    principalCurrency: usdc,
+    collateralCurrency: btc,
+    principalAmount: '1000000000', // 1000 USDC
+    interestAmount: '100000000',
+    premiAmount: '30000000',
+    repaymentAmount: '1130000000',
+    redeliveryFeeAmount: '1000000',
+    liquidationFeeAmount: '20000000',
+    collateralAmount: '200000000', // 2 BTC
+    maxLtvRatio: 0.7,
+    originationDate: new Date('2024-01-01T00:00:00.000Z'),
+    maturityDate: new Date('2024-07-01T00:00:00.000Z'),
+    exchangeRate: {
+      id: '42',
+      bidPrice: '990',
+      askPrice: '1010',
+      sourceDate: new Date('2024-03-31T23:59:00.000Z'),
+    },
+    ...overrides,
+  };
+}
+
+describe('LoanPartialRepaymentService', () => {
+  let service: LoanPartialRepaymentService;
+  let mockRepository: {
+    userViewsLoanDetails: ReturnType<typeof mock.fn>;
+    borrowerRequestsLoanPartialRepayment: ReturnType<typeof mock.fn>;
+    platformViewsLoanPartialRepayment: ReturnType<typeof mock.fn>;
+    platformAppliesLoanPartialRepayment: ReturnType<typeof mock.fn>;
+  };
+  let mockInvoiceService: { prepareInvoice: ReturnType<typeof mock.fn> };
+  let mockIndexerEventService: { addWallet: ReturnType<typeof mock.fn> };
+
+  beforeEach(() => {
+    mockRepository = {
+      userViewsLoanDetails: mock.fn(() =>
+        Promise.resolve({
+          id: 'loan-1',
+          borrowerUserId: 'borrower-1',
+          lenderUserId: 'lender-1',
+          status: 'Active',
+          principalCurrency: usdc,
+          collateralCurrency: btc,
+          principalAmount: '1000000000',
+          interestAmount: '100000000',
+          premiAmount: '30000000',
+          repaymentAmount: '1130000000',
+          redeliveryFeeAmount: '1000000',
+          liquidationFeeAmount: '20000000',
+          collateralAmount: '200000000',
+          originationDate: new Date('2024-01-01T00:00:00.000Z'),
+          maturityDate: new Date('2099-01-01T00:00:00.000Z'),
+        }),
+      ),
+      borrowerRequestsLoanPartialRepayment: mock.fn(() =>
+        Promise.resolve({
+          loanId: 'loan-1',
+          repaidPrincipalAmount: '400000000',
+          principalCurrency: usdc,
+          repaymentInvoice: {
+            id: '888',
+            amount: '400000000',
+            currency: usdc,
+            status: 'Pending',
+            createdDate: new Date('2024-04-01T00:00:00.000Z'),
+            expiryDate: new Date('2024-04-04T00:00:00.000Z'),
+            walletAddress: '0xpartial',
+          },
+        }),
+      ),
+      platformViewsLoanPartialRepayment: mock.fn(() =>
+        Promise.resolve({ partialRepayment: createPartialRepayment() }),
+      ),
+      platformAppliesLoanPartialRepayment: mock.fn(
+        (params: {
+          invoiceId: string;
+          principalAmount: string;
+          interestAmount: string;
+          releasedCollateralAmount: string;
+          ltvRatio: number;
+          appliedDate: Date;
+        }) =>
+          Promise.resolve({
+            loanId: 'loan-1',
+            invoiceId: params.invoiceId,
+            repaidPrincipalAmount: '400000000',
+            principalAmount: params.principalAmount,
+            interestAmount: params.interestAmount,
+            releasedCollateralAmount: params.releasedCollateralAmount,
+            collateralAmount: '120000000',
+            ltvRatio: params.ltvRatio,
+            appliedDate: params.appliedDate,
+          }),
+      ),
+    };
+
+    mockInvoiceService = {
+      prepareInvoice: mock.fn(() =>
+        Promise.resolve({
+          invoiceId: 888,
+          walletAddress: '0xpartial',
+          walletDerivationPath: "m/44'/60'/5'/0/888",
+        }),
+      ),
+    };
+
+    mockIndexerEventService = {
+      addWallet: mock.fn(() => Promise.resolve()),
+    };
+
+    service = new LoanPartialRepaymentService(
+      // biome-ignore lint/suspicious/noExplicitAny: Mock repository for testing
+      mockRepository as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock invoice service for testing
+      mockInvoiceService as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock indexer event service for testing
+      mockIndexerEventService as any,
+      new LoanCalculationService(),
+    );
+  });
+
+  describe('requestPartialRepayment', () => {
+    it('should create a repayment invoice for the principal part and watch its wallet', async () => {
+      const response = await service.requestPartialRepayment('borrower-1', 'loan-1', {
+        acknowledgment: true,
+        amount: '400.000000000000000000',
+      });
+
+      const invoiceParams = mockInvoiceService.prepareInvoice.mock.calls[0].arguments[0] as Record<
+        string,
+        unknown
+      >;
+      assert.strictEqual(invoiceParams.invoiceType, 'LoanRepayment');
+      assert.strictEqual(invoiceParams.invoicedAmount, '400000000');
+
+      const requestParams = mockRepository.borrowerRequestsLoanPartialRepayment.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(requestParams.repaidPrincipalAmount, '400000000');
+      assert.strictEqual(requestParams.repaymentInvoiceId, 888);
+
+      assert.strictEqual(mockIndexerEventService.addWallet.mock.callCount(), 1);
+      assert.strictEqual(response.data.repaymentMode, 'Partial');
+      assert.strictEqual(response.data.repaymentBreakdown.loanDetails.principalAmount, '600');
+    });
+
+    it('should reject amounts covering the outstanding principal', async () => {
+      await assert.rejects(
+        service.requestPartialRepayment('borrower-1', 'loan-1', {
+          acknowledgment: true,
+          amount: '1000.000000000000000000',
+        }),
+        BadRequestException,
+      );
+      assert.strictEqual(mockInvoiceService.prepareInvoice.mock.callCount(), 0);
+    });
+
+    it('should reject lenders repaying the loan', async () => {
+      await assert.rejects(
+        service.requestPartialRepayment('lender-1', 'loan-1', {
+          acknowledgment: true,
+          amount: '400.000000000000000000',
+        }),
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('applyPaidPartialRepayment', () => {
+    it('should recompute interest for the remaining term and release the repaid collateral share', async () => {
+      const result = await service.applyPaidPartialRepayment(
+        '0xpartial',
+        new Date('2024-04-01T00:00:00.000Z'),
+      );
+
+      assert.ok(result);
+      const applyParams = mockRepository.platformAppliesLoanPartialRepayment.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(applyParams.previousPrincipalAmount, '1000000000');
+      assert.strictEqual(applyParams.principalAmount, '600000000');
+      // 40% of the principal repaid with half of the term left: 100 * 0.4 * 0.5
+      assert.strictEqual(applyParams.interestReductionAmount, '20000000');
+      assert.strictEqual(applyParams.interestAmount, '80000000');
+      assert.strictEqual(applyParams.repaymentAmount, '710000000');
+      assert.strictEqual(applyParams.redeliveryFeeAmount, '800000');
+      assert.strictEqual(applyParams.redeliveryAmount, '709200000');
+      assert.strictEqual(applyParams.minCollateralValuation, '730000000');
+      assert.strictEqual(applyParams.releasedCollateralAmount, '80000000');
+      assert.strictEqual(applyParams.debtAmount, '710000000');
+      assert.strictEqual(applyParams.collateralValuationAmount, '1200000000');
+      assert.ok((applyParams.ltvRatio as number) <= 0.7);
+    });
+
+    it('should cap the released collateral at the max LTV ratio', async () => {
+      mockRepository.platformViewsLoanPartialRepayment.mock.mockImplementation(() =>
+        Promise.resolve({ partialRepayment: createPartialRepayment({ maxLtvRatio: 0.5 }) }),
+      );
+
+      await service.applyPaidPartialRepayment('0xpartial', new Date('2024-04-01T00:00:00.000Z'));
+
+      const applyParams = mockRepository.platformAppliesLoanPartialRepayment.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      // 710 USDC debt at 0.5 max LTV and mid price 1000 needs 1.42 BTC
+      assert.strictEqual(applyParams.releasedCollateralAmount, '58000000');
+      assert.strictEqual(applyParams.ltvRatio, 0.5);
+    });
+
+    it('should ignore wallets that are not paid partial repayment invoices', async () => {
+      mockRepository.platformViewsLoanPartialRepayment.mock.mockImplementation(() =>
+        Promise.resolve({ partialRepayment: undefined }),
+      );
+      assert.strictEqual(await service.applyPaidPartialRepayment('0xother', new Date()), undefined);
+
+      mockRepository.platformViewsLoanPartialRepayment.mock.mockImplementation(() =>
+        Promise.resolve({
+          partialRepayment: createPartialRepayment({
+            invoiceStatus: 'PartiallyPaid',
+            paidDate: undefined,
+          }),
+        }),
+      );
+      assert.strictEqual(
+        await service.applyPaidPartialRepayment('0xpartial', new Date()),
+        undefined,
+      );
+
+      mockRepository.platformViewsLoanPartialRepayment.mock.mockImplementation(() =>
+        Promise.resolve({ partialRepayment: createPartialRepayment({ appliedDate: new Date() }) }),
+      );
+      assert.strictEqual(
+        await service.applyPaidPartialRepayment('0xpartial', new Date()),
+        undefined,
+      );
+
+      assert.strictEqual(mockRepository.platformAppliesLoanPartialRepayment.mock.callCount(), 0);
+    });
+  });
+});
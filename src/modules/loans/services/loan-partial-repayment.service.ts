@@ -0,0 +1,317 @@
+import type { PlatformAppliesLoanPartialRepaymentResult } from '../../../shared/repositories/loan.types';
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { InvoiceService } from '../../../shared/invoice/invoice.service';
+import { InvoiceError } from '../../../shared/invoice/invoice.types';
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { IndexerEventService } from '../../indexer/indexer-event.service';
+import {
+  EarlyRepaymentRequestDto,
+  EarlyRepaymentRequestResponseDto,
+} from '../dto/loan-operations.dto';
+import { LoanCalculationService } from './loan-calculation.service';
+
+const PARTIAL_REPAYMENT_INVOICE_VALIDITY_MS = 3 * 24 * 60 * 60 * 1000;
+const AVERAGE_DAYS_PER_MONTH = 30.44;
+
+@Injectable()
+export class LoanPartialRepaymentService {
+  private readonly logger = new TelemetryLogger(LoanPartialRepaymentService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly invoiceService: InvoiceService,
+    private readonly indexerEventService: IndexerEventService,
+    private readonly loanCalculationService: LoanCalculationService,
+  ) {}
+
+  /**
+   * Creates a LoanRepayment invoice for part of the principal of an active loan.
+   * Loan terms are recomputed and collateral is released once the invoice is paid.
+   */
+  async requestPartialRepayment(
+    userId: string,
+    loanId: string,
+    requestDto: EarlyRepaymentRequestDto,
+  ): Promise<EarlyRepaymentRequestResponseDto> {
+    this.logger.log(`Requesting partial repayment for loan: ${loanId}, borrower: ${userId}`);
+
+    if (!requestDto.acknowledgment) {
+      throw new BadRequestException('You must acknowledge the terms and conditions');
+    }
+
+    const loanDetails = await this.repository
+      .userViewsLoanDetails({ loanId, userId })
+      .catch(function (error) {
+        if (error instanceof Error && error.message.includes('Loan not found')) {
+          throw new NotFoundException('Loan not found');
+        }
+        throw error;
+      });
+
+    if (loanDetails.borrowerUserId !== userId) {
+      throw new ForbiddenException('Only the borrower can repay the loan');
+    }
+
+    if (loanDetails.status !== 'Active') {
+      throw new BadRequestException('Loan is not eligible for early repayment');
+    }
+
+    const { principalCurrency, collateralCurrency } = loanDetails;
+    const repaidPrincipalAmount = this.loanCalculationService.toSmallestUnit(
+      requestDto.amount ?? '0',
+      principalCurrency.decimals,
+    );
+
+    if (BigInt(repaidPrincipalAmount) <= 0n) {
+      throw new BadRequestException('Repayment amount must be positive');
+    }
+
+    if (BigInt(repaidPrincipalAmount) >= BigInt(loanDetails.principalAmount)) {
+      throw new BadRequestException(
+        'Repayment amount covers the outstanding principal, request a full repayment instead',
+      );
+    }
+
+    const requestDate = new Date();
+    if (loanDetails.maturityDate <= requestDate) {
+      throw new BadRequestException('Loan is not eligible for early repayment');
+    }
+
+    // Projection only, the terms are recomputed at the payment date
+    const projectedTerms = this.loanCalculationService.calculatePartialRepaymentTerms({
+      principalAmount: loanDetails.principalAmount,
+      interestAmount: loanDetails.interestAmount,
+      premiAmount: loanDetails.premiAmount,
+      repaymentAmount: loanDetails.repaymentAmount,
+      redeliveryFeeAmount: loanDetails.redeliveryFeeAmount,
+      liquidationFeeAmount: loanDetails.liquidationFeeAmount,
+      repaidPrincipalAmount,
+      originationDate: loanDetails.originationDate,
+      maturityDate: loanDetails.maturityDate,
+      repaymentDate: requestDate,
+    });
+
+    const dueDate = new Date(
+      Math.min(
+        requestDate.getTime() + PARTIAL_REPAYMENT_INVOICE_VALIDITY_MS,
+        loanDetails.maturityDate.getTime(),
+      ),
+    );
+
+    const invoiceDraft = await this.invoiceService
+      .prepareInvoice({
+        userId,
+        currencyBlockchainKey: principalCurrency.blockchainKey,
+        currencyTokenId: principalCurrency.tokenId,
+        invoiceType: 'LoanRepayment',
+        invoicedAmount: repaidPrincipalAmount,
+        invoiceDate: requestDate,
+        dueDate,
+        expiredDate: dueDate,
+      })
+      .catch(function (error) {
+        if (error instanceof InvoiceError) {
+          throw new BadRequestException(error.message);
+        }
+        throw error;
+      });
+
+    const result = await this.repository
+      .borrowerRequestsLoanPartialRepayment({
+        loanId,
+        borrowerUserId: userId,
+        repaidPrincipalAmount,
+        repaymentInvoiceId: invoiceDraft.invoiceId,
+        repaymentWalletDerivationPath: invoiceDraft.walletDerivationPath,
+        repaymentWalletAddress: invoiceDraft.walletAddress,
+        requestDate,
+        dueDate: invoiceDraft.dueDate ?? dueDate,
+        expiredDate: invoiceDraft.expiredDate ?? dueDate,
+      })
+      .catch(function (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (
+          message.includes('pending partial repayment') ||
+          message.includes('repayment already requested') ||
+          message.includes('at or past maturity')
+        ) {
+          throw new BadRequestException(message);
+        }
+        throw error;
+      });
+
+    await this.indexerEventService.addWallet(
+      principalCurrency.blockchainKey,
+      principalCurrency.tokenId,
+      invoiceDraft.walletAddress,
+      invoiceDraft.walletDerivationPath,
+    );
+
+    const totalTermDays =
+      (loanDetails.maturityDate.getTime() - loanDetails.originationDate.getTime()) /
+      (1000 * 60 * 60 * 24);
+    const elapsedDays = totalTermDays - projectedTerms.remainingTermDays;
+    const logoUrl = `https://assets.cryptogadai.com/currencies/${principalCurrency.symbol.toLowerCase()}.png`;
+    const toPrincipalUnit = (amount: string) =>
+      this.loanCalculationService.fromSmallestUnit(amount, principalCurrency.decimals);
+
+    return {
+      success: true,
+      data: {
+        repaymentId: result.repaymentInvoice.id,
+        loanId,
+        status: 'Pending',
+        repaymentMode: 'Partial',
+        submittedDate: requestDate.toISOString(),
+        repaymentBreakdown: {
+          loanDetails: {
+            principalAmount: toPrincipalUnit(projectedTerms.principalAmount),
+            interestAmount: toPrincipalUnit(projectedTerms.interestAmount),
+            originationFeeAmount: toPrincipalUnit(loanDetails.premiAmount),
+            totalRepaymentAmount: toPrincipalUnit(projectedTerms.repaymentAmount),
+          },
+          paymentTerms: {
+            earlyPaymentFee: '0',
+            interestReduction: toPrincipalUnit(projectedTerms.interestReductionAmount),
+            paymentCurrency: { ...principalCurrency, logoUrl },
+          },
+          calculationDetails: {
+            originalTermMonths: Math.ceil(totalTermDays / AVERAGE_DAYS_PER_MONTH),
+            earlyPaymentAtMonth: Math.ceil(elapsedDays / AVERAGE_DAYS_PER_MONTH),
+            remainingTermMonths: Math.ceil(
+              projectedTerms.remainingTermDays / AVERAGE_DAYS_PER_MONTH,
+            ),
+            calculationDate: requestDate.toISOString(),
+          },
+          disclaimers: [
+            'Interest already accrued on the full principal is charged in full',
+            'Interest for the remaining term is charged on the remaining principal only',
+            'Origination fee is not refunded',
+            'Loan details are a projection, final figures are computed at the payment date',
+          ],
+        },
+        repaymentInvoice: {
+          id: result.repaymentInvoice.id,
+          amount: toPrincipalUnit(result.repaymentInvoice.amount),
+          currency: { ...result.repaymentInvoice.currency, logoUrl },
+          walletAddress: invoiceDraft.walletAddress,
+          expiryDate: result.repaymentInvoice.expiryDate.toISOString(),
+        },
+        nextSteps: [
+          'Payment invoice has been created for the partial repayment amount',
+          `Pay the invoice (${toPrincipalUnit(result.repaidPrincipalAmount)} ${principalCurrency.symbol}) before ${result.repaymentInvoice.expiryDate.toISOString()}`,
+          `Part of the collateral (${collateralCurrency.symbol}) will be released upon payment confirmation, as long as the loan stays within the maximum LTV`,
+          'The remaining balance stays due at maturity',
+        ],
+      },
+      message:
+        'Partial repayment request submitted successfully. Please pay the invoice to reduce the loan principal.',
+    };
+  }
+
+  /**
+   * Applies a paid partial repayment invoice to its loan: recomputes the loan terms,
+   * passes the payment to the lender and releases collateral within the max LTV ratio.
+   * Returns undefined when the wallet does not belong to a partial repayment that is ready to apply.
+   */
+  async applyPaidPartialRepayment(
+    walletAddress: string,
+    appliedDate: Date,
+  ): Promise<PlatformAppliesLoanPartialRepaymentResult | undefined> {
+    const { partialRepayment } = await this.repository.platformViewsLoanPartialRepayment({
+      walletAddress,
+    });
+
+    if (
+      !partialRepayment ||
+      partialRepayment.appliedDate ||
+      partialRepayment.invoiceStatus !== 'Paid' ||
+      !partialRepayment.paidDate
+    ) {
+      return undefined;
+    }
+
+    if (!partialRepayment.exchangeRate) {
+      throw new Error(
+        `Exchange rate not available for ${partialRepayment.collateralCurrency.symbol}, cannot value loan ${partialRepayment.loanId}`,
+      );
+    }
+
+    const terms = this.loanCalculationService.calculatePartialRepaymentTerms({
+      principalAmount: partialRepayment.principalAmount,
+      interestAmount: partialRepayment.interestAmount,
+      premiAmount: partialRepayment.premiAmount,
+      repaymentAmount: partialRepayment.repaymentAmount,
+      redeliveryFeeAmount: partialRepayment.redeliveryFeeAmount,
+      liquidationFeeAmount: partialRepayment.liquidationFeeAmount,
+      repaidPrincipalAmount: partialRepayment.repaidPrincipalAmount,
+      originationDate: partialRepayment.originationDate,
+      maturityDate: partialRepayment.maturityDate,
+      repaymentDate: partialRepayment.paidDate,
+    });
+
+    const totalDebtAmount = (
+      BigInt(terms.principalAmount) +
+      BigInt(terms.interestAmount) +
+      BigInt(partialRepayment.premiAmount)
+    ).toString();
+
+    const releasedCollateralAmount = this.loanCalculationService.calculateCollateralRelease({
+      collateralAmount: partialRepayment.collateralAmount,
+      collateralDecimals: partialRepayment.collateralCurrency.decimals,
+      previousPrincipalAmount: partialRepayment.principalAmount,
+      repaidPrincipalAmount: partialRepayment.repaidPrincipalAmount,
+      totalDebtAmount,
+      principalDecimals: partialRepayment.principalCurrency.decimals,
+      maxLtvRatio: partialRepayment.maxLtvRatio,
+      exchangeRate: partialRepayment.exchangeRate,
+    });
+
+    const valuation = this.loanCalculationService.calculateLoanValuation({
+      principalAmount: terms.principalAmount,
+      interestAmount: terms.interestAmount,
+      premiAmount: partialRepayment.premiAmount,
+      principalDecimals: partialRepayment.principalCurrency.decimals,
+      collateralAmount: (
+        BigInt(partialRepayment.collateralAmount) - BigInt(releasedCollateralAmount)
+      ).toString(),
+      collateralDecimals: partialRepayment.collateralCurrency.decimals,
+      exchangeRate: partialRepayment.exchangeRate,
+    });
+
+    const result = await this.repository.platformAppliesLoanPartialRepayment({
+      invoiceId: partialRepayment.invoiceId,
+      previousPrincipalAmount: partialRepayment.principalAmount,
+      principalAmount: terms.principalAmount,
+      interestAmount: terms.interestAmount,
+      interestReductionAmount: terms.interestReductionAmount,
+      repaymentAmount: terms.repaymentAmount,
+      redeliveryFeeAmount: terms.redeliveryFeeAmount,
+      redeliveryAmount: terms.redeliveryAmount,
+      minCollateralValuation: terms.minCollateralValuation,
+      mcLtvRatio: terms.mcLtvRatio,
+      releasedCollateralAmount,
+      exchangeRateId: partialRepayment.exchangeRate.id,
+      ltvRatio: valuation.ltvRatio,
+      collateralValuationAmount: valuation.collateralValuationAmount,
+      debtAmount: valuation.totalDebtAmount,
+      appliedDate,
+    });
+
+    this.logger.log(
+      `Applied partial repayment ${result.invoiceId} to loan ${result.loanId}: principal ${partialRepayment.principalAmount} → ${result.principalAmount}, released ${result.releasedCollateralAmount} collateral, LTV ${result.ltvRatio.toFixed(4)}`,
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,183 @@
+import type { LoanPositionListing } from '../../../shared/repositories/loan.types';
+
+import assert from 'node:assert';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+
+import { LoanCalculationService } from './loan-calculation.service';
+import { LoanPositionService } from './loan-position.service';
+
+const usdc = {
+  blockchainKey: 'eip155:56',
+  tokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+  decimals: 6,
+  symbol: 'USDC',
+  name: 'USD Coin',
+};
+
+const btc = {
+  blockchainKey: 'bip122:000000000019d6689c085ae165831e93',
+  tokenId: 'slip44:0',
+  decimals: 8,
+  symbol: 'BTC',
+  name: 'Bitcoin',
+};
+
+const maturityDate = new Date('2099-07-01T00:00:00.000Z');
+
+function createListing(overrides: Partial<LoanPositionListing> = {}): LoanPositionListing {
+  return {
+    id: '17',
+    loanId: 'loan-1',
+    sellerUserId: 'lender-1',
+    askingPriceAmount: '1020000000', // 1020 USDC
+    status: 'Listed',
+    listedDate: new Date('2099-03-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+describe('LoanPositionService', () => {
+  let service: LoanPositionService;
+  let mockRepository: {
+    userViewsLoanDetails: ReturnType<typeof mock.fn>;
+    userViewsKYCStatus: ReturnType<typeof mock.fn>;
+    lenderListsLoanPosition: ReturnType<typeof mock.fn>;
+    lenderPurchasesLoanPosition: ReturnType<typeof mock.fn>;
+  };
+  let mockDocumentService: { createDocumentRequest: ReturnType<typeof mock.fn> };
+  let mockNotificationQueueService: { queueNotification: ReturnType<typeof mock.fn> };
+
+  beforeEach(() => {
+    mockRepository = {
+      userViewsLoanDetails: mock.fn(() =>
+        Promise.resolve({
+          id: 'loan-1',
+          borrowerUserId: 'borrower-1',
+          lenderUserId: 'lender-1',
+          status: 'Active',
+          principalCurrency: usdc,
+          collateralCurrency: btc,
+          principalAmount: '1000000000',
+          interestAmount: '50000000',
+          maturityDate,
+        }),
+      ),
+      userViewsKYCStatus: mock.fn(() => Promise.resolve({ status: 'verified' })),
+      lenderListsLoanPosition: mock.fn((params: { askingPriceAmount: string }) =>
+        Promise.resolve(createListing({ askingPriceAmount: params.askingPriceAmount })),
+      ),
+      lenderPurchasesLoanPosition: mock.fn(
+        (params: { buyerUserId: string; transferDocumentRequestId: string; purchaseDate: Date }) =>
+          Promise.resolve({
+            ...createListing({
+              status: 'Sold',
+              transferDocumentRequestId: params.transferDocumentRequestId,
+            }),
+            buyerUserId: params.buyerUserId,
+            soldDate: params.purchaseDate,
+            borrowerUserId: 'borrower-1',
+            principalCurrency: usdc,
+            principalAmount: '1000000000',
+            interestAmount: '50000000',
+            redeliveryAmount: '1049500000',
+            collateralCurrency: btc,
+            collateralAmount: '200000000',
+            currentLtvRatio: 0.55,
+            maturityDate,
+          }),
+      ),
+    };
+
+    mockDocumentService = {
+      createDocumentRequest: mock.fn(() => Promise.resolve({ id: 'doc-1' })),
+    };
+
+    mockNotificationQueueService = {
+      queueNotification: mock.fn(() => Promise.resolve()),
+    };
+
+    service = new LoanPositionService(
+      // biome-ignore lint/suspicious/noExplicitAny: Mock repository for testing
+      mockRepository as any,
+      new LoanCalculationService(),
+      // biome-ignore lint/suspicious/noExplicitAny: Mock document service for testing
+      mockDocumentService as any,
+      // biome-ignore lint/suspicious/noExplicitAny: Mock notification queue for testing
+      mockNotificationQueueService as any,
+    );
+  });
+
+  describe('listPosition', () => {
+    it('should list the position at the asking price in principal units', async () => {
+      const response = await service.listPosition('lender-1', 'loan-1', {
+        askingPrice: '1020.000000000000000000',
+      });
+
+      const listParams = mockRepository.lenderListsLoanPosition.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(listParams.sellerUserId, 'lender-1');
+      assert.strictEqual(listParams.askingPriceAmount, '1020000000');
+
+      assert.strictEqual(response.data.status, 'Listed');
+      assert.strictEqual(response.data.askingPrice, '1020');
+    });
+
+    it('should reject borrowers listing the loan', async () => {
+      await assert.rejects(
+        service.listPosition('borrower-1', 'loan-1', { askingPrice: '1020.000000000000000000' }),
+        ForbiddenException,
+      );
+      assert.strictEqual(mockRepository.lenderListsLoanPosition.mock.callCount(), 0);
+    });
+  });
+
+  describe('purchasePosition', () => {
+    it('should transfer the position, queue the transfer deed and notify the seller', async () => {
+      const response = await service.purchasePosition('lender-2', '17');
+
+      const purchaseParams = mockRepository.lenderPurchasesLoanPosition.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(purchaseParams.listingId, '17');
+      assert.strictEqual(purchaseParams.buyerUserId, 'lender-2');
+
+      const documentCall = mockDocumentService.createDocumentRequest.mock.calls[0];
+      assert.strictEqual(documentCall.arguments[0], 'LoanPositionTransfer');
+      assert.strictEqual(documentCall.arguments[1], 'loan-1');
+      assert.strictEqual(documentCall.arguments[4], purchaseParams.transferDocumentRequestId);
+      const deed = documentCall.arguments[2] as Record<string, unknown>;
+      assert.strictEqual(deed.sellerId, 'lender-1');
+      assert.strictEqual(deed.buyerId, 'lender-2');
+      assert.strictEqual(deed.purchasePriceAmount, '1020');
+
+      const notification = mockNotificationQueueService.queueNotification.mock.calls[0]
+        .arguments[0] as Record<string, unknown>;
+      assert.strictEqual(notification.type, 'LoanPositionSold');
+      assert.strictEqual(notification.userId, 'lender-1');
+      assert.strictEqual(notification.salePriceAmount, '1020');
+
+      assert.strictEqual(response.data.status, 'Sold');
+      assert.strictEqual(response.data.redeliveryAmount, '1049.5');
+    });
+
+    it('should require a verified KYC', async () => {
+      mockRepository.userViewsKYCStatus.mock.mockImplementation(() =>
+        Promise.resolve({ status: 'pending' }),
+      );
+
+      await assert.rejects(service.purchasePosition('lender-2', '17'), ForbiddenException);
+      assert.strictEqual(mockRepository.lenderPurchasesLoanPosition.mock.callCount(), 0);
+    });
+
+    it('should surface insufficient buyer balance as a bad request', async () => {
+      mockRepository.lenderPurchasesLoanPosition.mock.mockImplementation(() =>
+        Promise.reject(new Error('Insufficient balance on account 9')),
+      );
+
+      await assert.rejects(service.purchasePosition('lender-2', '17'), BadRequestException);
+      assert.strictEqual(mockDocumentService.createDocumentRequest.mock.callCount(), 0);
+      assert.strictEqual(mockNotificationQueueService.queueNotification.mock.callCount(), 0);
+    });
+  });
+});
@@ -0,0 +1,302 @@
+import type {
+  Currency,
+  LoanPositionListing,
+  LoanPositionListingDetails,
+} from '../../../shared/repositories/loan.types';
+import type { LoanPositionTransferData } from '../../documents/document.types';
+import type { NotificationData } from '../../notifications/notification.types';
+import type { CurrencyDto } from '../dto/common.dto';
+
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+
+import { v4 as uuidv4 } from 'uuid';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { DocumentService } from '../../documents/document.service';
+import { DocumentTypeEnum } from '../../documents/document.types';
+import { NotificationQueueService } from '../../notifications/notification-queue.service';
+import {
+  LoanPositionListingDataDto,
+  LoanPositionListingListResponseDto,
+  LoanPositionListingRequestDto,
+  LoanPositionListingResponseDto,
+} from '../dto/loan-operations.dto';
+import { LoanCalculationService } from './loan-calculation.service';
+
+// Repository errors a caller can act on, everything else is a server error
+const LOAN_POSITION_REJECTIONS = [
+  'Cannot list loan position',
+  'Cannot cancel loan position listing',
+  'Cannot purchase',
+  'already listed',
+  'pending liquidation',
+  'no longer held by the seller',
+];
+
+function mapLoanPositionError(error: unknown): never {
+  const message = error instanceof Error ? error.message : String(error);
+  if (message.includes('Insufficient balance')) {
+    throw new BadRequestException('Platform balance does not cover the asking price');
+  }
+  if (message.includes('not found')) {
+    throw new NotFoundException(message);
+  }
+  if (LOAN_POSITION_REJECTIONS.some(rejection => message.includes(rejection))) {
+    throw new BadRequestException(message);
+  }
+  throw error;
+}
+
+@Injectable()
+export class LoanPositionService {
+  private readonly logger = new TelemetryLogger(LoanPositionService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly loanCalculationService: LoanCalculationService,
+    private readonly documentService: DocumentService,
+    private readonly notificationQueueService: NotificationQueueService,
+  ) {}
+
+  /**
+   * Offers the lender's position in an active loan for sale at a price in the principal currency.
+   */
+  async listPosition(
+    userId: string,
+    loanId: string,
+    requestDto: LoanPositionListingRequestDto,
+  ): Promise<LoanPositionListingResponseDto> {
+    this.logger.log(`Listing position of loan: ${loanId}, lender: ${userId}`);
+
+    const loanDetails = await this.repository
+      .userViewsLoanDetails({ loanId, userId })
+      .catch(function (error) {
+        if (error instanceof Error && error.message.includes('Loan not found')) {
+          throw new NotFoundException('Loan not found');
+        }
+        throw error;
+      });
+
+    if (loanDetails.lenderUserId !== userId) {
+      throw new ForbiddenException('Only the lender can list a loan position');
+    }
+
+    if (loanDetails.status !== 'Active') {
+      throw new BadRequestException('Only active loans can be listed');
+    }
+
+    const askingPriceAmount = this.loanCalculationService.toSmallestUnit(
+      requestDto.askingPrice,
+      loanDetails.principalCurrency.decimals,
+    );
+
+    if (BigInt(askingPriceAmount) <= 0n) {
+      throw new BadRequestException('Asking price must be positive');
+    }
+
+    const listing = await this.repository
+      .lenderListsLoanPosition({
+        loanId,
+        sellerUserId: userId,
+        askingPriceAmount,
+        listedDate: new Date(),
+      })
+      .catch(mapLoanPositionError);
+
+    return {
+      success: true,
+      data: this.toListingDataDto(listing, loanDetails.principalCurrency.decimals),
+      message: 'Loan position listed successfully',
+    };
+  }
+
+  async cancelListing(userId: string, listingId: string): Promise<LoanPositionListingResponseDto> {
+    this.logger.log(`Cancelling position listing: ${listingId}, lender: ${userId}`);
+
+    const listing = await this.repository
+      .lenderCancelsLoanPositionListing({
+        listingId,
+        sellerUserId: userId,
+        cancelledDate: new Date(),
+      })
+      .catch(mapLoanPositionError);
+
+    const loanDetails = await this.repository.userViewsLoanDetails({
+      loanId: listing.loanId,
+      userId,
+    });
+
+    return {
+      success: true,
+      data: this.toListingDataDto(listing, loanDetails.principalCurrency.decimals),
+      message: 'Loan position listing cancelled',
+    };
+  }
+
+  async browseListings(params: {
+    principalBlockchainKey?: string;
+    principalTokenId?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<LoanPositionListingListResponseDto> {
+    const { listings, pagination } = await this.repository.lenderViewsLoanPositionListings(params);
+
+    return {
+      success: true,
+      data: {
+        listings: listings.map(listing => this.toListingDetailsDataDto(listing)),
+        pagination,
+      },
+    };
+  }
+
+  /**
+   * Buys a listed position from platform balance. The buyer becomes the lender of record for
+   * every later repayment, interest and liquidation flow, and a transfer deed is generated.
+   */
+  async purchasePosition(
+    userId: string,
+    listingId: string,
+  ): Promise<LoanPositionListingResponseDto> {
+    this.logger.log(`Purchasing position listing: ${listingId}, buyer: ${userId}`);
+
+    const { status: kycStatus } = await this.repository.userViewsKYCStatus({ userId });
+    if (kycStatus !== 'verified') {
+      throw new ForbiddenException('KYC must be verified before buying a loan position');
+    }
+
+    const purchaseDate = new Date();
+    const transferDocumentRequestId = uuidv4();
+
+    const result = await this.repository
+      .lenderPurchasesLoanPosition({
+        listingId,
+        buyerUserId: userId,
+        transferDocumentRequestId,
+        purchaseDate,
+      })
+      .catch(mapLoanPositionError);
+
+    const { principalCurrency } = result;
+    const toPrincipalUnit = (amount: string) =>
+      this.loanCalculationService.fromSmallestUnit(amount, principalCurrency.decimals);
+
+    const transferData: LoanPositionTransferData = {
+      id: transferDocumentRequestId,
+      type: DocumentTypeEnum.LOAN_POSITION_TRANSFER,
+      loanId: result.loanId,
+      listingId: result.id,
+      borrowerId: result.borrowerUserId,
+      sellerId: result.sellerUserId,
+      buyerId: result.buyerUserId,
+      purchasePriceAmount: toPrincipalUnit(result.askingPriceAmount),
+      principalAmount: toPrincipalUnit(result.principalAmount),
+      interestAmount: toPrincipalUnit(result.interestAmount),
+      redeliveryAmount: toPrincipalUnit(result.redeliveryAmount),
+      maturityDate: result.maturityDate,
+      transferDate: result.soldDate,
+      principalCurrency: {
+        name: principalCurrency.name,
+        symbol: principalCurrency.symbol,
+      },
+    };
+
+    // The transfer is already committed, a failed deed stays visible in loan_documents
+    try {
+      await this.documentService.createDocumentRequest(
+        DocumentTypeEnum.LOAN_POSITION_TRANSFER,
+        result.loanId,
+        transferData,
+        { listingId: result.id },
+        transferDocumentRequestId,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to queue transfer deed ${transferDocumentRequestId} for loan ${result.loanId}: ${error.message}`,
+        error.stack,
+      );
+    }
+
+    await this.queueNotification({
+      type: 'LoanPositionSold',
+      userId: result.sellerUserId,
+      loanId: result.loanId,
+      listingId: result.id,
+      salePriceAmount: toPrincipalUnit(result.askingPriceAmount),
+      currency: principalCurrency.symbol,
+    });
+
+    return {
+      success: true,
+      data: this.toListingDetailsDataDto(result),
+      message: 'Loan position purchased. The transfer deed is being generated.',
+    };
+  }
+
+  // Notifications go out after the change is committed, a queue failure must not fail the request
+  private async queueNotification(data: NotificationData) {
+    try {
+      await this.notificationQueueService.queueNotification(data);
+    } catch (error) {
+      this.logger.error(`Failed to queue ${data.type} notification: ${error.message}`, error.stack);
+    }
+  }
+
+  private toCurrencyDto(currency: Currency): CurrencyDto {
+    return {
+      blockchainKey: currency.blockchainKey,
+      tokenId: currency.tokenId,
+      name: currency.name,
+      symbol: currency.symbol,
+      decimals: currency.decimals,
+      logoUrl: `https://assets.cryptogadai.com/currencies/${currency.symbol.toLowerCase()}.png`,
+    };
+  }
+
+  private toListingDataDto(
+    listing: LoanPositionListing,
+    decimals: number,
+  ): LoanPositionListingDataDto {
+    return {
+      id: listing.id,
+      loanId: listing.loanId,
+      status: listing.status,
+      askingPrice: this.loanCalculationService.fromSmallestUnit(
+        listing.askingPriceAmount,
+        decimals,
+      ),
+      listedDate: listing.listedDate.toISOString(),
+      soldDate: listing.soldDate?.toISOString(),
+      cancelledDate: listing.cancelledDate?.toISOString(),
+      transferDocumentRequestId: listing.transferDocumentRequestId,
+    };
+  }
+
+  private toListingDetailsDataDto(listing: LoanPositionListingDetails): LoanPositionListingDataDto {
+    const toPrincipalUnit = (amount: string) =>
+      this.loanCalculationService.fromSmallestUnit(amount, listing.principalCurrency.decimals);
+
+    return {
+      ...this.toListingDataDto(listing, listing.principalCurrency.decimals),
+      principalCurrency: this.toCurrencyDto(listing.principalCurrency),
+      principalAmount: toPrincipalUnit(listing.principalAmount),
+      interestAmount: toPrincipalUnit(listing.interestAmount),
+      redeliveryAmount: toPrincipalUnit(listing.redeliveryAmount),
+      collateralCurrency: this.toCurrencyDto(listing.collateralCurrency),
+      collateralAmount: this.loanCalculationService.fromSmallestUnit(
+        listing.collateralAmount,
+        listing.collateralCurrency.decimals,
+      ),
+      currentLtvRatio: listing.currentLtvRatio,
+      maturityDate: listing.maturityDate.toISOString(),
+    };
+  }
+}
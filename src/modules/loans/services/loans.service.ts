@@ -11,7 +11,10 @@ import BigNumber from 'bignumber.js';
 import { assertDefined, assertProp, assertPropString, check, isNumber, isString } from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
-import { LoanStatus as RepositoryLoanStatus } from '../../../shared/repositories/loan.types';
+import {
+  PlatformOriginatesLoanTranchesParams,
+  LoanStatus as RepositoryLoanStatus,
+} from '../../../shared/repositories/loan.types';
 import { TelemetryLogger } from '../../../shared/telemetry.logger';
 import { DocumentService } from '../../documents/document.service';
 import { DocumentGenerationStatus, DocumentTypeEnum } from '../../documents/document.types';
@@ -34,6 +37,7 @@ import {
 } from '../dto/loans.dto';
 import { LoanCalculationService } from './loan-calculation.service';
 import { LoanDocumentRequestService } from './loan-document-request.service';
+import { LoanPartialRepaymentService } from './loan-partial-repayment.service';
 
 interface ListLoansParams {
   page: number;
@@ -58,6 +62,7 @@ export class LoansService {
     private readonly loanCalculationService: LoanCalculationService,
     private readonly loanDocumentRequestService: LoanDocumentRequestService,
     private readonly documentService: DocumentService,
+    private readonly loanPartialRepaymentService: LoanPartialRepaymentService,
   ) {}
 
   /**
@@ -311,7 +316,14 @@ export class LoansService {
         valuationDate: valuation.valuationDate.toISOString(),
         ltvRatio: valuation.ltvRatio,
         collateralValue: valuation.collateralValuationAmount,
+        debtValue: valuation.debtAmount,
         exchangeRate: valuation.exchangeRateId || '0.000000000000000000', // Use actual exchange rate from valuation
+        priceBasis: valuation.priceBasis && {
+          priceMode: valuation.priceBasis.priceMode,
+          valuationPrice: valuation.priceBasis.valuationPrice,
+          priceWindowStartDate: valuation.priceBasis.priceWindowStartDate?.toISOString(),
+          priceSampleCount: valuation.priceBasis.priceSampleCount,
+        },
       }));
 
       return {
@@ -633,12 +645,17 @@ export class LoansService {
 
   /**
    * Request early repayment
+   * A request with an amount pays down part of the principal, see LoanPartialRepaymentService
    */
   async requestEarlyRepayment(
     userId: string,
     loanId: string,
     requestDto: EarlyRepaymentRequestDto,
   ): Promise<EarlyRepaymentRequestResponseDto> {
+    if (requestDto.amount !== undefined) {
+      return this.loanPartialRepaymentService.requestPartialRepayment(userId, loanId, requestDto);
+    }
+
     try {
       this.logger.log(`Requesting early repayment for loan: ${loanId}, borrower: ${userId}`);
 
@@ -707,6 +724,7 @@ export class LoansService {
           repaymentId: repaymentResult.data.repaymentInvoice.id,
           loanId,
           status: 'Pending' as const,
+          repaymentMode: 'Full' as const,
           submittedDate: new Date().toISOString(),
           repaymentBreakdown: {
             loanDetails: {
@@ -992,6 +1010,37 @@ export class LoansService {
     }
   }
 
+  /**
+   * Originate one loan per offer tranche of an application split across several offers
+   */
+  async originateLoanTranches(
+    params: PlatformOriginatesLoanTranchesParams,
+  ): Promise<{ loanIds: string[] }> {
+    this.logger.log(
+      `Originating ${params.tranches.length} loan tranches for application ${params.loanApplicationId}`,
+    );
+
+    try {
+      const result = await this.repository.platformOriginatesLoanTranches(params);
+
+      for (const loan of result.loans) {
+        await this.requestLoanDocumentGeneration(loan.id, 'LoanAgreement', 'platform');
+      }
+
+      this.logger.log(
+        `Loan tranches originated successfully: ${result.loans.map(loan => loan.id).join(', ')}`,
+      );
+
+      return { loanIds: result.loans.map(loan => loan.id) };
+    } catch (error) {
+      this.logger.error(
+        `Failed to originate loan tranches for application ${params.loanApplicationId}: ${error.message}`,
+        error.stack,
+      );
+      throw new BadRequestException(`Failed to originate loan tranches: ${error.message}`);
+    }
+  }
+
   /**
    * Match loan offer and application, then originate the loan
    */
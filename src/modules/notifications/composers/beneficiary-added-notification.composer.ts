@@ -0,0 +1,149 @@
+import type {
+  AnyNotificationPayload,
+  EmailNotificationPayload,
+  ExpoNotificationPayload,
+  NotificationData,
+  SMSNotificationPayload,
+} from '../notification.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { assertDefined, assertPropString } from 'typeshaper';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { NotificationChannelEnum } from '../notification.types';
+import {
+  Composer,
+  NotificationComposer,
+  type UserNotificationData,
+} from '../notification-composer.abstract';
+
+export type BeneficiaryAddedNotificationData = NotificationData & {
+  type: 'BeneficiaryAdded';
+  userId: string;
+  beneficiaryId: string;
+  blockchain: string;
+  address: string;
+  activationDate: string;
+  freezeUrl: string;
+} & Partial<UserNotificationData>;
+
+function assertBeneficiaryAddedNotificationData(
+  data: unknown,
+): asserts data is BeneficiaryAddedNotificationData {
+  assertDefined(data, 'Notification data is required');
+  assertPropString(data, 'userId', 'User ID is required');
+  assertPropString(data, 'beneficiaryId', 'Beneficiary ID is required');
+  assertPropString(data, 'blockchain', 'Blockchain is required');
+  assertPropString(data, 'address', 'Wallet address is required');
+  assertPropString(data, 'activationDate', 'Activation date is required');
+  assertPropString(data, 'freezeUrl', 'Freeze URL is required');
+}
+
+@Injectable()
+@Composer('BeneficiaryAdded')
+export class BeneficiaryAddedNotificationComposer extends NotificationComposer<BeneficiaryAddedNotificationData> {
+  constructor(repository: CryptogadaiRepository) {
+    super(repository);
+  }
+
+  async composePayloads(data: unknown): Promise<AnyNotificationPayload[]> {
+    assertBeneficiaryAddedNotificationData(data);
+
+    const enrichedData = await this.enrichWithUserData(data);
+
+    const payloads: AnyNotificationPayload[] = [];
+    const formattedActivationDate = new Date(enrichedData.activationDate).toLocaleString();
+
+    if (enrichedData.email) {
+      payloads.push({
+        channel: NotificationChannelEnum.Email,
+        to: enrichedData.email,
+        subject: 'New withdrawal address added - CryptoGadai',
+        htmlBody: this.renderEmailHtmlBody(enrichedData, formattedActivationDate),
+        textBody: this.renderEmailTextBody(enrichedData, formattedActivationDate),
+      } as EmailNotificationPayload);
+    }
+
+    if (enrichedData.phoneNumber) {
+      payloads.push({
+        channel: NotificationChannelEnum.SMS,
+        to: enrichedData.phoneNumber,
+        message: `CryptoGadai Security: New ${enrichedData.blockchain} withdrawal address usable from ${formattedActivationDate}. Not you? Freeze withdrawals: ${enrichedData.freezeUrl}`,
+      } as SMSNotificationPayload);
+    }
+
+    // Expo notification - multi-device support
+    const tokens =
+      enrichedData.expoPushTokens ||
+      (enrichedData.expoPushToken ? [enrichedData.expoPushToken] : []);
+    for (const token of tokens) {
+      payloads.push({
+        channel: NotificationChannelEnum.Expo,
+        to: token,
+        title: 'New Withdrawal Address Added',
+        body: `Usable for withdrawals from ${formattedActivationDate}`,
+        priority: 'high',
+        data: {
+          type: 'BeneficiaryAdded',
+          beneficiaryId: enrichedData.beneficiaryId,
+          freezeUrl: enrichedData.freezeUrl,
+        },
+      } as ExpoNotificationPayload);
+    }
+
+    return payloads;
+  }
+
+  private renderEmailHtmlBody(
+    data: BeneficiaryAddedNotificationData,
+    formattedActivationDate: string,
+  ): string {
+    return `
+      <html>
+        <body>
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #dc2626;">New Withdrawal Address Added</h2>
+            <p>A new withdrawal address was verified on your CryptoGadai account.
+            For your security it can only receive withdrawals after a cooling-off period.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 5px;">
+              <ul style="list-style: none; padding: 0;">
+                <li><strong>Blockchain:</strong> ${data.blockchain}</li>
+                <li><strong>Address:</strong> <code>${data.address}</code></li>
+                <li><strong>Usable From:</strong> ${formattedActivationDate}</li>
+              </ul>
+            </div>
+
+            <p>If you did not add this address, freeze withdrawals immediately and contact our support team.</p>
+
+            <p style="margin-top: 30px;">
+              <a href="${data.freezeUrl}" style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+                This wasn't me
+              </a>
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private renderEmailTextBody(
+    data: BeneficiaryAddedNotificationData,
+    formattedActivationDate: string,
+  ): string {
+    return `
+New Withdrawal Address Added
+
+A new withdrawal address was verified on your CryptoGadai account.
+For your security it can only receive withdrawals after a cooling-off period.
+
+- Blockchain: ${data.blockchain}
+- Address: ${data.address}
+- Usable From: ${formattedActivationDate}
+
+If you did not add this address, freeze withdrawals immediately and contact our support team:
+${data.freezeUrl}
+    `.trim();
+  }
+}
@@ -0,0 +1,146 @@
+import type {
+  AnyNotificationPayload,
+  EmailNotificationPayload,
+  ExpoNotificationPayload,
+  NotificationData,
+} from '../notification.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { assertDefined, assertPropString, hasPropDefined } from 'typeshaper';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { NotificationChannelEnum } from '../notification.types';
+import {
+  Composer,
+  NotificationComposer,
+  type UserNotificationData,
+} from '../notification-composer.abstract';
+
+export type LoanExtensionAcceptedNotificationData = NotificationData & {
+  type: 'LoanExtensionAccepted';
+  userId: string;
+  loanId: string;
+  extensionId: string;
+  maturityDate: string;
+  repaymentAmount?: string;
+  currency?: string;
+} & Partial<UserNotificationData>;
+
+function assertLoanExtensionAcceptedNotificationData(
+  data: unknown,
+): asserts data is LoanExtensionAcceptedNotificationData {
+  assertDefined(data, 'Notification data is required');
+  assertPropString(data, 'userId', 'User ID is required');
+  assertPropString(data, 'loanId', 'Loan ID is required');
+  assertPropString(data, 'extensionId', 'Extension ID is required');
+  assertPropString(data, 'maturityDate', 'Maturity date is required');
+  if (hasPropDefined(data, 'repaymentAmount')) {
+    assertPropString(data, 'repaymentAmount');
+  }
+}
+
+@Injectable()
+@Composer('LoanExtensionAccepted')
+export class LoanExtensionAcceptedNotificationComposer extends NotificationComposer<LoanExtensionAcceptedNotificationData> {
+  constructor(repository: CryptogadaiRepository) {
+    super(repository);
+  }
+
+  async composePayloads(data: unknown): Promise<AnyNotificationPayload[]> {
+    assertLoanExtensionAcceptedNotificationData(data);
+
+    const enrichedData = await this.enrichWithUserData(data);
+
+    const payloads: AnyNotificationPayload[] = [];
+    const formattedMaturityDate = new Date(enrichedData.maturityDate).toLocaleDateString();
+    const formattedAmount = enrichedData.repaymentAmount
+      ? `${enrichedData.repaymentAmount}${enrichedData.currency ? ` ${enrichedData.currency}` : ''}`
+      : undefined;
+
+    if (enrichedData.email) {
+      payloads.push({
+        channel: NotificationChannelEnum.Email,
+        to: enrichedData.email,
+        subject: 'Loan Extension Accepted - CryptoGadai',
+        htmlBody: this.renderEmailHtmlBody(enrichedData, formattedMaturityDate, formattedAmount),
+        textBody: this.renderEmailTextBody(enrichedData, formattedMaturityDate, formattedAmount),
+      } as EmailNotificationPayload);
+    }
+
+    // Expo notification - multi-device support
+    const tokens =
+      enrichedData.expoPushTokens ||
+      (enrichedData.expoPushToken ? [enrichedData.expoPushToken] : []);
+    for (const token of tokens) {
+      payloads.push({
+        channel: NotificationChannelEnum.Expo,
+        to: token,
+        title: 'Loan Extension Accepted',
+        body: `Your loan is now due on ${formattedMaturityDate}`,
+        priority: 'high',
+        data: {
+          type: 'LoanExtensionAccepted',
+          loanId: enrichedData.loanId,
+          extensionId: enrichedData.extensionId,
+          maturityDate: enrichedData.maturityDate,
+        },
+      } as ExpoNotificationPayload);
+    }
+
+    return payloads;
+  }
+
+  private renderEmailHtmlBody(
+    data: LoanExtensionAcceptedNotificationData,
+    formattedMaturityDate: string,
+    formattedAmount?: string,
+  ): string {
+    return `
+      <html>
+        <body>
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #16a34a;">Loan Extension Accepted</h2>
+            <p>The lender accepted your extension request. The amended loan terms are now in effect.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 5px;">
+              <ul style="list-style: none; padding: 0;">
+                <li><strong>Loan ID:</strong> ${data.loanId}</li>
+                <li><strong>New Maturity Date:</strong> ${formattedMaturityDate}</li>
+                ${formattedAmount ? `<li><strong>Repayment Amount:</strong> ${formattedAmount}</li>` : ''}
+              </ul>
+            </div>
+
+            <p>A loan amendment document is being prepared and will be available with your loan documents.</p>
+
+            <p style="margin-top: 30px;">
+              <a href="/loans/${data.loanId}" style="background-color: #16a34a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+                View Loan
+              </a>
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private renderEmailTextBody(
+    data: LoanExtensionAcceptedNotificationData,
+    formattedMaturityDate: string,
+    formattedAmount?: string,
+  ): string {
+    return `
+Loan Extension Accepted
+
+The lender accepted your extension request. The amended loan terms are now in effect.
+
+- Loan ID: ${data.loanId}
+- New Maturity Date: ${formattedMaturityDate}
+${formattedAmount ? `- Repayment Amount: ${formattedAmount}` : ''}
+
+A loan amendment document is being prepared and will be available with your loan documents.
+
+View your loan: /loans/${data.loanId}
+    `.trim();
+  }
+}
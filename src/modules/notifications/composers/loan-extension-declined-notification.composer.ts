@@ -0,0 +1,139 @@
+import type {
+  AnyNotificationPayload,
+  EmailNotificationPayload,
+  ExpoNotificationPayload,
+  NotificationData,
+} from '../notification.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { assertDefined, assertPropString, hasPropDefined } from 'typeshaper';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { NotificationChannelEnum } from '../notification.types';
+import {
+  Composer,
+  NotificationComposer,
+  type UserNotificationData,
+} from '../notification-composer.abstract';
+
+export type LoanExtensionDeclinedNotificationData = NotificationData & {
+  type: 'LoanExtensionDeclined';
+  userId: string;
+  loanId: string;
+  extensionId: string;
+  maturityDate: string;
+  reason?: string;
+} & Partial<UserNotificationData>;
+
+function assertLoanExtensionDeclinedNotificationData(
+  data: unknown,
+): asserts data is LoanExtensionDeclinedNotificationData {
+  assertDefined(data, 'Notification data is required');
+  assertPropString(data, 'userId', 'User ID is required');
+  assertPropString(data, 'loanId', 'Loan ID is required');
+  assertPropString(data, 'extensionId', 'Extension ID is required');
+  assertPropString(data, 'maturityDate', 'Maturity date is required');
+  if (hasPropDefined(data, 'reason')) {
+    assertPropString(data, 'reason');
+  }
+}
+
+@Injectable()
+@Composer('LoanExtensionDeclined')
+export class LoanExtensionDeclinedNotificationComposer extends NotificationComposer<LoanExtensionDeclinedNotificationData> {
+  constructor(repository: CryptogadaiRepository) {
+    super(repository);
+  }
+
+  async composePayloads(data: unknown): Promise<AnyNotificationPayload[]> {
+    assertLoanExtensionDeclinedNotificationData(data);
+
+    const enrichedData = await this.enrichWithUserData(data);
+
+    const payloads: AnyNotificationPayload[] = [];
+    const formattedMaturityDate = new Date(enrichedData.maturityDate).toLocaleDateString();
+
+    if (enrichedData.email) {
+      payloads.push({
+        channel: NotificationChannelEnum.Email,
+        to: enrichedData.email,
+        subject: 'Loan Extension Declined - CryptoGadai',
+        htmlBody: this.renderEmailHtmlBody(enrichedData, formattedMaturityDate),
+        textBody: this.renderEmailTextBody(enrichedData, formattedMaturityDate),
+      } as EmailNotificationPayload);
+    }
+
+    // Expo notification - multi-device support
+    const tokens =
+      enrichedData.expoPushTokens ||
+      (enrichedData.expoPushToken ? [enrichedData.expoPushToken] : []);
+    for (const token of tokens) {
+      payloads.push({
+        channel: NotificationChannelEnum.Expo,
+        to: token,
+        title: 'Loan Extension Declined',
+        body: `Your loan remains due on ${formattedMaturityDate}`,
+        priority: 'high',
+        data: {
+          type: 'LoanExtensionDeclined',
+          loanId: enrichedData.loanId,
+          extensionId: enrichedData.extensionId,
+        },
+      } as ExpoNotificationPayload);
+    }
+
+    return payloads;
+  }
+
+  private renderEmailHtmlBody(
+    data: LoanExtensionDeclinedNotificationData,
+    formattedMaturityDate: string,
+  ): string {
+    return `
+      <html>
+        <body>
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #dc2626;">Loan Extension Declined</h2>
+            <p>The lender declined your extension request. Your loan keeps its current terms.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 5px;">
+              <ul style="list-style: none; padding: 0;">
+                <li><strong>Loan ID:</strong> ${data.loanId}</li>
+                <li><strong>Maturity Date:</strong> ${formattedMaturityDate}</li>
+                ${data.reason ? `<li><strong>Reason:</strong> ${data.reason}</li>` : ''}
+              </ul>
+            </div>
+
+            <p>Please make sure the repayment is made by the maturity date to avoid liquidation of your collateral.</p>
+
+            <p style="margin-top: 30px;">
+              <a href="/loans/${data.loanId}" style="background-color: #dc2626; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+                View Loan
+              </a>
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private renderEmailTextBody(
+    data: LoanExtensionDeclinedNotificationData,
+    formattedMaturityDate: string,
+  ): string {
+    return `
+Loan Extension Declined
+
+The lender declined your extension request. Your loan keeps its current terms.
+
+- Loan ID: ${data.loanId}
+- Maturity Date: ${formattedMaturityDate}
+${data.reason ? `- Reason: ${data.reason}` : ''}
+
+Please make sure the repayment is made by the maturity date to avoid liquidation of your collateral.
+
+View your loan: /loans/${data.loanId}
+    `.trim();
+  }
+}
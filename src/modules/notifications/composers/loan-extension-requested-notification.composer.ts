@@ -0,0 +1,143 @@
+import type {
+  AnyNotificationPayload,
+  EmailNotificationPayload,
+  ExpoNotificationPayload,
+  NotificationData,
+} from '../notification.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { assertDefined, assertPropString } from 'typeshaper';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { NotificationChannelEnum } from '../notification.types';
+import {
+  Composer,
+  NotificationComposer,
+  type UserNotificationData,
+} from '../notification-composer.abstract';
+
+export type LoanExtensionRequestedNotificationData = NotificationData & {
+  type: 'LoanExtensionRequested';
+  userId: string;
+  loanId: string;
+  extensionId: string;
+  termInMonths: string;
+  interestHandling: string;
+  expiryDate: string;
+} & Partial<UserNotificationData>;
+
+function assertLoanExtensionRequestedNotificationData(
+  data: unknown,
+): asserts data is LoanExtensionRequestedNotificationData {
+  assertDefined(data, 'Notification data is required');
+  assertPropString(data, 'userId', 'User ID is required');
+  assertPropString(data, 'loanId', 'Loan ID is required');
+  assertPropString(data, 'extensionId', 'Extension ID is required');
+  assertPropString(data, 'termInMonths', 'Term is required');
+  assertPropString(data, 'interestHandling', 'Interest handling is required');
+  assertPropString(data, 'expiryDate', 'Expiry date is required');
+}
+
+@Injectable()
+@Composer('LoanExtensionRequested')
+export class LoanExtensionRequestedNotificationComposer extends NotificationComposer<LoanExtensionRequestedNotificationData> {
+  constructor(repository: CryptogadaiRepository) {
+    super(repository);
+  }
+
+  async composePayloads(data: unknown): Promise<AnyNotificationPayload[]> {
+    assertLoanExtensionRequestedNotificationData(data);
+
+    const enrichedData = await this.enrichWithUserData(data);
+
+    const payloads: AnyNotificationPayload[] = [];
+    const formattedExpiryDate = new Date(enrichedData.expiryDate).toLocaleDateString();
+
+    if (enrichedData.email) {
+      payloads.push({
+        channel: NotificationChannelEnum.Email,
+        to: enrichedData.email,
+        subject: 'Loan Extension Requested - CryptoGadai',
+        htmlBody: this.renderEmailHtmlBody(enrichedData, formattedExpiryDate),
+        textBody: this.renderEmailTextBody(enrichedData, formattedExpiryDate),
+      } as EmailNotificationPayload);
+    }
+
+    // Expo notification - multi-device support
+    const tokens =
+      enrichedData.expoPushTokens ||
+      (enrichedData.expoPushToken ? [enrichedData.expoPushToken] : []);
+    for (const token of tokens) {
+      payloads.push({
+        channel: NotificationChannelEnum.Expo,
+        to: token,
+        title: 'Loan Extension Requested',
+        body: `A borrower asks to extend loan ${enrichedData.loanId} by ${enrichedData.termInMonths} months`,
+        priority: 'high',
+        data: {
+          type: 'LoanExtensionRequested',
+          loanId: enrichedData.loanId,
+          extensionId: enrichedData.extensionId,
+        },
+      } as ExpoNotificationPayload);
+    }
+
+    return payloads;
+  }
+
+  private renderEmailHtmlBody(
+    data: LoanExtensionRequestedNotificationData,
+    formattedExpiryDate: string,
+  ): string {
+    return `
+      <html>
+        <body>
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #0369a1;">Loan Extension Requested</h2>
+            <p>The borrower of one of your loans asks to extend it for another term from your offer.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 5px;">
+              <ul style="list-style: none; padding: 0;">
+                <li><strong>Loan ID:</strong> ${data.loanId}</li>
+                <li><strong>Extension Term:</strong> ${data.termInMonths} months</li>
+                <li><strong>Accrued Interest:</strong> ${data.interestHandling === 'Capitalize' ? 'Added to the principal' : 'Paid to you on acceptance'}</li>
+                <li><strong>Respond Before:</strong> ${formattedExpiryDate}</li>
+              </ul>
+            </div>
+
+            <p style="margin-top: 30px;">
+              <a href="/loans/${data.loanId}" style="background-color: #0369a1; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+                Review Request
+              </a>
+            </p>
+
+            <p style="margin-top: 30px; color: #666; font-size: 12px;">
+              If you do not respond before the current maturity date, the loan is repaid as agreed.
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private renderEmailTextBody(
+    data: LoanExtensionRequestedNotificationData,
+    formattedExpiryDate: string,
+  ): string {
+    return `
+Loan Extension Requested
+
+The borrower of one of your loans asks to extend it for another term from your offer.
+
+- Loan ID: ${data.loanId}
+- Extension Term: ${data.termInMonths} months
+- Accrued Interest: ${data.interestHandling === 'Capitalize' ? 'Added to the principal' : 'Paid to you on acceptance'}
+- Respond Before: ${formattedExpiryDate}
+
+Review the request: /loans/${data.loanId}
+
+If you do not respond before the current maturity date, the loan is repaid as agreed.
+    `.trim();
+  }
+}
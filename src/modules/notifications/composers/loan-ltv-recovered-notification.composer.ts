@@ -0,0 +1,125 @@
+import type {
+  AnyNotificationPayload,
+  EmailNotificationPayload,
+  ExpoNotificationPayload,
+  NotificationData,
+} from '../notification.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { assertDefined, assertPropString } from 'typeshaper';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { NotificationChannelEnum } from '../notification.types';
+import {
+  Composer,
+  NotificationComposer,
+  type UserNotificationData,
+} from '../notification-composer.abstract';
+
+export type LoanLtvRecoveredNotificationData = NotificationData & {
+  type: 'LoanLtvRecovered';
+  userId: string;
+  loanId: string;
+  currentLtv: string;
+  thresholdLtv: string;
+} & Partial<UserNotificationData>;
+
+function assertLoanLtvRecoveredNotificationData(
+  data: unknown,
+): asserts data is LoanLtvRecoveredNotificationData {
+  assertDefined(data, 'Notification data is required');
+  assertPropString(data, 'userId', 'User ID is required');
+  assertPropString(data, 'loanId', 'Loan ID is required');
+  assertPropString(data, 'currentLtv', 'Current LTV is required');
+  assertPropString(data, 'thresholdLtv', 'Threshold LTV is required');
+}
+
+@Injectable()
+@Composer('LoanLtvRecovered')
+export class LoanLtvRecoveredNotificationComposer extends NotificationComposer<LoanLtvRecoveredNotificationData> {
+  constructor(repository: CryptogadaiRepository) {
+    super(repository);
+  }
+
+  async composePayloads(data: unknown): Promise<AnyNotificationPayload[]> {
+    assertLoanLtvRecoveredNotificationData(data);
+
+    const enrichedData = await this.enrichWithUserData(data);
+
+    const payloads: AnyNotificationPayload[] = [];
+
+    if (enrichedData.email) {
+      payloads.push({
+        channel: NotificationChannelEnum.Email,
+        to: enrichedData.email,
+        subject: 'LTV Back to Normal - CryptoGadai',
+        htmlBody: this.renderEmailHtmlBody(enrichedData),
+        textBody: this.renderEmailTextBody(enrichedData),
+      } as EmailNotificationPayload);
+    }
+
+    // Expo notification - multi-device support
+    const tokens =
+      enrichedData.expoPushTokens ||
+      (enrichedData.expoPushToken ? [enrichedData.expoPushToken] : []);
+    for (const token of tokens) {
+      payloads.push({
+        channel: NotificationChannelEnum.Expo,
+        to: token,
+        title: 'LTV Back to Normal',
+        body: `Your loan LTV is ${enrichedData.currentLtv}, below the ${enrichedData.thresholdLtv} warning threshold`,
+        priority: 'normal',
+        data: {
+          type: 'LoanLtvRecovered',
+          loanId: enrichedData.loanId,
+          currentLtv: enrichedData.currentLtv,
+          thresholdLtv: enrichedData.thresholdLtv,
+        },
+      } as ExpoNotificationPayload);
+    }
+
+    return payloads;
+  }
+
+  private renderEmailHtmlBody(data: LoanLtvRecoveredNotificationData): string {
+    return `
+      <html>
+        <body>
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #16a34a;">LTV Back to Normal</h2>
+            <p>The loan-to-value (LTV) ratio of your loan is back below every warning threshold. No action is needed.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 5px;">
+              <ul style="list-style: none; padding: 0;">
+                <li><strong>Loan ID:</strong> ${data.loanId}</li>
+                <li><strong>Current LTV:</strong> ${data.currentLtv}</li>
+                <li><strong>Warning Threshold:</strong> ${data.thresholdLtv}</li>
+              </ul>
+            </div>
+
+            <p style="margin-top: 30px;">
+              <a href="/loans/${data.loanId}" style="background-color: #16a34a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+                View Loan
+              </a>
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private renderEmailTextBody(data: LoanLtvRecoveredNotificationData): string {
+    return `
+LTV Back to Normal
+
+The loan-to-value (LTV) ratio of your loan is back below every warning threshold. No action is needed.
+
+- Loan ID: ${data.loanId}
+- Current LTV: ${data.currentLtv}
+- Warning Threshold: ${data.thresholdLtv}
+
+View your loan: /loans/${data.loanId}
+    `.trim();
+  }
+}
@@ -0,0 +1,128 @@
+import type {
+  AnyNotificationPayload,
+  EmailNotificationPayload,
+  ExpoNotificationPayload,
+  NotificationData,
+} from '../notification.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { assertDefined, assertPropString } from 'typeshaper';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { NotificationChannelEnum } from '../notification.types';
+import {
+  Composer,
+  NotificationComposer,
+  type UserNotificationData,
+} from '../notification-composer.abstract';
+
+export type LoanPositionSoldNotificationData = NotificationData & {
+  type: 'LoanPositionSold';
+  userId: string;
+  loanId: string;
+  listingId: string;
+  salePriceAmount: string;
+  currency: string;
+} & Partial<UserNotificationData>;
+
+function assertLoanPositionSoldNotificationData(
+  data: unknown,
+): asserts data is LoanPositionSoldNotificationData {
+  assertDefined(data, 'Notification data is required');
+  assertPropString(data, 'userId', 'User ID is required');
+  assertPropString(data, 'loanId', 'Loan ID is required');
+  assertPropString(data, 'listingId', 'Listing ID is required');
+  assertPropString(data, 'salePriceAmount', 'Sale price amount is required');
+  assertPropString(data, 'currency', 'Currency is required');
+}
+
+@Injectable()
+@Composer('LoanPositionSold')
+export class LoanPositionSoldNotificationComposer extends NotificationComposer<LoanPositionSoldNotificationData> {
+  constructor(repository: CryptogadaiRepository) {
+    super(repository);
+  }
+
+  async composePayloads(data: unknown): Promise<AnyNotificationPayload[]> {
+    assertLoanPositionSoldNotificationData(data);
+
+    const enrichedData = await this.enrichWithUserData(data);
+
+    const payloads: AnyNotificationPayload[] = [];
+
+    if (enrichedData.email) {
+      payloads.push({
+        channel: NotificationChannelEnum.Email,
+        to: enrichedData.email,
+        subject: 'Loan Position Sold - CryptoGadai',
+        htmlBody: this.renderEmailHtmlBody(enrichedData),
+        textBody: this.renderEmailTextBody(enrichedData),
+      } as EmailNotificationPayload);
+    }
+
+    // Expo notification - multi-device support
+    const tokens =
+      enrichedData.expoPushTokens ||
+      (enrichedData.expoPushToken ? [enrichedData.expoPushToken] : []);
+    for (const token of tokens) {
+      payloads.push({
+        channel: NotificationChannelEnum.Expo,
+        to: token,
+        title: 'Loan Position Sold',
+        body: `${enrichedData.salePriceAmount} ${enrichedData.currency} was added to your balance`,
+        priority: 'normal',
+        data: {
+          type: 'LoanPositionSold',
+          loanId: enrichedData.loanId,
+          listingId: enrichedData.listingId,
+        },
+      } as ExpoNotificationPayload);
+    }
+
+    return payloads;
+  }
+
+  private renderEmailHtmlBody(data: LoanPositionSoldNotificationData): string {
+    return `
+      <html>
+        <body>
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #16a34a;">Loan Position Sold</h2>
+            <p>Your listed loan position was bought by another lender. The sale price has been added to your platform balance.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 5px;">
+              <ul style="list-style: none; padding: 0;">
+                <li><strong>Loan ID:</strong> ${data.loanId}</li>
+                <li><strong>Sale Price:</strong> ${data.salePriceAmount} ${data.currency}</li>
+              </ul>
+            </div>
+
+            <p>Future repayments and interest on this loan are paid to the new lender.</p>
+
+            <p style="margin-top: 30px;">
+              <a href="/accounts" style="background-color: #16a34a; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px;">
+                View Balance
+              </a>
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private renderEmailTextBody(data: LoanPositionSoldNotificationData): string {
+    return `
+Loan Position Sold
+
+Your listed loan position was bought by another lender. The sale price has been added to your platform balance.
+
+- Loan ID: ${data.loanId}
+- Sale Price: ${data.salePriceAmount} ${data.currency}
+
+Future repayments and interest on this loan are paid to the new lender.
+
+View your balance: /accounts
+    `.trim();
+  }
+}
@@ -8,7 +8,7 @@ import type {
 
 import { Injectable } from '@nestjs/common';
 
-import { assertDefined, assertPropString } from 'typeshaper';
+import { assertDefined, assertPropString, hasPropDefined } from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
 import { NotificationChannelEnum } from '../notification.types';
@@ -25,6 +25,7 @@ export type LoginFromNewDeviceNotificationData = NotificationData & {
   location?: string;
   ipAddress?: string;
   timestamp?: string;
+  freezeUrl?: string; // "this wasn't me" link that freezes withdrawals of the account
 } & Partial<UserNotificationData>;
 
 function assertLoginFromNewDeviceNotificationData(
@@ -32,6 +33,9 @@ function assertLoginFromNewDeviceNotificationData(
 ): asserts data is LoginFromNewDeviceNotificationData {
   assertDefined(data, 'Notification data is required');
   assertPropString(data, 'userId');
+  if (hasPropDefined(data, 'freezeUrl')) {
+    assertPropString(data, 'freezeUrl');
+  }
 }
 
 @Injectable()
@@ -58,8 +62,20 @@ export class LoginFromNewDeviceNotificationComposer extends NotificationComposer
         channel: NotificationChannelEnum.Email,
         to: enrichedData.email,
         subject: 'Security Alert - New Device Login',
-        htmlBody: this.renderEmailHtmlBody(enrichedData.email, deviceInfo, location, timestamp),
-        textBody: this.renderEmailTextBody(enrichedData.email, deviceInfo, location, timestamp),
+        htmlBody: this.renderEmailHtmlBody(
+          enrichedData.email,
+          deviceInfo,
+          location,
+          timestamp,
+          enrichedData.freezeUrl,
+        ),
+        textBody: this.renderEmailTextBody(
+          enrichedData.email,
+          deviceInfo,
+          location,
+          timestamp,
+          enrichedData.freezeUrl,
+        ),
       } as EmailNotificationPayload);
     }
 
@@ -68,7 +84,9 @@ export class LoginFromNewDeviceNotificationComposer extends NotificationComposer
       payloads.push({
         channel: NotificationChannelEnum.SMS,
         to: enrichedData.phoneNumber,
-        message: `Security Alert: New login from ${deviceInfo} in ${location}. If this wasn't you, secure your account immediately. - CryptoGadai`,
+        message: enrichedData.freezeUrl
+          ? `Security Alert: New login from ${deviceInfo} in ${location}. If this wasn't you, freeze withdrawals: ${enrichedData.freezeUrl} - CryptoGadai`
+          : `Security Alert: New login from ${deviceInfo} in ${location}. If this wasn't you, secure your account immediately. - CryptoGadai`,
       } as SMSNotificationPayload);
     }
 
@@ -89,6 +107,7 @@ export class LoginFromNewDeviceNotificationComposer extends NotificationComposer
           location: location,
           deviceInfo: deviceInfo,
           timestamp: timestamp,
+          freezeUrl: enrichedData.freezeUrl,
         },
       } as ExpoNotificationPayload);
     }
@@ -101,6 +120,7 @@ export class LoginFromNewDeviceNotificationComposer extends NotificationComposer
     deviceInfo: string,
     location: string,
     timestamp: string,
+    freezeUrl?: string,
   ): string {
     return `
 <!DOCTYPE html>
@@ -146,6 +166,7 @@ export class LoginFromNewDeviceNotificationComposer extends NotificationComposer
                 <div class="detail-value">${new Date(timestamp).toLocaleString()}</div>
             </div>
             <p>If this was you, you can ignore this message. If you don't recognize this activity, please secure your account immediately.</p>
+            ${freezeUrl ? `<p><a href="${freezeUrl}" style="background-color: #dc2626; color: #ffffff; padding: 12px 24px; text-decoration: none; border-radius: 5px;">This wasn't me - freeze withdrawals</a></p>` : ''}
         </div>
         <div class="footer">
             <p>© ${new Date().getFullYear()} CryptoGadai. All rights reserved.</p>
@@ -160,6 +181,7 @@ export class LoginFromNewDeviceNotificationComposer extends NotificationComposer
     deviceInfo: string,
     location: string,
     timestamp: string,
+    freezeUrl?: string,
   ): string {
     return `
 Security Alert - New Device Login
@@ -172,7 +194,7 @@ Location: ${location}
 Time: ${new Date(timestamp).toLocaleString()}
 
 If this was you, you can ignore this message. If you don't recognize this activity, please secure your account immediately.
-
+${freezeUrl ? `\nThis wasn't me - freeze withdrawals: ${freezeUrl}\n` : ''}
 © ${new Date().getFullYear()} CryptoGadai. All rights reserved.
     `.trim();
   }
@@ -0,0 +1,130 @@
+import type {
+  AnyNotificationPayload,
+  EmailNotificationPayload,
+  ExpoNotificationPayload,
+  NotificationData,
+  SMSNotificationPayload,
+} from '../notification.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { assertDefined, assertPropString } from 'typeshaper';
+
+import { CryptogadaiRepository } from '../../../shared/repositories/cryptogadai.repository';
+import { NotificationChannelEnum } from '../notification.types';
+import {
+  Composer,
+  NotificationComposer,
+  type UserNotificationData,
+} from '../notification-composer.abstract';
+
+export type WithdrawalRejectedNotificationData = NotificationData & {
+  type: 'WithdrawalRejected';
+  userId: string;
+  withdrawalId: string;
+  amount: string;
+  rejectionReason: string;
+} & Partial<UserNotificationData>;
+
+function assertWithdrawalRejectedNotificationData(
+  data: unknown,
+): asserts data is WithdrawalRejectedNotificationData {
+  assertDefined(data, 'Notification data is required');
+  assertPropString(data, 'userId', 'User ID is required');
+  assertPropString(data, 'withdrawalId', 'Withdrawal ID is required');
+  assertPropString(data, 'amount', 'Amount is required');
+  assertPropString(data, 'rejectionReason', 'Rejection reason is required');
+}
+
+@Injectable()
+@Composer('WithdrawalRejected')
+export class WithdrawalRejectedNotificationComposer extends NotificationComposer<WithdrawalRejectedNotificationData> {
+  constructor(repository: CryptogadaiRepository) {
+    super(repository);
+  }
+
+  async composePayloads(data: unknown): Promise<AnyNotificationPayload[]> {
+    assertWithdrawalRejectedNotificationData(data);
+
+    const enrichedData = await this.enrichWithUserData(data);
+
+    const payloads: AnyNotificationPayload[] = [];
+
+    if (enrichedData.email) {
+      payloads.push({
+        channel: NotificationChannelEnum.Email,
+        to: enrichedData.email,
+        subject: 'Withdrawal request rejected - CryptoGadai',
+        htmlBody: this.renderEmailHtmlBody(enrichedData),
+        textBody: this.renderEmailTextBody(enrichedData),
+      } as EmailNotificationPayload);
+    }
+
+    if (enrichedData.phoneNumber) {
+      payloads.push({
+        channel: NotificationChannelEnum.SMS,
+        to: enrichedData.phoneNumber,
+        message: `CryptoGadai: Your withdrawal of ${enrichedData.amount} was rejected after review and the amount is back in your balance. Reason: ${enrichedData.rejectionReason}`,
+      } as SMSNotificationPayload);
+    }
+
+    // Expo notification - multi-device support
+    const tokens =
+      enrichedData.expoPushTokens ||
+      (enrichedData.expoPushToken ? [enrichedData.expoPushToken] : []);
+    for (const token of tokens) {
+      payloads.push({
+        channel: NotificationChannelEnum.Expo,
+        to: token,
+        title: 'Withdrawal Rejected',
+        body: `Your withdrawal of ${enrichedData.amount} was rejected and returned to your balance`,
+        priority: 'high',
+        data: {
+          type: 'WithdrawalRejected',
+          withdrawalId: enrichedData.withdrawalId,
+        },
+      } as ExpoNotificationPayload);
+    }
+
+    return payloads;
+  }
+
+  private renderEmailHtmlBody(data: WithdrawalRejectedNotificationData): string {
+    return `
+      <html>
+        <body>
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #dc2626;">Withdrawal Request Rejected</h2>
+            <p>Your withdrawal request was reviewed by our team and could not be approved.
+            The full amount has been returned to your account balance.</p>
+
+            <div style="background-color: #f8f9fa; padding: 20px; margin: 20px 0; border-radius: 5px;">
+              <ul style="list-style: none; padding: 0;">
+                <li><strong>Withdrawal ID:</strong> ${data.withdrawalId}</li>
+                <li><strong>Amount:</strong> ${data.amount}</li>
+                <li><strong>Reason:</strong> ${data.rejectionReason}</li>
+              </ul>
+            </div>
+
+            <p>Please contact our support team if you have any questions.</p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
+  private renderEmailTextBody(data: WithdrawalRejectedNotificationData): string {
+    return `
+Withdrawal Request Rejected
+
+Your withdrawal request was reviewed by our team and could not be approved.
+The full amount has been returned to your account balance.
+
+- Withdrawal ID: ${data.withdrawalId}
+- Amount: ${data.amount}
+- Reason: ${data.rejectionReason}
+
+Please contact our support team if you have any questions.
+    `.trim();
+  }
+}
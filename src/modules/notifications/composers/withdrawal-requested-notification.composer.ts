@@ -17,6 +17,7 @@ export type SMSWithdrawalRequestedNotificationData = NotificationData & {
   withdrawalId?: string;
   bankAccount?: string;
   name?: string;
+  status?: string;
 };
 
 function assertSMSWithdrawalRequestedNotificationData(
@@ -36,6 +37,9 @@ function assertSMSWithdrawalRequestedNotificationData(
   if (typeof data === 'object' && data !== null && 'name' in data) {
     assertPropNullableString(data, 'name');
   }
+  if (typeof data === 'object' && data !== null && 'status' in data) {
+    assertPropNullableString(data, 'status');
+  }
 }
 
 @Injectable()
@@ -55,6 +59,9 @@ export class WithdrawalRequestedNotificationComposer extends NotificationCompose
   private renderSMSMessage(data: SMSWithdrawalRequestedNotificationData): string {
     const amountText = data.amount ? ` of ${data.amount}` : '';
     const accountText = data.bankAccount ? ` to ${data.bankAccount}` : '';
+    if (data.status === 'PendingApproval') {
+      return `Hi ${data.name || 'there'}! Withdrawal request${amountText}${accountText} has been submitted on CryptoGadai and is awaiting review by our team. We'll notify you once it is approved.`;
+    }
     return `Hi ${data.name || 'there'}! Withdrawal request${amountText}${accountText} has been submitted successfully on CryptoGadai. We'll process it shortly.`;
   }
 }
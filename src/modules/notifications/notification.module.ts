@@ -4,6 +4,7 @@ import { DiscoveryModule } from '@nestjs/core';
 
 import { SharedModule } from '../../shared/shared.module';
 import { RealtimeModule } from '../realtime/realtime.module';
+import { BeneficiaryAddedNotificationComposer } from './composers/beneficiary-added-notification.composer';
 import { BeneficiaryVerificationNotificationComposer } from './composers/beneficiary-verification.composer';
 import { EmailVerificationNotificationComposer } from './composers/email-verification-notification.composer';
 import { InvoiceCreatedNotificationComposer } from './composers/invoice-created-notification.composer';
@@ -12,12 +13,17 @@ import { LoanApplicationCollateralInvoiceFullyPaidNotificationComposer } from '.
 import { LoanApplicationCollateralInvoicePartiallyPaidNotificationComposer } from './composers/loan-application-collateral-invoice-partially-paid-notification.composer';
 import { LoanApplicationMatchedNotificationComposer } from './composers/loan-application-matched-notification.composer';
 import { LoanApplicationPublishedNotificationComposer } from './composers/loan-application-published-notification.composer';
+import { LoanExtensionAcceptedNotificationComposer } from './composers/loan-extension-accepted-notification.composer';
+import { LoanExtensionDeclinedNotificationComposer } from './composers/loan-extension-declined-notification.composer';
+import { LoanExtensionRequestedNotificationComposer } from './composers/loan-extension-requested-notification.composer';
 import { LoanLiquidationNotificationComposer } from './composers/loan-liquidation-notification.composer';
 import { LoanLtvBreachNotificationComposer } from './composers/loan-ltv-breach-notification.composer';
+import { LoanLtvRecoveredNotificationComposer } from './composers/loan-ltv-recovered-notification.composer';
 import { LoanOfferInvoiceFullyPaidNotificationComposer } from './composers/loan-offer-invoice-fully-paid-notification.composer';
 import { LoanOfferInvoicePartiallyPaidNotificationComposer } from './composers/loan-offer-invoice-partially-paid-notification.composer';
 import { LoanOfferMatchedNotificationComposer } from './composers/loan-offer-matched-notification.composer';
 import { LoanOfferPublishedNotificationComposer } from './composers/loan-offer-published-notification.composer';
+import { LoanPositionSoldNotificationComposer } from './composers/loan-position-sold-notification.composer';
 import { LoanRepaymentDueNotificationComposer } from './composers/loan-repayment-due-notification.composer';
 import { LoanRepaymentFailedNotificationComposer } from './composers/loan-repayment-failed-notification.composer';
 import { LoginFromNewDeviceNotificationComposer } from './composers/login-from-new-device-notification.composer';
@@ -30,6 +36,7 @@ import { TwoFactorEnabledNotificationComposer } from './composers/two-factor-ena
 import { UserKycRejectedNotificationComposer } from './composers/user-kyc-rejected-notification.composer';
 import { UserKycVerifiedNotificationComposer } from './composers/user-kyc-verified-notification.composer';
 import { UserRegisteredNotificationComposer } from './composers/user-registered-notification.composer';
+import { WithdrawalRejectedNotificationComposer } from './composers/withdrawal-rejected-notification.composer';
 import { WithdrawalRequestedNotificationComposer } from './composers/withdrawal-requested-notification.composer';
 import { NotificationProcessor } from './notification.processor';
 import { NotificationService } from './notification.service';
@@ -77,6 +84,7 @@ import { PushSenderService } from './services/push-sender.service';
     // WebSocketNotificationProvider, // Removed to prevent duplicate notifications - RealtimeNotificationProvider is the proper implementation
 
     // Notification Composers
+    BeneficiaryAddedNotificationComposer,
     BeneficiaryVerificationNotificationComposer,
     EmailVerificationNotificationComposer,
     InvoiceCreatedNotificationComposer,
@@ -85,12 +93,17 @@ import { PushSenderService } from './services/push-sender.service';
     LoanApplicationCollateralInvoiceFullyPaidNotificationComposer,
     LoanApplicationMatchedNotificationComposer,
     LoanApplicationPublishedNotificationComposer,
+    LoanExtensionAcceptedNotificationComposer,
+    LoanExtensionDeclinedNotificationComposer,
+    LoanExtensionRequestedNotificationComposer,
     LoanLiquidationNotificationComposer,
     LoanLtvBreachNotificationComposer,
+    LoanLtvRecoveredNotificationComposer,
     LoanOfferInvoicePartiallyPaidNotificationComposer,
     LoanOfferInvoiceFullyPaidNotificationComposer,
     LoanOfferMatchedNotificationComposer,
     LoanOfferPublishedNotificationComposer,
+    LoanPositionSoldNotificationComposer,
     LoanRepaymentDueNotificationComposer,
     LoanRepaymentFailedNotificationComposer,
     LoginFromNewDeviceNotificationComposer,
@@ -103,6 +116,7 @@ import { PushSenderService } from './services/push-sender.service';
     UserKycVerifiedNotificationComposer,
     UserKycRejectedNotificationComposer,
     WithdrawalRequestedNotificationComposer,
+    WithdrawalRejectedNotificationComposer,
     PhoneNumberVerificationNotificationComposer,
   ],
   exports: [NotificationQueueService, NotificationService],
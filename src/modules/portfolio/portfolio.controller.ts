@@ -75,13 +75,14 @@ export class PortfolioController {
   @ApiOperation({
     summary: 'Get portfolio overview',
     description: `Retrieve comprehensive portfolio overview including total value, asset allocation,
-    and performance metrics for the authenticated user or institution.
+    performance metrics and auto-lend rules for the authenticated user or institution.
 
     **Portfolio Calculations:**
     - Total value aggregated from all account balances
     - Asset allocation based on current market values
     - Performance metrics calculated from historical data
-    - Real-time balance updates with latest exchange rates`,
+    - Real-time balance updates with latest exchange rates
+    - Auto-lend rules with their current exposure`,
   })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -0,0 +1,198 @@
+import type {
+  PlatformFeedsCompositeExchangeRateResult,
+  SourceExchangeRate,
+} from '../../shared/repositories/pricefeed.types';
+import type { PriceAggregationMethod } from './pricefeed.config';
+import type { PriceFeedAggregateEvent } from './pricefeed-provider.types';
+
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { EXCHANGE_RATE_DECIMALS } from '../../shared/repositories/pricefeed.repository';
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { fromLowestDenomination, toLowestDenomination } from '../../shared/utils/decimal';
+import { defaultPricefeedConfig } from './pricefeed.config';
+import { AGGREGATED_PRICE_FEED_SOURCES } from './pricefeed-provider.types';
+
+export type PriceAggregationOptions = {
+  method: PriceAggregationMethod;
+  maxDeviationPercent: number;
+  minAgreeingSources: number;
+};
+
+export type PriceAggregation =
+  | {
+      status: 'aggregated';
+      /** Volume weighting falls back to the median when an agreeing source reports no volume */
+      method: PriceAggregationMethod;
+      bidPrice: string;
+      askPrice: string;
+      sourceDate: Date;
+      componentRates: SourceExchangeRate[];
+      rejectedRates: SourceExchangeRate[];
+    }
+  | {
+      status: 'insufficientSources';
+      componentRates: SourceExchangeRate[];
+      rejectedRates: SourceExchangeRate[];
+    };
+
+/**
+ * Combines the latest rate of each source into one rate. Sources whose mid price deviates from the
+ * median mid price by more than the tolerance are dropped, and no rate is produced unless at least
+ * minAgreeingSources remain. Prices are compared as integers with the exchange rate precision.
+ */
+export function aggregateExchangeRates(
+  rates: SourceExchangeRate[],
+  options: PriceAggregationOptions,
+): PriceAggregation {
+  const toUnits = (price: string) => BigInt(toLowestDenomination(price, EXCHANGE_RATE_DECIMALS));
+  const midPrice = (rate: SourceExchangeRate) =>
+    (toUnits(rate.bidPrice) + toUnits(rate.askPrice)) / 2n;
+
+  const referencePrice = rates.length > 0 ? median(rates.map(midPrice)) : 0n;
+  const toleranceBasisPoints = BigInt(Math.round(options.maxDeviationPercent * 100));
+
+  const componentRates: SourceExchangeRate[] = [];
+  const rejectedRates: SourceExchangeRate[] = [];
+  for (const rate of rates) {
+    const deviation = midPrice(rate) - referencePrice;
+    const absoluteDeviation = deviation < 0n ? -deviation : deviation;
+    if (
+      referencePrice > 0n &&
+      absoluteDeviation * 10000n <= toleranceBasisPoints * referencePrice
+    ) {
+      componentRates.push(rate);
+    } else {
+      rejectedRates.push(rate);
+    }
+  }
+
+  if (componentRates.length === 0 || componentRates.length < options.minAgreeingSources) {
+    return { status: 'insufficientSources', componentRates, rejectedRates };
+  }
+
+  const volumes = componentRates.map(rate => (rate.volume ? toUnits(rate.volume) : 0n));
+  const method =
+    options.method === 'volumeWeighted' && volumes.every(volume => volume > 0n)
+      ? 'volumeWeighted'
+      : 'median';
+
+  const combine = (prices: bigint[]) =>
+    method === 'volumeWeighted' ? weightedAverage(prices, volumes) : median(prices);
+
+  const bidPrice = combine(componentRates.map(rate => toUnits(rate.bidPrice)));
+  const askPrice = combine(componentRates.map(rate => toUnits(rate.askPrice)));
+
+  // The composite is only as recent as its stalest component
+  const sourceDate = new Date(Math.min(...componentRates.map(rate => rate.sourceDate.getTime())));
+
+  return {
+    status: 'aggregated',
+    method,
+    bidPrice: fromLowestDenomination(bidPrice.toString(), EXCHANGE_RATE_DECIMALS),
+    askPrice: fromLowestDenomination(askPrice.toString(), EXCHANGE_RATE_DECIMALS),
+    sourceDate,
+    componentRates,
+    rejectedRates,
+  };
+}
+
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2n;
+}
+
+function weightedAverage(values: bigint[], weights: bigint[]): bigint {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+  const weightedSum = values.reduce((sum, value, index) => sum + value * weights[index], 0n);
+  return weightedSum / totalWeight;
+}
+
+@Injectable()
+export class PricefeedAggregationService {
+  private readonly logger = new TelemetryLogger(PricefeedAggregationService.name);
+
+  constructor(
+    private readonly repository: CryptogadaiRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Aggregates the fresh provider rates of a pair and stores the result as a composite rate.
+   * Returns undefined when too few sources agree, in which case loans keep their last valuation.
+   */
+  async aggregate(
+    event: PriceFeedAggregateEvent,
+    now: Date = new Date(),
+  ): Promise<PlatformFeedsCompositeExchangeRateResult | undefined> {
+    const pair = `${event.baseCurrencyTokenId}/${event.quoteCurrencyTokenId}`;
+
+    const maxSourceAge = Number(
+      this.configService.get<number>(
+        'PRICEFEED_MAX_SOURCE_AGE',
+        defaultPricefeedConfig.maxSourceAge,
+      ),
+    );
+    const options: PriceAggregationOptions = {
+      method: this.configService.get<PriceAggregationMethod>(
+        'PRICEFEED_AGGREGATION_METHOD',
+        defaultPricefeedConfig.aggregationMethod,
+      ),
+      maxDeviationPercent: Number(
+        this.configService.get<number>(
+          'PRICEFEED_MAX_DEVIATION_PERCENT',
+          defaultPricefeedConfig.maxDeviationPercent,
+        ),
+      ),
+      minAgreeingSources: Number(
+        this.configService.get<number>(
+          'PRICEFEED_MIN_AGREEING_SOURCES',
+          defaultPricefeedConfig.minAgreeingSources,
+        ),
+      ),
+    };
+
+    const { exchangeRates } = await this.repository.platformRetrievesLatestSourceExchangeRates({
+      blockchainKey: event.blockchainKey,
+      baseCurrencyTokenId: event.baseCurrencyTokenId,
+      quoteCurrencyTokenId: event.quoteCurrencyTokenId,
+      sources: AGGREGATED_PRICE_FEED_SOURCES,
+      sourceDateFrom: new Date(now.getTime() - maxSourceAge),
+    });
+
+    const aggregation = aggregateExchangeRates(exchangeRates, options);
+
+    for (const rate of aggregation.rejectedRates) {
+      this.logger.warn(
+        `Dropped ${rate.source} rate ${rate.id} for ${pair}: deviates more than ${options.maxDeviationPercent}% from the median`,
+      );
+    }
+
+    if (aggregation.status === 'insufficientSources') {
+      this.logger.warn(
+        `Not aggregating ${pair}: ${aggregation.componentRates.length} of ${exchangeRates.length} fresh sources agree, ${options.minAgreeingSources} required`,
+      );
+      return undefined;
+    }
+
+    const result = await this.repository.platformFeedsCompositeExchangeRate({
+      blockchainKey: event.blockchainKey,
+      baseCurrencyTokenId: event.baseCurrencyTokenId,
+      quoteCurrencyTokenId: event.quoteCurrencyTokenId,
+      bidPrice: aggregation.bidPrice,
+      askPrice: aggregation.askPrice,
+      retrievalDate: now,
+      sourceDate: aggregation.sourceDate,
+      componentExchangeRateIds: aggregation.componentRates.map(rate => rate.id),
+    });
+
+    this.logger.debug(
+      `Stored ${aggregation.method} composite rate for ${pair} from ${aggregation.componentRates.map(rate => rate.source).join(', ')}`,
+    );
+
+    return result;
+  }
+}
@@ -0,0 +1,177 @@
+import type { ConfigService } from '@nestjs/config';
+import type { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import type { SourceExchangeRate } from '../../shared/repositories/pricefeed.types';
+
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { describe, it, mock } from 'node:test';
+
+import {
+  aggregateExchangeRates,
+  PricefeedAggregationService,
+} from './pricefeed-aggregation.service';
+
+function buildRate(
+  id: string,
+  source: string,
+  bidPrice: string,
+  askPrice: string,
+  volume?: string,
+): SourceExchangeRate {
+  return {
+    id,
+    priceFeedId: `feed-${source}`,
+    source,
+    bidPrice,
+    askPrice,
+    volume,
+    retrievalDate: new Date('2024-01-01T10:05:00Z'),
+    sourceDate: new Date(`2024-01-01T10:0${id}:00Z`),
+  };
+}
+
+const options = { method: 'median' as const, maxDeviationPercent: 2, minAgreeingSources: 2 };
+
+describe('aggregateExchangeRates', () => {
+  it('should take the median of the agreeing sources and drop outliers', () => {
+    const aggregation = aggregateExchangeRates(
+      [
+        buildRate('1', 'binance', '3000', '3010'),
+        buildRate('2', 'coingecko', '3020', '3020'),
+        buildRate('3', 'coinmarketcap', '2500', '2500'),
+      ],
+      options,
+    );
+
+    strictEqual(aggregation.status, 'aggregated');
+    if (aggregation.status !== 'aggregated') return;
+    strictEqual(aggregation.method, 'median');
+    strictEqual(aggregation.bidPrice, '3010.000000000000');
+    strictEqual(aggregation.askPrice, '3015.000000000000');
+    deepStrictEqual(
+      aggregation.componentRates.map(rate => rate.id),
+      ['1', '2'],
+    );
+    deepStrictEqual(
+      aggregation.rejectedRates.map(rate => rate.id),
+      ['3'],
+    );
+    // Stalest component
+    deepStrictEqual(aggregation.sourceDate, new Date('2024-01-01T10:01:00Z'));
+  });
+
+  it('should refuse to aggregate when fewer than the required sources agree', () => {
+    const aggregation = aggregateExchangeRates(
+      [buildRate('1', 'binance', '3000', '3000'), buildRate('2', 'coingecko', '3300', '3300')],
+      options,
+    );
+
+    strictEqual(aggregation.status, 'insufficientSources');
+    deepStrictEqual(
+      aggregation.rejectedRates.map(rate => rate.id),
+      ['1', '2'],
+    );
+  });
+
+  it('should refuse to aggregate a single fresh source', () => {
+    const aggregation = aggregateExchangeRates(
+      [buildRate('1', 'binance', '3000', '3000')],
+      options,
+    );
+
+    strictEqual(aggregation.status, 'insufficientSources');
+  });
+
+  it('should weight by volume and fall back to the median when a volume is missing', () => {
+    const weighted = aggregateExchangeRates(
+      [
+        buildRate('1', 'binance', '3000', '3000', '300'),
+        buildRate('2', 'coingecko', '3040', '3040', '100'),
+      ],
+      { ...options, method: 'volumeWeighted' },
+    );
+    strictEqual(weighted.status, 'aggregated');
+    if (weighted.status !== 'aggregated') return;
+    strictEqual(weighted.method, 'volumeWeighted');
+    strictEqual(weighted.bidPrice, '3010.000000000000');
+
+    const fallback = aggregateExchangeRates(
+      [
+        buildRate('1', 'binance', '3000', '3000', '300'),
+        buildRate('2', 'coingecko', '3040', '3040'),
+      ],
+      { ...options, method: 'volumeWeighted' },
+    );
+    strictEqual(fallback.status, 'aggregated');
+    if (fallback.status !== 'aggregated') return;
+    strictEqual(fallback.method, 'median');
+    strictEqual(fallback.bidPrice, '3020.000000000000');
+  });
+});
+
+describe('PricefeedAggregationService', () => {
+  const now = new Date('2024-01-01T10:06:00Z');
+  const event = {
+    blockchainKey: 'crosschain',
+    baseCurrencyTokenId: 'slip44:60',
+    quoteCurrencyTokenId: 'iso4217:usd',
+  };
+  const configService = {
+    get: (_key: string, defaultValue?: unknown) => defaultValue,
+  } as unknown as ConfigService;
+
+  it('should store the composite rate with the contributing rate ids', async () => {
+    const platformRetrievesLatestSourceExchangeRates = mock.fn(async (_params: unknown) => ({
+      exchangeRates: [
+        buildRate('1', 'binance', '3000', '3010'),
+        buildRate('2', 'coingecko', '3004', '3004'),
+      ],
+    }));
+    const platformFeedsCompositeExchangeRate = mock.fn(async (params: object) => ({
+      id: '9',
+      priceFeedId: 'feed-composite',
+      ...params,
+    }));
+
+    const service = new PricefeedAggregationService(
+      {
+        platformRetrievesLatestSourceExchangeRates,
+        platformFeedsCompositeExchangeRate,
+      } as unknown as CryptogadaiRepository,
+      configService,
+    );
+
+    const result = await service.aggregate(event, now);
+
+    strictEqual(result?.id, '9');
+    deepStrictEqual(platformRetrievesLatestSourceExchangeRates.mock.calls[0].arguments[0], {
+      ...event,
+      sources: ['binance', 'coingecko', 'coinmarketcap'],
+      sourceDateFrom: new Date('2024-01-01T09:56:00Z'),
+    });
+    deepStrictEqual(platformFeedsCompositeExchangeRate.mock.calls[0].arguments[0], {
+      ...event,
+      bidPrice: '3002.000000000000',
+      askPrice: '3007.000000000000',
+      retrievalDate: now,
+      sourceDate: new Date('2024-01-01T10:01:00Z'),
+      componentExchangeRateIds: ['1', '2'],
+    });
+  });
+
+  it('should not store a composite rate when too few fresh sources agree', async () => {
+    const platformFeedsCompositeExchangeRate = mock.fn(async (_params: unknown) => undefined);
+
+    const service = new PricefeedAggregationService(
+      {
+        platformRetrievesLatestSourceExchangeRates: async () => ({
+          exchangeRates: [buildRate('1', 'binance', '3000', '3010')],
+        }),
+        platformFeedsCompositeExchangeRate,
+      } as unknown as CryptogadaiRepository,
+      configService,
+    );
+
+    strictEqual(await service.aggregate(event, now), undefined);
+    strictEqual(platformFeedsCompositeExchangeRate.mock.callCount(), 0);
+  });
+});
@@ -3,6 +3,8 @@ export type PriceData = {
   askPrice: string;
   sourceDate: Date;
   retrievalDate: Date;
+  /** 24 hour volume in the quote currency, when the source reports it */
+  volume?: string;
 };
 
 export type PriceFeedRequest = {
@@ -19,6 +21,19 @@ export function isPriceFeedSource(value: string): value is PriceFeedSource {
   return ['binance', 'coingecko', 'coinmarketcap', 'random'].includes(value);
 }
 
+/**
+ * Sources whose rates are combined into the composite rate loans are valued off
+ */
+export const AGGREGATED_PRICE_FEED_SOURCES: PriceFeedSource[] = [
+  'binance',
+  'coingecko',
+  'coinmarketcap',
+];
+
+export function isAggregatedPriceFeedSource(value: string): boolean {
+  return (AGGREGATED_PRICE_FEED_SOURCES as string[]).includes(value);
+}
+
 export function assertPriceFeedSource(value: string): asserts value is PriceFeedSource {
   if (!isPriceFeedSource(value)) {
     throw new Error(`Invalid price feed source: ${value}`);
@@ -38,4 +53,16 @@ export type PriceFeedStoreEvent = {
   askPrice: string; // Decimal string
   retrievalDate: Date;
   sourceDate: Date;
+  source?: string; // Absent for manually set prices
+  volume?: string; // Decimal string
+};
+
+/**
+ * Event payload for aggregating the provider rates of a pair into a composite rate
+ * This is dispatched to the pricefeedQueue after a fetch cycle
+ */
+export type PriceFeedAggregateEvent = {
+  blockchainKey: string;
+  baseCurrencyTokenId: string;
+  quoteCurrencyTokenId: string;
 };
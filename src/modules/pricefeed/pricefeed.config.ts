@@ -2,10 +2,20 @@ export type PricefeedConfig = {
   schedulerEnabled: boolean;
   cronExpression: string;
   fetchTimeout: number;
+  aggregationMethod: PriceAggregationMethod;
+  maxDeviationPercent: number;
+  minAgreeingSources: number;
+  maxSourceAge: number;
 };
 
+export type PriceAggregationMethod = 'median' | 'volumeWeighted';
+
 export const defaultPricefeedConfig: PricefeedConfig = {
   schedulerEnabled: true,
   cronExpression: '0 */5 * * * *', // Every 5 minutes
   fetchTimeout: 30000, // 30 seconds
+  aggregationMethod: 'median',
+  maxDeviationPercent: 2, // Sources further than 2% from the median are dropped
+  minAgreeingSources: 2,
+  maxSourceAge: 600000, // 10 minutes, two fetch cycles
 };
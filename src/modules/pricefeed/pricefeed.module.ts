@@ -7,6 +7,7 @@ import { ScheduleModule } from '@nestjs/schedule';
 import { RepositoryModule } from '../../shared/repositories/repository.module';
 import { PricefeedProcessor } from './pricefeed.processor';
 import { PricefeedService } from './pricefeed.service';
+import { PricefeedAggregationService } from './pricefeed-aggregation.service';
 import { PriceFeedProviderFactory } from './pricefeed-provider.factory';
 import { BinancePriceFeedProvider } from './providers/binance.provider';
 import { CoinGeckoPriceFeedProvider } from './providers/coingecko.provider';
@@ -29,6 +30,7 @@ import { RandomPriceFeedProvider } from './providers/random.provider';
   providers: [
     PricefeedService,
     PricefeedProcessor,
+    PricefeedAggregationService,
     PriceFeedProviderFactory,
 
     BinancePriceFeedProvider,
@@ -1,5 +1,5 @@
 import type { Queue } from 'bullmq';
-import type { PriceFeedStoreEvent } from './pricefeed-provider.types';
+import type { PriceFeedAggregateEvent, PriceFeedStoreEvent } from './pricefeed-provider.types';
 
 import { InjectQueue, Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
@@ -16,6 +16,8 @@ import {
 
 import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
 import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { PricefeedAggregationService } from './pricefeed-aggregation.service';
+import { isAggregatedPriceFeedSource } from './pricefeed-provider.types';
 
 @Processor('pricefeedQueue')
 export class PricefeedProcessor extends WorkerHost {
@@ -23,6 +25,7 @@ export class PricefeedProcessor extends WorkerHost {
 
   constructor(
     private readonly repository: CryptogadaiRepository,
+    private readonly aggregationService: PricefeedAggregationService,
     @InjectQueue('valuationQueue')
     private readonly valuationQueue: Queue,
   ) {
@@ -35,6 +38,8 @@ export class PricefeedProcessor extends WorkerHost {
     switch (job.name) {
       case 'storePriceFeed':
         return await this.handleStorePriceFeed(job);
+      case 'aggregatePriceFeed':
+        return await this.handleAggregatePriceFeed(job);
       default:
         this.logger.warn(`Unknown job type: ${job.name}`);
         return { success: false, message: 'Unknown job type' };
@@ -42,7 +47,8 @@ export class PricefeedProcessor extends WorkerHost {
   }
 
   /**
-   * Handles storing price feed data and emitting exchange rate updated event
+   * Handles storing price feed data and emitting exchange rate updated event.
+   * Rates of aggregated sources only value loans through the composite rate.
    */
   private async handleStorePriceFeed(
     job: Job,
@@ -60,6 +66,9 @@ export class PricefeedProcessor extends WorkerHost {
       assertProp(check(isString), data, 'askPrice');
       assertProp(isInstanceOf(Date), data, 'retrievalDate');
       assertProp(isInstanceOf(Date), data, 'sourceDate');
+      // Optional fields are left out of the job data when not set
+      const source = 'source' in data && typeof data.source === 'string' ? data.source : undefined;
+      const volume = 'volume' in data && typeof data.volume === 'string' ? data.volume : undefined;
 
       const event: PriceFeedStoreEvent = {
         priceFeedId: data.priceFeedId,
@@ -70,6 +79,8 @@ export class PricefeedProcessor extends WorkerHost {
         askPrice: data.askPrice,
         retrievalDate: data.retrievalDate,
         sourceDate: data.sourceDate,
+        source,
+        volume,
       };
 
       this.logger.log(
@@ -84,12 +95,20 @@ export class PricefeedProcessor extends WorkerHost {
         askPrice: event.askPrice,
         retrievalDate: event.retrievalDate,
         sourceDate: event.sourceDate,
+        volume: event.volume,
       });
 
       this.logger.debug(
         `Successfully stored price for ${event.baseCurrencyTokenId}/${event.quoteCurrencyTokenId}`,
       );
 
+      if (event.source && isAggregatedPriceFeedSource(event.source)) {
+        return {
+          success: true,
+          exchangeRateId: result.id,
+        };
+      }
+
       // Emit exchange rate updated event to valuation queue
       await this.emitExchangeRateUpdatedEvent({
         exchangeRateId: result.id,
@@ -115,6 +134,56 @@ export class PricefeedProcessor extends WorkerHost {
     }
   }
 
+  /**
+   * Handles aggregating provider rates into a composite rate and emitting exchange rate updated event
+   */
+  private async handleAggregatePriceFeed(
+    job: Job,
+  ): Promise<{ success: boolean; exchangeRateId?: string }> {
+    try {
+      const data: unknown = job.data;
+      assertDefined(data);
+
+      assertPropString(data, 'blockchainKey');
+      assertPropString(data, 'baseCurrencyTokenId');
+      assertPropString(data, 'quoteCurrencyTokenId');
+
+      const event: PriceFeedAggregateEvent = {
+        blockchainKey: data.blockchainKey,
+        baseCurrencyTokenId: data.baseCurrencyTokenId,
+        quoteCurrencyTokenId: data.quoteCurrencyTokenId,
+      };
+
+      const result = await this.aggregationService.aggregate(event);
+
+      if (!result) {
+        return { success: false };
+      }
+
+      await this.emitExchangeRateUpdatedEvent({
+        exchangeRateId: result.id,
+        priceFeedId: result.priceFeedId,
+        blockchainKey: event.blockchainKey,
+        baseCurrencyTokenId: event.baseCurrencyTokenId,
+        quoteCurrencyTokenId: event.quoteCurrencyTokenId,
+        bidPrice: result.bidPrice,
+        askPrice: result.askPrice,
+        retrievalDate: result.retrievalDate,
+        sourceDate: result.sourceDate,
+      });
+
+      return {
+        success: true,
+        exchangeRateId: result.id,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to aggregate price feed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Emits exchange rate updated event to valuation queue for loan valuation processing
    */
@@ -10,6 +10,8 @@ import { defaultPricefeedConfig } from './pricefeed.config';
 import { PriceFeedProviderFactory } from './pricefeed-provider.factory';
 import {
   assertPriceFeedSource,
+  isAggregatedPriceFeedSource,
+  type PriceFeedAggregateEvent,
   type PriceFeedRequest,
   type PriceFeedStoreEvent,
 } from './pricefeed-provider.types';
@@ -27,7 +29,8 @@ export class PricefeedService {
   ) {}
 
   /**
-   * Fetches prices from providers and dispatches them to the pricefeed queue for storage
+   * Fetches prices from providers and dispatches them to the pricefeed queue for storage,
+   * followed by an aggregation of every pair priced by an aggregated source
    */
   async fetchPrices(): Promise<void> {
     this.logger.log('Starting price feed fetch cycle');
@@ -82,6 +85,8 @@ export class PricefeedService {
               askPrice: priceData.askPrice,
               retrievalDate: priceData.retrievalDate,
               sourceDate: priceData.sourceDate,
+              source: priceFeed.source,
+              volume: priceData.volume,
             });
           } catch (error) {
             // this.logger.error(`Failed to fetch price for feed ${priceFeed.id}:`, error);
@@ -93,6 +98,24 @@ export class PricefeedService {
       const failed = results.filter(result => result.status === 'rejected').length;
 
       this.logger.log(`Price fetch cycle completed: ${successful} successful, ${failed} failed`);
+
+      const aggregatedPairs = new Map<string, PriceFeedAggregateEvent>();
+      for (const priceFeed of priceFeeds) {
+        if (isAggregatedPriceFeedSource(priceFeed.source)) {
+          aggregatedPairs.set(
+            `${priceFeed.blockchainKey}:${priceFeed.baseCurrencyTokenId}:${priceFeed.quoteCurrencyTokenId}`,
+            {
+              blockchainKey: priceFeed.blockchainKey,
+              baseCurrencyTokenId: priceFeed.baseCurrencyTokenId,
+              quoteCurrencyTokenId: priceFeed.quoteCurrencyTokenId,
+            },
+          );
+        }
+      }
+
+      for (const event of aggregatedPairs.values()) {
+        await this.dispatchPriceFeedAggregateEvent(event);
+      }
     } catch (error) {
       this.logger.error('Error during price feed fetch cycle:', error);
       throw error;
@@ -124,4 +147,30 @@ export class PricefeedService {
       throw error;
     }
   }
+
+  /**
+   * Dispatches a price feed aggregate event to the pricefeed queue
+   * It has a lower priority than store events so the rates of the fetch cycle are stored first
+   */
+  async dispatchPriceFeedAggregateEvent(event: PriceFeedAggregateEvent): Promise<void> {
+    try {
+      await this.pricefeedQueue.add('aggregatePriceFeed', event, {
+        priority: 2,
+        attempts: 3,
+        backoff: {
+          type: 'exponential',
+          delay: 1000,
+        },
+      });
+
+      this.logger.debug(
+        `Dispatched price feed aggregate event for ${event.baseCurrencyTokenId}/${event.quoteCurrencyTokenId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to dispatch price feed aggregate event: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      throw error;
+    }
+  }
 }
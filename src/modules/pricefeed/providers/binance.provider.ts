@@ -9,6 +9,7 @@ interface BinanceTickerResponse {
   symbol: string;
   bidPrice: string;
   askPrice: string;
+  quoteVolume: string;
 }
 
 @Injectable()
@@ -23,7 +24,7 @@ export class BinancePriceFeedProvider extends AbstractPriceFeedProvider {
     this.logger.debug(`Fetching price from Binance for symbol: ${symbol}`);
 
     try {
-      const response = await fetch(`${this.baseUrl}/ticker/bookTicker?symbol=${symbol}`);
+      const response = await fetch(`${this.baseUrl}/ticker/24hr?symbol=${symbol}`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -40,6 +41,7 @@ export class BinancePriceFeedProvider extends AbstractPriceFeedProvider {
       return {
         bidPrice: data.bidPrice,
         askPrice: data.askPrice,
+        volume: data.quoteVolume,
         sourceDate: retrievalDate, // Binance doesn't provide source timestamp
         retrievalDate,
       };
@@ -24,6 +24,7 @@ export class CoinGeckoPriceFeedProvider extends AbstractPriceFeedProvider {
       USDT: 'tether',
       USDC: 'usd-coin',
       BNB: 'binancecoin',
+      TRX: 'tron',
     };
 
     return mapping[tokenId.toUpperCase()] || tokenId.toLowerCase();
@@ -37,7 +38,7 @@ export class CoinGeckoPriceFeedProvider extends AbstractPriceFeedProvider {
 
     try {
       const response = await fetch(
-        `${this.baseUrl}/simple/price?ids=${baseCoinId}&vs_currencies=${quoteCoinId}&include_last_updated_at=true`,
+        `${this.baseUrl}/simple/price?ids=${baseCoinId}&vs_currencies=${quoteCoinId}&include_last_updated_at=true&include_24hr_vol=true`,
       );
 
       if (!response.ok) {
@@ -51,6 +52,7 @@ export class CoinGeckoPriceFeedProvider extends AbstractPriceFeedProvider {
       }
 
       const price = data[baseCoinId][quoteCoinId];
+      const volume = data[baseCoinId][`${quoteCoinId}_24h_vol`];
       const retrievalDate = new Date();
 
       // CoinGecko simple price API doesn't provide bid/ask spread, so we use the same price
@@ -60,6 +62,7 @@ export class CoinGeckoPriceFeedProvider extends AbstractPriceFeedProvider {
       return {
         bidPrice: priceStr,
         askPrice: priceStr,
+        volume: typeof volume === 'number' ? volume.toString() : undefined,
         sourceDate: retrievalDate, // CoinGecko simple API doesn't provide detailed timestamps
         retrievalDate,
       };
@@ -12,6 +12,7 @@ interface CoinMarketCapQuoteResponse {
       quote: {
         [currency: string]: {
           price: number;
+          volume_24h?: number;
           last_updated: string;
         };
       };
@@ -74,6 +75,7 @@ export class CoinMarketCapPriceFeedProvider extends AbstractPriceFeedProvider {
       return {
         bidPrice: price,
         askPrice: price,
+        volume: priceInfo.volume_24h?.toString(),
         sourceDate,
         retrievalDate,
       };
@@ -243,7 +243,7 @@ export class SettlementService {
           try {
             const hotWallet = await this.walletService.getHotWallet(blockchainKey);
             const address = await hotWallet.wallet.getAddress();
-            const balance = await hotWallet.wallet.getBalance(address);
+            const balance = await hotWallet.wallet.getBalance(address, currencyTokenId);
             return { blockchainKey, balance: balance.toString(), address };
           } catch (error) {
             this.logger.error(`Failed to get balance for ${blockchainKey}: ${error}`);
@@ -181,7 +181,7 @@ export class SettlementTestController {
           try {
             const hotWallet = await this.walletService.getHotWallet(blockchainKey);
             const address = await hotWallet.wallet.getAddress();
-            const balance = await hotWallet.wallet.getBalance(address);
+            const balance = await hotWallet.wallet.getBalance(address, body.currencyTokenId);
             return { blockchainKey, balance: balance.toString(), address };
           } catch (error) {
             console.error(`Failed to get balance for ${blockchainKey}:`, error);
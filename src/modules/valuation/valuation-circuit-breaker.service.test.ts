@@ -0,0 +1,259 @@
+import type { ConfigService } from '@nestjs/config';
+import type { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import type { MarketCircuitBreaker, ReleasedLtvBreach } from '../../shared/repositories/loan.types';
+import type { NotificationQueueService } from '../notifications/notification-queue.service';
+import type { ActiveLoanForValuation, ExchangeRateUpdatedEvent } from './valuation.types';
+import type { ValuationEventService } from './valuation-event.service';
+
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { DEFAULT_LTV_THRESHOLDS, ValuationService } from './valuation.service';
+import {
+  calculatePriceChangeRate,
+  ValuationCircuitBreakerService,
+} from './valuation-circuit-breaker.service';
+
+const now = new Date('2024-01-10T10:00:00.000Z');
+
+const exchangeRate: ExchangeRateUpdatedEvent = {
+  exchangeRateId: 'rate-3',
+  priceFeedId: 'feed-1',
+  blockchainKey: 'crosschain',
+  baseCurrencyTokenId: 'slip44:60',
+  quoteCurrencyTokenId: 'iso4217:usd',
+  bidPrice: '2600',
+  askPrice: '2600',
+  retrievalDate: now,
+  sourceDate: now,
+};
+
+function buildCircuitBreaker(overrides: Partial<MarketCircuitBreaker> = {}): MarketCircuitBreaker {
+  return {
+    id: 'breaker-1',
+    blockchainKey: 'crosschain',
+    baseCurrencyTokenId: 'slip44:60',
+    quoteCurrencyTokenId: 'iso4217:usd',
+    status: 'Halted',
+    priceChangeRate: 0.13,
+    triggerExchangeRateId: 'rate-2',
+    haltedDate: new Date('2024-01-10T09:00:00.000Z'),
+    lastBreachDate: new Date('2024-01-10T09:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function buildLoan(loanId: string): ActiveLoanForValuation {
+  return {
+    loanId,
+    borrowerUserId: 'borrower-1',
+    collateralBlockchainKey: 'crosschain',
+    collateralTokenId: 'slip44:60',
+    collateralAmount: '1000000000000000000',
+    collateralDecimals: 18,
+    principalBlockchainKey: 'eip155:56',
+    principalTokenId: 'iso4217:usd',
+    principalAmount: '2000000000',
+    interestAmount: '0',
+    provisionAmount: '0',
+    principalDecimals: 6,
+    currentLtvRatio: 0.9,
+    mcLtvRatio: 0.75,
+    maturityDate: new Date('2024-06-10T10:00:00.000Z'),
+    ltvThresholds: DEFAULT_LTV_THRESHOLDS,
+    valuationPriceMode: 'Mid',
+    valuationTwapWindowSeconds: 1800,
+  };
+}
+
+function buildReleasedBreach(
+  loanId: string,
+  thresholdLevel: ReleasedLtvBreach['thresholdLevel'],
+  ltvRatio: number,
+): ReleasedLtvBreach {
+  return {
+    loanId,
+    loanStatus: 'Active',
+    thresholdLevel,
+    deferredLtvRatio: 0.99,
+    latestValuation: {
+      exchangeRateId: 'rate-9',
+      valuationDate: now,
+      ltvRatio,
+      collateralValuationAmount: '2200000000',
+      debtAmount: '2000000000',
+    },
+  };
+}
+
+describe('calculatePriceChangeRate', () => {
+  it('should measure the move away from the window low and high', () => {
+    strictEqual(calculatePriceChangeRate('2600', '2600', '3000'), 0.13333333333333333);
+    strictEqual(calculatePriceChangeRate('3300', '3000', '3300'), 0.1);
+    strictEqual(calculatePriceChangeRate('3000', '3000', '3000'), 0);
+  });
+});
+
+describe('ValuationCircuitBreakerService', () => {
+  let repository: Record<string, ReturnType<typeof mock.fn>>;
+  let emitLtvThresholdEvents: ReturnType<typeof mock.fn>;
+  let queueNotification: ReturnType<typeof mock.fn>;
+  let activeLoans: ActiveLoanForValuation[];
+  let service: ValuationCircuitBreakerService;
+
+  beforeEach(() => {
+    activeLoans = [buildLoan('loan-1'), buildLoan('loan-2')];
+    repository = {
+      platformViewsExchangeRateRange: mock.fn(async (_params: unknown) => ({
+        exchangeRateCount: 3,
+        lowestMidPrice: '2600',
+        highestMidPrice: '3000',
+      })),
+      platformViewsHaltedMarket: mock.fn(async (_params: unknown) => ({
+        circuitBreaker: undefined,
+      })),
+      platformHaltsMarket: mock.fn(async (_params: unknown) => ({
+        circuitBreaker: buildCircuitBreaker({ haltedDate: now, lastBreachDate: now }),
+      })),
+      platformRecordsMarketBreach: mock.fn(async (_params: unknown) => ({
+        circuitBreaker: buildCircuitBreaker({ lastBreachDate: now }),
+      })),
+      platformResumesMarket: mock.fn(async (_params: unknown) => ({
+        circuitBreaker: buildCircuitBreaker({ status: 'Resumed', resumedDate: now }),
+      })),
+      platformDefersLtvBreach: mock.fn(async (_params: unknown) => ({ deferredBreachId: '1' })),
+      platformReleasesDeferredLtvBreaches: mock.fn(async (_params: unknown) => ({
+        releasedBreaches: [],
+      })),
+    };
+    emitLtvThresholdEvents = mock.fn(async (_valuation: unknown, _loan: unknown) => undefined);
+    queueNotification = mock.fn(async (_data: unknown) => undefined);
+
+    const configService = {
+      get: (_key: string, defaultValue?: unknown) => defaultValue,
+    } as unknown as ConfigService;
+    const valuationService = new ValuationService(
+      repository as unknown as CryptogadaiRepository,
+      configService,
+    );
+    mock.method(valuationService, 'getActiveLoansForValuation', async () => activeLoans);
+
+    service = new ValuationCircuitBreakerService(
+      repository as unknown as CryptogadaiRepository,
+      configService,
+      valuationService,
+      { emitLtvThresholdEvents } as unknown as ValuationEventService,
+      { queueNotification } as unknown as NotificationQueueService,
+    );
+  });
+
+  it('should halt the pair and alert admins when the price moves past the threshold', async () => {
+    const check = await service.checkExchangeRate(exchangeRate, now);
+
+    strictEqual(check.status, 'Halted');
+    deepStrictEqual(repository.platformViewsExchangeRateRange.mock.calls[0].arguments[0], {
+      priceFeedId: 'feed-1',
+      sourceDateFrom: new Date('2024-01-10T09:45:00.000Z'),
+    });
+    const haltParams = repository.platformHaltsMarket.mock.calls[0].arguments[0] as Record<
+      string,
+      unknown
+    >;
+    strictEqual(haltParams.triggerExchangeRateId, 'rate-3');
+    strictEqual(queueNotification.mock.callCount(), 1);
+    strictEqual(
+      (queueNotification.mock.calls[0].arguments[0] as { type: string }).type,
+      'AdminMarketHalted',
+    );
+  });
+
+  it('should extend an existing halt without alerting admins again', async () => {
+    repository.platformViewsHaltedMarket.mock.mockImplementation(async () => ({
+      circuitBreaker: buildCircuitBreaker(),
+    }));
+
+    const check = await service.checkExchangeRate(exchangeRate, now);
+
+    strictEqual(check.status, 'Halted');
+    strictEqual(repository.platformRecordsMarketBreach.mock.callCount(), 1);
+    strictEqual(repository.platformHaltsMarket.mock.callCount(), 0);
+    strictEqual(queueNotification.mock.callCount(), 0);
+  });
+
+  it('should stay halted until the price has been stable for the stabilisation period', async () => {
+    repository.platformViewsExchangeRateRange.mock.mockImplementation(async () => ({
+      exchangeRateCount: 3,
+      lowestMidPrice: '2550',
+      highestMidPrice: '2650',
+    }));
+    repository.platformViewsHaltedMarket.mock.mockImplementation(async () => ({
+      circuitBreaker: buildCircuitBreaker({
+        lastBreachDate: new Date('2024-01-10T09:40:00.000Z'),
+      }),
+    }));
+
+    const check = await service.checkExchangeRate(exchangeRate, now);
+
+    strictEqual(check.status, 'Halted');
+    strictEqual(repository.platformResumesMarket.mock.callCount(), 0);
+  });
+
+  it('should resume the pair once the price has stabilised', async () => {
+    repository.platformViewsExchangeRateRange.mock.mockImplementation(async () => ({
+      exchangeRateCount: 3,
+      lowestMidPrice: '2550',
+      highestMidPrice: '2650',
+    }));
+    repository.platformViewsHaltedMarket.mock.mockImplementation(async () => ({
+      circuitBreaker: buildCircuitBreaker(),
+    }));
+
+    const check = await service.checkExchangeRate(exchangeRate, now);
+
+    strictEqual(check.status, 'Resumed');
+    deepStrictEqual(repository.platformResumesMarket.mock.calls[0].arguments[0], {
+      circuitBreakerId: 'breaker-1',
+      resumedDate: now,
+    });
+    strictEqual(
+      (queueNotification.mock.calls[0].arguments[0] as { type: string }).type,
+      'AdminMarketResumed',
+    );
+  });
+
+  it('should emit only the most severe deferred breach the latest valuation still confirms', async () => {
+    repository.platformReleasesDeferredLtvBreaches.mock.mockImplementation(async () => ({
+      releasedBreaches: [
+        // LTV recovered below riskPremium, so loan-1 only gets its warning3
+        buildReleasedBreach('loan-1', 'warning2', 0.96),
+        buildReleasedBreach('loan-1', 'warning3', 0.96),
+        buildReleasedBreach('loan-1', 'riskPremium', 0.96),
+        // LTV recovered below every threshold
+        buildReleasedBreach('loan-2', 'liquidation', 0.8),
+        // No longer active
+        buildReleasedBreach('loan-3', 'liquidation', 1.2),
+      ],
+    }));
+
+    const release = await service.releaseDeferredBreaches(buildCircuitBreaker(), now);
+
+    deepStrictEqual(release, { releasedCount: 5, emittedCount: 1 });
+    strictEqual(emitLtvThresholdEvents.mock.callCount(), 1);
+    const [valuation, loan] = emitLtvThresholdEvents.mock.calls[0].arguments as [
+      { breachedThresholds: string[]; newLtvRatio: number },
+      ActiveLoanForValuation,
+    ];
+    strictEqual(loan.loanId, 'loan-1');
+    deepStrictEqual(valuation.breachedThresholds, ['warning3']);
+    strictEqual(valuation.newLtvRatio, 0.96);
+  });
+
+  it('should not release anything when an admin resumes a pair that is not halted', async () => {
+    repository.platformResumesMarket.mock.mockImplementation(async () => ({
+      circuitBreaker: undefined,
+    }));
+
+    strictEqual(await service.resume('breaker-1', 'admin-1', now), undefined);
+    strictEqual(repository.platformReleasesDeferredLtvBreaches.mock.callCount(), 0);
+  });
+});
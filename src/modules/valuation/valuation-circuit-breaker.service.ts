@@ -0,0 +1,313 @@
+import type { MarketCircuitBreaker } from '../../shared/repositories/loan.types';
+import type {
+  ActiveLoanForValuation,
+  DeferredLtvBreachRelease,
+  ExchangeRateUpdatedEvent,
+  LtvWarningLevel,
+  MarketCircuitBreakerCheck,
+  ValuationCalculationResult,
+} from './valuation.types';
+
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { BigNumber } from 'bignumber.js';
+
+import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { NotificationQueueService } from '../notifications/notification-queue.service';
+import { defaultValuationConfig } from './valuation.config';
+import { ValuationService } from './valuation.service';
+import { ValuationEventService } from './valuation-event.service';
+
+const THRESHOLD_SEVERITY: Record<LtvWarningLevel, number> = {
+  warning1: 1,
+  warning2: 2,
+  warning3: 3,
+  riskPremium: 4,
+  liquidation: 5,
+};
+
+/**
+ * Largest move of the mid price away from the lowest or highest mid price of the window, relative to that extreme
+ */
+export function calculatePriceChangeRate(
+  midPrice: string,
+  lowestMidPrice: string,
+  highestMidPrice: string,
+): number {
+  const mid = new BigNumber(midPrice);
+  const lowest = new BigNumber(lowestMidPrice);
+  const highest = new BigNumber(highestMidPrice);
+
+  const rise = lowest.isGreaterThan(0) ? mid.minus(lowest).dividedBy(lowest) : new BigNumber(0);
+  const drop = highest.isGreaterThan(0) ? highest.minus(mid).dividedBy(highest) : new BigNumber(0);
+
+  return BigNumber.max(rise, drop, 0).toNumber();
+}
+
+/**
+ * Market circuit breaker
+ *
+ * Halts a pair when its price moves more than the configured rate within the rolling window. While
+ * halted, LTV breaches of the pair are deferred instead of emitted and platform liquidations are
+ * blocked. Once the price has stayed within the threshold for the stabilisation period, or an admin
+ * resumes the pair, deferred breaches that the latest valuation still confirms are emitted.
+ */
+@Injectable()
+export class ValuationCircuitBreakerService {
+  private readonly logger = new Logger(ValuationCircuitBreakerService.name);
+
+  constructor(
+    private readonly repository: CryptogadaiRepository,
+    private readonly configService: ConfigService,
+    private readonly valuationService: ValuationService,
+    private readonly valuationEventService: ValuationEventService,
+    private readonly notificationQueueService: NotificationQueueService,
+  ) {}
+
+  /**
+   * Halts, extends or resumes the pair of the exchange rate based on its rolling price change
+   */
+  async checkExchangeRate(
+    exchangeRate: ExchangeRateUpdatedEvent,
+    now: Date = new Date(),
+  ): Promise<MarketCircuitBreakerCheck> {
+    const enabled = this.configService.get<boolean>(
+      'VALUATION_CIRCUIT_BREAKER_ENABLED',
+      defaultValuationConfig.circuitBreakerEnabled,
+    );
+    const window = Number(
+      this.configService.get<number>(
+        'VALUATION_CIRCUIT_BREAKER_WINDOW',
+        defaultValuationConfig.circuitBreakerWindow,
+      ),
+    );
+    const maxPriceChangeRate = Number(
+      this.configService.get<number>(
+        'VALUATION_CIRCUIT_BREAKER_MAX_PRICE_CHANGE_RATE',
+        defaultValuationConfig.circuitBreakerMaxPriceChangeRate,
+      ),
+    );
+    const stabilisationPeriod = Number(
+      this.configService.get<number>(
+        'VALUATION_CIRCUIT_BREAKER_STABILISATION_PERIOD',
+        defaultValuationConfig.circuitBreakerStabilisationPeriod,
+      ),
+    );
+
+    const pair = {
+      blockchainKey: exchangeRate.blockchainKey,
+      baseCurrencyTokenId: exchangeRate.baseCurrencyTokenId,
+      quoteCurrencyTokenId: exchangeRate.quoteCurrencyTokenId,
+    };
+    const pairName = `${pair.baseCurrencyTokenId}/${pair.quoteCurrencyTokenId}`;
+
+    const range = await this.repository.platformViewsExchangeRateRange({
+      priceFeedId: exchangeRate.priceFeedId,
+      sourceDateFrom: new Date(exchangeRate.sourceDate.getTime() - window),
+    });
+    const midPrice = new BigNumber(exchangeRate.bidPrice)
+      .plus(exchangeRate.askPrice)
+      .dividedBy(2)
+      .toFixed();
+    const priceChangeRate = calculatePriceChangeRate(
+      midPrice,
+      range.lowestMidPrice ?? midPrice,
+      range.highestMidPrice ?? midPrice,
+    );
+
+    const { circuitBreaker: haltedCircuitBreaker } =
+      await this.repository.platformViewsHaltedMarket(pair);
+
+    if (enabled && priceChangeRate > maxPriceChangeRate) {
+      if (haltedCircuitBreaker) {
+        const { circuitBreaker } = await this.repository.platformRecordsMarketBreach({
+          circuitBreakerId: haltedCircuitBreaker.id,
+          priceChangeRate,
+          breachDate: now,
+        });
+        return { status: 'Halted', priceChangeRate, circuitBreaker };
+      }
+
+      const { circuitBreaker } = await this.repository.platformHaltsMarket({
+        ...pair,
+        priceChangeRate,
+        triggerExchangeRateId: exchangeRate.exchangeRateId,
+        haltedDate: now,
+      });
+
+      this.logger.warn(
+        `Halted ${pairName}: price moved ${(priceChangeRate * 100).toFixed(2)}% within ${window / 60000} minutes`,
+      );
+
+      await this.notificationQueueService.queueNotification({
+        type: 'AdminMarketHalted',
+        name: 'Market Circuit Breaker Tripped',
+        circuitBreakerId: circuitBreaker.id,
+        ...pair,
+        priceChangeRate,
+        exchangeRateId: exchangeRate.exchangeRateId,
+        haltedDate: circuitBreaker.haltedDate,
+        requiresAction: true,
+        reviewLink: '/admin/valuation/circuit-breaker',
+      });
+
+      return { status: 'Halted', priceChangeRate, circuitBreaker };
+    }
+
+    if (!haltedCircuitBreaker) {
+      return { status: 'Normal', priceChangeRate };
+    }
+
+    if (now.getTime() - haltedCircuitBreaker.lastBreachDate.getTime() < stabilisationPeriod) {
+      return { status: 'Halted', priceChangeRate, circuitBreaker: haltedCircuitBreaker };
+    }
+
+    const { circuitBreaker } = await this.repository.platformResumesMarket({
+      circuitBreakerId: haltedCircuitBreaker.id,
+      resumedDate: now,
+    });
+
+    // An admin resumed it in the meantime and already released the deferred breaches
+    if (!circuitBreaker) {
+      return { status: 'Normal', priceChangeRate };
+    }
+
+    this.logger.log(`Resumed ${pairName} after the price stabilised`);
+
+    await this.notificationQueueService.queueNotification({
+      type: 'AdminMarketResumed',
+      name: 'Market Circuit Breaker Resumed',
+      circuitBreakerId: circuitBreaker.id,
+      ...pair,
+      resumedDate: now,
+    });
+
+    return { status: 'Resumed', priceChangeRate, circuitBreaker };
+  }
+
+  /**
+   * Holds back the threshold breaches of a valuation made while its pair is halted
+   */
+  async deferBreaches(
+    circuitBreaker: MarketCircuitBreaker,
+    valuation: ValuationCalculationResult,
+  ): Promise<void> {
+    for (const thresholdLevel of valuation.breachedThresholds) {
+      await this.repository.platformDefersLtvBreach({
+        circuitBreakerId: circuitBreaker.id,
+        loanId: valuation.loanId,
+        thresholdLevel,
+        exchangeRateId: valuation.exchangeRateId,
+        ltvRatio: valuation.newLtvRatio,
+        deferredDate: valuation.valuationDate,
+      });
+    }
+
+    this.logger.log(
+      `Deferred ${valuation.breachedThresholds.join(', ')} breach of loan ${valuation.loanId} while market is halted`,
+    );
+  }
+
+  /**
+   * Resumes a halted pair on behalf of an admin and releases its deferred breaches.
+   * Returns undefined when the pair is not halted.
+   */
+  async resume(
+    circuitBreakerId: string,
+    resumedByUserId: string,
+    now: Date = new Date(),
+  ): Promise<
+    { circuitBreaker: MarketCircuitBreaker; release: DeferredLtvBreachRelease } | undefined
+  > {
+    const { circuitBreaker } = await this.repository.platformResumesMarket({
+      circuitBreakerId,
+      resumedDate: now,
+      resumedByUserId,
+    });
+
+    if (!circuitBreaker) {
+      return undefined;
+    }
+
+    this.logger.log(
+      `Admin ${resumedByUserId} resumed ${circuitBreaker.baseCurrencyTokenId}/${circuitBreaker.quoteCurrencyTokenId}`,
+    );
+
+    const release = await this.releaseDeferredBreaches(circuitBreaker, now);
+
+    return { circuitBreaker, release };
+  }
+
+  /**
+   * Emits, per loan, the most severe deferred breach that the latest valuation still breaches.
+   * Breaches the price has recovered from, and loans that are no longer active, are dropped.
+   * Callers that already loaded the active loans pass them in.
+   */
+  async releaseDeferredBreaches(
+    circuitBreaker: MarketCircuitBreaker,
+    now: Date = new Date(),
+    activeLoans?: ActiveLoanForValuation[],
+  ): Promise<DeferredLtvBreachRelease> {
+    const { releasedBreaches } = await this.repository.platformReleasesDeferredLtvBreaches({
+      circuitBreakerId: circuitBreaker.id,
+      releasedDate: now,
+    });
+
+    if (releasedBreaches.length === 0) {
+      return { releasedCount: 0, emittedCount: 0 };
+    }
+
+    const activeLoansById = new Map<string, ActiveLoanForValuation>(
+      (activeLoans ?? (await this.valuationService.getActiveLoansForValuation())).map(loan => [
+        loan.loanId,
+        loan,
+      ]),
+    );
+
+    const breachesByLoan = new Map<string, typeof releasedBreaches>();
+    for (const breach of releasedBreaches) {
+      breachesByLoan.set(breach.loanId, [...(breachesByLoan.get(breach.loanId) ?? []), breach]);
+    }
+
+    let emittedCount = 0;
+    for (const [loanId, breaches] of breachesByLoan) {
+      const loan = activeLoansById.get(loanId);
+      const latestValuation = breaches[0].latestValuation;
+      if (!loan || !latestValuation) continue;
+
+      const currentLevel = this.valuationService.getBreachedThreshold(
+        latestValuation.ltvRatio,
+        loan.ltvThresholds,
+      );
+      if (!currentLevel) continue;
+
+      const confirmedLevels = breaches
+        .map(breach => breach.thresholdLevel)
+        .filter(level => THRESHOLD_SEVERITY[level] <= THRESHOLD_SEVERITY[currentLevel])
+        .sort((a, b) => THRESHOLD_SEVERITY[b] - THRESHOLD_SEVERITY[a]);
+      if (confirmedLevels.length === 0) continue;
+
+      await this.valuationEventService.emitLtvThresholdEvents(
+        {
+          loanId,
+          exchangeRateId: latestValuation.exchangeRateId,
+          valuationDate: latestValuation.valuationDate,
+          collateralValuationAmount: latestValuation.collateralValuationAmount,
+          newLtvRatio: latestValuation.ltvRatio,
+          previousLtvRatio: latestValuation.ltvRatio,
+          totalDebtAmount: latestValuation.debtAmount ?? '0',
+          breachedThresholds: [confirmedLevels[0]],
+        },
+        loan,
+      );
+      emittedCount++;
+    }
+
+    this.logger.log(
+      `Released ${releasedBreaches.length} deferred breaches of ${circuitBreaker.baseCurrencyTokenId}/${circuitBreaker.quoteCurrencyTokenId}, emitted ${emittedCount}`,
+    );
+
+    return { releasedCount: releasedBreaches.length, emittedCount };
+  }
+}
@@ -11,6 +11,9 @@ import { Injectable, Logger } from '@nestjs/common';
 
 import { Queue } from 'bullmq';
 
+import { formatAsPercentage } from '../../shared/utils/rate-ratio.utils';
+import { NotificationQueueService } from '../notifications/notification-queue.service';
+
 @Injectable()
 export class ValuationEventService {
   private readonly logger = new Logger(ValuationEventService.name);
@@ -20,6 +23,7 @@ export class ValuationEventService {
     private readonly notificationQueue: Queue,
     @InjectQueue('liquidationQueue')
     private readonly liquidationQueue: Queue,
+    private readonly notificationQueueService: NotificationQueueService,
   ) {}
 
   /**
@@ -76,6 +80,32 @@ export class ValuationEventService {
     }
   }
 
+  /**
+   * Tells the borrower their loan is back below every warning threshold
+   */
+  async emitLtvRecoveredEvent(
+    valuation: ValuationCalculationResult,
+    loan: ActiveLoanForValuation,
+  ): Promise<void> {
+    try {
+      await this.notificationQueueService.queueNotification({
+        type: 'LoanLtvRecovered',
+        userId: loan.borrowerUserId,
+        loanId: loan.loanId,
+        currentLtv: formatAsPercentage(valuation.newLtvRatio),
+        thresholdLtv: formatAsPercentage(loan.ltvThresholds.warning1),
+      });
+
+      this.logger.log(
+        `Loan ${loan.loanId} recovered below every LTV threshold (LTV: ${valuation.newLtvRatio.toFixed(4)})`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to emit LTV recovery for loan ${loan.loanId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
   /**
    * Emits liquidation event to liquidation queue
    */
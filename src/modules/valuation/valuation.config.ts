@@ -0,0 +1,17 @@
+export type ValuationConfig = {
+  circuitBreakerEnabled: boolean;
+  circuitBreakerWindow: number; // ms, span of the rolling price change
+  circuitBreakerMaxPriceChangeRate: number; // 0-1 decimal, rolling change that halts the pair
+  circuitBreakerStabilisationPeriod: number; // ms without a breach before a halted pair resumes
+  ltvWarningHysteresis: number; // 0-1 decimal, LTV must fall this far below a threshold to leave its level
+  ltvWarningDedupWindow: number; // ms within which a warning breach already sent is not sent again
+};
+
+export const defaultValuationConfig: ValuationConfig = {
+  circuitBreakerEnabled: true,
+  circuitBreakerWindow: 900000, // 15 minutes, three fetch cycles
+  circuitBreakerMaxPriceChangeRate: 0.1,
+  circuitBreakerStabilisationPeriod: 1800000, // 30 minutes
+  ltvWarningHysteresis: 0.02,
+  ltvWarningDedupWindow: 21600000, // 6 hours
+};
@@ -1,15 +1,20 @@
 import { BullModule } from '@nestjs/bullmq';
 import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
 
 import { SharedModule } from '../../shared/shared.module';
+import { NotificationModule } from '../notifications/notification.module';
 import { ValuationProcessor } from './valuation.processor';
 import { ValuationScheduler } from './valuation.scheduler';
 import { ValuationService } from './valuation.service';
+import { ValuationCircuitBreakerService } from './valuation-circuit-breaker.service';
 import { ValuationEventService } from './valuation-event.service';
 
 @Module({
   imports: [
+    ConfigModule,
     SharedModule,
+    NotificationModule,
     BullModule.registerQueue({
       name: 'valuationQueue',
     }),
@@ -20,7 +25,13 @@ import { ValuationEventService } from './valuation-event.service';
       name: 'liquidationQueue',
     }),
   ],
-  providers: [ValuationService, ValuationEventService, ValuationProcessor, ValuationScheduler],
-  exports: [ValuationService, ValuationEventService],
+  providers: [
+    ValuationService,
+    ValuationEventService,
+    ValuationCircuitBreakerService,
+    ValuationProcessor,
+    ValuationScheduler,
+  ],
+  exports: [ValuationService, ValuationEventService, ValuationCircuitBreakerService],
 })
 export class ValuationModule {}
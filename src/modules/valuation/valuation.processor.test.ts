@@ -0,0 +1,195 @@
+import type { Job } from 'bullmq';
+import type { MarketCircuitBreaker } from '../../shared/repositories/loan.types';
+import type {
+  ActiveLoanForValuation,
+  ExchangeRateUpdatedEvent,
+  MarketCircuitBreakerCheck,
+  ValuationCalculationResult,
+} from './valuation.types';
+import type { ValuationCircuitBreakerService } from './valuation-circuit-breaker.service';
+import type { ValuationEventService } from './valuation-event.service';
+
+import { deepStrictEqual, strictEqual } from 'node:assert/strict';
+import { beforeEach, describe, it, mock } from 'node:test';
+
+import { ValuationProcessor } from './valuation.processor';
+import { DEFAULT_LTV_THRESHOLDS, type ValuationService } from './valuation.service';
+
+const now = new Date('2024-01-10T10:00:00.000Z');
+
+const exchangeRate: ExchangeRateUpdatedEvent = {
+  exchangeRateId: 'rate-3',
+  priceFeedId: 'feed-1',
+  blockchainKey: 'crosschain',
+  baseCurrencyTokenId: 'slip44:60',
+  quoteCurrencyTokenId: 'iso4217:usd',
+  bidPrice: '2600',
+  askPrice: '2600',
+  retrievalDate: now,
+  sourceDate: now,
+};
+
+const circuitBreaker: MarketCircuitBreaker = {
+  id: 'breaker-1',
+  blockchainKey: 'crosschain',
+  baseCurrencyTokenId: 'slip44:60',
+  quoteCurrencyTokenId: 'iso4217:usd',
+  status: 'Halted',
+  priceChangeRate: 0.13,
+  triggerExchangeRateId: 'rate-2',
+  haltedDate: new Date('2024-01-10T09:00:00.000Z'),
+  lastBreachDate: new Date('2024-01-10T09:00:00.000Z'),
+};
+
+function buildLoan(loanId: string): ActiveLoanForValuation {
+  return {
+    loanId,
+    borrowerUserId: 'borrower-1',
+    collateralBlockchainKey: 'crosschain',
+    collateralTokenId: 'slip44:60',
+    collateralAmount: '1000000000000000000',
+    collateralDecimals: 18,
+    principalBlockchainKey: 'eip155:56',
+    principalTokenId: 'iso4217:usd',
+    principalAmount: '2000000000',
+    interestAmount: '0',
+    provisionAmount: '0',
+    principalDecimals: 6,
+    currentLtvRatio: 0.9,
+    mcLtvRatio: 0.75,
+    maturityDate: new Date('2024-06-10T10:00:00.000Z'),
+    ltvThresholds: DEFAULT_LTV_THRESHOLDS,
+    valuationPriceMode: 'Mid',
+    valuationTwapWindowSeconds: 1800,
+  };
+}
+
+function buildValuation(
+  loanId: string,
+  newLtvRatio: number,
+  eventType: 'LtvBreached' | 'LtvRecovered',
+): ValuationCalculationResult {
+  const breachedLevel = eventType === 'LtvBreached' ? 'warning1' : undefined;
+  return {
+    loanId,
+    exchangeRateId: 'rate-3',
+    valuationDate: now,
+    collateralValuationAmount: '2600000000',
+    newLtvRatio,
+    previousLtvRatio: 0.88,
+    totalDebtAmount: '2000000000',
+    breachedThresholds: breachedLevel ? [breachedLevel] : [],
+    warningTransition: {
+      previousWarningLevel: eventType === 'LtvBreached' ? undefined : 'warning1',
+      state: {
+        warningLevel: breachedLevel,
+        levelChangedDate: now,
+        lastBreachLevel: 'warning1',
+        lastBreachDate: now,
+        lastRecoveredDate: eventType === 'LtvRecovered' ? now : undefined,
+      },
+      breachedLevel,
+      eventType,
+    },
+  };
+}
+
+describe('ValuationProcessor', () => {
+  let circuitBreakerCheck: MarketCircuitBreakerCheck;
+  let getActiveLoansForValuation: ReturnType<typeof mock.fn>;
+  let processValuationUpdates: ReturnType<typeof mock.fn>;
+  let releaseDeferredBreaches: ReturnType<typeof mock.fn>;
+  let emitLtvRecoveredEvent: ReturnType<typeof mock.fn>;
+  let emitLtvThresholdEvents: ReturnType<typeof mock.fn>;
+  let deferBreaches: ReturnType<typeof mock.fn>;
+  let processor: ValuationProcessor;
+
+  const job = { id: 'job-1', name: 'exchangeRateUpdated', data: exchangeRate } as Job;
+
+  beforeEach(() => {
+    getActiveLoansForValuation = mock.fn(async () => [buildLoan('loan-1'), buildLoan('loan-2')]);
+    emitLtvRecoveredEvent = mock.fn(async (..._args: unknown[]) => undefined);
+    emitLtvThresholdEvents = mock.fn(async (..._args: unknown[]) => undefined);
+    deferBreaches = mock.fn(async (..._args: unknown[]) => undefined);
+    processValuationUpdates = mock.fn(async (..._args: unknown[]) => [
+      buildValuation('loan-1', 0.8, 'LtvRecovered'),
+      buildValuation('loan-2', 0.9, 'LtvBreached'),
+    ]);
+    releaseDeferredBreaches = mock.fn(async (..._args: unknown[]) => ({
+      releasedCount: 0,
+      emittedCount: 0,
+    }));
+
+    processor = new ValuationProcessor(
+      {
+        processValuationUpdates,
+        getActiveLoansForValuation,
+      } as unknown as ValuationService,
+      { emitLtvRecoveredEvent, emitLtvThresholdEvents } as unknown as ValuationEventService,
+      {
+        checkExchangeRate: async () => circuitBreakerCheck,
+        deferBreaches,
+        releaseDeferredBreaches,
+      } as unknown as ValuationCircuitBreakerService,
+    );
+  });
+
+  it('should emit recoveries and breaches with the loans loaded once', async () => {
+    circuitBreakerCheck = { status: 'Normal', priceChangeRate: 0.01 };
+
+    deepStrictEqual(await processor.process(job), { success: true, processed: 2 });
+
+    strictEqual(getActiveLoansForValuation.mock.callCount(), 1);
+    deepStrictEqual(processValuationUpdates.mock.calls[0].arguments[1], {
+      activeLoans: [buildLoan('loan-1'), buildLoan('loan-2')],
+      marketHalted: false,
+    });
+    strictEqual(emitLtvRecoveredEvent.mock.callCount(), 1);
+    strictEqual(
+      (emitLtvRecoveredEvent.mock.calls[0].arguments[1] as { loanId: string }).loanId,
+      'loan-1',
+    );
+    strictEqual(emitLtvThresholdEvents.mock.callCount(), 1);
+    strictEqual(
+      (emitLtvThresholdEvents.mock.calls[0].arguments[1] as { loanId: string }).loanId,
+      'loan-2',
+    );
+  });
+
+  it('should withhold recoveries and defer breaches while the market is halted', async () => {
+    circuitBreakerCheck = { status: 'Halted', priceChangeRate: 0.13, circuitBreaker };
+
+    await processor.process(job);
+
+    strictEqual(
+      (processValuationUpdates.mock.calls[0].arguments[1] as { marketHalted: boolean })
+        .marketHalted,
+      true,
+    );
+    strictEqual(emitLtvRecoveredEvent.mock.callCount(), 0);
+    strictEqual(emitLtvThresholdEvents.mock.callCount(), 0);
+    strictEqual(deferBreaches.mock.callCount(), 1);
+    strictEqual(
+      (deferBreaches.mock.calls[0].arguments[1] as ValuationCalculationResult).loanId,
+      'loan-2',
+    );
+  });
+
+  it('should release deferred breaches with the loans already loaded when the market resumes', async () => {
+    circuitBreakerCheck = {
+      status: 'Resumed',
+      priceChangeRate: 0.01,
+      circuitBreaker: { ...circuitBreaker, status: 'Resumed' },
+    };
+
+    await processor.process(job);
+
+    strictEqual(getActiveLoansForValuation.mock.callCount(), 1);
+    strictEqual(emitLtvRecoveredEvent.mock.callCount(), 1);
+    strictEqual(releaseDeferredBreaches.mock.callCount(), 1);
+    deepStrictEqual(releaseDeferredBreaches.mock.calls[0].arguments[2], [
+      buildLoan('loan-1'),
+      buildLoan('loan-2'),
+    ]);
+  });
+});
@@ -1,4 +1,4 @@
-import type { ExchangeRateUpdatedEvent } from './valuation.types';
+import type { ActiveLoanForValuation, ExchangeRateUpdatedEvent } from './valuation.types';
 
 import { Processor, WorkerHost } from '@nestjs/bullmq';
 import { Logger } from '@nestjs/common';
@@ -14,6 +14,7 @@ import {
 } from 'typeshaper';
 
 import { ValuationService } from './valuation.service';
+import { ValuationCircuitBreakerService } from './valuation-circuit-breaker.service';
 import { ValuationEventService } from './valuation-event.service';
 
 @Processor('valuationQueue')
@@ -23,6 +24,7 @@ export class ValuationProcessor extends WorkerHost {
   constructor(
     private readonly valuationService: ValuationService,
     private readonly valuationEventService: ValuationEventService,
+    private readonly valuationCircuitBreakerService: ValuationCircuitBreakerService,
   ) {
     super();
   }
@@ -76,16 +78,45 @@ export class ValuationProcessor extends WorkerHost {
         `Processing exchange rate update: ${exchangeRateEvent.baseCurrencyTokenId}/${exchangeRateEvent.quoteCurrencyTokenId}`,
       );
 
-      // Get all active loans and process valuations
-      const valuationResults =
-        await this.valuationService.processValuationUpdates(exchangeRateEvent);
+      const circuitBreakerCheck =
+        await this.valuationCircuitBreakerService.checkExchangeRate(exchangeRateEvent);
+
+      // Get all active loans once, they are valued and then used for event emission
+      const loadedLoans = await this.valuationService.getActiveLoansForValuation();
+      const activeLoans = new Map<string, ActiveLoanForValuation>(
+        loadedLoans.map(loan => [loan.loanId, loan]),
+      );
+
+      const valuationResults = await this.valuationService.processValuationUpdates(
+        exchangeRateEvent,
+        { activeLoans: loadedLoans, marketHalted: circuitBreakerCheck.status === 'Halted' },
+      );
 
       // For each valuation result, check for threshold breaches and emit events
       for (const valuation of valuationResults) {
+        const loan = activeLoans.get(valuation.loanId);
+
+        if (valuation.warningTransition?.eventType === 'LtvRecovered') {
+          // Not stored while halted, the loan recovers again on the first valuation after the pair resumes
+          if (circuitBreakerCheck.status === 'Halted') {
+            this.logger.log(
+              `Withheld LTV recovery of loan ${valuation.loanId} while market is halted`,
+            );
+          } else if (loan) {
+            await this.valuationEventService.emitLtvRecoveredEvent(valuation, loan);
+          }
+          continue;
+        }
+
         if (valuation.breachedThresholds.length > 0) {
-          // Get full loan details for event emission
-          const activeLoans = await this.valuationService.getActiveLoansForValuation();
-          const loan = activeLoans.find(l => l.loanId === valuation.loanId);
+          // Valuations are still recorded while the pair is halted, only their events wait
+          if (circuitBreakerCheck.status === 'Halted') {
+            await this.valuationCircuitBreakerService.deferBreaches(
+              circuitBreakerCheck.circuitBreaker,
+              valuation,
+            );
+            continue;
+          }
 
           if (loan) {
             await this.valuationEventService.emitLtvThresholdEvents(valuation, loan);
@@ -93,6 +124,14 @@ export class ValuationProcessor extends WorkerHost {
         }
       }
 
+      if (circuitBreakerCheck.status === 'Resumed') {
+        await this.valuationCircuitBreakerService.releaseDeferredBreaches(
+          circuitBreakerCheck.circuitBreaker,
+          new Date(),
+          loadedLoans,
+        );
+      }
+
       this.logger.log(
         `Successfully processed ${valuationResults.length} loan valuations for exchange rate ${exchangeRateEvent.exchangeRateId}`,
       );
@@ -0,0 +1,431 @@
+import type { ConfigService } from '@nestjs/config';
+import type { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import type { LoanLtvWarningState } from '../../shared/repositories/loan.types';
+import type { WindowExchangeRate } from '../../shared/repositories/pricefeed.types';
+import type {
+  ActiveLoanForValuation,
+  ExchangeRateUpdatedEvent,
+  LtvWarningTransition,
+} from './valuation.types';
+
+import { deepStrictEqual, ok, strictEqual } from 'node:assert/strict';
+import { after, before, beforeEach, describe, it, mock } from 'node:test';
+
+import { InMemoryCryptogadaiRepository } from '../../shared/repositories/in-memory-cryptogadai.repository';
+import {
+  calculateTimeWeightedMidPrice,
+  DEFAULT_LTV_THRESHOLDS,
+  resolveLtvThresholds,
+  transitionLtvWarningState,
+  ValuationService,
+} from './valuation.service';
+
+const windowStartDate = new Date('2024-01-10T10:00:00.000Z');
+const windowEndDate = new Date('2024-01-10T10:30:00.000Z');
+
+const exchangeRate: ExchangeRateUpdatedEvent = {
+  exchangeRateId: 'rate-3',
+  priceFeedId: 'feed-1',
+  blockchainKey: 'crosschain',
+  baseCurrencyTokenId: 'slip44:60',
+  quoteCurrencyTokenId: 'iso4217:usd',
+  bidPrice: '2390',
+  askPrice: '2410',
+  retrievalDate: windowEndDate,
+  sourceDate: windowEndDate,
+};
+
+function buildRate(id: string, midPrice: string, sourceDate: string): WindowExchangeRate {
+  return { id, bidPrice: midPrice, askPrice: midPrice, sourceDate: new Date(sourceDate) };
+}
+
+// 3000 from the window start until 10:10, 3300 until the current rate arrives at the window end
+const windowRates = [
+  buildRate('rate-1', '3000', '2024-01-10T09:50:00.000Z'),
+  buildRate('rate-2', '3300', '2024-01-10T10:10:00.000Z'),
+  buildRate('rate-3', '2400', '2024-01-10T10:30:00.000Z'),
+];
+
+function buildLoan(
+  loanId: string,
+  valuationPriceMode: ActiveLoanForValuation['valuationPriceMode'],
+): ActiveLoanForValuation {
+  return {
+    loanId,
+    borrowerUserId: 'borrower-1',
+    collateralBlockchainKey: 'crosschain',
+    collateralTokenId: 'slip44:60',
+    collateralAmount: '1000000000000000000',
+    collateralDecimals: 18,
+    principalBlockchainKey: 'eip155:56',
+    principalTokenId: 'iso4217:usd',
+    principalAmount: '2000000000',
+    interestAmount: '0',
+    provisionAmount: '0',
+    principalDecimals: 6,
+    currentLtvRatio: 0.6,
+    mcLtvRatio: 0.75,
+    maturityDate: new Date('2024-06-10T10:00:00.000Z'),
+    ltvThresholds: DEFAULT_LTV_THRESHOLDS,
+    valuationPriceMode,
+    valuationTwapWindowSeconds: 1800,
+  };
+}
+
+describe('calculateTimeWeightedMidPrice', () => {
+  it('should weight each mid price by how long it was the latest rate in the window', () => {
+    strictEqual(
+      calculateTimeWeightedMidPrice(windowRates, windowStartDate, windowEndDate),
+      '3200.000000000000',
+    );
+  });
+
+  it('should take the latest rate when every rate arrived at the window end', () => {
+    strictEqual(
+      calculateTimeWeightedMidPrice(windowRates.slice(2), windowStartDate, windowEndDate),
+      '2400.000000000000',
+    );
+  });
+
+  it('should return undefined without rates', () => {
+    strictEqual(calculateTimeWeightedMidPrice([], windowStartDate, windowEndDate), undefined);
+  });
+});
+
+describe('resolveLtvThresholds', () => {
+  it('should place warning2 and riskPremium halfway between the configured thresholds', () => {
+    deepStrictEqual(resolveLtvThresholds(0.5, 0.7, 0.9), {
+      warning1: 0.5,
+      warning2: 0.6,
+      warning3: 0.7,
+      riskPremium: 0.8,
+      liquidation: 0.9,
+    });
+  });
+
+  it('should fall back to the default thresholds when the currency has none', () => {
+    strictEqual(resolveLtvThresholds(0, 0, 0), DEFAULT_LTV_THRESHOLDS);
+    strictEqual(resolveLtvThresholds(undefined, 0.9, 1), DEFAULT_LTV_THRESHOLDS);
+  });
+});
+
+describe('transitionLtvWarningState', () => {
+  const thresholds = {
+    warning1: 0.8,
+    warning2: 0.85,
+    warning3: 0.9,
+    riskPremium: 0.95,
+    liquidation: 1,
+  };
+  const options = { hysteresis: 0.02, dedupWindow: 6 * 60 * 60 * 1000 };
+  const start = new Date('2024-01-10T00:00:00.000Z').getTime();
+
+  // Feeds LTV ratios one per minute, carrying the state over like the stored state would be
+  function replay(ltvRatios: number[], state?: LoanLtvWarningState): LtvWarningTransition[] {
+    return ltvRatios.map((ltvRatio, minute) => {
+      const transition = transitionLtvWarningState(
+        state,
+        ltvRatio,
+        thresholds,
+        options,
+        new Date(start + minute * 60000),
+      );
+      state = transition.state;
+      return transition;
+    });
+  }
+
+  it('should hold the level while the LTV hovers within the hysteresis band', () => {
+    const transitions = replay([0.79, 0.801, 0.795, 0.805, 0.79, 0.802]);
+
+    deepStrictEqual(
+      transitions.map(transition => transition.state.warningLevel),
+      [undefined, 'warning1', 'warning1', 'warning1', 'warning1', 'warning1'],
+    );
+    deepStrictEqual(
+      transitions.map(transition => transition.eventType),
+      [undefined, 'LtvBreached', undefined, undefined, undefined, undefined],
+    );
+  });
+
+  it('should recover once below the band and not repeat the breach or recovery within the window', () => {
+    const transitions = replay([0.81, 0.77, 0.81, 0.77]);
+
+    deepStrictEqual(
+      transitions.map(transition => transition.state.warningLevel),
+      ['warning1', undefined, 'warning1', undefined],
+    );
+    deepStrictEqual(
+      transitions.map(transition => transition.eventType),
+      ['LtvBreached', 'LtvRecovered', undefined, undefined],
+    );
+    strictEqual(transitions[2].breachedLevel, 'warning1');
+  });
+
+  it('should send the breach again after the de-duplication window', () => {
+    const [breach, recovered] = replay([0.81, 0.77]);
+
+    const again = transitionLtvWarningState(
+      recovered.state,
+      0.81,
+      thresholds,
+      options,
+      new Date(start + options.dedupWindow + 60000),
+    );
+
+    strictEqual(breach.eventType, 'LtvBreached');
+    strictEqual(again.eventType, 'LtvBreached');
+    deepStrictEqual(again.state.lastBreachDate, new Date(start + options.dedupWindow + 60000));
+  });
+
+  it('should step down only to the level the LTV is still within the band of', () => {
+    const transitions = replay([0.91, 0.89, 0.86, 0.84, 0.91]);
+
+    deepStrictEqual(
+      transitions.map(transition => transition.state.warningLevel),
+      ['warning3', 'warning3', 'warning2', 'warning2', 'warning3'],
+    );
+    // warning3 was sent minutes ago, so re-entering it is de-duplicated
+    strictEqual(transitions[4].eventType, undefined);
+  });
+
+  it('should never de-duplicate riskPremium and liquidation', () => {
+    const transitions = replay([1, 0.9, 1]);
+
+    deepStrictEqual(
+      transitions.map(transition => transition.eventType),
+      ['LtvBreached', undefined, 'LtvBreached'],
+    );
+    strictEqual(transitions[2].breachedLevel, 'liquidation');
+  });
+});
+
+describe('ValuationService', () => {
+  let platformRetrievesExchangeRateWindow: ReturnType<typeof mock.fn>;
+  let platformUpdatesLoanValuations: ReturnType<typeof mock.fn>;
+  let platformUpdatesLoanLtvWarningState: ReturnType<typeof mock.fn>;
+  let activeLoans: ActiveLoanForValuation[];
+  let service: ValuationService;
+
+  beforeEach(() => {
+    platformRetrievesExchangeRateWindow = mock.fn(async (_params: unknown) => ({
+      exchangeRates: windowRates,
+    }));
+    platformUpdatesLoanValuations = mock.fn(async (params: unknown) => params);
+    platformUpdatesLoanLtvWarningState = mock.fn(async (_params: unknown) => ({}));
+
+    service = new ValuationService(
+      {
+        platformRetrievesExchangeRateWindow,
+        platformUpdatesLoanValuations,
+        platformUpdatesLoanLtvWarningState,
+      } as unknown as CryptogadaiRepository,
+      { get: (_key: string, defaultValue?: unknown) => defaultValue } as unknown as ConfigService,
+    );
+    mock.method(service, 'getActiveLoansForValuation', async () => activeLoans);
+  });
+
+  it('should value collateral at the price mode of its currency and record the price basis', async () => {
+    activeLoans = [buildLoan('loan-1', 'Mid'), buildLoan('loan-2', 'Bid')];
+
+    const [mid, bid] = await service.processValuationUpdates(exchangeRate);
+
+    strictEqual(mid.collateralValuationAmount, '2400000000');
+    deepStrictEqual(mid.priceBasis, {
+      priceMode: 'Mid',
+      valuationPrice: '2400.000000000000',
+      priceSampleCount: 1,
+    });
+    strictEqual(bid.collateralValuationAmount, '2390000000');
+    strictEqual(bid.priceBasis?.priceMode, 'Bid');
+    strictEqual(platformRetrievesExchangeRateWindow.mock.callCount(), 0);
+
+    const stored = platformUpdatesLoanValuations.mock.calls[1].arguments[0] as {
+      priceBasis: unknown;
+    };
+    deepStrictEqual(stored.priceBasis, {
+      priceMode: 'Bid',
+      valuationPrice: '2390.000000000000',
+      priceSampleCount: 1,
+    });
+  });
+
+  it('should value collateral at the time-weighted price of the window once per batch', async () => {
+    activeLoans = [buildLoan('loan-1', 'Twap'), buildLoan('loan-2', 'Twap')];
+
+    const valuations = await service.processValuationUpdates(exchangeRate);
+
+    strictEqual(platformRetrievesExchangeRateWindow.mock.callCount(), 1);
+    deepStrictEqual(platformRetrievesExchangeRateWindow.mock.calls[0].arguments[0], {
+      priceFeedId: 'feed-1',
+      sourceDateFrom: windowStartDate,
+      sourceDateTo: windowEndDate,
+    });
+    strictEqual(valuations.length, 2);
+    strictEqual(valuations[0].collateralValuationAmount, '3200000000');
+    strictEqual(valuations[0].newLtvRatio, 0.625);
+    deepStrictEqual(valuations[0].priceBasis, {
+      priceMode: 'Twap',
+      valuationPrice: '3200.000000000000',
+      priceWindowStartDate: windowStartDate,
+      priceSampleCount: 3,
+    });
+  });
+
+  it('should fall back to the mid price when the window has no rates', async () => {
+    platformRetrievesExchangeRateWindow.mock.mockImplementation(async () => ({
+      exchangeRates: [],
+    }));
+
+    const valuation = await service.calculateLoanValuation(
+      buildLoan('loan-1', 'Twap'),
+      exchangeRate,
+    );
+
+    strictEqual(valuation.priceBasis?.priceMode, 'Mid');
+    strictEqual(valuation.collateralValuationAmount, '2400000000');
+  });
+
+  it('should breach the thresholds of the collateral currency and store the warning state', async () => {
+    activeLoans = [
+      {
+        ...buildLoan('loan-1', 'Mid'),
+        // 2000 debt on 2400 collateral is an LTV of ~0.8333
+        ltvThresholds: resolveLtvThresholds(0.8, 0.9, 1),
+      },
+      buildLoan('loan-2', 'Mid'),
+    ];
+
+    const [breached, healthy] = await service.processValuationUpdates(exchangeRate);
+
+    deepStrictEqual(breached.breachedThresholds, ['warning1']);
+    deepStrictEqual(healthy.breachedThresholds, []);
+
+    const stored = platformUpdatesLoanLtvWarningState.mock.calls[0].arguments[0] as Record<
+      string,
+      unknown
+    >;
+    deepStrictEqual(stored, {
+      loanId: 'loan-1',
+      previousWarningLevel: undefined,
+      state: {
+        warningLevel: 'warning1',
+        levelChangedDate: windowEndDate,
+        lastBreachLevel: 'warning1',
+        lastBreachDate: windowEndDate,
+      },
+      ltvRatio: breached.newLtvRatio,
+      exchangeRateId: 'rate-3',
+      eventType: 'LtvBreached',
+      updatedDate: windowEndDate,
+    });
+    strictEqual(platformUpdatesLoanLtvWarningState.mock.callCount(), 2);
+  });
+
+  it('should not store a recovery while the market is halted so it recovers again after resuming', async () => {
+    // 2000 debt on 2400 collateral is an LTV of ~0.8333, below warning1 by more than the band
+    const recovering: ActiveLoanForValuation = {
+      ...buildLoan('loan-1', 'Mid'),
+      ltvWarningState: {
+        warningLevel: 'warning1',
+        levelChangedDate: windowStartDate,
+        lastBreachLevel: 'warning1',
+        lastBreachDate: windowStartDate,
+      },
+    };
+
+    const [halted] = await service.processValuationUpdates(exchangeRate, {
+      activeLoans: [recovering],
+      marketHalted: true,
+    });
+
+    strictEqual(halted.warningTransition?.eventType, 'LtvRecovered');
+    strictEqual(platformUpdatesLoanValuations.mock.callCount(), 1);
+    strictEqual(platformUpdatesLoanLtvWarningState.mock.callCount(), 0);
+
+    const [resumed] = await service.processValuationUpdates(exchangeRate, {
+      activeLoans: [recovering],
+    });
+
+    strictEqual(resumed.warningTransition?.eventType, 'LtvRecovered');
+    strictEqual(platformUpdatesLoanLtvWarningState.mock.callCount(), 1);
+  });
+});
+
+describe('ValuationService with the seeded collateral currencies', () => {
+  let repository: InMemoryCryptogadaiRepository;
+
+  before(async () => {
+    repository = new InMemoryCryptogadaiRepository();
+    await repository.connect();
+    await repository.migrate();
+  });
+
+  after(async () => {
+    await repository.close();
+  });
+
+  it('should not breach any threshold for a loan originated at 0.60 LTV', async () => {
+    const currencies = (await repository.sql`
+      SELECT blockchain_key, token_id, decimals, valuation_price_mode, valuation_twap_window_seconds,
+        ltv_warning_threshold, ltv_critical_threshold, ltv_liquidation_threshold
+      FROM currencies
+      WHERE max_ltv > 0
+    `) as Array<Record<string, unknown>>;
+    ok(currencies.length > 0);
+
+    // One whole coin of collateral at the mid price of 2400 against 1440 of debt
+    const loanRows = currencies.map((currency, index) => ({
+      ...currency,
+      loan_id: String(index + 1),
+      borrower_user_id: 'borrower-1',
+      collateral_currency_blockchain_key: currency.blockchain_key,
+      collateral_currency_token_id: currency.token_id,
+      collateral_amount: (10n ** BigInt(Number(currency.decimals))).toString(),
+      collateral_decimals: currency.decimals,
+      principal_currency_blockchain_key: 'eip155:56',
+      principal_currency_token_id: 'iso4217:usd',
+      principal_amount: '1440000000',
+      interest_amount: '0',
+      provision_amount: '0',
+      principal_decimals: 6,
+      current_ltv_ratio: '0.6',
+      mc_ltv_ratio: '0.75',
+      maturity_date: new Date('2024-06-10T10:00:00.000Z'),
+      warning_level: null,
+      level_changed_date: null,
+      last_breach_level: null,
+      last_breach_date: null,
+      last_recovered_date: null,
+    }));
+    const service = new ValuationService(
+      {
+        sql: async () => loanRows,
+        platformRetrievesExchangeRateWindow: async () => ({ exchangeRates: windowRates }),
+      } as unknown as CryptogadaiRepository,
+      { get: (_key: string, defaultValue?: unknown) => defaultValue } as unknown as ConfigService,
+    );
+
+    const loans = await service.getActiveLoansForValuation();
+    strictEqual(loans.length, currencies.length);
+
+    for (const [index, loan] of loans.entries()) {
+      // Each loan is warned at the thresholds of its own collateral currency
+      strictEqual(loan.ltvThresholds.warning1, Number(currencies[index].ltv_warning_threshold));
+      strictEqual(
+        loan.ltvThresholds.liquidation,
+        Number(currencies[index].ltv_liquidation_threshold),
+      );
+
+      const valuation = await service.calculateLoanValuation(loan, {
+        ...exchangeRate,
+        blockchainKey: loan.collateralBlockchainKey,
+        baseCurrencyTokenId: loan.collateralTokenId,
+      });
+
+      strictEqual(valuation.newLtvRatio, 0.6, loan.collateralTokenId);
+      deepStrictEqual(valuation.breachedThresholds, [], loan.collateralTokenId);
+      strictEqual(valuation.warningTransition?.state.warningLevel, undefined);
+    }
+  });
+});
@@ -1,42 +1,316 @@
+import type {
+  LoanLtvWarningState,
+  LoanValuationPriceBasis,
+  LtvThresholdLevel,
+  ValuationPriceMode,
+} from '../../shared/repositories/loan.types';
+import type { WindowExchangeRate } from '../../shared/repositories/pricefeed.types';
 import type {
   ActiveLoanForValuation,
   ExchangeRateUpdatedEvent,
+  LtvThresholds,
   LtvWarningLevel,
+  LtvWarningOptions,
+  LtvWarningTransition,
   ValuationCalculationResult,
 } from './valuation.types';
 
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 
 import {
-  assertArrayMapOf,
   assertDefined,
   assertProp,
   assertPropString,
   check,
   isInstanceOf,
+  isNullable,
   isNumber,
   isString,
 } from 'typeshaper';
 
 import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
-import { fromLowestDenomination } from '../../shared/utils/decimal';
+import { EXCHANGE_RATE_DECIMALS } from '../../shared/repositories/pricefeed.repository';
+import {
+  divideRounded,
+  fromFixedPoint,
+  mulDiv,
+  pow10,
+  ratioToNumber,
+  toFixedPoint,
+} from '../../shared/utils/decimal';
+import { defaultValuationConfig } from './valuation.config';
+
+// LTV warning thresholds based on SRS-CG-v2.4-EN.md BR-011, used for collateral currencies without their own
+// LTV = Debt / Collateral Value
+export const DEFAULT_LTV_THRESHOLDS: LtvThresholds = {
+  warning1: 1 / 1.15, // ~0.87 LTV - Collateral = Debt + 15%
+  warning2: 1 / 1.1, // ~0.91 LTV - Collateral = Debt + 10%
+  warning3: 1 / 1.05, // ~0.95 LTV - Collateral = Debt + 5%
+  riskPremium: 1 / 1.02, // ~0.98 LTV - Collateral = Debt + 2% (pending order)
+  liquidation: 1.0, // 100% LTV - Collateral = Debt (liquidation threshold)
+};
+
+const WARNING_LEVEL_SEVERITY: Record<LtvWarningLevel, number> = {
+  warning1: 1,
+  warning2: 2,
+  warning3: 3,
+  riskPremium: 4,
+  liquidation: 5,
+};
+
+function severityOf(level: LtvWarningLevel | undefined): number {
+  return level ? WARNING_LEVEL_SEVERITY[level] : 0;
+}
+
+/**
+ * Warning levels of a collateral currency from its warning, critical and liquidation thresholds. warning1,
+ * warning3 and liquidation are the configured thresholds, warning2 and riskPremium lie halfway between their
+ * neighbours. Falls back to the defaults when any of the three is not set.
+ */
+export function resolveLtvThresholds(
+  warningThreshold: number | undefined,
+  criticalThreshold: number | undefined,
+  liquidationThreshold: number | undefined,
+): LtvThresholds {
+  if (!warningThreshold || !criticalThreshold || !liquidationThreshold) {
+    return DEFAULT_LTV_THRESHOLDS;
+  }
+
+  return {
+    warning1: warningThreshold,
+    warning2: (warningThreshold + criticalThreshold) / 2,
+    warning3: criticalThreshold,
+    riskPremium: (criticalThreshold + liquidationThreshold) / 2,
+    liquidation: liquidationThreshold,
+  };
+}
+
+/**
+ * Most severe warning level the LTV ratio is at or above, undefined below warning1
+ */
+export function findBreachedLevel(
+  ltvRatio: number,
+  thresholds: LtvThresholds,
+): LtvWarningLevel | undefined {
+  const levels: LtvWarningLevel[] = [
+    'liquidation',
+    'riskPremium',
+    'warning3',
+    'warning2',
+    'warning1',
+  ];
+  return levels.find(level => ltvRatio >= thresholds[level]);
+}
+
+/**
+ * Moves a loan through its warning levels for a new LTV ratio.
+ *
+ * A more severe level is entered as soon as the LTV reaches its threshold. The current level is only left
+ * once the LTV is below its threshold by more than the hysteresis band, dropping to the level the LTV is
+ * still within the band of. Entering a warning level emits LtvBreached unless a breach of that level or a
+ * more severe one was emitted within the de-duplication window, riskPremium and liquidation always emit as
+ * they place orders. Leaving every level emits LtvRecovered once for the breaches emitted before it.
+ */
+export function transitionLtvWarningState(
+  state: LoanLtvWarningState | undefined,
+  ltvRatio: number,
+  thresholds: LtvThresholds,
+  options: LtvWarningOptions,
+  now: Date,
+): LtvWarningTransition {
+  const previousWarningLevel = state?.warningLevel;
+  const reachedLevel = findBreachedLevel(ltvRatio, thresholds);
+  const heldLevel = findBreachedLevel(ltvRatio + options.hysteresis, thresholds);
+
+  if (reachedLevel && severityOf(reachedLevel) > severityOf(previousWarningLevel)) {
+    const deduplicated =
+      severityOf(reachedLevel) <= WARNING_LEVEL_SEVERITY.warning3 &&
+      state?.lastBreachDate !== undefined &&
+      severityOf(state.lastBreachLevel) >= severityOf(reachedLevel) &&
+      now.getTime() - state.lastBreachDate.getTime() < options.dedupWindow;
+
+    return {
+      previousWarningLevel,
+      state: {
+        ...state,
+        warningLevel: reachedLevel,
+        levelChangedDate: now,
+        ...(deduplicated ? {} : { lastBreachLevel: reachedLevel, lastBreachDate: now }),
+      },
+      breachedLevel: reachedLevel,
+      eventType: deduplicated ? undefined : 'LtvBreached',
+    };
+  }
+
+  const warningLevel =
+    severityOf(heldLevel) >= severityOf(previousWarningLevel) ? previousWarningLevel : heldLevel;
+
+  if (warningLevel === previousWarningLevel) {
+    return { previousWarningLevel, state: { ...state, warningLevel } };
+  }
+
+  const recovered =
+    warningLevel === undefined &&
+    state?.lastBreachDate !== undefined &&
+    (state.lastRecoveredDate === undefined || state.lastBreachDate > state.lastRecoveredDate);
+
+  return {
+    previousWarningLevel,
+    state: {
+      ...state,
+      warningLevel,
+      levelChangedDate: now,
+      ...(recovered ? { lastRecoveredDate: now } : {}),
+    },
+    eventType: recovered ? 'LtvRecovered' : undefined,
+  };
+}
+
+function mapActiveLoanForValuationRow(row: unknown): ActiveLoanForValuation {
+  assertDefined(row);
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertProp(check(isString, isNumber), row, 'borrower_user_id');
+  assertPropString(row, 'collateral_currency_blockchain_key');
+  assertPropString(row, 'collateral_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'collateral_amount');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_amount');
+  assertProp(check(isString, isNumber), row, 'interest_amount');
+  assertProp(check(isString, isNumber), row, 'provision_amount');
+  assertProp(check(isString, isNumber), row, 'current_ltv_ratio');
+  assertProp(check(isString, isNumber), row, 'mc_ltv_ratio');
+  assertProp(isInstanceOf(Date), row, 'maturity_date');
+  assertProp(check(isString, isNumber), row, 'collateral_decimals');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'valuation_price_mode');
+  assertProp(check(isString, isNumber), row, 'valuation_twap_window_seconds');
+  assertProp(check(isNullable, isString, isNumber), row, 'ltv_warning_threshold');
+  assertProp(check(isNullable, isString, isNumber), row, 'ltv_critical_threshold');
+  assertProp(check(isNullable, isString, isNumber), row, 'ltv_liquidation_threshold');
+  assertProp(check(isNullable, isString), row, 'warning_level');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'level_changed_date');
+  assertProp(check(isNullable, isString), row, 'last_breach_level');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'last_breach_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'last_recovered_date');
+
+  const ltvWarningState: LoanLtvWarningState | undefined =
+    row.level_changed_date !== null
+      ? {
+          warningLevel: (row.warning_level ?? undefined) as LtvThresholdLevel | undefined,
+          levelChangedDate: row.level_changed_date,
+          lastBreachLevel: (row.last_breach_level ?? undefined) as LtvThresholdLevel | undefined,
+          lastBreachDate: row.last_breach_date ?? undefined,
+          lastRecoveredDate: row.last_recovered_date ?? undefined,
+        }
+      : undefined;
+
+  return {
+    loanId: String(row.loan_id),
+    borrowerUserId: String(row.borrower_user_id),
+    collateralBlockchainKey: row.collateral_currency_blockchain_key,
+    collateralTokenId: row.collateral_currency_token_id,
+    collateralAmount: String(row.collateral_amount),
+    collateralDecimals: Number(row.collateral_decimals),
+    principalBlockchainKey: row.principal_currency_blockchain_key,
+    principalTokenId: row.principal_currency_token_id,
+    principalAmount: String(row.principal_amount),
+    interestAmount: String(row.interest_amount),
+    provisionAmount: String(row.provision_amount),
+    principalDecimals: Number(row.principal_decimals),
+    currentLtvRatio: Number(row.current_ltv_ratio),
+    mcLtvRatio: Number(row.mc_ltv_ratio),
+    maturityDate: row.maturity_date as Date,
+    lastWarningLevel: ltvWarningState?.warningLevel,
+    ltvWarningState,
+    ltvThresholds: resolveLtvThresholds(
+      row.ltv_warning_threshold !== null ? Number(row.ltv_warning_threshold) : undefined,
+      row.ltv_critical_threshold !== null ? Number(row.ltv_critical_threshold) : undefined,
+      row.ltv_liquidation_threshold !== null ? Number(row.ltv_liquidation_threshold) : undefined,
+    ),
+    valuationPriceMode: row.valuation_price_mode as ValuationPriceMode,
+    valuationTwapWindowSeconds: Number(row.valuation_twap_window_seconds),
+  };
+}
+
+/**
+ * Time-weighted average mid price over the window. Each rate is weighted by how long it stayed the
+ * latest rate within the window, the first rate counting from the window start. Prices are averaged
+ * as integers with the exchange rate precision. Undefined when there is no rate to average.
+ */
+export function calculateTimeWeightedMidPrice(
+  exchangeRates: WindowExchangeRate[],
+  windowStartDate: Date,
+  windowEndDate: Date,
+): string | undefined {
+  if (exchangeRates.length === 0) {
+    return undefined;
+  }
+
+  const toUnits = (price: string) => toFixedPoint(price, EXCHANGE_RATE_DECIMALS, 'halfUp');
+  const midPrices = exchangeRates.map(rate =>
+    divideRounded(toUnits(rate.bidPrice) + toUnits(rate.askPrice), 2n, 'floor'),
+  );
+
+  let weightedSum = 0n;
+  let totalWeight = 0n;
+  exchangeRates.forEach((rate, index) => {
+    const nextRate = exchangeRates[index + 1];
+    const start = Math.max(rate.sourceDate.getTime(), windowStartDate.getTime());
+    const end = Math.min(
+      nextRate ? nextRate.sourceDate.getTime() : windowEndDate.getTime(),
+      windowEndDate.getTime(),
+    );
+    const weight = BigInt(Math.max(end - start, 0));
+    weightedSum += midPrices[index] * weight;
+    totalWeight += weight;
+  });
+
+  // Every rate arrived at the window end, so the latest one is the price
+  const price =
+    totalWeight > 0n
+      ? divideRounded(weightedSum, totalWeight, 'floor')
+      : midPrices[midPrices.length - 1];
+
+  return fromFixedPoint(price, EXCHANGE_RATE_DECIMALS);
+}
 
 @Injectable()
 export class ValuationService {
   private readonly logger = new Logger(ValuationService.name);
 
-  // LTV warning thresholds based on SRS-CG-v2.4-EN.md BR-011
-  // When collateral value drops to these levels, warnings are triggered
-  // LTV = Debt / Collateral Value
-  private readonly WARNING_THRESHOLDS = {
-    warning1: 1 / 1.15, // ~0.87 LTV - Collateral = Debt + 15%
-    warning2: 1 / 1.1, // ~0.91 LTV - Collateral = Debt + 10%
-    warning3: 1 / 1.05, // ~0.95 LTV - Collateral = Debt + 5%
-    riskPremium: 1 / 1.02, // ~0.98 LTV - Collateral = Debt + 2% (pending order)
-    liquidation: 1.0, // 100% LTV - Collateral = Debt (liquidation threshold)
-  };
+  constructor(
+    private readonly repository: CryptogadaiRepository,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Most severe threshold level the LTV ratio is at or above, undefined below warning1
+   */
+  getBreachedThreshold(
+    ltvRatio: number,
+    thresholds: LtvThresholds = DEFAULT_LTV_THRESHOLDS,
+  ): LtvWarningLevel | undefined {
+    return findBreachedLevel(ltvRatio, thresholds);
+  }
 
-  constructor(private readonly repository: CryptogadaiRepository) {}
+  getLtvWarningOptions(): LtvWarningOptions {
+    return {
+      hysteresis: Number(
+        this.configService.get<number>(
+          'VALUATION_LTV_WARNING_HYSTERESIS',
+          defaultValuationConfig.ltvWarningHysteresis,
+        ),
+      ),
+      dedupWindow: Number(
+        this.configService.get<number>(
+          'VALUATION_LTV_WARNING_DEDUP_WINDOW',
+          defaultValuationConfig.ltvWarningDedupWindow,
+        ),
+      ),
+    };
+  }
 
   /**
    * Retrieves all active loans that need valuation updates
@@ -58,53 +332,84 @@ export class ValuationService {
         l.mc_ltv_ratio,
         l.maturity_date,
         cc.decimals as collateral_decimals,
-        pc.decimals as principal_decimals
+        cc.valuation_price_mode,
+        cc.valuation_twap_window_seconds,
+        cc.ltv_warning_threshold,
+        cc.ltv_critical_threshold,
+        cc.ltv_liquidation_threshold,
+        pc.decimals as principal_decimals,
+        ws.warning_level,
+        ws.level_changed_date,
+        ws.last_breach_level,
+        ws.last_breach_date,
+        ws.last_recovered_date
       FROM loans l
       JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
         AND l.collateral_currency_token_id = cc.token_id
       JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
         AND l.principal_currency_token_id = pc.token_id
+      LEFT JOIN loan_ltv_warning_states ws ON ws.loan_id = l.id
       WHERE l.status = 'Active'
       ORDER BY l.current_ltv_ratio DESC
     `;
 
-    assertArrayMapOf(rows, row => {
-      assertDefined(row);
-      assertProp(check(isString, isNumber), row, 'loan_id');
-      assertProp(check(isString, isNumber), row, 'borrower_user_id');
-      assertPropString(row, 'collateral_currency_blockchain_key');
-      assertPropString(row, 'collateral_currency_token_id');
-      assertProp(check(isString, isNumber), row, 'collateral_amount');
-      assertPropString(row, 'principal_currency_blockchain_key');
-      assertPropString(row, 'principal_currency_token_id');
-      assertProp(check(isString, isNumber), row, 'principal_amount');
-      assertProp(check(isString, isNumber), row, 'interest_amount');
-      assertProp(check(isString, isNumber), row, 'provision_amount');
-      assertProp(check(isString, isNumber), row, 'current_ltv_ratio');
-      assertProp(check(isString, isNumber), row, 'mc_ltv_ratio');
-      assertProp(isInstanceOf(Date), row, 'maturity_date');
-      assertProp(check(isString, isNumber), row, 'collateral_decimals');
-      assertProp(check(isString, isNumber), row, 'principal_decimals');
-      return row;
-    });
-
-    return rows.map(row => ({
-      loanId: String(row.loan_id),
-      borrowerUserId: String(row.borrower_user_id),
-      collateralBlockchainKey: row.collateral_currency_blockchain_key,
-      collateralTokenId: row.collateral_currency_token_id,
-      collateralAmount: String(row.collateral_amount),
-      collateralDecimals: Number(row.collateral_decimals),
-      principalBlockchainKey: row.principal_currency_blockchain_key,
-      principalTokenId: row.principal_currency_token_id,
-      principalAmount: String(row.principal_amount),
-      interestAmount: String(row.interest_amount),
-      provisionAmount: String(row.provision_amount),
-      principalDecimals: Number(row.principal_decimals),
-      currentLtvRatio: Number(row.current_ltv_ratio),
-      mcLtvRatio: Number(row.mc_ltv_ratio),
-      maturityDate: row.maturity_date as Date,
-    }));
+    return rows.map(mapActiveLoanForValuationRow);
+  }
+
+  /**
+   * Resolves the collateral price of a loan according to the valuation price mode of its collateral
+   * currency. Twap falls back to the spot mid price when the feed has no rate before the window end.
+   */
+  async resolveValuationPrice(
+    loan: ActiveLoanForValuation,
+    exchangeRate: ExchangeRateUpdatedEvent,
+  ): Promise<LoanValuationPriceBasis> {
+    const bidPrice = toFixedPoint(exchangeRate.bidPrice, EXCHANGE_RATE_DECIMALS, 'halfUp');
+    const askPrice = toFixedPoint(exchangeRate.askPrice, EXCHANGE_RATE_DECIMALS, 'halfUp');
+    const midPrice = fromFixedPoint(
+      divideRounded(bidPrice + askPrice, 2n, 'floor'),
+      EXCHANGE_RATE_DECIMALS,
+    );
+
+    if (loan.valuationPriceMode === 'Bid') {
+      return {
+        priceMode: 'Bid',
+        valuationPrice: fromFixedPoint(bidPrice, EXCHANGE_RATE_DECIMALS),
+        priceSampleCount: 1,
+      };
+    }
+
+    if (loan.valuationPriceMode === 'Twap') {
+      const windowEndDate = exchangeRate.sourceDate;
+      const windowStartDate = new Date(
+        windowEndDate.getTime() - loan.valuationTwapWindowSeconds * 1000,
+      );
+      const { exchangeRates } = await this.repository.platformRetrievesExchangeRateWindow({
+        priceFeedId: exchangeRate.priceFeedId,
+        sourceDateFrom: windowStartDate,
+        sourceDateTo: windowEndDate,
+      });
+      const timeWeightedPrice = calculateTimeWeightedMidPrice(
+        exchangeRates,
+        windowStartDate,
+        windowEndDate,
+      );
+
+      if (timeWeightedPrice !== undefined) {
+        return {
+          priceMode: 'Twap',
+          valuationPrice: timeWeightedPrice,
+          priceWindowStartDate: windowStartDate,
+          priceSampleCount: exchangeRates.length,
+        };
+      }
+
+      this.logger.warn(
+        `No exchange rates of price feed ${exchangeRate.priceFeedId} in TWAP window, valuing loan ${loan.loanId} at the mid price`,
+      );
+    }
+
+    return { priceMode: 'Mid', valuationPrice: midPrice, priceSampleCount: 1 };
   }
 
   /**
@@ -113,83 +418,57 @@ export class ValuationService {
   async calculateLoanValuation(
     loan: ActiveLoanForValuation,
     exchangeRate: ExchangeRateUpdatedEvent,
+    priceBasis?: LoanValuationPriceBasis,
   ): Promise<ValuationCalculationResult> {
-    // Use mid price for valuation (average of bid and ask)
-    const bidPrice = Number(exchangeRate.bidPrice);
-    const askPrice = Number(exchangeRate.askPrice);
-    const midPrice = (bidPrice + askPrice) / 2;
-
-    // Convert collateral to human-readable for calculation
-    const collateralAmountHuman = Number(
-      fromLowestDenomination(loan.collateralAmount, loan.collateralDecimals),
+    const resolvedPriceBasis = priceBasis ?? (await this.resolveValuationPrice(loan, exchangeRate));
+    const valuationPrice = toFixedPoint(
+      resolvedPriceBasis.valuationPrice,
+      EXCHANGE_RATE_DECIMALS,
+      'halfUp',
     );
 
-    // Calculate collateral valuation in principal currency
-    const collateralValuationHuman = collateralAmountHuman * midPrice;
-
-    // Calculate total debt (principal + interest + provision)
-    const principalHuman = Number(
-      fromLowestDenomination(loan.principalAmount, loan.principalDecimals),
-    );
-    const interestHuman = Number(
-      fromLowestDenomination(loan.interestAmount, loan.principalDecimals),
-    );
-    const provisionHuman = Number(
-      fromLowestDenomination(loan.provisionAmount, loan.principalDecimals),
+    // Collateral valuation in principal smallest units, rounded down so collateral is never overvalued
+    const collateralValuation = mulDiv(
+      BigInt(loan.collateralAmount) * valuationPrice,
+      pow10(loan.principalDecimals),
+      pow10(loan.collateralDecimals + EXCHANGE_RATE_DECIMALS),
+      'floor',
     );
-    const totalDebtHuman = principalHuman + interestHuman + provisionHuman;
-
-    // Calculate new LTV ratio
-    const newLtvRatio = totalDebtHuman / collateralValuationHuman;
-
-    // Determine breached thresholds
-    // We only trigger warnings when LTV crosses from below to above threshold
-    const breachedThresholds: LtvWarningLevel[] = [];
-    const previousLtvRatio = loan.currentLtvRatio;
-
-    // Check thresholds in order of severity (liquidation first)
-    if (
-      newLtvRatio >= this.WARNING_THRESHOLDS.liquidation &&
-      previousLtvRatio < this.WARNING_THRESHOLDS.liquidation
-    ) {
-      breachedThresholds.push('liquidation');
-    } else if (
-      newLtvRatio >= this.WARNING_THRESHOLDS.riskPremium &&
-      previousLtvRatio < this.WARNING_THRESHOLDS.riskPremium
-    ) {
-      breachedThresholds.push('riskPremium');
-    } else if (
-      newLtvRatio >= this.WARNING_THRESHOLDS.warning3 &&
-      previousLtvRatio < this.WARNING_THRESHOLDS.warning3
-    ) {
-      breachedThresholds.push('warning3');
-    } else if (
-      newLtvRatio >= this.WARNING_THRESHOLDS.warning2 &&
-      previousLtvRatio < this.WARNING_THRESHOLDS.warning2
-    ) {
-      breachedThresholds.push('warning2');
-    } else if (
-      newLtvRatio >= this.WARNING_THRESHOLDS.warning1 &&
-      previousLtvRatio < this.WARNING_THRESHOLDS.warning1
-    ) {
-      breachedThresholds.push('warning1');
+    if (collateralValuation <= 0n) {
+      throw new Error('Collateral valuation must be positive');
     }
 
-    // Convert back to smallest units for storage
-    const collateralValuationAmount = String(
-      Math.floor(collateralValuationHuman * 10 ** loan.principalDecimals),
+    // Total debt (principal + interest + provision) is exact
+    const totalDebt =
+      BigInt(loan.principalAmount) + BigInt(loan.interestAmount) + BigInt(loan.provisionAmount);
+
+    // LTV ratio is rounded up so a breach is never missed
+    const newLtvRatio = ratioToNumber(totalDebt, collateralValuation, 'ceil');
+
+    // Breaches follow the persisted warning level of the loan, not the LTV of the previous tick
+    const warningTransition = transitionLtvWarningState(
+      loan.ltvWarningState,
+      newLtvRatio,
+      loan.ltvThresholds,
+      this.getLtvWarningOptions(),
+      exchangeRate.retrievalDate,
     );
-    const totalDebtAmount = String(Math.floor(totalDebtHuman * 10 ** loan.principalDecimals));
+    const breachedThresholds: LtvWarningLevel[] =
+      warningTransition.eventType === 'LtvBreached' && warningTransition.breachedLevel
+        ? [warningTransition.breachedLevel]
+        : [];
 
     return {
       loanId: loan.loanId,
       exchangeRateId: exchangeRate.exchangeRateId,
       valuationDate: exchangeRate.retrievalDate,
-      collateralValuationAmount,
+      collateralValuationAmount: collateralValuation.toString(),
       newLtvRatio,
-      previousLtvRatio,
-      totalDebtAmount,
+      previousLtvRatio: loan.currentLtvRatio,
+      totalDebtAmount: totalDebt.toString(),
       breachedThresholds,
+      priceBasis: resolvedPriceBasis,
+      warningTransition,
     };
   }
 
@@ -204,8 +483,22 @@ export class ValuationService {
         valuationDate: valuation.valuationDate,
         ltvRatio: valuation.newLtvRatio,
         collateralValuationAmount: valuation.collateralValuationAmount,
+        debtAmount: valuation.totalDebtAmount,
+        priceBasis: valuation.priceBasis,
       });
 
+      if (valuation.warningTransition) {
+        await this.repository.platformUpdatesLoanLtvWarningState({
+          loanId: valuation.loanId,
+          previousWarningLevel: valuation.warningTransition.previousWarningLevel,
+          state: valuation.warningTransition.state,
+          ltvRatio: valuation.newLtvRatio,
+          exchangeRateId: valuation.exchangeRateId,
+          eventType: valuation.warningTransition.eventType,
+          updatedDate: valuation.valuationDate,
+        });
+      }
+
       this.logger.debug(
         `Updated valuation for loan ${valuation.loanId}: LTV ${valuation.previousLtvRatio.toFixed(4)} → ${valuation.newLtvRatio.toFixed(4)}`,
       );
@@ -216,16 +509,19 @@ export class ValuationService {
   }
 
   /**
-   * Processes valuation updates for all active loans based on exchange rate update
+   * Processes valuation updates for all active loans based on exchange rate update. Callers that already
+   * loaded the active loans pass them in. While the market of the pair is halted a recovery is not stored,
+   * so the first valuation after the pair resumes recovers the loan again and its event is sent then.
    */
   async processValuationUpdates(
     exchangeRate: ExchangeRateUpdatedEvent,
+    options: { activeLoans?: ActiveLoanForValuation[]; marketHalted?: boolean } = {},
   ): Promise<ValuationCalculationResult[]> {
     this.logger.log(
       `Processing valuation updates for exchange rate ${exchangeRate.baseCurrencyTokenId}/${exchangeRate.quoteCurrencyTokenId}`,
     );
 
-    const activeLoans = await this.getActiveLoansForValuation();
+    const activeLoans = options.activeLoans ?? (await this.getActiveLoansForValuation());
     const relevantLoans = activeLoans.filter(
       loan =>
         loan.collateralBlockchainKey === exchangeRate.blockchainKey &&
@@ -236,11 +532,24 @@ export class ValuationService {
     this.logger.log(`Found ${relevantLoans.length} loans to update with new exchange rate`);
 
     const results: ValuationCalculationResult[] = [];
+    // Loans of the pair share a collateral currency, so the price is resolved once per mode
+    const priceBases = new Map<string, LoanValuationPriceBasis>();
 
     for (const loan of relevantLoans) {
       try {
-        const valuation = await this.calculateLoanValuation(loan, exchangeRate);
-        await this.updateLoanValuation(valuation);
+        const priceBasisKey = `${loan.valuationPriceMode}:${loan.valuationTwapWindowSeconds}`;
+        let priceBasis = priceBases.get(priceBasisKey);
+        if (!priceBasis) {
+          priceBasis = await this.resolveValuationPrice(loan, exchangeRate);
+          priceBases.set(priceBasisKey, priceBasis);
+        }
+
+        const valuation = await this.calculateLoanValuation(loan, exchangeRate, priceBasis);
+        const recoveryWithheld =
+          options.marketHalted && valuation.warningTransition?.eventType === 'LtvRecovered';
+        await this.updateLoanValuation(
+          recoveryWithheld ? { ...valuation, warningTransition: undefined } : valuation,
+        );
         results.push(valuation);
       } catch (error) {
         this.logger.error(`Failed to process valuation for loan ${loan.loanId}:`, error);
@@ -278,53 +587,28 @@ export class ValuationService {
         l.mc_ltv_ratio,
         l.maturity_date,
         cc.decimals as collateral_decimals,
-        pc.decimals as principal_decimals
+        cc.valuation_price_mode,
+        cc.valuation_twap_window_seconds,
+        cc.ltv_warning_threshold,
+        cc.ltv_critical_threshold,
+        cc.ltv_liquidation_threshold,
+        pc.decimals as principal_decimals,
+        ws.warning_level,
+        ws.level_changed_date,
+        ws.last_breach_level,
+        ws.last_breach_date,
+        ws.last_recovered_date
       FROM loans l
       JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
         AND l.collateral_currency_token_id = cc.token_id
       JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
         AND l.principal_currency_token_id = pc.token_id
+      LEFT JOIN loan_ltv_warning_states ws ON ws.loan_id = l.id
       WHERE l.status = 'Active'
         AND l.maturity_date >= ${startOfDay.toISOString()}
         AND l.maturity_date <= ${targetDate.toISOString()}
     `;
 
-    assertArrayMapOf(rows, row => {
-      assertDefined(row);
-      assertProp(check(isString, isNumber), row, 'loan_id');
-      assertProp(check(isString, isNumber), row, 'borrower_user_id');
-      assertPropString(row, 'collateral_currency_blockchain_key');
-      assertPropString(row, 'collateral_currency_token_id');
-      assertProp(check(isString, isNumber), row, 'collateral_amount');
-      assertPropString(row, 'principal_currency_blockchain_key');
-      assertPropString(row, 'principal_currency_token_id');
-      assertProp(check(isString, isNumber), row, 'principal_amount');
-      assertProp(check(isString, isNumber), row, 'interest_amount');
-      assertProp(check(isString, isNumber), row, 'provision_amount');
-      assertProp(check(isString, isNumber), row, 'current_ltv_ratio');
-      assertProp(check(isString, isNumber), row, 'mc_ltv_ratio');
-      assertProp(isInstanceOf(Date), row, 'maturity_date');
-      assertProp(check(isString, isNumber), row, 'collateral_decimals');
-      assertProp(check(isString, isNumber), row, 'principal_decimals');
-      return row;
-    });
-
-    return rows.map(row => ({
-      loanId: String(row.loan_id),
-      borrowerUserId: String(row.borrower_user_id),
-      collateralBlockchainKey: row.collateral_currency_blockchain_key,
-      collateralTokenId: row.collateral_currency_token_id,
-      collateralAmount: String(row.collateral_amount),
-      collateralDecimals: Number(row.collateral_decimals),
-      principalBlockchainKey: row.principal_currency_blockchain_key,
-      principalTokenId: row.principal_currency_token_id,
-      principalAmount: String(row.principal_amount),
-      interestAmount: String(row.interest_amount),
-      provisionAmount: String(row.provision_amount),
-      principalDecimals: Number(row.principal_decimals),
-      currentLtvRatio: Number(row.current_ltv_ratio),
-      mcLtvRatio: Number(row.mc_ltv_ratio),
-      maturityDate: row.maturity_date as Date,
-    }));
+    return rows.map(mapActiveLoanForValuationRow);
   }
 }
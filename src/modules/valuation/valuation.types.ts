@@ -1,3 +1,11 @@
+import type {
+  LoanLtvWarningState,
+  LoanValuationPriceBasis,
+  LtvWarningEventType,
+  MarketCircuitBreaker,
+  ValuationPriceMode,
+} from '../../shared/repositories/loan.types';
+
 // Valuation event types and schemas
 
 export type ExchangeRateUpdatedEvent = {
@@ -14,6 +22,11 @@ export type ExchangeRateUpdatedEvent = {
 
 export type LtvWarningLevel = 'warning1' | 'warning2' | 'warning3' | 'riskPremium' | 'liquidation';
 
+/**
+ * LTV ratio at which each warning level is entered
+ */
+export type LtvThresholds = Record<LtvWarningLevel, number>;
+
 export type LtvThresholdBreachedEvent = {
   loanId: string;
   borrowerUserId: string;
@@ -65,6 +78,25 @@ export type ActiveLoanForValuation = {
   mcLtvRatio: number;
   maturityDate: Date;
   lastWarningLevel?: LtvWarningLevel;
+  ltvWarningState?: LoanLtvWarningState; // undefined before the first valuation
+  ltvThresholds: LtvThresholds;
+  valuationPriceMode: ValuationPriceMode;
+  valuationTwapWindowSeconds: number;
+};
+
+export type LtvWarningOptions = {
+  hysteresis: number;
+  dedupWindow: number; // ms
+};
+
+/**
+ * Outcome of moving a loan through its warning levels for a new LTV ratio
+ */
+export type LtvWarningTransition = {
+  previousWarningLevel?: LtvWarningLevel;
+  state: LoanLtvWarningState;
+  breachedLevel?: LtvWarningLevel; // level entered, set even when the breach event is de-duplicated
+  eventType?: LtvWarningEventType;
 };
 
 export type ValuationCalculationResult = {
@@ -76,4 +108,19 @@ export type ValuationCalculationResult = {
   previousLtvRatio: number;
   totalDebtAmount: string;
   breachedThresholds: LtvWarningLevel[];
+  priceBasis?: LoanValuationPriceBasis;
+  warningTransition?: LtvWarningTransition;
+};
+
+/**
+ * Outcome of checking an exchange rate against the market circuit breaker of its pair
+ */
+export type MarketCircuitBreakerCheck =
+  | { status: 'Normal'; priceChangeRate: number }
+  | { status: 'Halted'; priceChangeRate: number; circuitBreaker: MarketCircuitBreaker }
+  | { status: 'Resumed'; priceChangeRate: number; circuitBreaker: MarketCircuitBreaker };
+
+export type DeferredLtvBreachRelease = {
+  releasedCount: number;
+  emittedCount: number;
 };
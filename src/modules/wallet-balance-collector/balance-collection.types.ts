@@ -3,6 +3,7 @@ import {
   BSC_MAINNET_KEY,
   ETHEREUM_MAINNET_KEY,
   SOLANA_MAINNET_KEY,
+  TRON_MAINNET_KEY,
 } from '../../shared/constants/blockchain';
 
 export const BlockchainNetworkEnum = {
@@ -10,6 +11,7 @@ export const BlockchainNetworkEnum = {
   BSCMainnet: BSC_MAINNET_KEY,
   SolanaMainnet: SOLANA_MAINNET_KEY,
   BitcoinMainnet: BITCOIN_MAINNET_KEY,
+  TronMainnet: TRON_MAINNET_KEY,
 } as const;
 
 // Allow any string for BlockchainNetwork to support dynamic blockchain keys
@@ -21,10 +23,13 @@ export function assertIsBlockchainNetwork(value: unknown): asserts value is Bloc
   }
 }
 
-export function getBlockchainType(network: BlockchainNetwork): 'evm' | 'solana' | 'bitcoin' {
+export function getBlockchainType(
+  network: BlockchainNetwork,
+): 'evm' | 'solana' | 'bitcoin' | 'tron' {
   if (network.startsWith('eip155:')) return 'evm';
   if (network.startsWith('solana:')) return 'solana';
   if (network.startsWith('bip122:')) return 'bitcoin';
+  if (network.startsWith('tron:')) return 'tron';
   throw new Error(`Unknown blockchain type for network: ${network}`);
 }
 
@@ -32,6 +37,8 @@ export interface BalanceCollectionRequest {
   blockchainKey: BlockchainNetwork;
   walletAddress: string;
   walletDerivationPath: string;
+  /** Currency to collect, the native coin when omitted */
+  tokenId?: string;
   transactionHash?: string;
   paidAmount?: string;
 }
@@ -41,9 +48,18 @@ export interface BalanceCollectionResult {
   balance: string;
   transferredAmount?: string;
   transactionHash?: string;
+  /** Hot wallet transfer that paid the gas of a token collection */
+  gasFundingTransactionHash?: string;
+  gasFundingAmount?: string;
+  /** Network fee of the collection transaction, in the native coin smallest unit */
+  feeAmount?: string;
   error?: string;
   skipped?: boolean;
   skipReason?: string;
 }
 
 export interface WalletBalanceCollectionJobData extends BalanceCollectionRequest {}
+
+export interface InvoiceSweepJobData {
+  sweepId: string;
+}
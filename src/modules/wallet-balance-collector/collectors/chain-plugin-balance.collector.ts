@@ -0,0 +1,75 @@
+import type { BlockchainNetwork } from '../balance-collection.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { AppConfigService } from '../../../shared/services/app-config.service';
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { ChainRegistry } from '../../../shared/wallets/chain-registry.service';
+import { WalletFactory } from '../../../shared/wallets/wallet.factory';
+import { BalanceCollector } from '../balance-collector.abstract';
+import { EVMBalanceCollector } from './evm-balance.collector';
+
+/**
+ * EVM balance collector of a chain plug-in, created by the factory with the RPC URL of the plug-in
+ */
+export class ChainPluginBalanceCollector extends EVMBalanceCollector {
+  protected override readonly logger = new TelemetryLogger(ChainPluginBalanceCollector.name);
+
+  constructor(
+    appConfig: AppConfigService,
+    walletFactory: WalletFactory,
+    private readonly blockchainKey: string,
+    private readonly rpcUrl: string,
+  ) {
+    super(appConfig, walletFactory);
+  }
+
+  protected override getInvoiceWalletBlockchainKey(): string {
+    return this.blockchainKey;
+  }
+
+  protected override getRpcUrl(): string {
+    return this.rpcUrl;
+  }
+}
+
+/**
+ * Collectors of the chain plug-ins, built from their collector config on first use
+ */
+@Injectable()
+export class ChainPluginBalanceCollectors {
+  #collectors = new Map<string, BalanceCollector>();
+
+  constructor(
+    private readonly appConfig: AppConfigService,
+    private readonly walletFactory: WalletFactory,
+    private readonly chainRegistry: ChainRegistry,
+  ) {}
+
+  getCollector(blockchainKey: BlockchainNetwork): BalanceCollector | undefined {
+    const cached = this.#collectors.get(blockchainKey);
+    if (cached) {
+      return cached;
+    }
+
+    const config = this.chainRegistry.getChain(blockchainKey)?.balanceCollector;
+    if (!config) {
+      return undefined;
+    }
+
+    let collector: BalanceCollector;
+    switch (config.type) {
+      case 'evm':
+        collector = new ChainPluginBalanceCollector(
+          this.appConfig,
+          this.walletFactory,
+          blockchainKey,
+          config.rpcUrl,
+        );
+        break;
+    }
+
+    this.#collectors.set(blockchainKey, collector);
+    return collector;
+  }
+}
@@ -170,6 +170,86 @@ describe('Balance Collectors Tests', () => {
       assert.strictEqual(result.transactionHash, '0xTransferHash');
       assert.strictEqual(result.transferredAmount, '980000000000000000');
     });
+
+    describe('token collection', () => {
+      const tokenRequest: BalanceCollectionRequest = {
+        blockchainKey: 'eip155:56',
+        tokenId: 'bep20:0x55d398326f99059fF775485246999027B3197955',
+        walletAddress: '0xInvoiceWallet',
+        walletDerivationPath: "m/44'/60'/5'/0/123",
+      };
+
+      function mockTokenChain(tokenBalance: string, nativeBalance: string) {
+        mock.method(
+          collector as unknown as {
+            checkTokenBalance: () => Promise<{ balance: string; decimals: number }>;
+          },
+          'checkTokenBalance',
+          () => Promise.resolve({ balance: tokenBalance, decimals: 18 }),
+        );
+        mock.method(
+          collector as unknown as { estimateTokenTransferGasCost: () => Promise<bigint> },
+          'estimateTokenTransferGasCost',
+          () => Promise.resolve(1000000n),
+        );
+        mock.method(
+          collector as unknown as { checkBalance: () => Promise<string> },
+          'checkBalance',
+          () => Promise.resolve(nativeBalance),
+        );
+        mock.method(
+          collector as unknown as { getTransactionFee: () => Promise<string | undefined> },
+          'getTransactionFee',
+          () => Promise.resolve('900000'),
+        );
+      }
+
+      it('should skip collection when token balance is zero', async () => {
+        mockTokenChain('0', '0');
+
+        const result = await collector.collect(tokenRequest);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.skipped, true);
+        assert.strictEqual(mockWallet.transfer.mock.callCount(), 0);
+      });
+
+      it('should fund gas from the hot wallet before collecting the token', async () => {
+        mockTokenChain('2500000000000000000', '200000');
+
+        const result = await collector.collect(tokenRequest);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.transferredAmount, '2500000000000000000');
+        assert.strictEqual(result.gasFundingAmount, '1000000');
+        assert.strictEqual(result.feeAmount, '900000');
+        assert.strictEqual(mockWallet.transfer.mock.callCount(), 2);
+
+        const [gasFunding] = mockWallet.transfer.mock.calls[0].arguments as [
+          { tokenId: string; to: string; value: string },
+        ];
+        assert.strictEqual(gasFunding.tokenId, 'native');
+        assert.strictEqual(gasFunding.to, '0xInvoiceWallet');
+        assert.strictEqual(gasFunding.value, '0.000000000001');
+
+        const [sweep] = mockWallet.transfer.mock.calls[1].arguments as [
+          { tokenId: string; to: string; value: string },
+        ];
+        assert.strictEqual(sweep.tokenId, tokenRequest.tokenId);
+        assert.strictEqual(sweep.to, '0xMockAddress');
+        assert.strictEqual(sweep.value, '2.5');
+      });
+
+      it('should not fund gas when the invoice wallet already holds enough', async () => {
+        mockTokenChain('2500000000000000000', '1200000');
+
+        const result = await collector.collect(tokenRequest);
+
+        assert.strictEqual(result.success, true);
+        assert.strictEqual(result.gasFundingTransactionHash, undefined);
+        assert.strictEqual(mockWallet.transfer.mock.callCount(), 1);
+      });
+    });
   });
 
   describe('BSCBalanceCollector', () => {
@@ -15,9 +15,28 @@ import { BlockchainNetworkEnum, getBlockchainType } from '../balance-collection.
 import { BalanceCollector } from '../balance-collector.abstract';
 import { CollectorFlag } from '../balance-collector.factory';
 
+const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+];
+
+/**
+ * Headroom over the estimated gas cost when funding a token collection, in percent
+ */
+const GAS_FUNDING_MARGIN_PERCENT = 20n;
+
+function getTokenContractAddress(tokenId?: string): string | undefined {
+  const match = tokenId?.match(/^(erc20|bep20):(0x[0-9a-fA-F]{40})$/);
+  return match?.[2];
+}
+
 /**
  * EVM Balance Collector for Ethereum-compatible chains
  * Handles: Ethereum Mainnet, BSC, Ethereum Sepolia
+ *
+ * Token (ERC-20/BEP-20) collections move the whole token balance. The invoice wallet holds no native coin
+ * to pay for gas, so the hot wallet first sends it the estimated gas cost.
  */
 @Injectable()
 @CollectorFlag(BlockchainNetworkEnum.EthereumMainnet)
@@ -40,6 +59,11 @@ export class EVMBalanceCollector extends BalanceCollector {
 
   async collect(request: BalanceCollectionRequest): Promise<BalanceCollectionResult> {
     try {
+      const contractAddress = getTokenContractAddress(request.tokenId);
+      if (contractAddress) {
+        return await this.collectToken(request, contractAddress);
+      }
+
       this.logger.log(`Starting EVM balance collection on ${request.blockchainKey}`, {
         blockchainKey: request.blockchainKey,
         walletAddress: request.walletAddress,
@@ -102,6 +126,7 @@ export class EVMBalanceCollector extends BalanceCollector {
         balance,
         transferredAmount: transferResult.transferredAmount,
         transactionHash: transferResult.txHash,
+        feeAmount: await this.getTransactionFee(transferResult.txHash),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -135,9 +160,10 @@ export class EVMBalanceCollector extends BalanceCollector {
     const transferAmountEth = ethers.formatEther(transferAmount);
 
     // Get invoice wallet
-    const blockchain = this.walletFactory.getBlockchain(BlockchainNetworkEnum.EthereumMainnet);
+    const blockchainKey = this.getInvoiceWalletBlockchainKey();
+    const blockchain = this.walletFactory.getBlockchain(blockchainKey);
     if (!blockchain) {
-      throw new Error(`Unsupported blockchain: ${BlockchainNetworkEnum.EthereumMainnet}`);
+      throw new Error(`Unsupported blockchain: ${blockchainKey}`);
     }
     const invoiceWallet = await blockchain.derivedPathToWallet(invoiceWalletDerivationPath);
 
@@ -155,6 +181,142 @@ export class EVMBalanceCollector extends BalanceCollector {
     };
   }
 
+  protected async collectToken(
+    request: BalanceCollectionRequest,
+    contractAddress: string,
+  ): Promise<BalanceCollectionResult> {
+    this.logger.log(`Starting EVM token collection on ${request.blockchainKey}`, {
+      blockchainKey: request.blockchainKey,
+      tokenId: request.tokenId,
+      walletAddress: request.walletAddress,
+    });
+
+    const { balance, decimals } = await this.checkTokenBalance(
+      contractAddress,
+      request.walletAddress,
+    );
+
+    if (BigInt(balance) <= 0n) {
+      return {
+        success: true,
+        balance,
+        skipped: true,
+        skipReason: 'Zero balance',
+      };
+    }
+
+    const blockchain = this.walletFactory.getBlockchain(request.blockchainKey);
+    if (!blockchain) {
+      throw new Error(`Unsupported blockchain: ${request.blockchainKey}`);
+    }
+    const hotWallet = await blockchain.getHotWallet();
+    const hotWalletAddress = await hotWallet.getAddress();
+
+    // Fund the invoice wallet with gas, an earlier attempt may already have funded it
+    const gasCost = await this.estimateTokenTransferGasCost(
+      contractAddress,
+      request.walletAddress,
+      hotWalletAddress,
+      balance,
+    );
+    const gasBudget = gasCost + (gasCost * GAS_FUNDING_MARGIN_PERCENT) / 100n;
+    const nativeBalance = BigInt(await this.checkBalance(request.walletAddress));
+
+    let gasFundingTransactionHash: string | undefined;
+    let gasFundingAmount: string | undefined;
+    if (nativeBalance < gasBudget) {
+      const fundingAmount = gasBudget - nativeBalance;
+      const funding = await hotWallet.transfer({
+        tokenId: 'native',
+        from: hotWalletAddress,
+        to: request.walletAddress,
+        value: ethers.formatEther(fundingAmount),
+      });
+      gasFundingTransactionHash = funding.txHash;
+      gasFundingAmount = fundingAmount.toString();
+
+      this.logger.log(`Funded invoice wallet with ${ethers.formatEther(fundingAmount)} for gas`, {
+        walletAddress: request.walletAddress,
+        transactionHash: funding.txHash,
+      });
+    }
+
+    const invoiceWallet = await blockchain.derivedPathToWallet(request.walletDerivationPath);
+    const result = await invoiceWallet.transfer({
+      tokenId: request.tokenId ?? contractAddress,
+      from: request.walletAddress,
+      to: hotWalletAddress,
+      value: ethers.formatUnits(balance, decimals),
+    });
+
+    this.logger.log(`Successfully collected ${ethers.formatUnits(balance, decimals)} tokens`, {
+      tokenId: request.tokenId,
+      transactionHash: result.txHash,
+    });
+
+    return {
+      success: true,
+      balance,
+      transferredAmount: balance,
+      transactionHash: result.txHash,
+      gasFundingTransactionHash,
+      gasFundingAmount,
+      feeAmount: await this.getTransactionFee(result.txHash),
+    };
+  }
+
+  protected async checkTokenBalance(
+    contractAddress: string,
+    walletAddress: string,
+  ): Promise<{ balance: string; decimals: number }> {
+    const provider = new ethers.JsonRpcProvider(this.getRpcUrl());
+    const token = new ethers.Contract(contractAddress, ERC20_ABI, provider);
+    const [balance, decimals] = await Promise.all([
+      token.balanceOf(walletAddress) as Promise<bigint>,
+      token.decimals() as Promise<bigint>,
+    ]);
+    return { balance: balance.toString(), decimals: Number(decimals) };
+  }
+
+  protected async estimateTokenTransferGasCost(
+    contractAddress: string,
+    from: string,
+    to: string,
+    amount: string,
+  ): Promise<bigint> {
+    const provider = new ethers.JsonRpcProvider(this.getRpcUrl());
+    const token = new ethers.Contract(contractAddress, ERC20_ABI, provider);
+    const [gasLimit, feeData] = await Promise.all([
+      token.transfer.estimateGas(to, BigInt(amount), { from }),
+      provider.getFeeData(),
+    ]);
+    const gasPrice = feeData.gasPrice ?? BigInt(20000000000); // 20 gwei fallback
+    return gasLimit * gasPrice;
+  }
+
+  /**
+   * Fee paid by a mined transaction, undefined when the receipt cannot be read
+   */
+  protected async getTransactionFee(txHash: string): Promise<string | undefined> {
+    try {
+      const provider = new ethers.JsonRpcProvider(this.getRpcUrl());
+      const receipt = await provider.getTransactionReceipt(txHash);
+      return receipt ? receipt.fee.toString() : undefined;
+    } catch (error) {
+      this.logger.warn(`Could not read fee of transaction ${txHash}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Blockchain deriving the invoice wallet of a native collection
+   */
+  protected getInvoiceWalletBlockchainKey(): string {
+    return BlockchainNetworkEnum.EthereumMainnet;
+  }
+
   protected getRpcUrl(): string {
     return this.appConfig.blockchains[BlockchainNetworkEnum.EthereumMainnet].rpcUrls[0];
   }
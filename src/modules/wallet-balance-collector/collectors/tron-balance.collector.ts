@@ -0,0 +1,303 @@
+import type {
+  BalanceCollectionRequest,
+  BalanceCollectionResult,
+} from '../balance-collection.types';
+
+import { Injectable } from '@nestjs/common';
+
+import { TelemetryLogger } from '../../../shared/telemetry.logger';
+import { fromLowestDenomination } from '../../../shared/utils/decimal';
+import {
+  TRC20_TRANSFER_BANDWIDTH,
+  TRC20_TRANSFER_ENERGY,
+  TRX_TRANSFER_BANDWIDTH,
+  TronAccountResource,
+  TronMainnetBlockchain,
+} from '../../../shared/wallets/blockchains/tron-mainnet.blockchain';
+import {
+  encodeParameters,
+  fromTronAddress,
+  getTrc20Balance,
+  getTrc20ContractAddress,
+  TRX_TOKEN_ID,
+} from '../../../shared/wallets/wallets/tron.wallet';
+import { BlockchainNetworkEnum } from '../balance-collection.types';
+import { BalanceCollector } from '../balance-collector.abstract';
+import { CollectorFlag } from '../balance-collector.factory';
+
+/**
+ * Headroom over the estimated TRX burn when funding a token collection, in percent
+ */
+const FEE_FUNDING_MARGIN_PERCENT = 20n;
+
+/**
+ * Tron Balance Collector for Tron Mainnet
+ *
+ * Tron transactions spend bandwidth and TRC-20 transfers also spend energy. Resources the sender has not
+ * staked for (and the daily free bandwidth does not cover) are paid by burning TRX. Invoice wallets
+ * stake nothing, so a token collection first has the hot wallet send the TRX the transfer will burn.
+ */
+@Injectable()
+@CollectorFlag(BlockchainNetworkEnum.TronMainnet)
+export class TronBalanceCollector extends BalanceCollector {
+  private readonly logger = new TelemetryLogger(TronBalanceCollector.name);
+
+  constructor(private readonly tron: TronMainnetBlockchain) {
+    super();
+  }
+
+  canHandle(request: BalanceCollectionRequest): boolean {
+    return request.blockchainKey === BlockchainNetworkEnum.TronMainnet;
+  }
+
+  async collect(request: BalanceCollectionRequest): Promise<BalanceCollectionResult> {
+    try {
+      const contractAddress = getTrc20ContractAddress(request.tokenId);
+      if (contractAddress) {
+        return await this.collectToken(request, contractAddress);
+      }
+
+      this.logger.log('Starting Tron balance collection', {
+        blockchainKey: request.blockchainKey,
+        walletAddress: request.walletAddress,
+      });
+
+      const balance = await this.checkBalance(request.walletAddress);
+      const balanceBigInt = BigInt(balance);
+
+      if (balanceBigInt <= 0n) {
+        return {
+          success: true,
+          balance,
+          skipped: true,
+          skipReason: 'Zero balance',
+        };
+      }
+
+      // The transfer burns TRX for its bandwidth unless the free daily bandwidth covers it
+      const resource = await this.tron.apiClient.getAccountResource(request.walletAddress);
+      const { bandwidthPrice } = await this.tron.getResourcePrices();
+      const feeReserve =
+        getAvailableBandwidth(resource) >= TRX_TRANSFER_BANDWIDTH
+          ? 0n
+          : BigInt(TRX_TRANSFER_BANDWIDTH * bandwidthPrice);
+
+      if (balanceBigInt <= feeReserve) {
+        return {
+          success: true,
+          balance,
+          skipped: true,
+          skipReason: `Balance too small to cover bandwidth (reserve: ${fromLowestDenomination(feeReserve.toString(), 6)} TRX)`,
+        };
+      }
+
+      const hotWallet = await this.tron.getHotWallet();
+      const hotWalletAddress = await hotWallet.getAddress();
+
+      const transferResult = await this.transferToHotWallet(
+        request.walletDerivationPath,
+        hotWalletAddress,
+        (balanceBigInt - feeReserve).toString(),
+      );
+
+      this.logger.log(
+        `Successfully collected ${fromLowestDenomination(transferResult.transferredAmount, 6)} TRX`,
+        {
+          transactionHash: transferResult.txHash,
+          transferredAmount: transferResult.transferredAmount,
+        },
+      );
+
+      return {
+        success: true,
+        balance,
+        transferredAmount: transferResult.transferredAmount,
+        transactionHash: transferResult.txHash,
+        feeAmount: await this.getTransactionFee(transferResult.txHash),
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.logger.error(`Failed to collect Tron balance: ${errorMessage}`, {
+        blockchainKey: request.blockchainKey,
+        error: errorMessage,
+      });
+
+      return {
+        success: false,
+        balance: '0',
+        error: errorMessage,
+      };
+    }
+  }
+
+  protected async checkBalance(walletAddress: string): Promise<string> {
+    const account = await this.tron.apiClient.getAccount(walletAddress);
+    return String(account.balance ?? 0);
+  }
+
+  /**
+   * Sends `balance` sun from the invoice wallet, any bandwidth fee is already reserved by the caller
+   */
+  protected async transferToHotWallet(
+    invoiceWalletDerivationPath: string,
+    hotWalletAddress: string,
+    balance: string,
+  ): Promise<{ txHash: string; transferredAmount: string }> {
+    const invoiceWallet = await this.tron.derivedPathToWallet(invoiceWalletDerivationPath);
+
+    const result = await invoiceWallet.transfer({
+      to: hotWalletAddress,
+      value: fromLowestDenomination(balance, 6),
+      tokenId: TRX_TOKEN_ID,
+      from: await invoiceWallet.getAddress(),
+    });
+
+    return {
+      txHash: result.txHash,
+      transferredAmount: balance,
+    };
+  }
+
+  protected async collectToken(
+    request: BalanceCollectionRequest,
+    contractAddress: string,
+  ): Promise<BalanceCollectionResult> {
+    this.logger.log(`Starting TRC-20 collection on ${request.blockchainKey}`, {
+      blockchainKey: request.blockchainKey,
+      tokenId: request.tokenId,
+      walletAddress: request.walletAddress,
+    });
+
+    const { balance, decimals } = await getTrc20Balance(
+      this.tron.apiClient,
+      request.walletAddress,
+      contractAddress,
+    );
+
+    if (balance <= 0n) {
+      return {
+        success: true,
+        balance: balance.toString(),
+        skipped: true,
+        skipReason: 'Zero balance',
+      };
+    }
+
+    const hotWallet = await this.tron.getHotWallet();
+    const hotWalletAddress = await hotWallet.getAddress();
+
+    // Fund the invoice wallet with the TRX the transfer burns, an earlier attempt may already have funded it
+    const feeCost = await this.estimateTokenTransferBurn(
+      contractAddress,
+      request.walletAddress,
+      hotWalletAddress,
+      balance,
+    );
+    const feeBudget = feeCost + (feeCost * FEE_FUNDING_MARGIN_PERCENT) / 100n;
+    const nativeBalance = BigInt(await this.checkBalance(request.walletAddress));
+
+    let gasFundingTransactionHash: string | undefined;
+    let gasFundingAmount: string | undefined;
+    if (nativeBalance < feeBudget) {
+      const fundingAmount = feeBudget - nativeBalance;
+      const funding = await hotWallet.transfer({
+        tokenId: TRX_TOKEN_ID,
+        from: hotWalletAddress,
+        to: request.walletAddress,
+        value: fromLowestDenomination(fundingAmount.toString(), 6),
+      });
+      gasFundingTransactionHash = funding.txHash;
+      gasFundingAmount = fundingAmount.toString();
+
+      this.logger.log(
+        `Funded invoice wallet with ${fromLowestDenomination(fundingAmount.toString(), 6)} TRX for energy and bandwidth`,
+        {
+          walletAddress: request.walletAddress,
+          transactionHash: funding.txHash,
+        },
+      );
+    }
+
+    const invoiceWallet = await this.tron.derivedPathToWallet(request.walletDerivationPath);
+    const value = fromLowestDenomination(balance.toString(), decimals);
+    const result = await invoiceWallet.transfer({
+      tokenId: request.tokenId ?? `trc20:${contractAddress}`,
+      from: request.walletAddress,
+      to: hotWalletAddress,
+      value,
+    });
+
+    this.logger.log(`Successfully collected ${value} tokens`, {
+      tokenId: request.tokenId,
+      transactionHash: result.txHash,
+    });
+
+    return {
+      success: true,
+      balance: balance.toString(),
+      transferredAmount: balance.toString(),
+      transactionHash: result.txHash,
+      gasFundingTransactionHash,
+      gasFundingAmount,
+      feeAmount: await this.getTransactionFee(result.txHash),
+    };
+  }
+
+  /**
+   * TRX in sun a token transfer burns for the energy and bandwidth the sender lacks
+   */
+  protected async estimateTokenTransferBurn(
+    contractAddress: string,
+    from: string,
+    to: string,
+    amount: bigint,
+  ): Promise<bigint> {
+    const [resource, { bandwidthPrice, energyPrice }, simulation] = await Promise.all([
+      this.tron.apiClient.getAccountResource(from),
+      this.tron.getResourcePrices(),
+      this.tron.apiClient
+        .triggerConstantContract({
+          ownerAddress: from,
+          contractAddress,
+          functionSelector: 'transfer(address,uint256)',
+          parameter: encodeParameters(['address', 'uint256'], [fromTronAddress(to), amount]),
+        })
+        .catch(() => undefined),
+    ]);
+
+    const energyRequired = simulation?.energy_used || TRC20_TRANSFER_ENERGY;
+    const energyAvailable = Math.max(0, (resource.EnergyLimit ?? 0) - (resource.EnergyUsed ?? 0));
+    const energyBurn = Math.max(0, energyRequired - energyAvailable) * energyPrice;
+
+    const bandwidthBurn =
+      getAvailableBandwidth(resource) >= TRC20_TRANSFER_BANDWIDTH
+        ? 0
+        : TRC20_TRANSFER_BANDWIDTH * bandwidthPrice;
+
+    return BigInt(energyBurn + bandwidthBurn);
+  }
+
+  /**
+   * TRX burnt by a confirmed transaction, undefined when it cannot be read yet
+   */
+  protected async getTransactionFee(txHash: string): Promise<string | undefined> {
+    try {
+      const info = await this.tron.apiClient.getTransactionInfo(txHash);
+      return info.id ? String(info.fee ?? 0) : undefined;
+    } catch (error) {
+      this.logger.warn(`Could not read fee of transaction ${txHash}`, {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Bandwidth spendable without burning TRX: the free daily allowance plus any staked bandwidth
+ */
+function getAvailableBandwidth(resource: TronAccountResource): number {
+  const free = (resource.freeNetLimit ?? 0) - (resource.freeNetUsed ?? 0);
+  const staked = (resource.NetLimit ?? 0) - (resource.NetUsed ?? 0);
+  return Math.max(0, free) + Math.max(0, staked);
+}
@@ -0,0 +1,38 @@
+import type { Job } from 'bullmq';
+
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { InvoiceSweepJobData } from './balance-collection.types';
+import { InvoiceSweepService } from './invoice-sweep.service';
+
+@Injectable()
+@Processor('invoiceSweepQueue')
+export class InvoiceSweepProcessor extends WorkerHost {
+  private readonly logger = new TelemetryLogger(InvoiceSweepProcessor.name);
+
+  constructor(private readonly invoiceSweepService: InvoiceSweepService) {
+    super();
+  }
+
+  async process(job: Job<InvoiceSweepJobData>): Promise<void> {
+    this.logger.debug(
+      `Processing invoice sweep job ${job.id} (sweep: ${job.data.sweepId}, attempt: ${job.attemptsMade + 1})`,
+    );
+
+    await this.invoiceSweepService.executeInvoiceSweep(job.data.sweepId);
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job<InvoiceSweepJobData>) {
+    this.logger.debug(`Invoice sweep job ${job.id} completed`);
+  }
+
+  @OnWorkerEvent('failed')
+  onFailed(job: Job<InvoiceSweepJobData>, error: Error) {
+    this.logger.error(
+      `Invoice sweep job ${job.id} failed (attempt ${job.attemptsMade}): ${error.message}`,
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import type { Queue } from 'bullmq';
+
+import { InjectQueue } from '@nestjs/bullmq';
+import { Injectable } from '@nestjs/common';
+
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { InvoiceSweepJobData } from './balance-collection.types';
+
+@Injectable()
+export class InvoiceSweepQueueService {
+  private readonly logger = new TelemetryLogger(InvoiceSweepQueueService.name);
+
+  constructor(
+    @InjectQueue('invoiceSweepQueue')
+    private readonly invoiceSweepQueue: Queue<InvoiceSweepJobData>,
+  ) {}
+
+  /**
+   * One job per sweep, enqueueing a sweep that is already queued is a no-op
+   */
+  async enqueueInvoiceSweep(sweepId: string): Promise<void> {
+    const job = await this.invoiceSweepQueue.add(
+      'invoice-sweep',
+      { sweepId },
+      { jobId: `invoice-sweep-${sweepId}` },
+    );
+
+    this.logger.debug(`Queued invoice sweep job ${job.id} (sweep: ${sweepId})`);
+  }
+}
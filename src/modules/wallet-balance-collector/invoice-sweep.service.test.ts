@@ -0,0 +1,159 @@
+import type { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import type { InvoiceSweepRecord } from '../../shared/repositories/finance.types';
+import type { BalanceCollectionResult } from './balance-collection.types';
+import type { InvoiceSweepQueueService } from './invoice-sweep.queue.service';
+import type { WalletBalanceCollectorService } from './wallet-balance-collector.service';
+
+import assert from 'node:assert';
+import { describe, it, mock } from 'node:test';
+
+import { InvoiceSweepService } from './invoice-sweep.service';
+
+function createSweep(overrides: Partial<InvoiceSweepRecord> = {}): InvoiceSweepRecord {
+  return {
+    id: '7',
+    invoiceId: '42',
+    blockchainKey: 'eip155:56',
+    tokenId: 'bep20:0x55d398326f99059fF775485246999027B3197955',
+    walletAddress: '0xInvoiceWallet',
+    walletDerivationPath: "m/44'/60'/5'/0/42",
+    status: 'Pending',
+    attemptCount: 1,
+    requestedDate: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides,
+  };
+}
+
+function createService(options: {
+  scheduledSweep?: InvoiceSweepRecord;
+  attemptedSweep?: InvoiceSweepRecord;
+  collectionResult?: BalanceCollectionResult;
+}) {
+  const repository = {
+    platformSchedulesInvoiceSweep: mock.fn(async () => ({ sweep: options.scheduledSweep })),
+    platformStartsInvoiceSweepAttempt: mock.fn(async () => ({
+      sweep: options.attemptedSweep ?? createSweep(),
+    })),
+    platformCompletesInvoiceSweep: mock.fn(async (params: { status: 'Sent' | 'Skipped' }) => ({
+      sweep: createSweep({ status: params.status }),
+    })),
+    platformFailsInvoiceSweep: mock.fn(async () => ({ sweep: createSweep({ status: 'Failed' }) })),
+  };
+  const collector = {
+    collectBalance: mock.fn(async () => options.collectionResult),
+  };
+  const queue = {
+    enqueueInvoiceSweep: mock.fn(async () => undefined),
+  };
+
+  const service = new InvoiceSweepService(
+    repository as unknown as CryptogadaiRepository,
+    collector as unknown as WalletBalanceCollectorService,
+    queue as unknown as InvoiceSweepQueueService,
+  );
+
+  return { service, repository, collector, queue };
+}
+
+describe('InvoiceSweepService', () => {
+  describe('scheduleInvoiceSweep', () => {
+    it('should not enqueue a sweep while the invoice is not paid', async () => {
+      const { service, queue } = createService({});
+
+      const sweep = await service.scheduleInvoiceSweep('0xInvoiceWallet');
+
+      assert.strictEqual(sweep, undefined);
+      assert.strictEqual(queue.enqueueInvoiceSweep.mock.callCount(), 0);
+    });
+
+    it('should enqueue the sweep of a paid invoice', async () => {
+      const { service, queue } = createService({ scheduledSweep: createSweep() });
+
+      await service.scheduleInvoiceSweep('0xInvoiceWallet');
+
+      assert.strictEqual(queue.enqueueInvoiceSweep.mock.callCount(), 1);
+      assert.deepStrictEqual(queue.enqueueInvoiceSweep.mock.calls[0].arguments, ['7']);
+    });
+
+    it('should not enqueue a sweep that was already sent', async () => {
+      const { service, queue } = createService({
+        scheduledSweep: createSweep({ status: 'Sent' }),
+      });
+
+      await service.scheduleInvoiceSweep('0xInvoiceWallet');
+
+      assert.strictEqual(queue.enqueueInvoiceSweep.mock.callCount(), 0);
+    });
+  });
+
+  describe('executeInvoiceSweep', () => {
+    it('should record the sweep transaction, gas funding and fee', async () => {
+      const { service, repository, collector } = createService({
+        collectionResult: {
+          success: true,
+          balance: '2500000000000000000',
+          transferredAmount: '2500000000000000000',
+          transactionHash: '0xSweepHash',
+          gasFundingTransactionHash: '0xGasHash',
+          gasFundingAmount: '1000000',
+          feeAmount: '900000',
+        },
+      });
+
+      const sweep = await service.executeInvoiceSweep('7');
+
+      assert.strictEqual(sweep.status, 'Sent');
+      const [request] = collector.collectBalance.mock.calls[0].arguments as unknown as [
+        { tokenId: string; walletAddress: string },
+      ];
+      assert.strictEqual(request.tokenId, 'bep20:0x55d398326f99059fF775485246999027B3197955');
+      assert.strictEqual(request.walletAddress, '0xInvoiceWallet');
+
+      const [completion] = repository.platformCompletesInvoiceSweep.mock.calls[0]
+        .arguments as unknown as [Record<string, unknown>];
+      assert.strictEqual(completion.status, 'Sent');
+      assert.strictEqual(completion.sweptAmount, '2500000000000000000');
+      assert.strictEqual(completion.sweepHash, '0xSweepHash');
+      assert.strictEqual(completion.gasFundingHash, '0xGasHash');
+      assert.strictEqual(completion.gasFundingAmount, '1000000');
+      assert.strictEqual(completion.feeAmount, '900000');
+    });
+
+    it('should record a failed attempt and throw so the job is retried', async () => {
+      const { service, repository } = createService({
+        collectionResult: { success: false, balance: '0', error: 'nonce too low' },
+      });
+
+      await assert.rejects(() => service.executeInvoiceSweep('7'), /nonce too low/);
+
+      assert.strictEqual(repository.platformFailsInvoiceSweep.mock.callCount(), 1);
+      assert.strictEqual(repository.platformCompletesInvoiceSweep.mock.callCount(), 0);
+    });
+
+    it('should complete as skipped when there is nothing to sweep', async () => {
+      const { service, repository } = createService({
+        collectionResult: {
+          success: true,
+          balance: '0',
+          skipped: true,
+          skipReason: 'Zero balance',
+        },
+      });
+
+      const sweep = await service.executeInvoiceSweep('7');
+
+      assert.strictEqual(sweep.status, 'Skipped');
+      assert.strictEqual(repository.platformFailsInvoiceSweep.mock.callCount(), 0);
+    });
+
+    it('should not collect again once the sweep was sent', async () => {
+      const { service, collector } = createService({
+        attemptedSweep: createSweep({ status: 'Sent' }),
+      });
+
+      await service.executeInvoiceSweep('7');
+
+      assert.strictEqual(collector.collectBalance.mock.callCount(), 0);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import type { InvoiceSweepRecord } from '../../shared/repositories/finance.types';
+
+import { Inject, Injectable } from '@nestjs/common';
+
+import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { InvoiceSweepQueueService } from './invoice-sweep.queue.service';
+import { WalletBalanceCollectorService } from './wallet-balance-collector.service';
+
+/**
+ * Sweeps the wallet of a paid invoice into the hot wallet.
+ *
+ * Every sweep is recorded in the invoice_sweeps ledger. A failed attempt is recorded and rethrown
+ * so the invoice sweep queue retries it with backoff.
+ */
+@Injectable()
+export class InvoiceSweepService {
+  private readonly logger = new TelemetryLogger(InvoiceSweepService.name);
+
+  constructor(
+    @Inject(CryptogadaiRepository)
+    private readonly repository: CryptogadaiRepository,
+    private readonly walletBalanceCollectorService: WalletBalanceCollectorService,
+    private readonly invoiceSweepQueue: InvoiceSweepQueueService,
+  ) {}
+
+  /**
+   * Schedules the sweep of the invoice wallet, only once the invoice is fully paid
+   */
+  async scheduleInvoiceSweep(walletAddress: string): Promise<InvoiceSweepRecord | undefined> {
+    const { sweep } = await this.repository.platformSchedulesInvoiceSweep({
+      walletAddress,
+      requestedDate: new Date(),
+    });
+
+    if (!sweep) {
+      this.logger.debug(`Invoice of wallet ${walletAddress} is not paid yet, sweep not scheduled`);
+      return undefined;
+    }
+
+    if (sweep.status === 'Sent' || sweep.status === 'Skipped') {
+      this.logger.debug(`Invoice sweep ${sweep.id} already ${sweep.status}`);
+      return sweep;
+    }
+
+    await this.invoiceSweepQueue.enqueueInvoiceSweep(sweep.id);
+    return sweep;
+  }
+
+  async executeInvoiceSweep(sweepId: string): Promise<InvoiceSweepRecord> {
+    const { sweep } = await this.repository.platformStartsInvoiceSweepAttempt({
+      sweepId,
+      attemptDate: new Date(),
+    });
+
+    if (sweep.status === 'Sent' || sweep.status === 'Skipped') {
+      return sweep;
+    }
+
+    this.logger.log(`Sweeping invoice ${sweep.invoiceId} (attempt ${sweep.attemptCount})`, {
+      sweepId,
+      blockchainKey: sweep.blockchainKey,
+      tokenId: sweep.tokenId,
+      walletAddress: sweep.walletAddress,
+    });
+
+    const result = await this.walletBalanceCollectorService.collectBalance({
+      blockchainKey: sweep.blockchainKey,
+      tokenId: sweep.tokenId,
+      walletAddress: sweep.walletAddress,
+      walletDerivationPath: sweep.walletDerivationPath,
+    });
+
+    if (!result.success) {
+      const failureReason = result.error ?? 'Unknown error';
+      await this.repository.platformFailsInvoiceSweep({
+        sweepId,
+        failureReason,
+        failedDate: new Date(),
+      });
+      throw new Error(`Invoice sweep ${sweepId} failed: ${failureReason}`);
+    }
+
+    if (result.skipped) {
+      const { sweep: skippedSweep } = await this.repository.platformCompletesInvoiceSweep({
+        sweepId,
+        status: 'Skipped',
+        gasFundingHash: result.gasFundingTransactionHash,
+        gasFundingAmount: result.gasFundingAmount,
+        completedDate: new Date(),
+      });
+      return skippedSweep;
+    }
+
+    const { sweep: sentSweep } = await this.repository.platformCompletesInvoiceSweep({
+      sweepId,
+      status: 'Sent',
+      sweptAmount: result.transferredAmount,
+      sweepHash: result.transactionHash,
+      gasFundingHash: result.gasFundingTransactionHash,
+      gasFundingAmount: result.gasFundingAmount,
+      feeAmount: result.feeAmount,
+      completedDate: new Date(),
+    });
+    return sentSweep;
+  }
+}
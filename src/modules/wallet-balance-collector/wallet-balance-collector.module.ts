@@ -6,8 +6,12 @@ import { SharedModule } from '../../shared/shared.module';
 import { BalanceCollectorFactory } from './balance-collector.factory';
 import { BitcoinBalanceCollector } from './collectors/bitcoin-balance.collector';
 import { BSCBalanceCollector } from './collectors/bsc-balance.collector';
+import { ChainPluginBalanceCollectors } from './collectors/chain-plugin-balance.collector';
 import { EVMBalanceCollector } from './collectors/evm-balance.collector';
 import { SolanaBalanceCollector } from './collectors/solana-balance.collector';
+import { TronBalanceCollector } from './collectors/tron-balance.collector';
+import { InvoiceSweepQueueService } from './invoice-sweep.queue.service';
+import { InvoiceSweepService } from './invoice-sweep.service';
 import { WalletBalanceCollectorQueueService } from './wallet-balance-collector.queue.service';
 import { WalletBalanceCollectorService } from './wallet-balance-collector.service';
 
@@ -27,18 +31,39 @@ import { WalletBalanceCollectorService } from './wallet-balance-collector.servic
         removeOnFail: 20,
       },
     }),
+    BullModule.registerQueue({
+      name: 'invoiceSweepQueue',
+      defaultJobOptions: {
+        attempts: 8,
+        backoff: {
+          type: 'exponential',
+          delay: 30000,
+        },
+        removeOnComplete: 50,
+        removeOnFail: 50,
+      },
+    }),
   ],
   providers: [
     // Core services
     WalletBalanceCollectorService,
     WalletBalanceCollectorQueueService,
+    InvoiceSweepService,
+    InvoiceSweepQueueService,
     BalanceCollectorFactory,
     // Blockchain-specific collectors
     EVMBalanceCollector,
     BSCBalanceCollector,
     SolanaBalanceCollector,
     BitcoinBalanceCollector,
+    TronBalanceCollector,
+    ChainPluginBalanceCollectors,
+  ],
+  exports: [
+    WalletBalanceCollectorService,
+    WalletBalanceCollectorQueueService,
+    InvoiceSweepService,
+    InvoiceSweepQueueService,
   ],
-  exports: [WalletBalanceCollectorService, WalletBalanceCollectorQueueService],
 })
 export class WalletBalanceCollectorModule {}
@@ -4,12 +4,16 @@ import { Injectable } from '@nestjs/common';
 
 import { TelemetryLogger } from '../../shared/telemetry.logger';
 import { BalanceCollectorFactory } from './balance-collector.factory';
+import { ChainPluginBalanceCollectors } from './collectors/chain-plugin-balance.collector';
 
 @Injectable()
 export class WalletBalanceCollectorService {
   private readonly logger = new TelemetryLogger(WalletBalanceCollectorService.name);
 
-  constructor(private readonly collectorFactory: BalanceCollectorFactory) {}
+  constructor(
+    private readonly collectorFactory: BalanceCollectorFactory,
+    private readonly chainPluginCollectors: ChainPluginBalanceCollectors,
+  ) {}
 
   async collectBalance(request: BalanceCollectionRequest): Promise<BalanceCollectionResult> {
     try {
@@ -19,7 +23,9 @@ export class WalletBalanceCollectorService {
       });
 
       // Get appropriate collector for the blockchain
-      const collector = this.collectorFactory.getCollector(request.blockchainKey);
+      const collector =
+        this.collectorFactory.getCollector(request.blockchainKey) ??
+        this.chainPluginCollectors.getCollector(request.blockchainKey);
 
       if (!collector) {
         throw new Error(`No collector found for blockchain: ${request.blockchainKey}`);
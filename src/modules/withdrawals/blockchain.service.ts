@@ -6,6 +6,7 @@ import { createPublicClient, formatGwei, http } from 'viem';
 import { bsc, mainnet } from 'viem/chains';
 
 import { TelemetryLogger } from '../../shared/telemetry.logger';
+import { ChainRegistry } from '../../shared/wallets/chain-registry.service';
 
 export interface NetworkFeeEstimate {
   fee: number;
@@ -25,6 +26,8 @@ export interface NetworkFeeOptions {
 export class BlockchainService {
   private readonly logger = new TelemetryLogger(BlockchainService.name);
 
+  constructor(private readonly chainRegistry: ChainRegistry) {}
+
   // Viem clients for EVM chains
   private readonly ethereumClient = createPublicClient({
     chain: mainnet,
@@ -64,9 +67,16 @@ export class BlockchainService {
           return this.estimateBitcoinFee(options);
         case 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp': // Solana
           return this.estimateSolanaFee(options);
-        default:
+        case 'tron:0x2b6653dc': // Tron
+          return this.estimateTronFee(tokenId, options);
+        default: {
+          const chain = this.chainRegistry.getChain(blockchainKey);
+          if (chain) {
+            return await chain.estimateNetworkFee(tokenId, options.priority);
+          }
           this.logger.warn(`Unknown blockchain: ${blockchainKey}, using default fee`);
           return this.getDefaultFee(blockchainKey);
+        }
       }
     } catch (error) {
       this.logger.error(`Failed to estimate fee for ${blockchainKey}:`, error);
@@ -435,6 +445,32 @@ export class BlockchainService {
     }
   }
 
+  /**
+   * Tron fee estimation from the chain parameters, through the Tron chain plug-in
+   */
+  private async estimateTronFee(
+    tokenId?: string,
+    options: NetworkFeeOptions = { priority: 'standard' },
+  ): Promise<NetworkFeeEstimate> {
+    try {
+      const chain = this.chainRegistry.getChain('tron:0x2b6653dc');
+      if (!chain) {
+        throw new Error('Tron chain plug-in is not registered');
+      }
+      return await chain.estimateNetworkFee(tokenId, options.priority);
+    } catch (error) {
+      this.logger.error('Failed to fetch Tron chain parameters, using fallback:', error);
+
+      // Fallback burns at 1000 sun per byte and 420 sun per energy
+      const isToken = tokenId && tokenId !== 'slip44:195';
+      return {
+        fee: isToken ? 27.645 : 0.27, // TRC-20: 345 bytes + 65,000 energy, TRX: 270 bytes
+        feeUnit: 'TRX',
+        estimatedConfirmationTime: '1-2 minutes',
+      };
+    }
+  }
+
   /**
    * Default fee estimation for unknown blockchains
    */
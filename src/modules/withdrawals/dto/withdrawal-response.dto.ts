@@ -10,7 +10,16 @@ export class WithdrawalCreatedResponseDto {
   @ApiProperty({
     description: 'Withdrawal status',
     example: 'Requested',
-    enum: ['Requested', 'Sent', 'Confirmed', 'Failed', 'RefundApproved', 'RefundRejected'],
+    enum: [
+      'PendingApproval',
+      'Rejected',
+      'Requested',
+      'Sent',
+      'Confirmed',
+      'Failed',
+      'RefundApproved',
+      'RefundRejected',
+    ],
   })
   status: string;
 
@@ -169,7 +178,16 @@ export class WithdrawalRecordDto {
 
   @ApiProperty({
     example: 'confirmed',
-    enum: ['requested', 'sent', 'confirmed', 'failed', 'refund_approved', 'refund_rejected'],
+    enum: [
+      'pending_approval',
+      'rejected',
+      'requested',
+      'sent',
+      'confirmed',
+      'failed',
+      'refund_approved',
+      'refund_rejected',
+    ],
   })
   state: string;
 
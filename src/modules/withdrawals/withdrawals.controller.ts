@@ -105,7 +105,7 @@ export class WithdrawalsController {
     description: 'Filter withdrawals by state',
     required: false,
     type: 'string',
-    enum: ['requested', 'sent', 'confirmed', 'failed'],
+    enum: ['pending_approval', 'requested', 'sent', 'confirmed', 'failed', 'rejected'],
     example: 'requested',
   })
   @ApiResponse({
@@ -117,7 +117,8 @@ export class WithdrawalsController {
     @Session() session: UserSession,
     @Query('page') page?: number,
     @Query('limit') limit?: number,
-    @Query('state') state?: 'requested' | 'sent' | 'confirmed' | 'failed',
+    @Query('state')
+    state?: 'pending_approval' | 'requested' | 'sent' | 'confirmed' | 'failed' | 'rejected',
   ) {
     return this.withdrawalsService.findAll(session.user.id, page, limit, state);
   }
@@ -8,6 +8,7 @@ import { ethers } from 'ethers';
 import invariant from 'tiny-invariant';
 
 import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { AppConfigService } from '../../shared/services/app-config.service';
 import { PlatformConfigService } from '../../shared/services/platform-config.service';
 import { TelemetryLogger } from '../../shared/telemetry.logger';
 import { WalletService } from '../../shared/wallets/wallet.service';
@@ -21,6 +22,12 @@ interface ConfirmationMonitoringData {
   transactionHash: string;
   blockchain: string;
   attempt: number;
+  batchId?: string; // set when the transaction pays a whole withdrawal batch
+}
+
+interface WithdrawalBatchSendingData {
+  batchId: string;
+  blockchain: string;
 }
 
 @Injectable()
@@ -46,8 +53,11 @@ export class WithdrawalsProcessor extends WorkerHost {
     private readonly adminWithdrawalsService: AdminWithdrawalsService,
     private readonly platformWalletService: WalletService,
     private readonly platformConfigService: PlatformConfigService,
+    private readonly appConfig: AppConfigService,
     @InjectQueue('withdrawalsQueue')
-    private readonly withdrawalsQueue: Queue<WithdrawalProcessingData | ConfirmationMonitoringData>,
+    private readonly withdrawalsQueue: Queue<
+      WithdrawalProcessingData | ConfirmationMonitoringData | WithdrawalBatchSendingData
+    >,
   ) {
     super();
   }
@@ -58,6 +68,8 @@ export class WithdrawalsProcessor extends WorkerHost {
         return this.processWithdrawal(job as Job<WithdrawalProcessingData>);
       case 'monitor-confirmation':
         return this.monitorConfirmation(job as Job<ConfirmationMonitoringData>);
+      case 'send-withdrawal-batch':
+        return this.sendWithdrawalBatch(job as Job<WithdrawalBatchSendingData>);
       default:
         invariant(false, `Unknown job type: ${job.name}`);
     }
@@ -109,6 +121,17 @@ export class WithdrawalsProcessor extends WorkerHost {
         `Destination address validation failed: ${addressValidation.reason}`,
       );
 
+      // Blockchains with batching enabled pay the withdrawal together with its batch
+      const batchWindowSeconds =
+        this.appConfig.withdrawalBatchConfig.windowSeconds[currencyBlockchainKey];
+      if (batchWindowSeconds) {
+        return await this.addWithdrawalToBatch(
+          withdrawalId,
+          currencyBlockchainKey,
+          batchWindowSeconds,
+        );
+      }
+
       // 5. Execute blockchain transaction (WM-003 Step 2)
       const transactionResult = await this.executeBlockchainTransaction({
         withdrawalId,
@@ -175,7 +198,7 @@ export class WithdrawalsProcessor extends WorkerHost {
   }
 
   private async monitorConfirmation(job: Job<ConfirmationMonitoringData>) {
-    const { withdrawalId, transactionHash, blockchain, attempt = 1 } = job.data;
+    const { withdrawalId, transactionHash, blockchain, attempt = 1, batchId } = job.data;
 
     this.logger.log(
       `[WM-003] Monitoring confirmation for withdrawal ${withdrawalId}, hash: ${transactionHash}, attempt: ${attempt}`,
@@ -197,42 +220,60 @@ export class WithdrawalsProcessor extends WorkerHost {
         return { status: 'skipped', reason: `Withdrawal state is ${currentState}` };
       }
 
-      // Check for transaction timeout (24 hours)
-      if (withdrawal.sentDate) {
-        const sentDate = new Date(withdrawal.sentDate);
-        const now = new Date();
-        if (now.getTime() - sentDate.getTime() > this.TRANSACTION_TIMEOUT_MS) {
-          await this.handleTransactionTimeout(withdrawalId, transactionHash);
-          return { status: 'timeout', reason: 'Transaction timeout (24 hours)' };
-        }
-      }
-
-      // Query blockchain for transaction status
-      const confirmationStatus = await this.checkTransactionConfirmation(
+      // A stuck transaction may have been replaced by fee bumps, any of them can still be mined
+      const { feeBumps } = await this.repo.platformViewsWithdrawalFeeBumps({ withdrawalId });
+      const transactionHashes = [
         transactionHash,
-        blockchain,
-      );
+        ...feeBumps.map(feeBump => feeBump.replacedHash).reverse(),
+      ].filter((hash, index, hashes) => hashes.indexOf(hash) === index);
 
       const requiredConfirmations = this.confirmationRequirements[blockchain] || 12;
 
+      // Query blockchain for transaction status, latest replacement first
+      let confirmedHash = transactionHash;
+      let confirmationStatus = await this.checkTransactionConfirmation(transactionHash, blockchain);
+      for (const replacedHash of transactionHashes.slice(1)) {
+        if (confirmationStatus.confirmed) break;
+        const replacedStatus = await this.checkTransactionConfirmation(replacedHash, blockchain);
+        if (replacedStatus.confirmed) {
+          confirmedHash = replacedHash;
+          confirmationStatus = replacedStatus;
+        }
+      }
+
       if (
         confirmationStatus.confirmed &&
         confirmationStatus.confirmations >= requiredConfirmations
       ) {
-        // Transaction confirmed
-        await this.repo.platformConfirmsWithdrawal({
+        // Transaction confirmed, a batch transaction confirms all of its withdrawals at once
+        const confirmedWithdrawalIds = await this.getTransactionWithdrawalIds(
           withdrawalId,
-          confirmedDate: new Date(),
-        });
+          batchId,
+        );
+        if (batchId) {
+          await this.repo.platformConfirmsWithdrawalBatch({
+            batchId,
+            confirmedDate: new Date(),
+            sentHash: confirmedHash,
+          });
+        } else {
+          await this.repo.platformConfirmsWithdrawal({
+            withdrawalId,
+            confirmedDate: new Date(),
+            sentHash: confirmedHash,
+          });
+        }
 
         // Send success notification
-        await this.notificationQueueService.queueNotification({
-          type: 'WithdrawalConfirmed',
-          name: 'Withdrawal Confirmed',
-          withdrawalId,
-          transactionHash,
-          confirmations: confirmationStatus.confirmations,
-        });
+        for (const id of confirmedWithdrawalIds) {
+          await this.notificationQueueService.queueNotification({
+            type: 'WithdrawalConfirmed',
+            name: 'Withdrawal Confirmed',
+            withdrawalId: id,
+            transactionHash: confirmedHash,
+            confirmations: confirmationStatus.confirmations,
+          });
+        }
 
         this.logger.log(
           `[WM-003] Withdrawal ${withdrawalId} confirmed with ${confirmationStatus.confirmations} confirmations`,
@@ -241,26 +282,72 @@ export class WithdrawalsProcessor extends WorkerHost {
         return { status: 'confirmed', confirmations: confirmationStatus.confirmations };
       } else if (confirmationStatus.failed) {
         // Transaction failed or reverted
-        await this.handleTransactionFailure(
-          withdrawalId,
-          transactionHash,
-          confirmationStatus.failureReason || 'Unknown failure reason',
-        );
+        const failureReason = confirmationStatus.failureReason || 'Unknown failure reason';
+        for (const id of await this.getTransactionWithdrawalIds(withdrawalId, batchId)) {
+          await this.handleTransactionFailure(id, transactionHash, failureReason);
+        }
+        if (batchId) {
+          await this.failWithdrawalBatch(batchId, `Transaction failed: ${failureReason}`);
+        }
         return { status: 'Failed', reason: confirmationStatus.failureReason };
-      } else {
-        // Still pending, requeue for next check
-        await this.requeueConfirmationMonitoring(
-          withdrawalId,
-          transactionHash,
-          blockchain,
-          attempt + 1,
-        );
-        return {
-          status: 'pending',
-          confirmations: confirmationStatus.confirmations,
-          required: requiredConfirmations,
-        };
       }
+
+      if (!confirmationStatus.confirmed && withdrawal.sentDate) {
+        const now = new Date();
+        const lastFeeBump = feeBumps[feeBumps.length - 1];
+        const lastBroadcastDate = new Date(lastFeeBump?.bumpedDate ?? withdrawal.sentDate);
+        const { stuckAfterMinutes } = this.appConfig.withdrawalFeeBumpConfig;
+
+        // Replace a stuck transaction with a higher fee before giving up on it
+        if (now.getTime() - lastBroadcastDate.getTime() > stuckAfterMinutes * 60 * 1000) {
+          const replacementHash = await this.bumpTransactionFee({
+            withdrawalId,
+            transactionHash,
+            blockchain,
+            tokenId: withdrawal.currency.tokenId,
+            feeBumpCount: feeBumps.length,
+            batchId,
+          });
+          if (replacementHash) {
+            await this.queueConfirmationMonitoring(
+              withdrawalId,
+              replacementHash,
+              blockchain,
+              batchId,
+            );
+            return { status: 'replaced', transactionHash: replacementHash };
+          }
+        }
+
+        // Check for transaction timeout (24 hours)
+        const sentDate = new Date(withdrawal.sentDate);
+        if (now.getTime() - sentDate.getTime() > this.TRANSACTION_TIMEOUT_MS) {
+          for (const id of await this.getTransactionWithdrawalIds(withdrawalId, batchId)) {
+            await this.handleTransactionTimeout(id, transactionHash);
+          }
+          if (batchId) {
+            await this.failWithdrawalBatch(
+              batchId,
+              'Transaction timeout - no confirmation received within 24 hours',
+            );
+          }
+          return { status: 'timeout', reason: 'Transaction timeout (24 hours)' };
+        }
+      }
+
+      // Still pending, requeue for next check
+      await this.requeueConfirmationMonitoring(
+        withdrawalId,
+        transactionHash,
+        blockchain,
+        attempt + 1,
+        batchId,
+      );
+      return {
+        status: 'pending',
+        confirmations: confirmationStatus.confirmations,
+        required: requiredConfirmations,
+      };
     } catch (error) {
       this.logger.error(`[WM-003] Error monitoring confirmation for ${withdrawalId}:`, error);
 
@@ -271,6 +358,7 @@ export class WithdrawalsProcessor extends WorkerHost {
           transactionHash,
           blockchain,
           attempt + 1,
+          batchId,
         );
       } else {
         await this.handleMonitoringFailure(withdrawalId, transactionHash, error.message);
@@ -280,6 +368,144 @@ export class WithdrawalsProcessor extends WorkerHost {
     }
   }
 
+  private async sendWithdrawalBatch(job: Job<WithdrawalBatchSendingData>) {
+    const { batchId, blockchain } = job.data;
+
+    this.logger.log(`[WM-003] Sending withdrawal batch ${batchId} on ${blockchain}`);
+
+    const { batch: openBatch } = await this.repo.platformViewsWithdrawalBatch({ batchId });
+    if (!openBatch || openBatch.status !== 'Open') {
+      const currentState = openBatch?.status || 'not found';
+      return { status: 'skipped', reason: `Withdrawal batch state is ${currentState}` };
+    }
+
+    const { batch } = await this.repo.platformClosesWithdrawalBatch({
+      batchId,
+      closedDate: new Date(),
+    });
+    const withdrawals = batch.withdrawals.filter(withdrawal => withdrawal.status === 'Requested');
+
+    if (withdrawals.length === 0) {
+      await this.failWithdrawalBatch(batchId, 'No requested withdrawals left in the batch');
+      return { status: 'skipped', reason: 'No requested withdrawals left in the batch' };
+    }
+
+    let transactionHash: string | undefined;
+
+    try {
+      const networkStatus = await this.blockchainService.isNetworkOperational(batch.blockchainKey);
+      invariant(
+        networkStatus.operational,
+        `Blockchain network ${batch.blockchainKey} is not operational: ${networkStatus.reason}`,
+      );
+
+      // The batch pays one network fee, split equally between its withdrawals
+      const feeEstimate = await this.blockchainService.estimateNetworkFee(
+        batch.blockchainKey,
+        batch.tokenId,
+        {
+          priority: 'standard',
+        },
+      );
+      const networkFeeShare = feeEstimate.fee / withdrawals.length;
+      const payouts = withdrawals.map(function (withdrawal) {
+        const sendAmount = parseFloat(withdrawal.amount) - networkFeeShare;
+        invariant(
+          sendAmount > 0,
+          `Withdrawal ${withdrawal.withdrawalId} does not cover its network fee share`,
+        );
+        return { withdrawal, sendAmount: sendAmount.toString() };
+      });
+
+      const [hotWallet, hotWalletConfig] = await Promise.all([
+        this.platformWalletService.getHotWallet(batch.blockchainKey),
+        this.platformConfigService.getHotWalletConfig(batch.blockchainKey),
+      ]);
+
+      invariant(
+        hotWallet.address === hotWalletConfig.address,
+        'Hot wallet address mismatch detected',
+      );
+
+      const result = await hotWallet.wallet.transferBatch({
+        tokenId: batch.tokenId,
+        from: hotWalletConfig.address,
+        outputs: payouts.map(payout => ({
+          to: payout.withdrawal.beneficiaryAddress,
+          value: payout.sendAmount,
+        })),
+      });
+      transactionHash = result.txHash;
+
+      await this.repo.platformSendsWithdrawalBatch({
+        batchId,
+        sentHash: result.txHash,
+        networkFee: result.fee,
+        sentDate: new Date(),
+        withdrawals: payouts.map(payout => ({
+          withdrawalId: payout.withdrawal.withdrawalId,
+          sentAmount: payout.sendAmount,
+          networkFeeShare: networkFeeShare.toString(),
+        })),
+      });
+
+      await this.queueConfirmationMonitoring(
+        withdrawals[0].withdrawalId,
+        result.txHash,
+        batch.blockchainKey,
+        batchId,
+      );
+
+      for (const payout of payouts) {
+        await this.notificationQueueService.queueNotification({
+          type: 'WithdrawalRequested',
+          name: 'Withdrawal Requested',
+          withdrawalId: payout.withdrawal.withdrawalId,
+          transactionHash: result.txHash,
+          blockchainNetwork: batch.blockchainKey,
+          estimatedConfirmationTime: this.getEstimatedConfirmationTime(batch.blockchainKey),
+        });
+      }
+
+      this.logger.log(
+        `[WM-003] Withdrawal batch ${batchId} sent with ${payouts.length} withdrawals. Hash: ${result.txHash}`,
+      );
+
+      return {
+        status: 'sent',
+        transactionHash: result.txHash,
+        withdrawalCount: payouts.length,
+        networkFee: result.fee,
+      };
+    } catch (error) {
+      this.logger.error(`[WM-003] Failed to send withdrawal batch ${batchId}:`, error);
+
+      if (transactionHash) {
+        // The transaction is already on the network, so its withdrawals must not be failed and paid again
+        await this.notificationQueueService.queueNotification({
+          type: 'AdminMonitoringFailure',
+          name: 'Withdrawal Batch Recording Failed',
+          withdrawalId: withdrawals[0].withdrawalId,
+          transactionHash,
+          error: error.message,
+          requiresManualCheck: true,
+        });
+        throw error;
+      }
+
+      for (const withdrawal of withdrawals) {
+        await this.handleWithdrawalFailure(
+          withdrawal.withdrawalId,
+          error.message,
+          'BATCH_EXECUTION_FAILED',
+        );
+      }
+      await this.failWithdrawalBatch(batchId, error.message);
+
+      return { status: 'failed', reason: error.message };
+    }
+  }
+
   // WM-003 Step 1: Validation methods
   private async validateWithdrawalForProcessing(
     withdrawalId: string,
@@ -295,6 +521,15 @@ export class WithdrawalsProcessor extends WorkerHost {
         return { valid: false, reason: 'Withdrawal not found' };
       }
 
+      // Jobs queued before an approval tier change must not bypass admin review
+      if (withdrawal.state === 'pending_approval') {
+        return { valid: false, reason: 'Withdrawal is awaiting admin approval' };
+      }
+
+      if (withdrawal.state === 'rejected') {
+        return { valid: false, reason: 'Withdrawal was rejected by an admin' };
+      }
+
       if (withdrawal.state !== 'requested') {
         return { valid: false, reason: `Withdrawal state is ${withdrawal.state}` };
       }
@@ -450,6 +685,147 @@ export class WithdrawalsProcessor extends WorkerHost {
     }
   }
 
+  // Batched payouts
+  private async addWithdrawalToBatch(
+    withdrawalId: string,
+    blockchain: string,
+    windowSeconds: number,
+  ) {
+    const addedDate = new Date();
+    const { batch, opened } = await this.repo.platformAddsWithdrawalToBatch({
+      withdrawalId,
+      addedDate,
+    });
+
+    // The batch that a withdrawal opens is sent when its window ends, or right away once it is full.
+    // A batch still open past its window lost its send job, the withdrawal joining it sends it instead.
+    const isFull =
+      batch.status === 'Open' &&
+      batch.withdrawals.length >= this.appConfig.withdrawalBatchConfig.maxWithdrawals;
+    const isOverdue =
+      !opened &&
+      batch.status === 'Open' &&
+      addedDate.getTime() >= batch.openedDate.getTime() + windowSeconds * 1000;
+
+    if (opened || isFull || isOverdue) {
+      await this.withdrawalsQueue.add(
+        'send-withdrawal-batch',
+        {
+          batchId: batch.id,
+          blockchain,
+        },
+        {
+          jobId: opened
+            ? `withdrawal-batch-${batch.id}`
+            : isFull
+              ? `withdrawal-batch-${batch.id}-full`
+              : `withdrawal-batch-${batch.id}-overdue-${withdrawalId}`,
+          delay: opened && !isFull ? windowSeconds * 1000 : 0,
+          priority: 5,
+          // Retrying is safe, a batch that was already closed is skipped
+          attempts: 5,
+          backoff: {
+            type: 'exponential',
+            delay: 3000,
+          },
+          removeOnComplete: 50,
+          removeOnFail: 20,
+        },
+      );
+    }
+
+    this.logger.log(
+      `[WM-003] Withdrawal ${withdrawalId} added to batch ${batch.id} (${batch.withdrawals.length} withdrawals)`,
+    );
+
+    return { status: 'batched', batchId: batch.id, batchSize: batch.withdrawals.length };
+  }
+
+  /**
+   * Withdrawals paid by a monitored transaction: the given one, or every sent withdrawal of its batch
+   */
+  private async getTransactionWithdrawalIds(
+    withdrawalId: string,
+    batchId?: string,
+  ): Promise<string[]> {
+    if (!batchId) {
+      return [withdrawalId];
+    }
+
+    const { batch } = await this.repo.platformViewsWithdrawalBatch({ batchId });
+    invariant(batch, `Withdrawal batch ${batchId} not found`);
+
+    return batch.withdrawals
+      .filter(withdrawal => withdrawal.status === 'Sent')
+      .map(withdrawal => withdrawal.withdrawalId);
+  }
+
+  private async failWithdrawalBatch(batchId: string, failureReason: string): Promise<void> {
+    try {
+      await this.repo.platformFailsWithdrawalBatch({
+        batchId,
+        failedDate: new Date(),
+        failureReason,
+      });
+    } catch (error) {
+      this.logger.error(`[WM-003] Failed to mark withdrawal batch ${batchId} as failed:`, error);
+    }
+  }
+
+  /**
+   * Rebroadcasts a stuck transaction at a fast fee, capped by the configured maximum fee of the
+   * blockchain. Returns the replacement hash, or undefined when the transaction cannot be bumped.
+   */
+  private async bumpTransactionFee(params: {
+    withdrawalId: string;
+    transactionHash: string;
+    blockchain: string;
+    tokenId: string;
+    feeBumpCount: number;
+    batchId?: string;
+  }): Promise<string | undefined> {
+    const { maxFees, maxAttempts } = this.appConfig.withdrawalFeeBumpConfig;
+    const maxFee = maxFees[params.blockchain];
+    if (maxFee === undefined || params.feeBumpCount >= maxAttempts) {
+      return undefined;
+    }
+
+    try {
+      const feeEstimate = await this.blockchainService.estimateNetworkFee(
+        params.blockchain,
+        params.tokenId,
+        { priority: 'fast' },
+      );
+      const hotWallet = await this.platformWalletService.getHotWallet(params.blockchain);
+
+      const replacement = await hotWallet.wallet.bumpFee({
+        txHash: params.transactionHash,
+        fee: Math.min(feeEstimate.fee, maxFee).toString(),
+        maxFee: maxFee.toString(),
+      });
+
+      await this.repo.platformRecordsWithdrawalFeeBump({
+        withdrawalIds: await this.getTransactionWithdrawalIds(params.withdrawalId, params.batchId),
+        replacedHash: params.transactionHash,
+        replacementHash: replacement.txHash,
+        networkFee: replacement.fee,
+        bumpedDate: new Date(),
+      });
+
+      this.logger.log(
+        `[WM-003] Replaced stuck transaction ${params.transactionHash} with ${replacement.txHash}, fee: ${replacement.fee}`,
+      );
+
+      return replacement.txHash;
+    } catch (error) {
+      this.logger.error(
+        `[WM-003] Failed to bump fee of transaction ${params.transactionHash}:`,
+        error,
+      );
+      return undefined;
+    }
+  }
+
   // WM-003 Step 3: Confirmation monitoring
   private async checkTransactionConfirmation(
     _transactionHash: string,
@@ -605,6 +981,7 @@ export class WithdrawalsProcessor extends WorkerHost {
     withdrawalId: string,
     transactionHash: string,
     blockchain: string,
+    batchId?: string,
   ): Promise<void> {
     try {
       // Calculate initial delay based on network (WM-003: monitor every 2 minutes)
@@ -617,6 +994,7 @@ export class WithdrawalsProcessor extends WorkerHost {
           transactionHash,
           blockchain,
           attempt: 1,
+          batchId,
         },
         {
           delay: initialDelay,
@@ -643,6 +1021,7 @@ export class WithdrawalsProcessor extends WorkerHost {
     transactionHash: string,
     blockchain: string,
     attempt: number,
+    batchId?: string,
   ): Promise<void> {
     try {
       // Exponential backoff with base delay of 2 minutes (120 seconds)
@@ -656,6 +1035,7 @@ export class WithdrawalsProcessor extends WorkerHost {
           transactionHash,
           blockchain,
           attempt,
+          batchId,
         },
         {
           delay,
@@ -1,6 +1,12 @@
+import type {
+  Currency,
+  WithdrawalBeneficiaryListItem,
+} from '../../shared/repositories/finance.types';
+
 import { Injectable } from '@nestjs/common';
 
 import { CryptogadaiRepository } from '../../shared/repositories/cryptogadai.repository';
+import { AppConfigService } from '../../shared/services/app-config.service';
 import {
   ensureExists,
   ensureInRange,
@@ -31,6 +37,7 @@ export class WithdrawalsService {
     private readonly notificationQueueService: NotificationQueueService,
     private readonly withdrawalsQueueService: WithdrawalsQueueService,
     private readonly blockchainService: BlockchainService,
+    private readonly appConfig: AppConfigService,
   ) {}
 
   async create(
@@ -60,6 +67,13 @@ export class WithdrawalsService {
       'Please enable two-factor authentication (2FA) in your security settings',
     );
 
+    // 2b. Frozen accounts cannot withdraw until an admin restores withdrawals
+    const { security } = await this.repo.userViewsWithdrawalSecurity({ userId: user.id });
+    ensurePermission(
+      !security.withdrawalsFrozenDate,
+      'Withdrawals are frozen for your account. Please contact support',
+    );
+
     // 3. 2FA code verification (validates user intent)
     try {
       await this.authService.api.verifyTOTP({
@@ -92,6 +106,14 @@ export class WithdrawalsService {
     const beneficiary = beneficiaries.find(b => b.id === beneficiaryId);
     ensureExists(beneficiary, 'Withdrawal address not found. Please add it first');
 
+    // 5b. Newly added beneficiaries are only usable after the cooling-off period
+    ensurePermission(
+      beneficiary.isActive,
+      beneficiary.activationDate
+        ? `This withdrawal address can be used from ${beneficiary.activationDate.toISOString()}`
+        : 'This withdrawal address is not active',
+    );
+
     // 6. Amount limits validation (min/max withdrawal amounts)
     const minAmount = parseFloat(currency.minWithdrawalAmount);
     const maxAmount = parseFloat(currency.maxWithdrawalAmount);
@@ -128,17 +150,19 @@ export class WithdrawalsService {
       `Daily withdrawal limit exceeded. You can still withdraw ${remainingLimit} today`,
     );
 
-    // 9. Pending withdrawal check (ensure no conflicting requests)
-    const { withdrawals: pendingWithdrawals } = await this.repo.userViewsWithdrawals({
-      userId: user.id,
-      page: 1,
-      limit: 1,
-      state: 'requested',
-    });
-    ensureUnique(
-      pendingWithdrawals.length === 0,
-      'You already have a pending withdrawal. Please wait for it to complete first',
-    );
+    // 9. Pending withdrawal check (ensure no conflicting requests, including ones awaiting approval)
+    for (const state of ['requested', 'pending_approval'] as const) {
+      const { withdrawals: pendingWithdrawals } = await this.repo.userViewsWithdrawals({
+        userId: user.id,
+        page: 1,
+        limit: 1,
+        state,
+      });
+      ensureUnique(
+        pendingWithdrawals.length === 0,
+        'You already have a pending withdrawal. Please wait for it to complete first',
+      );
+    }
 
     // Calculate withdrawal details with fees
     const platformFee = amount * currency.withdrawalFeeRate;
@@ -160,24 +184,42 @@ export class WithdrawalsService {
       `Amount is too small after fees. Please withdraw at least ${totalFees + 0.01}`,
     );
 
+    // 10. Risk tier: large amounts and recent beneficiaries wait for admin approval
+    const requestDate = new Date();
+    const requiredApprovals = this.getRequiredApprovals(currency, amount, beneficiary, requestDate);
+
     // Create withdrawal record (triggers handle balance debit & account mutations automatically)
     const withdrawal = await this.repo.userRequestsWithdrawal({
       beneficiaryId: String(beneficiaryId),
       currencyBlockchainKey: createWithdrawalDto.currencyBlockchainKey,
       currencyTokenId: createWithdrawalDto.currencyTokenId,
       amount: createWithdrawalDto.amount,
-      requestDate: new Date(),
+      requestDate,
+      requiredApprovals,
     });
 
-    // Queue withdrawal for blockchain processing
-    await this.withdrawalsQueueService.queueWithdrawalProcessing({
-      withdrawalId: withdrawal.id,
-      amount: createWithdrawalDto.amount,
-      currencyBlockchainKey: createWithdrawalDto.currencyBlockchainKey,
-      currencyTokenId: createWithdrawalDto.currencyTokenId,
-      beneficiaryAddress: beneficiary.address,
-      userId: user.id,
-    });
+    if (withdrawal.status === 'PendingApproval') {
+      // Admins queue it for processing once approved
+      await this.notificationQueueService.queueNotification({
+        type: 'AdminWithdrawalApprovalRequired',
+        name: 'Withdrawal Approval Required',
+        withdrawalId: withdrawal.id,
+        userId: user.id,
+        amount: createWithdrawalDto.amount,
+        requiredApprovals,
+        reviewLink: `/admin/withdrawals/${withdrawal.id}`,
+      });
+    } else {
+      // Queue withdrawal for blockchain processing
+      await this.withdrawalsQueueService.queueWithdrawalProcessing({
+        withdrawalId: withdrawal.id,
+        amount: createWithdrawalDto.amount,
+        currencyBlockchainKey: createWithdrawalDto.currencyBlockchainKey,
+        currencyTokenId: createWithdrawalDto.currencyTokenId,
+        beneficiaryAddress: beneficiary.address,
+        userId: user.id,
+      });
+    }
 
     // Send withdrawal notification
     const notificationData: SMSWithdrawalRequestedNotificationData = {
@@ -187,6 +229,7 @@ export class WithdrawalsService {
       amount: createWithdrawalDto.amount,
       withdrawalId: withdrawal.id,
       bankAccount: beneficiary.address,
+      status: withdrawal.status,
     };
     await this.notificationQueueService.queueNotification(notificationData);
 
@@ -208,7 +251,7 @@ export class WithdrawalsService {
     userId: string,
     page?: number,
     limit?: number,
-    state?: 'requested' | 'sent' | 'confirmed' | 'failed',
+    state?: 'pending_approval' | 'requested' | 'sent' | 'confirmed' | 'failed' | 'rejected',
   ): Promise<WithdrawalsListResponseDto> {
     return this.repo.userViewsWithdrawals({
       userId,
@@ -265,4 +308,34 @@ export class WithdrawalsService {
       estimatedProcessingTime: '1-3 business days',
     };
   }
+
+  /**
+   * One admin approval above the currency approval threshold or for a beneficiary created within
+   * WITHDRAWAL_APPROVAL_RECENT_BENEFICIARY_HOURS, two above the dual approval threshold
+   */
+  private getRequiredApprovals(
+    currency: Currency,
+    amount: number,
+    beneficiary: WithdrawalBeneficiaryListItem,
+    requestDate: Date,
+  ): number {
+    const { withdrawalApprovalThreshold, withdrawalDualApprovalThreshold } = currency;
+    if (
+      withdrawalDualApprovalThreshold !== null &&
+      amount > parseFloat(withdrawalDualApprovalThreshold)
+    ) {
+      return 2;
+    }
+    if (withdrawalApprovalThreshold !== null && amount > parseFloat(withdrawalApprovalThreshold)) {
+      return 1;
+    }
+
+    const { recentBeneficiaryHours } = this.appConfig.withdrawalApprovalConfig;
+    const beneficiaryAgeMs = requestDate.getTime() - beneficiary.createdDate.getTime();
+    if (beneficiaryAgeMs < recentBeneficiaryHours * 60 * 60 * 1000) {
+      return 1;
+    }
+
+    return 0;
+  }
 }
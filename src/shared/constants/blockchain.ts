@@ -6,11 +6,16 @@ export const BSC_TESTNET_KEY = 'eip155:97' as const;
 export const ETHEREUM_MAINNET_KEY = 'eip155:1' as const;
 export const ETHEREUM_LOCALNET_KEY = 'eip155:1337' as const;
 export const ETHEREUM_HOODI_KEY = 'eip155:560048' as const;
+export const POLYGON_MAINNET_KEY = 'eip155:137' as const;
+export const ARBITRUM_ONE_KEY = 'eip155:42161' as const;
 
 /** @see https://namespaces.chainagnostic.org/solana/caip10 */
 export const SOLANA_MAINNET_KEY = 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp' as const;
 export const SOLANA_DEVNET_KEY = 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1' as const;
 
+/** @see https://namespaces.chainagnostic.org/tron/caip2 */
+export const TRON_MAINNET_KEY = 'tron:0x2b6653dc' as const;
+
 /** This is a mock blockchain for testing purposes only */
 export const CG_TESTNET_KEY = 'cg:testnet' as const;
 
@@ -22,6 +27,9 @@ export type BlockchainKey =
   | typeof ETHEREUM_MAINNET_KEY
   | typeof ETHEREUM_LOCALNET_KEY
   | typeof ETHEREUM_HOODI_KEY
+  | typeof POLYGON_MAINNET_KEY
+  | typeof ARBITRUM_ONE_KEY
   | typeof SOLANA_MAINNET_KEY
   | typeof SOLANA_DEVNET_KEY
+  | typeof TRON_MAINNET_KEY
   | typeof CG_TESTNET_KEY;
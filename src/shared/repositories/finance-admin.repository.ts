@@ -3,6 +3,7 @@ import {
   assertProp,
   assertPropString,
   check,
+  isArray,
   isInstanceOf,
   isNullable,
   isNumber,
@@ -10,16 +11,63 @@ import {
 } from 'typeshaper';
 
 import {
+  AdminApprovesWithdrawalParams,
   AdminApprovesWithdrawalRefundParams,
   AdminApprovesWithdrawalRefundResult,
+  AdminApprovesWithdrawalResult,
+  AdminRejectsWithdrawalParams,
   AdminRejectsWithdrawalRefundParams,
   AdminRejectsWithdrawalRefundResult,
+  AdminRejectsWithdrawalResult,
+  AdminUnfreezesUserWithdrawalsParams,
+  AdminUnfreezesUserWithdrawalsResult,
   AdminViewsFailedWithdrawalsParams,
   AdminViewsFailedWithdrawalsResult,
+  AdminViewsPendingApprovalWithdrawalsParams,
+  AdminViewsPendingApprovalWithdrawalsResult,
+  AdminViewsUnsweptBalancesParams,
+  AdminViewsUnsweptBalancesResult,
+  AdminViewsWithdrawalApprovalParams,
+  AdminViewsWithdrawalApprovalResult,
   AdminViewsWithdrawalDetailsParams,
+  AdminWithdrawalApprovalItem,
   AdminWithdrawalDetailsResult,
 } from './finance.types';
-import { FinanceUserRepsitory } from './finance-user.repository';
+import { FinanceUserRepsitory, mapWithdrawalSecurityRow } from './finance-user.repository';
+
+function mapWithdrawalApprovalRow(row: unknown): AdminWithdrawalApprovalItem {
+  assertDefined(row, 'Withdrawal approval row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'user_id');
+  assertProp(check(isString, isNumber), row, 'amount');
+  assertPropString(row, 'currency_blockchain_key');
+  assertPropString(row, 'currency_token_id');
+  assertProp(check(isString, isNumber), row, 'beneficiary_id');
+  assertPropString(row, 'beneficiary_address');
+  assertPropString(row, 'status');
+  assertProp(isInstanceOf(Date), row, 'request_date');
+  assertProp(check(isString, isNumber), row, 'required_approvals');
+  assertProp(isArray, row, 'approver_user_ids');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'approved_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'rejected_date');
+  assertProp(check(isNullable, isString), row, 'rejection_reason');
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    amount: String(row.amount),
+    currencyBlockchainKey: row.currency_blockchain_key,
+    currencyTokenId: row.currency_token_id,
+    beneficiaryId: String(row.beneficiary_id),
+    beneficiaryAddress: row.beneficiary_address,
+    status: row.status,
+    requestDate: row.request_date,
+    requiredApprovals: Number(row.required_approvals),
+    approverUserIds: row.approver_user_ids.map(String),
+    approvedDate: row.approved_date ?? null,
+    rejectedDate: row.rejected_date ?? null,
+    rejectionReason: row.rejection_reason ?? null,
+  };
+}
 
 export abstract class FinanceAdminRepository extends FinanceUserRepsitory {
   async adminApprovesWithdrawalRefund(
@@ -350,4 +398,266 @@ export abstract class FinanceAdminRepository extends FinanceUserRepsitory {
       },
     };
   }
+
+  /**
+   * Lifts a withdrawal freeze the user triggered from a new beneficiary notification
+   */
+  async adminUnfreezesUserWithdrawals(
+    params: AdminUnfreezesUserWithdrawalsParams,
+  ): Promise<AdminUnfreezesUserWithdrawalsResult> {
+    const rows = await this.sql`
+      UPDATE users
+      SET withdrawals_frozen_date = NULL,
+        withdrawals_frozen_reason = NULL
+      WHERE id = ${params.userId}
+      RETURNING withdrawal_whitelist_locked_date, withdrawals_frozen_date, withdrawals_frozen_reason
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`User ${params.userId} not found`);
+    }
+
+    return { security: mapWithdrawalSecurityRow(rows[0]) };
+  }
+
+  /**
+   * Withdrawals waiting for admin approval, oldest request first
+   */
+  async adminViewsPendingApprovalWithdrawals(
+    params: AdminViewsPendingApprovalWithdrawalsParams,
+  ): Promise<AdminViewsPendingApprovalWithdrawalsResult> {
+    const { page = 1, limit = 20 } = params;
+    const validatedPage = Math.max(1, page);
+    const validatedLimit = Math.min(Math.max(1, limit), 100);
+    const offset = (validatedPage - 1) * validatedLimit;
+
+    const countRows = await this.sql`
+      SELECT COUNT(*) as total
+      FROM withdrawals
+      WHERE status = 'PendingApproval'
+    `;
+
+    const countRow = countRows[0] as { total: number };
+    const total = Number(countRow.total);
+
+    const rows = await this.sql`
+      SELECT
+        w.id,
+        b.user_id,
+        w.amount,
+        w.currency_blockchain_key,
+        w.currency_token_id,
+        w.beneficiary_id,
+        b.address as beneficiary_address,
+        w.status,
+        w.request_date,
+        w.required_approvals,
+        COALESCE(
+          ARRAY_AGG(wa.admin_user_id::text ORDER BY wa.decision_date) FILTER (WHERE wa.decision = 'Approved'),
+          ARRAY[]::text[]
+        ) as approver_user_ids,
+        w.approved_date,
+        w.rejected_date,
+        w.rejection_reason
+      FROM withdrawals w
+      JOIN beneficiaries b ON w.beneficiary_id = b.id
+      LEFT JOIN withdrawal_approvals wa ON wa.withdrawal_id = w.id
+      WHERE w.status = 'PendingApproval'
+      GROUP BY w.id, b.user_id, b.address
+      ORDER BY w.request_date ASC, w.id ASC
+      LIMIT ${validatedLimit} OFFSET ${offset}
+    `;
+
+    return {
+      withdrawals: rows.map(mapWithdrawalApprovalRow),
+      total,
+      page: validatedPage,
+      limit: validatedLimit,
+      totalPages: Math.ceil(total / validatedLimit),
+    };
+  }
+
+  async adminViewsWithdrawalApproval(
+    params: AdminViewsWithdrawalApprovalParams,
+  ): Promise<AdminViewsWithdrawalApprovalResult> {
+    const rows = await this.sql`
+      SELECT
+        w.id,
+        b.user_id,
+        w.amount,
+        w.currency_blockchain_key,
+        w.currency_token_id,
+        w.beneficiary_id,
+        b.address as beneficiary_address,
+        w.status,
+        w.request_date,
+        w.required_approvals,
+        COALESCE(
+          ARRAY_AGG(wa.admin_user_id::text ORDER BY wa.decision_date) FILTER (WHERE wa.decision = 'Approved'),
+          ARRAY[]::text[]
+        ) as approver_user_ids,
+        w.approved_date,
+        w.rejected_date,
+        w.rejection_reason
+      FROM withdrawals w
+      JOIN beneficiaries b ON w.beneficiary_id = b.id
+      LEFT JOIN withdrawal_approvals wa ON wa.withdrawal_id = w.id
+      WHERE w.id = ${params.withdrawalId}
+      GROUP BY w.id, b.user_id, b.address
+    `;
+
+    return { withdrawal: rows.length > 0 ? mapWithdrawalApprovalRow(rows[0]) : null };
+  }
+
+  /**
+   * Records the admin approval and moves the withdrawal to Requested once it has enough
+   * distinct approvals. Each admin decides at most once per withdrawal.
+   */
+  async adminApprovesWithdrawal(
+    params: AdminApprovesWithdrawalParams,
+  ): Promise<AdminApprovesWithdrawalResult> {
+    const { withdrawalId, adminUserId, approvalDate, notes } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const pendingRows = await tx.sql`
+        SELECT id
+        FROM withdrawals
+        WHERE id = ${withdrawalId} AND status = 'PendingApproval'
+        FOR UPDATE
+      `;
+
+      if (pendingRows.length === 0) {
+        throw new Error(`Withdrawal ${withdrawalId} is not pending approval`);
+      }
+
+      await tx.sql`
+        INSERT INTO withdrawal_approvals (withdrawal_id, admin_user_id, decision, reason, decision_date)
+        VALUES (${withdrawalId}, ${adminUserId}, 'Approved', ${notes ?? null}, ${approvalDate.toISOString()})
+      `;
+
+      await tx.sql`
+        UPDATE withdrawals
+        SET status = 'Requested',
+          approved_date = ${approvalDate.toISOString()}
+        WHERE id = ${withdrawalId}
+          AND required_approvals <= (
+            SELECT COUNT(*)
+            FROM withdrawal_approvals
+            WHERE withdrawal_id = ${withdrawalId} AND decision = 'Approved'
+          )
+      `;
+
+      await tx.commitTransaction();
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+
+    const { withdrawal } = await this.adminViewsWithdrawalApproval({ withdrawalId });
+    if (!withdrawal) {
+      throw new Error(`Withdrawal ${withdrawalId} not found`);
+    }
+    return { withdrawal };
+  }
+
+  /**
+   * A single rejection is final, the held amount is credited back by the rejection trigger
+   */
+  async adminRejectsWithdrawal(
+    params: AdminRejectsWithdrawalParams,
+  ): Promise<AdminRejectsWithdrawalResult> {
+    const { withdrawalId, adminUserId, rejectionReason, rejectionDate } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const rows = await tx.sql`
+        UPDATE withdrawals
+        SET status = 'Rejected',
+          rejected_date = ${rejectionDate.toISOString()},
+          rejection_reason = ${rejectionReason}
+        WHERE id = ${withdrawalId} AND status = 'PendingApproval'
+        RETURNING id
+      `;
+
+      if (rows.length === 0) {
+        throw new Error(`Withdrawal ${withdrawalId} is not pending approval`);
+      }
+
+      await tx.sql`
+        INSERT INTO withdrawal_approvals (withdrawal_id, admin_user_id, decision, reason, decision_date)
+        VALUES (${withdrawalId}, ${adminUserId}, 'Rejected', ${rejectionReason}, ${rejectionDate.toISOString()})
+        ON CONFLICT (withdrawal_id, admin_user_id) DO UPDATE
+        SET decision = EXCLUDED.decision,
+          reason = EXCLUDED.reason,
+          decision_date = EXCLUDED.decision_date
+      `;
+
+      await tx.commitTransaction();
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+
+    const { withdrawal } = await this.adminViewsWithdrawalApproval({ withdrawalId });
+    if (!withdrawal) {
+      throw new Error(`Withdrawal ${withdrawalId} not found`);
+    }
+    return { withdrawal };
+  }
+
+  /**
+   * Paid invoice balances not yet swept into the hot wallet, per blockchain and currency
+   */
+  async adminViewsUnsweptBalances(
+    params: AdminViewsUnsweptBalancesParams = {},
+  ): Promise<AdminViewsUnsweptBalancesResult> {
+    const { blockchainKey } = params;
+
+    const rows = await this.sql`
+      SELECT
+        inv.currency_blockchain_key,
+        inv.currency_token_id,
+        c.symbol,
+        c.decimals,
+        COUNT(*) AS invoice_count,
+        SUM(inv.paid_amount) AS unswept_amount,
+        COUNT(*) FILTER (WHERE s.status = 'Failed') AS failed_sweep_count,
+        MIN(inv.paid_date) AS oldest_paid_date
+      FROM invoices inv
+      JOIN currencies c ON c.blockchain_key = inv.currency_blockchain_key
+        AND c.token_id = inv.currency_token_id
+      LEFT JOIN invoice_sweeps s ON s.invoice_id = inv.id
+      WHERE inv.status = 'Paid'
+        AND inv.paid_amount > 0
+        AND (s.id IS NULL OR s.status IN ('Pending', 'Failed'))
+        AND (${blockchainKey}::text IS NULL OR inv.currency_blockchain_key = ${blockchainKey})
+      GROUP BY inv.currency_blockchain_key, inv.currency_token_id, c.symbol, c.decimals
+      ORDER BY inv.currency_blockchain_key, inv.currency_token_id
+    `;
+
+    return {
+      balances: rows.map(function (row: unknown) {
+        assertDefined(row, 'Unswept balance row is undefined');
+        assertPropString(row, 'currency_blockchain_key');
+        assertPropString(row, 'currency_token_id');
+        assertPropString(row, 'symbol');
+        assertProp(check(isString, isNumber), row, 'decimals');
+        assertProp(check(isString, isNumber), row, 'invoice_count');
+        assertProp(check(isString, isNumber), row, 'unswept_amount');
+        assertProp(check(isString, isNumber), row, 'failed_sweep_count');
+        assertProp(check(isNullable, isInstanceOf(Date)), row, 'oldest_paid_date');
+        return {
+          blockchainKey: row.currency_blockchain_key,
+          tokenId: row.currency_token_id,
+          symbol: row.symbol,
+          decimals: Number(row.decimals),
+          invoiceCount: Number(row.invoice_count),
+          unsweptAmount: String(row.unswept_amount),
+          failedSweepCount: Number(row.failed_sweep_count),
+          oldestPaidDate: row.oldest_paid_date ?? undefined,
+        };
+      }),
+    };
+  }
 }
@@ -15,25 +15,185 @@ import {
   ActiveInvoiceRecord,
   BlockchainDetectsInvoicePaymentParams,
   BlockchainDetectsInvoicePaymentResult,
+  InvoiceSweepRecord,
+  InvoiceSweepStatus,
+  PlatformAddsWithdrawalToBatchParams,
+  PlatformAddsWithdrawalToBatchResult,
+  PlatformClosesWithdrawalBatchParams,
+  PlatformClosesWithdrawalBatchResult,
+  PlatformCompletesInvoiceSweepParams,
+  PlatformCompletesInvoiceSweepResult,
+  PlatformConfirmsWithdrawalBatchParams,
+  PlatformConfirmsWithdrawalBatchResult,
   PlatformConfirmsWithdrawalParams,
   PlatformConfirmsWithdrawalResult,
+  PlatformFailsInvoiceSweepParams,
+  PlatformFailsInvoiceSweepResult,
+  PlatformFailsWithdrawalBatchParams,
+  PlatformFailsWithdrawalBatchResult,
   PlatformFailsWithdrawalParams,
   PlatformFailsWithdrawalResult,
   PlatformMakesWithdrawalFailureRefundRequestParams,
   PlatformMakesWithdrawalFailureRefundRequestResult,
+  PlatformOrphansIndexedBlocksParams,
+  PlatformOrphansIndexedBlocksResult,
+  PlatformRecordsIndexedBlockParams,
+  PlatformRecordsIndexedBlockResult,
+  PlatformRecordsWithdrawalFeeBumpParams,
+  PlatformRecordsWithdrawalFeeBumpResult,
   PlatformRetrievesProvisionRateResult,
+  PlatformSchedulesInvoiceSweepParams,
+  PlatformSchedulesInvoiceSweepResult,
+  PlatformSendsWithdrawalBatchParams,
+  PlatformSendsWithdrawalBatchResult,
   PlatformSendsWithdrawalParams,
   PlatformSendsWithdrawalResult,
   PlatformSetActiveButExpiredInvoiceAsExpiredParams,
   PlatformSetActiveButExpiredInvoiceAsExpiredResult,
+  PlatformStartsInvoiceSweepAttemptParams,
+  PlatformStartsInvoiceSweepAttemptResult,
   PlatformViewsActiveButExpiredInvoicesParams,
   PlatformViewsActiveButExpiredInvoicesResult,
   PlatformViewsActiveInvoicesParams,
+  PlatformViewsIndexedBlockParams,
+  PlatformViewsIndexedBlockResult,
+  PlatformViewsIndexerCheckpointParams,
+  PlatformViewsIndexerCheckpointResult,
+  PlatformViewsIndexerDispatchedPaymentsParams,
+  PlatformViewsIndexerDispatchedPaymentsResult,
+  PlatformViewsWithdrawalBatchParams,
+  PlatformViewsWithdrawalBatchResult,
+  PlatformViewsWithdrawalFeeBumpsParams,
+  PlatformViewsWithdrawalFeeBumpsResult,
   UpdateWithdrawalStatusParams,
   UpdateWithdrawalStatusResult,
+  WithdrawalBatchItem,
+  WithdrawalBatchRecord,
+  WithdrawalBatchStatus,
+  WithdrawalFeeBumpRecord,
 } from './finance.types';
 import { FinanceAdminRepository } from './finance-admin.repository';
 
+function mapIndexedBlockRow(row: unknown) {
+  assertDefined(row, 'Indexed block row is undefined');
+  assertProp(check(isString, isNumber), row, 'block_number');
+  assertPropString(row, 'block_hash');
+  return {
+    blockNumber: Number(row.block_number),
+    blockHash: row.block_hash,
+  };
+}
+
+function mapInvoiceSweepRow(row: unknown): InvoiceSweepRecord {
+  assertDefined(row, 'Invoice sweep row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'invoice_id');
+  assertPropString(row, 'currency_blockchain_key');
+  assertPropString(row, 'currency_token_id');
+  assertPropString(row, 'wallet_address');
+  assertPropString(row, 'wallet_derivation_path');
+  assertPropString(row, 'status');
+  assertProp(check(isString, isNumber), row, 'attempt_count');
+  assertProp(check(isNullable, isString, isNumber), row, 'swept_amount');
+  assertPropNullableString(row, 'sweep_hash');
+  assertPropNullableString(row, 'gas_funding_hash');
+  assertProp(check(isNullable, isString, isNumber), row, 'gas_funding_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'fee_amount');
+  assertPropNullableString(row, 'failure_reason');
+  assertProp(isInstanceOf(Date), row, 'requested_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'last_attempt_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'completed_date');
+  return {
+    id: String(row.id),
+    invoiceId: String(row.invoice_id),
+    blockchainKey: row.currency_blockchain_key,
+    tokenId: row.currency_token_id,
+    walletAddress: row.wallet_address,
+    walletDerivationPath: row.wallet_derivation_path,
+    status: row.status as InvoiceSweepStatus,
+    attemptCount: Number(row.attempt_count),
+    sweptAmount: row.swept_amount === null ? undefined : String(row.swept_amount),
+    sweepHash: row.sweep_hash ?? undefined,
+    gasFundingHash: row.gas_funding_hash ?? undefined,
+    gasFundingAmount: row.gas_funding_amount === null ? undefined : String(row.gas_funding_amount),
+    feeAmount: row.fee_amount === null ? undefined : String(row.fee_amount),
+    failureReason: row.failure_reason ?? undefined,
+    requestedDate: row.requested_date,
+    lastAttemptDate: row.last_attempt_date ?? undefined,
+    completedDate: row.completed_date ?? undefined,
+  };
+}
+
+function mapWithdrawalFeeBumpRow(row: unknown): WithdrawalFeeBumpRecord {
+  assertDefined(row, 'Withdrawal fee bump row is undefined');
+  assertProp(check(isString, isNumber), row, 'withdrawal_id');
+  assertPropString(row, 'replaced_hash');
+  assertPropString(row, 'replacement_hash');
+  assertProp(check(isString, isNumber), row, 'network_fee');
+  assertProp(isInstanceOf(Date), row, 'bumped_date');
+  return {
+    withdrawalId: String(row.withdrawal_id),
+    replacedHash: row.replaced_hash,
+    replacementHash: row.replacement_hash,
+    networkFee: String(row.network_fee),
+    bumpedDate: row.bumped_date,
+  };
+}
+
+function mapWithdrawalBatchItemRow(row: unknown): WithdrawalBatchItem {
+  assertDefined(row, 'Withdrawal batch item row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'user_id');
+  assertProp(check(isString, isNumber), row, 'amount');
+  assertPropString(row, 'address');
+  assertPropString(row, 'status');
+  assertProp(check(isNullable, isString, isNumber), row, 'sent_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'network_fee_share');
+  return {
+    withdrawalId: String(row.id),
+    userId: String(row.user_id),
+    amount: String(row.amount),
+    beneficiaryAddress: row.address,
+    status: row.status,
+    sentAmount: row.sent_amount === null ? undefined : String(row.sent_amount),
+    networkFeeShare: row.network_fee_share === null ? undefined : String(row.network_fee_share),
+  };
+}
+
+function mapWithdrawalBatchRow(
+  row: unknown,
+  withdrawals: WithdrawalBatchItem[],
+): WithdrawalBatchRecord {
+  assertDefined(row, 'Withdrawal batch row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertPropString(row, 'currency_blockchain_key');
+  assertPropString(row, 'currency_token_id');
+  assertPropString(row, 'status');
+  assertPropNullableString(row, 'sent_hash');
+  assertProp(check(isNullable, isString, isNumber), row, 'network_fee');
+  assertPropNullableString(row, 'failure_reason');
+  assertProp(isInstanceOf(Date), row, 'opened_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'closed_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'sent_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'confirmed_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'failed_date');
+  return {
+    id: String(row.id),
+    blockchainKey: row.currency_blockchain_key,
+    tokenId: row.currency_token_id,
+    status: row.status as WithdrawalBatchStatus,
+    sentHash: row.sent_hash ?? undefined,
+    networkFee: row.network_fee === null ? undefined : String(row.network_fee),
+    failureReason: row.failure_reason ?? undefined,
+    openedDate: row.opened_date,
+    closedDate: row.closed_date ?? undefined,
+    sentDate: row.sent_date ?? undefined,
+    confirmedDate: row.confirmed_date ?? undefined,
+    failedDate: row.failed_date ?? undefined,
+    withdrawals,
+  };
+}
+
 export abstract class FinancePlatformRepository extends FinanceAdminRepository {
   async platformViewsActiveInvoices(
     params: PlatformViewsActiveInvoicesParams = {},
@@ -347,13 +507,14 @@ export abstract class FinancePlatformRepository extends FinanceAdminRepository {
   async platformConfirmsWithdrawal(
     params: PlatformConfirmsWithdrawalParams,
   ): Promise<PlatformConfirmsWithdrawalResult> {
-    const { withdrawalId, confirmedDate } = params;
+    const { withdrawalId, confirmedDate, sentHash } = params;
 
     const tx = await this.beginTransaction();
     try {
       const rows = await this.sql`
         UPDATE withdrawals
         SET confirmed_date = ${confirmedDate.toISOString()},
+            sent_hash = COALESCE(${sentHash ?? null}, sent_hash),
             status = 'Confirmed'
         WHERE id = ${withdrawalId} AND status = 'Sent'
         RETURNING id, status, confirmed_date
@@ -423,6 +584,310 @@ export abstract class FinancePlatformRepository extends FinanceAdminRepository {
     }
   }
 
+  /**
+   * Puts a requested withdrawal in the open batch of its currency, opening one when there is none.
+   * Adding a withdrawal that is already in a batch returns that batch, so retried jobs are not batched twice.
+   */
+  async platformAddsWithdrawalToBatch(
+    params: PlatformAddsWithdrawalToBatchParams,
+  ): Promise<PlatformAddsWithdrawalToBatchResult> {
+    const { withdrawalId, addedDate } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const withdrawalRows = await tx.sql`
+        SELECT id, currency_blockchain_key, currency_token_id, status, batch_id
+        FROM withdrawals
+        WHERE id = ${withdrawalId}
+        FOR UPDATE
+      `;
+
+      const withdrawal = withdrawalRows[0];
+      if (!withdrawal) {
+        throw new Error(`Withdrawal ${withdrawalId} not found`);
+      }
+      assertPropString(withdrawal, 'currency_blockchain_key');
+      assertPropString(withdrawal, 'currency_token_id');
+      assertPropString(withdrawal, 'status');
+      assertProp(check(isNullable, isString, isNumber), withdrawal, 'batch_id');
+
+      if (withdrawal.batch_id !== null) {
+        await tx.commitTransaction();
+        return {
+          batch: await this.#selectWithdrawalBatch(String(withdrawal.batch_id)),
+          opened: false,
+        };
+      }
+
+      if (withdrawal.status !== 'Requested') {
+        throw new Error(
+          `Withdrawal ${withdrawalId} cannot be batched in status ${withdrawal.status}`,
+        );
+      }
+
+      const openedRows = await tx.sql`
+        INSERT INTO withdrawal_batches (currency_blockchain_key, currency_token_id, opened_date)
+        VALUES (
+          ${withdrawal.currency_blockchain_key},
+          ${withdrawal.currency_token_id},
+          ${addedDate.toISOString()}
+        )
+        ON CONFLICT (currency_blockchain_key, currency_token_id) WHERE status = 'Open' DO NOTHING
+        RETURNING id
+      `;
+
+      const batchRows =
+        openedRows.length > 0
+          ? openedRows
+          : await tx.sql`
+              SELECT id
+              FROM withdrawal_batches
+              WHERE currency_blockchain_key = ${withdrawal.currency_blockchain_key}
+                AND currency_token_id = ${withdrawal.currency_token_id}
+                AND status = 'Open'
+            `;
+
+      const batchRow = batchRows[0];
+      if (!batchRow) {
+        throw new Error(`No open withdrawal batch for ${withdrawal.currency_blockchain_key}`);
+      }
+      assertProp(check(isString, isNumber), batchRow, 'id');
+
+      await tx.sql`
+        UPDATE withdrawals
+        SET batch_id = ${batchRow.id}
+        WHERE id = ${withdrawalId}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        batch: await this.#selectWithdrawalBatch(String(batchRow.id)),
+        opened: openedRows.length > 0,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformViewsWithdrawalBatch(
+    params: PlatformViewsWithdrawalBatchParams,
+  ): Promise<PlatformViewsWithdrawalBatchResult> {
+    const rows = await this.sql`
+      SELECT id FROM withdrawal_batches WHERE id = ${params.batchId}
+    `;
+
+    if (rows.length === 0) {
+      return {};
+    }
+
+    return { batch: await this.#selectWithdrawalBatch(params.batchId) };
+  }
+
+  /**
+   * Stops the batch from collecting withdrawals so it can be sent; later withdrawals open a new batch
+   */
+  async platformClosesWithdrawalBatch(
+    params: PlatformClosesWithdrawalBatchParams,
+  ): Promise<PlatformClosesWithdrawalBatchResult> {
+    const { batchId, closedDate } = params;
+
+    const rows = await this.sql`
+      UPDATE withdrawal_batches
+      SET status = 'Closed',
+        closed_date = ${closedDate.toISOString()}
+      WHERE id = ${batchId} AND status = 'Open'
+      RETURNING id
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`Withdrawal batch ${batchId} not found or already closed`);
+    }
+
+    return { batch: await this.#selectWithdrawalBatch(batchId) };
+  }
+
+  async platformSendsWithdrawalBatch(
+    params: PlatformSendsWithdrawalBatchParams,
+  ): Promise<PlatformSendsWithdrawalBatchResult> {
+    const { batchId, sentHash, networkFee, sentDate, withdrawals } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const batchRows = await tx.sql`
+        UPDATE withdrawal_batches
+        SET status = 'Sent',
+          sent_hash = ${sentHash},
+          network_fee = ${networkFee},
+          sent_date = ${sentDate.toISOString()}
+        WHERE id = ${batchId} AND status = 'Closed'
+        RETURNING id
+      `;
+
+      if (batchRows.length === 0) {
+        throw new Error(`Withdrawal batch ${batchId} not found or not closed`);
+      }
+
+      for (const withdrawal of withdrawals) {
+        const rows = await tx.sql`
+          UPDATE withdrawals
+          SET sent_amount = ${withdrawal.sentAmount},
+            sent_hash = ${sentHash},
+            sent_date = ${sentDate.toISOString()},
+            network_fee_share = ${withdrawal.networkFeeShare},
+            status = 'Sent'
+          WHERE id = ${withdrawal.withdrawalId} AND batch_id = ${batchId} AND status = 'Requested'
+          RETURNING id
+        `;
+
+        if (rows.length === 0) {
+          throw new Error(
+            `Withdrawal ${withdrawal.withdrawalId} is not a requested withdrawal of batch ${batchId}`,
+          );
+        }
+      }
+
+      await tx.commitTransaction();
+
+      return { batch: await this.#selectWithdrawalBatch(batchId) };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformConfirmsWithdrawalBatch(
+    params: PlatformConfirmsWithdrawalBatchParams,
+  ): Promise<PlatformConfirmsWithdrawalBatchResult> {
+    const { batchId, confirmedDate, sentHash } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const batchRows = await tx.sql`
+        UPDATE withdrawal_batches
+        SET status = 'Confirmed',
+          sent_hash = COALESCE(${sentHash ?? null}, sent_hash),
+          confirmed_date = ${confirmedDate.toISOString()}
+        WHERE id = ${batchId} AND status = 'Sent'
+        RETURNING id
+      `;
+
+      if (batchRows.length === 0) {
+        throw new Error(`Withdrawal batch ${batchId} not found or not sent`);
+      }
+
+      await tx.sql`
+        UPDATE withdrawals
+        SET confirmed_date = ${confirmedDate.toISOString()},
+          sent_hash = COALESCE(${sentHash ?? null}, sent_hash),
+          status = 'Confirmed'
+        WHERE batch_id = ${batchId} AND status = 'Sent'
+      `;
+
+      await tx.commitTransaction();
+
+      return { batch: await this.#selectWithdrawalBatch(batchId) };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformFailsWithdrawalBatch(
+    params: PlatformFailsWithdrawalBatchParams,
+  ): Promise<PlatformFailsWithdrawalBatchResult> {
+    const { batchId, failedDate, failureReason } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const batchRows = await tx.sql`
+        UPDATE withdrawal_batches
+        SET status = 'Failed',
+          failure_reason = ${failureReason},
+          failed_date = ${failedDate.toISOString()}
+        WHERE id = ${batchId} AND status IN ('Open', 'Closed', 'Sent')
+        RETURNING id
+      `;
+
+      if (batchRows.length === 0) {
+        throw new Error(`Withdrawal batch ${batchId} not found or already settled`);
+      }
+
+      await tx.sql`
+        UPDATE withdrawals
+        SET failed_date = ${failedDate.toISOString()},
+          failure_reason = ${failureReason},
+          status = 'Failed'
+        WHERE batch_id = ${batchId} AND status IN ('Requested', 'Sent')
+      `;
+
+      await tx.commitTransaction();
+
+      return { batch: await this.#selectWithdrawalBatch(batchId) };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * Records a replacement of a pending withdrawal transaction. The withdrawals keep their sent_hash
+   * until one of the transactions confirms.
+   */
+  async platformRecordsWithdrawalFeeBump(
+    params: PlatformRecordsWithdrawalFeeBumpParams,
+  ): Promise<PlatformRecordsWithdrawalFeeBumpResult> {
+    const { withdrawalIds, replacedHash, replacementHash, networkFee, bumpedDate } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const feeBumps: WithdrawalFeeBumpRecord[] = [];
+
+      for (const withdrawalId of withdrawalIds) {
+        const rows = await tx.sql`
+          INSERT INTO withdrawal_fee_bumps (
+            withdrawal_id,
+            replaced_hash,
+            replacement_hash,
+            network_fee,
+            bumped_date
+          )
+          SELECT id, ${replacedHash}, ${replacementHash}, ${networkFee}, ${bumpedDate.toISOString()}
+          FROM withdrawals
+          WHERE id = ${withdrawalId} AND status = 'Sent'
+          RETURNING withdrawal_id, replaced_hash, replacement_hash, network_fee, bumped_date
+        `;
+
+        if (rows.length === 0) {
+          throw new Error(`Withdrawal ${withdrawalId} not found or not sent`);
+        }
+
+        feeBumps.push(mapWithdrawalFeeBumpRow(rows[0]));
+      }
+
+      await tx.commitTransaction();
+
+      return { feeBumps };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformViewsWithdrawalFeeBumps(
+    params: PlatformViewsWithdrawalFeeBumpsParams,
+  ): Promise<PlatformViewsWithdrawalFeeBumpsResult> {
+    const rows = await this.sql`
+      SELECT withdrawal_id, replaced_hash, replacement_hash, network_fee, bumped_date
+      FROM withdrawal_fee_bumps
+      WHERE withdrawal_id = ${params.withdrawalId}
+      ORDER BY bumped_date, id
+    `;
+
+    return { feeBumps: rows.map(mapWithdrawalFeeBumpRow) };
+  }
+
   // Platform Configuration Methods
   async platformRetrievesProvisionRate(): Promise<PlatformRetrievesProvisionRateResult> {
     const rows = await this.sql`
@@ -507,4 +972,358 @@ export abstract class FinancePlatformRepository extends FinanceAdminRepository {
       throw error;
     }
   }
+
+  async platformViewsIndexerCheckpoint(
+    params: PlatformViewsIndexerCheckpointParams,
+  ): Promise<PlatformViewsIndexerCheckpointResult> {
+    const rows = await this.sql`
+      SELECT block_number, block_hash
+      FROM indexer_checkpoints
+      WHERE blockchain_key = ${params.blockchainKey}
+    `;
+
+    return {
+      checkpoint: rows.length > 0 ? mapIndexedBlockRow(rows[0]) : undefined,
+    };
+  }
+
+  async platformViewsIndexedBlock(
+    params: PlatformViewsIndexedBlockParams,
+  ): Promise<PlatformViewsIndexedBlockResult> {
+    const rows = await this.sql`
+      SELECT block_number, block_hash
+      FROM indexer_blocks
+      WHERE blockchain_key = ${params.blockchainKey} AND block_number = ${params.blockNumber}
+    `;
+
+    return {
+      block: rows.length > 0 ? mapIndexedBlockRow(rows[0]) : undefined,
+    };
+  }
+
+  async platformViewsIndexerDispatchedPayments(
+    params: PlatformViewsIndexerDispatchedPaymentsParams,
+  ): Promise<PlatformViewsIndexerDispatchedPaymentsResult> {
+    if (params.paymentHashes.length === 0) {
+      return { payments: [] };
+    }
+
+    const rows = await this.sql`
+      SELECT payment_hash, block_number, block_hash, orphaned_date
+      FROM indexer_dispatched_payments
+      WHERE blockchain_key = ${params.blockchainKey}
+        AND payment_hash = ANY(${params.paymentHashes})
+    `;
+
+    return {
+      payments: rows.map(function (row: unknown) {
+        assertDefined(row, 'Dispatched payment row is undefined');
+        assertPropString(row, 'payment_hash');
+        assertProp(check(isNullable, isInstanceOf(Date)), row, 'orphaned_date');
+        return {
+          ...mapIndexedBlockRow(row),
+          paymentHash: row.payment_hash,
+          orphanedDate: row.orphaned_date,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Records a processed block, the payments dispatched from it and moves the checkpoint forward.
+   * Payments found again after a reorg are re-attached to their new block and lose their orphaned flag.
+   */
+  async platformRecordsIndexedBlock(
+    params: PlatformRecordsIndexedBlockParams,
+  ): Promise<PlatformRecordsIndexedBlockResult> {
+    const { blockchainKey, blockNumber, blockHash, paymentHashes, processedDate } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      await tx.sql`
+        INSERT INTO indexer_blocks (blockchain_key, block_number, block_hash, processed_date)
+        VALUES (${blockchainKey}, ${blockNumber}, ${blockHash}, ${processedDate.toISOString()})
+        ON CONFLICT (blockchain_key, block_number) DO UPDATE SET
+          block_hash = EXCLUDED.block_hash,
+          processed_date = EXCLUDED.processed_date
+      `;
+
+      for (const paymentHash of paymentHashes) {
+        await tx.sql`
+          INSERT INTO indexer_dispatched_payments (
+            blockchain_key,
+            payment_hash,
+            block_number,
+            block_hash,
+            dispatched_date
+          )
+          VALUES (
+            ${blockchainKey},
+            ${paymentHash},
+            ${blockNumber},
+            ${blockHash},
+            ${processedDate.toISOString()}
+          )
+          ON CONFLICT (blockchain_key, payment_hash) DO UPDATE SET
+            block_number = EXCLUDED.block_number,
+            block_hash = EXCLUDED.block_hash,
+            orphaned_date = NULL
+        `;
+      }
+
+      const rows = await tx.sql`
+        INSERT INTO indexer_checkpoints (blockchain_key, block_number, block_hash, updated_date)
+        VALUES (${blockchainKey}, ${blockNumber}, ${blockHash}, ${processedDate.toISOString()})
+        ON CONFLICT (blockchain_key) DO UPDATE SET
+          block_number = EXCLUDED.block_number,
+          block_hash = EXCLUDED.block_hash,
+          updated_date = EXCLUDED.updated_date
+        RETURNING block_number, block_hash
+      `;
+
+      await tx.sql`
+        DELETE FROM indexer_blocks
+        WHERE blockchain_key = ${blockchainKey}
+          AND block_number <= ${blockNumber - params.retainedBlockCount}
+      `;
+
+      await tx.commitTransaction();
+
+      return { checkpoint: mapIndexedBlockRow(rows[0]) };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * Rewinds the indexer to a block that is still canonical after a reorg replaced the blocks above it.
+   * Payments dispatched from the replaced blocks are flagged orphaned, processing the replacement
+   * blocks clears the flag of every payment that made it into them.
+   */
+  async platformOrphansIndexedBlocks(
+    params: PlatformOrphansIndexedBlocksParams,
+  ): Promise<PlatformOrphansIndexedBlocksResult> {
+    const { blockchainKey, checkpoint, orphanedDate } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const orphanedRows = await tx.sql`
+        UPDATE indexer_dispatched_payments
+        SET orphaned_date = ${orphanedDate.toISOString()}
+        WHERE blockchain_key = ${blockchainKey}
+          AND block_number > ${checkpoint.blockNumber}
+          AND orphaned_date IS NULL
+        RETURNING payment_hash, block_number, block_hash
+      `;
+
+      await tx.sql`
+        DELETE FROM indexer_blocks
+        WHERE blockchain_key = ${blockchainKey} AND block_number > ${checkpoint.blockNumber}
+      `;
+
+      await tx.sql`
+        UPDATE indexer_checkpoints
+        SET block_number = ${checkpoint.blockNumber},
+          block_hash = ${checkpoint.blockHash},
+          updated_date = ${orphanedDate.toISOString()}
+        WHERE blockchain_key = ${blockchainKey}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        orphanedPayments: orphanedRows.map(function (row: unknown) {
+          assertDefined(row, 'Orphaned payment row is undefined');
+          assertPropString(row, 'payment_hash');
+          return {
+            ...mapIndexedBlockRow(row),
+            paymentHash: row.payment_hash,
+          };
+        }),
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * Records a sweep for the invoice of a wallet once it is paid.
+   * Scheduling again returns the existing sweep, so retried payment jobs do not sweep twice.
+   */
+  async platformSchedulesInvoiceSweep(
+    params: PlatformSchedulesInvoiceSweepParams,
+  ): Promise<PlatformSchedulesInvoiceSweepResult> {
+    const { walletAddress, requestedDate } = params;
+
+    const rows = await this.sql`
+      WITH paid_invoice AS (
+        SELECT id
+        FROM invoices
+        WHERE id = (SELECT id FROM invoices WHERE wallet_address = ${walletAddress} ORDER BY id LIMIT 1)
+          AND status = 'Paid'
+      ), inserted_sweep AS (
+        INSERT INTO invoice_sweeps (invoice_id, requested_date)
+        SELECT id, ${requestedDate.toISOString()} FROM paid_invoice
+        ON CONFLICT (invoice_id) DO NOTHING
+        RETURNING id
+      )
+      SELECT s.id
+      FROM invoice_sweeps s
+      WHERE s.invoice_id = (SELECT id FROM paid_invoice)
+      UNION ALL
+      SELECT id FROM inserted_sweep
+    `;
+
+    const sweepRow = rows[0];
+    if (!sweepRow) {
+      return {};
+    }
+    assertProp(check(isString, isNumber), sweepRow, 'id');
+
+    return { sweep: await this.#selectInvoiceSweep(String(sweepRow.id)) };
+  }
+
+  async platformStartsInvoiceSweepAttempt(
+    params: PlatformStartsInvoiceSweepAttemptParams,
+  ): Promise<PlatformStartsInvoiceSweepAttemptResult> {
+    const { sweepId, attemptDate } = params;
+
+    const rows = await this.sql`
+      UPDATE invoice_sweeps
+      SET attempt_count = attempt_count + 1,
+        last_attempt_date = ${attemptDate.toISOString()}
+      WHERE id = ${sweepId}
+      RETURNING id
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`Invoice sweep ${sweepId} not found`);
+    }
+
+    return { sweep: await this.#selectInvoiceSweep(sweepId) };
+  }
+
+  async platformCompletesInvoiceSweep(
+    params: PlatformCompletesInvoiceSweepParams,
+  ): Promise<PlatformCompletesInvoiceSweepResult> {
+    const {
+      sweepId,
+      status,
+      sweptAmount,
+      sweepHash,
+      gasFundingHash,
+      gasFundingAmount,
+      feeAmount,
+      completedDate,
+    } = params;
+
+    const rows = await this.sql`
+      UPDATE invoice_sweeps
+      SET status = ${status},
+        swept_amount = ${sweptAmount ?? null},
+        sweep_hash = ${sweepHash ?? null},
+        gas_funding_hash = COALESCE(${gasFundingHash ?? null}, gas_funding_hash),
+        gas_funding_amount = COALESCE(${gasFundingAmount ?? null}, gas_funding_amount),
+        fee_amount = ${feeAmount ?? null},
+        failure_reason = NULL,
+        completed_date = ${completedDate.toISOString()}
+      WHERE id = ${sweepId}
+      RETURNING id
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`Invoice sweep ${sweepId} not found`);
+    }
+
+    return { sweep: await this.#selectInvoiceSweep(sweepId) };
+  }
+
+  async platformFailsInvoiceSweep(
+    params: PlatformFailsInvoiceSweepParams,
+  ): Promise<PlatformFailsInvoiceSweepResult> {
+    const { sweepId, failureReason, failedDate } = params;
+
+    const rows = await this.sql`
+      UPDATE invoice_sweeps
+      SET status = 'Failed',
+        failure_reason = ${failureReason},
+        last_attempt_date = ${failedDate.toISOString()}
+      WHERE id = ${sweepId} AND status IN ('Pending', 'Failed')
+      RETURNING id
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`Invoice sweep ${sweepId} not found or already completed`);
+    }
+
+    return { sweep: await this.#selectInvoiceSweep(sweepId) };
+  }
+
+  async #selectInvoiceSweep(sweepId: string): Promise<InvoiceSweepRecord> {
+    const rows = await this.sql`
+      SELECT
+        s.id,
+        s.invoice_id,
+        inv.currency_blockchain_key,
+        inv.currency_token_id,
+        inv.wallet_address,
+        inv.wallet_derivation_path,
+        s.status,
+        s.attempt_count,
+        s.swept_amount,
+        s.sweep_hash,
+        s.gas_funding_hash,
+        s.gas_funding_amount,
+        s.fee_amount,
+        s.failure_reason,
+        s.requested_date,
+        s.last_attempt_date,
+        s.completed_date
+      FROM invoice_sweeps s
+      JOIN invoices inv ON inv.id = s.invoice_id
+      WHERE s.id = ${sweepId}
+    `;
+
+    return mapInvoiceSweepRow(rows[0]);
+  }
+
+  async #selectWithdrawalBatch(batchId: string): Promise<WithdrawalBatchRecord> {
+    const [batchRows, withdrawalRows] = await Promise.all([
+      this.sql`
+        SELECT
+          id,
+          currency_blockchain_key,
+          currency_token_id,
+          status,
+          sent_hash,
+          network_fee,
+          failure_reason,
+          opened_date,
+          closed_date,
+          sent_date,
+          confirmed_date,
+          failed_date
+        FROM withdrawal_batches
+        WHERE id = ${batchId}
+      `,
+      this.sql`
+        SELECT
+          w.id,
+          b.user_id,
+          w.amount,
+          b.address,
+          w.status,
+          w.sent_amount,
+          w.network_fee_share
+        FROM withdrawals w
+        JOIN beneficiaries b ON b.id = w.beneficiary_id
+        WHERE w.batch_id = ${batchId}
+        ORDER BY w.id
+      `,
+    ]);
+
+    return mapWithdrawalBatchRow(batchRows[0], withdrawalRows.map(mapWithdrawalBatchItemRow));
+  }
 }
@@ -316,7 +316,7 @@ export abstract class FinanceTestRepository extends FinancePlatformRepository {
       AND w.currency_blockchain_key = ${currencyBlockchainKey}
       AND w.currency_token_id = ${currencyTokenId}
       AND w.request_date >= CURRENT_DATE
-      AND w.status NOT IN ('Failed', 'RefundApproved')
+      AND w.status NOT IN ('Failed', 'RefundApproved', 'Rejected')
     `;
 
     const result = todayWithdrawals[0] as { total_amount: string };
@@ -16,6 +16,10 @@ import {
   AssetAllocation,
   PortfolioAnalyticsResult,
   PortfolioOverviewResult,
+  UserFreezesWithdrawalsParams,
+  UserFreezesWithdrawalsResult,
+  UserLocksWithdrawalWhitelistParams,
+  UserLocksWithdrawalWhitelistResult,
   UserRegistersWithdrawalBeneficiaryParams,
   UserRegistersWithdrawalBeneficiaryResult,
   UserRequestsWithdrawalParams,
@@ -24,6 +28,8 @@ import {
   UserRetrievesAccountBalancesResult,
   UserRetrievesPortfolioAnalyticsParams,
   UserRetrievesPortfolioOverviewParams,
+  UserUnlocksWithdrawalWhitelistParams,
+  UserUnlocksWithdrawalWhitelistResult,
   UserViewsAccountTransactionHistoryParams,
   UserViewsAccountTransactionHistoryResult,
   UserViewsBlockchainsParams,
@@ -36,11 +42,26 @@ import {
   UserViewsWithdrawalBeneficiariesResult,
   UserViewsWithdrawalDetailsParams,
   UserViewsWithdrawalDetailsResult,
+  UserViewsWithdrawalSecurityParams,
+  UserViewsWithdrawalSecurityResult,
   UserViewsWithdrawalsParams,
   UserViewsWithdrawalsResult,
+  WithdrawalSecurityStatus,
 } from './finance.types';
 import { UserRepository } from './user.repository';
 
+export function mapWithdrawalSecurityRow(row: unknown): WithdrawalSecurityStatus {
+  assertDefined(row, 'Withdrawal security row is undefined');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'withdrawal_whitelist_locked_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'withdrawals_frozen_date');
+  assertPropNullableString(row, 'withdrawals_frozen_reason');
+  return {
+    whitelistLockedDate: row.withdrawal_whitelist_locked_date ?? null,
+    withdrawalsFrozenDate: row.withdrawals_frozen_date ?? null,
+    withdrawalsFrozenReason: row.withdrawals_frozen_reason ?? null,
+  };
+}
+
 export abstract class FinanceUserRepsitory extends UserRepository {
   // Account & Balance Management Methods
   async userRetrievesAccountBalances(
@@ -274,6 +295,7 @@ export abstract class FinanceUserRepsitory extends UserRepository {
   async userRequestsWithdrawal(
     params: UserRequestsWithdrawalParams,
   ): Promise<UserRequestsWithdrawalResult> {
+    const requiredApprovals = params.requiredApprovals ?? 0;
     const tx = await this.beginTransaction();
     try {
       const rows = await tx.sql`
@@ -284,7 +306,8 @@ export abstract class FinanceUserRepsitory extends UserRepository {
           amount,
           request_amount,
           request_date,
-          status
+          status,
+          required_approvals
         )
         VALUES (
           ${params.beneficiaryId},
@@ -293,7 +316,8 @@ export abstract class FinanceUserRepsitory extends UserRepository {
           ${params.amount},
           ${params.amount},
           ${params.requestDate.toISOString()},
-          'Requested'
+          ${requiredApprovals > 0 ? 'PendingApproval' : 'Requested'},
+          ${requiredApprovals}
         )
         RETURNING
           id,
@@ -301,7 +325,8 @@ export abstract class FinanceUserRepsitory extends UserRepository {
           amount,
           request_amount AS "requestAmount",
           status,
-          request_date AS "requestDate"
+          request_date AS "requestDate",
+          required_approvals AS "requiredApprovals"
       `;
 
       assertArrayMapOf(rows, function (row) {
@@ -312,11 +337,13 @@ export abstract class FinanceUserRepsitory extends UserRepository {
         assertProp(check(isString, isNumber), row, 'requestAmount');
         assertPropString(row, 'status');
         assertProp(isInstanceOf(Date), row, 'requestDate');
+        assertProp(check(isString, isNumber), row, 'requiredApprovals');
 
         setPropValue(row, 'id', String(row.id));
         setPropValue(row, 'beneficiaryId', String(row.beneficiaryId));
         setPropValue(row, 'amount', String(row.amount));
         setPropValue(row, 'requestAmount', String(row.requestAmount));
+        setPropValue(row, 'requiredApprovals', Number(row.requiredApprovals));
         return row;
       });
 
@@ -339,19 +366,22 @@ export abstract class FinanceUserRepsitory extends UserRepository {
           user_id,
           blockchain_key,
           address,
-          verified_date
+          verified_date,
+          activation_date
         )
         VALUES (
           ${params.userId},
           ${params.blockchainKey},
           ${params.address},
-          NOW()
+          NOW(),
+          COALESCE(${params.activationDate?.toISOString() ?? null}::timestamp, NOW())
         )
         RETURNING
           id,
           user_id AS "userId",
           blockchain_key AS "blockchainKey",
-          address
+          address,
+          activation_date AS "activationDate"
       `;
 
       assertArrayMapOf(rows, function (row) {
@@ -360,6 +390,7 @@ export abstract class FinanceUserRepsitory extends UserRepository {
         assertProp(check(isString, isNumber), row, 'userId');
         assertPropString(row, 'blockchainKey');
         assertPropString(row, 'address');
+        assertProp(check(isNullable, isInstanceOf(Date)), row, 'activationDate');
 
         setPropValue(row, 'id', Number(row.id));
         setPropValue(row, 'userId', String(row.userId));
@@ -387,6 +418,7 @@ export abstract class FinanceUserRepsitory extends UserRepository {
         b.label,
         b.created_date AS "createdDate",
         b.verified_date AS "verifiedDate",
+        b.activation_date AS "activationDate",
         bc.key AS "blockchain_key",
         bc.name AS "blockchain_name",
         bc.short_name AS "blockchain_short_name",
@@ -406,6 +438,7 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       assertProp(check(isNullable, isString), row, 'label');
       assertProp(isInstanceOf(Date), row, 'createdDate');
       assertProp(check(isNullable, isInstanceOf(Date)), row, 'verifiedDate');
+      assertProp(check(isNullable, isInstanceOf(Date)), row, 'activationDate');
       assertPropString(row, 'blockchain_key');
       assertPropString(row, 'blockchain_name');
       assertPropString(row, 'blockchain_short_name');
@@ -414,7 +447,14 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       setPropValue(row, 'id', Number(row.id));
       setPropValue(row, 'userId', String(row.userId));
       setPropValue(row, 'verifiedDate', row.verifiedDate || null);
-      setPropValue(row, 'isActive', row.verifiedDate !== null);
+      setPropValue(row, 'activationDate', row.activationDate || null);
+      setPropValue(
+        row,
+        'isActive',
+        row.verifiedDate !== null &&
+          row.activationDate instanceof Date &&
+          row.activationDate.getTime() <= Date.now(),
+      );
       setPropValue(row, 'blockchain', {
         key: row.blockchain_key,
         name: row.blockchain_name,
@@ -429,6 +469,102 @@ export abstract class FinanceUserRepsitory extends UserRepository {
     };
   }
 
+  async userViewsWithdrawalSecurity(
+    params: UserViewsWithdrawalSecurityParams,
+  ): Promise<UserViewsWithdrawalSecurityResult> {
+    const rows = await this.sql`
+      SELECT withdrawal_whitelist_locked_date, withdrawals_frozen_date, withdrawals_frozen_reason
+      FROM users
+      WHERE id = ${params.userId}
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`User ${params.userId} not found`);
+    }
+
+    return { security: mapWithdrawalSecurityRow(rows[0]) };
+  }
+
+  /**
+   * Whitelist-only mode: withdrawals stay allowed to existing beneficiaries, new ones cannot be added
+   */
+  async userLocksWithdrawalWhitelist(
+    params: UserLocksWithdrawalWhitelistParams,
+  ): Promise<UserLocksWithdrawalWhitelistResult> {
+    const rows = await this.sql`
+      UPDATE users
+      SET withdrawal_whitelist_locked_date = COALESCE(
+        withdrawal_whitelist_locked_date,
+        ${params.lockedDate.toISOString()}
+      )
+      WHERE id = ${params.userId}
+      RETURNING withdrawal_whitelist_locked_date, withdrawals_frozen_date, withdrawals_frozen_reason
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`User ${params.userId} not found`);
+    }
+
+    return { security: mapWithdrawalSecurityRow(rows[0]) };
+  }
+
+  async userUnlocksWithdrawalWhitelist(
+    params: UserUnlocksWithdrawalWhitelistParams,
+  ): Promise<UserUnlocksWithdrawalWhitelistResult> {
+    const rows = await this.sql`
+      UPDATE users
+      SET withdrawal_whitelist_locked_date = NULL
+      WHERE id = ${params.userId}
+      RETURNING withdrawal_whitelist_locked_date, withdrawals_frozen_date, withdrawals_frozen_reason
+    `;
+
+    if (rows.length === 0) {
+      throw new Error(`User ${params.userId} not found`);
+    }
+
+    return { security: mapWithdrawalSecurityRow(rows[0]) };
+  }
+
+  /**
+   * Freezes withdrawals of the account after the user reported activity they did not perform.
+   * The reported beneficiary loses its activation date so it stays unusable after an admin unfreezes the account.
+   */
+  async userFreezesWithdrawals(
+    params: UserFreezesWithdrawalsParams,
+  ): Promise<UserFreezesWithdrawalsResult> {
+    const { userId, reportedBeneficiaryId, frozenDate, reason } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      const rows = await tx.sql`
+        UPDATE users
+        SET withdrawals_frozen_date = COALESCE(withdrawals_frozen_date, ${frozenDate.toISOString()}),
+          withdrawals_frozen_reason = COALESCE(withdrawals_frozen_reason, ${reason})
+        WHERE id = ${userId}
+        RETURNING withdrawal_whitelist_locked_date, withdrawals_frozen_date, withdrawals_frozen_reason
+      `;
+
+      if (rows.length === 0) {
+        throw new Error(`User ${userId} not found`);
+      }
+
+      if (reportedBeneficiaryId !== undefined) {
+        await tx.sql`
+          UPDATE beneficiaries
+          SET activation_date = NULL
+          WHERE id = ${reportedBeneficiaryId} AND user_id = ${userId}
+        `;
+      }
+
+      await tx.commitTransaction();
+
+      return { security: mapWithdrawalSecurityRow(rows[0]) };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
   // Currency Management Methods
   async userViewsCurrencies(params: UserViewsCurrenciesParams): Promise<UserViewsCurrenciesResult> {
     const type = params.type ?? 'all';
@@ -445,6 +581,8 @@ export abstract class FinanceUserRepsitory extends UserRepository {
         c.min_withdrawal_amount AS "minWithdrawalAmount",
         c.max_withdrawal_amount AS "maxWithdrawalAmount",
         c.max_daily_withdrawal_amount AS "maxDailyWithdrawalAmount",
+        c.withdrawal_approval_threshold AS "withdrawalApprovalThreshold",
+        c.withdrawal_dual_approval_threshold AS "withdrawalDualApprovalThreshold",
         c.min_loan_principal_amount AS "minLoanPrincipalAmount",
         c.max_loan_principal_amount AS "maxLoanPrincipalAmount",
         c.max_ltv AS "maxLtv",
@@ -486,6 +624,8 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       assertProp(check(isString, isNumber), row, 'minWithdrawalAmount');
       assertProp(check(isString, isNumber), row, 'maxWithdrawalAmount');
       assertProp(check(isString, isNumber), row, 'maxDailyWithdrawalAmount');
+      assertProp(check(isNullable, isString, isNumber), row, 'withdrawalApprovalThreshold');
+      assertProp(check(isNullable, isString, isNumber), row, 'withdrawalDualApprovalThreshold');
       assertProp(check(isString, isNumber), row, 'minLoanPrincipalAmount');
       assertProp(check(isString, isNumber), row, 'maxLoanPrincipalAmount');
       assertProp(check(isString, isNumber), row, 'maxLtv');
@@ -515,6 +655,18 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       setPropValue(row, 'minWithdrawalAmount', String(row.minWithdrawalAmount));
       setPropValue(row, 'maxWithdrawalAmount', String(row.maxWithdrawalAmount));
       setPropValue(row, 'maxDailyWithdrawalAmount', String(row.maxDailyWithdrawalAmount));
+      setPropValue(
+        row,
+        'withdrawalApprovalThreshold',
+        row.withdrawalApprovalThreshold === null ? null : String(row.withdrawalApprovalThreshold),
+      );
+      setPropValue(
+        row,
+        'withdrawalDualApprovalThreshold',
+        row.withdrawalDualApprovalThreshold === null
+          ? null
+          : String(row.withdrawalDualApprovalThreshold),
+      );
       setPropValue(row, 'withdrawalFeeRate', Number(row.withdrawalFeeRate));
       setPropValue(row, 'blockchain', {
         key: row.blockchainKey_ref,
@@ -544,10 +696,13 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       JOIN beneficiaries b ON w.beneficiary_id = b.id
       WHERE b.user_id = ${params.userId}
         AND (${params.state}::text IS NULL OR
-          (${params.state} = 'requested' AND w.request_date IS NOT NULL AND w.sent_date IS NULL) OR
+          (${params.state} = 'pending_approval' AND w.status = 'PendingApproval') OR
+          (${params.state} = 'requested' AND w.request_date IS NOT NULL AND w.sent_date IS NULL
+            AND w.status NOT IN ('PendingApproval', 'Rejected')) OR
           (${params.state} = 'sent' AND w.sent_date IS NOT NULL AND w.confirmed_date IS NULL AND w.failed_date IS NULL) OR
           (${params.state} = 'confirmed' AND w.confirmed_date IS NOT NULL) OR
-          (${params.state} = 'failed' AND w.failed_date IS NOT NULL)
+          (${params.state} = 'failed' AND w.failed_date IS NOT NULL) OR
+          (${params.state} = 'rejected' AND w.status = 'Rejected')
         )
     `;
 
@@ -596,10 +751,13 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       LEFT JOIN blockchains bc ON b.blockchain_key = bc.key
       WHERE b.user_id = ${params.userId}
         AND (${params.state}::text IS NULL OR
-          (${params.state} = 'requested' AND w.request_date IS NOT NULL AND w.sent_date IS NULL) OR
+          (${params.state} = 'pending_approval' AND w.status = 'PendingApproval') OR
+          (${params.state} = 'requested' AND w.request_date IS NOT NULL AND w.sent_date IS NULL
+            AND w.status NOT IN ('PendingApproval', 'Rejected')) OR
           (${params.state} = 'sent' AND w.sent_date IS NOT NULL AND w.confirmed_date IS NULL AND w.failed_date IS NULL) OR
           (${params.state} = 'confirmed' AND w.confirmed_date IS NOT NULL) OR
-          (${params.state} = 'failed' AND w.failed_date IS NOT NULL)
+          (${params.state} = 'failed' AND w.failed_date IS NOT NULL) OR
+          (${params.state} = 'rejected' AND w.status = 'Rejected')
         )
       ORDER BY w.request_date DESC
       LIMIT ${validatedLimit}
@@ -645,13 +803,17 @@ export abstract class FinanceUserRepsitory extends UserRepository {
         : null;
 
       let calculatedState: string;
-      // Check status first for refund-related states
+      // Check status first for approval and refund-related states
       if (
+        row.status === 'PendingApproval' ||
+        row.status === 'Rejected' ||
         row.status === 'RefundRequested' ||
         row.status === 'RefundApproved' ||
         row.status === 'RefundRejected'
       ) {
         const statusToStateMap: Record<string, string> = {
+          PendingApproval: 'pending_approval',
+          Rejected: 'rejected',
           RefundRequested: 'refund_requested',
           RefundApproved: 'refund_approved',
           RefundRejected: 'refund_rejected',
@@ -822,13 +984,17 @@ export abstract class FinanceUserRepsitory extends UserRepository {
         : null;
 
       let calculatedState: string;
-      // Check status first for refund-related states
+      // Check status first for approval and refund-related states
       if (
+        row.status === 'PendingApproval' ||
+        row.status === 'Rejected' ||
         row.status === 'RefundRequested' ||
         row.status === 'RefundApproved' ||
         row.status === 'RefundRejected'
       ) {
         const statusToStateMap: Record<string, string> = {
+          PendingApproval: 'pending_approval',
+          Rejected: 'rejected',
           RefundRequested: 'refund_requested',
           RefundApproved: 'refund_approved',
           RefundRejected: 'refund_rejected',
@@ -1028,12 +1194,12 @@ export abstract class FinanceUserRepsitory extends UserRepository {
         SELECT
           COUNT(*) as total_loans,
           COUNT(*) FILTER (WHERE la.borrower_user_id = ${params.userId}) as borrower_loans,
-          COUNT(*) FILTER (WHERE lo.lender_user_id = ${params.userId}) as lender_loans,
+          COUNT(*) FILTER (WHERE lp.lender_user_id = ${params.userId}) as lender_loans,
           COALESCE(SUM(l.collateral_amount) FILTER (WHERE la.borrower_user_id = ${params.userId}), 0) as total_collateral
         FROM loans l
         JOIN loan_applications la ON l.loan_application_id = la.id
-        JOIN loan_offers lo ON l.loan_offer_id = lo.id
-        WHERE (la.borrower_user_id = ${params.userId} OR lo.lender_user_id = ${params.userId})
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        WHERE (la.borrower_user_id = ${params.userId} OR lp.lender_user_id = ${params.userId})
           AND l.status IN ('Active', 'Originated')
       `;
 
@@ -1168,6 +1334,8 @@ export abstract class FinanceUserRepsitory extends UserRepository {
           minWithdrawalAmount: '0',
           maxWithdrawalAmount: '0',
           maxDailyWithdrawalAmount: '0',
+          withdrawalApprovalThreshold: null,
+          withdrawalDualApprovalThreshold: null,
           withdrawalFeeRate: 0,
           blockchain: {
             key: account.currencyBlockchainKey,
@@ -1267,6 +1435,8 @@ export abstract class FinanceUserRepsitory extends UserRepository {
           minWithdrawalAmount: '0',
           maxWithdrawalAmount: '0',
           maxDailyWithdrawalAmount: '0',
+          withdrawalApprovalThreshold: null,
+          withdrawalDualApprovalThreshold: null,
           withdrawalFeeRate: 0,
           blockchain: {
             key: 'crosschain',
@@ -1303,7 +1473,9 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       'eip155:1': 'https://etherscan.io/tx/',
       'eip155:56': 'https://bscscan.com/tx/',
       'eip155:137': 'https://polygonscan.com/tx/',
+      'eip155:42161': 'https://arbiscan.io/tx/',
       'eip155:43114': 'https://snowtrace.io/tx/',
+      'tron:0x2b6653dc': 'https://tronscan.org/#/transaction/',
     };
 
     const baseUrl = explorerUrls[blockchainKey];
@@ -1315,7 +1487,9 @@ export abstract class FinanceUserRepsitory extends UserRepository {
       'eip155:1': '15-30 minutes',
       'eip155:56': '5-10 minutes',
       'eip155:137': '2-5 minutes',
+      'eip155:42161': '1-5 minutes',
       'eip155:43114': '3-10 minutes',
+      'tron:0x2b6653dc': '1-2 minutes',
     };
 
     return estimationMap[blockchainKey] || '15-30 minutes';
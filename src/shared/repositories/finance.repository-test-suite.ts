@@ -1332,6 +1332,392 @@ export async function runFinanceRepositoryTestSuite(
         equal(result.status, 'RefundRequested');
         equal(result.failureRefundRequestedDate?.getTime(), refundRequestDate.getTime());
       });
+
+      it('should keep a beneficiary inactive until its activation date', async function () {
+        const userCreationResult = await repo.testCreatesUsers({
+          users: [{ email: 'coolingoff@test.com', name: 'Cooling Off User' }],
+        });
+        const userId = userCreationResult.users[0].id;
+        const activationDate = new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+        const registered = await repo.userRegistersWithdrawalBeneficiary({
+          userId,
+          blockchainKey: 'eip155:56',
+          address: '0xc234567890123456789012345678901234567890',
+          activationDate,
+        });
+        await repo.userRegistersWithdrawalBeneficiary({
+          userId,
+          blockchainKey: 'bip122:000000000019d6689c085ae165831e93',
+          address: 'bc1qcoolingoff2kgdygjrsqtzq2n0yrf2493p83kk',
+        });
+
+        equal(registered.activationDate?.getTime(), activationDate.getTime());
+
+        const { beneficiaries } = await repo.userViewsWithdrawalBeneficiaries({ userId });
+        const pending = beneficiaries.find(beneficiary => beneficiary.id === registered.id);
+        const active = beneficiaries.find(beneficiary => beneficiary.id !== registered.id);
+
+        equal(pending?.isActive, false);
+        equal(active?.isActive, true);
+      });
+
+      it('should lock and unlock the withdrawal whitelist', async function () {
+        const userCreationResult = await repo.testCreatesUsers({
+          users: [{ email: 'whitelist@test.com', name: 'Whitelist User' }],
+        });
+        const userId = userCreationResult.users[0].id;
+        const lockedDate = new Date('2024-01-01T10:00:00Z');
+
+        const locked = await repo.userLocksWithdrawalWhitelist({ userId, lockedDate });
+        equal(locked.security.whitelistLockedDate?.getTime(), lockedDate.getTime());
+
+        const unlocked = await repo.userUnlocksWithdrawalWhitelist({ userId });
+        equal(unlocked.security.whitelistLockedDate, null);
+      });
+
+      it('should freeze withdrawals and deactivate the reported beneficiary', async function () {
+        const userCreationResult = await repo.testCreatesUsers({
+          users: [{ email: 'freeze@test.com', name: 'Freeze User' }],
+        });
+        const userId = userCreationResult.users[0].id;
+        const frozenDate = new Date('2024-01-01T10:00:00Z');
+
+        const reported = await repo.userRegistersWithdrawalBeneficiary({
+          userId,
+          blockchainKey: 'eip155:56',
+          address: '0xd234567890123456789012345678901234567890',
+        });
+
+        const frozen = await repo.userFreezesWithdrawals({
+          userId,
+          reportedBeneficiaryId: String(reported.id),
+          frozenDate,
+          reason: 'User reported beneficiary',
+        });
+
+        equal(frozen.security.withdrawalsFrozenDate?.getTime(), frozenDate.getTime());
+        equal(frozen.security.withdrawalsFrozenReason, 'User reported beneficiary');
+
+        const { beneficiaries } = await repo.userViewsWithdrawalBeneficiaries({ userId });
+        equal(beneficiaries[0].activationDate, null);
+        equal(beneficiaries[0].isActive, false);
+
+        const unfrozen = await repo.adminUnfreezesUserWithdrawals({ userId });
+        equal(unfrozen.security.withdrawalsFrozenDate, null);
+        equal(unfrozen.security.withdrawalsFrozenReason, null);
+      });
+
+      it('should require distinct admin approvals before a withdrawal is requested', async function () {
+        const userCreationResult = await repo.testCreatesUsers({
+          users: [
+            { email: 'approvaluser@test.com', name: 'Approval User' },
+            { email: 'approver1@test.com', name: 'Approver 1', role: 'Admin' },
+            { email: 'approver2@test.com', name: 'Approver 2', role: 'Admin' },
+          ],
+        });
+        const userId = userCreationResult.users[0].id;
+        const firstAdminId = userCreationResult.users[1].id;
+        const secondAdminId = userCreationResult.users[2].id;
+
+        const accountResult = await repo.testCreatesUserAccount({
+          userId,
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+          accountType: 'User',
+        });
+        await repo.testCreatesAccountMutations({
+          accountId: accountResult.id,
+          mutations: [
+            {
+              mutationType: 'InvoiceReceived',
+              mutationDate: '2024-01-01T09:00:00Z',
+              amount: '3000000',
+            },
+          ],
+        });
+
+        const beneficiaryResult = await repo.userRegistersWithdrawalBeneficiary({
+          userId,
+          blockchainKey: 'eip155:56',
+          address: '0xe234567890123456789012345678901234567890',
+        });
+
+        const withdrawalResult = await repo.userRequestsWithdrawal({
+          beneficiaryId: String(beneficiaryResult.id),
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+          amount: '1500000',
+          requestDate: new Date('2024-01-01T10:00:00Z'),
+          requiredApprovals: 2,
+        });
+        equal(withdrawalResult.status, 'PendingApproval');
+        equal(withdrawalResult.requiredApprovals, 2);
+
+        const pending = await repo.adminViewsPendingApprovalWithdrawals({});
+        equal(pending.total, 1);
+        equal(pending.withdrawals[0].id, String(withdrawalResult.id));
+
+        const firstApproval = await repo.adminApprovesWithdrawal({
+          withdrawalId: withdrawalResult.id,
+          adminUserId: firstAdminId,
+          approvalDate: new Date('2024-01-01T11:00:00Z'),
+        });
+        equal(firstApproval.withdrawal.status, 'PendingApproval');
+        equal(firstApproval.withdrawal.approverUserIds.join(','), String(firstAdminId));
+
+        let duplicateApprovalThrown = false;
+        try {
+          await repo.adminApprovesWithdrawal({
+            withdrawalId: withdrawalResult.id,
+            adminUserId: firstAdminId,
+            approvalDate: new Date('2024-01-01T11:30:00Z'),
+          });
+        } catch {
+          duplicateApprovalThrown = true;
+        }
+        ok(duplicateApprovalThrown, 'Expected error for a second approval by the same admin');
+
+        const secondApproval = await repo.adminApprovesWithdrawal({
+          withdrawalId: withdrawalResult.id,
+          adminUserId: secondAdminId,
+          approvalDate: new Date('2024-01-01T12:00:00Z'),
+        });
+        equal(secondApproval.withdrawal.status, 'Requested');
+        equal(
+          secondApproval.withdrawal.approvedDate?.getTime(),
+          new Date('2024-01-01T12:00:00Z').getTime(),
+        );
+      });
+
+      it('should credit the held amount back when a withdrawal is rejected', async function () {
+        const userCreationResult = await repo.testCreatesUsers({
+          users: [
+            { email: 'rejecteduser@test.com', name: 'Rejected User' },
+            { email: 'rejector@test.com', name: 'Rejector', role: 'Admin' },
+          ],
+        });
+        const userId = userCreationResult.users[0].id;
+        const adminUserId = userCreationResult.users[1].id;
+
+        const accountResult = await repo.testCreatesUserAccount({
+          userId,
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+          accountType: 'User',
+        });
+        await repo.testCreatesAccountMutations({
+          accountId: accountResult.id,
+          mutations: [
+            {
+              mutationType: 'InvoiceReceived',
+              mutationDate: '2024-01-01T09:00:00Z',
+              amount: '3000000',
+            },
+          ],
+        });
+
+        const beneficiaryResult = await repo.userRegistersWithdrawalBeneficiary({
+          userId,
+          blockchainKey: 'eip155:56',
+          address: '0xf234567890123456789012345678901234567890',
+        });
+
+        const withdrawalResult = await repo.userRequestsWithdrawal({
+          beneficiaryId: String(beneficiaryResult.id),
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+          amount: '1500000',
+          requestDate: new Date('2024-01-01T10:00:00Z'),
+          requiredApprovals: 1,
+        });
+
+        const rejected = await repo.adminRejectsWithdrawal({
+          withdrawalId: withdrawalResult.id,
+          adminUserId,
+          rejectionReason: 'Unverified destination',
+          rejectionDate: new Date('2024-01-01T11:00:00Z'),
+        });
+        equal(rejected.withdrawal.status, 'Rejected');
+        equal(rejected.withdrawal.rejectionReason, 'Unverified destination');
+
+        const { accounts } = await repo.userRetrievesAccountBalances({ userId });
+        equal(accounts[0].balance, '3000000');
+
+        const { withdrawal } = await repo.userViewsWithdrawalDetails({
+          userId,
+          withdrawalId: withdrawalResult.id,
+        });
+        equal(withdrawal?.state, 'rejected');
+      });
+
+      it('should send and confirm batched withdrawals together with one hash', async function () {
+        const userCreationResult = await repo.testCreatesUsers({
+          users: [{ email: 'batchuser@test.com', name: 'Batch User' }],
+        });
+        const userId = userCreationResult.users[0].id;
+
+        const accountResult = await repo.testCreatesUserAccount({
+          userId,
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+          accountType: 'User',
+        });
+        await repo.testCreatesAccountMutations({
+          accountId: accountResult.id,
+          mutations: [
+            {
+              mutationType: 'InvoiceReceived',
+              mutationDate: '2024-01-01T09:00:00Z',
+              amount: '3000000',
+            },
+          ],
+        });
+
+        const withdrawalIds: string[] = [];
+        for (const address of [
+          '0x1134567890123456789012345678901234567890',
+          '0x2234567890123456789012345678901234567890',
+        ]) {
+          const beneficiaryResult = await repo.userRegistersWithdrawalBeneficiary({
+            userId,
+            blockchainKey: 'eip155:56',
+            address,
+          });
+          const withdrawalResult = await repo.userRequestsWithdrawal({
+            beneficiaryId: String(beneficiaryResult.id),
+            currencyBlockchainKey: 'eip155:56',
+            currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+            amount: '1000000',
+            requestDate: new Date('2024-01-01T10:00:00Z'),
+          });
+          withdrawalIds.push(String(withdrawalResult.id));
+        }
+
+        const first = await repo.platformAddsWithdrawalToBatch({
+          withdrawalId: withdrawalIds[0],
+          addedDate: new Date('2024-01-01T10:01:00Z'),
+        });
+        equal(first.opened, true);
+
+        const second = await repo.platformAddsWithdrawalToBatch({
+          withdrawalId: withdrawalIds[1],
+          addedDate: new Date('2024-01-01T10:02:00Z'),
+        });
+        equal(second.opened, false);
+        equal(second.batch.id, first.batch.id);
+        equal(second.batch.withdrawals.length, 2);
+
+        const retried = await repo.platformAddsWithdrawalToBatch({
+          withdrawalId: withdrawalIds[0],
+          addedDate: new Date('2024-01-01T10:03:00Z'),
+        });
+        equal(retried.opened, false);
+        equal(retried.batch.withdrawals.length, 2);
+
+        const closed = await repo.platformClosesWithdrawalBatch({
+          batchId: first.batch.id,
+          closedDate: new Date('2024-01-01T10:10:00Z'),
+        });
+        equal(closed.batch.status, 'Closed');
+
+        const sent = await repo.platformSendsWithdrawalBatch({
+          batchId: first.batch.id,
+          sentHash: '0xbatchhash',
+          networkFee: '0.0012',
+          sentDate: new Date('2024-01-01T10:11:00Z'),
+          withdrawals: withdrawalIds.map(withdrawalId => ({
+            withdrawalId,
+            sentAmount: '999000',
+            networkFeeShare: '1000',
+          })),
+        });
+        equal(sent.batch.status, 'Sent');
+        equal(sent.batch.sentHash, '0xbatchhash');
+        equal(sent.batch.withdrawals.filter(item => item.status === 'Sent').length, 2);
+
+        const confirmed = await repo.platformConfirmsWithdrawalBatch({
+          batchId: first.batch.id,
+          confirmedDate: new Date('2024-01-01T10:30:00Z'),
+        });
+        equal(confirmed.batch.status, 'Confirmed');
+
+        for (const withdrawalId of withdrawalIds) {
+          const { withdrawal } = await repo.userViewsWithdrawalDetails({ userId, withdrawalId });
+          equal(withdrawal?.state, 'confirmed');
+          equal(withdrawal?.sentHash, '0xbatchhash');
+        }
+      });
+
+      it('should record fee bumps and confirm with the replacement hash', async function () {
+        const userCreationResult = await repo.testCreatesUsers({
+          users: [{ email: 'feebumpuser@test.com', name: 'Fee Bump User' }],
+        });
+        const userId = userCreationResult.users[0].id;
+
+        const accountResult = await repo.testCreatesUserAccount({
+          userId,
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+          accountType: 'User',
+        });
+        await repo.testCreatesAccountMutations({
+          accountId: accountResult.id,
+          mutations: [
+            {
+              mutationType: 'InvoiceReceived',
+              mutationDate: '2024-01-01T09:00:00Z',
+              amount: '2000000',
+            },
+          ],
+        });
+
+        const beneficiaryResult = await repo.userRegistersWithdrawalBeneficiary({
+          userId,
+          blockchainKey: 'eip155:56',
+          address: '0x3334567890123456789012345678901234567890',
+        });
+        const withdrawalResult = await repo.userRequestsWithdrawal({
+          beneficiaryId: String(beneficiaryResult.id),
+          currencyBlockchainKey: 'eip155:56',
+          currencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+          amount: '1000000',
+          requestDate: new Date('2024-01-01T10:00:00Z'),
+        });
+        const withdrawalId = String(withdrawalResult.id);
+
+        await repo.platformSendsWithdrawal({
+          withdrawalId,
+          sentAmount: '999000',
+          sentHash: '0xstuckhash',
+          sentDate: new Date('2024-01-01T10:01:00Z'),
+        });
+
+        const bumped = await repo.platformRecordsWithdrawalFeeBump({
+          withdrawalIds: [withdrawalId],
+          replacedHash: '0xstuckhash',
+          replacementHash: '0xreplacementhash',
+          networkFee: '0.0003',
+          bumpedDate: new Date('2024-01-01T11:01:00Z'),
+        });
+        equal(bumped.feeBumps.length, 1);
+        equal(bumped.feeBumps[0].replacementHash, '0xreplacementhash');
+
+        const { feeBumps } = await repo.platformViewsWithdrawalFeeBumps({ withdrawalId });
+        equal(feeBumps.length, 1);
+        equal(feeBumps[0].replacedHash, '0xstuckhash');
+        equal(Number(feeBumps[0].networkFee), 0.0003);
+
+        await repo.platformConfirmsWithdrawal({
+          withdrawalId,
+          confirmedDate: new Date('2024-01-01T11:30:00Z'),
+          sentHash: '0xreplacementhash',
+        });
+
+        const { withdrawal } = await repo.userViewsWithdrawalDetails({ userId, withdrawalId });
+        equal(withdrawal?.state, 'confirmed');
+        equal(withdrawal?.sentHash, '0xreplacementhash');
+      });
     });
 
     describe('Portfolio Analytics', function () {
@@ -1553,5 +1939,117 @@ export async function runFinanceRepositoryTestSuite(
         }
       });
     });
+
+    describe('Indexer Checkpoints', function () {
+      const blockchainKey = 'eip155:1';
+
+      it('should checkpoint processed blocks and remember dispatched payments', async function () {
+        const before = await repo.platformViewsIndexerCheckpoint({ blockchainKey });
+        equal(before.checkpoint, undefined);
+
+        await repo.platformRecordsIndexedBlock({
+          blockchainKey,
+          blockNumber: 100,
+          blockHash: '0xblock100',
+          paymentHashes: ['0xpayment1'],
+          processedDate: new Date('2025-01-01T00:00:00Z'),
+          retainedBlockCount: 2,
+        });
+        const result = await repo.platformRecordsIndexedBlock({
+          blockchainKey,
+          blockNumber: 101,
+          blockHash: '0xblock101',
+          paymentHashes: [],
+          processedDate: new Date('2025-01-01T00:00:12Z'),
+          retainedBlockCount: 2,
+        });
+
+        equal(result.checkpoint.blockNumber, 101);
+        equal(result.checkpoint.blockHash, '0xblock101');
+
+        const { checkpoint } = await repo.platformViewsIndexerCheckpoint({ blockchainKey });
+        equal(checkpoint?.blockNumber, 101);
+
+        const { block } = await repo.platformViewsIndexedBlock({ blockchainKey, blockNumber: 100 });
+        equal(block?.blockHash, '0xblock100');
+
+        const { payments } = await repo.platformViewsIndexerDispatchedPayments({
+          blockchainKey,
+          paymentHashes: ['0xpayment1', '0xpayment2'],
+        });
+        equal(payments.length, 1);
+        equal(payments[0].paymentHash, '0xpayment1');
+        equal(payments[0].blockNumber, 100);
+        equal(payments[0].orphanedDate, null);
+      });
+
+      it('should prune block hashes past the retained window', async function () {
+        for (const blockNumber of [10, 11, 12]) {
+          await repo.platformRecordsIndexedBlock({
+            blockchainKey,
+            blockNumber,
+            blockHash: `0xblock${blockNumber}`,
+            paymentHashes: [],
+            processedDate: new Date('2025-01-01T00:00:00Z'),
+            retainedBlockCount: 2,
+          });
+        }
+
+        const pruned = await repo.platformViewsIndexedBlock({ blockchainKey, blockNumber: 10 });
+        equal(pruned.block, undefined);
+
+        const retained = await repo.platformViewsIndexedBlock({ blockchainKey, blockNumber: 11 });
+        equal(retained.block?.blockHash, '0xblock11');
+      });
+
+      it('should flag payments from orphaned blocks and clear the flag when they are found again', async function () {
+        for (const blockNumber of [200, 201, 202]) {
+          await repo.platformRecordsIndexedBlock({
+            blockchainKey,
+            blockNumber,
+            blockHash: `0xblock${blockNumber}`,
+            paymentHashes: [`0xpayment${blockNumber}`],
+            processedDate: new Date('2025-01-01T00:00:00Z'),
+            retainedBlockCount: 10,
+          });
+        }
+
+        const { orphanedPayments } = await repo.platformOrphansIndexedBlocks({
+          blockchainKey,
+          checkpoint: { blockNumber: 200, blockHash: '0xblock200' },
+          orphanedDate: new Date('2025-01-01T00:01:00Z'),
+        });
+
+        equal(orphanedPayments.length, 2);
+        ok(orphanedPayments.some(payment => payment.paymentHash === '0xpayment201'));
+        ok(orphanedPayments.some(payment => payment.paymentHash === '0xpayment202'));
+
+        const { checkpoint } = await repo.platformViewsIndexerCheckpoint({ blockchainKey });
+        equal(checkpoint?.blockNumber, 200);
+
+        const { block } = await repo.platformViewsIndexedBlock({ blockchainKey, blockNumber: 201 });
+        equal(block, undefined);
+
+        // The replacement block includes one of the orphaned payments again
+        await repo.platformRecordsIndexedBlock({
+          blockchainKey,
+          blockNumber: 201,
+          blockHash: '0xblock201b',
+          paymentHashes: ['0xpayment202'],
+          processedDate: new Date('2025-01-01T00:02:00Z'),
+          retainedBlockCount: 10,
+        });
+
+        const { payments } = await repo.platformViewsIndexerDispatchedPayments({
+          blockchainKey,
+          paymentHashes: ['0xpayment201', '0xpayment202'],
+        });
+        const reincluded = payments.find(payment => payment.paymentHash === '0xpayment202');
+        const orphaned = payments.find(payment => payment.paymentHash === '0xpayment201');
+        equal(reincluded?.orphanedDate, null);
+        equal(reincluded?.blockHash, '0xblock201b');
+        ok(orphaned?.orphanedDate instanceof Date);
+      });
+    });
   });
 }
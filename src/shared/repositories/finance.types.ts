@@ -164,6 +164,7 @@ export interface UserRegistersWithdrawalBeneficiaryParams {
   userId: string;
   blockchainKey: string;
   address: string;
+  activationDate?: Date; // defaults to the verification date, no cooling-off
 }
 
 export interface UserRegistersWithdrawalBeneficiaryResult {
@@ -171,6 +172,57 @@ export interface UserRegistersWithdrawalBeneficiaryResult {
   userId: string;
   blockchainKey: string;
   address: string;
+  activationDate: Date | null;
+}
+
+export interface WithdrawalSecurityStatus {
+  whitelistLockedDate: Date | null;
+  withdrawalsFrozenDate: Date | null;
+  withdrawalsFrozenReason: string | null;
+}
+
+export interface UserViewsWithdrawalSecurityParams {
+  userId: string;
+}
+
+export interface UserViewsWithdrawalSecurityResult {
+  security: WithdrawalSecurityStatus;
+}
+
+export interface UserLocksWithdrawalWhitelistParams {
+  userId: string;
+  lockedDate: Date;
+}
+
+export interface UserLocksWithdrawalWhitelistResult {
+  security: WithdrawalSecurityStatus;
+}
+
+export interface UserUnlocksWithdrawalWhitelistParams {
+  userId: string;
+}
+
+export interface UserUnlocksWithdrawalWhitelistResult {
+  security: WithdrawalSecurityStatus;
+}
+
+export interface UserFreezesWithdrawalsParams {
+  userId: string;
+  reportedBeneficiaryId?: string; // beneficiary the user did not add, never becomes active
+  frozenDate: Date;
+  reason: string;
+}
+
+export interface UserFreezesWithdrawalsResult {
+  security: WithdrawalSecurityStatus;
+}
+
+export interface AdminUnfreezesUserWithdrawalsParams {
+  userId: string;
+}
+
+export interface AdminUnfreezesUserWithdrawalsResult {
+  security: WithdrawalSecurityStatus;
 }
 
 export interface UserRequestsWithdrawalParams {
@@ -179,6 +231,7 @@ export interface UserRequestsWithdrawalParams {
   currencyTokenId: string;
   amount: string;
   requestDate: Date;
+  requiredApprovals?: number; // withdrawal starts in PendingApproval when above 0
 }
 
 export interface UserRequestsWithdrawalResult {
@@ -188,6 +241,7 @@ export interface UserRequestsWithdrawalResult {
   requestAmount: string;
   status: string;
   requestDate: Date;
+  requiredApprovals: number;
 }
 
 // Split withdrawal processing methods based on specific actions
@@ -209,6 +263,7 @@ export interface PlatformSendsWithdrawalResult {
 export interface PlatformConfirmsWithdrawalParams {
   withdrawalId: string;
   confirmedDate: Date;
+  sentHash?: string; // fee bump replacement that confirmed instead of the sent transaction
 }
 
 export interface PlatformConfirmsWithdrawalResult {
@@ -230,6 +285,127 @@ export interface PlatformFailsWithdrawalResult {
   failureReason: string;
 }
 
+// Withdrawal Batch Types
+export type WithdrawalBatchStatus = 'Open' | 'Closed' | 'Sent' | 'Confirmed' | 'Failed';
+
+export interface WithdrawalBatchItem {
+  withdrawalId: string;
+  userId: string;
+  amount: string;
+  beneficiaryAddress: string;
+  status: string;
+  sentAmount?: string;
+  networkFeeShare?: string;
+}
+
+export interface WithdrawalBatchRecord {
+  id: string;
+  blockchainKey: string;
+  tokenId: string;
+  status: WithdrawalBatchStatus;
+  sentHash?: string;
+  networkFee?: string;
+  failureReason?: string;
+  openedDate: Date;
+  closedDate?: Date;
+  sentDate?: Date;
+  confirmedDate?: Date;
+  failedDate?: Date;
+  withdrawals: WithdrawalBatchItem[];
+}
+
+export interface PlatformAddsWithdrawalToBatchParams {
+  withdrawalId: string;
+  addedDate: Date;
+}
+
+export interface PlatformAddsWithdrawalToBatchResult {
+  batch: WithdrawalBatchRecord;
+  opened: boolean; // true when the withdrawal opened a new batch, which then needs a close job
+}
+
+export interface PlatformViewsWithdrawalBatchParams {
+  batchId: string;
+}
+
+export interface PlatformViewsWithdrawalBatchResult {
+  batch?: WithdrawalBatchRecord;
+}
+
+export interface PlatformClosesWithdrawalBatchParams {
+  batchId: string;
+  closedDate: Date;
+}
+
+export interface PlatformClosesWithdrawalBatchResult {
+  batch: WithdrawalBatchRecord;
+}
+
+export interface PlatformSendsWithdrawalBatchParams {
+  batchId: string;
+  sentHash: string;
+  networkFee: string;
+  sentDate: Date;
+  withdrawals: {
+    withdrawalId: string;
+    sentAmount: string;
+    networkFeeShare: string;
+  }[];
+}
+
+export interface PlatformSendsWithdrawalBatchResult {
+  batch: WithdrawalBatchRecord;
+}
+
+export interface PlatformConfirmsWithdrawalBatchParams {
+  batchId: string;
+  confirmedDate: Date;
+  sentHash?: string; // fee bump replacement that confirmed instead of the sent transaction
+}
+
+export interface PlatformConfirmsWithdrawalBatchResult {
+  batch: WithdrawalBatchRecord;
+}
+
+export interface PlatformFailsWithdrawalBatchParams {
+  batchId: string;
+  failedDate: Date;
+  failureReason: string;
+}
+
+export interface PlatformFailsWithdrawalBatchResult {
+  batch: WithdrawalBatchRecord;
+}
+
+// Withdrawal Fee Bump Types
+export interface WithdrawalFeeBumpRecord {
+  withdrawalId: string;
+  replacedHash: string;
+  replacementHash: string;
+  networkFee: string;
+  bumpedDate: Date;
+}
+
+export interface PlatformRecordsWithdrawalFeeBumpParams {
+  withdrawalIds: string[]; // every withdrawal paid by the replaced transaction
+  replacedHash: string;
+  replacementHash: string;
+  networkFee: string;
+  bumpedDate: Date;
+}
+
+export interface PlatformRecordsWithdrawalFeeBumpResult {
+  feeBumps: WithdrawalFeeBumpRecord[];
+}
+
+export interface PlatformViewsWithdrawalFeeBumpsParams {
+  withdrawalId: string;
+}
+
+export interface PlatformViewsWithdrawalFeeBumpsResult {
+  feeBumps: WithdrawalFeeBumpRecord[]; // oldest first
+}
+
 export interface AdminApprovesWithdrawalRefundParams {
   withdrawalId: string;
   reviewerUserId: string;
@@ -255,6 +431,66 @@ export interface AdminRejectsWithdrawalRefundResult {
   failureRefundRejectedDate: Date;
 }
 
+export interface AdminWithdrawalApprovalItem {
+  id: string;
+  userId: string;
+  amount: string;
+  currencyBlockchainKey: string;
+  currencyTokenId: string;
+  beneficiaryId: string;
+  beneficiaryAddress: string;
+  status: string;
+  requestDate: Date;
+  requiredApprovals: number;
+  approverUserIds: string[];
+  approvedDate: Date | null;
+  rejectedDate: Date | null;
+  rejectionReason: string | null;
+}
+
+export interface AdminViewsPendingApprovalWithdrawalsParams {
+  page?: number;
+  limit?: number;
+}
+
+export interface AdminViewsPendingApprovalWithdrawalsResult {
+  withdrawals: AdminWithdrawalApprovalItem[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface AdminViewsWithdrawalApprovalParams {
+  withdrawalId: string;
+}
+
+export interface AdminViewsWithdrawalApprovalResult {
+  withdrawal: AdminWithdrawalApprovalItem | null;
+}
+
+export interface AdminApprovesWithdrawalParams {
+  withdrawalId: string;
+  adminUserId: string;
+  approvalDate: Date;
+  notes?: string;
+}
+
+export interface AdminApprovesWithdrawalResult {
+  withdrawal: AdminWithdrawalApprovalItem;
+}
+
+export interface AdminRejectsWithdrawalParams {
+  withdrawalId: string;
+  adminUserId: string;
+  rejectionReason: string;
+  rejectionDate: Date;
+}
+
+export interface AdminRejectsWithdrawalResult {
+  withdrawal: AdminWithdrawalApprovalItem;
+}
+
 export interface AdminViewsFailedWithdrawalsParams {
   page?: number;
   limit?: number;
@@ -322,7 +558,8 @@ export interface WithdrawalBeneficiaryListItem {
   label?: string | null;
   createdDate: Date;
   verifiedDate: Date | null;
-  isActive: boolean;
+  activationDate: Date | null;
+  isActive: boolean; // verified and past the cooling-off period
   blockchain: Blockchain;
 }
 
@@ -380,6 +617,8 @@ export interface Currency {
   minWithdrawalAmount: string;
   maxWithdrawalAmount: string;
   maxDailyWithdrawalAmount: string;
+  withdrawalApprovalThreshold: string | null;
+  withdrawalDualApprovalThreshold: string | null;
   withdrawalFeeRate: number;
   blockchain: Blockchain;
 }
@@ -437,7 +676,7 @@ export interface UserViewsWithdrawalsParams {
   userId: string;
   page?: number;
   limit?: number;
-  state?: 'requested' | 'sent' | 'confirmed' | 'failed';
+  state?: 'pending_approval' | 'requested' | 'sent' | 'confirmed' | 'failed' | 'rejected';
 }
 
 export interface WithdrawalCurrency {
@@ -673,3 +912,152 @@ export interface PlatformAdjustsAccountBalanceForTestingResult {
   balance: string;
   accountType: string;
 }
+
+// Indexer Checkpoint Types
+export interface IndexedBlock {
+  blockNumber: number;
+  blockHash: string;
+}
+
+export interface PlatformViewsIndexerCheckpointParams {
+  blockchainKey: string;
+}
+
+export interface PlatformViewsIndexerCheckpointResult {
+  checkpoint?: IndexedBlock; // undefined until the indexer processed its first block
+}
+
+export interface PlatformViewsIndexedBlockParams {
+  blockchainKey: string;
+  blockNumber: number;
+}
+
+export interface PlatformViewsIndexedBlockResult {
+  block?: IndexedBlock; // undefined when the block was never processed or already pruned
+}
+
+export interface PlatformViewsIndexerDispatchedPaymentsParams {
+  blockchainKey: string;
+  paymentHashes: string[];
+}
+
+export interface PlatformViewsIndexerDispatchedPaymentsResult {
+  payments: Array<{
+    paymentHash: string;
+    blockNumber: number;
+    blockHash: string;
+    orphanedDate: Date | null;
+  }>;
+}
+
+export interface PlatformRecordsIndexedBlockParams {
+  blockchainKey: string;
+  blockNumber: number;
+  blockHash: string;
+  paymentHashes: string[];
+  processedDate: Date;
+  retainedBlockCount: number;
+}
+
+export interface PlatformRecordsIndexedBlockResult {
+  checkpoint: IndexedBlock;
+}
+
+export interface PlatformOrphansIndexedBlocksParams {
+  blockchainKey: string;
+  checkpoint: IndexedBlock; // last block still on the canonical chain, everything above it is orphaned
+  orphanedDate: Date;
+}
+
+export interface PlatformOrphansIndexedBlocksResult {
+  orphanedPayments: Array<{
+    paymentHash: string;
+    blockNumber: number;
+    blockHash: string;
+  }>;
+}
+
+// Invoice Sweep Types
+export type InvoiceSweepStatus = 'Pending' | 'Sent' | 'Skipped' | 'Failed';
+
+export interface InvoiceSweepRecord {
+  id: string;
+  invoiceId: string;
+  blockchainKey: string;
+  tokenId: string;
+  walletAddress: string;
+  walletDerivationPath: string;
+  status: InvoiceSweepStatus;
+  attemptCount: number;
+  sweptAmount?: string;
+  sweepHash?: string;
+  gasFundingHash?: string;
+  gasFundingAmount?: string;
+  feeAmount?: string;
+  failureReason?: string;
+  requestedDate: Date;
+  lastAttemptDate?: Date;
+  completedDate?: Date;
+}
+
+export interface PlatformSchedulesInvoiceSweepParams {
+  walletAddress: string;
+  requestedDate: Date;
+}
+
+export interface PlatformSchedulesInvoiceSweepResult {
+  sweep?: InvoiceSweepRecord; // undefined while the invoice of the wallet is not paid
+}
+
+export interface PlatformStartsInvoiceSweepAttemptParams {
+  sweepId: string;
+  attemptDate: Date;
+}
+
+export interface PlatformStartsInvoiceSweepAttemptResult {
+  sweep: InvoiceSweepRecord;
+}
+
+export interface PlatformCompletesInvoiceSweepParams {
+  sweepId: string;
+  status: 'Sent' | 'Skipped';
+  sweptAmount?: string;
+  sweepHash?: string;
+  gasFundingHash?: string;
+  gasFundingAmount?: string;
+  feeAmount?: string;
+  completedDate: Date;
+}
+
+export interface PlatformCompletesInvoiceSweepResult {
+  sweep: InvoiceSweepRecord;
+}
+
+export interface PlatformFailsInvoiceSweepParams {
+  sweepId: string;
+  failureReason: string;
+  failedDate: Date;
+}
+
+export interface PlatformFailsInvoiceSweepResult {
+  sweep: InvoiceSweepRecord;
+}
+
+export interface AdminViewsUnsweptBalancesParams {
+  blockchainKey?: string;
+}
+
+export interface UnsweptBalanceItem {
+  blockchainKey: string;
+  tokenId: string;
+  symbol: string;
+  decimals: number;
+  invoiceCount: number;
+  unsweptAmount: string;
+  failedSweepCount: number;
+  oldestPaidDate?: Date;
+}
+
+export interface AdminViewsUnsweptBalancesResult {
+  balances: UnsweptBalanceItem[];
+}
@@ -8,6 +8,7 @@ import {
   assertPropString,
   check,
   hasPropArray,
+  isBoolean,
   isInstanceOf,
   isNullable,
   isNumber,
@@ -33,6 +34,12 @@ import {
   BorrowerRequestsEarlyLiquidationResult,
   BorrowerRequestsEarlyRepaymentParams,
   BorrowerRequestsEarlyRepaymentResult,
+  BorrowerRequestsLoanCollateralTopUpParams,
+  BorrowerRequestsLoanCollateralTopUpResult,
+  BorrowerRequestsLoanExtensionParams,
+  BorrowerRequestsLoanExtensionResult,
+  BorrowerRequestsLoanPartialRepaymentParams,
+  BorrowerRequestsLoanPartialRepaymentResult,
   BorrowerUpdatesLoanApplicationParams,
   BorrowerUpdatesLoanApplicationResult,
   BorrowerViewsMyLoanApplicationsParams,
@@ -40,7 +47,7 @@ import {
   PlatformUpdatesLiquidationTargetAmountParams,
   PlatformUpdatesLiquidationTargetAmountResult,
 } from './loan.types';
-import { LoanLenderRepository } from './loan-lender.repository';
+import { LoanLenderRepository, mapLoanExtensionRow } from './loan-lender.repository';
 
 /**
  * LoanBorrowerRepository <- LoanLenderRepository <- LoanTestRepository <- FinanceRepository <- UserRepository <- DatabaseRepository
@@ -1454,6 +1461,486 @@ export abstract class LoanBorrowerRepository extends LoanLenderRepository {
     }
   }
 
+  async borrowerRequestsLoanCollateralTopUp(
+    params: BorrowerRequestsLoanCollateralTopUpParams,
+  ): Promise<BorrowerRequestsLoanCollateralTopUpResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT
+          l.id,
+          l.status,
+          l.collateral_currency_blockchain_key,
+          l.collateral_currency_token_id,
+          c.decimals,
+          c.symbol,
+          c.name
+        FROM loans l
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        JOIN currencies c ON l.collateral_currency_blockchain_key = c.blockchain_key
+          AND l.collateral_currency_token_id = c.token_id
+        WHERE l.id = ${params.loanId} AND la.borrower_user_id = ${params.borrowerUserId}
+      `;
+
+      assertArrayMapOf(loanRows, function (row) {
+        assertDefined(row, 'Loan validation failed');
+        assertProp(check(isString, isNumber), row, 'id');
+        assertPropString(row, 'status');
+        assertPropString(row, 'collateral_currency_blockchain_key');
+        assertPropString(row, 'collateral_currency_token_id');
+        assertProp(check(isString, isNumber), row, 'decimals');
+        assertPropString(row, 'symbol');
+        assertPropString(row, 'name');
+        return row;
+      });
+
+      const loan = loanRows[0];
+
+      if (!loan) {
+        throw new Error('Loan not found or access denied');
+      }
+
+      if (loan.status !== 'Active') {
+        throw new Error(`Cannot top up collateral for loan with status: ${loan.status}`);
+      }
+
+      const invoiceRows = await tx.sql`
+        INSERT INTO invoices (
+          id,
+          user_id,
+          currency_blockchain_key,
+          currency_token_id,
+          invoiced_amount,
+          prepaid_amount,
+          wallet_derivation_path,
+          wallet_address,
+          invoice_type,
+          status,
+          draft_date,
+          invoice_date,
+          due_date,
+          expired_date,
+          loan_id
+        )
+        VALUES (
+          ${params.topUpInvoiceId},
+          ${params.borrowerUserId},
+          ${loan.collateral_currency_blockchain_key},
+          ${loan.collateral_currency_token_id},
+          ${params.topUpAmount},
+          ${params.topUpInvoicePrepaidAmount},
+          ${params.topUpWalletDerivationPath},
+          ${params.topUpWalletAddress},
+          'LoanCollateral',
+          'Pending',
+          ${params.requestDate.toISOString()},
+          ${params.requestDate.toISOString()},
+          ${params.dueDate.toISOString()},
+          ${params.expiredDate.toISOString()},
+          ${params.loanId}
+        )
+        RETURNING id, invoiced_amount, prepaid_amount, invoice_date, due_date
+      `;
+
+      assertArrayMapOf(invoiceRows, function (row) {
+        assertDefined(row, 'Collateral top-up invoice creation failed');
+        assertProp(check(isString, isNumber), row, 'id');
+        assertProp(check(isString, isNumber), row, 'invoiced_amount');
+        assertProp(check(isString, isNumber), row, 'prepaid_amount');
+        assertProp(isInstanceOf(Date), row, 'invoice_date');
+        assertProp(isInstanceOf(Date), row, 'due_date');
+        return row;
+      });
+
+      const invoice = invoiceRows[0];
+
+      await tx.sql`
+        INSERT INTO loan_collateral_top_ups (
+          invoice_id,
+          loan_id,
+          top_up_amount,
+          requested_date
+        )
+        VALUES (
+          ${invoice.id},
+          ${params.loanId},
+          ${params.topUpAmount},
+          ${params.requestDate.toISOString()}
+        )
+      `;
+
+      let status: 'Pending' | 'Paid' = 'Pending';
+      let paidDate: Date | undefined;
+
+      if (BigInt(params.topUpInvoicePrepaidAmount) > 0n) {
+        // Prepaid part is taken from the borrower platform balance right away
+        await tx.sql`
+          INSERT INTO account_mutation_entries (
+            user_id,
+            currency_blockchain_key,
+            currency_token_id,
+            account_type,
+            mutation_type,
+            mutation_date,
+            amount
+          ) VALUES (
+            ${params.borrowerUserId},
+            ${loan.collateral_currency_blockchain_key},
+            ${loan.collateral_currency_token_id},
+            'User',
+            'InvoicePrepaid',
+            ${params.requestDate.toISOString()},
+            ${(-BigInt(params.topUpInvoicePrepaidAmount)).toString()}
+          )
+        `;
+
+        await tx.sql`
+          UPDATE account_mutations
+          SET invoice_id = ${invoice.id}
+          FROM accounts
+          WHERE account_mutations.account_id = accounts.id
+            AND account_mutations.invoice_id IS NULL
+            AND account_mutations.mutation_type = 'InvoicePrepaid'
+            AND account_mutations.mutation_date = ${params.requestDate.toISOString()}
+            AND accounts.user_id = ${params.borrowerUserId}
+            AND accounts.currency_blockchain_key = ${loan.collateral_currency_blockchain_key}
+            AND accounts.currency_token_id = ${loan.collateral_currency_token_id}
+            AND accounts.account_type = 'User'
+        `;
+      }
+
+      if (BigInt(params.topUpInvoicePrepaidAmount) >= BigInt(params.topUpAmount)) {
+        // Fully prepaid invoices never receive a payment, settle them on the spot
+        await tx.sql`
+          UPDATE invoices
+          SET
+            paid_amount = prepaid_amount,
+            status = 'Paid',
+            paid_date = ${params.requestDate.toISOString()}
+          WHERE id = ${invoice.id}
+        `;
+
+        status = 'Paid';
+        paidDate = params.requestDate;
+      }
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(params.loanId),
+        topUpAmount: String(invoice.invoiced_amount),
+        collateralCurrency: {
+          blockchainKey: loan.collateral_currency_blockchain_key,
+          tokenId: loan.collateral_currency_token_id,
+          decimals: Number(loan.decimals),
+          symbol: loan.symbol,
+          name: loan.name,
+        },
+        topUpInvoice: {
+          id: String(invoice.id),
+          amount: String(invoice.invoiced_amount),
+          prepaidAmount: String(invoice.prepaid_amount),
+          currency: {
+            blockchainKey: loan.collateral_currency_blockchain_key,
+            tokenId: loan.collateral_currency_token_id,
+            decimals: Number(loan.decimals),
+            symbol: loan.symbol,
+            name: loan.name,
+          },
+          status,
+          createdDate: invoice.invoice_date,
+          expiryDate: invoice.due_date,
+          paidDate,
+          walletAddress: params.topUpWalletAddress,
+        },
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async borrowerRequestsLoanPartialRepayment(
+    params: BorrowerRequestsLoanPartialRepaymentParams,
+  ): Promise<BorrowerRequestsLoanPartialRepaymentResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT
+          l.id,
+          l.status,
+          l.principal_amount,
+          l.maturity_date,
+          l.principal_currency_blockchain_key,
+          l.principal_currency_token_id,
+          c.decimals,
+          c.symbol,
+          c.name,
+          EXISTS (
+            SELECT 1 FROM loan_repayments lr WHERE lr.loan_id = l.id
+          ) AS has_repayment,
+          EXISTS (
+            SELECT 1
+            FROM loan_partial_repayments pr
+            JOIN invoices i ON i.id = pr.invoice_id
+            WHERE pr.loan_id = l.id
+              AND pr.applied_date IS NULL
+              AND i.status IN ('Pending', 'PartiallyPaid', 'Paid')
+          ) AS has_pending_partial_repayment
+        FROM loans l
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        JOIN currencies c ON l.principal_currency_blockchain_key = c.blockchain_key
+          AND l.principal_currency_token_id = c.token_id
+        WHERE l.id = ${params.loanId} AND la.borrower_user_id = ${params.borrowerUserId}
+        FOR UPDATE OF l
+      `;
+
+      assertArrayMapOf(loanRows, function (row) {
+        assertDefined(row, 'Loan validation failed');
+        assertProp(check(isString, isNumber), row, 'id');
+        assertPropString(row, 'status');
+        assertProp(check(isString, isNumber), row, 'principal_amount');
+        assertProp(check(isNullable, isInstanceOf(Date)), row, 'maturity_date');
+        assertPropString(row, 'principal_currency_blockchain_key');
+        assertPropString(row, 'principal_currency_token_id');
+        assertProp(check(isString, isNumber), row, 'decimals');
+        assertPropString(row, 'symbol');
+        assertPropString(row, 'name');
+        assertProp(isBoolean, row, 'has_repayment');
+        assertProp(isBoolean, row, 'has_pending_partial_repayment');
+        return row;
+      });
+
+      const loan = loanRows[0];
+
+      if (!loan) {
+        throw new Error('Loan not found or access denied');
+      }
+
+      if (loan.status !== 'Active') {
+        throw new Error(`Cannot partially repay loan with status: ${loan.status}`);
+      }
+
+      if (loan.has_repayment) {
+        throw new Error('Loan repayment already requested');
+      }
+
+      if (loan.has_pending_partial_repayment) {
+        throw new Error('Loan already has a pending partial repayment');
+      }
+
+      if (loan.maturity_date === null || loan.maturity_date <= params.requestDate) {
+        throw new Error('Cannot partially repay loan at or past maturity');
+      }
+
+      if (BigInt(params.repaidPrincipalAmount) >= BigInt(loan.principal_amount)) {
+        throw new Error('Partial repayment must be less than the outstanding principal');
+      }
+
+      const invoiceRows = await tx.sql`
+        INSERT INTO invoices (
+          id,
+          user_id,
+          currency_blockchain_key,
+          currency_token_id,
+          invoiced_amount,
+          wallet_derivation_path,
+          wallet_address,
+          invoice_type,
+          status,
+          draft_date,
+          invoice_date,
+          due_date,
+          expired_date,
+          loan_id
+        )
+        VALUES (
+          ${params.repaymentInvoiceId},
+          ${params.borrowerUserId},
+          ${loan.principal_currency_blockchain_key},
+          ${loan.principal_currency_token_id},
+          ${params.repaidPrincipalAmount},
+          ${params.repaymentWalletDerivationPath},
+          ${params.repaymentWalletAddress},
+          'LoanRepayment',
+          'Pending',
+          ${params.requestDate.toISOString()},
+          ${params.requestDate.toISOString()},
+          ${params.dueDate.toISOString()},
+          ${params.expiredDate.toISOString()},
+          ${params.loanId}
+        )
+        RETURNING id, invoiced_amount, invoice_date, due_date
+      `;
+
+      assertArrayMapOf(invoiceRows, function (row) {
+        assertDefined(row, 'Partial repayment invoice creation failed');
+        assertProp(check(isString, isNumber), row, 'id');
+        assertProp(check(isString, isNumber), row, 'invoiced_amount');
+        assertProp(isInstanceOf(Date), row, 'invoice_date');
+        assertProp(isInstanceOf(Date), row, 'due_date');
+        return row;
+      });
+
+      const invoice = invoiceRows[0];
+
+      await tx.sql`
+        INSERT INTO loan_partial_repayments (
+          invoice_id,
+          loan_id,
+          repaid_principal_amount,
+          requested_date
+        )
+        VALUES (
+          ${invoice.id},
+          ${params.loanId},
+          ${params.repaidPrincipalAmount},
+          ${params.requestDate.toISOString()}
+        )
+      `;
+
+      await tx.commitTransaction();
+
+      const principalCurrency = {
+        blockchainKey: loan.principal_currency_blockchain_key,
+        tokenId: loan.principal_currency_token_id,
+        decimals: Number(loan.decimals),
+        symbol: loan.symbol,
+        name: loan.name,
+      };
+
+      return {
+        loanId: String(params.loanId),
+        repaidPrincipalAmount: String(invoice.invoiced_amount),
+        principalCurrency,
+        repaymentInvoice: {
+          id: String(invoice.id),
+          amount: String(invoice.invoiced_amount),
+          currency: principalCurrency,
+          status: 'Pending',
+          createdDate: invoice.invoice_date,
+          expiryDate: invoice.due_date,
+          walletAddress: params.repaymentWalletAddress,
+        },
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async borrowerRequestsLoanExtension(
+    params: BorrowerRequestsLoanExtensionParams,
+  ): Promise<BorrowerRequestsLoanExtensionResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT
+          l.id,
+          l.status,
+          l.maturity_date,
+          lo.interest_rate,
+          lo.term_in_months_options,
+          EXISTS (
+            SELECT 1
+            FROM loan_repayments lr
+            WHERE lr.loan_id = l.id AND lr.repayment_initiator = 'Borrower'
+          ) AS has_borrower_repayment,
+          EXISTS (
+            SELECT 1
+            FROM loan_partial_repayments pr
+            JOIN invoices i ON i.id = pr.invoice_id
+            WHERE pr.loan_id = l.id
+              AND pr.applied_date IS NULL
+              AND i.status IN ('Pending', 'PartiallyPaid', 'Paid')
+          ) AS has_pending_partial_repayment,
+          EXISTS (
+            SELECT 1 FROM loan_extensions e WHERE e.loan_id = l.id AND e.status = 'Pending'
+          ) AS has_pending_extension
+        FROM loans l
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        JOIN loan_offers lo ON l.loan_offer_id = lo.id
+        WHERE l.id = ${params.loanId} AND la.borrower_user_id = ${params.borrowerUserId}
+        FOR UPDATE OF l
+      `;
+
+      assertArrayMapOf(loanRows, function (row) {
+        assertDefined(row, 'Loan validation failed');
+        assertProp(check(isString, isNumber), row, 'id');
+        assertPropString(row, 'status');
+        assertProp(check(isNullable, isInstanceOf(Date)), row, 'maturity_date');
+        assertProp(check(isString, isNumber), row, 'interest_rate');
+        assertProp(isBoolean, row, 'has_borrower_repayment');
+        assertProp(isBoolean, row, 'has_pending_partial_repayment');
+        assertProp(isBoolean, row, 'has_pending_extension');
+        return row;
+      });
+
+      const loan = loanRows[0];
+
+      if (!loan) {
+        throw new Error('Loan not found or access denied');
+      }
+
+      if (loan.status !== 'Active') {
+        throw new Error(`Cannot extend loan with status: ${loan.status}`);
+      }
+
+      if (loan.maturity_date === null || loan.maturity_date <= params.requestDate) {
+        throw new Error('Cannot extend loan at or past maturity');
+      }
+
+      if (loan.has_borrower_repayment) {
+        throw new Error('Loan repayment already requested');
+      }
+
+      if (loan.has_pending_partial_repayment) {
+        throw new Error('Loan has a pending partial repayment');
+      }
+
+      if (loan.has_pending_extension) {
+        throw new Error('Loan already has a pending extension request');
+      }
+
+      const termInMonthsOptions = hasPropArray(loan, 'term_in_months_options')
+        ? loan.term_in_months_options.map(Number)
+        : [];
+
+      if (!termInMonthsOptions.includes(params.termInMonths)) {
+        throw new Error('Extension term is not offered by the lender');
+      }
+
+      const extensionRows = await tx.sql`
+        INSERT INTO loan_extensions (
+          loan_id,
+          term_in_months,
+          interest_rate,
+          interest_handling,
+          status,
+          requested_date,
+          expired_date
+        )
+        VALUES (
+          ${params.loanId},
+          ${params.termInMonths},
+          ${loan.interest_rate},
+          ${params.interestHandling},
+          'Pending',
+          ${params.requestDate.toISOString()},
+          ${loan.maturity_date.toISOString()}
+        )
+        RETURNING *
+      `;
+
+      await tx.commitTransaction();
+
+      return mapLoanExtensionRow(extensionRows[0]);
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
   /**
    * Data-only method: Get a single loan application by id for borrower/platform views
    */
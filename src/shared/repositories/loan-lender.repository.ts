@@ -6,6 +6,7 @@ import {
   assertPropString,
   check,
   hasPropArray,
+  isBoolean,
   isInstanceOf,
   isNullable,
   isNumber,
@@ -13,15 +14,165 @@ import {
 } from 'typeshaper';
 
 import {
+  LenderAcceptsLoanExtensionParams,
+  LenderAcceptsLoanExtensionResult,
+  LenderCancelsLoanPositionListingParams,
+  LenderCancelsLoanPositionListingResult,
   LenderClosesLoanOfferParams,
   LenderClosesLoanOfferResult,
+  LenderCreatesLoanAutoLendRuleParams,
+  LenderCreatesLoanAutoLendRuleResult,
   LenderCreatesLoanOfferParams,
   LenderCreatesLoanOfferResult,
+  LenderDeclinesLoanExtensionParams,
+  LenderDeclinesLoanExtensionResult,
+  LenderDeletesLoanAutoLendRuleParams,
+  LenderDeletesLoanAutoLendRuleResult,
+  LenderListsLoanPositionParams,
+  LenderListsLoanPositionResult,
+  LenderPurchasesLoanPositionParams,
+  LenderPurchasesLoanPositionResult,
+  LenderUpdatesLoanAutoLendRuleParams,
+  LenderUpdatesLoanAutoLendRuleResult,
+  LenderViewsLoanAutoLendRuleParams,
+  LenderViewsLoanAutoLendRuleResult,
+  LenderViewsLoanAutoLendRulesParams,
+  LenderViewsLoanAutoLendRulesResult,
+  LenderViewsLoanPositionListingsParams,
+  LenderViewsLoanPositionListingsResult,
   LenderViewsMyLoanOffersParams,
   LenderViewsMyLoanOffersResult,
+  LoanExtension,
+  LoanExtensionInterestHandling,
+  LoanExtensionStatus,
+  LoanPositionListing,
+  LoanPositionListingDetails,
+  LoanPositionListingStatus,
 } from './loan.types';
+import { mapLoanAutoLendRuleRow } from './loan-platform.repository';
 import { LoanTestRepository } from './loan-test.repository';
 
+export function mapLoanExtensionRow(row: unknown): LoanExtension {
+  assertDefined(row, 'Loan extension row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertProp(check(isString, isNumber), row, 'term_in_months');
+  assertProp(check(isString, isNumber), row, 'interest_rate');
+  assertPropString(row, 'interest_handling');
+  assertPropString(row, 'status');
+  assertProp(isInstanceOf(Date), row, 'requested_date');
+  assertProp(isInstanceOf(Date), row, 'expired_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'responded_date');
+  assertPropNullableString(row, 'decline_reason');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'previous_maturity_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'maturity_date');
+  assertProp(check(isNullable, isString, isNumber), row, 'previous_principal_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'principal_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'settled_interest_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'capitalized_interest_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'interest_amount');
+  assertPropNullableString(row, 'amendment_document_request_id');
+
+  return {
+    id: String(row.id),
+    loanId: String(row.loan_id),
+    termInMonths: Number(row.term_in_months),
+    interestRate: Number(row.interest_rate),
+    interestHandling: row.interest_handling as LoanExtensionInterestHandling,
+    status: row.status as LoanExtensionStatus,
+    requestedDate: row.requested_date,
+    expiredDate: row.expired_date,
+    respondedDate: row.responded_date ?? undefined,
+    declineReason: row.decline_reason ?? undefined,
+    previousMaturityDate: row.previous_maturity_date ?? undefined,
+    maturityDate: row.maturity_date ?? undefined,
+    previousPrincipalAmount:
+      row.previous_principal_amount !== null ? String(row.previous_principal_amount) : undefined,
+    principalAmount: row.principal_amount !== null ? String(row.principal_amount) : undefined,
+    settledInterestAmount:
+      row.settled_interest_amount !== null ? String(row.settled_interest_amount) : undefined,
+    capitalizedInterestAmount:
+      row.capitalized_interest_amount !== null
+        ? String(row.capitalized_interest_amount)
+        : undefined,
+    interestAmount: row.interest_amount !== null ? String(row.interest_amount) : undefined,
+    amendmentDocumentRequestId: row.amendment_document_request_id ?? undefined,
+  };
+}
+
+export function mapLoanPositionListingRow(row: unknown): LoanPositionListing {
+  assertDefined(row, 'Loan position listing row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertProp(check(isString, isNumber), row, 'seller_user_id');
+  assertProp(check(isString, isNumber), row, 'asking_price_amount');
+  assertPropString(row, 'status');
+  assertProp(isInstanceOf(Date), row, 'listed_date');
+  assertProp(check(isNullable, isString, isNumber), row, 'buyer_user_id');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'sold_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'cancelled_date');
+  assertPropNullableString(row, 'transfer_document_request_id');
+
+  return {
+    id: String(row.id),
+    loanId: String(row.loan_id),
+    sellerUserId: String(row.seller_user_id),
+    askingPriceAmount: String(row.asking_price_amount),
+    status: row.status as LoanPositionListingStatus,
+    listedDate: row.listed_date,
+    buyerUserId: row.buyer_user_id !== null ? String(row.buyer_user_id) : undefined,
+    soldDate: row.sold_date ?? undefined,
+    cancelledDate: row.cancelled_date ?? undefined,
+    transferDocumentRequestId: row.transfer_document_request_id ?? undefined,
+  };
+}
+
+function mapLoanPositionListingDetailsRow(row: unknown): LoanPositionListingDetails {
+  const listing = mapLoanPositionListingRow(row);
+
+  assertDefined(row, 'Loan position listing row is undefined');
+  assertProp(check(isString, isNumber), row, 'principal_amount');
+  assertProp(check(isString, isNumber), row, 'interest_amount');
+  assertProp(check(isString, isNumber), row, 'redelivery_amount');
+  assertProp(check(isString, isNumber), row, 'collateral_amount');
+  assertPropNullableString(row, 'current_ltv_ratio');
+  assertProp(isInstanceOf(Date), row, 'maturity_date');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'principal_symbol');
+  assertPropString(row, 'principal_name');
+  assertPropString(row, 'collateral_currency_blockchain_key');
+  assertPropString(row, 'collateral_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'collateral_decimals');
+  assertPropString(row, 'collateral_symbol');
+  assertPropString(row, 'collateral_name');
+
+  return {
+    ...listing,
+    principalCurrency: {
+      blockchainKey: row.principal_currency_blockchain_key,
+      tokenId: row.principal_currency_token_id,
+      decimals: Number(row.principal_decimals),
+      symbol: row.principal_symbol,
+      name: row.principal_name,
+    },
+    principalAmount: String(row.principal_amount),
+    interestAmount: String(row.interest_amount),
+    redeliveryAmount: String(row.redelivery_amount),
+    collateralCurrency: {
+      blockchainKey: row.collateral_currency_blockchain_key,
+      tokenId: row.collateral_currency_token_id,
+      decimals: Number(row.collateral_decimals),
+      symbol: row.collateral_symbol,
+      name: row.collateral_name,
+    },
+    collateralAmount: String(row.collateral_amount),
+    currentLtvRatio: row.current_ltv_ratio ? Number(row.current_ltv_ratio) : undefined,
+    maturityDate: row.maturity_date,
+  };
+}
+
 /**
  * LoanLenderRepository <- LoanTestRepository <- FinanceRepository <- UserRepository <- DatabaseRepository
  */
@@ -49,6 +200,7 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
       fundingInvoiceExpiredDate,
       fundingWalletDerivationPath,
       fundingWalletAddress,
+      loanAutoLendRuleId,
     } = params;
 
     const tx = await this.beginTransaction();
@@ -89,6 +241,7 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
           lender_user_id,
           principal_currency_blockchain_key,
           principal_currency_token_id,
+          offered_principal_prepaid_amount,
           offered_principal_amount,
           min_loan_principal_amount,
           max_loan_principal_amount,
@@ -96,12 +249,14 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
           term_in_months_options,
           status,
           created_date,
-          expired_date
+          expired_date,
+          loan_auto_lend_rule_id
         )
         VALUES (
           ${lenderUserId},
           ${principalBlockchainKey},
           ${principalTokenId},
+          ${fundingInvoicePrepaidAmount},
           ${offeredPrincipalAmount},
           ${minLoanPrincipalAmount},
           ${maxLoanPrincipalAmount},
@@ -109,7 +264,8 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
           ${termInMonthsOptions},
           'Funding',
           ${createdDate.toISOString()},
-          ${expirationDate.toISOString()}
+          ${expirationDate.toISOString()},
+          ${loanAutoLendRuleId ?? null}
         )
         RETURNING 
           id,
@@ -200,6 +356,63 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
       assertProp(check(isNullable, isInstanceOf(Date)), invoice, 'expired_date');
       assertProp(check(isNullable, isInstanceOf(Date)), invoice, 'paid_date');
 
+      let offerStatus = loanOffer.status;
+      let invoiceStatus = invoice.status;
+      let invoicePaidDate = invoice.paid_date;
+
+      if (BigInt(fundingInvoicePrepaidAmount) > 0n) {
+        // Prepaid part is taken from the lender platform balance right away
+        await tx.sql`
+          INSERT INTO account_mutation_entries (
+            user_id,
+            currency_blockchain_key,
+            currency_token_id,
+            account_type,
+            mutation_type,
+            mutation_date,
+            amount
+          ) VALUES (
+            ${lenderUserId},
+            ${fundingAccountBlockchainKey ?? principalBlockchainKey},
+            ${fundingAccountTokenId ?? principalTokenId},
+            'User',
+            'InvoicePrepaid',
+            ${fundingInvoiceDate.toISOString()},
+            ${(-BigInt(fundingInvoicePrepaidAmount)).toString()}
+          )
+        `;
+
+        await tx.sql`
+          UPDATE account_mutations
+          SET invoice_id = ${invoice.id}
+          FROM accounts
+          WHERE account_mutations.account_id = accounts.id
+            AND account_mutations.invoice_id IS NULL
+            AND account_mutations.mutation_type = 'InvoicePrepaid'
+            AND account_mutations.mutation_date = ${fundingInvoiceDate.toISOString()}
+            AND accounts.user_id = ${lenderUserId}
+            AND accounts.currency_blockchain_key = ${fundingAccountBlockchainKey ?? principalBlockchainKey}
+            AND accounts.currency_token_id = ${fundingAccountTokenId ?? principalTokenId}
+            AND accounts.account_type = 'User'
+        `;
+      }
+
+      if (BigInt(fundingInvoicePrepaidAmount) >= BigInt(offeredPrincipalAmount)) {
+        // Fully prepaid invoices never receive a payment, settle them on the spot so the offer publishes
+        await tx.sql`
+          UPDATE invoices
+          SET
+            paid_amount = prepaid_amount,
+            status = 'Paid',
+            paid_date = ${fundingInvoiceDate.toISOString()}
+          WHERE id = ${invoice.id}
+        `;
+
+        offerStatus = 'Published';
+        invoiceStatus = 'Paid';
+        invoicePaidDate = fundingInvoiceDate;
+      }
+
       await tx.commitTransaction();
 
       return {
@@ -236,7 +449,7 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
         termInMonthsOptions: hasPropArray(loanOffer, 'term_in_months_options')
           ? loanOffer.term_in_months_options.map(Number)
           : [],
-        status: loanOffer.status as 'Funding' | 'Published' | 'Closed' | 'Expired',
+        status: offerStatus as 'Funding' | 'Published' | 'Closed' | 'Expired',
         createdDate: loanOffer.created_date,
         expirationDate: loanOffer.expired_date,
         fundingInvoice: {
@@ -250,10 +463,10 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
             name: currencyUser.name,
           },
           // Prepaid amount will reduce payable amount but repository currently exposes invoiced total
-          status: invoice.status as 'Pending' | 'Paid' | 'Expired' | 'Cancelled',
+          status: invoiceStatus as 'Pending' | 'Paid' | 'Expired' | 'Cancelled',
           createdDate: invoice.invoice_date,
           expiryDate: invoice.due_date || invoice.expired_date || expirationDate,
-          paidDate: invoice.paid_date || undefined,
+          paidDate: invoicePaidDate || undefined,
         },
       };
     } catch (error) {
@@ -613,4 +826,950 @@ export abstract class LoanLenderRepository extends LoanTestRepository {
         : undefined,
     };
   }
+
+  async lenderAcceptsLoanExtension(
+    params: LenderAcceptsLoanExtensionParams,
+  ): Promise<LenderAcceptsLoanExtensionResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const extensionRows = await tx.sql`
+        SELECT
+          e.id,
+          e.loan_id,
+          e.status,
+          e.expired_date,
+          l.status AS loan_status,
+          l.principal_amount,
+          l.maturity_date,
+          l.principal_currency_blockchain_key,
+          l.principal_currency_token_id,
+          la.borrower_user_id,
+          lp.lender_user_id,
+          EXISTS (
+            SELECT 1
+            FROM loan_partial_repayments pr
+            JOIN invoices i ON i.id = pr.invoice_id
+            WHERE pr.loan_id = l.id
+              AND pr.applied_date IS NULL
+              AND i.status IN ('Pending', 'PartiallyPaid', 'Paid')
+          ) AS has_pending_partial_repayment
+        FROM loan_extensions e
+        JOIN loans l ON l.id = e.loan_id
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        WHERE e.id = ${params.extensionId}
+        FOR UPDATE OF e, l
+      `;
+
+      const extension = extensionRows[0];
+      if (!extension) {
+        throw new Error('Loan extension not found or access denied');
+      }
+
+      assertDefined(extension, 'Loan extension validation failed');
+      assertProp(check(isString, isNumber), extension, 'loan_id');
+      assertPropString(extension, 'status');
+      assertProp(isInstanceOf(Date), extension, 'expired_date');
+      assertPropString(extension, 'loan_status');
+      assertProp(check(isString, isNumber), extension, 'principal_amount');
+      assertProp(check(isNullable, isInstanceOf(Date)), extension, 'maturity_date');
+      assertPropString(extension, 'principal_currency_blockchain_key');
+      assertPropString(extension, 'principal_currency_token_id');
+      assertProp(check(isString, isNumber), extension, 'borrower_user_id');
+      assertProp(check(isString, isNumber), extension, 'lender_user_id');
+      assertProp(isBoolean, extension, 'has_pending_partial_repayment');
+
+      if (String(extension.lender_user_id) !== String(params.lenderUserId)) {
+        throw new Error('Loan extension not found or access denied');
+      }
+
+      if (extension.status !== 'Pending') {
+        throw new Error(`Cannot accept loan extension with status: ${extension.status}`);
+      }
+
+      if (extension.loan_status !== 'Active') {
+        throw new Error(`Cannot extend loan with status: ${extension.loan_status}`);
+      }
+
+      if (extension.expired_date <= params.acceptedDate) {
+        throw new Error('Loan extension request has expired');
+      }
+
+      if (extension.has_pending_partial_repayment) {
+        throw new Error('Loan has a pending partial repayment');
+      }
+
+      if (
+        String(extension.principal_amount) !== String(params.previousPrincipalAmount) ||
+        extension.maturity_date?.getTime() !== params.previousMaturityDate.getTime()
+      ) {
+        throw new Error('Loan terms changed since the extension terms were computed');
+      }
+
+      // The maturity worker may already have invoiced the old maturity, that invoice is void once extended
+      const repaymentRows = await tx.sql`
+        SELECT
+          lr.repayment_initiator,
+          lr.repayment_invoice_id,
+          i.status AS invoice_status,
+          i.paid_amount,
+          i.prepaid_amount
+        FROM loan_repayments lr
+        JOIN invoices i ON i.id = lr.repayment_invoice_id
+        WHERE lr.loan_id = ${extension.loan_id}
+        FOR UPDATE OF lr, i
+      `;
+
+      let cancelledRepaymentInvoiceId: string | undefined;
+      const repayment = repaymentRows[0];
+      if (repayment) {
+        assertDefined(repayment, 'Loan repayment validation failed');
+        assertPropNullableString(repayment, 'repayment_initiator');
+        assertProp(check(isString, isNumber), repayment, 'repayment_invoice_id');
+        assertPropString(repayment, 'invoice_status');
+        assertProp(check(isString, isNumber), repayment, 'paid_amount');
+        assertProp(check(isString, isNumber), repayment, 'prepaid_amount');
+
+        if (repayment.repayment_initiator !== 'Platform') {
+          throw new Error('Loan repayment already requested');
+        }
+
+        if (
+          BigInt(repayment.paid_amount) > 0n ||
+          BigInt(repayment.prepaid_amount) > 0n ||
+          !['Pending', 'Overdue'].includes(repayment.invoice_status)
+        ) {
+          throw new Error('Loan repayment invoice already has payments');
+        }
+
+        await tx.sql`
+          UPDATE invoices
+          SET status = 'Cancelled'
+          WHERE id = ${repayment.repayment_invoice_id}
+        `;
+
+        await tx.sql`
+          DELETE FROM loan_repayments WHERE loan_id = ${extension.loan_id}
+        `;
+
+        cancelledRepaymentInvoiceId = String(repayment.repayment_invoice_id);
+      }
+
+      await tx.sql`
+        DELETE FROM loan_repayment_reminders WHERE loan_id = ${extension.loan_id}
+      `;
+
+      const acceptedDate = params.acceptedDate.toISOString();
+
+      // Settled interest passes from the borrower to the lender, less the platform redelivery fee
+      if (BigInt(params.settledInterestAmount) > 0n) {
+        await tx.sql`
+          INSERT INTO account_mutation_entries (
+            user_id,
+            currency_blockchain_key,
+            currency_token_id,
+            account_type,
+            mutation_type,
+            mutation_date,
+            amount
+          )
+          SELECT
+            entry.user_id,
+            entry.currency_blockchain_key,
+            entry.currency_token_id,
+            entry.account_type,
+            entry.mutation_type,
+            ${acceptedDate}::TIMESTAMP,
+            entry.amount
+          FROM (
+            VALUES
+              (1, ${extension.borrower_user_id}::BIGINT, ${extension.principal_currency_blockchain_key}::TEXT, ${extension.principal_currency_token_id}::TEXT, 'User', 'LoanRepayment', -${params.settledInterestAmount}::NUMERIC),
+              (2, ${extension.lender_user_id}::BIGINT, ${extension.principal_currency_blockchain_key}::TEXT, ${extension.principal_currency_token_id}::TEXT, 'User', 'LoanInterestReceived', ${params.settledInterestAmount}::NUMERIC - ${params.settledRedeliveryFeeAmount}::NUMERIC),
+              (3, 1::BIGINT, ${extension.principal_currency_blockchain_key}::TEXT, ${extension.principal_currency_token_id}::TEXT, 'PlatformFee', 'LoanReturnFee', ${params.settledRedeliveryFeeAmount}::NUMERIC)
+          ) AS entry (seq, user_id, currency_blockchain_key, currency_token_id, account_type, mutation_type, amount)
+          WHERE entry.amount != 0
+          ORDER BY entry.seq
+        `;
+
+        await tx.sql`
+          UPDATE account_mutations
+          SET loan_id = ${extension.loan_id}
+          FROM accounts
+          WHERE account_mutations.account_id = accounts.id
+            AND account_mutations.loan_id IS NULL
+            AND account_mutations.mutation_type IN (
+              'LoanRepayment',
+              'LoanInterestReceived',
+              'LoanReturnFee'
+            )
+            AND account_mutations.mutation_date = ${acceptedDate}
+            AND accounts.user_id IN (1, ${extension.borrower_user_id}, ${extension.lender_user_id})
+        `;
+      }
+
+      await tx.sql`
+        UPDATE loans
+        SET
+          principal_amount = ${params.principalAmount},
+          interest_amount = ${params.interestAmount},
+          repayment_amount = ${params.repaymentAmount},
+          redelivery_fee_amount = ${params.redeliveryFeeAmount},
+          redelivery_amount = ${params.redeliveryAmount},
+          min_collateral_valuation = ${params.minCollateralValuation},
+          mc_ltv_ratio = ${params.mcLtvRatio},
+          maturity_date = ${params.maturityDate.toISOString()}
+        WHERE id = ${extension.loan_id}
+      `;
+
+      // An open position listing was priced on the previous terms
+      await tx.sql`
+        UPDATE loan_position_listings
+        SET status = 'Cancelled', cancelled_date = ${acceptedDate}
+        WHERE loan_id = ${extension.loan_id} AND status = 'Listed'
+      `;
+
+      await tx.sql`
+        INSERT INTO loan_documents (
+          request_id,
+          loan_id,
+          document_type,
+          status,
+          requested_by,
+          priority,
+          metadata
+        )
+        VALUES (
+          ${params.amendmentDocumentRequestId},
+          ${extension.loan_id},
+          'LoanAmendment',
+          'Queued',
+          ${params.lenderUserId},
+          'normal',
+          ${JSON.stringify({ extensionId: String(params.extensionId) })}
+        )
+      `;
+
+      const updatedRows = await tx.sql`
+        UPDATE loan_extensions
+        SET
+          status = 'Accepted',
+          responded_date = ${acceptedDate},
+          previous_maturity_date = ${params.previousMaturityDate.toISOString()},
+          maturity_date = ${params.maturityDate.toISOString()},
+          previous_principal_amount = ${params.previousPrincipalAmount},
+          principal_amount = ${params.principalAmount},
+          settled_interest_amount = ${params.settledInterestAmount},
+          capitalized_interest_amount = ${params.capitalizedInterestAmount},
+          interest_amount = ${params.interestAmount},
+          amendment_document_request_id = ${params.amendmentDocumentRequestId}
+        WHERE id = ${params.extensionId}
+        RETURNING *
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        ...mapLoanExtensionRow(updatedRows[0]),
+        borrowerUserId: String(extension.borrower_user_id),
+        lenderUserId: String(extension.lender_user_id),
+        cancelledRepaymentInvoiceId,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async lenderDeclinesLoanExtension(
+    params: LenderDeclinesLoanExtensionParams,
+  ): Promise<LenderDeclinesLoanExtensionResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const extensionRows = await tx.sql`
+        SELECT e.status, la.borrower_user_id, lp.lender_user_id
+        FROM loan_extensions e
+        JOIN loans l ON l.id = e.loan_id
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        WHERE e.id = ${params.extensionId}
+        FOR UPDATE OF e
+      `;
+
+      const extension = extensionRows[0];
+      if (!extension) {
+        throw new Error('Loan extension not found or access denied');
+      }
+
+      assertDefined(extension, 'Loan extension validation failed');
+      assertPropString(extension, 'status');
+      assertProp(check(isString, isNumber), extension, 'borrower_user_id');
+      assertProp(check(isString, isNumber), extension, 'lender_user_id');
+
+      if (String(extension.lender_user_id) !== String(params.lenderUserId)) {
+        throw new Error('Loan extension not found or access denied');
+      }
+
+      if (extension.status !== 'Pending') {
+        throw new Error(`Cannot decline loan extension with status: ${extension.status}`);
+      }
+
+      const updatedRows = await tx.sql`
+        UPDATE loan_extensions
+        SET
+          status = 'Declined',
+          responded_date = ${params.declinedDate.toISOString()},
+          decline_reason = ${params.declineReason ?? null}
+        WHERE id = ${params.extensionId}
+        RETURNING *
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        ...mapLoanExtensionRow(updatedRows[0]),
+        borrowerUserId: String(extension.borrower_user_id),
+        lenderUserId: String(extension.lender_user_id),
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async lenderListsLoanPosition(
+    params: LenderListsLoanPositionParams,
+  ): Promise<LenderListsLoanPositionResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT
+          l.id,
+          l.status,
+          l.maturity_date,
+          lp.lender_user_id,
+          EXISTS (
+            SELECT 1 FROM loan_liquidations ll WHERE ll.loan_id = l.id AND ll.status = 'Pending'
+          ) AS has_pending_liquidation,
+          EXISTS (
+            SELECT 1 FROM loan_position_listings lpl WHERE lpl.loan_id = l.id AND lpl.status = 'Listed'
+          ) AS has_open_listing
+        FROM loans l
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        WHERE l.id = ${params.loanId}
+        FOR UPDATE OF l, lp
+      `;
+
+      const loan = loanRows[0];
+      if (!loan) {
+        throw new Error('Loan not found or access denied');
+      }
+
+      assertDefined(loan, 'Loan validation failed');
+      assertPropString(loan, 'status');
+      assertProp(isInstanceOf(Date), loan, 'maturity_date');
+      assertProp(check(isString, isNumber), loan, 'lender_user_id');
+      assertProp(isBoolean, loan, 'has_pending_liquidation');
+      assertProp(isBoolean, loan, 'has_open_listing');
+
+      if (String(loan.lender_user_id) !== String(params.sellerUserId)) {
+        throw new Error('Loan not found or access denied');
+      }
+
+      if (loan.status !== 'Active') {
+        throw new Error(`Cannot list loan position with status: ${loan.status}`);
+      }
+
+      if (loan.maturity_date <= params.listedDate) {
+        throw new Error('Cannot list loan position at or past maturity');
+      }
+
+      if (loan.has_pending_liquidation) {
+        throw new Error('Loan has a pending liquidation');
+      }
+
+      if (loan.has_open_listing) {
+        throw new Error('Loan position is already listed');
+      }
+
+      const listingRows = await tx.sql`
+        INSERT INTO loan_position_listings (
+          loan_id,
+          seller_user_id,
+          asking_price_amount,
+          listed_date
+        )
+        VALUES (
+          ${params.loanId},
+          ${params.sellerUserId},
+          ${params.askingPriceAmount},
+          ${params.listedDate.toISOString()}
+        )
+        RETURNING *
+      `;
+
+      await tx.commitTransaction();
+
+      return mapLoanPositionListingRow(listingRows[0]);
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async lenderCancelsLoanPositionListing(
+    params: LenderCancelsLoanPositionListingParams,
+  ): Promise<LenderCancelsLoanPositionListingResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const listingRows = await tx.sql`
+        SELECT id, status, seller_user_id
+        FROM loan_position_listings
+        WHERE id = ${params.listingId}
+        FOR UPDATE
+      `;
+
+      const listing = listingRows[0];
+      if (!listing) {
+        throw new Error('Loan position listing not found or access denied');
+      }
+
+      assertDefined(listing, 'Loan position listing validation failed');
+      assertPropString(listing, 'status');
+      assertProp(check(isString, isNumber), listing, 'seller_user_id');
+
+      if (String(listing.seller_user_id) !== String(params.sellerUserId)) {
+        throw new Error('Loan position listing not found or access denied');
+      }
+
+      if (listing.status !== 'Listed') {
+        throw new Error(`Cannot cancel loan position listing with status: ${listing.status}`);
+      }
+
+      const updatedRows = await tx.sql`
+        UPDATE loan_position_listings
+        SET
+          status = 'Cancelled',
+          cancelled_date = ${params.cancelledDate.toISOString()}
+        WHERE id = ${params.listingId}
+        RETURNING *
+      `;
+
+      await tx.commitTransaction();
+
+      return mapLoanPositionListingRow(updatedRows[0]);
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async lenderViewsLoanPositionListings(
+    params: LenderViewsLoanPositionListingsParams,
+  ): Promise<LenderViewsLoanPositionListingsResult> {
+    const { principalBlockchainKey, principalTokenId, page = 1, limit = 20 } = params;
+
+    const validatedPage = Math.max(1, page);
+    const validatedLimit = Math.min(Math.max(1, limit), 100);
+    const offset = (validatedPage - 1) * validatedLimit;
+
+    const countRows = await this.sql`
+      SELECT COUNT(*) as total
+      FROM loan_position_listings lpl
+      JOIN loans l ON l.id = lpl.loan_id
+      WHERE lpl.status = 'Listed'
+        AND l.status = 'Active'
+        AND (${principalBlockchainKey}::text IS NULL OR l.principal_currency_blockchain_key = ${principalBlockchainKey})
+        AND (${principalTokenId}::text IS NULL OR l.principal_currency_token_id = ${principalTokenId})
+    `;
+
+    const countRow = countRows[0];
+    assertDefined(countRow, 'Count query failed');
+    assertProp(check(isString, isNumber), countRow, 'total');
+    const totalCount = Number(countRow.total);
+
+    const listingRows = await this.sql`
+      SELECT
+        lpl.*,
+        l.principal_amount,
+        l.interest_amount,
+        l.redelivery_amount,
+        l.collateral_amount,
+        l.current_ltv_ratio,
+        l.maturity_date,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.collateral_currency_blockchain_key,
+        l.collateral_currency_token_id,
+        cc.decimals AS collateral_decimals,
+        cc.symbol AS collateral_symbol,
+        cc.name AS collateral_name
+      FROM loan_position_listings lpl
+      JOIN loans l ON l.id = lpl.loan_id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
+        AND l.collateral_currency_token_id = cc.token_id
+      WHERE lpl.status = 'Listed'
+        AND l.status = 'Active'
+        AND (${principalBlockchainKey}::text IS NULL OR l.principal_currency_blockchain_key = ${principalBlockchainKey})
+        AND (${principalTokenId}::text IS NULL OR l.principal_currency_token_id = ${principalTokenId})
+      ORDER BY lpl.listed_date DESC, lpl.id DESC
+      LIMIT ${validatedLimit}
+      OFFSET ${offset}
+    `;
+
+    const totalPages = Math.ceil(totalCount / validatedLimit);
+
+    return {
+      listings: listingRows.map(mapLoanPositionListingDetailsRow),
+      pagination: {
+        page: validatedPage,
+        limit: validatedLimit,
+        total: totalCount,
+        totalPages,
+        hasNext: validatedPage < totalPages,
+        hasPrev: validatedPage > 1,
+      },
+    };
+  }
+
+  async lenderPurchasesLoanPosition(
+    params: LenderPurchasesLoanPositionParams,
+  ): Promise<LenderPurchasesLoanPositionResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const listingRows = await tx.sql`
+        SELECT
+          lpl.*,
+          l.status AS loan_status,
+          l.principal_amount,
+          l.interest_amount,
+          l.redelivery_amount,
+          l.collateral_amount,
+          l.current_ltv_ratio,
+          l.maturity_date,
+          l.principal_currency_blockchain_key,
+          l.principal_currency_token_id,
+          pc.decimals AS principal_decimals,
+          pc.symbol AS principal_symbol,
+          pc.name AS principal_name,
+          l.collateral_currency_blockchain_key,
+          l.collateral_currency_token_id,
+          cc.decimals AS collateral_decimals,
+          cc.symbol AS collateral_symbol,
+          cc.name AS collateral_name,
+          la.borrower_user_id,
+          lp.lender_user_id,
+          EXISTS (
+            SELECT 1 FROM loan_liquidations ll WHERE ll.loan_id = l.id AND ll.status = 'Pending'
+          ) AS has_pending_liquidation
+        FROM loan_position_listings lpl
+        JOIN loans l ON l.id = lpl.loan_id
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+          AND l.principal_currency_token_id = pc.token_id
+        JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
+          AND l.collateral_currency_token_id = cc.token_id
+        WHERE lpl.id = ${params.listingId}
+        FOR UPDATE OF lpl, l, lp
+      `;
+
+      const row = listingRows[0];
+      if (!row) {
+        throw new Error('Loan position listing not found');
+      }
+
+      const listing = mapLoanPositionListingDetailsRow(row);
+
+      assertDefined(row, 'Loan position listing validation failed');
+      assertPropString(row, 'loan_status');
+      assertProp(check(isString, isNumber), row, 'borrower_user_id');
+      assertProp(check(isString, isNumber), row, 'lender_user_id');
+      assertProp(isBoolean, row, 'has_pending_liquidation');
+
+      if (listing.status !== 'Listed') {
+        throw new Error(`Cannot purchase loan position listing with status: ${listing.status}`);
+      }
+
+      if (listing.sellerUserId === String(params.buyerUserId)) {
+        throw new Error('Cannot purchase your own loan position');
+      }
+
+      if (String(row.borrower_user_id) === String(params.buyerUserId)) {
+        throw new Error('Cannot purchase a position in your own loan');
+      }
+
+      // Positions only change hands here, which closes the listing, so this is a consistency guard
+      if (String(row.lender_user_id) !== listing.sellerUserId) {
+        throw new Error('Loan position is no longer held by the seller');
+      }
+
+      if (row.loan_status !== 'Active') {
+        throw new Error(`Cannot purchase loan position with status: ${row.loan_status}`);
+      }
+
+      if (listing.maturityDate <= params.purchaseDate) {
+        throw new Error('Cannot purchase loan position at or past maturity');
+      }
+
+      if (row.has_pending_liquidation) {
+        throw new Error('Loan has a pending liquidation');
+      }
+
+      const purchaseDate = params.purchaseDate.toISOString();
+
+      // Asking price passes from the buyer to the seller platform balance
+      await tx.sql`
+        INSERT INTO account_mutation_entries (
+          user_id,
+          currency_blockchain_key,
+          currency_token_id,
+          account_type,
+          mutation_type,
+          mutation_date,
+          amount
+        )
+        SELECT
+          entry.user_id,
+          entry.currency_blockchain_key,
+          entry.currency_token_id,
+          entry.account_type,
+          entry.mutation_type,
+          ${purchaseDate}::TIMESTAMP,
+          entry.amount
+        FROM (
+          VALUES
+            (1, ${params.buyerUserId}::BIGINT, ${listing.principalCurrency.blockchainKey}::TEXT, ${listing.principalCurrency.tokenId}::TEXT, 'User', 'LoanPositionPurchase', -${listing.askingPriceAmount}::NUMERIC),
+            (2, ${listing.sellerUserId}::BIGINT, ${listing.principalCurrency.blockchainKey}::TEXT, ${listing.principalCurrency.tokenId}::TEXT, 'User', 'LoanPositionSale', ${listing.askingPriceAmount}::NUMERIC)
+        ) AS entry (seq, user_id, currency_blockchain_key, currency_token_id, account_type, mutation_type, amount)
+        WHERE entry.amount != 0
+        ORDER BY entry.seq
+      `;
+
+      await tx.sql`
+        UPDATE account_mutations
+        SET loan_id = ${listing.loanId}
+        FROM accounts
+        WHERE account_mutations.account_id = accounts.id
+          AND account_mutations.loan_id IS NULL
+          AND account_mutations.mutation_type IN ('LoanPositionPurchase', 'LoanPositionSale')
+          AND account_mutations.mutation_date = ${purchaseDate}
+          AND accounts.user_id IN (${params.buyerUserId}, ${listing.sellerUserId})
+      `;
+
+      await tx.sql`
+        UPDATE loan_positions
+        SET
+          lender_user_id = ${params.buyerUserId},
+          acquired_date = ${purchaseDate},
+          loan_position_listing_id = ${params.listingId}
+        WHERE loan_id = ${listing.loanId}
+      `;
+
+      await tx.sql`
+        UPDATE loan_position_listings
+        SET
+          status = 'Sold',
+          buyer_user_id = ${params.buyerUserId},
+          sold_date = ${purchaseDate},
+          transfer_document_request_id = ${params.transferDocumentRequestId}
+        WHERE id = ${params.listingId}
+      `;
+
+      await tx.sql`
+        INSERT INTO loan_documents (
+          request_id,
+          loan_id,
+          document_type,
+          status,
+          requested_by,
+          priority,
+          metadata
+        )
+        VALUES (
+          ${params.transferDocumentRequestId},
+          ${listing.loanId},
+          'LoanPositionTransfer',
+          'Queued',
+          ${params.buyerUserId},
+          'normal',
+          ${JSON.stringify({ listingId: String(params.listingId) })}
+        )
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        ...listing,
+        status: 'Sold',
+        buyerUserId: String(params.buyerUserId),
+        soldDate: params.purchaseDate,
+        transferDocumentRequestId: params.transferDocumentRequestId,
+        borrowerUserId: String(row.borrower_user_id),
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async lenderCreatesLoanAutoLendRule(
+    params: LenderCreatesLoanAutoLendRuleParams,
+  ): Promise<LenderCreatesLoanAutoLendRuleResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const currencyRows = await tx.sql`
+        SELECT blockchain_key, token_id
+        FROM currencies
+        WHERE blockchain_key = ${params.principalBlockchainKey}
+          AND token_id = ${params.principalTokenId}
+      `;
+
+      if (currencyRows.length === 0) {
+        throw new Error(
+          `Currency ${params.principalBlockchainKey}:${params.principalTokenId} does not exist`,
+        );
+      }
+
+      const ruleRows = await tx.sql`
+        INSERT INTO loan_auto_lend_rules (
+          lender_user_id,
+          principal_currency_blockchain_key,
+          principal_currency_token_id,
+          min_ticket_amount,
+          max_ticket_amount,
+          min_interest_rate,
+          term_in_months_options,
+          max_exposure_amount,
+          status,
+          created_date,
+          updated_date
+        )
+        VALUES (
+          ${params.lenderUserId},
+          ${params.principalBlockchainKey},
+          ${params.principalTokenId},
+          ${params.minTicketAmount},
+          ${params.maxTicketAmount},
+          ${params.minInterestRate},
+          ${params.termInMonthsOptions},
+          ${params.maxExposureAmount},
+          'Active',
+          ${params.createdDate.toISOString()},
+          ${params.createdDate.toISOString()}
+        )
+        RETURNING id
+      `;
+
+      const rule = ruleRows[0];
+      assertDefined(rule, 'Auto-lend rule creation failed');
+      assertProp(check(isString, isNumber), rule, 'id');
+
+      for (const collateralCurrency of params.collateralCurrencies) {
+        await tx.sql`
+          INSERT INTO loan_auto_lend_rule_collateral_currencies (
+            loan_auto_lend_rule_id,
+            collateral_currency_blockchain_key,
+            collateral_currency_token_id
+          )
+          VALUES (${rule.id}, ${collateralCurrency.blockchainKey}, ${collateralCurrency.tokenId})
+          ON CONFLICT DO NOTHING
+        `;
+      }
+
+      await tx.commitTransaction();
+
+      return await this.lenderViewsLoanAutoLendRule({
+        ruleId: String(rule.id),
+        lenderUserId: params.lenderUserId,
+      });
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async lenderUpdatesLoanAutoLendRule(
+    params: LenderUpdatesLoanAutoLendRuleParams,
+  ): Promise<LenderUpdatesLoanAutoLendRuleResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const ruleRows = await tx.sql`
+        SELECT id, status
+        FROM loan_auto_lend_rules
+        WHERE id = ${params.ruleId} AND lender_user_id = ${params.lenderUserId}
+        FOR UPDATE
+      `;
+
+      const rule = ruleRows[0];
+      if (!rule) {
+        throw new Error('Auto-lend rule not found or access denied');
+      }
+      assertPropString(rule, 'status');
+
+      if (rule.status === 'Deleted') {
+        throw new Error(`Cannot update auto-lend rule with status: ${rule.status}`);
+      }
+
+      await tx.sql`
+        UPDATE loan_auto_lend_rules
+        SET
+          min_ticket_amount = COALESCE(${params.minTicketAmount}::numeric, min_ticket_amount),
+          max_ticket_amount = COALESCE(${params.maxTicketAmount}::numeric, max_ticket_amount),
+          min_interest_rate = COALESCE(${params.minInterestRate}::numeric, min_interest_rate),
+          term_in_months_options = COALESCE(${params.termInMonthsOptions}::int[], term_in_months_options),
+          max_exposure_amount = COALESCE(${params.maxExposureAmount}::numeric, max_exposure_amount),
+          status = COALESCE(${params.status}::text, status),
+          updated_date = ${params.updatedDate.toISOString()}
+        WHERE id = ${params.ruleId}
+      `;
+
+      if (params.collateralCurrencies) {
+        await tx.sql`
+          DELETE FROM loan_auto_lend_rule_collateral_currencies
+          WHERE loan_auto_lend_rule_id = ${params.ruleId}
+        `;
+
+        for (const collateralCurrency of params.collateralCurrencies) {
+          await tx.sql`
+            INSERT INTO loan_auto_lend_rule_collateral_currencies (
+              loan_auto_lend_rule_id,
+              collateral_currency_blockchain_key,
+              collateral_currency_token_id
+            )
+            VALUES (${params.ruleId}, ${collateralCurrency.blockchainKey}, ${collateralCurrency.tokenId})
+            ON CONFLICT DO NOTHING
+          `;
+        }
+      }
+
+      await tx.commitTransaction();
+
+      return await this.lenderViewsLoanAutoLendRule({
+        ruleId: params.ruleId,
+        lenderUserId: params.lenderUserId,
+      });
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the rule from creating offers. Offers it already funded stay published until they run out or expire.
+   */
+  async lenderDeletesLoanAutoLendRule(
+    params: LenderDeletesLoanAutoLendRuleParams,
+  ): Promise<LenderDeletesLoanAutoLendRuleResult> {
+    const updatedRows = await this.sql`
+      UPDATE loan_auto_lend_rules
+      SET
+        status = 'Deleted',
+        deleted_date = ${params.deletedDate.toISOString()},
+        updated_date = ${params.deletedDate.toISOString()}
+      WHERE id = ${params.ruleId}
+        AND lender_user_id = ${params.lenderUserId}
+        AND status != 'Deleted'
+      RETURNING id
+    `;
+
+    if (updatedRows.length === 0) {
+      throw new Error('Auto-lend rule not found or access denied');
+    }
+
+    return await this.lenderViewsLoanAutoLendRule({
+      ruleId: params.ruleId,
+      lenderUserId: params.lenderUserId,
+    });
+  }
+
+  async lenderViewsLoanAutoLendRule(
+    params: LenderViewsLoanAutoLendRuleParams,
+  ): Promise<LenderViewsLoanAutoLendRuleResult> {
+    const { rules } = await this.lenderViewsLoanAutoLendRules({
+      lenderUserId: params.lenderUserId,
+      ruleId: params.ruleId,
+    });
+
+    const rule = rules[0];
+    if (!rule) {
+      throw new Error('Auto-lend rule not found or access denied');
+    }
+
+    return rule;
+  }
+
+  async lenderViewsLoanAutoLendRules(
+    params: LenderViewsLoanAutoLendRulesParams,
+  ): Promise<LenderViewsLoanAutoLendRulesResult> {
+    const { lenderUserId, status, ruleId } = params;
+
+    const ruleRows = await this.sql`
+      SELECT
+        alr.id,
+        alr.lender_user_id,
+        alr.principal_currency_blockchain_key,
+        alr.principal_currency_token_id,
+        c.decimals AS principal_decimals,
+        c.symbol AS principal_symbol,
+        c.name AS principal_name,
+        alr.min_ticket_amount,
+        alr.max_ticket_amount,
+        alr.min_interest_rate,
+        alr.term_in_months_options,
+        alr.max_exposure_amount,
+        alr.status,
+        alr.created_date,
+        alr.updated_date,
+        alr.last_replenished_date,
+        COALESCE((
+          SELECT SUM(lo.available_principal_amount + lo.reserved_principal_amount)
+          FROM loan_offers lo
+          WHERE lo.loan_auto_lend_rule_id = alr.id
+            AND lo.status IN ('Funding', 'Published')
+        ), 0) + COALESCE((
+          SELECT SUM(l.principal_amount)
+          FROM loans l
+          JOIN loan_offers lo ON l.loan_offer_id = lo.id
+          JOIN loan_positions lp ON lp.loan_id = l.id
+          WHERE lo.loan_auto_lend_rule_id = alr.id
+            AND lp.lender_user_id = alr.lender_user_id
+            AND l.status IN ('Originated', 'Active')
+        ), 0) AS current_exposure_amount
+      FROM loan_auto_lend_rules alr
+      JOIN currencies c ON c.blockchain_key = alr.principal_currency_blockchain_key
+        AND c.token_id = alr.principal_currency_token_id
+      WHERE alr.lender_user_id = ${lenderUserId}
+        AND (${ruleId}::text IS NULL OR alr.id = ${ruleId}::bigint)
+        AND (
+          (${status}::text IS NULL AND alr.status != 'Deleted')
+          OR alr.status = ${status}
+        )
+      ORDER BY alr.created_date DESC, alr.id DESC
+    `;
+
+    const ruleIds = ruleRows.map(function (row) {
+      assertDefined(row, 'Auto-lend rule row is undefined');
+      assertProp(check(isString, isNumber), row, 'id');
+      return String(row.id);
+    });
+
+    const collateralRows =
+      ruleIds.length > 0
+        ? await this.sql`
+            SELECT loan_auto_lend_rule_id, collateral_currency_blockchain_key, collateral_currency_token_id
+            FROM loan_auto_lend_rule_collateral_currencies
+            WHERE loan_auto_lend_rule_id = ANY(${ruleIds})
+            ORDER BY collateral_currency_blockchain_key, collateral_currency_token_id
+          `
+        : [];
+
+    return {
+      rules: ruleRows.map(row => mapLoanAutoLendRuleRow(row, collateralRows)),
+    };
+  }
 }
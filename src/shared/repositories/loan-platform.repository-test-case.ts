@@ -9,6 +9,7 @@ import {
   assertPropString,
   check,
   isInstanceOf,
+  isNullable,
   isNumber,
   isString,
 } from 'typeshaper';
@@ -955,6 +956,7 @@ export async function runLoanPlatformRepositoryTestSuite(
 
     describe('Loan Operations', function () {
       let originatedLoan: PlatformOriginatesLoanResult;
+      let borrowerUserId: string;
 
       beforeEach(async function () {
         // Setup complete loan workflow up to origination
@@ -971,6 +973,7 @@ export async function runLoanPlatformRepositoryTestSuite(
           emailVerified: true,
         });
         assertPropString(borrower, 'id');
+        borrowerUserId = borrower.id;
 
         await repo.testCreatesBlockchains({
           blockchains: [{ key: 'ethereum', name: 'Ethereum', shortName: 'ETH', image: 'eth.png' }],
@@ -995,8 +998,8 @@ export async function runLoanPlatformRepositoryTestSuite(
           baseCurrencyTokenId: 'slip44:714',
           quoteCurrencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
           source: 'test',
-          bidPrice: 2000,
-          askPrice: 2010,
+          bidPrice: 2000 * 10 ** 12,
+          askPrice: 2010 * 10 ** 12,
           sourceDate: new Date('2024-01-01T10:00:00.000Z'),
         });
 
@@ -1174,6 +1177,132 @@ export async function runLoanPlatformRepositoryTestSuite(
           equal(valuationResult.collateralValuationAmount, collateralValuationAmount);
         });
 
+        it('should record the price basis shown in the valuation history', async function () {
+          const { exchangeRateId } = await repo.testSetupPriceFeeds({
+            blockchainKey: 'eip155:56',
+            baseCurrencyTokenId: 'slip44:714',
+            quoteCurrencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+            source: 'test_twap',
+            bidPrice: 1800,
+            askPrice: 1810,
+            sourceDate: new Date('2024-01-10T10:00:00.000Z'),
+          });
+
+          await repo.platformUpdatesLoanValuations({
+            loanId: originatedLoan.id,
+            exchangeRateId,
+            valuationDate: new Date('2024-01-10T10:00:00.000Z'),
+            ltvRatio: 0.7,
+            collateralValuationAmount: '712250000',
+            priceBasis: {
+              priceMode: 'Twap',
+              valuationPrice: '1850.123456789012',
+              priceWindowStartDate: new Date('2024-01-10T09:30:00.000Z'),
+              priceSampleCount: 4,
+            },
+          });
+
+          const history = await repo.userViewsLoanValuationHistory({
+            loanId: originatedLoan.id,
+            userId: borrowerUserId,
+          });
+
+          const valuation = history.data.find(entry => entry.exchangeRateId === exchangeRateId);
+          deepEqual(valuation?.priceBasis, {
+            priceMode: 'Twap',
+            valuationPrice: '1850.123456789012',
+            priceWindowStartDate: new Date('2024-01-10T09:30:00.000Z'),
+            priceSampleCount: 4,
+          });
+        });
+
+        it('should store the LTV warning state and record level changes only', async function () {
+          const { exchangeRateId } = await repo.testSetupPriceFeeds({
+            blockchainKey: 'eip155:56',
+            baseCurrencyTokenId: 'slip44:714',
+            quoteCurrencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+            source: 'test_warning',
+            bidPrice: 1800,
+            askPrice: 1810,
+            sourceDate: new Date('2024-01-10T10:00:00.000Z'),
+          });
+          const breachDate = new Date('2024-01-10T10:00:00.000Z');
+          const recoveredDate = new Date('2024-01-10T12:00:00.000Z');
+
+          const breach = await repo.platformUpdatesLoanLtvWarningState({
+            loanId: originatedLoan.id,
+            state: {
+              warningLevel: 'warning1',
+              levelChangedDate: breachDate,
+              lastBreachLevel: 'warning1',
+              lastBreachDate: breachDate,
+            },
+            ltvRatio: 0.88,
+            exchangeRateId,
+            eventType: 'LtvBreached',
+            updatedDate: breachDate,
+          });
+          const unchanged = await repo.platformUpdatesLoanLtvWarningState({
+            loanId: originatedLoan.id,
+            previousWarningLevel: 'warning1',
+            state: {
+              warningLevel: 'warning1',
+              levelChangedDate: breachDate,
+              lastBreachLevel: 'warning1',
+              lastBreachDate: breachDate,
+            },
+            ltvRatio: 0.86,
+            exchangeRateId,
+            updatedDate: new Date('2024-01-10T11:00:00.000Z'),
+          });
+          await repo.platformUpdatesLoanLtvWarningState({
+            loanId: originatedLoan.id,
+            previousWarningLevel: 'warning1',
+            state: {
+              levelChangedDate: recoveredDate,
+              lastBreachLevel: 'warning1',
+              lastBreachDate: breachDate,
+              lastRecoveredDate: recoveredDate,
+            },
+            ltvRatio: 0.84,
+            exchangeRateId,
+            eventType: 'LtvRecovered',
+            updatedDate: recoveredDate,
+          });
+
+          ok(breach.transitionId);
+          equal(unchanged.transitionId, undefined);
+
+          const { transitions } = await repo.platformListsLoanLtvWarningTransitions({
+            loanId: originatedLoan.id,
+          });
+          deepEqual(
+            transitions.map(transition => ({
+              fromLevel: transition.fromLevel,
+              toLevel: transition.toLevel,
+              ltvRatio: transition.ltvRatio,
+              eventType: transition.eventType,
+              transitionDate: transition.transitionDate,
+            })),
+            [
+              {
+                fromLevel: 'warning1',
+                toLevel: undefined,
+                ltvRatio: 0.84,
+                eventType: 'LtvRecovered',
+                transitionDate: recoveredDate,
+              },
+              {
+                fromLevel: undefined,
+                toLevel: 'warning1',
+                ltvRatio: 0.88,
+                eventType: 'LtvBreached',
+                transitionDate: breachDate,
+              },
+            ],
+          );
+        });
+
         it('should reject updating valuation for non-existent loan', async function () {
           const { exchangeRateId } = await repo.testSetupPriceFeeds({
             blockchainKey: 'eip155:56',
@@ -1338,6 +1467,348 @@ export async function runLoanPlatformRepositoryTestSuite(
           );
         });
       });
+
+      describe('platformViewsLoanLiquidationCandidate', function () {
+        it('should return loan amounts and latest collateral exchange rate', async function () {
+          const candidate = await repo.platformViewsLoanLiquidationCandidate({
+            loanId: originatedLoan.id,
+          });
+
+          equal(candidate.loanId, originatedLoan.id);
+          equal(candidate.loanStatus, 'Originated');
+          equal(candidate.liquidationMode, 'Partial');
+          equal(candidate.collateralCurrency.tokenId, 'slip44:714');
+          equal(candidate.repaymentAmount, '1102500000000000');
+          equal(candidate.redeliveryAmount, '1076725000000000');
+          equal(candidate.collateralAmount, '770000000000000');
+          ok(candidate.exchangeRate);
+          equal(candidate.exchangeRate.bidPrice, '2000.000000000000');
+          equal(candidate.liquidation, undefined);
+        });
+
+        it('should reject viewing non-existent loan', async function () {
+          await rejects(
+            async () => {
+              await repo.platformViewsLoanLiquidationCandidate({ loanId: '999999' });
+            },
+            { message: 'Loan not found' },
+          );
+        });
+      });
+
+      describe('platformSettlesLiquidation', function () {
+        const fulfilledDate = new Date('2024-01-15T11:00:00.000Z');
+
+        beforeEach(async function () {
+          await repo.platformDisbursesPrincipal({
+            loanId: originatedLoan.id,
+            disbursementDate: new Date('2024-01-05T10:00:00.000Z'),
+          });
+
+          await repo.platformLiquidatesCollateral({
+            loanId: originatedLoan.id,
+            liquidationTargetAmount: '1132500000000000',
+            marketProvider: 'simulated',
+            marketSymbol: 'BNB/USDC',
+            orderRef: `liquidation_${originatedLoan.id}_1`,
+            orderQuantity: '200000000000000',
+            orderPrice: '2000000000000000000000',
+            orderDate: new Date('2024-01-15T10:00:00.000Z'),
+            liquidationInitiator: 'Platform',
+          });
+        });
+
+        it('should list pending liquidations', async function () {
+          const { liquidations } = await repo.platformListsPendingLiquidations({});
+
+          equal(liquidations.length, 1);
+          equal(liquidations[0].loanId, originatedLoan.id);
+          equal(liquidations[0].liquidation?.status, 'Pending');
+          equal(liquidations[0].liquidation?.marketProvider, 'simulated');
+        });
+
+        it('should distribute proceeds and mark loan as liquidated', async function () {
+          const settlementResult = await repo.platformSettlesLiquidation({
+            loanId: originatedLoan.id,
+            soldCollateralAmount: '200000000000000',
+            releasedCollateralAmount: '50000000000000',
+            fulfilledAmount: '1200000000000000',
+            lenderRepaymentAmount: '1076725000000000',
+            platformFeeAmount: '45775000000000',
+            borrowerSurplusAmount: '77500000000000',
+            returnedPremiAmount: '10000000000000',
+            fulfilledDate,
+          });
+
+          equal(settlementResult.liquidationStatus, 'Fulfilled');
+          equal(settlementResult.loanStatus, 'Liquidated');
+
+          const loanRows = await repo.sql`
+            SELECT l.status, l.conclusion_reason, ll.status AS liquidation_status, ll.fulfilled_amount
+            FROM loans l
+            JOIN loan_liquidations ll ON ll.loan_id = l.id
+            WHERE l.id = ${originatedLoan.id}
+          `;
+          const loan = loanRows[0];
+          assertDefined(loan, 'Loan validation failed');
+          assertPropString(loan, 'status');
+          assertPropString(loan, 'liquidation_status');
+          equal(loan.status, 'Liquidated');
+          equal(loan.liquidation_status, 'Fulfilled');
+
+          const mutationRows = await repo.sql`
+            SELECT mutation_type, SUM(amount) AS total_amount
+            FROM account_mutations
+            WHERE loan_id = ${originatedLoan.id}
+              AND mutation_type LIKE 'LoanLiquidation%'
+            GROUP BY mutation_type
+            ORDER BY mutation_type
+          `;
+          const totals = Object.fromEntries(
+            mutationRows.map(function (row) {
+              assertDefined(row, 'Mutation validation failed');
+              assertPropString(row, 'mutation_type');
+              assertProp(check(isString, isNumber), row, 'total_amount');
+              return [row.mutation_type, String(row.total_amount)];
+            }),
+          );
+
+          deepEqual(totals, {
+            LoanLiquidationCollateralUsed: '-200000000000000',
+            LoanLiquidationFee: '45775000000000',
+            LoanLiquidationRelease: '0',
+            LoanLiquidationRepayment: '1076725000000000',
+            LoanLiquidationSurplus: '77500000000000',
+          });
+        });
+
+        it('should leave same-date platform mutations of other settlements unlinked', async function () {
+          await repo.sql`
+            INSERT INTO account_mutation_entries (
+              user_id,
+              currency_blockchain_key,
+              currency_token_id,
+              account_type,
+              mutation_type,
+              mutation_date,
+              amount
+            )
+            VALUES (
+              1,
+              ${originatedLoan.principalCurrency.blockchainKey},
+              ${originatedLoan.principalCurrency.tokenId},
+              'PlatformFee',
+              'LoanLiquidationFee',
+              ${fulfilledDate.toISOString()},
+              1000
+            )
+          `;
+
+          await repo.platformSettlesLiquidation({
+            loanId: originatedLoan.id,
+            soldCollateralAmount: '200000000000000',
+            releasedCollateralAmount: '0',
+            fulfilledAmount: '1200000000000000',
+            lenderRepaymentAmount: '1076725000000000',
+            platformFeeAmount: '45775000000000',
+            borrowerSurplusAmount: '77500000000000',
+            returnedPremiAmount: '0',
+            fulfilledDate,
+          });
+
+          const feeRows = await repo.sql`
+            SELECT loan_id, amount
+            FROM account_mutations
+            WHERE mutation_type = 'LoanLiquidationFee'
+            ORDER BY id
+          `;
+          deepEqual(
+            feeRows.map(function (row) {
+              assertDefined(row, 'Mutation validation failed');
+              assertProp(check(isNullable, isString, isNumber), row, 'loan_id');
+              assertProp(check(isString, isNumber), row, 'amount');
+              return [row.loan_id === null ? null : String(row.loan_id), String(row.amount)];
+            }),
+            [
+              [null, '1000'],
+              [String(originatedLoan.id), '45775000000000'],
+            ],
+          );
+        });
+
+        it('should mark pending liquidation as failed', async function () {
+          const failureDate = new Date('2024-01-15T11:00:00.000Z');
+          const failureResult = await repo.platformFailsLiquidation({
+            loanId: originatedLoan.id,
+            failureReason: 'Insufficient liquidity',
+            failureDate,
+          });
+
+          equal(failureResult.liquidationStatus, 'Failed');
+
+          await rejects(
+            async () => {
+              await repo.platformSettlesLiquidation({
+                loanId: originatedLoan.id,
+                soldCollateralAmount: '200000000000000',
+                releasedCollateralAmount: '0',
+                fulfilledAmount: '1200000000000000',
+                lenderRepaymentAmount: '1076725000000000',
+                platformFeeAmount: '0',
+                borrowerSurplusAmount: '0',
+                returnedPremiAmount: '0',
+                fulfilledDate,
+              });
+            },
+            { message: 'Cannot settle liquidation with status: Failed' },
+          );
+        });
+      });
+
+      describe('Market Circuit Breaker', function () {
+        const pair = {
+          blockchainKey: 'eip155:56',
+          baseCurrencyTokenId: 'slip44:714',
+          quoteCurrencyTokenId: 'erc20:0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d',
+        };
+        let crashExchangeRateId: string;
+
+        beforeEach(async function () {
+          await repo.platformDisbursesPrincipal({
+            loanId: originatedLoan.id,
+            disbursementDate: new Date('2024-01-05T10:00:00.000Z'),
+          });
+
+          ({ exchangeRateId: crashExchangeRateId } = await repo.testSetupPriceFeeds({
+            ...pair,
+            source: 'test_crash',
+            bidPrice: 1500,
+            askPrice: 1510,
+            sourceDate: new Date('2024-01-10T10:00:00.000Z'),
+          }));
+        });
+
+        it('should halt a pair once and block liquidation of loans priced by it', async function () {
+          const haltParams = {
+            ...pair,
+            priceChangeRate: 0.25,
+            triggerExchangeRateId: crashExchangeRateId,
+            haltedDate: new Date('2024-01-10T10:00:00.000Z'),
+          };
+
+          const { circuitBreaker } = await repo.platformHaltsMarket(haltParams);
+          equal(circuitBreaker.status, 'Halted');
+          equal(circuitBreaker.priceChangeRate, 0.25);
+          deepEqual(circuitBreaker.lastBreachDate, haltParams.haltedDate);
+
+          const { circuitBreaker: sameHalt } = await repo.platformHaltsMarket({
+            ...haltParams,
+            haltedDate: new Date('2024-01-10T10:05:00.000Z'),
+          });
+          equal(sameHalt.id, circuitBreaker.id);
+
+          const { circuitBreaker: extendedHalt } = await repo.platformRecordsMarketBreach({
+            circuitBreakerId: circuitBreaker.id,
+            priceChangeRate: 0.12,
+            breachDate: new Date('2024-01-10T10:10:00.000Z'),
+          });
+          equal(extendedHalt.priceChangeRate, 0.25);
+          deepEqual(extendedHalt.lastBreachDate, new Date('2024-01-10T10:10:00.000Z'));
+
+          const { circuitBreaker: loanHalt } = await repo.platformViewsLoanMarketHalt({
+            loanId: originatedLoan.id,
+          });
+          equal(loanHalt?.id, circuitBreaker.id);
+
+          const { circuitBreaker: resumed } = await repo.platformResumesMarket({
+            circuitBreakerId: circuitBreaker.id,
+            resumedDate: new Date('2024-01-10T11:00:00.000Z'),
+          });
+          equal(resumed?.status, 'Resumed');
+          equal(resumed?.resumedByUserId, undefined);
+
+          const { circuitBreaker: resumedTwice } = await repo.platformResumesMarket({
+            circuitBreakerId: circuitBreaker.id,
+            resumedDate: new Date('2024-01-10T11:05:00.000Z'),
+          });
+          equal(resumedTwice, undefined);
+
+          const { circuitBreaker: noHalt } = await repo.platformViewsLoanMarketHalt({
+            loanId: originatedLoan.id,
+          });
+          equal(noHalt, undefined);
+
+          const { circuitBreakers } = await repo.adminListsMarketCircuitBreakers({
+            status: 'Resumed',
+          });
+          deepEqual(
+            circuitBreakers.map(breaker => breaker.id),
+            [circuitBreaker.id],
+          );
+        });
+
+        it('should release deferred breaches once with the latest loan valuation', async function () {
+          const { circuitBreaker } = await repo.platformHaltsMarket({
+            ...pair,
+            priceChangeRate: 0.25,
+            triggerExchangeRateId: crashExchangeRateId,
+            haltedDate: new Date('2024-01-10T10:00:00.000Z'),
+          });
+
+          await repo.platformUpdatesLoanValuations({
+            loanId: originatedLoan.id,
+            exchangeRateId: crashExchangeRateId,
+            valuationDate: new Date('2024-01-10T10:00:00.000Z'),
+            ltvRatio: 0.92,
+            collateralValuationAmount: '1160000000000000',
+            debtAmount: '1087500000000000',
+          });
+
+          for (const [thresholdLevel, ltvRatio] of [
+            ['warning1', 0.88],
+            ['warning2', 0.92],
+            ['warning2', 0.93],
+          ] as const) {
+            await repo.platformDefersLtvBreach({
+              circuitBreakerId: circuitBreaker.id,
+              loanId: originatedLoan.id,
+              thresholdLevel,
+              exchangeRateId: crashExchangeRateId,
+              ltvRatio,
+              deferredDate: new Date('2024-01-10T10:00:00.000Z'),
+            });
+          }
+
+          const releasedDate = new Date('2024-01-10T11:00:00.000Z');
+          const { releasedBreaches } = await repo.platformReleasesDeferredLtvBreaches({
+            circuitBreakerId: circuitBreaker.id,
+            releasedDate,
+          });
+
+          deepEqual(
+            releasedBreaches.map(breach => [breach.thresholdLevel, breach.deferredLtvRatio]).sort(),
+            [
+              ['warning1', 0.88],
+              ['warning2', 0.93],
+            ],
+          );
+          equal(releasedBreaches[0].loanStatus, 'Active');
+          deepEqual(releasedBreaches[0].latestValuation, {
+            exchangeRateId: crashExchangeRateId,
+            valuationDate: new Date('2024-01-10T10:00:00.000Z'),
+            ltvRatio: 0.92,
+            collateralValuationAmount: '1160000000000000',
+            debtAmount: '1087500000000000',
+          });
+
+          const { releasedBreaches: releasedAgain } =
+            await repo.platformReleasesDeferredLtvBreaches({
+              circuitBreakerId: circuitBreaker.id,
+              releasedDate,
+            });
+          equal(releasedAgain.length, 0);
+        });
+      });
     });
   });
 }
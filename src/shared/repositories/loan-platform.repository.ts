@@ -12,28 +12,583 @@ import {
   isString,
 } from 'typeshaper';
 
+import { fromLowestDenomination, toLowestDenomination } from '../utils/decimal';
 import {
+  AdminListsMarketCircuitBreakersParams,
+  AdminListsMarketCircuitBreakersResult,
+  LiquidationInitiator,
+  LiquidationMode,
+  LiquidationStatus,
+  LoanApplicationMatch,
   LoanApplicationStatus,
+  LoanAutoLendRule,
+  LoanAutoLendRuleStatus,
+  LoanCollateralTopUp,
+  LoanLiquidationCandidate,
+  LoanLtvWarningTransition,
+  LoanPartialRepayment,
+  LoanStatus,
+  LtvThresholdLevel,
+  LtvWarningEventType,
+  MarketCircuitBreaker,
+  MarketCircuitBreakerStatus,
+  MatchableLoanApplicationRecord,
+  MaturingLoan,
+  PlatformAppliesLoanCollateralTopUpParams,
+  PlatformAppliesLoanCollateralTopUpResult,
+  PlatformAppliesLoanPartialRepaymentParams,
+  PlatformAppliesLoanPartialRepaymentResult,
+  PlatformCreatesLoanRepaymentInvoiceParams,
+  PlatformCreatesLoanRepaymentInvoiceResult,
+  PlatformDefaultsLoanParams,
+  PlatformDefaultsLoanResult,
+  PlatformDefersLtvBreachParams,
+  PlatformDefersLtvBreachResult,
   PlatformDisbursesPrincipalParams,
   PlatformDisbursesPrincipalResult,
+  PlatformFailsLiquidationParams,
+  PlatformFailsLiquidationResult,
+  PlatformHaltsMarketParams,
+  PlatformHaltsMarketResult,
   PlatformLiquidatesCollateralParams,
   PlatformLiquidatesCollateralResult,
   PlatformListsAvailableLoanApplicationsParams,
   PlatformListsAvailableLoanApplicationsResult,
   PlatformListsAvailableLoanOffersParams,
   PlatformListsAvailableLoanOffersResult,
+  PlatformListsLoanAutoLendRulesToReplenishParams,
+  PlatformListsLoanAutoLendRulesToReplenishResult,
+  PlatformListsLoanLtvWarningTransitionsParams,
+  PlatformListsLoanLtvWarningTransitionsResult,
+  PlatformListsLoansDueForRepaymentInvoiceParams,
+  PlatformListsLoansDueForRepaymentInvoiceResult,
+  PlatformListsLoansDueForRepaymentReminderParams,
+  PlatformListsLoansDueForRepaymentReminderResult,
+  PlatformListsLoansPastGracePeriodParams,
+  PlatformListsLoansPastGracePeriodResult,
   PlatformListsMatchableLoanApplicationsParams,
   PlatformListsMatchableLoanApplicationsResult,
+  PlatformListsPendingLiquidationsParams,
+  PlatformListsPendingLiquidationsResult,
+  PlatformListsSettleableLoanRepaymentsParams,
+  PlatformListsSettleableLoanRepaymentsResult,
+  PlatformMarksLoanAutoLendRuleReplenishedParams,
+  PlatformMatchesLoanApplicationWithOffersParams,
+  PlatformMatchesLoanApplicationWithOffersResult,
   PlatformMatchesLoanOffersParams,
   PlatformMatchesLoanOffersResult,
   PlatformMonitorsLtvRatiosParams,
   PlatformMonitorsLtvRatiosResult,
   PlatformOriginatesLoanParams,
   PlatformOriginatesLoanResult,
+  PlatformOriginatesLoanTranchesParams,
+  PlatformOriginatesLoanTranchesResult,
+  PlatformPlacesLiquidationOrderParams,
+  PlatformPlacesLiquidationOrderResult,
+  PlatformRecordsLoanRepaymentReminderParams,
+  PlatformRecordsLoanRepaymentReminderResult,
+  PlatformRecordsMarketBreachParams,
+  PlatformRecordsMarketBreachResult,
+  PlatformReleasesDeferredLtvBreachesParams,
+  PlatformReleasesDeferredLtvBreachesResult,
+  PlatformResumesMarketParams,
+  PlatformResumesMarketResult,
+  PlatformSettlesLiquidationParams,
+  PlatformSettlesLiquidationResult,
+  PlatformSettlesLoanRepaymentParams,
+  PlatformSettlesLoanRepaymentResult,
+  PlatformUpdatesLoanLtvWarningStateParams,
+  PlatformUpdatesLoanLtvWarningStateResult,
   PlatformUpdatesLoanValuationsParams,
   PlatformUpdatesLoanValuationsResult,
+  PlatformViewsHaltedMarketParams,
+  PlatformViewsHaltedMarketResult,
+  PlatformViewsLoanCollateralTopUpParams,
+  PlatformViewsLoanCollateralTopUpResult,
+  PlatformViewsLoanLiquidationCandidateParams,
+  PlatformViewsLoanLiquidationCandidateResult,
+  PlatformViewsLoanMarketHaltParams,
+  PlatformViewsLoanMarketHaltResult,
+  PlatformViewsLoanPartialRepaymentParams,
+  PlatformViewsLoanPartialRepaymentResult,
+  PlatformViewsMatchableLoanApplicationParams,
+  PlatformViewsMatchableLoanApplicationResult,
 } from './loan.types';
 import { LoanUserRepository } from './loan-user.repository';
+import { EXCHANGE_RATE_DECIMALS } from './pricefeed.repository';
+
+function mapLoanLiquidationCandidateRow(row: unknown): LoanLiquidationCandidate {
+  assertDefined(row, 'Liquidation candidate row is undefined');
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertPropString(row, 'loan_status');
+  assertProp(check(isString, isNumber), row, 'lender_user_id');
+  assertProp(check(isString, isNumber), row, 'borrower_user_id');
+  assertPropString(row, 'liquidation_mode');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'principal_symbol');
+  assertPropString(row, 'principal_name');
+  assertPropString(row, 'collateral_currency_blockchain_key');
+  assertPropString(row, 'collateral_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'collateral_decimals');
+  assertPropString(row, 'collateral_symbol');
+  assertPropString(row, 'collateral_name');
+  assertProp(check(isString, isNumber), row, 'principal_amount');
+  assertProp(check(isString, isNumber), row, 'repayment_amount');
+  assertProp(check(isString, isNumber), row, 'redelivery_amount');
+  assertProp(check(isString, isNumber), row, 'premi_amount');
+  assertProp(check(isString, isNumber), row, 'liquidation_fee_amount');
+  assertProp(check(isString, isNumber), row, 'collateral_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'current_ltv_ratio');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_id');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_bid_price');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_ask_price');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'exchange_rate_source_date');
+  assertPropNullableString(row, 'liquidation_initiator');
+  assertProp(check(isNullable, isString, isNumber), row, 'liquidation_target_amount');
+  assertPropNullableString(row, 'market_provider');
+  assertPropNullableString(row, 'market_symbol');
+  assertPropNullableString(row, 'order_ref');
+  assertProp(check(isNullable, isString, isNumber), row, 'order_quantity');
+  assertProp(check(isNullable, isString, isNumber), row, 'order_price');
+  assertPropNullableString(row, 'liquidation_status');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'order_date');
+
+  return {
+    loanId: String(row.loan_id),
+    loanStatus: row.loan_status as LoanStatus,
+    lenderUserId: String(row.lender_user_id),
+    borrowerUserId: String(row.borrower_user_id),
+    liquidationMode: row.liquidation_mode as LiquidationMode,
+    principalCurrency: {
+      blockchainKey: row.principal_currency_blockchain_key,
+      tokenId: row.principal_currency_token_id,
+      decimals: Number(row.principal_decimals),
+      symbol: row.principal_symbol,
+      name: row.principal_name,
+    },
+    collateralCurrency: {
+      blockchainKey: row.collateral_currency_blockchain_key,
+      tokenId: row.collateral_currency_token_id,
+      decimals: Number(row.collateral_decimals),
+      symbol: row.collateral_symbol,
+      name: row.collateral_name,
+    },
+    principalAmount: String(row.principal_amount),
+    repaymentAmount: String(row.repayment_amount),
+    redeliveryAmount: String(row.redelivery_amount),
+    premiAmount: String(row.premi_amount),
+    liquidationFeeAmount: String(row.liquidation_fee_amount),
+    collateralAmount: String(row.collateral_amount),
+    currentLtvRatio: row.current_ltv_ratio !== null ? Number(row.current_ltv_ratio) : undefined,
+    exchangeRate:
+      row.exchange_rate_id !== null &&
+      row.exchange_rate_bid_price !== null &&
+      row.exchange_rate_ask_price !== null &&
+      row.exchange_rate_source_date !== null
+        ? {
+            id: String(row.exchange_rate_id),
+            bidPrice: fromLowestDenomination(
+              String(row.exchange_rate_bid_price),
+              EXCHANGE_RATE_DECIMALS,
+            ),
+            askPrice: fromLowestDenomination(
+              String(row.exchange_rate_ask_price),
+              EXCHANGE_RATE_DECIMALS,
+            ),
+            sourceDate: row.exchange_rate_source_date,
+          }
+        : undefined,
+    liquidation:
+      row.liquidation_status !== null &&
+      row.liquidation_target_amount !== null &&
+      row.order_date !== null
+        ? {
+            liquidationInitiator: row.liquidation_initiator as LiquidationInitiator,
+            liquidationTargetAmount: String(row.liquidation_target_amount),
+            marketProvider: row.market_provider ?? undefined,
+            marketSymbol: row.market_symbol ?? undefined,
+            orderRef: row.order_ref ?? undefined,
+            orderQuantity: row.order_quantity !== null ? String(row.order_quantity) : undefined,
+            orderPrice: row.order_price !== null ? String(row.order_price) : undefined,
+            status: row.liquidation_status as LiquidationStatus,
+            orderDate: row.order_date,
+          }
+        : undefined,
+  };
+}
+
+function mapMatchableLoanApplicationRow(row: unknown): MatchableLoanApplicationRecord {
+  assertDefined(row, 'Row should be defined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'borrower_user_id');
+  assertPropNullableString(row, 'loan_offer_id');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_amount');
+  assertProp(check(isString, isNumber), row, 'max_interest_rate');
+  assertProp(check(isString, isNumber), row, 'term_in_months');
+  assertPropString(row, 'collateral_currency_blockchain_key');
+  assertPropString(row, 'collateral_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'collateral_deposit_amount');
+  assertPropString(row, 'status');
+  assertProp(isInstanceOf(Date), row, 'applied_date');
+  assertProp(isInstanceOf(Date), row, 'expired_date');
+  assertPropNullableString(row, 'matched_loan_offer_id');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'principal_symbol');
+  assertPropString(row, 'principal_name');
+
+  return {
+    id: String(row.id),
+    borrowerUserId: String(row.borrower_user_id),
+    loanOfferId: row.loan_offer_id || undefined,
+    principalCurrency: {
+      blockchainKey: row.principal_currency_blockchain_key,
+      tokenId: row.principal_currency_token_id,
+      decimals: Number(row.principal_decimals),
+      symbol: row.principal_symbol,
+      name: row.principal_name,
+    },
+    principalAmount: String(row.principal_amount),
+    maxInterestRate: Number(row.max_interest_rate),
+    termInMonths: Number(row.term_in_months),
+    collateralBlockchainKey: row.collateral_currency_blockchain_key,
+    collateralTokenId: row.collateral_currency_token_id,
+    collateralDepositAmount: String(row.collateral_deposit_amount),
+    principalBlockchainKey: row.principal_currency_blockchain_key,
+    principalTokenId: row.principal_currency_token_id,
+    status: row.status as LoanApplicationStatus,
+    appliedDate: row.applied_date,
+    expirationDate: row.expired_date,
+    matchedLoanOfferId: row.matched_loan_offer_id || undefined,
+  };
+}
+
+function mapMaturingLoanRow(row: unknown): MaturingLoan {
+  assertDefined(row, 'Maturing loan row is undefined');
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertPropString(row, 'loan_status');
+  assertProp(check(isString, isNumber), row, 'borrower_user_id');
+  assertProp(check(isString, isNumber), row, 'lender_user_id');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'principal_symbol');
+  assertPropString(row, 'principal_name');
+  assertProp(check(isString, isNumber), row, 'repayment_amount');
+  assertProp(check(isString, isNumber), row, 'premi_amount');
+  assertProp(check(isString, isNumber), row, 'liquidation_fee_amount');
+  assertProp(isInstanceOf(Date), row, 'maturity_date');
+  assertPropNullableString(row, 'repayment_initiator');
+  assertProp(check(isNullable, isString, isNumber), row, 'repayment_invoice_id');
+  assertProp(check(isString, isNumber), row, 'repayment_paid_amount');
+
+  return {
+    loanId: String(row.loan_id),
+    loanStatus: row.loan_status as LoanStatus,
+    borrowerUserId: String(row.borrower_user_id),
+    lenderUserId: String(row.lender_user_id),
+    principalCurrency: {
+      blockchainKey: row.principal_currency_blockchain_key,
+      tokenId: row.principal_currency_token_id,
+      decimals: Number(row.principal_decimals),
+      symbol: row.principal_symbol,
+      name: row.principal_name,
+    },
+    repaymentAmount: String(row.repayment_amount),
+    premiAmount: String(row.premi_amount),
+    liquidationFeeAmount: String(row.liquidation_fee_amount),
+    maturityDate: row.maturity_date,
+    repaymentInitiator: (row.repayment_initiator as 'Borrower' | 'Platform' | null) ?? undefined,
+    repaymentInvoiceId:
+      row.repayment_invoice_id !== null ? String(row.repayment_invoice_id) : undefined,
+    repaymentPaidAmount: String(row.repayment_paid_amount),
+  };
+}
+
+function mapLoanCollateralTopUpRow(row: unknown): LoanCollateralTopUp {
+  assertDefined(row, 'Collateral top-up row is undefined');
+  assertProp(check(isString, isNumber), row, 'invoice_id');
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertPropString(row, 'loan_status');
+  assertProp(check(isString, isNumber), row, 'borrower_user_id');
+  assertProp(check(isString, isNumber), row, 'top_up_amount');
+  assertPropString(row, 'invoice_status');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'paid_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'applied_date');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'principal_symbol');
+  assertPropString(row, 'principal_name');
+  assertPropString(row, 'collateral_currency_blockchain_key');
+  assertPropString(row, 'collateral_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'collateral_decimals');
+  assertPropString(row, 'collateral_symbol');
+  assertPropString(row, 'collateral_name');
+  assertProp(check(isString, isNumber), row, 'principal_amount');
+  assertProp(check(isString, isNumber), row, 'interest_amount');
+  assertProp(check(isString, isNumber), row, 'premi_amount');
+  assertProp(check(isString, isNumber), row, 'collateral_amount');
+  assertProp(check(isNullable, isString, isNumber), row, 'current_ltv_ratio');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_id');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_bid_price');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_ask_price');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'exchange_rate_source_date');
+
+  return {
+    invoiceId: String(row.invoice_id),
+    loanId: String(row.loan_id),
+    loanStatus: row.loan_status as LoanStatus,
+    borrowerUserId: String(row.borrower_user_id),
+    topUpAmount: String(row.top_up_amount),
+    invoiceStatus: row.invoice_status as LoanCollateralTopUp['invoiceStatus'],
+    paidDate: row.paid_date ?? undefined,
+    appliedDate: row.applied_date ?? undefined,
+    principalCurrency: {
+      blockchainKey: row.principal_currency_blockchain_key,
+      tokenId: row.principal_currency_token_id,
+      decimals: Number(row.principal_decimals),
+      symbol: row.principal_symbol,
+      name: row.principal_name,
+    },
+    collateralCurrency: {
+      blockchainKey: row.collateral_currency_blockchain_key,
+      tokenId: row.collateral_currency_token_id,
+      decimals: Number(row.collateral_decimals),
+      symbol: row.collateral_symbol,
+      name: row.collateral_name,
+    },
+    principalAmount: String(row.principal_amount),
+    interestAmount: String(row.interest_amount),
+    premiAmount: String(row.premi_amount),
+    collateralAmount: String(row.collateral_amount),
+    currentLtvRatio: row.current_ltv_ratio !== null ? Number(row.current_ltv_ratio) : undefined,
+    exchangeRate:
+      row.exchange_rate_id !== null &&
+      row.exchange_rate_bid_price !== null &&
+      row.exchange_rate_ask_price !== null &&
+      row.exchange_rate_source_date !== null
+        ? {
+            id: String(row.exchange_rate_id),
+            bidPrice: fromLowestDenomination(
+              String(row.exchange_rate_bid_price),
+              EXCHANGE_RATE_DECIMALS,
+            ),
+            askPrice: fromLowestDenomination(
+              String(row.exchange_rate_ask_price),
+              EXCHANGE_RATE_DECIMALS,
+            ),
+            sourceDate: row.exchange_rate_source_date,
+          }
+        : undefined,
+  };
+}
+
+export function mapLoanAutoLendRuleRow(row: unknown, collateralRows: unknown[]): LoanAutoLendRule {
+  assertDefined(row, 'Auto-lend rule row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'lender_user_id');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'principal_symbol');
+  assertPropString(row, 'principal_name');
+  assertProp(check(isString, isNumber), row, 'min_ticket_amount');
+  assertProp(check(isString, isNumber), row, 'max_ticket_amount');
+  assertProp(check(isString, isNumber), row, 'min_interest_rate');
+  assertProp(check(isString, isNumber), row, 'max_exposure_amount');
+  assertProp(check(isString, isNumber), row, 'current_exposure_amount');
+  assertPropString(row, 'status');
+  assertProp(isInstanceOf(Date), row, 'created_date');
+  assertProp(isInstanceOf(Date), row, 'updated_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'last_replenished_date');
+
+  const ruleId = String(row.id);
+  const collateralCurrencies = collateralRows
+    .map(function (collateralRow) {
+      assertDefined(collateralRow, 'Auto-lend rule collateral row is undefined');
+      assertProp(check(isString, isNumber), collateralRow, 'loan_auto_lend_rule_id');
+      assertPropString(collateralRow, 'collateral_currency_blockchain_key');
+      assertPropString(collateralRow, 'collateral_currency_token_id');
+      return collateralRow;
+    })
+    .filter(collateralRow => String(collateralRow.loan_auto_lend_rule_id) === ruleId)
+    .map(collateralRow => ({
+      blockchainKey: collateralRow.collateral_currency_blockchain_key,
+      tokenId: collateralRow.collateral_currency_token_id,
+    }));
+
+  return {
+    id: ruleId,
+    lenderUserId: String(row.lender_user_id),
+    principalCurrency: {
+      blockchainKey: row.principal_currency_blockchain_key,
+      tokenId: row.principal_currency_token_id,
+      decimals: Number(row.principal_decimals),
+      symbol: row.principal_symbol,
+      name: row.principal_name,
+    },
+    minTicketAmount: String(row.min_ticket_amount),
+    maxTicketAmount: String(row.max_ticket_amount),
+    minInterestRate: Number(row.min_interest_rate),
+    termInMonthsOptions: hasPropArray(row, 'term_in_months_options')
+      ? row.term_in_months_options.map(Number)
+      : [],
+    collateralCurrencies,
+    maxExposureAmount: String(row.max_exposure_amount),
+    currentExposureAmount: String(row.current_exposure_amount),
+    status: row.status as LoanAutoLendRuleStatus,
+    createdDate: row.created_date,
+    updatedDate: row.updated_date,
+    lastReplenishedDate: row.last_replenished_date ?? undefined,
+  };
+}
+
+function mapLoanPartialRepaymentRow(row: unknown): LoanPartialRepayment {
+  assertDefined(row, 'Partial repayment row is undefined');
+  assertProp(check(isString, isNumber), row, 'invoice_id');
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertPropString(row, 'loan_status');
+  assertProp(check(isString, isNumber), row, 'borrower_user_id');
+  assertProp(check(isString, isNumber), row, 'lender_user_id');
+  assertProp(check(isString, isNumber), row, 'repaid_principal_amount');
+  assertPropString(row, 'invoice_status');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'paid_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'applied_date');
+  assertPropString(row, 'principal_currency_blockchain_key');
+  assertPropString(row, 'principal_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'principal_decimals');
+  assertPropString(row, 'principal_symbol');
+  assertPropString(row, 'principal_name');
+  assertPropString(row, 'collateral_currency_blockchain_key');
+  assertPropString(row, 'collateral_currency_token_id');
+  assertProp(check(isString, isNumber), row, 'collateral_decimals');
+  assertPropString(row, 'collateral_symbol');
+  assertPropString(row, 'collateral_name');
+  assertProp(check(isString, isNumber), row, 'collateral_max_ltv');
+  assertProp(check(isString, isNumber), row, 'principal_amount');
+  assertProp(check(isString, isNumber), row, 'interest_amount');
+  assertProp(check(isString, isNumber), row, 'premi_amount');
+  assertProp(check(isString, isNumber), row, 'repayment_amount');
+  assertProp(check(isString, isNumber), row, 'redelivery_fee_amount');
+  assertProp(check(isString, isNumber), row, 'liquidation_fee_amount');
+  assertProp(check(isString, isNumber), row, 'collateral_amount');
+  assertProp(isInstanceOf(Date), row, 'origination_date');
+  assertProp(isInstanceOf(Date), row, 'maturity_date');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_id');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_bid_price');
+  assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_ask_price');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'exchange_rate_source_date');
+
+  return {
+    invoiceId: String(row.invoice_id),
+    loanId: String(row.loan_id),
+    loanStatus: row.loan_status as LoanStatus,
+    borrowerUserId: String(row.borrower_user_id),
+    lenderUserId: String(row.lender_user_id),
+    repaidPrincipalAmount: String(row.repaid_principal_amount),
+    invoiceStatus: row.invoice_status as LoanPartialRepayment['invoiceStatus'],
+    paidDate: row.paid_date ?? undefined,
+    appliedDate: row.applied_date ?? undefined,
+    principalCurrency: {
+      blockchainKey: row.principal_currency_blockchain_key,
+      tokenId: row.principal_currency_token_id,
+      decimals: Number(row.principal_decimals),
+      symbol: row.principal_symbol,
+      name: row.principal_name,
+    },
+    collateralCurrency: {
+      blockchainKey: row.collateral_currency_blockchain_key,
+      tokenId: row.collateral_currency_token_id,
+      decimals: Number(row.collateral_decimals),
+      symbol: row.collateral_symbol,
+      name: row.collateral_name,
+    },
+    principalAmount: String(row.principal_amount),
+    interestAmount: String(row.interest_amount),
+    premiAmount: String(row.premi_amount),
+    repaymentAmount: String(row.repayment_amount),
+    redeliveryFeeAmount: String(row.redelivery_fee_amount),
+    liquidationFeeAmount: String(row.liquidation_fee_amount),
+    collateralAmount: String(row.collateral_amount),
+    maxLtvRatio: Number(row.collateral_max_ltv),
+    originationDate: row.origination_date,
+    maturityDate: row.maturity_date,
+    exchangeRate:
+      row.exchange_rate_id !== null &&
+      row.exchange_rate_bid_price !== null &&
+      row.exchange_rate_ask_price !== null &&
+      row.exchange_rate_source_date !== null
+        ? {
+            id: String(row.exchange_rate_id),
+            bidPrice: fromLowestDenomination(
+              String(row.exchange_rate_bid_price),
+              EXCHANGE_RATE_DECIMALS,
+            ),
+            askPrice: fromLowestDenomination(
+              String(row.exchange_rate_ask_price),
+              EXCHANGE_RATE_DECIMALS,
+            ),
+            sourceDate: row.exchange_rate_source_date,
+          }
+        : undefined,
+  };
+}
+
+function mapMarketCircuitBreakerRow(row: unknown): MarketCircuitBreaker {
+  assertDefined(row, 'Market circuit breaker row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertPropString(row, 'blockchain_key');
+  assertPropString(row, 'base_currency_token_id');
+  assertPropString(row, 'quote_currency_token_id');
+  assertPropString(row, 'status');
+  assertProp(check(isString, isNumber), row, 'price_change_rate');
+  assertProp(check(isString, isNumber), row, 'trigger_exchange_rate_id');
+  assertProp(isInstanceOf(Date), row, 'halted_date');
+  assertProp(isInstanceOf(Date), row, 'last_breach_date');
+  assertProp(check(isNullable, isInstanceOf(Date)), row, 'resumed_date');
+  assertProp(check(isNullable, isString, isNumber), row, 'resumed_by_user_id');
+
+  return {
+    id: String(row.id),
+    blockchainKey: row.blockchain_key,
+    baseCurrencyTokenId: row.base_currency_token_id,
+    quoteCurrencyTokenId: row.quote_currency_token_id,
+    status: row.status as MarketCircuitBreakerStatus,
+    priceChangeRate: Number(row.price_change_rate),
+    triggerExchangeRateId: String(row.trigger_exchange_rate_id),
+    haltedDate: row.halted_date,
+    lastBreachDate: row.last_breach_date,
+    resumedDate: row.resumed_date ?? undefined,
+    resumedByUserId: row.resumed_by_user_id !== null ? String(row.resumed_by_user_id) : undefined,
+  };
+}
+
+function mapLoanLtvWarningTransitionRow(row: unknown): LoanLtvWarningTransition {
+  assertDefined(row, 'LTV warning transition row is undefined');
+  assertProp(check(isString, isNumber), row, 'id');
+  assertProp(check(isString, isNumber), row, 'loan_id');
+  assertProp(check(isNullable, isString), row, 'from_level');
+  assertProp(check(isNullable, isString), row, 'to_level');
+  assertProp(check(isString, isNumber), row, 'ltv_ratio');
+  assertProp(check(isString, isNumber), row, 'exchange_rate_id');
+  assertProp(check(isNullable, isString), row, 'event_type');
+  assertProp(isInstanceOf(Date), row, 'transition_date');
+
+  return {
+    id: String(row.id),
+    loanId: String(row.loan_id),
+    fromLevel: (row.from_level ?? undefined) as LtvThresholdLevel | undefined,
+    toLevel: (row.to_level ?? undefined) as LtvThresholdLevel | undefined,
+    ltvRatio: Number(row.ltv_ratio),
+    exchangeRateId: String(row.exchange_rate_id),
+    eventType: (row.event_type ?? undefined) as LtvWarningEventType | undefined,
+    transitionDate: row.transition_date,
+  };
+}
 
 /**
  * LoanPlatformRepository <- LoanUserRepository <- LoanBorrowerRepository <- LoanLenderRepository <- LoanTestRepository <- FinanceRepository <- UserRepository <- DatabaseRepository
@@ -43,8 +598,8 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
     params: PlatformListsAvailableLoanOffersParams,
   ): Promise<PlatformListsAvailableLoanOffersResult> {
     const {
-      collateralBlockchainKey: _collateralBlockchainKey,
-      collateralTokenId: _collateralTokenId,
+      collateralBlockchainKey,
+      collateralTokenId,
       principalBlockchainKey,
       principalTokenId,
       page = 1,
@@ -79,6 +634,17 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
         AND lo.available_principal_amount > 0
         AND (${principalBlockchainKey}::text IS NULL OR lo.principal_currency_blockchain_key = ${principalBlockchainKey})
         AND (${principalTokenId}::text IS NULL OR lo.principal_currency_token_id = ${principalTokenId})
+        AND (
+          ${collateralBlockchainKey}::text IS NULL
+          OR lo.loan_auto_lend_rule_id IS NULL
+          OR EXISTS (
+            SELECT 1
+            FROM loan_auto_lend_rule_collateral_currencies alrc
+            WHERE alrc.loan_auto_lend_rule_id = lo.loan_auto_lend_rule_id
+              AND alrc.collateral_currency_blockchain_key = ${collateralBlockchainKey}
+              AND alrc.collateral_currency_token_id = ${collateralTokenId}
+          )
+        )
     `;
 
     const countRow = countRows[0];
@@ -96,6 +662,7 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
         lo.max_loan_principal_amount,
         lo.interest_rate,
         lo.term_in_months_options,
+        lo.created_date,
         lo.expired_date,
         lo.published_date,
         c.blockchain_key,
@@ -113,6 +680,17 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
         AND lo.available_principal_amount > 0
         AND (${principalBlockchainKey}::text IS NULL OR lo.principal_currency_blockchain_key = ${principalBlockchainKey})
         AND (${principalTokenId}::text IS NULL OR lo.principal_currency_token_id = ${principalTokenId})
+        AND (
+          ${collateralBlockchainKey}::text IS NULL
+          OR lo.loan_auto_lend_rule_id IS NULL
+          OR EXISTS (
+            SELECT 1
+            FROM loan_auto_lend_rule_collateral_currencies alrc
+            WHERE alrc.loan_auto_lend_rule_id = lo.loan_auto_lend_rule_id
+              AND alrc.collateral_currency_blockchain_key = ${collateralBlockchainKey}
+              AND alrc.collateral_currency_token_id = ${collateralTokenId}
+          )
+        )
       ORDER BY lo.interest_rate ASC, lo.published_date DESC
       LIMIT ${validatedLimit}
       OFFSET ${offset}
@@ -126,6 +704,7 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
       assertProp(check(isString, isNumber), row, 'min_loan_principal_amount');
       assertProp(check(isString, isNumber), row, 'max_loan_principal_amount');
       assertProp(check(isString, isNumber), row, 'interest_rate');
+      assertProp(isInstanceOf(Date), row, 'created_date');
       assertProp(isInstanceOf(Date), row, 'expired_date');
       assertProp(isInstanceOf(Date), row, 'published_date');
       assertPropString(row, 'blockchain_key');
@@ -155,6 +734,7 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
         termInMonthsOptions: hasPropArray(row, 'term_in_months_options')
           ? row.term_in_months_options.map(Number)
           : [],
+        createdDate: row.created_date,
         expirationDate: row.expired_date,
         publishedDate: row.published_date,
       };
@@ -391,52 +971,7 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
     const totalCount = Number(countRow.total);
     const totalPages = Math.ceil(totalCount / validatedLimit);
 
-    const loanApplications = applicationRows.map(function (row: unknown) {
-      assertDefined(row, 'Row should be defined');
-      assertProp(check(isString, isNumber), row, 'id');
-      assertProp(check(isString, isNumber), row, 'borrower_user_id');
-      assertPropNullableString(row, 'loan_offer_id');
-      assertPropString(row, 'principal_currency_blockchain_key');
-      assertPropString(row, 'principal_currency_token_id');
-      assertProp(check(isString, isNumber), row, 'principal_amount');
-      assertProp(check(isString, isNumber), row, 'max_interest_rate');
-      assertProp(check(isString, isNumber), row, 'term_in_months');
-      assertPropString(row, 'collateral_currency_blockchain_key');
-      assertPropString(row, 'collateral_currency_token_id');
-      assertProp(check(isString, isNumber), row, 'collateral_deposit_amount');
-      assertPropString(row, 'status');
-      assertProp(isInstanceOf(Date), row, 'applied_date');
-      assertProp(isInstanceOf(Date), row, 'expired_date');
-      assertPropNullableString(row, 'matched_loan_offer_id');
-      assertProp(check(isString, isNumber), row, 'principal_decimals');
-      assertPropString(row, 'principal_symbol');
-      assertPropString(row, 'principal_name');
-
-      return {
-        id: String(row.id),
-        borrowerUserId: String(row.borrower_user_id),
-        loanOfferId: row.loan_offer_id || undefined,
-        principalCurrency: {
-          blockchainKey: row.principal_currency_blockchain_key,
-          tokenId: row.principal_currency_token_id,
-          decimals: Number(row.principal_decimals),
-          symbol: row.principal_symbol,
-          name: row.principal_name,
-        },
-        principalAmount: String(row.principal_amount),
-        maxInterestRate: Number(row.max_interest_rate),
-        termInMonths: Number(row.term_in_months),
-        collateralBlockchainKey: row.collateral_currency_blockchain_key,
-        collateralTokenId: row.collateral_currency_token_id,
-        collateralDepositAmount: String(row.collateral_deposit_amount),
-        principalBlockchainKey: row.principal_currency_blockchain_key,
-        principalTokenId: row.principal_currency_token_id,
-        status: row.status as LoanApplicationStatus,
-        appliedDate: row.applied_date,
-        expirationDate: row.expired_date,
-        matchedLoanOfferId: row.matched_loan_offer_id || undefined,
-      };
-    });
+    const loanApplications = applicationRows.map(mapMatchableLoanApplicationRow);
 
     return {
       loanApplications,
@@ -451,6 +986,42 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
     };
   }
 
+  /**
+   * Loan application in the shape used for matching, whatever its status
+   */
+  async platformViewsMatchableLoanApplication(
+    params: PlatformViewsMatchableLoanApplicationParams,
+  ): Promise<PlatformViewsMatchableLoanApplicationResult> {
+    const rows = await this.sql`
+      SELECT
+        la.id,
+        la.borrower_user_id,
+        la.loan_offer_id,
+        la.principal_currency_blockchain_key,
+        la.principal_currency_token_id,
+        la.principal_amount,
+        la.max_interest_rate,
+        la.term_in_months,
+        la.collateral_currency_blockchain_key,
+        la.collateral_currency_token_id,
+        la.collateral_deposit_amount,
+        la.status,
+        la.applied_date,
+        la.expired_date,
+        la.matched_loan_offer_id,
+        pc.decimals as principal_decimals,
+        pc.symbol as principal_symbol,
+        pc.name as principal_name
+      FROM loan_applications la
+      JOIN currencies pc ON la.principal_currency_blockchain_key = pc.blockchain_key
+        AND la.principal_currency_token_id = pc.token_id
+      WHERE la.id = ${params.loanApplicationId}
+    `;
+
+    return {
+      loanApplication: rows.length > 0 ? mapMatchableLoanApplicationRow(rows[0]) : undefined,
+    };
+  }
   async platformMatchesLoanOffers(
     params: PlatformMatchesLoanOffersParams,
   ): Promise<PlatformMatchesLoanOffersResult> {
@@ -465,10 +1036,12 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
     const tx = await this.beginTransaction();
     try {
       // Validate loan application exists and is in 'Published' status
+      // Rows are locked so a concurrent matching run waits here and then sees the match
       const applicationRows = await tx.sql`
         SELECT id, status, principal_amount, borrower_user_id
         FROM loan_applications
         WHERE id = ${loanApplicationId} AND status = 'Published'
+        FOR UPDATE
       `;
 
       if (applicationRows.length === 0) {
@@ -487,6 +1060,7 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
         SELECT id, status, available_principal_amount, lender_user_id
         FROM loan_offers
         WHERE id = ${loanOfferId} AND status = 'Published' AND available_principal_amount >= ${application.principal_amount}
+        FOR UPDATE
       `;
 
       if (offerRows.length === 0) {
@@ -740,6 +1314,377 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
     }
   }
 
+  async platformMatchesLoanApplicationWithOffers(
+    params: PlatformMatchesLoanApplicationWithOffersParams,
+  ): Promise<PlatformMatchesLoanApplicationWithOffersResult> {
+    const {
+      loanApplicationId,
+      allocations,
+      matchedDate,
+      matchedLtvRatio,
+      matchedCollateralValuationAmount,
+    } = params;
+
+    const bestAllocation = allocations[0];
+    if (!bestAllocation) {
+      throw new Error('At least one loan offer allocation is required');
+    }
+
+    const tx = await this.beginTransaction();
+    try {
+      // Validate loan application exists and is in 'Published' status
+      const applicationRows = await tx.sql`
+        SELECT id, principal_amount, collateral_deposit_amount, borrower_user_id
+        FROM loan_applications
+        WHERE id = ${loanApplicationId} AND status = 'Published'
+        FOR UPDATE
+      `;
+
+      if (applicationRows.length === 0) {
+        throw new Error('Loan application not found or not in Published status');
+      }
+
+      const application = applicationRows[0];
+      assertDefined(application, 'Application validation failed');
+      assertProp(check(isString, isNumber), application, 'id');
+      assertProp(check(isString, isNumber), application, 'principal_amount');
+      assertProp(check(isString, isNumber), application, 'collateral_deposit_amount');
+      assertProp(check(isString, isNumber), application, 'borrower_user_id');
+
+      const principalAmount = BigInt(application.principal_amount);
+      const collateralAmount = BigInt(application.collateral_deposit_amount);
+
+      const allocatedAmount = allocations.reduce(
+        (sum, allocation) => sum + BigInt(allocation.principalAmount),
+        0n,
+      );
+      if (allocatedAmount !== principalAmount) {
+        throw new Error(
+          `Allocated principal ${allocatedAmount} does not match application principal ${principalAmount}`,
+        );
+      }
+
+      const matches: LoanApplicationMatch[] = [];
+      let remainingCollateralAmount = collateralAmount;
+
+      for (const [index, allocation] of allocations.entries()) {
+        // Validate loan offer exists, is published, and has available principal for its tranche
+        const offerRows = await tx.sql`
+          SELECT id, lender_user_id
+          FROM loan_offers
+          WHERE id = ${allocation.loanOfferId}
+            AND status = 'Published'
+            AND available_principal_amount >= ${allocation.principalAmount}
+          FOR UPDATE
+        `;
+
+        if (offerRows.length === 0) {
+          throw new Error(
+            `Loan offer ${allocation.loanOfferId} not found, not published, or insufficient available principal`,
+          );
+        }
+
+        const offer = offerRows[0];
+        assertDefined(offer, 'Offer validation failed');
+        assertProp(check(isString, isNumber), offer, 'id');
+        assertProp(check(isString, isNumber), offer, 'lender_user_id');
+
+        if (String(application.borrower_user_id) === String(offer.lender_user_id)) {
+          throw new Error('Borrower and lender cannot be the same user');
+        }
+
+        // Collateral follows the principal share, the last tranche takes the rounding remainder
+        const trancheCollateralAmount =
+          index === allocations.length - 1
+            ? remainingCollateralAmount
+            : (collateralAmount * BigInt(allocation.principalAmount)) / principalAmount;
+        remainingCollateralAmount -= trancheCollateralAmount;
+
+        await tx.sql`
+          INSERT INTO loan_application_matches (
+            loan_application_id,
+            loan_offer_id,
+            principal_amount,
+            collateral_amount,
+            matched_date
+          )
+          VALUES (
+            ${loanApplicationId},
+            ${allocation.loanOfferId},
+            ${allocation.principalAmount},
+            ${trancheCollateralAmount.toString()},
+            ${matchedDate.toISOString()}
+          )
+        `;
+
+        // Reserve the tranche principal in loan offer
+        await tx.sql`
+          UPDATE loan_offers
+          SET reserved_principal_amount = reserved_principal_amount + ${allocation.principalAmount}
+          WHERE id = ${allocation.loanOfferId}
+        `;
+
+        matches.push({
+          loanOfferId: String(offer.id),
+          lenderUserId: String(offer.lender_user_id),
+          principalAmount: allocation.principalAmount,
+          collateralAmount: trancheCollateralAmount.toString(),
+        });
+      }
+
+      // The best priced offer stays the application's matched offer
+      await tx.sql`
+        UPDATE loan_applications
+        SET
+          status = 'Matched',
+          matched_date = ${matchedDate.toISOString()},
+          matched_loan_offer_id = ${bestAllocation.loanOfferId},
+          matched_ltv_ratio = ${matchedLtvRatio},
+          matched_collateral_valuation_amount = ${matchedCollateralValuationAmount}
+        WHERE id = ${loanApplicationId}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        loanApplicationId: String(loanApplicationId),
+        matches,
+        matchedDate,
+        matchedLtvRatio,
+        matchedCollateralValuationAmount,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformOriginatesLoanTranches(
+    params: PlatformOriginatesLoanTranchesParams,
+  ): Promise<PlatformOriginatesLoanTranchesResult> {
+    const { loanApplicationId, tranches, originationDate, maturityDate } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      // Get loan application details for validation and currency info
+      const detailRows = await tx.sql`
+        SELECT
+          la.id as app_id,
+          la.principal_currency_blockchain_key,
+          la.principal_currency_token_id,
+          la.collateral_currency_blockchain_key,
+          la.collateral_currency_token_id,
+          pc.decimals as principal_decimals,
+          pc.symbol as principal_symbol,
+          pc.name as principal_name,
+          cc.decimals as collateral_decimals,
+          cc.symbol as collateral_symbol,
+          cc.name as collateral_name
+        FROM loan_applications la
+        JOIN currencies pc ON la.principal_currency_blockchain_key = pc.blockchain_key
+          AND la.principal_currency_token_id = pc.token_id
+        JOIN currencies cc ON la.collateral_currency_blockchain_key = cc.blockchain_key
+          AND la.collateral_currency_token_id = cc.token_id
+        WHERE la.id = ${loanApplicationId}
+          AND la.status = 'Matched'
+        FOR UPDATE OF la
+      `;
+
+      if (detailRows.length === 0) {
+        throw new Error('Loan application not found or not in Matched status');
+      }
+
+      const details = detailRows[0];
+      assertDefined(details, 'Loan details validation failed');
+      assertProp(check(isString, isNumber), details, 'app_id');
+      assertPropString(details, 'principal_currency_blockchain_key');
+      assertPropString(details, 'principal_currency_token_id');
+      assertPropString(details, 'collateral_currency_blockchain_key');
+      assertPropString(details, 'collateral_currency_token_id');
+      assertProp(check(isString, isNumber), details, 'principal_decimals');
+      assertPropString(details, 'principal_symbol');
+      assertPropString(details, 'principal_name');
+      assertProp(check(isString, isNumber), details, 'collateral_decimals');
+      assertPropString(details, 'collateral_symbol');
+      assertPropString(details, 'collateral_name');
+
+      const loans: PlatformOriginatesLoanTranchesResult['loans'] = [];
+
+      for (const tranche of tranches) {
+        const matchRows = await tx.sql`
+          SELECT lam.principal_amount, lam.collateral_amount
+          FROM loan_application_matches lam
+          JOIN loan_offers lo ON lam.loan_offer_id = lo.id
+          WHERE lam.loan_application_id = ${loanApplicationId}
+            AND lam.loan_offer_id = ${tranche.loanOfferId}
+            AND lam.loan_id IS NULL
+            AND lo.status = 'Published'
+        `;
+
+        if (matchRows.length === 0) {
+          throw new Error(
+            `Loan offer ${tranche.loanOfferId} has no pending tranche for loan application ${loanApplicationId}`,
+          );
+        }
+
+        const match = matchRows[0];
+        assertDefined(match, 'Tranche validation failed');
+        assertProp(check(isString, isNumber), match, 'principal_amount');
+        assertProp(check(isString, isNumber), match, 'collateral_amount');
+
+        if (
+          BigInt(match.principal_amount) !== BigInt(tranche.principalAmount) ||
+          BigInt(match.collateral_amount) !== BigInt(tranche.collateralAmount)
+        ) {
+          throw new Error(
+            `Tranche of loan offer ${tranche.loanOfferId} does not match its allocated principal and collateral`,
+          );
+        }
+
+        // Create the loan record of this tranche
+        const loanRows = await tx.sql`
+          INSERT INTO loans (
+            loan_offer_id,
+            loan_application_id,
+            principal_currency_blockchain_key,
+            principal_currency_token_id,
+            principal_amount,
+            interest_amount,
+            repayment_amount,
+            redelivery_fee_amount,
+            redelivery_amount,
+            premi_amount,
+            liquidation_fee_amount,
+            min_collateral_valuation,
+            mc_ltv_ratio,
+            collateral_currency_blockchain_key,
+            collateral_currency_token_id,
+            collateral_amount,
+            status,
+            origination_date,
+            maturity_date
+          )
+          VALUES (
+            ${tranche.loanOfferId},
+            ${loanApplicationId},
+            ${details.principal_currency_blockchain_key},
+            ${details.principal_currency_token_id},
+            ${tranche.principalAmount},
+            ${tranche.interestAmount},
+            ${tranche.repaymentAmount},
+            ${tranche.redeliveryFeeAmount},
+            ${tranche.redeliveryAmount},
+            ${tranche.premiAmount},
+            ${tranche.liquidationFeeAmount},
+            ${tranche.minCollateralValuation},
+            ${tranche.mcLtvRatio},
+            ${details.collateral_currency_blockchain_key},
+            ${details.collateral_currency_token_id},
+            ${tranche.collateralAmount},
+            'Originated',
+            ${originationDate.toISOString()},
+            ${maturityDate.toISOString()}
+          )
+          RETURNING
+            id,
+            loan_offer_id,
+            loan_application_id,
+            principal_amount,
+            interest_amount,
+            repayment_amount,
+            collateral_amount,
+            status,
+            origination_date,
+            maturity_date,
+            mc_ltv_ratio
+        `;
+
+        const loan = loanRows[0];
+        assertDefined(loan, 'Loan creation failed');
+        assertProp(check(isString, isNumber), loan, 'id');
+        assertProp(check(isString, isNumber), loan, 'loan_offer_id');
+        assertProp(check(isString, isNumber), loan, 'loan_application_id');
+        assertProp(check(isString, isNumber), loan, 'principal_amount');
+        assertProp(check(isString, isNumber), loan, 'interest_amount');
+        assertProp(check(isString, isNumber), loan, 'repayment_amount');
+        assertProp(check(isString, isNumber), loan, 'collateral_amount');
+        assertPropString(loan, 'status');
+        assertProp(isInstanceOf(Date), loan, 'origination_date');
+        assertProp(isInstanceOf(Date), loan, 'maturity_date');
+        assertProp(check(isString, isNumber), loan, 'mc_ltv_ratio');
+
+        await tx.sql`
+          UPDATE loan_application_matches
+          SET loan_id = ${loan.id}
+          WHERE loan_application_id = ${loanApplicationId}
+            AND loan_offer_id = ${tranche.loanOfferId}
+        `;
+
+        // Update loan offer reserved and disbursed amounts
+        await tx.sql`
+          UPDATE loan_offers
+          SET
+            reserved_principal_amount = reserved_principal_amount - ${tranche.principalAmount},
+            disbursed_principal_amount = disbursed_principal_amount + ${tranche.principalAmount}
+          WHERE id = ${tranche.loanOfferId}
+        `;
+
+        loans.push({
+          id: String(loan.id),
+          loanOfferId: String(loan.loan_offer_id),
+          loanApplicationId: String(loan.loan_application_id),
+          principalCurrency: {
+            blockchainKey: details.principal_currency_blockchain_key,
+            tokenId: details.principal_currency_token_id,
+            decimals: Number(details.principal_decimals),
+            symbol: details.principal_symbol,
+            name: details.principal_name,
+          },
+          principalAmount: String(loan.principal_amount),
+          interestAmount: String(loan.interest_amount),
+          repaymentAmount: String(loan.repayment_amount),
+          collateralCurrency: {
+            blockchainKey: details.collateral_currency_blockchain_key,
+            tokenId: details.collateral_currency_token_id,
+            decimals: Number(details.collateral_decimals),
+            symbol: details.collateral_symbol,
+            name: details.collateral_name,
+          },
+          collateralAmount: String(loan.collateral_amount),
+          status: loan.status as LoanStatus,
+          originationDate: loan.origination_date,
+          maturityDate: loan.maturity_date,
+          mcLtvRatio: Number(loan.mc_ltv_ratio),
+        });
+      }
+
+      // A split application is originated as a whole, never with some tranches left behind
+      const pendingRows = await tx.sql`
+        SELECT COUNT(*) AS pending_count
+        FROM loan_application_matches
+        WHERE loan_application_id = ${loanApplicationId}
+          AND loan_id IS NULL
+      `;
+
+      const pending = pendingRows[0];
+      assertDefined(pending, 'Pending tranche count failed');
+      assertProp(check(isString, isNumber), pending, 'pending_count');
+
+      if (Number(pending.pending_count) > 0) {
+        throw new Error(
+          `Loan application ${loanApplicationId} still has ${pending.pending_count} tranches to originate`,
+        );
+      }
+
+      await tx.commitTransaction();
+
+      return { loans };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
   async platformDisbursesPrincipal(
     params: PlatformDisbursesPrincipalParams,
   ): Promise<PlatformDisbursesPrincipalResult> {
@@ -806,7 +1751,19 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
   async platformUpdatesLoanValuations(
     params: PlatformUpdatesLoanValuationsParams,
   ): Promise<PlatformUpdatesLoanValuationsResult> {
-    const { loanId, exchangeRateId, valuationDate, ltvRatio, collateralValuationAmount } = params;
+    const {
+      loanId,
+      exchangeRateId,
+      valuationDate,
+      ltvRatio,
+      collateralValuationAmount,
+      debtAmount,
+      priceBasis,
+    } = params;
+
+    const valuationPrice = priceBasis
+      ? toLowestDenomination(priceBasis.valuationPrice, EXCHANGE_RATE_DECIMALS)
+      : null;
 
     const tx = await this.beginTransaction();
     try {
@@ -835,19 +1792,34 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
           exchange_rate_id,
           valuation_date,
           ltv_ratio,
-          collateral_valuation_amount
+          collateral_valuation_amount,
+          debt_amount,
+          price_mode,
+          valuation_price,
+          price_window_start_date,
+          price_sample_count
         )
         VALUES (
           ${loanId},
           ${exchangeRateId},
           ${valuationDate.toISOString()},
           ${ltvRatio},
-          ${collateralValuationAmount}
+          ${collateralValuationAmount},
+          ${debtAmount ?? null},
+          ${priceBasis?.priceMode ?? null},
+          ${valuationPrice},
+          ${priceBasis?.priceWindowStartDate?.toISOString() ?? null},
+          ${priceBasis?.priceSampleCount ?? null}
         )
         ON CONFLICT (loan_id, exchange_rate_id) DO UPDATE SET
           valuation_date = ${valuationDate.toISOString()},
           ltv_ratio = ${ltvRatio},
-          collateral_valuation_amount = ${collateralValuationAmount}
+          collateral_valuation_amount = ${collateralValuationAmount},
+          debt_amount = ${debtAmount ?? null},
+          price_mode = ${priceBasis?.priceMode ?? null},
+          valuation_price = ${valuationPrice},
+          price_window_start_date = ${priceBasis?.priceWindowStartDate?.toISOString() ?? null},
+          price_sample_count = ${priceBasis?.priceSampleCount ?? null}
       `;
 
       // Update current LTV ratio in loans table
@@ -1034,4 +2006,1848 @@ export abstract class LoanPlatformRepository extends LoanUserRepository {
       throw error;
     }
   }
+
+  async platformViewsLoanLiquidationCandidate(
+    params: PlatformViewsLoanLiquidationCandidateParams,
+  ): Promise<PlatformViewsLoanLiquidationCandidateResult> {
+    const rows = await this.sql`
+      SELECT
+        l.id AS loan_id,
+        l.status AS loan_status,
+        lp.lender_user_id,
+        la.borrower_user_id,
+        la.liquidation_mode,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.collateral_currency_blockchain_key,
+        l.collateral_currency_token_id,
+        cc.decimals AS collateral_decimals,
+        cc.symbol AS collateral_symbol,
+        cc.name AS collateral_name,
+        l.principal_amount,
+        l.repayment_amount,
+        l.redelivery_amount,
+        l.premi_amount,
+        l.liquidation_fee_amount,
+        l.collateral_amount,
+        l.current_ltv_ratio,
+        er.id AS exchange_rate_id,
+        er.bid_price AS exchange_rate_bid_price,
+        er.ask_price AS exchange_rate_ask_price,
+        er.source_date AS exchange_rate_source_date,
+        ll.liquidation_initiator,
+        ll.liquidation_target_amount,
+        ll.market_provider,
+        ll.market_symbol,
+        ll.order_ref,
+        ll.order_quantity,
+        ll.order_price,
+        ll.status AS liquidation_status,
+        ll.order_date
+      FROM loans l
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
+        AND l.collateral_currency_token_id = cc.token_id
+      LEFT JOIN loan_liquidations ll ON ll.loan_id = l.id
+      LEFT JOIN LATERAL (
+        SELECT er.id, er.bid_price, er.ask_price, er.source_date
+        FROM exchange_rates er
+        JOIN price_feeds pf ON er.price_feed_id = pf.id
+        WHERE pf.base_currency_token_id = l.collateral_currency_token_id
+          AND pf.blockchain_key IN (l.collateral_currency_blockchain_key, 'crosschain')
+          AND pf.quote_currency_token_id IN (l.principal_currency_token_id, 'iso4217:usd')
+        ORDER BY er.source_date DESC, er.id DESC
+        LIMIT 1
+      ) er ON TRUE
+      WHERE l.id = ${params.loanId}
+    `;
+
+    if (rows.length === 0) {
+      throw new Error('Loan not found');
+    }
+
+    return mapLoanLiquidationCandidateRow(rows[0]);
+  }
+
+  async platformListsPendingLiquidations(
+    params: PlatformListsPendingLiquidationsParams,
+  ): Promise<PlatformListsPendingLiquidationsResult> {
+    const limit = params.limit ?? 50;
+
+    const rows = await this.sql`
+      SELECT
+        l.id AS loan_id,
+        l.status AS loan_status,
+        lp.lender_user_id,
+        la.borrower_user_id,
+        la.liquidation_mode,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.collateral_currency_blockchain_key,
+        l.collateral_currency_token_id,
+        cc.decimals AS collateral_decimals,
+        cc.symbol AS collateral_symbol,
+        cc.name AS collateral_name,
+        l.principal_amount,
+        l.repayment_amount,
+        l.redelivery_amount,
+        l.premi_amount,
+        l.liquidation_fee_amount,
+        l.collateral_amount,
+        l.current_ltv_ratio,
+        er.id AS exchange_rate_id,
+        er.bid_price AS exchange_rate_bid_price,
+        er.ask_price AS exchange_rate_ask_price,
+        er.source_date AS exchange_rate_source_date,
+        ll.liquidation_initiator,
+        ll.liquidation_target_amount,
+        ll.market_provider,
+        ll.market_symbol,
+        ll.order_ref,
+        ll.order_quantity,
+        ll.order_price,
+        ll.status AS liquidation_status,
+        ll.order_date
+      FROM loan_liquidations ll
+      JOIN loans l ON ll.loan_id = l.id
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
+        AND l.collateral_currency_token_id = cc.token_id
+      LEFT JOIN LATERAL (
+        SELECT er.id, er.bid_price, er.ask_price, er.source_date
+        FROM exchange_rates er
+        JOIN price_feeds pf ON er.price_feed_id = pf.id
+        WHERE pf.base_currency_token_id = l.collateral_currency_token_id
+          AND pf.blockchain_key IN (l.collateral_currency_blockchain_key, 'crosschain')
+          AND pf.quote_currency_token_id IN (l.principal_currency_token_id, 'iso4217:usd')
+        ORDER BY er.source_date DESC, er.id DESC
+        LIMIT 1
+      ) er ON TRUE
+      WHERE ll.status = 'Pending'
+        AND l.status IN ('Active', 'Originated', 'Defaulted')
+      ORDER BY ll.order_date ASC, ll.loan_id ASC
+      LIMIT ${limit}
+    `;
+
+    return {
+      liquidations: rows.map(mapLoanLiquidationCandidateRow),
+    };
+  }
+
+  async platformPlacesLiquidationOrder(
+    params: PlatformPlacesLiquidationOrderParams,
+  ): Promise<PlatformPlacesLiquidationOrderResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const liquidationRows = await tx.sql`
+        SELECT loan_id, status FROM loan_liquidations WHERE loan_id = ${params.loanId}
+      `;
+
+      if (liquidationRows.length === 0) {
+        throw new Error('Liquidation not found');
+      }
+
+      const liquidation = liquidationRows[0];
+      assertDefined(liquidation, 'Liquidation validation failed');
+      assertPropString(liquidation, 'status');
+
+      if (liquidation.status !== 'Pending') {
+        throw new Error(`Cannot place order for liquidation with status: ${liquidation.status}`);
+      }
+
+      await tx.sql`
+        UPDATE loan_liquidations
+        SET
+          liquidation_target_amount = ${params.liquidationTargetAmount},
+          market_provider = ${params.marketProvider},
+          market_symbol = ${params.marketSymbol},
+          order_ref = ${params.orderRef},
+          order_quantity = ${params.orderQuantity},
+          order_price = ${params.orderPrice},
+          order_date = ${params.orderDate.toISOString()}
+        WHERE loan_id = ${params.loanId}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(params.loanId),
+        liquidationStatus: 'Pending',
+        orderRef: params.orderRef,
+        orderDate: params.orderDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformSettlesLiquidation(
+    params: PlatformSettlesLiquidationParams,
+  ): Promise<PlatformSettlesLiquidationResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT
+          l.id,
+          l.status,
+          l.principal_currency_blockchain_key,
+          l.principal_currency_token_id,
+          l.collateral_currency_blockchain_key,
+          l.collateral_currency_token_id,
+          lp.lender_user_id,
+          la.borrower_user_id,
+          ll.status AS liquidation_status
+        FROM loans l
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        LEFT JOIN loan_liquidations ll ON ll.loan_id = l.id
+        WHERE l.id = ${params.loanId}
+      `;
+
+      if (loanRows.length === 0) {
+        throw new Error('Loan not found');
+      }
+
+      const loan = loanRows[0];
+      assertDefined(loan, 'Loan validation failed');
+      assertPropString(loan, 'status');
+      assertPropString(loan, 'principal_currency_blockchain_key');
+      assertPropString(loan, 'principal_currency_token_id');
+      assertPropString(loan, 'collateral_currency_blockchain_key');
+      assertPropString(loan, 'collateral_currency_token_id');
+      assertProp(check(isString, isNumber), loan, 'lender_user_id');
+      assertProp(check(isString, isNumber), loan, 'borrower_user_id');
+      assertPropNullableString(loan, 'liquidation_status');
+
+      if (loan.liquidation_status === null) {
+        throw new Error('Liquidation not found');
+      }
+
+      if (loan.liquidation_status !== 'Pending') {
+        throw new Error(`Cannot settle liquidation with status: ${loan.liquidation_status}`);
+      }
+
+      if (!['Active', 'Originated', 'Defaulted'].includes(loan.status)) {
+        throw new Error(`Cannot settle liquidation for loan with status: ${loan.status}`);
+      }
+
+      const fulfilledDate = params.fulfilledDate.toISOString();
+
+      // Collateral leaves platform escrow (sold or released), proceeds are distributed in principal currency.
+      // Mutations carry the loan id on insert, so they are never looked up again by date and user.
+      await tx.sql`
+        WITH entry AS (
+          SELECT *
+          FROM (
+            VALUES
+              (1, 1::BIGINT, ${loan.collateral_currency_blockchain_key}::TEXT, ${loan.collateral_currency_token_id}::TEXT, 'PlatformEscrow', 'LoanLiquidationCollateralUsed', -${params.soldCollateralAmount}::NUMERIC),
+              (2, 1::BIGINT, ${loan.collateral_currency_blockchain_key}::TEXT, ${loan.collateral_currency_token_id}::TEXT, 'PlatformEscrow', 'LoanLiquidationRelease', -${params.releasedCollateralAmount}::NUMERIC),
+              (3, ${loan.borrower_user_id}::BIGINT, ${loan.collateral_currency_blockchain_key}::TEXT, ${loan.collateral_currency_token_id}::TEXT, 'User', 'LoanLiquidationRelease', ${params.releasedCollateralAmount}::NUMERIC),
+              (4, ${loan.lender_user_id}::BIGINT, ${loan.principal_currency_blockchain_key}::TEXT, ${loan.principal_currency_token_id}::TEXT, 'User', 'LoanLiquidationRepayment', ${params.lenderRepaymentAmount}::NUMERIC),
+              (5, 1::BIGINT, ${loan.principal_currency_blockchain_key}::TEXT, ${loan.principal_currency_token_id}::TEXT, 'PlatformFee', 'LoanLiquidationFee', ${params.platformFeeAmount}::NUMERIC),
+              (6, ${loan.borrower_user_id}::BIGINT, ${loan.principal_currency_blockchain_key}::TEXT, ${loan.principal_currency_token_id}::TEXT, 'User', 'LoanLiquidationSurplus', ${params.borrowerSurplusAmount}::NUMERIC)
+          ) AS entry (seq, user_id, currency_blockchain_key, currency_token_id, account_type, mutation_type, amount)
+          WHERE entry.amount != 0
+        ),
+        created_accounts AS (
+          INSERT INTO accounts (user_id, currency_blockchain_key, currency_token_id, account_type)
+          SELECT DISTINCT user_id, currency_blockchain_key, currency_token_id, account_type
+          FROM entry
+          ON CONFLICT (user_id, currency_blockchain_key, currency_token_id, account_type) DO NOTHING
+          RETURNING id, user_id, currency_blockchain_key, currency_token_id, account_type
+        )
+        INSERT INTO account_mutations (account_id, loan_id, mutation_type, mutation_date, amount)
+        SELECT
+          COALESCE(accounts.id, created_accounts.id),
+          ${params.loanId},
+          entry.mutation_type,
+          ${fulfilledDate}::TIMESTAMP,
+          entry.amount
+        FROM entry
+        LEFT JOIN accounts
+          ON accounts.user_id = entry.user_id
+          AND accounts.currency_blockchain_key = entry.currency_blockchain_key
+          AND accounts.currency_token_id = entry.currency_token_id
+          AND accounts.account_type = entry.account_type
+        LEFT JOIN created_accounts
+          ON created_accounts.user_id = entry.user_id
+          AND created_accounts.currency_blockchain_key = entry.currency_blockchain_key
+          AND created_accounts.currency_token_id = entry.currency_token_id
+          AND created_accounts.account_type = entry.account_type
+        ORDER BY entry.seq
+      `;
+
+      await tx.sql`
+        UPDATE loan_liquidations
+        SET
+          status = 'Fulfilled',
+          fulfilled_date = ${fulfilledDate},
+          fulfilled_amount = ${params.fulfilledAmount},
+          order_quantity = ${params.soldCollateralAmount},
+          returned_premi_amount = ${params.returnedPremiAmount}
+        WHERE loan_id = ${params.loanId}
+      `;
+
+      // Defaulted loans keep their status, the liquidation only recovers the outstanding debt
+      const loanStatus: LoanStatus = loan.status === 'Defaulted' ? 'Defaulted' : 'Liquidated';
+
+      await tx.sql`
+        UPDATE loans
+        SET
+          status = ${loanStatus},
+          concluded_date = ${fulfilledDate},
+          conclusion_reason = 'Liquidation'
+        WHERE id = ${params.loanId}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(params.loanId),
+        liquidationStatus: 'Fulfilled',
+        loanStatus,
+        fulfilledAmount: params.fulfilledAmount,
+        fulfilledDate: params.fulfilledDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformFailsLiquidation(
+    params: PlatformFailsLiquidationParams,
+  ): Promise<PlatformFailsLiquidationResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const updateRows = await tx.sql`
+        UPDATE loan_liquidations
+        SET
+          status = 'Failed',
+          failure_date = ${params.failureDate.toISOString()},
+          failure_reason = ${params.failureReason}
+        WHERE loan_id = ${params.loanId}
+          AND status = 'Pending'
+        RETURNING loan_id
+      `;
+
+      if (updateRows.length === 0) {
+        throw new Error('Pending liquidation not found');
+      }
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(params.loanId),
+        liquidationStatus: 'Failed',
+        failureDate: params.failureDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformListsLoansDueForRepaymentInvoice(
+    params: PlatformListsLoansDueForRepaymentInvoiceParams,
+  ): Promise<PlatformListsLoansDueForRepaymentInvoiceResult> {
+    const asOfDate = params.asOfDate.toISOString();
+    const limit = params.limit ?? 50;
+
+    // Repayment invoices are issued platform_configs.loan_repayment_duration_in_days before maturity
+    const rows = await this.sql`
+      SELECT
+        l.id AS loan_id,
+        l.status AS loan_status,
+        la.borrower_user_id,
+        lp.lender_user_id,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.repayment_amount,
+        l.premi_amount,
+        l.liquidation_fee_amount,
+        l.maturity_date,
+        NULL AS repayment_initiator,
+        NULL AS repayment_invoice_id,
+        0 AS repayment_paid_amount
+      FROM loans l
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      LEFT JOIN loan_repayments lr ON lr.loan_id = l.id
+      WHERE l.status = 'Active'
+        AND l.maturity_date IS NOT NULL
+        AND lr.loan_id IS NULL
+        AND l.maturity_date <= ${asOfDate}::TIMESTAMP + make_interval(days => (
+          SELECT loan_repayment_duration_in_days
+          FROM platform_configs
+          WHERE effective_date <= ${asOfDate}
+          ORDER BY effective_date DESC
+          LIMIT 1
+        ))
+      ORDER BY l.maturity_date ASC, l.id ASC
+      LIMIT ${limit}
+    `;
+
+    return {
+      loans: rows.map(mapMaturingLoanRow),
+    };
+  }
+
+  async platformCreatesLoanRepaymentInvoice(
+    params: PlatformCreatesLoanRepaymentInvoiceParams,
+  ): Promise<PlatformCreatesLoanRepaymentInvoiceResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT
+          l.id,
+          l.status,
+          l.principal_currency_blockchain_key,
+          l.principal_currency_token_id,
+          l.repayment_amount,
+          la.borrower_user_id,
+          lr.loan_id AS repayment_loan_id
+        FROM loans l
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        LEFT JOIN loan_repayments lr ON lr.loan_id = l.id
+        WHERE l.id = ${params.loanId}
+      `;
+
+      if (loanRows.length === 0) {
+        throw new Error('Loan not found');
+      }
+
+      const loan = loanRows[0];
+      assertDefined(loan, 'Loan validation failed');
+      assertPropString(loan, 'status');
+      assertPropString(loan, 'principal_currency_blockchain_key');
+      assertPropString(loan, 'principal_currency_token_id');
+      assertProp(check(isString, isNumber), loan, 'repayment_amount');
+      assertProp(check(isString, isNumber), loan, 'borrower_user_id');
+      assertProp(check(isNullable, isString, isNumber), loan, 'repayment_loan_id');
+
+      if (loan.status !== 'Active') {
+        throw new Error(`Cannot create repayment invoice for loan with status: ${loan.status}`);
+      }
+
+      if (loan.repayment_loan_id !== null) {
+        throw new Error('Repayment already exists for this loan');
+      }
+
+      const invoiceRows = await tx.sql`
+        INSERT INTO invoices (
+          id,
+          user_id,
+          currency_blockchain_key,
+          currency_token_id,
+          invoiced_amount,
+          wallet_derivation_path,
+          wallet_address,
+          invoice_type,
+          status,
+          draft_date,
+          invoice_date,
+          due_date,
+          expired_date,
+          loan_id
+        )
+        VALUES (
+          ${params.repaymentInvoiceId},
+          ${loan.borrower_user_id},
+          ${loan.principal_currency_blockchain_key},
+          ${loan.principal_currency_token_id},
+          ${loan.repayment_amount},
+          ${params.repaymentWalletDerivationPath},
+          ${params.repaymentWalletAddress},
+          'LoanRepayment',
+          'Pending',
+          ${params.invoiceDate.toISOString()},
+          ${params.invoiceDate.toISOString()},
+          ${params.dueDate.toISOString()},
+          ${params.expiredDate.toISOString()},
+          ${params.loanId}
+        )
+        RETURNING id, invoiced_amount, wallet_address
+      `;
+
+      const invoice = invoiceRows[0];
+      assertDefined(invoice, 'Repayment invoice creation failed');
+      assertProp(check(isString, isNumber), invoice, 'id');
+      assertProp(check(isString, isNumber), invoice, 'invoiced_amount');
+      assertPropString(invoice, 'wallet_address');
+
+      await tx.sql`
+        INSERT INTO loan_repayments (
+          loan_id,
+          repayment_initiator,
+          repayment_invoice_id,
+          repayment_invoice_date
+        )
+        VALUES (
+          ${params.loanId},
+          'Platform',
+          ${invoice.id},
+          ${params.invoiceDate.toISOString()}
+        )
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(params.loanId),
+        repaymentInvoiceId: String(invoice.id),
+        invoicedAmount: String(invoice.invoiced_amount),
+        walletAddress: invoice.wallet_address,
+        invoiceDate: params.invoiceDate,
+        dueDate: params.dueDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformListsLoansDueForRepaymentReminder(
+    params: PlatformListsLoansDueForRepaymentReminderParams,
+  ): Promise<PlatformListsLoansDueForRepaymentReminderResult> {
+    const asOfDate = params.asOfDate.toISOString();
+    const limit = params.limit ?? 50;
+
+    const rows = await this.sql`
+      SELECT
+        l.id AS loan_id,
+        l.status AS loan_status,
+        la.borrower_user_id,
+        lp.lender_user_id,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.repayment_amount,
+        l.premi_amount,
+        l.liquidation_fee_amount,
+        l.maturity_date,
+        lr.repayment_initiator,
+        lr.repayment_invoice_id,
+        COALESCE(i.prepaid_amount, 0) + COALESCE((
+          SELECT SUM(ip.amount) FROM invoice_payments ip WHERE ip.invoice_id = i.id
+        ), 0) AS repayment_paid_amount
+      FROM loans l
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      LEFT JOIN loan_repayments lr ON lr.loan_id = l.id
+      LEFT JOIN invoices i ON i.id = lr.repayment_invoice_id
+      WHERE l.status = 'Active'
+        AND l.maturity_date IS NOT NULL
+        AND l.maturity_date > ${asOfDate}
+        AND l.maturity_date <= ${asOfDate}::TIMESTAMP + make_interval(days => ${params.maxReminderOffsetDays})
+      ORDER BY l.maturity_date ASC, l.id ASC
+      LIMIT ${limit}
+    `;
+
+    return {
+      loans: rows.map(mapMaturingLoanRow),
+    };
+  }
+
+  async platformRecordsLoanRepaymentReminder(
+    params: PlatformRecordsLoanRepaymentReminderParams,
+  ): Promise<PlatformRecordsLoanRepaymentReminderResult> {
+    const rows = await this.sql`
+      INSERT INTO loan_repayment_reminders (loan_id, reminder_offset_days, reminded_date)
+      VALUES (${params.loanId}, ${params.reminderOffsetDays}, ${params.remindedDate.toISOString()})
+      ON CONFLICT (loan_id, reminder_offset_days) DO NOTHING
+      RETURNING loan_id
+    `;
+
+    return {
+      loanId: String(params.loanId),
+      reminderOffsetDays: params.reminderOffsetDays,
+      recorded: rows.length > 0,
+    };
+  }
+
+  async platformListsSettleableLoanRepayments(
+    params: PlatformListsSettleableLoanRepaymentsParams,
+  ): Promise<PlatformListsSettleableLoanRepaymentsResult> {
+    const limit = params.limit ?? 50;
+
+    const rows = await this.sql`
+      SELECT
+        l.id AS loan_id,
+        l.status AS loan_status,
+        la.borrower_user_id,
+        lp.lender_user_id,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.repayment_amount,
+        l.premi_amount,
+        l.liquidation_fee_amount,
+        l.maturity_date,
+        lr.repayment_initiator,
+        lr.repayment_invoice_id,
+        paid.repayment_paid_amount
+      FROM loans l
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      JOIN loan_repayments lr ON lr.loan_id = l.id
+      JOIN invoices i ON i.id = lr.repayment_invoice_id
+      CROSS JOIN LATERAL (
+        SELECT i.prepaid_amount + COALESCE(SUM(ip.amount), 0) AS repayment_paid_amount
+        FROM invoice_payments ip
+        WHERE ip.invoice_id = i.id
+      ) paid
+      WHERE l.status = 'Active'
+        AND l.maturity_date IS NOT NULL
+        AND paid.repayment_paid_amount >= l.repayment_amount
+      ORDER BY l.maturity_date ASC, l.id ASC
+      LIMIT ${limit}
+    `;
+
+    return {
+      loans: rows.map(mapMaturingLoanRow),
+    };
+  }
+
+  async platformSettlesLoanRepayment(
+    params: PlatformSettlesLoanRepaymentParams,
+  ): Promise<PlatformSettlesLoanRepaymentResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT
+          l.id,
+          l.status,
+          l.principal_currency_blockchain_key,
+          l.principal_currency_token_id,
+          l.collateral_currency_blockchain_key,
+          l.collateral_currency_token_id,
+          l.repayment_amount,
+          l.redelivery_amount,
+          l.collateral_amount,
+          lp.lender_user_id,
+          la.borrower_user_id,
+          i.prepaid_amount + COALESCE((
+            SELECT SUM(ip.amount) FROM invoice_payments ip WHERE ip.invoice_id = i.id
+          ), 0) AS repayment_paid_amount
+        FROM loans l
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        LEFT JOIN loan_repayments lr ON lr.loan_id = l.id
+        LEFT JOIN invoices i ON i.id = lr.repayment_invoice_id
+        WHERE l.id = ${params.loanId}
+      `;
+
+      if (loanRows.length === 0) {
+        throw new Error('Loan not found');
+      }
+
+      const loan = loanRows[0];
+      assertDefined(loan, 'Loan validation failed');
+      assertPropString(loan, 'status');
+      assertPropString(loan, 'principal_currency_blockchain_key');
+      assertPropString(loan, 'principal_currency_token_id');
+      assertPropString(loan, 'collateral_currency_blockchain_key');
+      assertPropString(loan, 'collateral_currency_token_id');
+      assertProp(check(isString, isNumber), loan, 'repayment_amount');
+      assertProp(check(isString, isNumber), loan, 'redelivery_amount');
+      assertProp(check(isString, isNumber), loan, 'collateral_amount');
+      assertProp(check(isString, isNumber), loan, 'lender_user_id');
+      assertProp(check(isString, isNumber), loan, 'borrower_user_id');
+      assertProp(check(isNullable, isString, isNumber), loan, 'repayment_paid_amount');
+
+      if (loan.status !== 'Active') {
+        throw new Error(`Cannot settle repayment for loan with status: ${loan.status}`);
+      }
+
+      if (loan.repayment_paid_amount === null) {
+        throw new Error('Repayment not found');
+      }
+
+      if (BigInt(String(loan.repayment_paid_amount)) < BigInt(String(loan.repayment_amount))) {
+        throw new Error('Repayment invoice is not fully paid');
+      }
+
+      const settlementDate = params.settlementDate.toISOString();
+
+      // Repayment goes to the lender (redelivery) and platform fee, collateral returns to the borrower
+      await tx.sql`
+        INSERT INTO account_mutation_entries (
+          user_id,
+          currency_blockchain_key,
+          currency_token_id,
+          account_type,
+          mutation_type,
+          mutation_date,
+          amount
+        )
+        SELECT
+          entry.user_id,
+          entry.currency_blockchain_key,
+          entry.currency_token_id,
+          entry.account_type,
+          entry.mutation_type,
+          ${settlementDate}::TIMESTAMP,
+          entry.amount
+        FROM (
+          VALUES
+            (1, ${loan.borrower_user_id}::BIGINT, ${loan.principal_currency_blockchain_key}::TEXT, ${loan.principal_currency_token_id}::TEXT, 'User', 'LoanRepayment', -${loan.repayment_amount}::NUMERIC),
+            (2, ${loan.lender_user_id}::BIGINT, ${loan.principal_currency_blockchain_key}::TEXT, ${loan.principal_currency_token_id}::TEXT, 'User', 'LoanRepaymentReceived', ${loan.redelivery_amount}::NUMERIC),
+            (3, 1::BIGINT, ${loan.principal_currency_blockchain_key}::TEXT, ${loan.principal_currency_token_id}::TEXT, 'PlatformFee', 'LoanReturnFee', ${loan.repayment_amount}::NUMERIC - ${loan.redelivery_amount}::NUMERIC),
+            (4, 1::BIGINT, ${loan.collateral_currency_blockchain_key}::TEXT, ${loan.collateral_currency_token_id}::TEXT, 'PlatformEscrow', 'LoanCollateralRelease', -${loan.collateral_amount}::NUMERIC),
+            (5, ${loan.borrower_user_id}::BIGINT, ${loan.collateral_currency_blockchain_key}::TEXT, ${loan.collateral_currency_token_id}::TEXT, 'User', 'LoanCollateralReleased', ${loan.collateral_amount}::NUMERIC)
+        ) AS entry (seq, user_id, currency_blockchain_key, currency_token_id, account_type, mutation_type, amount)
+        WHERE entry.amount != 0
+        ORDER BY entry.seq
+      `;
+
+      await tx.sql`
+        UPDATE account_mutations
+        SET loan_id = ${params.loanId}
+        FROM accounts
+        WHERE account_mutations.account_id = accounts.id
+          AND account_mutations.loan_id IS NULL
+          AND account_mutations.mutation_type IN (
+            'LoanRepayment',
+            'LoanRepaymentReceived',
+            'LoanReturnFee',
+            'LoanCollateralRelease',
+            'LoanCollateralReleased'
+          )
+          AND account_mutations.mutation_date = ${settlementDate}
+          AND accounts.user_id IN (1, ${loan.lender_user_id}, ${loan.borrower_user_id})
+      `;
+
+      await tx.sql`
+        UPDATE loans
+        SET
+          status = 'Repaid',
+          concluded_date = ${settlementDate},
+          conclusion_reason = 'Repayment'
+        WHERE id = ${params.loanId}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(params.loanId),
+        loanStatus: 'Repaid',
+        repaymentAmount: String(loan.repayment_amount),
+        releasedCollateralAmount: String(loan.collateral_amount),
+        concludedDate: params.settlementDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformListsLoansPastGracePeriod(
+    params: PlatformListsLoansPastGracePeriodParams,
+  ): Promise<PlatformListsLoansPastGracePeriodResult> {
+    const asOfDate = params.asOfDate.toISOString();
+    const limit = params.limit ?? 50;
+
+    const rows = await this.sql`
+      SELECT
+        l.id AS loan_id,
+        l.status AS loan_status,
+        la.borrower_user_id,
+        lp.lender_user_id,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.repayment_amount,
+        l.premi_amount,
+        l.liquidation_fee_amount,
+        l.maturity_date,
+        lr.repayment_initiator,
+        lr.repayment_invoice_id,
+        COALESCE(i.prepaid_amount, 0) + COALESCE((
+          SELECT SUM(ip.amount) FROM invoice_payments ip WHERE ip.invoice_id = i.id
+        ), 0) AS repayment_paid_amount
+      FROM loans l
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      LEFT JOIN loan_repayments lr ON lr.loan_id = l.id
+      LEFT JOIN invoices i ON i.id = lr.repayment_invoice_id
+      WHERE l.status = 'Active'
+        AND l.maturity_date IS NOT NULL
+        AND l.maturity_date + make_interval(days => ${params.gracePeriodDays}) < ${asOfDate}
+      ORDER BY l.maturity_date ASC, l.id ASC
+      LIMIT ${limit}
+    `;
+
+    return {
+      loans: rows.map(mapMaturingLoanRow),
+    };
+  }
+
+  async platformDefaultsLoan(
+    params: PlatformDefaultsLoanParams,
+  ): Promise<PlatformDefaultsLoanResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const loanRows = await tx.sql`
+        SELECT id, status
+        FROM loans
+        WHERE id = ${params.loanId}
+      `;
+
+      if (loanRows.length === 0) {
+        throw new Error('Loan not found');
+      }
+
+      const loan = loanRows[0];
+      assertDefined(loan, 'Loan validation failed');
+      assertPropString(loan, 'status');
+
+      if (loan.status !== 'Active') {
+        throw new Error(`Cannot default loan with status: ${loan.status}`);
+      }
+
+      await tx.sql`
+        UPDATE loans
+        SET status = 'Defaulted'
+        WHERE id = ${params.loanId}
+      `;
+
+      // Hand the loan to the liquidation worker, keeping a liquidation already started on LTV breach
+      await tx.sql`
+        INSERT INTO loan_liquidations (
+          loan_id,
+          liquidation_initiator,
+          liquidation_target_amount,
+          status,
+          order_date
+        )
+        VALUES (
+          ${params.loanId},
+          'Platform',
+          ${params.liquidationTargetAmount},
+          'Pending',
+          ${params.defaultedDate.toISOString()}
+        )
+        ON CONFLICT (loan_id) DO NOTHING
+      `;
+
+      const liquidationRows = await tx.sql`
+        SELECT status
+        FROM loan_liquidations
+        WHERE loan_id = ${params.loanId}
+      `;
+
+      const liquidation = liquidationRows[0];
+      assertDefined(liquidation, 'Liquidation validation failed');
+      assertPropString(liquidation, 'status');
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(params.loanId),
+        loanStatus: 'Defaulted',
+        liquidationStatus: liquidation.status as LiquidationStatus,
+        defaultedDate: params.defaultedDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformViewsLoanCollateralTopUp(
+    params: PlatformViewsLoanCollateralTopUpParams,
+  ): Promise<PlatformViewsLoanCollateralTopUpResult> {
+    const rows = await this.sql`
+      SELECT
+        t.invoice_id,
+        l.id AS loan_id,
+        l.status AS loan_status,
+        la.borrower_user_id,
+        t.top_up_amount,
+        i.status AS invoice_status,
+        i.paid_date,
+        t.applied_date,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.collateral_currency_blockchain_key,
+        l.collateral_currency_token_id,
+        cc.decimals AS collateral_decimals,
+        cc.symbol AS collateral_symbol,
+        cc.name AS collateral_name,
+        l.principal_amount,
+        l.interest_amount,
+        l.premi_amount,
+        l.collateral_amount,
+        l.current_ltv_ratio,
+        er.id AS exchange_rate_id,
+        er.bid_price AS exchange_rate_bid_price,
+        er.ask_price AS exchange_rate_ask_price,
+        er.source_date AS exchange_rate_source_date
+      FROM loan_collateral_top_ups t
+      JOIN invoices i ON i.id = t.invoice_id
+      JOIN loans l ON l.id = t.loan_id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
+        AND l.collateral_currency_token_id = cc.token_id
+      LEFT JOIN LATERAL (
+        SELECT er.id, er.bid_price, er.ask_price, er.source_date
+        FROM exchange_rates er
+        JOIN price_feeds pf ON er.price_feed_id = pf.id
+        WHERE pf.base_currency_token_id = l.collateral_currency_token_id
+          AND pf.blockchain_key IN (l.collateral_currency_blockchain_key, 'crosschain')
+          AND pf.quote_currency_token_id IN (l.principal_currency_token_id, 'iso4217:usd')
+        ORDER BY er.source_date DESC, er.id DESC
+        LIMIT 1
+      ) er ON TRUE
+      WHERE i.wallet_address = ${params.walletAddress}
+      ORDER BY t.invoice_id DESC
+      LIMIT 1
+    `;
+
+    return {
+      topUp: rows.length > 0 ? mapLoanCollateralTopUpRow(rows[0]) : undefined,
+    };
+  }
+
+  async platformAppliesLoanCollateralTopUp(
+    params: PlatformAppliesLoanCollateralTopUpParams,
+  ): Promise<PlatformAppliesLoanCollateralTopUpResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const topUpRows = await tx.sql`
+        SELECT
+          t.loan_id,
+          t.top_up_amount,
+          t.applied_date,
+          i.paid_date,
+          l.status AS loan_status,
+          l.current_ltv_ratio,
+          l.collateral_currency_blockchain_key,
+          l.collateral_currency_token_id,
+          la.borrower_user_id
+        FROM loan_collateral_top_ups t
+        JOIN invoices i ON i.id = t.invoice_id
+        JOIN loans l ON l.id = t.loan_id
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        WHERE t.invoice_id = ${params.invoiceId}
+        FOR UPDATE OF t
+      `;
+
+      if (topUpRows.length === 0) {
+        throw new Error('Collateral top-up not found');
+      }
+
+      const topUp = topUpRows[0];
+      assertDefined(topUp, 'Collateral top-up validation failed');
+      assertProp(check(isString, isNumber), topUp, 'loan_id');
+      assertProp(check(isString, isNumber), topUp, 'top_up_amount');
+      assertProp(check(isNullable, isInstanceOf(Date)), topUp, 'applied_date');
+      assertProp(check(isNullable, isInstanceOf(Date)), topUp, 'paid_date');
+      assertPropString(topUp, 'loan_status');
+      assertProp(check(isNullable, isString, isNumber), topUp, 'current_ltv_ratio');
+      assertPropString(topUp, 'collateral_currency_blockchain_key');
+      assertPropString(topUp, 'collateral_currency_token_id');
+      assertProp(check(isString, isNumber), topUp, 'borrower_user_id');
+
+      if (topUp.applied_date !== null) {
+        throw new Error('Collateral top-up already applied');
+      }
+
+      if (topUp.paid_date === null) {
+        throw new Error('Collateral top-up invoice is not paid');
+      }
+
+      if (topUp.loan_status !== 'Active') {
+        throw new Error(`Cannot top up collateral for loan with status: ${topUp.loan_status}`);
+      }
+
+      const appliedDate = params.appliedDate.toISOString();
+
+      // Paid collateral moves from the borrower balance into platform escrow
+      await tx.sql`
+        INSERT INTO account_mutation_entries (
+          user_id,
+          currency_blockchain_key,
+          currency_token_id,
+          account_type,
+          mutation_type,
+          mutation_date,
+          amount
+        )
+        SELECT
+          entry.user_id,
+          entry.currency_blockchain_key,
+          entry.currency_token_id,
+          entry.account_type,
+          entry.mutation_type,
+          ${appliedDate}::TIMESTAMP,
+          entry.amount
+        FROM (
+          VALUES
+            (1, ${topUp.borrower_user_id}::BIGINT, ${topUp.collateral_currency_blockchain_key}::TEXT, ${topUp.collateral_currency_token_id}::TEXT, 'User', 'LoanCollateralDeposit', -${topUp.top_up_amount}::NUMERIC),
+            (2, 1::BIGINT, ${topUp.collateral_currency_blockchain_key}::TEXT, ${topUp.collateral_currency_token_id}::TEXT, 'PlatformEscrow', 'LoanCollateralDeposit', ${topUp.top_up_amount}::NUMERIC)
+        ) AS entry (seq, user_id, currency_blockchain_key, currency_token_id, account_type, mutation_type, amount)
+        ORDER BY entry.seq
+      `;
+
+      await tx.sql`
+        UPDATE account_mutations
+        SET loan_id = ${topUp.loan_id}
+        FROM accounts
+        WHERE account_mutations.account_id = accounts.id
+          AND account_mutations.loan_id IS NULL
+          AND account_mutations.mutation_type = 'LoanCollateralDeposit'
+          AND account_mutations.mutation_date = ${appliedDate}
+          AND accounts.user_id IN (1, ${topUp.borrower_user_id})
+          AND accounts.currency_blockchain_key = ${topUp.collateral_currency_blockchain_key}
+          AND accounts.currency_token_id = ${topUp.collateral_currency_token_id}
+      `;
+
+      const loanRows = await tx.sql`
+        UPDATE loans
+        SET
+          collateral_amount = collateral_amount + ${topUp.top_up_amount},
+          current_ltv_ratio = ${params.ltvRatio}
+        WHERE id = ${topUp.loan_id}
+        RETURNING collateral_amount
+      `;
+
+      const loan = loanRows[0];
+      assertDefined(loan, 'Loan update failed');
+      assertProp(check(isString, isNumber), loan, 'collateral_amount');
+
+      await tx.sql`
+        INSERT INTO loan_valuations (
+          loan_id,
+          exchange_rate_id,
+          valuation_date,
+          ltv_ratio,
+          collateral_valuation_amount,
+          debt_amount
+        )
+        VALUES (
+          ${topUp.loan_id},
+          ${params.exchangeRateId},
+          ${appliedDate},
+          ${params.ltvRatio},
+          ${params.collateralValuationAmount},
+          ${params.debtAmount}
+        )
+        ON CONFLICT (loan_id, exchange_rate_id) DO UPDATE SET
+          valuation_date = ${appliedDate},
+          ltv_ratio = ${params.ltvRatio},
+          collateral_valuation_amount = ${params.collateralValuationAmount},
+          debt_amount = ${params.debtAmount}
+      `;
+
+      await tx.sql`
+        UPDATE loan_collateral_top_ups
+        SET
+          applied_date = ${appliedDate},
+          exchange_rate_id = ${params.exchangeRateId},
+          previous_ltv_ratio = ${topUp.current_ltv_ratio},
+          ltv_ratio = ${params.ltvRatio}
+        WHERE invoice_id = ${params.invoiceId}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(topUp.loan_id),
+        invoiceId: String(params.invoiceId),
+        topUpAmount: String(topUp.top_up_amount),
+        collateralAmount: String(loan.collateral_amount),
+        previousLtvRatio:
+          topUp.current_ltv_ratio !== null ? Number(topUp.current_ltv_ratio) : undefined,
+        ltvRatio: params.ltvRatio,
+        appliedDate: params.appliedDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  async platformViewsLoanPartialRepayment(
+    params: PlatformViewsLoanPartialRepaymentParams,
+  ): Promise<PlatformViewsLoanPartialRepaymentResult> {
+    const rows = await this.sql`
+      SELECT
+        pr.invoice_id,
+        l.id AS loan_id,
+        l.status AS loan_status,
+        la.borrower_user_id,
+        lp.lender_user_id,
+        pr.repaid_principal_amount,
+        i.status AS invoice_status,
+        i.paid_date,
+        pr.applied_date,
+        l.principal_currency_blockchain_key,
+        l.principal_currency_token_id,
+        pc.decimals AS principal_decimals,
+        pc.symbol AS principal_symbol,
+        pc.name AS principal_name,
+        l.collateral_currency_blockchain_key,
+        l.collateral_currency_token_id,
+        cc.decimals AS collateral_decimals,
+        cc.symbol AS collateral_symbol,
+        cc.name AS collateral_name,
+        cc.max_ltv AS collateral_max_ltv,
+        l.principal_amount,
+        l.interest_amount,
+        l.premi_amount,
+        l.repayment_amount,
+        l.redelivery_fee_amount,
+        l.liquidation_fee_amount,
+        l.collateral_amount,
+        l.origination_date,
+        l.maturity_date,
+        er.id AS exchange_rate_id,
+        er.bid_price AS exchange_rate_bid_price,
+        er.ask_price AS exchange_rate_ask_price,
+        er.source_date AS exchange_rate_source_date
+      FROM loan_partial_repayments pr
+      JOIN invoices i ON i.id = pr.invoice_id
+      JOIN loans l ON l.id = pr.loan_id
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
+        AND l.principal_currency_token_id = pc.token_id
+      JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
+        AND l.collateral_currency_token_id = cc.token_id
+      LEFT JOIN LATERAL (
+        SELECT er.id, er.bid_price, er.ask_price, er.source_date
+        FROM exchange_rates er
+        JOIN price_feeds pf ON er.price_feed_id = pf.id
+        WHERE pf.base_currency_token_id = l.collateral_currency_token_id
+          AND pf.blockchain_key IN (l.collateral_currency_blockchain_key, 'crosschain')
+          AND pf.quote_currency_token_id IN (l.principal_currency_token_id, 'iso4217:usd')
+        ORDER BY er.source_date DESC, er.id DESC
+        LIMIT 1
+      ) er ON TRUE
+      WHERE i.wallet_address = ${params.walletAddress}
+      ORDER BY pr.invoice_id DESC
+      LIMIT 1
+    `;
+
+    return {
+      partialRepayment: rows.length > 0 ? mapLoanPartialRepaymentRow(rows[0]) : undefined,
+    };
+  }
+
+  async platformAppliesLoanPartialRepayment(
+    params: PlatformAppliesLoanPartialRepaymentParams,
+  ): Promise<PlatformAppliesLoanPartialRepaymentResult> {
+    const tx = await this.beginTransaction();
+    try {
+      const repaymentRows = await tx.sql`
+        SELECT
+          pr.loan_id,
+          pr.repaid_principal_amount,
+          pr.applied_date,
+          i.paid_date,
+          l.status AS loan_status,
+          l.principal_amount,
+          l.collateral_amount,
+          l.principal_currency_blockchain_key,
+          l.principal_currency_token_id,
+          l.collateral_currency_blockchain_key,
+          l.collateral_currency_token_id,
+          la.borrower_user_id,
+          lp.lender_user_id
+        FROM loan_partial_repayments pr
+        JOIN invoices i ON i.id = pr.invoice_id
+        JOIN loans l ON l.id = pr.loan_id
+        JOIN loan_applications la ON l.loan_application_id = la.id
+        JOIN loan_positions lp ON lp.loan_id = l.id
+        WHERE pr.invoice_id = ${params.invoiceId}
+        FOR UPDATE OF pr, l
+      `;
+
+      if (repaymentRows.length === 0) {
+        throw new Error('Partial repayment not found');
+      }
+
+      const repayment = repaymentRows[0];
+      assertDefined(repayment, 'Partial repayment validation failed');
+      assertProp(check(isString, isNumber), repayment, 'loan_id');
+      assertProp(check(isString, isNumber), repayment, 'repaid_principal_amount');
+      assertProp(check(isNullable, isInstanceOf(Date)), repayment, 'applied_date');
+      assertProp(check(isNullable, isInstanceOf(Date)), repayment, 'paid_date');
+      assertPropString(repayment, 'loan_status');
+      assertProp(check(isString, isNumber), repayment, 'principal_amount');
+      assertProp(check(isString, isNumber), repayment, 'collateral_amount');
+      assertPropString(repayment, 'principal_currency_blockchain_key');
+      assertPropString(repayment, 'principal_currency_token_id');
+      assertPropString(repayment, 'collateral_currency_blockchain_key');
+      assertPropString(repayment, 'collateral_currency_token_id');
+      assertProp(check(isString, isNumber), repayment, 'borrower_user_id');
+      assertProp(check(isString, isNumber), repayment, 'lender_user_id');
+
+      if (repayment.applied_date !== null) {
+        throw new Error('Partial repayment already applied');
+      }
+
+      if (repayment.paid_date === null) {
+        throw new Error('Partial repayment invoice is not paid');
+      }
+
+      if (repayment.loan_status !== 'Active') {
+        throw new Error(`Cannot partially repay loan with status: ${repayment.loan_status}`);
+      }
+
+      if (String(repayment.principal_amount) !== String(params.previousPrincipalAmount)) {
+        throw new Error('Loan principal changed since the partial repayment terms were computed');
+      }
+
+      if (BigInt(params.releasedCollateralAmount) >= BigInt(repayment.collateral_amount)) {
+        throw new Error('Partial repayment cannot release the whole collateral');
+      }
+
+      const appliedDate = params.appliedDate.toISOString();
+
+      // Paid principal passes from the borrower to the lender, released collateral leaves escrow
+      await tx.sql`
+        INSERT INTO account_mutation_entries (
+          user_id,
+          currency_blockchain_key,
+          currency_token_id,
+          account_type,
+          mutation_type,
+          mutation_date,
+          amount
+        )
+        SELECT
+          entry.user_id,
+          entry.currency_blockchain_key,
+          entry.currency_token_id,
+          entry.account_type,
+          entry.mutation_type,
+          ${appliedDate}::TIMESTAMP,
+          entry.amount
+        FROM (
+          VALUES
+            (1, ${repayment.borrower_user_id}::BIGINT, ${repayment.principal_currency_blockchain_key}::TEXT, ${repayment.principal_currency_token_id}::TEXT, 'User', 'LoanRepayment', -${repayment.repaid_principal_amount}::NUMERIC),
+            (2, ${repayment.lender_user_id}::BIGINT, ${repayment.principal_currency_blockchain_key}::TEXT, ${repayment.principal_currency_token_id}::TEXT, 'User', 'LoanRepaymentReceived', ${repayment.repaid_principal_amount}::NUMERIC),
+            (3, 1::BIGINT, ${repayment.collateral_currency_blockchain_key}::TEXT, ${repayment.collateral_currency_token_id}::TEXT, 'PlatformEscrow', 'LoanCollateralRelease', -${params.releasedCollateralAmount}::NUMERIC),
+            (4, ${repayment.borrower_user_id}::BIGINT, ${repayment.collateral_currency_blockchain_key}::TEXT, ${repayment.collateral_currency_token_id}::TEXT, 'User', 'LoanCollateralReleased', ${params.releasedCollateralAmount}::NUMERIC)
+        ) AS entry (seq, user_id, currency_blockchain_key, currency_token_id, account_type, mutation_type, amount)
+        WHERE entry.amount != 0
+        ORDER BY entry.seq
+      `;
+
+      await tx.sql`
+        UPDATE account_mutations
+        SET loan_id = ${repayment.loan_id}
+        FROM accounts
+        WHERE account_mutations.account_id = accounts.id
+          AND account_mutations.loan_id IS NULL
+          AND account_mutations.mutation_type IN (
+            'LoanRepayment',
+            'LoanRepaymentReceived',
+            'LoanCollateralRelease',
+            'LoanCollateralReleased'
+          )
+          AND account_mutations.mutation_date = ${appliedDate}
+          AND accounts.user_id IN (1, ${repayment.borrower_user_id}, ${repayment.lender_user_id})
+      `;
+
+      const loanRows = await tx.sql`
+        UPDATE loans
+        SET
+          principal_amount = ${params.principalAmount},
+          interest_amount = ${params.interestAmount},
+          repayment_amount = ${params.repaymentAmount},
+          redelivery_fee_amount = ${params.redeliveryFeeAmount},
+          redelivery_amount = ${params.redeliveryAmount},
+          min_collateral_valuation = ${params.minCollateralValuation},
+          mc_ltv_ratio = ${params.mcLtvRatio},
+          collateral_amount = collateral_amount - ${params.releasedCollateralAmount},
+          current_ltv_ratio = ${params.ltvRatio}
+        WHERE id = ${repayment.loan_id}
+        RETURNING principal_amount, interest_amount, collateral_amount
+      `;
+
+      const loan = loanRows[0];
+      assertDefined(loan, 'Loan update failed');
+      assertProp(check(isString, isNumber), loan, 'principal_amount');
+      assertProp(check(isString, isNumber), loan, 'interest_amount');
+      assertProp(check(isString, isNumber), loan, 'collateral_amount');
+
+      // An open position listing was priced on the previous principal
+      await tx.sql`
+        UPDATE loan_position_listings
+        SET status = 'Cancelled', cancelled_date = ${appliedDate}
+        WHERE loan_id = ${repayment.loan_id} AND status = 'Listed'
+      `;
+
+      await tx.sql`
+        INSERT INTO loan_valuations (
+          loan_id,
+          exchange_rate_id,
+          valuation_date,
+          ltv_ratio,
+          collateral_valuation_amount,
+          debt_amount
+        )
+        VALUES (
+          ${repayment.loan_id},
+          ${params.exchangeRateId},
+          ${appliedDate},
+          ${params.ltvRatio},
+          ${params.collateralValuationAmount},
+          ${params.debtAmount}
+        )
+        ON CONFLICT (loan_id, exchange_rate_id) DO UPDATE SET
+          valuation_date = ${appliedDate},
+          ltv_ratio = ${params.ltvRatio},
+          collateral_valuation_amount = ${params.collateralValuationAmount},
+          debt_amount = ${params.debtAmount}
+      `;
+
+      await tx.sql`
+        UPDATE loan_partial_repayments
+        SET
+          applied_date = ${appliedDate},
+          previous_principal_amount = ${repayment.principal_amount},
+          interest_reduction_amount = ${params.interestReductionAmount},
+          released_collateral_amount = ${params.releasedCollateralAmount},
+          exchange_rate_id = ${params.exchangeRateId},
+          ltv_ratio = ${params.ltvRatio}
+        WHERE invoice_id = ${params.invoiceId}
+      `;
+
+      await tx.commitTransaction();
+
+      return {
+        loanId: String(repayment.loan_id),
+        invoiceId: String(params.invoiceId),
+        repaidPrincipalAmount: String(repayment.repaid_principal_amount),
+        principalAmount: String(loan.principal_amount),
+        interestAmount: String(loan.interest_amount),
+        releasedCollateralAmount: params.releasedCollateralAmount,
+        collateralAmount: String(loan.collateral_amount),
+        ltvRatio: params.ltvRatio,
+        appliedDate: params.appliedDate,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * Active auto-lend rules with the figures the scheduler needs to decide on a new offer.
+   * Exposure counts open offer principal and outstanding principal of loans the lender still holds.
+   */
+  async platformListsLoanAutoLendRulesToReplenish(
+    params: PlatformListsLoanAutoLendRulesToReplenishParams,
+  ): Promise<PlatformListsLoanAutoLendRulesToReplenishResult> {
+    const limit = Math.min(Math.max(1, params.limit ?? 100), 500);
+
+    const ruleRows = await this.sql`
+      SELECT
+        alr.id,
+        alr.lender_user_id,
+        alr.principal_currency_blockchain_key,
+        alr.principal_currency_token_id,
+        c.decimals AS principal_decimals,
+        c.symbol AS principal_symbol,
+        c.name AS principal_name,
+        alr.min_ticket_amount,
+        alr.max_ticket_amount,
+        alr.min_interest_rate,
+        alr.term_in_months_options,
+        alr.max_exposure_amount,
+        alr.status,
+        alr.created_date,
+        alr.updated_date,
+        alr.last_replenished_date,
+        COALESCE((
+          SELECT SUM(lo.available_principal_amount + lo.reserved_principal_amount)
+          FROM loan_offers lo
+          WHERE lo.loan_auto_lend_rule_id = alr.id
+            AND lo.status IN ('Funding', 'Published')
+        ), 0) + COALESCE((
+          SELECT SUM(l.principal_amount)
+          FROM loans l
+          JOIN loan_offers lo ON l.loan_offer_id = lo.id
+          JOIN loan_positions lp ON lp.loan_id = l.id
+          WHERE lo.loan_auto_lend_rule_id = alr.id
+            AND lp.lender_user_id = alr.lender_user_id
+            AND l.status IN ('Originated', 'Active')
+        ), 0) AS current_exposure_amount,
+        COALESCE((
+          SELECT SUM(lo.available_principal_amount)
+          FROM loan_offers lo
+          WHERE lo.loan_auto_lend_rule_id = alr.id
+            AND lo.status IN ('Funding', 'Published')
+            AND lo.expired_date > ${params.asOfDate.toISOString()}
+        ), 0) AS open_available_amount,
+        COALESCE(a.balance, 0) AS lender_balance_amount
+      FROM loan_auto_lend_rules alr
+      JOIN currencies c ON c.blockchain_key = alr.principal_currency_blockchain_key
+        AND c.token_id = alr.principal_currency_token_id
+      LEFT JOIN accounts a ON a.user_id = alr.lender_user_id
+        AND a.currency_blockchain_key = alr.principal_currency_blockchain_key
+        AND a.currency_token_id = alr.principal_currency_token_id
+        AND a.account_type = 'User'
+      WHERE alr.status = 'Active'
+      ORDER BY alr.last_replenished_date ASC NULLS FIRST, alr.id ASC
+      LIMIT ${limit}
+    `;
+
+    const ruleIds = ruleRows.map(function (row) {
+      assertDefined(row, 'Auto-lend rule row is undefined');
+      assertProp(check(isString, isNumber), row, 'id');
+      return String(row.id);
+    });
+
+    const collateralRows =
+      ruleIds.length > 0
+        ? await this.sql`
+            SELECT loan_auto_lend_rule_id, collateral_currency_blockchain_key, collateral_currency_token_id
+            FROM loan_auto_lend_rule_collateral_currencies
+            WHERE loan_auto_lend_rule_id = ANY(${ruleIds})
+          `
+        : [];
+
+    return {
+      rules: ruleRows.map(function (row) {
+        const rule = mapLoanAutoLendRuleRow(row, collateralRows);
+        assertProp(check(isString, isNumber), row, 'open_available_amount');
+        assertProp(check(isString, isNumber), row, 'lender_balance_amount');
+        return {
+          ...rule,
+          openAvailableAmount: String(row.open_available_amount),
+          lenderBalanceAmount: String(row.lender_balance_amount),
+        };
+      }),
+    };
+  }
+
+  async platformMarksLoanAutoLendRuleReplenished(
+    params: PlatformMarksLoanAutoLendRuleReplenishedParams,
+  ): Promise<void> {
+    await this.sql`
+      UPDATE loan_auto_lend_rules
+      SET last_replenished_date = ${params.replenishedDate.toISOString()}
+      WHERE id = ${params.ruleId}
+    `;
+  }
+
+  async platformViewsHaltedMarket(
+    params: PlatformViewsHaltedMarketParams,
+  ): Promise<PlatformViewsHaltedMarketResult> {
+    const rows = await this.sql`
+      SELECT *
+      FROM market_circuit_breakers
+      WHERE blockchain_key = ${params.blockchainKey}
+        AND base_currency_token_id = ${params.baseCurrencyTokenId}
+        AND quote_currency_token_id = ${params.quoteCurrencyTokenId}
+        AND status = 'Halted'
+    `;
+
+    return {
+      circuitBreaker: rows.length > 0 ? mapMarketCircuitBreakerRow(rows[0]) : undefined,
+    };
+  }
+
+  /**
+   * Halt of any pair that prices the loan collateral, matched the same way loans pick their exchange rate
+   */
+  async platformViewsLoanMarketHalt(
+    params: PlatformViewsLoanMarketHaltParams,
+  ): Promise<PlatformViewsLoanMarketHaltResult> {
+    const rows = await this.sql`
+      SELECT mcb.*
+      FROM loans l
+      JOIN market_circuit_breakers mcb ON mcb.base_currency_token_id = l.collateral_currency_token_id
+        AND mcb.blockchain_key IN (l.collateral_currency_blockchain_key, 'crosschain')
+        AND mcb.quote_currency_token_id IN (l.principal_currency_token_id, 'iso4217:usd')
+      WHERE l.id = ${params.loanId}
+        AND mcb.status = 'Halted'
+      ORDER BY mcb.halted_date ASC, mcb.id ASC
+      LIMIT 1
+    `;
+
+    return {
+      circuitBreaker: rows.length > 0 ? mapMarketCircuitBreakerRow(rows[0]) : undefined,
+    };
+  }
+
+  /**
+   * Halts a pair, returning the existing halt when the pair is already halted
+   */
+  async platformHaltsMarket(params: PlatformHaltsMarketParams): Promise<PlatformHaltsMarketResult> {
+    const {
+      blockchainKey,
+      baseCurrencyTokenId,
+      quoteCurrencyTokenId,
+      priceChangeRate,
+      triggerExchangeRateId,
+      haltedDate,
+    } = params;
+
+    const insertedRows = await this.sql`
+      INSERT INTO market_circuit_breakers (
+        blockchain_key,
+        base_currency_token_id,
+        quote_currency_token_id,
+        status,
+        price_change_rate,
+        trigger_exchange_rate_id,
+        halted_date,
+        last_breach_date
+      )
+      VALUES (
+        ${blockchainKey},
+        ${baseCurrencyTokenId},
+        ${quoteCurrencyTokenId},
+        'Halted',
+        ${priceChangeRate},
+        ${triggerExchangeRateId},
+        ${haltedDate.toISOString()},
+        ${haltedDate.toISOString()}
+      )
+      ON CONFLICT (blockchain_key, base_currency_token_id, quote_currency_token_id)
+        WHERE status = 'Halted'
+        DO NOTHING
+      RETURNING *
+    `;
+
+    if (insertedRows.length > 0) {
+      return { circuitBreaker: mapMarketCircuitBreakerRow(insertedRows[0]) };
+    }
+
+    const { circuitBreaker } = await this.platformViewsHaltedMarket({
+      blockchainKey,
+      baseCurrencyTokenId,
+      quoteCurrencyTokenId,
+    });
+    if (!circuitBreaker) {
+      throw new Error('Market circuit breaker not found');
+    }
+
+    return { circuitBreaker };
+  }
+
+  /**
+   * Extends a halt after the price moved past the threshold again
+   */
+  async platformRecordsMarketBreach(
+    params: PlatformRecordsMarketBreachParams,
+  ): Promise<PlatformRecordsMarketBreachResult> {
+    const rows = await this.sql`
+      UPDATE market_circuit_breakers
+      SET last_breach_date = GREATEST(last_breach_date, ${params.breachDate.toISOString()}),
+        price_change_rate = GREATEST(price_change_rate, ${params.priceChangeRate})
+      WHERE id = ${params.circuitBreakerId}
+        AND status = 'Halted'
+      RETURNING *
+    `;
+
+    if (rows.length === 0) {
+      throw new Error('Market circuit breaker is not halted');
+    }
+
+    return { circuitBreaker: mapMarketCircuitBreakerRow(rows[0]) };
+  }
+
+  /**
+   * Resumes a halted pair, the circuit breaker is undefined when the pair was no longer halted
+   */
+  async platformResumesMarket(
+    params: PlatformResumesMarketParams,
+  ): Promise<PlatformResumesMarketResult> {
+    const rows = await this.sql`
+      UPDATE market_circuit_breakers
+      SET status = 'Resumed',
+        resumed_date = ${params.resumedDate.toISOString()},
+        resumed_by_user_id = ${params.resumedByUserId ?? null}
+      WHERE id = ${params.circuitBreakerId}
+        AND status = 'Halted'
+      RETURNING *
+    `;
+
+    return {
+      circuitBreaker: rows.length > 0 ? mapMarketCircuitBreakerRow(rows[0]) : undefined,
+    };
+  }
+
+  async adminListsMarketCircuitBreakers(
+    params: AdminListsMarketCircuitBreakersParams,
+  ): Promise<AdminListsMarketCircuitBreakersResult> {
+    const status = params.status ?? null;
+    const limit = params.limit ?? 50;
+
+    const rows = await this.sql`
+      SELECT *
+      FROM market_circuit_breakers
+      WHERE (${status}::VARCHAR IS NULL OR status = ${status})
+      ORDER BY halted_date DESC, id DESC
+      LIMIT ${limit}
+    `;
+
+    return { circuitBreakers: rows.map(mapMarketCircuitBreakerRow) };
+  }
+
+  /**
+   * Records a threshold breach held back by a halt, a repeated breach of the same level keeps the latest LTV
+   */
+  async platformDefersLtvBreach(
+    params: PlatformDefersLtvBreachParams,
+  ): Promise<PlatformDefersLtvBreachResult> {
+    const { circuitBreakerId, loanId, thresholdLevel, exchangeRateId, ltvRatio, deferredDate } =
+      params;
+
+    const rows = await this.sql`
+      INSERT INTO deferred_ltv_breaches (
+        market_circuit_breaker_id,
+        loan_id,
+        threshold_level,
+        exchange_rate_id,
+        ltv_ratio,
+        deferred_date
+      )
+      VALUES (
+        ${circuitBreakerId},
+        ${loanId},
+        ${thresholdLevel},
+        ${exchangeRateId},
+        ${ltvRatio},
+        ${deferredDate.toISOString()}
+      )
+      ON CONFLICT (market_circuit_breaker_id, loan_id, threshold_level) DO UPDATE SET
+        exchange_rate_id = EXCLUDED.exchange_rate_id,
+        ltv_ratio = EXCLUDED.ltv_ratio,
+        deferred_date = EXCLUDED.deferred_date
+      RETURNING id
+    `;
+
+    const row = rows[0];
+    assertDefined(row, 'Deferred LTV breach row is undefined');
+    assertProp(check(isString, isNumber), row, 'id');
+
+    return { deferredBreachId: String(row.id) };
+  }
+
+  /**
+   * Marks the unreleased breaches of a halt as released and returns them with the latest valuation of each loan
+   */
+  async platformReleasesDeferredLtvBreaches(
+    params: PlatformReleasesDeferredLtvBreachesParams,
+  ): Promise<PlatformReleasesDeferredLtvBreachesResult> {
+    const rows = await this.sql`
+      WITH released AS (
+        UPDATE deferred_ltv_breaches
+        SET released_date = ${params.releasedDate.toISOString()}
+        WHERE market_circuit_breaker_id = ${params.circuitBreakerId}
+          AND released_date IS NULL
+        RETURNING loan_id, threshold_level, ltv_ratio
+      )
+      SELECT
+        r.loan_id,
+        l.status AS loan_status,
+        r.threshold_level,
+        r.ltv_ratio AS deferred_ltv_ratio,
+        lv.exchange_rate_id,
+        lv.valuation_date,
+        lv.ltv_ratio,
+        lv.collateral_valuation_amount,
+        lv.debt_amount
+      FROM released r
+      JOIN loans l ON l.id = r.loan_id
+      LEFT JOIN LATERAL (
+        SELECT lv.exchange_rate_id, lv.valuation_date, lv.ltv_ratio, lv.collateral_valuation_amount, lv.debt_amount
+        FROM loan_valuations lv
+        WHERE lv.loan_id = r.loan_id
+        ORDER BY lv.valuation_date DESC, lv.exchange_rate_id DESC
+        LIMIT 1
+      ) lv ON TRUE
+      ORDER BY r.loan_id
+    `;
+
+    return {
+      releasedBreaches: rows.map(function (row: unknown) {
+        assertDefined(row, 'Released LTV breach row is undefined');
+        assertProp(check(isString, isNumber), row, 'loan_id');
+        assertPropString(row, 'loan_status');
+        assertPropString(row, 'threshold_level');
+        assertProp(check(isString, isNumber), row, 'deferred_ltv_ratio');
+        assertProp(check(isNullable, isString, isNumber), row, 'exchange_rate_id');
+        assertProp(check(isNullable, isInstanceOf(Date)), row, 'valuation_date');
+        assertProp(check(isNullable, isString, isNumber), row, 'ltv_ratio');
+        assertProp(check(isNullable, isString, isNumber), row, 'collateral_valuation_amount');
+        assertProp(check(isNullable, isString, isNumber), row, 'debt_amount');
+
+        return {
+          loanId: String(row.loan_id),
+          loanStatus: row.loan_status as LoanStatus,
+          thresholdLevel: row.threshold_level as LtvThresholdLevel,
+          deferredLtvRatio: Number(row.deferred_ltv_ratio),
+          latestValuation:
+            row.exchange_rate_id !== null &&
+            row.valuation_date !== null &&
+            row.ltv_ratio !== null &&
+            row.collateral_valuation_amount !== null
+              ? {
+                  exchangeRateId: String(row.exchange_rate_id),
+                  valuationDate: row.valuation_date,
+                  ltvRatio: Number(row.ltv_ratio),
+                  collateralValuationAmount: String(row.collateral_valuation_amount),
+                  debtAmount: row.debt_amount !== null ? String(row.debt_amount) : undefined,
+                }
+              : undefined,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Stores the LTV warning state of a loan and, when the warning level changed or an event was emitted,
+   * appends the transition to its history
+   */
+  async platformUpdatesLoanLtvWarningState(
+    params: PlatformUpdatesLoanLtvWarningStateParams,
+  ): Promise<PlatformUpdatesLoanLtvWarningStateResult> {
+    const {
+      loanId,
+      previousWarningLevel,
+      state,
+      ltvRatio,
+      exchangeRateId,
+      eventType,
+      updatedDate,
+    } = params;
+
+    const tx = await this.beginTransaction();
+    try {
+      await tx.sql`
+        INSERT INTO loan_ltv_warning_states (
+          loan_id,
+          warning_level,
+          ltv_ratio,
+          exchange_rate_id,
+          level_changed_date,
+          last_breach_level,
+          last_breach_date,
+          last_recovered_date,
+          updated_date
+        )
+        VALUES (
+          ${loanId},
+          ${state.warningLevel ?? null},
+          ${ltvRatio},
+          ${exchangeRateId},
+          ${(state.levelChangedDate ?? updatedDate).toISOString()},
+          ${state.lastBreachLevel ?? null},
+          ${state.lastBreachDate?.toISOString() ?? null},
+          ${state.lastRecoveredDate?.toISOString() ?? null},
+          ${updatedDate.toISOString()}
+        )
+        ON CONFLICT (loan_id) DO UPDATE SET
+          warning_level = EXCLUDED.warning_level,
+          ltv_ratio = EXCLUDED.ltv_ratio,
+          exchange_rate_id = EXCLUDED.exchange_rate_id,
+          level_changed_date = EXCLUDED.level_changed_date,
+          last_breach_level = EXCLUDED.last_breach_level,
+          last_breach_date = EXCLUDED.last_breach_date,
+          last_recovered_date = EXCLUDED.last_recovered_date,
+          updated_date = EXCLUDED.updated_date
+      `;
+
+      let transitionId: string | undefined;
+      if (previousWarningLevel !== state.warningLevel || eventType !== undefined) {
+        const rows = await tx.sql`
+          INSERT INTO loan_ltv_warning_transitions (
+            loan_id,
+            from_level,
+            to_level,
+            ltv_ratio,
+            exchange_rate_id,
+            event_type,
+            transition_date
+          )
+          VALUES (
+            ${loanId},
+            ${previousWarningLevel ?? null},
+            ${state.warningLevel ?? null},
+            ${ltvRatio},
+            ${exchangeRateId},
+            ${eventType ?? null},
+            ${updatedDate.toISOString()}
+          )
+          RETURNING id
+        `;
+
+        const row = rows[0];
+        assertDefined(row, 'LTV warning transition row is undefined');
+        assertProp(check(isString, isNumber), row, 'id');
+        transitionId = String(row.id);
+      }
+
+      await tx.commitTransaction();
+
+      return { transitionId };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * LTV warning level changes of a loan, latest first
+   */
+  async platformListsLoanLtvWarningTransitions(
+    params: PlatformListsLoanLtvWarningTransitionsParams,
+  ): Promise<PlatformListsLoanLtvWarningTransitionsResult> {
+    const limit = params.limit ?? 50;
+
+    const rows = await this.sql`
+      SELECT *
+      FROM loan_ltv_warning_transitions
+      WHERE loan_id = ${params.loanId}
+      ORDER BY transition_date DESC, id DESC
+      LIMIT ${limit}
+    `;
+
+    return { transitions: rows.map(mapLoanLtvWarningTransitionRow) };
+  }
 }
@@ -12,15 +12,21 @@ import {
   isString,
 } from 'typeshaper';
 
+import { fromLowestDenomination } from '../utils/decimal';
 import {
   UserViewsLoanDetailsParams,
   UserViewsLoanDetailsResult,
+  UserViewsLoanExtensionsParams,
+  UserViewsLoanExtensionsResult,
   UserViewsLoansParams,
   UserViewsLoansResult,
   UserViewsLoanValuationHistoryParams,
   UserViewsLoanValuationHistoryResult,
+  ValuationPriceMode,
 } from './loan.types';
 import { LoanBorrowerRepository } from './loan-borrower.repository';
+import { mapLoanExtensionRow } from './loan-lender.repository';
+import { EXCHANGE_RATE_DECIMALS } from './pricefeed.repository';
 
 export abstract class LoanUserRepository extends LoanBorrowerRepository {
   async userViewsLoanDetails(
@@ -59,7 +65,7 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
         l.legal_document_hash,
         l.legal_document_created_date,
         la.borrower_user_id,
-        lo.lender_user_id,
+        lp.lender_user_id,
         pc.decimals as principal_decimals,
         pc.symbol as principal_symbol,
         pc.name as principal_name,
@@ -68,13 +74,13 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
         cc.name as collateral_name
       FROM loans l
       JOIN loan_applications la ON l.loan_application_id = la.id
-      JOIN loan_offers lo ON l.loan_offer_id = lo.id
+      JOIN loan_positions lp ON lp.loan_id = l.id
       JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
         AND l.principal_currency_token_id = pc.token_id
       JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
         AND l.collateral_currency_token_id = cc.token_id
       WHERE l.id = ${loanId}
-        AND (la.borrower_user_id = ${userId} OR lo.lender_user_id = ${userId})
+        AND (la.borrower_user_id = ${userId} OR lp.lender_user_id = ${userId})
     `;
 
     if (loanRows.length === 0) {
@@ -176,11 +182,11 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
       SELECT COUNT(*) as total
       FROM loans l
       JOIN loan_applications la ON l.loan_application_id = la.id
-      JOIN loan_offers lo ON l.loan_offer_id = lo.id
-      WHERE (la.borrower_user_id = ${userId} OR lo.lender_user_id = ${userId})
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      WHERE (la.borrower_user_id = ${userId} OR lp.lender_user_id = ${userId})
         AND (${role}::text IS NULL
              OR (${role} = 'borrower' AND la.borrower_user_id = ${userId})
-             OR (${role} = 'lender' AND lo.lender_user_id = ${userId}))
+             OR (${role} = 'lender' AND lp.lender_user_id = ${userId}))
         AND (${loanOfferId}::text IS NULL OR l.loan_offer_id = ${loanOfferId})
         AND (${status}::text IS NULL OR l.status = ${status})
     `;
@@ -212,7 +218,7 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
         l.current_ltv_ratio,
         l.mc_ltv_ratio,
         la.borrower_user_id,
-        lo.lender_user_id,
+        lp.lender_user_id,
         lo.interest_rate,
         la.term_in_months,
         pc.decimals as principal_decimals,
@@ -224,14 +230,15 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
       FROM loans l
       JOIN loan_applications la ON l.loan_application_id = la.id
       JOIN loan_offers lo ON l.loan_offer_id = lo.id
+      JOIN loan_positions lp ON lp.loan_id = l.id
       JOIN currencies pc ON l.principal_currency_blockchain_key = pc.blockchain_key
         AND l.principal_currency_token_id = pc.token_id
       JOIN currencies cc ON l.collateral_currency_blockchain_key = cc.blockchain_key
         AND l.collateral_currency_token_id = cc.token_id
-      WHERE (la.borrower_user_id = ${userId} OR lo.lender_user_id = ${userId})
+      WHERE (la.borrower_user_id = ${userId} OR lp.lender_user_id = ${userId})
         AND (${role}::text IS NULL
              OR (${role} = 'borrower' AND la.borrower_user_id = ${userId})
-             OR (${role} = 'lender' AND lo.lender_user_id = ${userId}))
+             OR (${role} = 'lender' AND lp.lender_user_id = ${userId}))
         AND (${loanOfferId}::text IS NULL OR l.loan_offer_id = ${loanOfferId})
         AND (${status}::text IS NULL OR l.status = ${status})
       ORDER BY l.origination_date DESC
@@ -330,9 +337,9 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
       SELECT l.id
       FROM loans l
       JOIN loan_applications la ON l.loan_application_id = la.id
-      JOIN loan_offers lo ON l.loan_offer_id = lo.id
+      JOIN loan_positions lp ON lp.loan_id = l.id
       WHERE l.id = ${loanId}
-        AND (la.borrower_user_id = ${userId} OR lo.lender_user_id = ${userId})
+        AND (la.borrower_user_id = ${userId} OR lp.lender_user_id = ${userId})
     `;
 
     if (loanAccessRows.length === 0) {
@@ -349,6 +356,11 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
         lv.valuation_date,
         lv.ltv_ratio,
         lv.collateral_valuation_amount,
+        lv.debt_amount,
+        lv.price_mode,
+        lv.valuation_price,
+        lv.price_window_start_date,
+        lv.price_sample_count,
         l.collateral_currency_blockchain_key,
         l.collateral_currency_token_id,
         l.principal_currency_blockchain_key,
@@ -379,6 +391,11 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
       assertProp(isInstanceOf(Date), row, 'valuation_date');
       assertProp(check(isString, isNumber), row, 'ltv_ratio');
       assertProp(check(isString, isNumber), row, 'collateral_valuation_amount');
+      assertProp(check(isNullable, isString, isNumber), row, 'debt_amount');
+      assertPropNullableString(row, 'price_mode');
+      assertProp(check(isNullable, isString, isNumber), row, 'valuation_price');
+      assertProp(check(isNullable, isInstanceOf(Date)), row, 'price_window_start_date');
+      assertProp(check(isNullable, isString, isNumber), row, 'price_sample_count');
       assertPropString(row, 'collateral_currency_blockchain_key');
       assertPropString(row, 'collateral_currency_token_id');
       assertPropString(row, 'principal_currency_blockchain_key');
@@ -407,6 +424,19 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
         valuationDate: row.valuation_date,
         ltvRatio: Number(row.ltv_ratio),
         collateralValuationAmount: String(row.collateral_valuation_amount),
+        debtAmount: row.debt_amount !== null ? String(row.debt_amount) : undefined,
+        priceBasis:
+          row.price_mode !== null && row.valuation_price !== null
+            ? {
+                priceMode: row.price_mode as ValuationPriceMode,
+                valuationPrice: fromLowestDenomination(
+                  String(row.valuation_price),
+                  EXCHANGE_RATE_DECIMALS,
+                ),
+                priceWindowStartDate: row.price_window_start_date ?? undefined,
+                priceSampleCount: Number(row.price_sample_count ?? 1),
+              }
+            : undefined,
         collateralCurrency: {
           blockchainKey: row.collateral_currency_blockchain_key,
           tokenId: row.collateral_currency_token_id,
@@ -430,4 +460,34 @@ export abstract class LoanUserRepository extends LoanBorrowerRepository {
       data: valuationHistory,
     };
   }
+
+  async userViewsLoanExtensions(
+    params: UserViewsLoanExtensionsParams,
+  ): Promise<UserViewsLoanExtensionsResult> {
+    const { loanId, userId } = params;
+
+    const loanAccessRows = await this.sql`
+      SELECT l.id
+      FROM loans l
+      JOIN loan_applications la ON l.loan_application_id = la.id
+      JOIN loan_positions lp ON lp.loan_id = l.id
+      WHERE l.id = ${loanId}
+        AND (la.borrower_user_id = ${userId} OR lp.lender_user_id = ${userId})
+    `;
+
+    if (loanAccessRows.length === 0) {
+      throw new Error('Loan not found or access denied');
+    }
+
+    const extensionRows = await this.sql`
+      SELECT *
+      FROM loan_extensions
+      WHERE loan_id = ${loanId}
+      ORDER BY requested_date DESC, id DESC
+    `;
+
+    return {
+      extensions: extensionRows.map(mapLoanExtensionRow),
+    };
+  }
 }
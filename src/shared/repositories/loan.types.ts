@@ -144,6 +144,7 @@ export type LenderCreatesLoanOfferParams = {
   fundingInvoiceExpiredDate: Date;
   fundingWalletDerivationPath: string;
   fundingWalletAddress: string;
+  loanAutoLendRuleId?: string;
 };
 
 export type LenderCreatesLoanOfferResult = {
@@ -234,6 +235,7 @@ export type PlatformListsAvailableLoanOffersResult = {
     maxLoanPrincipalAmount: string;
     interestRate: number;
     termInMonthsOptions: number[];
+    createdDate: Date;
     expirationDate: Date;
     publishedDate: Date;
     fundingInvoice?: Invoice;
@@ -258,28 +260,38 @@ export type PlatformListsMatchableLoanApplicationsParams = {
   limit?: number;
 };
 
+export type MatchableLoanApplicationRecord = {
+  id: string;
+  borrowerUserId: string;
+  loanOfferId?: string;
+  principalCurrency: Currency;
+  principalAmount: string;
+  maxInterestRate: number;
+  termInMonths: number;
+  collateralBlockchainKey: string;
+  collateralTokenId: string;
+  collateralDepositAmount: string;
+  principalBlockchainKey: string;
+  principalTokenId: string;
+  status: LoanApplicationStatus;
+  appliedDate: Date;
+  expirationDate: Date;
+  matchedLoanOfferId?: string;
+};
+
 export type PlatformListsMatchableLoanApplicationsResult = {
-  loanApplications: Array<{
-    id: string;
-    borrowerUserId: string;
-    loanOfferId?: string;
-    principalCurrency: Currency;
-    principalAmount: string;
-    maxInterestRate: number;
-    termInMonths: number;
-    collateralBlockchainKey: string;
-    collateralTokenId: string;
-    collateralDepositAmount: string;
-    principalBlockchainKey: string;
-    principalTokenId: string;
-    status: LoanApplicationStatus;
-    appliedDate: Date;
-    expirationDate: Date;
-    matchedLoanOfferId?: string;
-  }>;
+  loanApplications: Array<MatchableLoanApplicationRecord>;
   pagination: PaginationMeta;
 };
 
+export type PlatformViewsMatchableLoanApplicationParams = {
+  loanApplicationId: string;
+};
+
+export type PlatformViewsMatchableLoanApplicationResult = {
+  loanApplication?: MatchableLoanApplicationRecord; // undefined when the application does not exist
+};
+
 // Loan Application Types
 export type BorrowerCalculatesLoanRequirementsParams = {
   collateralBlockchainKey: string;
@@ -385,6 +397,32 @@ export type PlatformMatchesLoanOffersResult = {
   matchedCollateralValuationAmount: string;
 };
 
+export type LoanApplicationMatch = {
+  loanOfferId: string;
+  lenderUserId: string;
+  principalAmount: string;
+  collateralAmount: string;
+};
+
+export type PlatformMatchesLoanApplicationWithOffersParams = {
+  loanApplicationId: string;
+  allocations: Array<{
+    loanOfferId: string;
+    principalAmount: string;
+  }>;
+  matchedDate: Date;
+  matchedLtvRatio: number;
+  matchedCollateralValuationAmount: string;
+};
+
+export type PlatformMatchesLoanApplicationWithOffersResult = {
+  loanApplicationId: string;
+  matches: LoanApplicationMatch[];
+  matchedDate: Date;
+  matchedLtvRatio: number;
+  matchedCollateralValuationAmount: string;
+};
+
 // Loan Management Types
 export type PlatformOriginatesLoanParams = {
   loanOfferId: string;
@@ -422,6 +460,29 @@ export type PlatformOriginatesLoanResult = {
   legalDocumentPath?: string;
 };
 
+export type PlatformOriginatesLoanTranchesParams = {
+  loanApplicationId: string;
+  tranches: Array<{
+    loanOfferId: string;
+    principalAmount: string;
+    interestAmount: string;
+    repaymentAmount: string;
+    redeliveryFeeAmount: string;
+    redeliveryAmount: string;
+    premiAmount: string;
+    liquidationFeeAmount: string;
+    minCollateralValuation: string;
+    mcLtvRatio: number;
+    collateralAmount: string;
+  }>;
+  originationDate: Date;
+  maturityDate: Date;
+};
+
+export type PlatformOriginatesLoanTranchesResult = {
+  loans: PlatformOriginatesLoanResult[];
+};
+
 export type PlatformDisbursesPrincipalParams = {
   loanId: string;
   disbursementDate: Date;
@@ -505,12 +566,23 @@ export type UserViewsLoanDetailsResult = {
 };
 
 // Loan Valuation Types
+export type ValuationPriceMode = 'Mid' | 'Bid' | 'Twap';
+
+export type LoanValuationPriceBasis = {
+  priceMode: ValuationPriceMode;
+  valuationPrice: string; // collateral price in principal currency
+  priceWindowStartDate?: Date; // Twap only, the window ends at the source date of the exchange rate
+  priceSampleCount: number;
+};
+
 export type PlatformUpdatesLoanValuationsParams = {
   loanId: string;
   exchangeRateId: string;
   valuationDate: Date;
   ltvRatio: number;
   collateralValuationAmount: string;
+  debtAmount?: string;
+  priceBasis?: LoanValuationPriceBasis;
 };
 
 export type PlatformUpdatesLoanValuationsResult = {
@@ -537,6 +609,8 @@ export type UserViewsLoanValuationHistoryResult = {
     valuationDate: Date;
     ltvRatio: number;
     collateralValuationAmount: string;
+    debtAmount?: string; // undefined for valuations recorded before debt tracking
+    priceBasis?: LoanValuationPriceBasis; // undefined for valuations recorded before price modes
     collateralCurrency: Currency;
     principalCurrency: Currency;
     ltvChange?: number; // Percentage change from previous valuation
@@ -707,3 +781,793 @@ export type PlatformLiquidatesCollateralResult = {
   orderDate: Date;
   liquidationTargetAmount: string;
 };
+
+// Liquidation Execution Types
+export type LoanLiquidationCandidate = {
+  loanId: string;
+  loanStatus: LoanStatus;
+  lenderUserId: string;
+  borrowerUserId: string;
+  liquidationMode: LiquidationMode;
+  principalCurrency: Currency;
+  collateralCurrency: Currency;
+  principalAmount: string;
+  repaymentAmount: string;
+  redeliveryAmount: string;
+  premiAmount: string;
+  liquidationFeeAmount: string;
+  collateralAmount: string;
+  currentLtvRatio?: number;
+  exchangeRate?: {
+    id: string;
+    bidPrice: string;
+    askPrice: string;
+    sourceDate: Date;
+  };
+  liquidation?: {
+    liquidationInitiator: LiquidationInitiator;
+    liquidationTargetAmount: string;
+    marketProvider?: string;
+    marketSymbol?: string;
+    orderRef?: string;
+    orderQuantity?: string;
+    orderPrice?: string;
+    status: LiquidationStatus;
+    orderDate: Date;
+  };
+};
+
+export type PlatformViewsLoanLiquidationCandidateParams = {
+  loanId: string;
+};
+
+export type PlatformViewsLoanLiquidationCandidateResult = LoanLiquidationCandidate;
+
+export type PlatformListsPendingLiquidationsParams = {
+  limit?: number;
+};
+
+export type PlatformListsPendingLiquidationsResult = {
+  liquidations: LoanLiquidationCandidate[];
+};
+
+export type PlatformPlacesLiquidationOrderParams = {
+  loanId: string;
+  liquidationTargetAmount: string;
+  marketProvider: string;
+  marketSymbol: string;
+  orderRef: string;
+  orderQuantity: string;
+  orderPrice: string;
+  orderDate: Date;
+};
+
+export type PlatformPlacesLiquidationOrderResult = {
+  loanId: string;
+  liquidationStatus: LiquidationStatus;
+  orderRef: string;
+  orderDate: Date;
+};
+
+export type PlatformSettlesLiquidationParams = {
+  loanId: string;
+  // All amounts are pre-calculated in smallest units by service layer
+  soldCollateralAmount: string; // Collateral sold on the market
+  releasedCollateralAmount: string; // Unsold collateral returned to the borrower
+  fulfilledAmount: string; // Market proceeds in principal currency
+  lenderRepaymentAmount: string; // LoanLiquidationRepayment credited to the lender
+  platformFeeAmount: string; // LoanLiquidationFee credited to the platform fee account
+  borrowerSurplusAmount: string; // LoanLiquidationSurplus credited to the borrower
+  returnedPremiAmount: string;
+  fulfilledDate: Date;
+};
+
+export type PlatformSettlesLiquidationResult = {
+  loanId: string;
+  liquidationStatus: LiquidationStatus;
+  loanStatus: LoanStatus;
+  fulfilledAmount: string;
+  fulfilledDate: Date;
+};
+
+export type PlatformFailsLiquidationParams = {
+  loanId: string;
+  failureReason: string;
+  failureDate: Date;
+};
+
+export type PlatformFailsLiquidationResult = {
+  loanId: string;
+  liquidationStatus: LiquidationStatus;
+  failureDate: Date;
+};
+
+// Loan Maturity Types
+export type MaturingLoan = {
+  loanId: string;
+  loanStatus: LoanStatus;
+  borrowerUserId: string;
+  lenderUserId: string;
+  principalCurrency: Currency;
+  repaymentAmount: string;
+  premiAmount: string;
+  liquidationFeeAmount: string;
+  maturityDate: Date;
+  repaymentInitiator?: 'Borrower' | 'Platform';
+  repaymentInvoiceId?: string;
+  repaymentPaidAmount: string; // Prepaid amount plus invoice_payments total
+};
+
+export type PlatformListsLoansDueForRepaymentInvoiceParams = {
+  asOfDate: Date;
+  limit?: number;
+};
+
+export type PlatformListsLoansDueForRepaymentInvoiceResult = {
+  loans: MaturingLoan[];
+};
+
+export type PlatformCreatesLoanRepaymentInvoiceParams = {
+  loanId: string;
+  repaymentInvoiceId: number;
+  repaymentWalletDerivationPath: string;
+  repaymentWalletAddress: string;
+  invoiceDate: Date;
+  dueDate: Date;
+  expiredDate: Date;
+};
+
+export type PlatformCreatesLoanRepaymentInvoiceResult = {
+  loanId: string;
+  repaymentInvoiceId: string;
+  invoicedAmount: string;
+  walletAddress: string;
+  invoiceDate: Date;
+  dueDate: Date;
+};
+
+export type PlatformListsLoansDueForRepaymentReminderParams = {
+  asOfDate: Date;
+  maxReminderOffsetDays: number;
+  limit?: number;
+};
+
+export type PlatformListsLoansDueForRepaymentReminderResult = {
+  loans: MaturingLoan[];
+};
+
+export type PlatformRecordsLoanRepaymentReminderParams = {
+  loanId: string;
+  reminderOffsetDays: number;
+  remindedDate: Date;
+};
+
+export type PlatformRecordsLoanRepaymentReminderResult = {
+  loanId: string;
+  reminderOffsetDays: number;
+  recorded: boolean; // false when the reminder was already sent for this offset
+};
+
+export type PlatformListsSettleableLoanRepaymentsParams = {
+  limit?: number;
+};
+
+export type PlatformListsSettleableLoanRepaymentsResult = {
+  loans: MaturingLoan[];
+};
+
+export type PlatformSettlesLoanRepaymentParams = {
+  loanId: string;
+  settlementDate: Date;
+};
+
+export type PlatformSettlesLoanRepaymentResult = {
+  loanId: string;
+  loanStatus: LoanStatus;
+  repaymentAmount: string;
+  releasedCollateralAmount: string;
+  concludedDate: Date;
+};
+
+export type PlatformListsLoansPastGracePeriodParams = {
+  asOfDate: Date;
+  gracePeriodDays: number;
+  limit?: number;
+};
+
+export type PlatformListsLoansPastGracePeriodResult = {
+  loans: MaturingLoan[];
+};
+
+export type PlatformDefaultsLoanParams = {
+  loanId: string;
+  liquidationTargetAmount: string;
+  defaultedDate: Date;
+};
+
+export type PlatformDefaultsLoanResult = {
+  loanId: string;
+  loanStatus: LoanStatus;
+  liquidationStatus: LiquidationStatus;
+  defaultedDate: Date;
+};
+
+// Loan Collateral Top-Up Types
+export type BorrowerRequestsLoanCollateralTopUpParams = {
+  loanId: string;
+  borrowerUserId: string;
+  topUpAmount: string;
+  topUpInvoiceId: number;
+  topUpInvoicePrepaidAmount: string;
+  topUpWalletDerivationPath: string;
+  topUpWalletAddress: string;
+  requestDate: Date;
+  dueDate: Date;
+  expiredDate: Date;
+};
+
+export type BorrowerRequestsLoanCollateralTopUpResult = {
+  loanId: string;
+  topUpAmount: string;
+  collateralCurrency: Currency;
+  topUpInvoice: Invoice & {
+    prepaidAmount: string;
+  };
+};
+
+export type LoanCollateralTopUp = {
+  invoiceId: string;
+  loanId: string;
+  loanStatus: LoanStatus;
+  borrowerUserId: string;
+  topUpAmount: string;
+  invoiceStatus: 'Pending' | 'PartiallyPaid' | 'Paid' | 'Overdue' | 'Expired' | 'Cancelled';
+  paidDate?: Date;
+  appliedDate?: Date;
+  principalCurrency: Currency;
+  collateralCurrency: Currency;
+  principalAmount: string;
+  interestAmount: string;
+  premiAmount: string;
+  collateralAmount: string;
+  currentLtvRatio?: number;
+  exchangeRate?: {
+    id: string;
+    bidPrice: string;
+    askPrice: string;
+    sourceDate: Date;
+  };
+};
+
+export type PlatformViewsLoanCollateralTopUpParams = {
+  walletAddress: string;
+};
+
+export type PlatformViewsLoanCollateralTopUpResult = {
+  topUp?: LoanCollateralTopUp; // undefined when the wallet does not belong to a top-up invoice
+};
+
+export type PlatformAppliesLoanCollateralTopUpParams = {
+  invoiceId: string;
+  exchangeRateId: string;
+  ltvRatio: number;
+  collateralValuationAmount: string;
+  debtAmount: string;
+  appliedDate: Date;
+};
+
+export type PlatformAppliesLoanCollateralTopUpResult = {
+  loanId: string;
+  invoiceId: string;
+  topUpAmount: string;
+  collateralAmount: string;
+  previousLtvRatio?: number;
+  ltvRatio: number;
+  appliedDate: Date;
+};
+
+// Loan Partial Repayment Types
+export type BorrowerRequestsLoanPartialRepaymentParams = {
+  loanId: string;
+  borrowerUserId: string;
+  repaidPrincipalAmount: string;
+  repaymentInvoiceId: number;
+  repaymentWalletDerivationPath: string;
+  repaymentWalletAddress: string;
+  requestDate: Date;
+  dueDate: Date;
+  expiredDate: Date;
+};
+
+export type BorrowerRequestsLoanPartialRepaymentResult = {
+  loanId: string;
+  repaidPrincipalAmount: string;
+  principalCurrency: Currency;
+  repaymentInvoice: Invoice;
+};
+
+export type LoanPartialRepayment = {
+  invoiceId: string;
+  loanId: string;
+  loanStatus: LoanStatus;
+  borrowerUserId: string;
+  lenderUserId: string;
+  repaidPrincipalAmount: string;
+  invoiceStatus: 'Pending' | 'PartiallyPaid' | 'Paid' | 'Overdue' | 'Expired' | 'Cancelled';
+  paidDate?: Date;
+  appliedDate?: Date;
+  principalCurrency: Currency;
+  collateralCurrency: Currency;
+  principalAmount: string;
+  interestAmount: string;
+  premiAmount: string;
+  repaymentAmount: string;
+  redeliveryFeeAmount: string;
+  liquidationFeeAmount: string;
+  collateralAmount: string;
+  maxLtvRatio: number; // collateral currency max_ltv, 0-1 scale
+  originationDate: Date;
+  maturityDate: Date;
+  exchangeRate?: {
+    id: string;
+    bidPrice: string;
+    askPrice: string;
+    sourceDate: Date;
+  };
+};
+
+export type PlatformViewsLoanPartialRepaymentParams = {
+  walletAddress: string;
+};
+
+export type PlatformViewsLoanPartialRepaymentResult = {
+  partialRepayment?: LoanPartialRepayment; // undefined when the wallet does not belong to a partial repayment invoice
+};
+
+export type PlatformAppliesLoanPartialRepaymentParams = {
+  invoiceId: string;
+  previousPrincipalAmount: string; // guards against the loan terms changing since they were computed
+  principalAmount: string;
+  interestAmount: string;
+  interestReductionAmount: string;
+  repaymentAmount: string;
+  redeliveryFeeAmount: string;
+  redeliveryAmount: string;
+  minCollateralValuation: string;
+  mcLtvRatio: number;
+  releasedCollateralAmount: string;
+  exchangeRateId: string;
+  ltvRatio: number;
+  collateralValuationAmount: string;
+  debtAmount: string;
+  appliedDate: Date;
+};
+
+export type PlatformAppliesLoanPartialRepaymentResult = {
+  loanId: string;
+  invoiceId: string;
+  repaidPrincipalAmount: string;
+  principalAmount: string;
+  interestAmount: string;
+  releasedCollateralAmount: string;
+  collateralAmount: string;
+  ltvRatio: number;
+  appliedDate: Date;
+};
+
+// Loan Extension Types
+export type LoanExtensionInterestHandling = 'Settle' | 'Capitalize';
+
+export type LoanExtensionStatus = 'Pending' | 'Accepted' | 'Declined';
+
+export type LoanExtension = {
+  id: string;
+  loanId: string;
+  termInMonths: number;
+  interestRate: number; // lender offer rate, 0-1 scale per annum
+  interestHandling: LoanExtensionInterestHandling;
+  status: LoanExtensionStatus;
+  requestedDate: Date;
+  expiredDate: Date;
+  respondedDate?: Date;
+  declineReason?: string;
+  previousMaturityDate?: Date;
+  maturityDate?: Date;
+  previousPrincipalAmount?: string;
+  principalAmount?: string;
+  settledInterestAmount?: string;
+  capitalizedInterestAmount?: string;
+  interestAmount?: string;
+  amendmentDocumentRequestId?: string;
+};
+
+export type BorrowerRequestsLoanExtensionParams = {
+  loanId: string;
+  borrowerUserId: string;
+  termInMonths: number;
+  interestHandling: LoanExtensionInterestHandling;
+  requestDate: Date;
+};
+
+export type BorrowerRequestsLoanExtensionResult = LoanExtension;
+
+export type UserViewsLoanExtensionsParams = {
+  loanId: string;
+  userId: string;
+};
+
+export type UserViewsLoanExtensionsResult = {
+  extensions: LoanExtension[]; // newest first
+};
+
+export type LenderAcceptsLoanExtensionParams = {
+  extensionId: string;
+  lenderUserId: string;
+  previousPrincipalAmount: string; // guards against the loan terms changing since they were computed
+  previousMaturityDate: Date;
+  principalAmount: string;
+  interestAmount: string;
+  settledInterestAmount: string;
+  settledRedeliveryFeeAmount: string;
+  capitalizedInterestAmount: string;
+  repaymentAmount: string;
+  redeliveryFeeAmount: string;
+  redeliveryAmount: string;
+  minCollateralValuation: string;
+  mcLtvRatio: number;
+  maturityDate: Date;
+  amendmentDocumentRequestId: string;
+  acceptedDate: Date;
+};
+
+export type LenderAcceptsLoanExtensionResult = LoanExtension & {
+  borrowerUserId: string;
+  lenderUserId: string;
+  cancelledRepaymentInvoiceId?: string;
+};
+
+export type LenderDeclinesLoanExtensionParams = {
+  extensionId: string;
+  lenderUserId: string;
+  declineReason?: string;
+  declinedDate: Date;
+};
+
+export type LenderDeclinesLoanExtensionResult = LoanExtension & {
+  borrowerUserId: string;
+  lenderUserId: string;
+};
+
+// Loan Position Types
+export type LoanPositionListingStatus = 'Listed' | 'Sold' | 'Cancelled';
+
+export type LoanPositionListing = {
+  id: string;
+  loanId: string;
+  sellerUserId: string;
+  askingPriceAmount: string; // principal currency smallest unit
+  status: LoanPositionListingStatus;
+  listedDate: Date;
+  buyerUserId?: string;
+  soldDate?: Date;
+  cancelledDate?: Date;
+  transferDocumentRequestId?: string;
+};
+
+export type LenderListsLoanPositionParams = {
+  loanId: string;
+  sellerUserId: string;
+  askingPriceAmount: string;
+  listedDate: Date;
+};
+
+export type LenderListsLoanPositionResult = LoanPositionListing;
+
+export type LenderCancelsLoanPositionListingParams = {
+  listingId: string;
+  sellerUserId: string;
+  cancelledDate: Date;
+};
+
+export type LenderCancelsLoanPositionListingResult = LoanPositionListing;
+
+export type LenderViewsLoanPositionListingsParams = {
+  principalBlockchainKey?: string;
+  principalTokenId?: string;
+  page?: number;
+  limit?: number;
+};
+
+export type LoanPositionListingDetails = LoanPositionListing & {
+  principalCurrency: Currency;
+  principalAmount: string;
+  interestAmount: string;
+  redeliveryAmount: string; // what the holder receives on repayment
+  collateralCurrency: Currency;
+  collateralAmount: string;
+  currentLtvRatio?: number;
+  maturityDate: Date;
+};
+
+export type LenderViewsLoanPositionListingsResult = {
+  listings: LoanPositionListingDetails[];
+  pagination: PaginationMeta;
+};
+
+export type LenderPurchasesLoanPositionParams = {
+  listingId: string;
+  buyerUserId: string;
+  transferDocumentRequestId: string;
+  purchaseDate: Date;
+};
+
+export type LenderPurchasesLoanPositionResult = LoanPositionListingDetails & {
+  buyerUserId: string;
+  borrowerUserId: string;
+  soldDate: Date;
+};
+
+// Loan Auto-Lend Rule Types
+export type LoanAutoLendRuleStatus = 'Active' | 'Paused' | 'Deleted';
+
+export type LoanAutoLendRule = {
+  id: string;
+  lenderUserId: string;
+  principalCurrency: Currency;
+  minTicketAmount: string;
+  maxTicketAmount: string;
+  minInterestRate: number; // 0-1 decimal
+  termInMonthsOptions: number[];
+  collateralCurrencies: Array<{
+    blockchainKey: string;
+    tokenId: string;
+  }>;
+  maxExposureAmount: string;
+  currentExposureAmount: string; // open offer principal plus outstanding principal still held
+  status: LoanAutoLendRuleStatus;
+  createdDate: Date;
+  updatedDate: Date;
+  lastReplenishedDate?: Date;
+};
+
+export type LenderCreatesLoanAutoLendRuleParams = {
+  lenderUserId: string;
+  principalBlockchainKey: string;
+  principalTokenId: string;
+  minTicketAmount: string;
+  maxTicketAmount: string;
+  minInterestRate: number;
+  termInMonthsOptions: number[];
+  collateralCurrencies: Array<{
+    blockchainKey: string;
+    tokenId: string;
+  }>;
+  maxExposureAmount: string;
+  createdDate: Date;
+};
+
+export type LenderCreatesLoanAutoLendRuleResult = LoanAutoLendRule;
+
+export type LenderUpdatesLoanAutoLendRuleParams = {
+  ruleId: string;
+  lenderUserId: string;
+  minTicketAmount?: string;
+  maxTicketAmount?: string;
+  minInterestRate?: number;
+  termInMonthsOptions?: number[];
+  collateralCurrencies?: Array<{
+    blockchainKey: string;
+    tokenId: string;
+  }>;
+  maxExposureAmount?: string;
+  status?: 'Active' | 'Paused';
+  updatedDate: Date;
+};
+
+export type LenderUpdatesLoanAutoLendRuleResult = LoanAutoLendRule;
+
+export type LenderDeletesLoanAutoLendRuleParams = {
+  ruleId: string;
+  lenderUserId: string;
+  deletedDate: Date;
+};
+
+export type LenderDeletesLoanAutoLendRuleResult = LoanAutoLendRule;
+
+export type LenderViewsLoanAutoLendRuleParams = {
+  ruleId: string;
+  lenderUserId: string;
+};
+
+export type LenderViewsLoanAutoLendRuleResult = LoanAutoLendRule;
+
+export type LenderViewsLoanAutoLendRulesParams = {
+  lenderUserId: string;
+  ruleId?: string;
+  status?: LoanAutoLendRuleStatus; // Deleted rules are left out unless asked for
+};
+
+export type LenderViewsLoanAutoLendRulesResult = {
+  rules: LoanAutoLendRule[];
+};
+
+export type PlatformListsLoanAutoLendRulesToReplenishParams = {
+  asOfDate: Date;
+  limit?: number;
+};
+
+export type LoanAutoLendRuleReplenishment = LoanAutoLendRule & {
+  openAvailableAmount: string; // available principal across the rule's Funding and Published offers
+  lenderBalanceAmount: string; // lender User account balance in the principal currency
+};
+
+export type PlatformListsLoanAutoLendRulesToReplenishResult = {
+  rules: LoanAutoLendRuleReplenishment[];
+};
+
+export type PlatformMarksLoanAutoLendRuleReplenishedParams = {
+  ruleId: string;
+  replenishedDate: Date;
+};
+
+export type MarketCircuitBreakerStatus = 'Halted' | 'Resumed';
+export type LtvThresholdLevel =
+  | 'warning1'
+  | 'warning2'
+  | 'warning3'
+  | 'riskPremium'
+  | 'liquidation';
+
+export type MarketCircuitBreaker = {
+  id: string;
+  blockchainKey: string;
+  baseCurrencyTokenId: string;
+  quoteCurrencyTokenId: string;
+  status: MarketCircuitBreakerStatus;
+  priceChangeRate: number; // 0-1 decimal, the largest rolling change seen while halted
+  triggerExchangeRateId: string;
+  haltedDate: Date;
+  lastBreachDate: Date;
+  resumedDate?: Date;
+  resumedByUserId?: string; // undefined when the pair resumed after stabilising
+};
+
+export type PlatformViewsHaltedMarketParams = {
+  blockchainKey: string;
+  baseCurrencyTokenId: string;
+  quoteCurrencyTokenId: string;
+};
+
+export type PlatformViewsHaltedMarketResult = {
+  circuitBreaker?: MarketCircuitBreaker;
+};
+
+export type PlatformViewsLoanMarketHaltParams = {
+  loanId: string;
+};
+
+export type PlatformViewsLoanMarketHaltResult = {
+  circuitBreaker?: MarketCircuitBreaker;
+};
+
+export type PlatformHaltsMarketParams = {
+  blockchainKey: string;
+  baseCurrencyTokenId: string;
+  quoteCurrencyTokenId: string;
+  priceChangeRate: number;
+  triggerExchangeRateId: string;
+  haltedDate: Date;
+};
+
+export type PlatformHaltsMarketResult = {
+  circuitBreaker: MarketCircuitBreaker;
+};
+
+export type PlatformRecordsMarketBreachParams = {
+  circuitBreakerId: string;
+  priceChangeRate: number;
+  breachDate: Date;
+};
+
+export type PlatformRecordsMarketBreachResult = {
+  circuitBreaker: MarketCircuitBreaker;
+};
+
+export type PlatformResumesMarketParams = {
+  circuitBreakerId: string;
+  resumedDate: Date;
+  resumedByUserId?: string;
+};
+
+export type PlatformResumesMarketResult = {
+  circuitBreaker?: MarketCircuitBreaker;
+};
+
+export type AdminListsMarketCircuitBreakersParams = {
+  status?: MarketCircuitBreakerStatus;
+  limit?: number;
+};
+
+export type AdminListsMarketCircuitBreakersResult = {
+  circuitBreakers: MarketCircuitBreaker[];
+};
+
+export type PlatformDefersLtvBreachParams = {
+  circuitBreakerId: string;
+  loanId: string;
+  thresholdLevel: LtvThresholdLevel;
+  exchangeRateId: string;
+  ltvRatio: number;
+  deferredDate: Date;
+};
+
+export type PlatformDefersLtvBreachResult = {
+  deferredBreachId: string;
+};
+
+export type PlatformReleasesDeferredLtvBreachesParams = {
+  circuitBreakerId: string;
+  releasedDate: Date;
+};
+
+export type ReleasedLtvBreach = {
+  loanId: string;
+  loanStatus: LoanStatus;
+  thresholdLevel: LtvThresholdLevel;
+  deferredLtvRatio: number;
+  latestValuation?: {
+    exchangeRateId: string;
+    valuationDate: Date;
+    ltvRatio: number;
+    collateralValuationAmount: string;
+    debtAmount?: string;
+  };
+};
+
+export type PlatformReleasesDeferredLtvBreachesResult = {
+  releasedBreaches: ReleasedLtvBreach[];
+};
+
+export type LtvWarningEventType = 'LtvBreached' | 'LtvRecovered';
+
+export type LoanLtvWarningState = {
+  warningLevel?: LtvThresholdLevel; // undefined when below every threshold
+  levelChangedDate?: Date;
+  lastBreachLevel?: LtvThresholdLevel;
+  lastBreachDate?: Date;
+  lastRecoveredDate?: Date;
+};
+
+export type PlatformUpdatesLoanLtvWarningStateParams = {
+  loanId: string;
+  previousWarningLevel?: LtvThresholdLevel;
+  state: LoanLtvWarningState;
+  ltvRatio: number;
+  exchangeRateId: string;
+  eventType?: LtvWarningEventType;
+  updatedDate: Date;
+};
+
+export type PlatformUpdatesLoanLtvWarningStateResult = {
+  transitionId?: string; // undefined when the warning level did not change
+};
+
+export type LoanLtvWarningTransition = {
+  id: string;
+  loanId: string;
+  fromLevel?: LtvThresholdLevel;
+  toLevel?: LtvThresholdLevel;
+  ltvRatio: number;
+  exchangeRateId: string;
+  eventType?: LtvWarningEventType; // undefined when de-duplicated or moving between levels
+  transitionDate: Date;
+};
+
+export type PlatformListsLoanLtvWarningTransitionsParams = {
+  loanId: string;
+  limit?: number;
+};
+
+export type PlatformListsLoanLtvWarningTransitionsResult = {
+  transitions: LoanLtvWarningTransition[];
+};
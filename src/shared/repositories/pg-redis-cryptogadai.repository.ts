@@ -145,6 +145,28 @@ export class PgRedisCryptogadaiRepository extends CryptogadaiRepository {
       join(__dirname, './postgres/0016-fix-currencies-ltv-values.sql'),
       join(__dirname, './postgres/0017-standardize-interest-rate-format.sql'),
       join(__dirname, './postgres/0018-historical-account-balances.sql'),
+      join(__dirname, './postgres/0019-loan-maturity.sql'),
+      join(__dirname, './postgres/0020-loan-collateral-top-up.sql'),
+      join(__dirname, './postgres/0021-loan-partial-repayment.sql'),
+      join(__dirname, './postgres/0022-loan-extension.sql'),
+      join(__dirname, './postgres/0023-loan-position.sql'),
+      join(__dirname, './postgres/0024-loan-auto-lend-rule.sql'),
+      join(__dirname, './postgres/0025-loan-application-match.sql'),
+      join(__dirname, './postgres/0026-indexer-checkpoint.sql'),
+      join(__dirname, './postgres/0027-invoice-payment-output.sql'),
+      join(__dirname, './postgres/0028-invoice-sweep.sql'),
+      join(__dirname, './postgres/0029-beneficiary-activation.sql'),
+      join(__dirname, './postgres/0030-withdrawal-approval.sql'),
+      join(__dirname, './postgres/0031-withdrawal-batch.sql'),
+      join(__dirname, './postgres/0032-withdrawal-fee-bump.sql'),
+      join(__dirname, './postgres/0033-chain-plugins.sql'),
+      join(__dirname, './postgres/0034-tron.sql'),
+      join(__dirname, './postgres/0035-price-aggregation.sql'),
+      join(__dirname, './postgres/0036-market-circuit-breaker.sql'),
+      join(__dirname, './postgres/0037-valuation-price-mode.sql'),
+      join(__dirname, './postgres/0038-loan-ltv-warning-state.sql'),
+      join(__dirname, './postgres/0039-currency-ltv-thresholds.sql'),
+      join(__dirname, './postgres/0040-invoice-payment-log-index.sql'),
     ];
 
     const client = await this.#pool.connect();
@@ -0,0 +1,12 @@
+--- LOAN MATURITY ---
+-- Tracks repayment reminders sent by the loan maturity worker so each offset is notified once
+
+CREATE TABLE IF NOT EXISTS loan_repayment_reminders (
+  loan_id BIGINT NOT NULL REFERENCES loans (id),
+  reminder_offset_days INT NOT NULL CHECK (reminder_offset_days > 0),
+  reminded_date TIMESTAMP NOT NULL,
+  PRIMARY KEY (loan_id, reminder_offset_days)
+);
+
+COMMENT ON TABLE loan_repayment_reminders IS 'LoanRepaymentDue reminders sent before loans.maturity_date, one row per configured offset';
+COMMENT ON COLUMN loan_repayment_reminders.reminder_offset_days IS 'Days before maturity the reminder was scheduled for';
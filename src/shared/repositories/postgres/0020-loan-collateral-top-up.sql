@@ -0,0 +1,19 @@
+--- LOAN COLLATERAL TOP-UP ---
+-- Borrowers add collateral to active loans through a LoanCollateral invoice linked to the loan
+
+CREATE TABLE IF NOT EXISTS loan_collateral_top_ups (
+  invoice_id BIGINT PRIMARY KEY REFERENCES invoices (id),
+  loan_id BIGINT NOT NULL REFERENCES loans (id),
+  top_up_amount DECIMAL(78, 0) NOT NULL CHECK (top_up_amount > 0),
+  requested_date TIMESTAMP NOT NULL,
+  applied_date TIMESTAMP,
+  exchange_rate_id BIGINT REFERENCES exchange_rates (id),
+  previous_ltv_ratio DECIMAL(8, 4),
+  ltv_ratio DECIMAL(8, 4)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_collateral_top_ups_loan_id ON loan_collateral_top_ups (loan_id);
+
+COMMENT ON TABLE loan_collateral_top_ups IS 'Collateral added to an active loan, applied to loans.collateral_amount once the invoice is paid';
+COMMENT ON COLUMN loan_collateral_top_ups.applied_date IS 'Set when the paid collateral is moved to platform escrow and the loan is revalued';
+COMMENT ON COLUMN loan_collateral_top_ups.exchange_rate_id IS 'Exchange rate used for the loan_valuations row recorded on apply';
@@ -0,0 +1,28 @@
+--- LOAN PARTIAL REPAYMENT ---
+-- Borrowers pay down part of the principal before maturity through a LoanRepayment invoice linked to the loan.
+-- The full repayment flow keeps using loan_repayments, which stays one-to-one with loans.
+
+CREATE TABLE IF NOT EXISTS loan_partial_repayments (
+  invoice_id BIGINT PRIMARY KEY REFERENCES invoices (id),
+  loan_id BIGINT NOT NULL REFERENCES loans (id),
+  repaid_principal_amount DECIMAL(78, 0) NOT NULL CHECK (repaid_principal_amount > 0),
+  requested_date TIMESTAMP NOT NULL,
+  applied_date TIMESTAMP,
+  previous_principal_amount DECIMAL(78, 0),
+  interest_reduction_amount DECIMAL(78, 0),
+  released_collateral_amount DECIMAL(78, 0),
+  exchange_rate_id BIGINT REFERENCES exchange_rates (id),
+  ltv_ratio DECIMAL(8, 4)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_partial_repayments_loan_id ON loan_partial_repayments (loan_id);
+
+COMMENT ON TABLE loan_partial_repayments IS 'Principal paid down on an active loan, applied to the loan terms once the invoice is paid';
+COMMENT ON COLUMN loan_partial_repayments.applied_date IS 'Set when the payment is passed to the lender, the loan terms are recomputed and excess collateral is released';
+COMMENT ON COLUMN loan_partial_repayments.interest_reduction_amount IS 'Interest no longer charged on the repaid principal for the remaining term';
+COMMENT ON COLUMN loan_partial_repayments.released_collateral_amount IS 'Collateral returned to the borrower, bounded so the loan stays within currencies.max_ltv';
+
+-- Debt the LTV ratio was computed against, so the valuation history shows principal paydowns
+ALTER TABLE loan_valuations ADD COLUMN IF NOT EXISTS debt_amount DECIMAL(78, 0);
+
+COMMENT ON COLUMN loan_valuations.debt_amount IS 'principal_amount + interest_amount + premi_amount of the loan at valuation time';
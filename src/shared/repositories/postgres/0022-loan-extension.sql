@@ -0,0 +1,46 @@
+--- LOAN EXTENSION ---
+-- Borrowers ask to roll an active loan over for another term from the lender's loan_offers.term_in_months_options.
+-- The lender accepts or declines; on acceptance the accrued interest is settled or capitalised and the loan gets a new maturity.
+
+CREATE TABLE IF NOT EXISTS loan_extensions (
+  id BIGSERIAL PRIMARY KEY,
+  loan_id BIGINT NOT NULL REFERENCES loans (id),
+  term_in_months INT NOT NULL CHECK (term_in_months > 0),
+  interest_rate DECIMAL(8, 4) NOT NULL CHECK (interest_rate >= 0 AND interest_rate <= 1),
+  interest_handling VARCHAR(32) NOT NULL CHECK (interest_handling IN ('Settle', 'Capitalize')),
+  status VARCHAR(32) NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Accepted', 'Declined')),
+  requested_date TIMESTAMP NOT NULL,
+  expired_date TIMESTAMP NOT NULL,
+  responded_date TIMESTAMP,
+  decline_reason TEXT,
+  previous_maturity_date TIMESTAMP,
+  maturity_date TIMESTAMP,
+  previous_principal_amount DECIMAL(78, 0),
+  principal_amount DECIMAL(78, 0),
+  settled_interest_amount DECIMAL(78, 0),
+  capitalized_interest_amount DECIMAL(78, 0),
+  interest_amount DECIMAL(78, 0),
+  amendment_document_request_id VARCHAR(255)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_extensions_loan_id ON loan_extensions (loan_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_extensions_pending
+ON loan_extensions (loan_id)
+WHERE status = 'Pending';
+
+COMMENT ON TABLE loan_extensions IS 'Rollover requests on active loans, one pending request per loan';
+COMMENT ON COLUMN loan_extensions.interest_rate IS 'Lender offer rate (0-1) per annum, charged pro rata for term_in_months';
+COMMENT ON COLUMN loan_extensions.interest_handling IS 'Settle: accrued interest is paid to the lender from the borrower platform balance, Capitalize: accrued interest is added to the principal';
+COMMENT ON COLUMN loan_extensions.expired_date IS 'Loan maturity at request time, the lender must respond before it';
+COMMENT ON COLUMN loan_extensions.interest_amount IS 'New loans.interest_amount, charged on principal_amount for the extension term';
+COMMENT ON COLUMN loan_extensions.amendment_document_request_id IS 'loan_documents.request_id of the LoanAmendment document';
+
+-- Each accepted extension produces its own amendment, so LoanAmendment is kept out of the one-active-document rule
+ALTER TABLE loan_documents DROP CONSTRAINT IF EXISTS loan_documents_document_type_check;
+ALTER TABLE loan_documents ADD CONSTRAINT loan_documents_document_type_check
+  CHECK (document_type IN ('LoanAgreement', 'LiquidationNotice', 'RepaymentReceipt', 'LoanAmendment'));
+
+DROP INDEX IF EXISTS idx_loan_documents_unique_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_documents_unique_active
+ON loan_documents(loan_id, document_type)
+WHERE status IN ('Queued', 'InProgress', 'Completed') AND document_type != 'LoanAmendment';
@@ -0,0 +1,103 @@
+--- LOAN POSITION ---
+-- Lenders can sell the position of an active loan to another lender.
+-- loan_positions records who currently holds each loan, repayment and interest flows go to that lender
+-- instead of loan_offers.lender_user_id.
+
+CREATE TABLE IF NOT EXISTS loan_position_listings (
+  id BIGSERIAL PRIMARY KEY,
+  loan_id BIGINT NOT NULL REFERENCES loans (id),
+  seller_user_id BIGINT NOT NULL REFERENCES users (id),
+  asking_price_amount DECIMAL(78, 0) NOT NULL CHECK (asking_price_amount > 0),
+  status VARCHAR(32) NOT NULL DEFAULT 'Listed' CHECK (status IN ('Listed', 'Sold', 'Cancelled')),
+  listed_date TIMESTAMP NOT NULL,
+  buyer_user_id BIGINT REFERENCES users (id),
+  sold_date TIMESTAMP,
+  cancelled_date TIMESTAMP,
+  transfer_document_request_id VARCHAR(255),
+  CHECK (
+    (status = 'Listed' AND buyer_user_id IS NULL AND sold_date IS NULL AND cancelled_date IS NULL) OR
+    (status = 'Sold' AND buyer_user_id IS NOT NULL AND sold_date IS NOT NULL AND cancelled_date IS NULL) OR
+    (status = 'Cancelled' AND buyer_user_id IS NULL AND sold_date IS NULL AND cancelled_date IS NOT NULL)
+  ),
+  CHECK (buyer_user_id IS NULL OR buyer_user_id != seller_user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_position_listings_loan_id ON loan_position_listings (loan_id);
+CREATE INDEX IF NOT EXISTS idx_loan_position_listings_status ON loan_position_listings (status, listed_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_position_listings_listed
+ON loan_position_listings (loan_id)
+WHERE status = 'Listed';
+
+COMMENT ON TABLE loan_position_listings IS 'Active loan positions offered for sale by their current lender, one open listing per loan';
+COMMENT ON COLUMN loan_position_listings.asking_price_amount IS 'Price in the loan principal currency, paid from the buyer platform balance';
+COMMENT ON COLUMN loan_position_listings.transfer_document_request_id IS 'loan_documents.request_id of the LoanPositionTransfer deed';
+
+CREATE TABLE IF NOT EXISTS loan_positions (
+  loan_id BIGINT PRIMARY KEY REFERENCES loans (id),
+  lender_user_id BIGINT NOT NULL REFERENCES users (id),
+  acquired_date TIMESTAMP NOT NULL,
+  loan_position_listing_id BIGINT REFERENCES loan_position_listings (id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_positions_lender_user_id ON loan_positions (lender_user_id);
+
+COMMENT ON TABLE loan_positions IS 'Current holder of each loan, the offer lender until the position is sold';
+COMMENT ON COLUMN loan_positions.loan_position_listing_id IS 'Listing the position was bought through, NULL when held since origination';
+
+CREATE OR REPLACE FUNCTION create_loan_position_on_loan_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO loan_positions (loan_id, lender_user_id, acquired_date)
+  SELECT NEW.id, lo.lender_user_id, NEW.origination_date
+  FROM loan_offers lo
+  WHERE lo.id = NEW.loan_offer_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER create_loan_position_on_loan_insert_trigger
+AFTER INSERT ON loans
+FOR EACH ROW
+EXECUTE FUNCTION create_loan_position_on_loan_insert();
+
+INSERT INTO loan_positions (loan_id, lender_user_id, acquired_date)
+SELECT l.id, lo.lender_user_id, l.origination_date
+FROM loans l
+JOIN loan_offers lo ON l.loan_offer_id = lo.id
+ON CONFLICT (loan_id) DO NOTHING;
+
+-- Position sale settles between buyer and seller balances
+ALTER TABLE account_mutations DROP CONSTRAINT IF EXISTS account_mutations_mutation_type_check;
+ALTER TABLE account_mutations ADD CONSTRAINT account_mutations_mutation_type_check
+  CHECK (mutation_type IN (
+    -- Invoice operations
+    'InvoicePrepaid', 'InvoiceReceived',
+    -- Loan operations - borrower perspective
+    'LoanCollateralDeposit', 'LoanApplicationCollateralEscrowed', 'LoanPrincipalDisbursement', 'LoanDisbursementReceived',
+    'LoanPrincipalDisbursementFee', 'LoanRepayment', 'LoanCollateralRelease', 'LoanCollateralReturned',
+    'LoanCollateralReleased', 'LoanLiquidationRelease', 'LoanLiquidationSurplus', 'LoanLiquidationReleaseFee',
+    -- Loan operations - lender perspective
+    'LoanPrincipalFunded', 'LoanOfferPrincipalEscrowed', 'LoanPrincipalReturned', 'LoanPrincipalReturnedFee',
+    'LoanInterestReceived', 'LoanRepaymentReceived', 'LoanLiquidationRepayment',
+    'LoanPositionPurchase', 'LoanPositionSale',
+    -- Loan operations - platform perspective
+    'LoanDisbursementPrincipal', 'LoanDisbursementFee', 'LoanReturnFee', 'LoanLiquidationFee', 'LoanLiquidationCollateralUsed',
+    -- Withdrawal operations
+    'WithdrawalRequested', 'WithdrawalRefunded',
+    -- Platform fee operations
+    'PlatformFeeCharged', 'PlatformFeeRefunded',
+    -- Admin and emergency operations
+    'AdminManualAdjustment', 'LiquidationDeficitCover', 'PlatformLoss', 'EmergencyFreeze',
+    'EmergencyUnfreeze', 'ComplianceHold', 'ComplianceRelease', 'TestBalanceAdjustment'
+  ));
+
+-- Every sale produces its own transfer deed, so LoanPositionTransfer is kept out of the one-active-document rule
+ALTER TABLE loan_documents DROP CONSTRAINT IF EXISTS loan_documents_document_type_check;
+ALTER TABLE loan_documents ADD CONSTRAINT loan_documents_document_type_check
+  CHECK (document_type IN ('LoanAgreement', 'LiquidationNotice', 'RepaymentReceipt', 'LoanAmendment', 'LoanPositionTransfer'));
+
+DROP INDEX IF EXISTS idx_loan_documents_unique_active;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loan_documents_unique_active
+ON loan_documents(loan_id, document_type)
+WHERE status IN ('Queued', 'InProgress', 'Completed') AND document_type NOT IN ('LoanAmendment', 'LoanPositionTransfer');
@@ -0,0 +1,49 @@
+--- LOAN AUTO-LEND RULE ---
+-- Standing lender rules that keep prepaid loan offers open from idle platform balance.
+-- The auto-lend scheduler creates an offer for a rule whenever its open available principal runs low,
+-- as long as the rule exposure stays within max_exposure_amount.
+
+CREATE TABLE IF NOT EXISTS loan_auto_lend_rules (
+  id BIGSERIAL PRIMARY KEY,
+  lender_user_id BIGINT NOT NULL REFERENCES users (id),
+  principal_currency_blockchain_key VARCHAR(64) NOT NULL,
+  principal_currency_token_id VARCHAR(64) NOT NULL,
+  min_ticket_amount DECIMAL(78, 0) NOT NULL CHECK (min_ticket_amount > 0),
+  max_ticket_amount DECIMAL(78, 0) NOT NULL CHECK (max_ticket_amount > 0),
+  min_interest_rate DECIMAL(8, 4) NOT NULL CHECK (min_interest_rate > 0 AND min_interest_rate <= 1), -- 0 - 1 decimal, offers are created at this rate
+  term_in_months_options INT[] NOT NULL CHECK (cardinality(term_in_months_options) > 0),
+  max_exposure_amount DECIMAL(78, 0) NOT NULL CHECK (max_exposure_amount > 0),
+  status VARCHAR(32) NOT NULL DEFAULT 'Active' CHECK (status IN ('Active', 'Paused', 'Deleted')),
+  created_date TIMESTAMP NOT NULL,
+  updated_date TIMESTAMP NOT NULL,
+  deleted_date TIMESTAMP,
+  last_replenished_date TIMESTAMP,
+  FOREIGN KEY (principal_currency_blockchain_key, principal_currency_token_id) REFERENCES currencies (blockchain_key, token_id),
+  CHECK (min_ticket_amount <= max_ticket_amount),
+  CHECK (max_ticket_amount <= max_exposure_amount),
+  CHECK ((status = 'Deleted') = (deleted_date IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_auto_lend_rules_lender_user_id ON loan_auto_lend_rules (lender_user_id);
+CREATE INDEX IF NOT EXISTS idx_loan_auto_lend_rules_status ON loan_auto_lend_rules (status);
+
+COMMENT ON TABLE loan_auto_lend_rules IS 'Lender rules that fund loan offers from platform balance without a manual POST /loan-offers';
+COMMENT ON COLUMN loan_auto_lend_rules.min_ticket_amount IS 'min_loan_principal_amount of every offer created by the rule';
+COMMENT ON COLUMN loan_auto_lend_rules.max_ticket_amount IS 'max_loan_principal_amount of every offer created by the rule, also the open principal the scheduler keeps available';
+COMMENT ON COLUMN loan_auto_lend_rules.max_exposure_amount IS 'Cap on open offer principal plus outstanding principal of loans still held from rule offers';
+
+CREATE TABLE IF NOT EXISTS loan_auto_lend_rule_collateral_currencies (
+  loan_auto_lend_rule_id BIGINT NOT NULL REFERENCES loan_auto_lend_rules (id),
+  collateral_currency_blockchain_key VARCHAR(64) NOT NULL,
+  collateral_currency_token_id VARCHAR(64) NOT NULL,
+  PRIMARY KEY (loan_auto_lend_rule_id, collateral_currency_blockchain_key, collateral_currency_token_id),
+  FOREIGN KEY (collateral_currency_blockchain_key, collateral_currency_token_id) REFERENCES currencies (blockchain_key, token_id)
+);
+
+COMMENT ON TABLE loan_auto_lend_rule_collateral_currencies IS 'Collateral currencies accepted by offers of an auto-lend rule, applications with other collateral are not matched';
+
+ALTER TABLE loan_offers ADD COLUMN IF NOT EXISTS loan_auto_lend_rule_id BIGINT REFERENCES loan_auto_lend_rules (id);
+
+CREATE INDEX IF NOT EXISTS idx_loan_offers_loan_auto_lend_rule_id ON loan_offers (loan_auto_lend_rule_id);
+
+COMMENT ON COLUMN loan_offers.loan_auto_lend_rule_id IS 'Auto-lend rule that created the offer, NULL for offers created by the lender';
@@ -0,0 +1,21 @@
+--- LOAN APPLICATION MATCH ---
+-- The order-book matcher can split one loan application across several loan offers.
+-- Each offer funds its own tranche: a loan with the offer lender, a share of the application principal
+-- and the same share of the collateral. loan_applications.matched_loan_offer_id keeps the best priced offer.
+
+CREATE TABLE IF NOT EXISTS loan_application_matches (
+  loan_application_id BIGINT NOT NULL REFERENCES loan_applications (id),
+  loan_offer_id BIGINT NOT NULL REFERENCES loan_offers (id),
+  principal_amount DECIMAL(78, 0) NOT NULL CHECK (principal_amount > 0),
+  collateral_amount DECIMAL(78, 0) NOT NULL CHECK (collateral_amount > 0),
+  matched_date TIMESTAMP NOT NULL,
+  loan_id BIGINT REFERENCES loans (id),
+  PRIMARY KEY (loan_application_id, loan_offer_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_application_matches_loan_offer_id ON loan_application_matches (loan_offer_id);
+
+COMMENT ON TABLE loan_application_matches IS 'Principal allocated to each offer when a loan application is matched with several offers';
+COMMENT ON COLUMN loan_application_matches.principal_amount IS 'Tranche principal, the tranches of an application sum up to loan_applications.principal_amount';
+COMMENT ON COLUMN loan_application_matches.collateral_amount IS 'Tranche collateral, pro-rated from loan_applications.collateral_deposit_amount by principal share';
+COMMENT ON COLUMN loan_application_matches.loan_id IS 'Loan originated for this tranche, NULL until origination';
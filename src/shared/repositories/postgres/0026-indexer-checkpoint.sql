@@ -0,0 +1,38 @@
+--- INDEXER CHECKPOINT ---
+-- Block indexers only dispatch payments from blocks that reached the confirmation depth of their chain.
+-- The last processed block is checkpointed per blockchain so a restarted indexer replays what it missed,
+-- and the hashes of recently processed blocks are kept to notice when a reorg replaces one of them.
+
+CREATE TABLE IF NOT EXISTS indexer_checkpoints (
+  blockchain_key VARCHAR(64) PRIMARY KEY REFERENCES blockchains (key),
+  block_number BIGINT NOT NULL CHECK (block_number >= 0),
+  block_hash VARCHAR(128) NOT NULL,
+  updated_date TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS indexer_blocks (
+  blockchain_key VARCHAR(64) NOT NULL REFERENCES blockchains (key),
+  block_number BIGINT NOT NULL CHECK (block_number >= 0),
+  block_hash VARCHAR(128) NOT NULL,
+  processed_date TIMESTAMP NOT NULL,
+  PRIMARY KEY (blockchain_key, block_number)
+);
+
+CREATE TABLE IF NOT EXISTS indexer_dispatched_payments (
+  blockchain_key VARCHAR(64) NOT NULL REFERENCES blockchains (key),
+  payment_hash VARCHAR(128) NOT NULL,
+  block_number BIGINT NOT NULL,
+  block_hash VARCHAR(128) NOT NULL,
+  dispatched_date TIMESTAMP NOT NULL,
+  orphaned_date TIMESTAMP,
+  PRIMARY KEY (blockchain_key, payment_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_indexer_dispatched_payments_block ON indexer_dispatched_payments (blockchain_key, block_number);
+CREATE INDEX IF NOT EXISTS idx_indexer_dispatched_payments_orphaned ON indexer_dispatched_payments (orphaned_date) WHERE orphaned_date IS NOT NULL;
+
+COMMENT ON TABLE indexer_checkpoints IS 'Last confirmed block processed by the indexer of each blockchain';
+COMMENT ON TABLE indexer_blocks IS 'Hashes of recently processed blocks, pruned past the reorg window';
+COMMENT ON TABLE indexer_dispatched_payments IS 'Payments dispatched to invoice payment processing and the block they were found in';
+COMMENT ON COLUMN indexer_dispatched_payments.payment_hash IS 'Matches invoice_payments.payment_hash once the payment is recorded';
+COMMENT ON COLUMN indexer_dispatched_payments.orphaned_date IS 'Set when the block was reorged out and the transaction was not found again in the replacement chain';
@@ -0,0 +1,5 @@
+--- INVOICE PAYMENT OUTPUT ---
+-- On UTXO chains a single transaction can pay several invoice addresses.
+-- Each matching output is recorded as its own payment, so its payment hash carries the output index.
+
+COMMENT ON COLUMN invoice_payments.payment_hash IS 'Transaction hash on account chains, txid:vout on UTXO chains where one transaction can pay several invoices';
@@ -0,0 +1,29 @@
+--- INVOICE SWEEP ---
+-- Once an invoice is paid, the funds on its derived wallet are swept into the hot wallet of the blockchain.
+-- A sweep is recorded per invoice and retried until the transfer is sent. Token sweeps on EVM chains
+-- first fund the invoice wallet with gas from the hot wallet.
+
+CREATE TABLE IF NOT EXISTS invoice_sweeps (
+  id BIGSERIAL PRIMARY KEY,
+  invoice_id BIGINT NOT NULL UNIQUE REFERENCES invoices (id),
+  status VARCHAR(32) NOT NULL DEFAULT 'Pending' CHECK (status IN ('Pending', 'Sent', 'Skipped', 'Failed')),
+  attempt_count INT NOT NULL DEFAULT 0,
+  swept_amount DECIMAL(78, 0),
+  sweep_hash VARCHAR(128),
+  gas_funding_hash VARCHAR(128),
+  gas_funding_amount DECIMAL(78, 0),
+  fee_amount DECIMAL(78, 0),
+  failure_reason TEXT,
+  requested_date TIMESTAMP NOT NULL,
+  last_attempt_date TIMESTAMP,
+  completed_date TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_sweeps_status ON invoice_sweeps (status);
+
+COMMENT ON TABLE invoice_sweeps IS 'Transfers of paid invoice wallet balances into the hot wallet';
+COMMENT ON COLUMN invoice_sweeps.status IS 'Pending until the first attempt, Failed while retries remain or after they ran out, Skipped when there was nothing to sweep';
+COMMENT ON COLUMN invoice_sweeps.swept_amount IS 'Amount transferred to the hot wallet, in the invoice currency smallest unit';
+COMMENT ON COLUMN invoice_sweeps.gas_funding_hash IS 'Hot wallet transfer paying the gas of a token sweep';
+COMMENT ON COLUMN invoice_sweeps.gas_funding_amount IS 'Native coin sent to the invoice wallet for gas, in the blockchain native smallest unit';
+COMMENT ON COLUMN invoice_sweeps.fee_amount IS 'Network fee of the sweep transaction, in the blockchain native smallest unit';
@@ -0,0 +1,18 @@
+--- BENEFICIARY ACTIVATION ---
+-- A verified beneficiary only becomes usable for withdrawals after a cooling-off period,
+-- so an attacker who takes over an account cannot add an address and withdraw to it right away.
+-- The user can freeze withdrawals from the new beneficiary notification, and lock the account to its existing
+-- beneficiaries (whitelist-only mode).
+
+ALTER TABLE beneficiaries ADD COLUMN IF NOT EXISTS activation_date TIMESTAMP;
+
+-- Beneficiaries verified before the cooling-off period existed are active since verification
+UPDATE beneficiaries SET activation_date = verified_date WHERE activation_date IS NULL;
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS withdrawal_whitelist_locked_date TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS withdrawals_frozen_date TIMESTAMP;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS withdrawals_frozen_reason TEXT;
+
+COMMENT ON COLUMN beneficiaries.activation_date IS 'Date from which withdrawals to the beneficiary are allowed, verified_date plus the cooling-off period';
+COMMENT ON COLUMN users.withdrawal_whitelist_locked_date IS 'Set while the user only allows withdrawals to existing beneficiaries, no beneficiary can be added';
+COMMENT ON COLUMN users.withdrawals_frozen_date IS 'Set when the user reported a beneficiary they did not add, withdrawals stay blocked until an admin unfreezes them';
@@ -0,0 +1,363 @@
+--- WITHDRAWAL APPROVAL ---
+-- Withdrawals above a per-currency threshold, or to a recently activated beneficiary, wait in PendingApproval
+-- until enough distinct admins approve them, and only then move to Requested for blockchain processing.
+-- The amount is held from the account balance while pending and credited back when an admin rejects it.
+
+ALTER TABLE currencies ADD COLUMN IF NOT EXISTS withdrawal_approval_threshold DECIMAL(78, 0);
+ALTER TABLE currencies ADD COLUMN IF NOT EXISTS withdrawal_dual_approval_threshold DECIMAL(78, 0);
+
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS required_approvals SMALLINT NOT NULL DEFAULT 0;
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS approved_date TIMESTAMP;
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS rejected_date TIMESTAMP;
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS rejection_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS withdrawal_approvals (
+  withdrawal_id BIGINT NOT NULL REFERENCES withdrawals (id),
+  admin_user_id BIGINT NOT NULL REFERENCES users (id),
+  decision VARCHAR(16) NOT NULL CHECK (decision IN ('Approved', 'Rejected')),
+  reason TEXT,
+  decision_date TIMESTAMP NOT NULL,
+  PRIMARY KEY (withdrawal_id, admin_user_id)
+);
+
+COMMENT ON COLUMN currencies.withdrawal_approval_threshold IS 'Withdrawals above this amount need one admin approval, NULL disables approval by amount';
+COMMENT ON COLUMN currencies.withdrawal_dual_approval_threshold IS 'Withdrawals above this amount need two distinct admin approvals';
+COMMENT ON COLUMN withdrawals.required_approvals IS 'Distinct admin approvals needed before the withdrawal is processed, 0 when no approval is needed';
+COMMENT ON TABLE withdrawal_approvals IS 'Admin decisions on withdrawals pending approval, one decision per admin';
+
+-- The unnamed CHECK from 0012-withdrawal.sql is replaced by a named one that knows the approval statuses
+ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_check;
+ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_status_check;
+ALTER TABLE withdrawals ADD CONSTRAINT withdrawals_status_check CHECK (
+  -- Status validation
+  status IN ('PendingApproval', 'Rejected', 'Requested', 'Sent', 'Confirmed', 'Failed', 'RefundRequested', 'RefundApproved', 'RefundRejected') AND
+  -- Status-based consistency checks: sent_date required for Sent/Confirmed statuses
+  (status IN ('PendingApproval', 'Rejected', 'Requested', 'Failed', 'RefundRequested', 'RefundApproved', 'RefundRejected') OR sent_date IS NOT NULL) AND
+  -- Hash consistency: if sent_date exists, sent_hash must exist
+  (sent_date IS NULL OR sent_hash IS NOT NULL) AND
+  -- Confirmed date only for Confirmed status
+  (status = 'Confirmed' OR confirmed_date IS NULL) AND
+  -- Failed date only for Failed/Refund statuses
+  (status IN ('Failed', 'RefundRequested', 'RefundApproved', 'RefundRejected') OR failed_date IS NULL) AND
+  -- Refund dates only for refund statuses
+  (status IN ('RefundApproved', 'RefundRejected') OR (failure_refund_approved_date IS NULL AND failure_refund_rejected_date IS NULL)) AND
+  -- Refund requested date only for refund-related statuses
+  (status IN ('RefundRequested', 'RefundApproved', 'RefundRejected') OR failure_refund_requested_date IS NULL) AND
+  -- Approval consistency: approved withdrawals left PendingApproval with an approval date, rejected ones never get one
+  (status IN ('PendingApproval', 'Rejected') OR required_approvals = 0 OR approved_date IS NOT NULL) AND
+  (status != 'Rejected' OR (rejected_date IS NOT NULL AND approved_date IS NULL)) AND
+  (status = 'Rejected' OR rejected_date IS NULL) AND
+  -- Amount consistency
+  (sent_amount IS NULL OR sent_amount > 0) AND
+  (sent_amount IS NULL OR sent_amount <= request_amount * 1.1) -- Allow for small fee adjustments
+);
+
+--- TRIGGER ---
+
+CREATE OR REPLACE FUNCTION validate_withdrawal_data()
+RETURNS TRIGGER AS $$
+DECLARE
+  beneficiary_record RECORD;
+  old_status TEXT;
+BEGIN
+  IF NEW.amount <= 0 THEN
+    RAISE EXCEPTION 'Withdrawal amount must be positive';
+  END IF;
+  IF NEW.request_amount <= 0 THEN
+    RAISE EXCEPTION 'Withdrawal request amount must be positive';
+  END IF;
+
+  SELECT * INTO beneficiary_record
+  FROM beneficiaries
+  WHERE id = NEW.beneficiary_id;
+
+  IF beneficiary_record.id IS NULL THEN
+    RAISE EXCEPTION 'Beneficiary with id % does not exist', NEW.beneficiary_id;
+  END IF;
+
+  -- Validate that currency exists
+  IF NOT EXISTS (
+    SELECT 1 FROM currencies
+    WHERE blockchain_key = NEW.currency_blockchain_key
+    AND token_id = NEW.currency_token_id
+  ) THEN
+    RAISE EXCEPTION 'Currency does not exist: % %', NEW.currency_blockchain_key, NEW.currency_token_id;
+  END IF;
+
+  -- Validate that beneficiary's blockchain matches withdrawal currency's blockchain
+  IF beneficiary_record.blockchain_key != NEW.currency_blockchain_key THEN
+    RAISE EXCEPTION 'Withdrawal currency blockchain % does not match beneficiary blockchain %',
+      NEW.currency_blockchain_key, beneficiary_record.blockchain_key;
+  END IF;
+
+  -- Status transition validation
+  IF TG_OP = 'UPDATE' THEN
+    old_status := OLD.status;
+
+    -- Validate status transitions
+    IF old_status = 'PendingApproval' AND NEW.status NOT IN ('PendingApproval', 'Requested', 'Rejected') THEN
+      RAISE EXCEPTION 'Invalid status transition from % to %', old_status, NEW.status;
+    END IF;
+
+    IF old_status = 'Rejected' AND NEW.status != 'Rejected' THEN
+      RAISE EXCEPTION 'Cannot change status from Rejected to %', NEW.status;
+    END IF;
+
+    IF old_status = 'Requested' AND NEW.status NOT IN ('Requested', 'Sent', 'Failed') THEN
+      RAISE EXCEPTION 'Invalid status transition from % to %', old_status, NEW.status;
+    END IF;
+
+    IF old_status = 'Sent' AND NEW.status NOT IN ('Sent', 'Confirmed', 'Failed') THEN
+      RAISE EXCEPTION 'Invalid status transition from % to %', old_status, NEW.status;
+    END IF;
+
+    IF old_status = 'Confirmed' AND NEW.status != 'Confirmed' THEN
+      RAISE EXCEPTION 'Cannot change status from Confirmed to %', NEW.status;
+    END IF;
+
+    IF old_status = 'Failed' AND NEW.status NOT IN ('Failed', 'RefundRequested', 'RefundApproved', 'RefundRejected') THEN
+      RAISE EXCEPTION 'Invalid status transition from % to %', old_status, NEW.status;
+    END IF;
+
+    IF old_status = 'RefundRequested' AND NEW.status NOT IN ('RefundRequested', 'RefundApproved', 'RefundRejected') THEN
+      RAISE EXCEPTION 'Invalid status transition from % to %', old_status, NEW.status;
+    END IF;
+
+    IF old_status IN ('RefundApproved', 'RefundRejected') AND NEW.status != old_status THEN
+      RAISE EXCEPTION 'Cannot change status from % to %', old_status, NEW.status;
+    END IF;
+  END IF;
+
+  -- Status-specific field requirements
+  IF NEW.status IN ('Sent', 'Confirmed') AND NEW.sent_amount IS NULL THEN
+    RAISE EXCEPTION 'Sent amount must be specified when status is %', NEW.status;
+  END IF;
+
+  IF NEW.sent_amount IS NOT NULL AND NEW.sent_amount <= 0 THEN
+    RAISE EXCEPTION 'Sent amount must be positive';
+  END IF;
+
+  IF NEW.status = 'Rejected' AND NEW.rejection_reason IS NULL THEN
+    RAISE EXCEPTION 'Rejection reason must be provided when withdrawal is rejected';
+  END IF;
+
+  IF NEW.status IN ('RefundRequested', 'RefundApproved', 'RefundRejected') AND NEW.failed_date IS NULL THEN
+    RAISE EXCEPTION 'Failed date must be set for refund status %', NEW.status;
+  END IF;
+
+  IF NEW.status IN ('RefundRequested', 'RefundApproved', 'RefundRejected') AND NEW.failure_refund_requested_date IS NULL THEN
+    RAISE EXCEPTION 'Refund requested date must be set for refund status %', NEW.status;
+  END IF;
+
+  IF NEW.status = 'RefundRejected' AND NEW.failure_refund_rejection_reason IS NULL THEN
+    RAISE EXCEPTION 'Rejection reason must be provided when refund is rejected';
+  END IF;
+
+  -- Time consistency validations (for backward compatibility)
+  IF NEW.sent_date IS NOT NULL AND NEW.request_date > NEW.sent_date THEN
+    RAISE EXCEPTION 'Request date cannot be after sent date';
+  END IF;
+  IF NEW.confirmed_date IS NOT NULL AND NEW.sent_date IS NOT NULL AND NEW.sent_date > NEW.confirmed_date THEN
+    RAISE EXCEPTION 'Sent date cannot be after confirmed date';
+  END IF;
+  IF NEW.failed_date IS NOT NULL AND NEW.request_date > NEW.failed_date THEN
+    RAISE EXCEPTION 'Request date cannot be after failed date';
+  END IF;
+  IF NEW.approved_date IS NOT NULL AND NEW.request_date > NEW.approved_date THEN
+    RAISE EXCEPTION 'Request date cannot be after approved date';
+  END IF;
+  IF NEW.rejected_date IS NOT NULL AND NEW.request_date > NEW.rejected_date THEN
+    RAISE EXCEPTION 'Request date cannot be after rejected date';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Withdrawals pending approval hold the amount from the balance like requested ones
+CREATE OR REPLACE FUNCTION create_account_mutation_on_withdrawal_request()
+RETURNS TRIGGER AS $$
+DECLARE
+  beneficiary_record RECORD;
+  account_record RECORD;
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status IN ('PendingApproval', 'Requested') AND NEW.request_date IS NOT NULL THEN
+
+    SELECT * INTO beneficiary_record
+    FROM beneficiaries
+    WHERE id = NEW.beneficiary_id;
+
+    -- Get account by user and currency from the withdrawal record
+    SELECT * INTO account_record
+    FROM accounts
+    WHERE user_id = beneficiary_record.user_id
+      AND currency_blockchain_key = NEW.currency_blockchain_key
+      AND currency_token_id = NEW.currency_token_id;
+
+    -- Create account if it doesn't exist
+    IF account_record.id IS NULL THEN
+      INSERT INTO accounts (
+        user_id,
+        currency_blockchain_key,
+        currency_token_id,
+        balance
+      ) VALUES (
+        beneficiary_record.user_id,
+        NEW.currency_blockchain_key,
+        NEW.currency_token_id,
+        0
+      ) RETURNING * INTO account_record;
+    END IF;
+
+    INSERT INTO account_mutations (
+      account_id,
+      mutation_type,
+      mutation_date,
+      amount,
+      withdrawal_id
+    ) VALUES (
+      account_record.id,
+      'WithdrawalRequested',
+      NEW.request_date,
+      -NEW.amount, -- Negative amount to debit the account
+      NEW.id
+    );
+
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION create_account_mutation_on_withdrawal_rejection()
+RETURNS TRIGGER AS $$
+DECLARE
+  beneficiary_record RECORD;
+  account_record RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'PendingApproval' AND NEW.status = 'Rejected' THEN
+    SELECT * INTO beneficiary_record
+    FROM beneficiaries
+    WHERE id = NEW.beneficiary_id;
+
+    SELECT * INTO account_record
+    FROM accounts
+    WHERE user_id = beneficiary_record.user_id
+      AND currency_blockchain_key = NEW.currency_blockchain_key
+      AND currency_token_id = NEW.currency_token_id;
+
+    -- Credit the held amount back
+    INSERT INTO account_mutations (
+      account_id,
+      mutation_type,
+      mutation_date,
+      amount,
+      withdrawal_id
+    ) VALUES (
+      account_record.id,
+      'WithdrawalRefunded',
+      NEW.rejected_date,
+      NEW.amount,
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER create_account_mutation_on_withdrawal_rejection_trigger
+AFTER UPDATE ON withdrawals
+FOR EACH ROW
+EXECUTE FUNCTION create_account_mutation_on_withdrawal_rejection();
+
+CREATE OR REPLACE FUNCTION enhanced_withdrawal_state_validation()
+RETURNS TRIGGER AS $$
+DECLARE
+  beneficiary_record RECORD;
+  total_pending_amount DECIMAL(78, 0);
+  account_balance DECIMAL(78, 0);
+BEGIN
+  -- Get beneficiary information
+  SELECT * INTO beneficiary_record
+  FROM beneficiaries
+  WHERE id = NEW.beneficiary_id;
+
+  -- Additional validation for new withdrawals
+  IF TG_OP = 'INSERT' AND NEW.status IN ('PendingApproval', 'Requested') THEN
+
+    -- Check daily withdrawal limits using status instead of dates
+    SELECT COALESCE(SUM(w.amount), 0) INTO total_pending_amount
+    FROM withdrawals w
+    JOIN beneficiaries b ON w.beneficiary_id = b.id
+    WHERE b.user_id = beneficiary_record.user_id
+    AND w.request_date >= CURRENT_DATE
+    AND w.status NOT IN ('Confirmed', 'RefundApproved', 'Rejected');
+
+    -- Get current account balance using currency from withdrawal
+    SELECT COALESCE(balance, 0) INTO account_balance
+    FROM accounts
+    WHERE user_id = beneficiary_record.user_id
+    AND currency_blockchain_key = NEW.currency_blockchain_key
+    AND currency_token_id = NEW.currency_token_id;
+
+    -- Ensure sufficient balance including this withdrawal
+    IF account_balance < NEW.amount THEN
+      RAISE EXCEPTION 'Insufficient account balance for withdrawal. Available: %, Requested: %',
+        account_balance, NEW.amount;
+    END IF;
+
+  END IF;
+
+  -- Enhanced state transition validation
+  IF TG_OP = 'UPDATE' THEN
+
+    -- Cannot modify sent details once confirmed
+    IF OLD.status = 'Confirmed' AND (
+      NEW.sent_amount != OLD.sent_amount OR
+      NEW.sent_hash != OLD.sent_hash OR
+      NEW.sent_date != OLD.sent_date
+    ) THEN
+      RAISE EXCEPTION 'Cannot modify withdrawal details after confirmation';
+    END IF;
+
+    -- Cannot change failure reason after refund is processed
+    IF OLD.status IN ('RefundApproved', 'RefundRejected') AND
+       NEW.failure_reason != OLD.failure_reason THEN
+      RAISE EXCEPTION 'Cannot change failure reason after refund is processed';
+    END IF;
+
+    -- Validate refund reviewer is admin
+    IF NEW.failure_refund_reviewer_user_id IS NOT NULL AND
+       NEW.failure_refund_reviewer_user_id != OLD.failure_refund_reviewer_user_id THEN
+      IF NOT EXISTS (
+        SELECT 1 FROM users
+        WHERE id = NEW.failure_refund_reviewer_user_id AND role = 'Admin'
+      ) THEN
+        RAISE EXCEPTION 'Refund reviewer must be an admin user';
+      END IF;
+    END IF;
+
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION validate_withdrawal_approval_data()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = NEW.admin_user_id AND role = 'Admin'
+  ) THEN
+    RAISE EXCEPTION 'Withdrawal approver must be an admin user';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE TRIGGER validate_withdrawal_approval_data_trigger
+BEFORE INSERT OR UPDATE ON withdrawal_approvals
+FOR EACH ROW
+EXECUTE FUNCTION validate_withdrawal_approval_data();
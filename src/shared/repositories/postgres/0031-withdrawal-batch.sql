@@ -0,0 +1,46 @@
+--- WITHDRAWAL BATCH ---
+-- On blockchains with batching enabled, requested withdrawals join the open batch of their currency and are
+-- paid together in one transaction when the batch window ends: a multi-output transaction on Bitcoin and a
+-- disperse contract call on EVM chains. Every withdrawal of a batch shares the batch transaction hash, pays
+-- an equal share of the network fee, and is confirmed or failed together with the batch.
+
+CREATE TABLE IF NOT EXISTS withdrawal_batches (
+  id BIGSERIAL PRIMARY KEY,
+  currency_blockchain_key VARCHAR(64) NOT NULL,
+  currency_token_id VARCHAR(64) NOT NULL,
+  status VARCHAR(16) NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'Closed', 'Sent', 'Confirmed', 'Failed')),
+  sent_hash VARCHAR(128) UNIQUE,
+  network_fee DECIMAL(78, 18),
+  failure_reason TEXT,
+  opened_date TIMESTAMP NOT NULL,
+  closed_date TIMESTAMP,
+  sent_date TIMESTAMP,
+  confirmed_date TIMESTAMP,
+  failed_date TIMESTAMP,
+  FOREIGN KEY (currency_blockchain_key, currency_token_id) REFERENCES currencies (blockchain_key, token_id),
+  CHECK (status IN ('Open', 'Closed', 'Failed') OR (sent_hash IS NOT NULL AND sent_date IS NOT NULL)),
+  CHECK (status != 'Confirmed' OR confirmed_date IS NOT NULL),
+  CHECK (status != 'Failed' OR failed_date IS NOT NULL)
+);
+
+-- Only one batch per currency collects new withdrawals at a time
+CREATE UNIQUE INDEX IF NOT EXISTS uq_withdrawal_batches_open_currency
+  ON withdrawal_batches (currency_blockchain_key, currency_token_id)
+  WHERE status = 'Open';
+
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS batch_id BIGINT REFERENCES withdrawal_batches (id);
+ALTER TABLE withdrawals ADD COLUMN IF NOT EXISTS network_fee_share DECIMAL(78, 18);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawals_batch_id ON withdrawals (batch_id) WHERE batch_id IS NOT NULL;
+
+-- Batched withdrawals share the hash of their batch transaction, so the hash is only unique outside batches
+ALTER TABLE withdrawals DROP CONSTRAINT IF EXISTS withdrawals_sent_hash_key;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_withdrawals_sent_hash
+  ON withdrawals (sent_hash)
+  WHERE batch_id IS NULL;
+
+COMMENT ON TABLE withdrawal_batches IS 'Withdrawals of one currency paid together in a single blockchain transaction';
+COMMENT ON COLUMN withdrawal_batches.status IS 'Open while collecting withdrawals, Closed while the transaction is being sent, then Sent, Confirmed or Failed';
+COMMENT ON COLUMN withdrawal_batches.network_fee IS 'Network fee paid by the batch transaction, in the blockchain native unit';
+COMMENT ON COLUMN withdrawals.batch_id IS 'Batch paying this withdrawal, NULL when it is sent on its own';
+COMMENT ON COLUMN withdrawals.network_fee_share IS 'Part of the batch network fee deducted from this withdrawal';
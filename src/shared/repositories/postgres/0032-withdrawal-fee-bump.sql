@@ -0,0 +1,23 @@
+--- WITHDRAWAL FEE BUMP ---
+-- A withdrawal transaction that stays unconfirmed is replaced with the same payments at a higher fee:
+-- same nonce and higher gas price on EVM chains, replace-by-fee on Bitcoin. Every replacement is recorded
+-- against the withdrawals it pays, and sent_hash moves to whichever transaction eventually confirms.
+
+CREATE TABLE IF NOT EXISTS withdrawal_fee_bumps (
+  id BIGSERIAL PRIMARY KEY,
+  withdrawal_id BIGINT NOT NULL REFERENCES withdrawals (id),
+  replaced_hash VARCHAR(128) NOT NULL,
+  replacement_hash VARCHAR(128) NOT NULL,
+  network_fee DECIMAL(78, 18) NOT NULL,
+  bumped_date TIMESTAMP NOT NULL,
+  UNIQUE (withdrawal_id, replacement_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_withdrawal_fee_bumps_withdrawal ON withdrawal_fee_bumps (withdrawal_id, bumped_date);
+
+-- EVM transaction hashes are 66 characters with their 0x prefix
+ALTER TABLE withdrawals ALTER COLUMN sent_hash TYPE VARCHAR(128);
+
+COMMENT ON TABLE withdrawal_fee_bumps IS 'Higher fee replacements of stuck withdrawal transactions';
+COMMENT ON COLUMN withdrawal_fee_bumps.replaced_hash IS 'Transaction that was pending when the replacement was broadcast';
+COMMENT ON COLUMN withdrawal_fee_bumps.network_fee IS 'Network fee of the replacement transaction, in the blockchain native unit';
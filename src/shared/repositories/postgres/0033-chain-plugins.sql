@@ -0,0 +1,26 @@
+--- CHAIN PLUG-INS ---
+-- Networks added as chain plug-ins (src/shared/wallets/blockchains). Their native coins are listed
+-- for deposits and withdrawals only, collateral and loan parameters are left to the admins.
+
+INSERT INTO blockchains (key, name, short_name, image) VALUES
+  ('eip155:137', 'Polygon Mainnet', 'POL', 'https://cryptologos.cc/logos/polygon-matic-logo.png'),
+  ('eip155:42161', 'Arbitrum One', 'ARB', 'https://cryptologos.cc/logos/arbitrum-arb-logo.png'),
+  ('tron:0x2b6653dc', 'Tron', 'TRX', 'https://cryptologos.cc/logos/tron-trx-logo.png')
+ON CONFLICT (key) DO UPDATE SET
+  name = EXCLUDED.name,
+  short_name = EXCLUDED.short_name,
+  image = EXCLUDED.image;
+
+INSERT INTO currencies (
+  blockchain_key, token_id, name, symbol, decimals, image,
+  min_loan_principal_amount, max_loan_principal_amount,
+  max_ltv, ltv_warning_threshold, ltv_critical_threshold, ltv_liquidation_threshold,
+  min_withdrawal_amount
+) VALUES
+  ('eip155:137', 'slip44:966', 'Polygon', 'POL', 18, 'https://cryptologos.cc/logos/polygon-matic-logo.png',
+   '0', '0', 0, 0, 0, 0, '0'),
+  ('eip155:42161', 'slip44:60', 'Ethereum (Arbitrum)', 'ETH', 18, 'https://cryptologos.cc/logos/ethereum-eth-logo.png',
+   '0', '0', 0, 0, 0, 0, '0'),
+  ('tron:0x2b6653dc', 'slip44:195', 'Tron', 'TRX', 6, 'https://cryptologos.cc/logos/tron-trx-logo.png',
+   '0', '0', 0, 0, 0, 0, '0')
+ON CONFLICT (blockchain_key, token_id) DO NOTHING;
@@ -0,0 +1,29 @@
+--- TRON ---
+-- Tether USD on Tron (TRC-20) as a loan currency, and TRX priced like the other native coins.
+-- TRX on Tron itself is seeded with the Tron chain plug-in (0033-chain-plugins.sql).
+
+INSERT INTO currencies (
+  blockchain_key, token_id, name, symbol, decimals, image,
+  min_loan_principal_amount, max_loan_principal_amount,
+  max_ltv, ltv_warning_threshold, ltv_critical_threshold, ltv_liquidation_threshold,
+  min_withdrawal_amount
+) VALUES
+  -- USDT on Tron (TRC-20) - loan currency
+  ('tron:0x2b6653dc', 'trc20:TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t', 'Tether USD', 'USDT', 6, 'https://cryptologos.cc/logos/tether-usdt-logo.png',
+   '100000000', '100000000000', 0, 0, 0, 0, '10000000'), -- Min 100 USDT for loans, Min 10 USDT for withdrawals
+  -- Generic Tron, this currency refers to tron generic TRX.
+  ('crosschain', 'slip44:195', 'Tron', 'TRX', 6, 'https://cryptologos.cc/logos/tron-trx-logo.png',
+   '0', '0', 0, 0, 0, 0, '0')
+ON CONFLICT (blockchain_key, token_id) DO UPDATE SET
+  min_loan_principal_amount = EXCLUDED.min_loan_principal_amount,
+  max_loan_principal_amount = EXCLUDED.max_loan_principal_amount,
+  min_withdrawal_amount = EXCLUDED.min_withdrawal_amount;
+
+-- Cross-chain Tron (TRX) price feeds against USD Token
+INSERT INTO price_feeds (blockchain_key, base_currency_token_id, quote_currency_token_id, source) VALUES
+  ('crosschain', 'slip44:195', 'iso4217:usd', 'admin'),
+  ('crosschain', 'slip44:195', 'iso4217:usd', 'binance'),
+  ('crosschain', 'slip44:195', 'iso4217:usd', 'coingecko'),
+  ('crosschain', 'slip44:195', 'iso4217:usd', 'coinmarketcap'),
+  ('crosschain', 'slip44:195', 'iso4217:usd', 'random')
+ON CONFLICT (blockchain_key, base_currency_token_id, quote_currency_token_id, source) DO NOTHING;
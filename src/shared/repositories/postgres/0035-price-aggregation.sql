@@ -0,0 +1,25 @@
+--- PRICE AGGREGATION ---
+-- Loans are valued off a composite rate instead of whichever provider rate arrives last. The composite
+-- is the median (or volume weighted average) of the fresh binance, coingecko and coinmarketcap rates of
+-- a pair that agree within a tolerance, and is stored as an exchange rate of the 'composite' source.
+
+-- 24 hour trading volume in the quote currency, with the 12 decimal precision of the prices
+ALTER TABLE exchange_rates ADD COLUMN IF NOT EXISTS volume DECIMAL(78, 0);
+
+CREATE TABLE IF NOT EXISTS exchange_rate_components (
+  composite_exchange_rate_id BIGINT NOT NULL REFERENCES exchange_rates (id),
+  component_exchange_rate_id BIGINT NOT NULL REFERENCES exchange_rates (id),
+  PRIMARY KEY (composite_exchange_rate_id, component_exchange_rate_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_price_feed_source_date ON exchange_rates (price_feed_id, source_date);
+
+-- Every pair priced by an aggregated provider gets a composite feed
+INSERT INTO price_feeds (blockchain_key, base_currency_token_id, quote_currency_token_id, source)
+SELECT DISTINCT blockchain_key, base_currency_token_id, quote_currency_token_id, 'composite'
+FROM price_feeds
+WHERE source IN ('binance', 'coingecko', 'coinmarketcap')
+ON CONFLICT (blockchain_key, base_currency_token_id, quote_currency_token_id, source) DO NOTHING;
+
+COMMENT ON COLUMN exchange_rates.volume IS '24 hour volume reported by the source in the quote currency, NULL when the source does not report it';
+COMMENT ON TABLE exchange_rate_components IS 'Provider exchange rates a composite exchange rate was aggregated from';
@@ -0,0 +1,44 @@
+--- MARKET CIRCUIT BREAKER ---
+-- A pair whose price moves more than the configured rate within the rolling window is halted. While a
+-- pair is halted, loan valuations are still recorded but LTV breach events are deferred and platform
+-- initiated liquidations of its collateral are blocked. The halt ends once the price has stayed within
+-- the threshold for the stabilisation period, or when an admin resumes it.
+
+CREATE TABLE IF NOT EXISTS market_circuit_breakers (
+  id BIGSERIAL PRIMARY KEY,
+  blockchain_key VARCHAR(64) NOT NULL REFERENCES blockchains (key),
+  base_currency_token_id VARCHAR(64) NOT NULL,
+  quote_currency_token_id VARCHAR(64) NOT NULL,
+  status VARCHAR(16) NOT NULL CHECK (status IN ('Halted', 'Resumed')),
+  price_change_rate DECIMAL(12, 6) NOT NULL,
+  trigger_exchange_rate_id BIGINT NOT NULL REFERENCES exchange_rates (id),
+  halted_date TIMESTAMP NOT NULL,
+  last_breach_date TIMESTAMP NOT NULL,
+  resumed_date TIMESTAMP,
+  resumed_by_user_id BIGINT REFERENCES users (id),
+  FOREIGN KEY (blockchain_key, base_currency_token_id) REFERENCES currencies (blockchain_key, token_id),
+  FOREIGN KEY (blockchain_key, quote_currency_token_id) REFERENCES currencies (blockchain_key, token_id)
+);
+
+-- At most one halt per pair at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_market_circuit_breakers_halted_pair
+  ON market_circuit_breakers (blockchain_key, base_currency_token_id, quote_currency_token_id)
+  WHERE status = 'Halted';
+
+CREATE TABLE IF NOT EXISTS deferred_ltv_breaches (
+  id BIGSERIAL PRIMARY KEY,
+  market_circuit_breaker_id BIGINT NOT NULL REFERENCES market_circuit_breakers (id),
+  loan_id BIGINT NOT NULL REFERENCES loans (id),
+  threshold_level VARCHAR(16) NOT NULL CHECK (threshold_level IN ('warning1', 'warning2', 'warning3', 'riskPremium', 'liquidation')),
+  exchange_rate_id BIGINT NOT NULL REFERENCES exchange_rates (id),
+  ltv_ratio DECIMAL(8, 4) NOT NULL,
+  deferred_date TIMESTAMP NOT NULL,
+  released_date TIMESTAMP,
+  UNIQUE (market_circuit_breaker_id, loan_id, threshold_level)
+);
+
+COMMENT ON TABLE market_circuit_breakers IS 'Halts of LTV breach handling for a pair after an abnormal price move';
+COMMENT ON COLUMN market_circuit_breakers.price_change_rate IS 'Rolling price change that tripped the breaker, 0-1 decimal';
+COMMENT ON COLUMN market_circuit_breakers.last_breach_date IS 'Last time the rolling change exceeded the threshold, the stabilisation period counts from here';
+COMMENT ON COLUMN market_circuit_breakers.resumed_by_user_id IS 'Admin who resumed the pair, NULL when it resumed after stabilising';
+COMMENT ON TABLE deferred_ltv_breaches IS 'LTV threshold breaches held back while the pair was halted, re-checked when it resumes';
@@ -0,0 +1,24 @@
+--- VALUATION PRICE MODE ---
+-- Collateral is valued at the spot mid price by default. A currency can instead be valued at the bid
+-- price, which is conservative for collateral, or at the time-weighted average mid price of its
+-- exchange rates over a window, which keeps a single spike from triggering a liquidation.
+
+ALTER TABLE currencies ADD COLUMN IF NOT EXISTS valuation_price_mode VARCHAR(16) NOT NULL DEFAULT 'Mid'
+  CHECK (valuation_price_mode IN ('Mid', 'Bid', 'Twap'));
+ALTER TABLE currencies ADD COLUMN IF NOT EXISTS valuation_twap_window_seconds INTEGER NOT NULL DEFAULT 1800
+  CHECK (valuation_twap_window_seconds > 0);
+
+COMMENT ON COLUMN currencies.valuation_price_mode IS 'Price used to value this currency as loan collateral: Mid, Bid or Twap';
+COMMENT ON COLUMN currencies.valuation_twap_window_seconds IS 'Window of exchange rates averaged when valuation_price_mode is Twap';
+
+-- Price basis of each valuation, NULL for valuations recorded before price modes
+ALTER TABLE loan_valuations ADD COLUMN IF NOT EXISTS price_mode VARCHAR(16)
+  CHECK (price_mode IN ('Mid', 'Bid', 'Twap'));
+ALTER TABLE loan_valuations ADD COLUMN IF NOT EXISTS valuation_price DECIMAL(78, 0);
+ALTER TABLE loan_valuations ADD COLUMN IF NOT EXISTS price_window_start_date TIMESTAMP;
+ALTER TABLE loan_valuations ADD COLUMN IF NOT EXISTS price_sample_count INTEGER;
+
+COMMENT ON COLUMN loan_valuations.price_mode IS 'Valuation price mode of the collateral currency at valuation time';
+COMMENT ON COLUMN loan_valuations.valuation_price IS 'Collateral price in principal currency used for this valuation, with the exchange rate precision';
+COMMENT ON COLUMN loan_valuations.price_window_start_date IS 'Start of the averaged window for Twap, valuation ends at the source date of exchange_rate_id';
+COMMENT ON COLUMN loan_valuations.price_sample_count IS 'Number of exchange rates the valuation price was computed from';
@@ -0,0 +1,39 @@
+--- LOAN LTV WARNING STATE ---
+-- Each active loan carries the warning level it is in. A level is entered as soon as the LTV reaches its
+-- threshold but only left once the LTV falls below the threshold by the hysteresis band, so a loan
+-- hovering around a threshold stays in one level. A breach of a warning level already sent within the
+-- de-duplication window is not sent again, and leaving every level after a breach was sent produces a
+-- single LtvRecovered event. Every level change is appended to the transition history of the loan.
+
+CREATE TABLE IF NOT EXISTS loan_ltv_warning_states (
+  loan_id BIGINT PRIMARY KEY REFERENCES loans (id),
+  warning_level VARCHAR(16) CHECK (warning_level IN ('warning1', 'warning2', 'warning3', 'riskPremium', 'liquidation')),
+  ltv_ratio DECIMAL(8, 4) NOT NULL,
+  exchange_rate_id BIGINT NOT NULL REFERENCES exchange_rates (id),
+  level_changed_date TIMESTAMP NOT NULL,
+  last_breach_level VARCHAR(16) CHECK (last_breach_level IN ('warning1', 'warning2', 'warning3', 'riskPremium', 'liquidation')),
+  last_breach_date TIMESTAMP,
+  last_recovered_date TIMESTAMP,
+  updated_date TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS loan_ltv_warning_transitions (
+  id BIGSERIAL PRIMARY KEY,
+  loan_id BIGINT NOT NULL REFERENCES loans (id),
+  from_level VARCHAR(16) CHECK (from_level IN ('warning1', 'warning2', 'warning3', 'riskPremium', 'liquidation')),
+  to_level VARCHAR(16) CHECK (to_level IN ('warning1', 'warning2', 'warning3', 'riskPremium', 'liquidation')),
+  ltv_ratio DECIMAL(8, 4) NOT NULL,
+  exchange_rate_id BIGINT NOT NULL REFERENCES exchange_rates (id),
+  event_type VARCHAR(16) CHECK (event_type IN ('LtvBreached', 'LtvRecovered')),
+  transition_date TIMESTAMP NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_loan_ltv_warning_transitions_loan
+  ON loan_ltv_warning_transitions (loan_id, transition_date DESC);
+
+COMMENT ON TABLE loan_ltv_warning_states IS 'Current LTV warning level of a loan with the hysteresis and de-duplication bookkeeping';
+COMMENT ON COLUMN loan_ltv_warning_states.warning_level IS 'Warning level the loan is in, NULL when below every threshold';
+COMMENT ON COLUMN loan_ltv_warning_states.last_breach_level IS 'Level of the last breach event sent, compared against the de-duplication window';
+COMMENT ON COLUMN loan_ltv_warning_states.last_recovered_date IS 'Last LtvRecovered event, a recovery is only sent once per breach';
+COMMENT ON TABLE loan_ltv_warning_transitions IS 'History of LTV warning level changes of a loan';
+COMMENT ON COLUMN loan_ltv_warning_transitions.event_type IS 'Event emitted for the transition, NULL when the transition was de-duplicated or moved between levels without one';
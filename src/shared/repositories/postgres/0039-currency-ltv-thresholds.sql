@@ -0,0 +1,18 @@
+--- CURRENCY LTV THRESHOLDS ---
+-- Loans are warned and liquidated at the LTV thresholds of their collateral currency. The collateral
+-- currencies were seeded with thresholds at or below max_ltv, the highest LTV a loan may originate at, so a
+-- new loan would start out past liquidation. They move onto the BR-011 ladder above origination instead:
+-- warning at ~87% (collateral = debt + 15%), critical at ~95% (debt + 5%) and liquidation at 100%.
+-- Currencies an admin has already configured above max_ltv are left as they are.
+
+UPDATE currencies
+SET
+  ltv_warning_threshold = 0.8696,
+  ltv_critical_threshold = 0.9524,
+  ltv_liquidation_threshold = 1.0
+WHERE ltv_liquidation_threshold > 0
+  AND ltv_warning_threshold <= max_ltv;
+
+COMMENT ON COLUMN currencies.ltv_warning_threshold IS 'LTV warning threshold as decimal, above max_ltv (e.g., 0.87 = 87%)';
+COMMENT ON COLUMN currencies.ltv_critical_threshold IS 'LTV critical threshold as decimal (e.g., 0.95 = 95%)';
+COMMENT ON COLUMN currencies.ltv_liquidation_threshold IS 'LTV liquidation threshold as decimal (e.g., 1.00 = 100%)';
@@ -0,0 +1,5 @@
+--- INVOICE PAYMENT LOG INDEX ---
+-- On EVM chains a single token transaction can emit several transfers to invoice addresses.
+-- Each matching transfer is recorded as its own payment, so its payment hash carries the log index.
+
+COMMENT ON COLUMN invoice_payments.payment_hash IS 'Transaction hash for native transfers on account chains, txHash:logIndex for EVM token transfers, txid:vout on UTXO chains where one transaction can pay several invoices';
@@ -1,4 +1,4 @@
-import { equal, ok } from 'node:assert/strict';
+import { deepEqual, equal, ok } from 'node:assert/strict';
 import { describe, suite } from 'node:test';
 
 import { createEarlyExitNodeTestIt } from '../utils/node-test';
@@ -220,5 +220,182 @@ export async function runPricefeedRepositoryTestSuite(
         equal(typeof result.id, 'string');
       });
     });
+
+    describe('Price Aggregation', function () {
+      it('should retrieve the latest fresh rate of each source and store a composite rate', async function () {
+        const sources = ['binance', 'coingecko', 'coinmarketcap'];
+        const priceFeedIds: Record<string, string> = {};
+        for (const source of sources) {
+          const { id } = await repo.testViewsPriceFeedId({
+            blockchainKey: 'crosschain',
+            baseCurrencyTokenId: 'slip44:60',
+            quoteCurrencyTokenId: 'iso4217:usd',
+            source,
+          });
+          priceFeedIds[source] = id;
+        }
+
+        await repo.platformFeedsExchangeRate({
+          priceFeedId: priceFeedIds.binance,
+          bidPrice: '2990.00',
+          askPrice: '3000.00',
+          retrievalDate: new Date('2024-01-01T10:00:00Z'),
+          sourceDate: new Date('2024-01-01T10:00:00Z'),
+        });
+        const binance = await repo.platformFeedsExchangeRate({
+          priceFeedId: priceFeedIds.binance,
+          bidPrice: '3000.00',
+          askPrice: '3010.00',
+          retrievalDate: new Date('2024-01-01T10:05:00Z'),
+          sourceDate: new Date('2024-01-01T10:05:00Z'),
+          volume: '1500000.5',
+        });
+        const coingecko = await repo.platformFeedsExchangeRate({
+          priceFeedId: priceFeedIds.coingecko,
+          bidPrice: '3004.00',
+          askPrice: '3004.00',
+          retrievalDate: new Date('2024-01-01T10:05:00Z'),
+          sourceDate: new Date('2024-01-01T10:04:00Z'),
+        });
+        // Stale, left out of the aggregation window
+        await repo.platformFeedsExchangeRate({
+          priceFeedId: priceFeedIds.coinmarketcap,
+          bidPrice: '3100.00',
+          askPrice: '3100.00',
+          retrievalDate: new Date('2024-01-01T09:00:00Z'),
+          sourceDate: new Date('2024-01-01T09:00:00Z'),
+        });
+
+        const { exchangeRates } = await repo.platformRetrievesLatestSourceExchangeRates({
+          blockchainKey: 'crosschain',
+          baseCurrencyTokenId: 'slip44:60',
+          quoteCurrencyTokenId: 'iso4217:usd',
+          sources,
+          sourceDateFrom: new Date('2024-01-01T09:55:00Z'),
+        });
+
+        deepEqual(
+          exchangeRates.map(rate => [rate.source, rate.id, rate.volume]),
+          [
+            ['binance', binance.id, '1500000.500000000000'],
+            ['coingecko', coingecko.id, undefined],
+          ],
+        );
+
+        const composite = await repo.platformFeedsCompositeExchangeRate({
+          blockchainKey: 'crosschain',
+          baseCurrencyTokenId: 'slip44:60',
+          quoteCurrencyTokenId: 'iso4217:usd',
+          bidPrice: '3002.00',
+          askPrice: '3007.00',
+          retrievalDate: new Date('2024-01-01T10:06:00Z'),
+          sourceDate: new Date('2024-01-01T10:04:00Z'),
+          componentExchangeRateIds: [binance.id, coingecko.id],
+        });
+
+        equal(composite.bidPrice, '3002.000000000000');
+        equal(composite.askPrice, '3007.000000000000');
+
+        const compositeFeed = await repo.testViewsPriceFeedId({
+          blockchainKey: 'crosschain',
+          baseCurrencyTokenId: 'slip44:60',
+          quoteCurrencyTokenId: 'iso4217:usd',
+          source: 'composite',
+        });
+        equal(composite.priceFeedId, compositeFeed.id);
+
+        const { componentExchangeRateIds } = await repo.testViewsExchangeRateComponents({
+          compositeExchangeRateId: composite.id,
+        });
+        deepEqual(componentExchangeRateIds, [binance.id, coingecko.id].sort());
+      });
+    });
+
+    describe('platformViewsExchangeRateRange', function () {
+      it('should return the lowest and highest mid price within the window', async function () {
+        const { id: priceFeedId } = await repo.testViewsPriceFeedId({
+          blockchainKey: 'crosschain',
+          baseCurrencyTokenId: 'slip44:60',
+          quoteCurrencyTokenId: 'iso4217:usd',
+          source: 'binance',
+        });
+
+        const rates = [
+          ['09:00', '2000.00', '2000.00'], // Outside the window
+          ['10:00', '3000.00', '3010.00'],
+          ['10:05', '2700.00', '2701.00'],
+          ['10:10', '2900.00', '2900.00'],
+        ];
+        for (const [time, bidPrice, askPrice] of rates) {
+          await repo.platformFeedsExchangeRate({
+            priceFeedId,
+            bidPrice,
+            askPrice,
+            retrievalDate: new Date(`2024-01-01T${time}:00Z`),
+            sourceDate: new Date(`2024-01-01T${time}:00Z`),
+          });
+        }
+
+        const range = await repo.platformViewsExchangeRateRange({
+          priceFeedId,
+          sourceDateFrom: new Date('2024-01-01T09:55:00Z'),
+        });
+
+        equal(range.exchangeRateCount, 3);
+        equal(range.lowestMidPrice, '2700.500000000000');
+        equal(range.highestMidPrice, '3005.000000000000');
+
+        const emptyRange = await repo.platformViewsExchangeRateRange({
+          priceFeedId,
+          sourceDateFrom: new Date('2024-01-02T00:00:00Z'),
+        });
+
+        equal(emptyRange.exchangeRateCount, 0);
+        equal(emptyRange.lowestMidPrice, undefined);
+      });
+    });
+
+    describe('platformRetrievesExchangeRateWindow', function () {
+      it('should return the rates of the window oldest first, starting with the rate in effect', async function () {
+        const { id: priceFeedId } = await repo.testViewsPriceFeedId({
+          blockchainKey: 'crosschain',
+          baseCurrencyTokenId: 'slip44:60',
+          quoteCurrencyTokenId: 'iso4217:usd',
+          source: 'binance',
+        });
+
+        const rates = [
+          ['09:00', '2000.00'], // Superseded before the window
+          ['09:50', '3000.00'], // In effect at the window start
+          ['10:10', '3300.00'],
+          ['10:30', '2400.00'],
+          ['10:40', '2500.00'], // After the window
+        ];
+        for (const [time, price] of rates) {
+          await repo.platformFeedsExchangeRate({
+            priceFeedId,
+            bidPrice: price,
+            askPrice: price,
+            retrievalDate: new Date(`2024-01-01T${time}:00Z`),
+            sourceDate: new Date(`2024-01-01T${time}:00Z`),
+          });
+        }
+
+        const { exchangeRates } = await repo.platformRetrievesExchangeRateWindow({
+          priceFeedId,
+          sourceDateFrom: new Date('2024-01-01T10:00:00Z'),
+          sourceDateTo: new Date('2024-01-01T10:30:00Z'),
+        });
+
+        deepEqual(
+          exchangeRates.map(rate => [rate.sourceDate.toISOString(), rate.bidPrice]),
+          [
+            ['2024-01-01T09:50:00.000Z', '3000.000000000000'],
+            ['2024-01-01T10:10:00.000Z', '3300.000000000000'],
+            ['2024-01-01T10:30:00.000Z', '2400.000000000000'],
+          ],
+        );
+      });
+    });
   });
 }
@@ -4,6 +4,7 @@ import {
   assertPropString,
   check,
   isInstanceOf,
+  isNullable,
   isNumber,
   isString,
 } from 'typeshaper';
@@ -11,11 +12,19 @@ import {
 import { fromLowestDenomination, toLowestDenomination } from '../utils/decimal';
 import { FinanceRepository } from './finance.repository';
 import {
+  PlatformFeedsCompositeExchangeRateParams,
+  PlatformFeedsCompositeExchangeRateResult,
   PlatformFeedsExchangeRateParams,
   PlatformFeedsExchangeRateResult,
   PlatformRetrievesActivePriceFeedsResult,
   PlatformRetrievesExchangeRatesParams,
   PlatformRetrievesExchangeRatesResult,
+  PlatformRetrievesExchangeRateWindowParams,
+  PlatformRetrievesExchangeRateWindowResult,
+  PlatformRetrievesLatestSourceExchangeRatesParams,
+  PlatformRetrievesLatestSourceExchangeRatesResult,
+  PlatformViewsExchangeRateRangeParams,
+  PlatformViewsExchangeRateRangeResult,
   UserViewsExchangeRatesParams,
   UserViewsExchangeRatesResult,
 } from './pricefeed.types';
@@ -24,7 +33,12 @@ import {
  * Exchange rates use a fixed 12-decimal precision for consistent price calculations
  * across all trading pairs, regardless of the quote currency's native decimals.
  */
-const EXCHANGE_RATE_DECIMALS = 12;
+export const EXCHANGE_RATE_DECIMALS = 12;
+
+/**
+ * Price feed source of the exchange rates aggregated from the provider sources
+ */
+export const COMPOSITE_PRICE_FEED_SOURCE = 'composite';
 
 /**
  * PricefeedRepository <- FinanceRepository <- UserRepository <- BaseRepository
@@ -133,11 +147,13 @@ export abstract class PricefeedRepository extends FinanceRepository {
   async platformFeedsExchangeRate(
     params: PlatformFeedsExchangeRateParams,
   ): Promise<PlatformFeedsExchangeRateResult> {
-    const { priceFeedId, bidPrice, askPrice, retrievalDate, sourceDate } = params;
+    const { priceFeedId, bidPrice, askPrice, retrievalDate, sourceDate, volume } = params;
 
     // Convert prices to smallest unit with 12-decimal precision
     const bidPriceLowest = toLowestDenomination(bidPrice, EXCHANGE_RATE_DECIMALS);
     const askPriceLowest = toLowestDenomination(askPrice, EXCHANGE_RATE_DECIMALS);
+    const volumeLowest =
+      volume === undefined ? null : toLowestDenomination(volume, EXCHANGE_RATE_DECIMALS);
 
     const tx = await this.beginTransaction();
     try {
@@ -147,14 +163,16 @@ export abstract class PricefeedRepository extends FinanceRepository {
               bid_price,
               ask_price,
               retrieval_date,
-              source_date
+              source_date,
+              volume
             )
             VALUES (
               ${priceFeedId},
               ${bidPriceLowest},
               ${askPriceLowest},
               ${retrievalDate.toISOString()},
-              ${sourceDate.toISOString()}
+              ${sourceDate.toISOString()},
+              ${volumeLowest}
             )
             RETURNING id, price_feed_id, bid_price, ask_price, retrieval_date, source_date
           `;
@@ -185,6 +203,233 @@ export abstract class PricefeedRepository extends FinanceRepository {
     }
   }
 
+  /**
+   * Latest exchange rate of each source for a pair, leaving out sources with no rate since sourceDateFrom
+   */
+  async platformRetrievesLatestSourceExchangeRates(
+    params: PlatformRetrievesLatestSourceExchangeRatesParams,
+  ): Promise<PlatformRetrievesLatestSourceExchangeRatesResult> {
+    const { blockchainKey, baseCurrencyTokenId, quoteCurrencyTokenId, sources, sourceDateFrom } =
+      params;
+
+    const rows = await this.sql`
+      SELECT DISTINCT ON (pf.source)
+        er.id,
+        er.price_feed_id,
+        pf.source,
+        er.bid_price,
+        er.ask_price,
+        er.volume,
+        er.retrieval_date,
+        er.source_date
+      FROM exchange_rates er
+      JOIN price_feeds pf ON er.price_feed_id = pf.id
+      WHERE pf.blockchain_key = ${blockchainKey}
+        AND pf.base_currency_token_id = ${baseCurrencyTokenId}
+        AND pf.quote_currency_token_id = ${quoteCurrencyTokenId}
+        AND pf.source = ANY(${sources})
+        AND er.source_date >= ${sourceDateFrom.toISOString()}
+      ORDER BY pf.source, er.source_date DESC, er.id DESC
+    `;
+
+    return {
+      exchangeRates: rows.map(function (rate: unknown) {
+        assertDefined(rate, 'Exchange rate record is undefined');
+        assertProp(check(isString, isNumber), rate, 'id');
+        assertProp(check(isString, isNumber), rate, 'price_feed_id');
+        assertPropString(rate, 'source');
+        assertProp(check(isString, isNumber), rate, 'bid_price');
+        assertProp(check(isString, isNumber), rate, 'ask_price');
+        assertProp(isInstanceOf(Date), rate, 'retrieval_date');
+        assertProp(isInstanceOf(Date), rate, 'source_date');
+        const volume = 'volume' in rate ? rate.volume : null;
+        return {
+          id: String(rate.id),
+          priceFeedId: String(rate.price_feed_id),
+          source: rate.source,
+          bidPrice: fromLowestDenomination(String(rate.bid_price), EXCHANGE_RATE_DECIMALS),
+          askPrice: fromLowestDenomination(String(rate.ask_price), EXCHANGE_RATE_DECIMALS),
+          volume:
+            volume === null || volume === undefined
+              ? undefined
+              : fromLowestDenomination(String(volume), EXCHANGE_RATE_DECIMALS),
+          retrievalDate: rate.retrieval_date,
+          sourceDate: rate.source_date,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Stores a composite exchange rate of a pair together with the exchange rates it was aggregated from
+   */
+  async platformFeedsCompositeExchangeRate(
+    params: PlatformFeedsCompositeExchangeRateParams,
+  ): Promise<PlatformFeedsCompositeExchangeRateResult> {
+    const {
+      blockchainKey,
+      baseCurrencyTokenId,
+      quoteCurrencyTokenId,
+      bidPrice,
+      askPrice,
+      retrievalDate,
+      sourceDate,
+      componentExchangeRateIds,
+    } = params;
+
+    const bidPriceLowest = toLowestDenomination(bidPrice, EXCHANGE_RATE_DECIMALS);
+    const askPriceLowest = toLowestDenomination(askPrice, EXCHANGE_RATE_DECIMALS);
+
+    const tx = await this.beginTransaction();
+    try {
+      // Pairs added after the aggregation migration get their composite feed on first use
+      await tx.sql`
+        INSERT INTO price_feeds (blockchain_key, base_currency_token_id, quote_currency_token_id, source)
+        VALUES (${blockchainKey}, ${baseCurrencyTokenId}, ${quoteCurrencyTokenId}, ${COMPOSITE_PRICE_FEED_SOURCE})
+        ON CONFLICT (blockchain_key, base_currency_token_id, quote_currency_token_id, source) DO NOTHING
+      `;
+
+      const rows = await tx.sql`
+        INSERT INTO exchange_rates (price_feed_id, bid_price, ask_price, retrieval_date, source_date)
+        SELECT id, ${bidPriceLowest}, ${askPriceLowest}, ${retrievalDate.toISOString()}, ${sourceDate.toISOString()}
+        FROM price_feeds
+        WHERE blockchain_key = ${blockchainKey}
+          AND base_currency_token_id = ${baseCurrencyTokenId}
+          AND quote_currency_token_id = ${quoteCurrencyTokenId}
+          AND source = ${COMPOSITE_PRICE_FEED_SOURCE}
+        RETURNING id, price_feed_id, bid_price, ask_price, retrieval_date, source_date
+      `;
+
+      const exchangeRate = rows[0];
+      assertDefined(exchangeRate, 'Composite exchange rate insert failed');
+      assertProp(check(isString, isNumber), exchangeRate, 'id');
+      assertProp(check(isString, isNumber), exchangeRate, 'price_feed_id');
+      assertProp(check(isString, isNumber), exchangeRate, 'bid_price');
+      assertProp(check(isString, isNumber), exchangeRate, 'ask_price');
+      assertProp(isInstanceOf(Date), exchangeRate, 'retrieval_date');
+      assertProp(isInstanceOf(Date), exchangeRate, 'source_date');
+
+      for (const componentExchangeRateId of componentExchangeRateIds) {
+        await tx.sql`
+          INSERT INTO exchange_rate_components (composite_exchange_rate_id, component_exchange_rate_id)
+          VALUES (${exchangeRate.id}, ${componentExchangeRateId})
+        `;
+      }
+
+      await tx.commitTransaction();
+
+      return {
+        id: String(exchangeRate.id),
+        priceFeedId: String(exchangeRate.price_feed_id),
+        bidPrice: fromLowestDenomination(String(exchangeRate.bid_price), EXCHANGE_RATE_DECIMALS),
+        askPrice: fromLowestDenomination(String(exchangeRate.ask_price), EXCHANGE_RATE_DECIMALS),
+        retrievalDate: exchangeRate.retrieval_date,
+        sourceDate: exchangeRate.source_date,
+        componentExchangeRateIds,
+      };
+    } catch (error) {
+      await tx.rollbackTransaction();
+      throw error;
+    }
+  }
+
+  /**
+   * Lowest and highest mid price of a price feed since sourceDateFrom
+   */
+  async platformViewsExchangeRateRange(
+    params: PlatformViewsExchangeRateRangeParams,
+  ): Promise<PlatformViewsExchangeRateRangeResult> {
+    const { priceFeedId, sourceDateFrom } = params;
+
+    const rows = await this.sql`
+      SELECT
+        COUNT(*) AS exchange_rate_count,
+        TRUNC(MIN((er.bid_price + er.ask_price) / 2)) AS lowest_mid_price,
+        TRUNC(MAX((er.bid_price + er.ask_price) / 2)) AS highest_mid_price
+      FROM exchange_rates er
+      WHERE er.price_feed_id = ${priceFeedId}
+        AND er.source_date >= ${sourceDateFrom.toISOString()}
+    `;
+
+    const row = rows[0];
+    assertDefined(row, 'Exchange rate range row is undefined');
+    assertProp(check(isString, isNumber), row, 'exchange_rate_count');
+    assertProp(check(isNullable, isString, isNumber), row, 'lowest_mid_price');
+    assertProp(check(isNullable, isString, isNumber), row, 'highest_mid_price');
+
+    return {
+      exchangeRateCount: Number(row.exchange_rate_count),
+      lowestMidPrice:
+        row.lowest_mid_price === null
+          ? undefined
+          : fromLowestDenomination(String(row.lowest_mid_price), EXCHANGE_RATE_DECIMALS),
+      highestMidPrice:
+        row.highest_mid_price === null
+          ? undefined
+          : fromLowestDenomination(String(row.highest_mid_price), EXCHANGE_RATE_DECIMALS),
+    };
+  }
+
+  async platformRetrievesExchangeRateWindow(
+    params: PlatformRetrievesExchangeRateWindowParams,
+  ): Promise<PlatformRetrievesExchangeRateWindowResult> {
+    const { priceFeedId, sourceDateFrom, sourceDateTo } = params;
+
+    const rows = await this.sql`
+      SELECT id, bid_price, ask_price, source_date
+      FROM (
+        (
+          SELECT er.id, er.bid_price, er.ask_price, er.source_date
+          FROM exchange_rates er
+          WHERE er.price_feed_id = ${priceFeedId}
+            AND er.source_date <= ${sourceDateFrom.toISOString()}
+          ORDER BY er.source_date DESC, er.id DESC
+          LIMIT 1
+        )
+        UNION
+        SELECT er.id, er.bid_price, er.ask_price, er.source_date
+        FROM exchange_rates er
+        WHERE er.price_feed_id = ${priceFeedId}
+          AND er.source_date > ${sourceDateFrom.toISOString()}
+          AND er.source_date <= ${sourceDateTo.toISOString()}
+      ) window_rates
+      ORDER BY source_date ASC, id ASC
+    `;
+
+    return {
+      exchangeRates: rows.map(function (row: unknown) {
+        assertDefined(row, 'Exchange rate record is undefined');
+        assertProp(check(isString, isNumber), row, 'id');
+        assertProp(check(isString, isNumber), row, 'bid_price');
+        assertProp(check(isString, isNumber), row, 'ask_price');
+        assertProp(isInstanceOf(Date), row, 'source_date');
+        return {
+          id: String(row.id),
+          bidPrice: fromLowestDenomination(String(row.bid_price), EXCHANGE_RATE_DECIMALS),
+          askPrice: fromLowestDenomination(String(row.ask_price), EXCHANGE_RATE_DECIMALS),
+          sourceDate: row.source_date,
+        };
+      }),
+    };
+  }
+
+  async testViewsExchangeRateComponents(params: { compositeExchangeRateId: string }) {
+    const rows = await this.sql`
+      SELECT component_exchange_rate_id
+      FROM exchange_rate_components
+      WHERE composite_exchange_rate_id = ${params.compositeExchangeRateId}
+      ORDER BY component_exchange_rate_id
+    `;
+
+    return {
+      componentExchangeRateIds: rows.map(function (row: unknown) {
+        assertDefined(row, 'Exchange rate component is undefined');
+        assertProp(check(isString, isNumber), row, 'component_exchange_rate_id');
+        return String(row.component_exchange_rate_id);
+      }),
+    };
+  }
+
   async testCreatesPriceFeeds(params: {
     priceFeeds: Array<{
       blockchainKey: string;
@@ -30,6 +30,7 @@ export interface PlatformFeedsExchangeRateParams {
   askPrice: string;
   retrievalDate: Date;
   sourceDate: Date;
+  volume?: string;
 }
 
 export interface PlatformFeedsExchangeRateResult {
@@ -41,6 +42,74 @@ export interface PlatformFeedsExchangeRateResult {
   sourceDate: Date;
 }
 
+// Price Aggregation Types
+export interface PlatformRetrievesLatestSourceExchangeRatesParams {
+  blockchainKey: string;
+  baseCurrencyTokenId: string;
+  quoteCurrencyTokenId: string;
+  sources: string[];
+  sourceDateFrom: Date;
+}
+
+export interface SourceExchangeRate {
+  id: string;
+  priceFeedId: string;
+  source: string;
+  bidPrice: string;
+  askPrice: string;
+  volume?: string;
+  retrievalDate: Date;
+  sourceDate: Date;
+}
+
+export interface PlatformRetrievesLatestSourceExchangeRatesResult {
+  exchangeRates: SourceExchangeRate[];
+}
+
+export interface PlatformFeedsCompositeExchangeRateParams {
+  blockchainKey: string;
+  baseCurrencyTokenId: string;
+  quoteCurrencyTokenId: string;
+  bidPrice: string;
+  askPrice: string;
+  retrievalDate: Date;
+  sourceDate: Date;
+  componentExchangeRateIds: string[];
+}
+
+export interface PlatformViewsExchangeRateRangeParams {
+  priceFeedId: string;
+  sourceDateFrom: Date;
+}
+
+export interface PlatformViewsExchangeRateRangeResult {
+  exchangeRateCount: number;
+  lowestMidPrice?: string;
+  highestMidPrice?: string;
+}
+
+export interface PlatformRetrievesExchangeRateWindowParams {
+  priceFeedId: string;
+  sourceDateFrom: Date;
+  sourceDateTo: Date;
+}
+
+export interface WindowExchangeRate {
+  id: string;
+  bidPrice: string;
+  askPrice: string;
+  sourceDate: Date;
+}
+
+export interface PlatformRetrievesExchangeRateWindowResult {
+  /** Oldest first, starting with the rate that was in effect at sourceDateFrom */
+  exchangeRates: WindowExchangeRate[];
+}
+
+export interface PlatformFeedsCompositeExchangeRateResult extends PlatformFeedsExchangeRateResult {
+  componentExchangeRateIds: string[];
+}
+
 // New interfaces for simplified architecture
 export interface PriceFeed {
   id: string;
@@ -330,10 +330,17 @@ export const notificationTypes = [
   'LoanRepaymentFailed',
   'LoanLiquidation',
   'LoanLtvBreach',
+  'LoanLtvRecovered',
+  'LoanExtensionRequested',
+  'LoanExtensionAccepted',
+  'LoanExtensionDeclined',
+  'LoanPositionSold',
   // Beneficiary notifications
   'BeneficiaryVerification',
+  'BeneficiaryAdded',
   // Withdrawal notifications
   'WithdrawalRequested',
+  'WithdrawalRejected',
   'WithdrawalRefunded',
   'WithdrawalRefundApproved',
   'WithdrawalRefundRejected',
@@ -347,8 +354,11 @@ export const notificationTypes = [
   'AdminInvitationRejected',
   'AdminInvitationExpired',
   'AdminWithdrawalFailure',
+  'AdminWithdrawalApprovalRequired',
   'AdminRefundProcessed',
   'AdminMonitoringFailure',
+  'AdminMarketHalted',
+  'AdminMarketResumed',
   // Enhanced loan notifications
   'LiquidationWarning',
   'LiquidationCompleted',
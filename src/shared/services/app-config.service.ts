@@ -11,6 +11,7 @@ import parse from 'parse-duration';
 import invariant from 'tiny-invariant';
 
 import {
+  ARBITRUM_ONE_KEY,
   BITCOIN_MAINNET_KEY,
   BITCOIN_TESTNET_KEY,
   BSC_MAINNET_KEY,
@@ -18,8 +19,10 @@ import {
   ETHEREUM_HOODI_KEY,
   ETHEREUM_LOCALNET_KEY,
   ETHEREUM_MAINNET_KEY,
+  POLYGON_MAINNET_KEY,
   SOLANA_DEVNET_KEY,
   SOLANA_MAINNET_KEY,
+  TRON_MAINNET_KEY,
 } from '../constants/blockchain';
 
 @Injectable()
@@ -78,30 +81,37 @@ export class AppConfigService {
     return {
       [BITCOIN_MAINNET_KEY]: {
         rpcUrls: this.getArray('BITCOIN_MAINNET_RPC_URLS', ['http://localhost:8332']),
+        confirmations: this.getNumber('BITCOIN_MAINNET_CONFIRMATIONS', 3),
       },
       [BITCOIN_TESTNET_KEY]: {
         rpcUrls: this.getArray('BITCOIN_TESTNET_RPC_URLS', ['http://localhost:18332']),
+        confirmations: this.getNumber('BITCOIN_TESTNET_CONFIRMATIONS', 1),
       },
       [ETHEREUM_MAINNET_KEY]: {
         rpcUrls: this.getArray('ETHEREUM_MAINNET_RPC_URLS', [
           'https://ethereum-rpc.publicnode.com',
         ]),
+        confirmations: this.getNumber('ETHEREUM_MAINNET_CONFIRMATIONS', 12),
       },
       [ETHEREUM_LOCALNET_KEY]: {
         rpcUrls: this.getArray('ETHEREUM_LOCALNET_RPC_URLS', ['http://localhost:8545']),
+        confirmations: this.getNumber('ETHEREUM_LOCALNET_CONFIRMATIONS', 0),
       },
       [ETHEREUM_HOODI_KEY]: {
         rpcUrls: this.getArray('ETHEREUM_HOODI_RPC_URLS', [
           'https://ethereum-hoodi-rpc.publicnode.com',
         ]),
+        confirmations: this.getNumber('ETHEREUM_HOODI_CONFIRMATIONS', 12),
       },
       [BSC_MAINNET_KEY]: {
         rpcUrls: this.getArray('BSC_MAINNET_RPC_URLS', ['https://bsc-dataseed.binance.org/']),
+        confirmations: this.getNumber('BSC_MAINNET_CONFIRMATIONS', 15),
       },
       [BSC_TESTNET_KEY]: {
         rpcUrls: this.getArray('BSC_TESTNET_RPC_URLS', [
           'https://data-seed-prebsc-1-s1.binance.org:8545/',
         ]),
+        confirmations: this.getNumber('BSC_TESTNET_CONFIRMATIONS', 15),
       },
       [SOLANA_MAINNET_KEY]: {
         rpcUrls: this.getArray('SOLANA_MAINNET_RPC_URLS', ['https://api.mainnet-beta.solana.com']),
@@ -109,6 +119,18 @@ export class AppConfigService {
       [SOLANA_DEVNET_KEY]: {
         rpcUrls: this.getArray('SOLANA_DEVNET_RPC_URLS', ['https://api.devnet.solana.com']),
       },
+      [POLYGON_MAINNET_KEY]: {
+        rpcUrls: this.getArray('POLYGON_MAINNET_RPC_URLS', ['https://polygon-rpc.com']),
+        confirmations: this.getNumber('POLYGON_MAINNET_CONFIRMATIONS', 128),
+      },
+      [ARBITRUM_ONE_KEY]: {
+        rpcUrls: this.getArray('ARBITRUM_ONE_RPC_URLS', ['https://arb1.arbitrum.io/rpc']),
+        confirmations: this.getNumber('ARBITRUM_ONE_CONFIRMATIONS', 20),
+      },
+      [TRON_MAINNET_KEY]: {
+        rpcUrls: this.getArray('TRON_MAINNET_RPC_URLS', ['https://api.trongrid.io']),
+        confirmations: this.getNumber('TRON_MAINNET_CONFIRMATIONS', 19),
+      },
     };
   }
 
@@ -270,6 +292,42 @@ export class AppConfigService {
     };
   }
 
+  get withdrawalSecurityConfig() {
+    return {
+      beneficiaryCoolingOffHours: this.getNumber('BENEFICIARY_COOLING_OFF_HOURS', 24),
+      freezeLinkExpirationHours: this.getNumber('WITHDRAWAL_FREEZE_LINK_EXPIRATION_HOURS', 72),
+    };
+  }
+
+  get withdrawalApprovalConfig() {
+    return {
+      recentBeneficiaryHours: this.getNumber('WITHDRAWAL_APPROVAL_RECENT_BENEFICIARY_HOURS', 72),
+    };
+  }
+
+  /**
+   * Batched payouts are enabled per blockchain by giving it a window in seconds,
+   * e.g. WITHDRAWAL_BATCH_WINDOWS=bip122:000000000019d6689c085ae165831e93=600,eip155:1=300
+   */
+  get withdrawalBatchConfig() {
+    return {
+      windowSeconds: this.getNumberMap('WITHDRAWAL_BATCH_WINDOWS'),
+      maxWithdrawals: this.getNumber('WITHDRAWAL_BATCH_MAX_WITHDRAWALS', 100),
+    };
+  }
+
+  /**
+   * Stuck withdrawal transactions are replaced at a higher fee on blockchains given a maximum fee
+   * in their native unit, e.g. WITHDRAWAL_FEE_BUMP_MAX_FEES=bip122:000000000019d6689c085ae165831e93=0.0005
+   */
+  get withdrawalFeeBumpConfig() {
+    return {
+      maxFees: this.getNumberMap('WITHDRAWAL_FEE_BUMP_MAX_FEES'),
+      stuckAfterMinutes: this.getNumber('WITHDRAWAL_FEE_BUMP_STUCK_AFTER_MINUTES', 60),
+      maxAttempts: this.getNumber('WITHDRAWAL_FEE_BUMP_MAX_ATTEMPTS', 3),
+    };
+  }
+
   get enabledIndexers(): string[] {
     const enabled = this.getOptionalString('ENABLED_INDEXERS');
     if (!enabled) {
@@ -368,6 +426,24 @@ export class AppConfigService {
     return value.split(',').map(item => item.trim());
   }
 
+  /**
+   * Comma separated key=number entries, keyed by blockchain key which may itself contain colons
+   */
+  private getNumberMap(key: string): Record<string, number> {
+    const result: Record<string, number> = {};
+    const entries = this.getArray(key, []).filter(entry => entry.length > 0);
+    for (const entry of entries) {
+      const separatorIndex = entry.lastIndexOf('=');
+      const mapKey = entry.slice(0, separatorIndex).trim();
+      const value = Number(entry.slice(separatorIndex + 1));
+      if (separatorIndex <= 0 || !Number.isFinite(value) || value <= 0) {
+        throw new TypeError(`Environment variable ${key} has an invalid entry: ${entry}`);
+      }
+      result[mapKey] = value;
+    }
+    return result;
+  }
+
   private getOptionalString(key: string): string | undefined {
     const value = this.configService.get<string>(key);
     if (value === undefined || value === '') {
@@ -2,10 +2,29 @@ import { PublicKey } from '@solana/web3.js';
 import * as bitcoin from 'bitcoinjs-lib';
 import { isAddress } from 'viem';
 
+/**
+ * Version byte of Tron Base58Check addresses
+ */
+export const TRON_ADDRESS_VERSION = 0x41;
+
+export interface ChainAddressFormat {
+  name: string;
+  validate(address: string): boolean;
+}
+
 /**
  * Validate blockchain addresses using existing dependencies
  */
 export class AddressValidator {
+  static #chains = new Map<string, ChainAddressFormat>();
+
+  /**
+   * Registers the address format of a chain plug-in, it takes precedence over the namespace rules
+   */
+  static registerChain(blockchainKey: string, format: ChainAddressFormat): void {
+    this.#chains.set(blockchainKey, format);
+  }
+
   /**
    * Validate Ethereum/EVM addresses (Ethereum, BSC, etc.)
    * Uses viem's isAddress - accepts addresses in any case (lowercase, uppercase, or checksummed)
@@ -56,6 +75,18 @@ export class AddressValidator {
     }
   }
 
+  /**
+   * Validate Tron addresses (Base58Check with the 0x41 version byte, they start with a T)
+   */
+  static validateTronAddress(address: string): boolean {
+    try {
+      const { hash, version } = bitcoin.address.fromBase58Check(address);
+      return version === TRON_ADDRESS_VERSION && hash.length === 20;
+    } catch {
+      return false;
+    }
+  }
+
   /**
    * Main validation function based on blockchain key
    */
@@ -66,6 +97,11 @@ export class AddressValidator {
       return this.validateCrosschainAddress(address);
     }
 
+    const chain = this.#chains.get(blockchainKey);
+    if (chain) {
+      return chain.validate(address);
+    }
+
     const [namespace] = blockchainKey.split(':');
 
     switch (namespace) {
@@ -81,6 +117,10 @@ export class AddressValidator {
         // Solana
         return this.validateSolanaAddress(address);
 
+      case 'tron':
+        // Tron
+        return this.validateTronAddress(address);
+
       default:
         // For unsupported blockchains, return true (basic regex validation only)
         return true;
@@ -108,6 +148,11 @@ export class AddressValidator {
       return 'Cross-Chain';
     }
 
+    const chain = this.#chains.get(blockchainKey);
+    if (chain) {
+      return chain.name;
+    }
+
     const [namespace, reference] = blockchainKey.split(':');
 
     switch (namespace) {
@@ -134,6 +179,11 @@ export class AddressValidator {
           return 'Solana Mainnet';
         }
         return 'Solana';
+      case 'tron':
+        if (reference === '0x2b6653dc') {
+          return 'Tron Mainnet';
+        }
+        return 'Tron';
       default:
         return `Unknown (${namespace})`;
     }
@@ -0,0 +1,150 @@
+import type { Rounding } from './decimal';
+
+import { strictEqual, throws } from 'node:assert/strict';
+import { describe, it } from 'node:test';
+
+import { BigNumber } from 'bignumber.js';
+
+import {
+  applyRate,
+  divideRounded,
+  fromFixedPoint,
+  mulDiv,
+  RATIO_DECIMALS,
+  ratioToNumber,
+  toFixedPoint,
+} from './decimal';
+import { forAllCases } from './property-test';
+
+// Reference implementation: arbitrary precision decimals, rounded once with the same policy
+const ReferenceNumber = BigNumber.clone({ DECIMAL_PLACES: 100 });
+const REFERENCE_ROUNDING: Record<Rounding, BigNumber.RoundingMode> = {
+  floor: BigNumber.ROUND_FLOOR,
+  ceil: BigNumber.ROUND_CEIL,
+  halfUp: BigNumber.ROUND_HALF_UP,
+};
+const ROUNDINGS: Rounding[] = ['floor', 'ceil', 'halfUp'];
+
+function referenceDivide(numerator: bigint, denominator: bigint, rounding: Rounding): bigint {
+  return BigInt(
+    new ReferenceNumber(numerator.toString())
+      .dividedBy(denominator.toString())
+      .integerValue(REFERENCE_ROUNDING[rounding])
+      .toFixed(0),
+  );
+}
+
+describe('decimal', () => {
+  describe('divideRounded', () => {
+    it('should round toward the named side', () => {
+      strictEqual(divideRounded(7n, 2n, 'floor'), 3n);
+      strictEqual(divideRounded(7n, 2n, 'ceil'), 4n);
+      strictEqual(divideRounded(7n, 2n, 'halfUp'), 4n);
+      strictEqual(divideRounded(-7n, 2n, 'floor'), -4n);
+      strictEqual(divideRounded(-7n, 2n, 'ceil'), -3n);
+      strictEqual(divideRounded(-7n, 2n, 'halfUp'), -4n);
+      strictEqual(divideRounded(5n, -3n, 'halfUp'), -2n);
+      throws(() => divideRounded(1n, 0n, 'floor'), { message: 'Division by zero' });
+    });
+
+    it('should match the reference for any operands', () => {
+      forAllCases(1000, 24, random => {
+        const numerator = random.bigInt(60) * (random.integer(0, 1) === 0 ? 1n : -1n);
+        const denominator = (random.bigInt(30) + 1n) * (random.integer(0, 1) === 0 ? 1n : -1n);
+        const rounding = random.pick(ROUNDINGS);
+
+        strictEqual(
+          divideRounded(numerator, denominator, rounding),
+          referenceDivide(numerator, denominator, rounding),
+          `${numerator} / ${denominator} ${rounding}`,
+        );
+      });
+    });
+  });
+
+  describe('toFixedPoint and fromFixedPoint', () => {
+    it('should convert between decimal strings and integers exactly', () => {
+      strictEqual(toFixedPoint('1.5', 6, 'floor'), 1500000n);
+      strictEqual(toFixedPoint(0.1, 18, 'floor'), 100000000000000000n);
+      strictEqual(toFixedPoint(2n, 3, 'floor'), 2000n);
+      strictEqual(toFixedPoint('-0.0000015', 6, 'floor'), -2n);
+      strictEqual(toFixedPoint('-0.0000015', 6, 'halfUp'), -2n);
+      strictEqual(toFixedPoint('-0.0000015', 6, 'ceil'), -1n);
+      strictEqual(fromFixedPoint(1500000n, 6), '1.500000');
+      strictEqual(fromFixedPoint(-5n, 3), '-0.005');
+      strictEqual(fromFixedPoint(42n, 0), '42');
+      throws(() => toFixedPoint('abc', 6, 'floor'), { message: 'Invalid decimal value: abc' });
+    });
+
+    it('should round trip any integer and round any decimal like the reference', () => {
+      forAllCases(1000, 2400, random => {
+        const value = random.bigInt(80) * (random.integer(0, 1) === 0 ? 1n : -1n);
+        const decimals = random.integer(0, 30);
+        const formatted = fromFixedPoint(value, decimals);
+
+        strictEqual(toFixedPoint(formatted, decimals, 'floor'), value);
+        strictEqual(
+          new ReferenceNumber(formatted).shiftedBy(decimals).toFixed(0),
+          value.toString(),
+        );
+
+        const targetDecimals = random.integer(0, decimals);
+        const rounding = random.pick(ROUNDINGS);
+        strictEqual(
+          toFixedPoint(formatted, targetDecimals, rounding),
+          BigInt(
+            new ReferenceNumber(formatted)
+              .shiftedBy(targetDecimals)
+              .integerValue(REFERENCE_ROUNDING[rounding])
+              .toFixed(0),
+          ),
+          `${formatted} to ${targetDecimals} decimals ${rounding}`,
+        );
+      });
+    });
+  });
+
+  describe('mulDiv, applyRate and ratioToNumber', () => {
+    it('should keep 18-decimal amounts exact where floating point does not', () => {
+      const collateralAmount = 123456789123456789123456789n; // ~123M tokens with 18 decimals
+      strictEqual(mulDiv(collateralAmount, 3n, 7n, 'floor'), 52910052481481481052910052n);
+      strictEqual(applyRate(10000000000000000000001n, '0.03', 'floor'), 300000000000000000000n);
+      strictEqual(applyRate(10000000000000000000001n, '0.03', 'ceil'), 300000000000000000001n);
+      strictEqual(ratioToNumber(2n, 3n, 'floor'), 0.6666666666666666);
+      strictEqual(ratioToNumber(2000000000n, 3200000000n, 'ceil'), 0.625);
+    });
+
+    it('should match the reference for any operands', () => {
+      forAllCases(1000, 240, random => {
+        const value = random.bigInt(40);
+        const multiplier = random.bigInt(25);
+        const divisor = random.bigInt(30) + 1n;
+        const rounding = random.pick(ROUNDINGS);
+
+        strictEqual(
+          mulDiv(value, multiplier, divisor, rounding),
+          referenceDivide(value * multiplier, divisor, rounding),
+        );
+
+        const rate = fromFixedPoint(random.bigInt(RATIO_DECIMALS), RATIO_DECIMALS);
+        strictEqual(
+          applyRate(value, rate, rounding),
+          BigInt(
+            new ReferenceNumber(value.toString())
+              .multipliedBy(rate)
+              .integerValue(REFERENCE_ROUNDING[rounding])
+              .toFixed(0),
+          ),
+        );
+
+        strictEqual(
+          ratioToNumber(value, divisor, rounding),
+          new ReferenceNumber(value.toString())
+            .dividedBy(divisor.toString())
+            .decimalPlaces(RATIO_DECIMALS, REFERENCE_ROUNDING[rounding])
+            .toNumber(),
+        );
+      });
+    });
+  });
+});
@@ -12,12 +12,127 @@ export function fromLowestDenomination(value: string | number, decimals: number)
   return bn.div(divisor).toFixed(decimals);
 }
 
+/**
+ * Fixed-point arithmetic
+ *
+ * Amounts are integers in the smallest unit of their currency, prices are integers with the
+ * exchange rate precision and rates and ratios are integers with RATIO_DECIMALS precision.
+ * Intermediate results are never rounded; each operation that has to drop precision names its
+ * rounding so callers can choose the side that is conservative for the platform.
+ */
+
+/**
+ * floor and ceil round toward negative and positive infinity, halfUp rounds ties away from zero
+ */
+export type Rounding = 'floor' | 'ceil' | 'halfUp';
+
+export const RATIO_DECIMALS = 18;
+
+const BIGNUMBER_ROUNDING: Record<Rounding, BigNumber.RoundingMode> = {
+  floor: BigNumber.ROUND_FLOOR,
+  ceil: BigNumber.ROUND_CEIL,
+  halfUp: BigNumber.ROUND_HALF_UP,
+};
+
+export function pow10(decimals: number): bigint {
+  return 10n ** BigInt(decimals);
+}
+
+/**
+ * Converts a decimal value to an integer with the given precision, e.g. '1.5' with 6 decimals is 1500000n
+ */
+export function toFixedPoint(
+  value: string | number | bigint,
+  decimals: number,
+  rounding: Rounding,
+): bigint {
+  if (typeof value === 'bigint') {
+    return value * pow10(decimals);
+  }
+
+  const bn = new BigNumber(value);
+  if (!bn.isFinite()) {
+    throw new Error(`Invalid decimal value: ${value}`);
+  }
+
+  return BigInt(bn.shiftedBy(decimals).integerValue(BIGNUMBER_ROUNDING[rounding]).toFixed(0));
+}
+
+/**
+ * Formats an integer with the given precision as a decimal string, e.g. 1500000n with 6 decimals is '1.500000'
+ */
+export function fromFixedPoint(value: bigint, decimals: number): string {
+  const sign = value < 0n ? '-' : '';
+  const digits = (value < 0n ? -value : value).toString().padStart(decimals + 1, '0');
+  const integerPart = digits.slice(0, digits.length - decimals);
+  const fractionPart = digits.slice(digits.length - decimals);
+
+  return decimals > 0 ? `${sign}${integerPart}.${fractionPart}` : `${sign}${integerPart}`;
+}
+
+export function divideRounded(numerator: bigint, denominator: bigint, rounding: Rounding): bigint {
+  if (denominator === 0n) {
+    throw new Error('Division by zero');
+  }
+
+  const sign = numerator < 0n !== denominator < 0n ? -1n : 1n;
+  const absoluteNumerator = numerator < 0n ? -numerator : numerator;
+  const absoluteDenominator = denominator < 0n ? -denominator : denominator;
+  const quotient = absoluteNumerator / absoluteDenominator;
+  const remainder = absoluteNumerator % absoluteDenominator;
+
+  if (remainder === 0n) {
+    return sign * quotient;
+  }
+
+  const roundsAway =
+    rounding === 'halfUp'
+      ? remainder * 2n >= absoluteDenominator
+      : (rounding === 'ceil') === sign > 0n;
+
+  return sign * (roundsAway ? quotient + 1n : quotient);
+}
+
+/**
+ * value * multiplier / divisor, rounded once at the end
+ */
+export function mulDiv(
+  value: bigint,
+  multiplier: bigint,
+  divisor: bigint,
+  rounding: Rounding,
+): bigint {
+  return divideRounded(value * multiplier, divisor, rounding);
+}
+
+/**
+ * Applies a 0-1 decimal rate to an amount, e.g. a 3% provision on a principal
+ */
+export function applyRate(amount: bigint, rate: string | number, rounding: Rounding): bigint {
+  return mulDiv(
+    amount,
+    toFixedPoint(rate, RATIO_DECIMALS, 'halfUp'),
+    pow10(RATIO_DECIMALS),
+    rounding,
+  );
+}
+
+/**
+ * Ratio of two integers with RATIO_DECIMALS precision, converted to a number only at the end
+ */
+export function ratioToNumber(numerator: bigint, denominator: bigint, rounding: Rounding): number {
+  return Number(
+    fromFixedPoint(mulDiv(numerator, pow10(RATIO_DECIMALS), denominator, rounding), RATIO_DECIMALS),
+  );
+}
+
 export function getDecimalsForCurrency(tokenId: string): number {
   const currencyDecimals: Record<string, number> = {
     'slip44:0': 8, // BTC - 8 decimals (satoshi)
     'slip44:60': 18, // ETH - 18 decimals (wei)
     'slip44:714': 18, // BNB - 18 decimals
     'slip44:501': 9, // SOL - 9 decimals (lamports)
+    'slip44:195': 6, // TRX - 6 decimals (sun)
     'iso4217:usd': 6, // USD - 6 decimals (standard for USDC/USDT)
   };
 
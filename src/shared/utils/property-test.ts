@@ -0,0 +1,62 @@
+/**
+ * Seeded random source for property-based tests, so a failing case can be replayed from its seed
+ */
+export type RandomSource = {
+  /** Integer between min and max inclusive */
+  integer(min: number, max: number): number;
+  /** Non-negative bigint with 1 to maxDigits digits */
+  bigInt(maxDigits: number): bigint;
+  pick<T>(values: readonly T[]): T;
+};
+
+export function createRandomSource(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  // mulberry32
+  function next(): number {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  function integer(min: number, max: number): number {
+    return min + Math.floor(next() * (max - min + 1));
+  }
+
+  return {
+    integer,
+    bigInt(maxDigits: number): bigint {
+      const digitCount = integer(1, maxDigits);
+      let digits = '';
+      for (let index = 0; index < digitCount; index++) {
+        digits += String(integer(0, 9));
+      }
+      return BigInt(digits);
+    },
+    pick<T>(values: readonly T[]): T {
+      return values[integer(0, values.length - 1)];
+    },
+  };
+}
+
+/**
+ * Runs the property for the given number of generated cases, naming the case that failed
+ */
+export function forAllCases(
+  runs: number,
+  seed: number,
+  property: (random: RandomSource, run: number) => void,
+): void {
+  const random = createRandomSource(seed);
+  for (let run = 0; run < runs; run++) {
+    try {
+      property(random, run);
+    } catch (error) {
+      throw new Error(
+        `Property failed on case ${run} of seed ${seed}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
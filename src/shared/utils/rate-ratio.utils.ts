@@ -11,6 +11,19 @@
 
 import { BigNumber } from 'bignumber.js';
 
+import { fromFixedPoint, pow10, RATIO_DECIMALS, toFixedPoint } from './decimal';
+
+/**
+ * Parses a rate/ratio or percentage with RATIO_DECIMALS precision, rounding half up beyond it
+ */
+function parseFixedPoint(value: number | string, fieldName: string): bigint {
+  try {
+    return toFixedPoint(value, RATIO_DECIMALS, 'halfUp');
+  } catch {
+    throw new Error(`${fieldName} must be a valid number`);
+  }
+}
+
 /**
  * Validates that a rate/ratio value is within the valid 0-1 range
  * @param value - The rate/ratio value to validate (0-1 decimal)
@@ -18,14 +31,10 @@ import { BigNumber } from 'bignumber.js';
  * @throws Error if value is outside 0-1 range
  */
 export function validateRateRatio(value: number | string, fieldName: string): void {
-  const numValue = typeof value === 'string' ? Number.parseFloat(value) : value;
+  const units = parseFixedPoint(value, fieldName);
 
-  if (Number.isNaN(numValue)) {
-    throw new Error(`${fieldName} must be a valid number`);
-  }
-
-  if (numValue < 0 || numValue > 1) {
-    throw new Error(`${fieldName} must be between 0 and 1 (got ${numValue})`);
+  if (units < 0n || units > pow10(RATIO_DECIMALS)) {
+    throw new Error(`${fieldName} must be between 0 and 1 (got ${value})`);
   }
 }
 
@@ -36,14 +45,10 @@ export function validateRateRatio(value: number | string, fieldName: string): vo
  * @throws Error if value is outside 0-100 range
  */
 export function validatePercentage(value: number | string, fieldName: string): void {
-  const numValue = typeof value === 'string' ? Number.parseFloat(value) : value;
-
-  if (Number.isNaN(numValue)) {
-    throw new Error(`${fieldName} must be a valid number`);
-  }
+  const units = parseFixedPoint(value, fieldName);
 
-  if (numValue < 0 || numValue > 100) {
-    throw new Error(`${fieldName} must be between 0 and 100 (got ${numValue})`);
+  if (units < 0n || units > 100n * pow10(RATIO_DECIMALS)) {
+    throw new Error(`${fieldName} must be between 0 and 100 (got ${value})`);
   }
 }
 
@@ -54,8 +59,9 @@ export function validatePercentage(value: number | string, fieldName: string): v
  * @example decimalToPercentage(0.75) // returns 75
  */
 export function decimalToPercentage(decimal: number | string): number {
-  const bn = new BigNumber(decimal);
-  return bn.multipliedBy(100).toNumber();
+  return Number(
+    fromFixedPoint(toFixedPoint(decimal, RATIO_DECIMALS, 'halfUp'), RATIO_DECIMALS - 2),
+  );
 }
 
 /**
@@ -65,8 +71,9 @@ export function decimalToPercentage(decimal: number | string): number {
  * @example percentageToDecimal(75) // returns 0.75
  */
 export function percentageToDecimal(percentage: number | string): number {
-  const bn = new BigNumber(percentage);
-  return bn.dividedBy(100).toNumber();
+  return Number(
+    fromFixedPoint(toFixedPoint(percentage, RATIO_DECIMALS - 2, 'halfUp'), RATIO_DECIMALS),
+  );
 }
 
 /**
@@ -95,8 +102,11 @@ export function percentageToBigNumberDecimal(percentage: number | string): BigNu
  * @example formatAsPercentage(0.7565, 2) // returns "75.65%"
  */
 export function formatAsPercentage(decimal: number | string, decimalPlaces = 2): string {
-  const percentage = decimalToPercentage(decimal);
-  return `${percentage.toFixed(decimalPlaces)}%`;
+  const percentage = fromFixedPoint(
+    toFixedPoint(decimal, decimalPlaces + 2, 'halfUp'),
+    decimalPlaces,
+  );
+  return `${percentage}%`;
 }
 
 /**
@@ -106,14 +116,14 @@ export function formatAsPercentage(decimal: number | string, decimalPlaces = 2):
  * @returns Decimal value (0-1)
  */
 export function ensureDecimalFormat(value: number | string): number {
-  const numValue = typeof value === 'string' ? Number.parseFloat(value) : value;
+  const units = parseFixedPoint(value, 'value');
 
   // If value is > 1, assume it's a percentage and convert
-  if (numValue > 1) {
-    return percentageToDecimal(numValue);
+  if (units > pow10(RATIO_DECIMALS)) {
+    return percentageToDecimal(value);
   }
 
-  return numValue;
+  return Number(fromFixedPoint(units, RATIO_DECIMALS));
 }
 
 /**
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+
+import { ARBITRUM_ONE_KEY } from '../../constants/blockchain';
+import { AppConfigService } from '../../services/app-config.service';
+import { Blockchain } from '../blockchain.abstract';
+import { ChainFeePriority, ChainNativeCurrency } from '../chain-plugin.abstract';
+import { WalletConfig } from '../wallet.config';
+import { EvmChainBlockchain } from './evm-chain.blockchain';
+
+@Injectable()
+@Blockchain(ARBITRUM_ONE_KEY)
+export class ArbitrumOneBlockchain extends EvmChainBlockchain {
+  constructor(walletConfig: WalletConfig, appConfig: AppConfigService) {
+    super(walletConfig, appConfig);
+  }
+
+  get name(): string {
+    return 'Arbitrum One';
+  }
+
+  // Arbitrum pays gas in ETH
+  get nativeCurrency(): ChainNativeCurrency {
+    return { tokenId: 'slip44:60', symbol: 'ETH', decimals: 18 };
+  }
+
+  protected get blockchainKey() {
+    return ARBITRUM_ONE_KEY;
+  }
+
+  protected get chainId(): number {
+    return 42161;
+  }
+
+  protected get explorerUrl(): string {
+    return 'https://arbiscan.io';
+  }
+
+  protected get confirmationTimes(): Record<ChainFeePriority, string> {
+    return {
+      slow: '1-2 minutes',
+      standard: '10-60 seconds',
+      fast: '5-30 seconds',
+    };
+  }
+}
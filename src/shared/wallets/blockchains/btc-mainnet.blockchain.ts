@@ -23,6 +23,11 @@ export class BaseBitcoinRpcClient implements BitcoinRpcClient {
     return result as string;
   }
 
+  async getRawTransaction(txid: string): Promise<string> {
+    const result = await this.makeRpcCall('getrawtransaction', [txid]);
+    return result as string;
+  }
+
   async getUnspentOutputs(address: string): Promise<
     {
       txid: string;
@@ -0,0 +1,110 @@
+import { ethers } from 'ethers';
+
+import { AppConfigService } from '../../services/app-config.service';
+import { AddressValidator } from '../../utils/address-validator';
+import {
+  ChainBalanceCollectorConfig,
+  ChainFeeEstimate,
+  ChainFeePriority,
+  ChainIndexerConfig,
+  ChainPlugin,
+} from '../chain-plugin.abstract';
+import { WalletConfig } from '../wallet.config';
+import { EthWallet } from '../wallets/eth.wallet';
+
+type EvmChainKey = Extract<keyof AppConfigService['blockchains'], `eip155:${string}`>;
+
+const PRIORITY_MULTIPLIERS: Record<ChainFeePriority, number> = {
+  slow: 0.8,
+  standard: 1,
+  fast: 1.5,
+};
+
+/**
+ * Plug-in base of EVM networks. Wallets use the Ethereum derivation (coin type 60), so an invoice
+ * or hot wallet has the same address on every EVM chain, and invoices are indexed and collected
+ * by the Ethereum listener and the EVM balance collector.
+ */
+export abstract class EvmChainBlockchain extends ChainPlugin {
+  #provider?: ethers.JsonRpcProvider;
+
+  constructor(
+    private readonly walletConfig: WalletConfig,
+    protected readonly appConfig: AppConfigService,
+  ) {
+    super();
+  }
+
+  protected abstract get blockchainKey(): EvmChainKey;
+  protected abstract get chainId(): number;
+  protected abstract get explorerUrl(): string;
+  protected abstract get confirmationTimes(): Record<ChainFeePriority, string>;
+
+  protected get rpcUrl(): string {
+    return this.appConfig.blockchains[this.blockchainKey].rpcUrls[0];
+  }
+
+  protected get provider(): ethers.JsonRpcProvider {
+    if (!this.#provider) {
+      this.#provider = new ethers.JsonRpcProvider(this.rpcUrl, this.chainId);
+    }
+    return this.#provider;
+  }
+
+  get bip44CoinType(): number {
+    return 60;
+  }
+
+  async derivedPathToWallet(derivationPath: string): Promise<EthWallet> {
+    const masterKey = await this.walletConfig.getMasterKey();
+    const { privateKey } = masterKey.derive(derivationPath);
+    if (!privateKey) {
+      throw new Error('Private key is undefined');
+    }
+    return new EthWallet(privateKey, this.provider);
+  }
+
+  validateAddress(address: string): boolean {
+    return AddressValidator.validateEthereumAddress(address);
+  }
+
+  getTransactionExplorerUrl(txHash: string): string {
+    return `${this.explorerUrl}/tx/${txHash}`;
+  }
+
+  async estimateNetworkFee(
+    tokenId: string | undefined,
+    priority: ChainFeePriority,
+  ): Promise<ChainFeeEstimate> {
+    const feeData = await this.provider.getFeeData();
+    const gasPriceGwei =
+      Number(ethers.formatUnits(feeData.gasPrice ?? 0n, 'gwei')) * PRIORITY_MULTIPLIERS[priority];
+
+    const isToken = tokenId !== undefined && tokenId !== this.nativeCurrency.tokenId;
+    const gasLimit = isToken ? 65000 : 21000; // ERC-20 vs native transfer
+
+    return {
+      fee: (gasLimit * gasPriceGwei) / 1e9,
+      feeUnit: this.nativeCurrency.symbol,
+      estimatedConfirmationTime: this.confirmationTimes[priority],
+      gasPrice: gasPriceGwei,
+      gasLimit,
+    };
+  }
+
+  get indexer(): ChainIndexerConfig {
+    const { rpcUrls, confirmations } = this.appConfig.blockchains[this.blockchainKey];
+    return {
+      type: 'evm',
+      chainName: this.name,
+      nativeTokenId: this.nativeCurrency.tokenId,
+      tokenPrefix: 'erc20',
+      wsUrl: rpcUrls[0].replace('https://', 'wss://').replace('http://', 'ws://'),
+      confirmations,
+    };
+  }
+
+  get balanceCollector(): ChainBalanceCollectorConfig {
+    return { type: 'evm', rpcUrl: this.rpcUrl };
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+
+import { POLYGON_MAINNET_KEY } from '../../constants/blockchain';
+import { AppConfigService } from '../../services/app-config.service';
+import { Blockchain } from '../blockchain.abstract';
+import { ChainFeePriority, ChainNativeCurrency } from '../chain-plugin.abstract';
+import { WalletConfig } from '../wallet.config';
+import { EvmChainBlockchain } from './evm-chain.blockchain';
+
+@Injectable()
+@Blockchain(POLYGON_MAINNET_KEY)
+export class PolygonMainnetBlockchain extends EvmChainBlockchain {
+  constructor(walletConfig: WalletConfig, appConfig: AppConfigService) {
+    super(walletConfig, appConfig);
+  }
+
+  get name(): string {
+    return 'Polygon Mainnet';
+  }
+
+  get nativeCurrency(): ChainNativeCurrency {
+    return { tokenId: 'slip44:966', symbol: 'POL', decimals: 18 };
+  }
+
+  protected get blockchainKey() {
+    return POLYGON_MAINNET_KEY;
+  }
+
+  protected get chainId(): number {
+    return 137;
+  }
+
+  protected get explorerUrl(): string {
+    return 'https://polygonscan.com';
+  }
+
+  protected get confirmationTimes(): Record<ChainFeePriority, string> {
+    return {
+      slow: '5-10 minutes',
+      standard: '2-5 minutes',
+      fast: '1-3 minutes',
+    };
+  }
+}
@@ -0,0 +1,273 @@
+import { Injectable } from '@nestjs/common';
+
+import invariant from 'tiny-invariant';
+
+import { TRON_MAINNET_KEY } from '../../constants/blockchain';
+import { AppConfigService } from '../../services/app-config.service';
+import { AddressValidator } from '../../utils/address-validator';
+import { Blockchain } from '../blockchain.abstract';
+import {
+  ChainFeeEstimate,
+  ChainFeePriority,
+  ChainNativeCurrency,
+  ChainPlugin,
+} from '../chain-plugin.abstract';
+import { WalletConfig } from '../wallet.config';
+import {
+  TRX_TOKEN_ID,
+  TronApiClient,
+  TronContractCall,
+  TronTransaction,
+  TronWallet,
+} from '../wallets/tron.wallet';
+
+/**
+ * Bandwidth used by a TRX transfer, in bytes
+ */
+export const TRX_TRANSFER_BANDWIDTH = 270;
+
+/**
+ * Bandwidth used by a TRC-20 transfer, in bytes
+ */
+export const TRC20_TRANSFER_BANDWIDTH = 345;
+
+/**
+ * Energy used by a TRC-20 transfer to an address that already holds the token
+ */
+export const TRC20_TRANSFER_ENERGY = 65000;
+
+export type TronBlock = {
+  blockID: string;
+  block_header: {
+    raw_data: { number: number; timestamp: number; parentHash: string };
+  };
+  transactions?: Array<
+    Pick<TronTransaction, 'txID' | 'raw_data'> & { ret?: Array<{ contractRet?: string }> }
+  >;
+};
+
+export type TronTransactionInfo = {
+  id: string;
+  receipt?: { result?: string };
+  /** Contract address of a log is the 20 byte account in hex, without the version byte */
+  log?: Array<{ address: string; topics: string[]; data: string }>;
+};
+
+/**
+ * Bandwidth and energy an account can spend without burning TRX. Tron omits zero fields.
+ */
+export type TronAccountResource = {
+  freeNetUsed?: number;
+  freeNetLimit?: number;
+  NetUsed?: number;
+  NetLimit?: number;
+  EnergyUsed?: number;
+  EnergyLimit?: number;
+};
+
+/**
+ * TronGrid compatible HTTP API client, trying each configured node in turn
+ */
+export class TronGridClient implements TronApiClient {
+  constructor(private readonly apiUrls: string[]) {}
+
+  createTransaction(params: {
+    ownerAddress: string;
+    toAddress: string;
+    amount: number;
+  }): Promise<TronTransaction> {
+    return this.post('/wallet/createtransaction', {
+      owner_address: params.ownerAddress,
+      to_address: params.toAddress,
+      amount: params.amount,
+      visible: true,
+    });
+  }
+
+  async triggerSmartContract(
+    params: TronContractCall & { feeLimit: number },
+  ): Promise<{ transaction: TronTransaction }> {
+    const { result, transaction } = await this.post<{
+      result: { result?: boolean; message?: string };
+      transaction: TronTransaction;
+    }>('/wallet/triggersmartcontract', {
+      owner_address: params.ownerAddress,
+      contract_address: params.contractAddress,
+      function_selector: params.functionSelector,
+      parameter: params.parameter,
+      fee_limit: params.feeLimit,
+      call_value: 0,
+      visible: true,
+    });
+    invariant(result.result, `Contract call rejected: ${decodeTronMessage(result.message)}`);
+    return { transaction };
+  }
+
+  async triggerConstantContract(
+    params: TronContractCall,
+  ): Promise<{ constant_result: string[]; energy_used?: number }> {
+    const { result, ...output } = await this.post<{
+      result: { result?: boolean; message?: string };
+      constant_result: string[];
+      energy_used?: number;
+    }>('/wallet/triggerconstantcontract', {
+      owner_address: params.ownerAddress,
+      contract_address: params.contractAddress,
+      function_selector: params.functionSelector,
+      parameter: params.parameter,
+      visible: true,
+    });
+    invariant(result.result, `Contract call failed: ${decodeTronMessage(result.message)}`);
+    return output;
+  }
+
+  broadcastTransaction(
+    transaction: TronTransaction & { signature: string[] },
+  ): Promise<{ result?: boolean; code?: string; message?: string }> {
+    return this.post('/wallet/broadcasttransaction', transaction);
+  }
+
+  getAccount(address: string): Promise<{ balance?: number }> {
+    return this.post('/wallet/getaccount', { address, visible: true });
+  }
+
+  getAccountResource(address: string): Promise<TronAccountResource> {
+    return this.post('/wallet/getaccountresource', { address, visible: true });
+  }
+
+  getNowBlock(): Promise<TronBlock> {
+    return this.post('/wallet/getnowblock', { visible: true });
+  }
+
+  getBlockByNumber(blockNumber: number): Promise<TronBlock> {
+    return this.post('/wallet/getblockbynum', { num: blockNumber, visible: true });
+  }
+
+  getTransactionInfoByBlockNumber(blockNumber: number): Promise<TronTransactionInfo[]> {
+    return this.post('/wallet/gettransactioninfobyblocknum', { num: blockNumber });
+  }
+
+  getTransactionInfo(txHash: string): Promise<TronTransactionInfo & { fee?: number }> {
+    return this.post('/wallet/gettransactioninfobyid', { value: txHash });
+  }
+
+  async getChainParameters(): Promise<Record<string, number>> {
+    const { chainParameter } = await this.post<{
+      chainParameter: Array<{ key: string; value?: number }>;
+    }>('/wallet/getchainparameters', {});
+    return Object.fromEntries(chainParameter.map(({ key, value }) => [key, value ?? 0]));
+  }
+
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    let lastError: Error | undefined;
+
+    for (const apiUrl of this.apiUrls) {
+      try {
+        const response = await fetch(`${apiUrl}${path}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        });
+        invariant(response.ok, `Tron API ${apiUrl} responded ${response.status}`);
+
+        const result = (await response.json()) as T & { Error?: string };
+        invariant(!result.Error, `Tron API ${apiUrl} error: ${result.Error}`);
+        return result;
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+    }
+
+    throw lastError ?? new Error('No Tron API configured');
+  }
+}
+
+/**
+ * Tron reports contract errors as hex encoded text
+ */
+function decodeTronMessage(message?: string): string {
+  if (!message || !/^[0-9a-fA-F]+$/.test(message)) return message ?? 'Unknown error';
+  return Buffer.from(message, 'hex').toString('utf-8');
+}
+
+@Injectable()
+@Blockchain(TRON_MAINNET_KEY)
+export class TronMainnetBlockchain extends ChainPlugin {
+  #apiClient?: TronGridClient;
+
+  constructor(
+    private readonly walletConfig: WalletConfig,
+    private readonly appConfig: AppConfigService,
+  ) {
+    super();
+  }
+
+  get apiClient(): TronGridClient {
+    if (!this.#apiClient) {
+      this.#apiClient = new TronGridClient(this.appConfig.blockchains[TRON_MAINNET_KEY].rpcUrls);
+    }
+    return this.#apiClient;
+  }
+
+  get name(): string {
+    return 'Tron';
+  }
+
+  get nativeCurrency(): ChainNativeCurrency {
+    return { tokenId: TRX_TOKEN_ID, symbol: 'TRX', decimals: 6 };
+  }
+
+  get bip44CoinType(): number {
+    return 195;
+  }
+
+  async derivedPathToWallet(derivationPath: string): Promise<TronWallet> {
+    const masterKey = await this.walletConfig.getMasterKey();
+    const { privateKey } = masterKey.derive(derivationPath);
+    if (!privateKey) {
+      throw new Error('Private key is undefined');
+    }
+    return new TronWallet(privateKey, this.apiClient);
+  }
+
+  validateAddress(address: string): boolean {
+    return AddressValidator.validateTronAddress(address);
+  }
+
+  getTransactionExplorerUrl(txHash: string): string {
+    return `https://tronscan.org/#/transaction/${txHash}`;
+  }
+
+  /**
+   * TRX burnt, in sun, per byte of bandwidth and per unit of energy the sender has not staked for
+   */
+  async getResourcePrices(): Promise<{ bandwidthPrice: number; energyPrice: number }> {
+    const parameters = await this.apiClient.getChainParameters();
+    return {
+      bandwidthPrice: parameters.getTransactionFee ?? 1000,
+      energyPrice: parameters.getEnergyFee ?? 420,
+    };
+  }
+
+  /**
+   * Tron has no fee market, so the priority does not change the fee. Transfers burn TRX for the
+   * bandwidth and energy the sender does not have staked, priced by the chain parameters.
+   */
+  async estimateNetworkFee(
+    tokenId: string | undefined,
+    _priority: ChainFeePriority,
+  ): Promise<ChainFeeEstimate> {
+    const { bandwidthPrice, energyPrice } = await this.getResourcePrices();
+
+    const isToken = tokenId !== undefined && tokenId !== TRX_TOKEN_ID;
+    const feeInSun = isToken
+      ? TRC20_TRANSFER_BANDWIDTH * bandwidthPrice + TRC20_TRANSFER_ENERGY * energyPrice
+      : TRX_TRANSFER_BANDWIDTH * bandwidthPrice;
+
+    return {
+      fee: feeInSun / 1e6,
+      feeUnit: 'TRX',
+      estimatedConfirmationTime: '1-2 minutes',
+    };
+  }
+}
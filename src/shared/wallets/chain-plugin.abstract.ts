@@ -0,0 +1,71 @@
+import { BlockchainAbstract } from './blockchain.abstract';
+
+export type ChainFeePriority = 'slow' | 'standard' | 'fast';
+
+export interface ChainFeeEstimate {
+  fee: number;
+  feeUnit: string;
+  estimatedConfirmationTime: string;
+  gasPrice?: number;
+  gasLimit?: number;
+}
+
+export interface ChainNativeCurrency {
+  tokenId: string;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * How invoice payments of the chain are indexed. EVM chains reuse the Ethereum indexer listener.
+ */
+export type ChainIndexerConfig = {
+  type: 'evm';
+  chainName: string;
+  nativeTokenId: string;
+  tokenPrefix: string;
+  wsUrl: string;
+  confirmations: number;
+};
+
+/**
+ * How paid invoice wallets of the chain are collected into the hot wallet. EVM chains reuse the
+ * EVM balance collector.
+ */
+export type ChainBalanceCollectorConfig = {
+  type: 'evm';
+  rpcUrl: string;
+};
+
+/**
+ * A blockchain network bundled as one plug-in: wallet derivation (from BlockchainAbstract), address
+ * validation, fee estimation, explorer URLs, and optionally invoice indexing and balance collection.
+ *
+ * Plug-ins are discovered through the `@Blockchain(key)` decorator like any other blockchain, so adding
+ * a network only takes a plug-in provider and its seed data.
+ */
+export abstract class ChainPlugin extends BlockchainAbstract {
+  abstract get name(): string;
+  abstract get nativeCurrency(): ChainNativeCurrency;
+
+  abstract validateAddress(address: string): boolean;
+  abstract getTransactionExplorerUrl(txHash: string): string;
+  abstract estimateNetworkFee(
+    tokenId: string | undefined,
+    priority: ChainFeePriority,
+  ): Promise<ChainFeeEstimate>;
+
+  /**
+   * Chains without an indexer config detect invoice payments only through a dedicated `@Listener`
+   */
+  get indexer(): ChainIndexerConfig | undefined {
+    return undefined;
+  }
+
+  /**
+   * Chains without a balance collector config are collected only by a dedicated `@CollectorFlag` collector
+   */
+  get balanceCollector(): ChainBalanceCollectorConfig | undefined {
+    return undefined;
+  }
+}
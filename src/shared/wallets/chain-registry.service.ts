@@ -0,0 +1,38 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+
+import { AddressValidator } from '../utils/address-validator';
+import { Blockchain } from './blockchain.abstract';
+import { ChainPlugin } from './chain-plugin.abstract';
+
+@Injectable()
+export class ChainRegistry implements OnModuleInit {
+  constructor(private readonly discovery: DiscoveryService) {}
+
+  onModuleInit() {
+    // Address validation runs inside class-validator decorators, outside of dependency injection
+    for (const { blockchainKey, chain } of this.getAllChains()) {
+      AddressValidator.registerChain(blockchainKey, {
+        name: chain.name,
+        validate: address => chain.validateAddress(address),
+      });
+    }
+  }
+
+  getChain(blockchainKey: string): ChainPlugin | undefined {
+    return this.getAllChains().find(item => item.blockchainKey === blockchainKey)?.chain;
+  }
+
+  getAllChains(): Array<{ blockchainKey: string; chain: ChainPlugin }> {
+    return this.discovery
+      .getProviders()
+      .map(provider => {
+        const blockchainKey = this.discovery.getMetadataByDecorator(Blockchain, provider);
+        if (!blockchainKey) return null;
+        const instance = provider.instance;
+        if (!(instance instanceof ChainPlugin)) return null;
+        return { blockchainKey: blockchainKey as string, chain: instance };
+      })
+      .filter((item): item is { blockchainKey: string; chain: ChainPlugin } => item !== null);
+  }
+}
@@ -5,10 +5,48 @@ export type WalletTransferParams = {
   value: string;
 };
 
+export type WalletBatchTransferParams = {
+  tokenId: string;
+  from: string;
+  outputs: {
+    to: string;
+    value: string;
+  }[];
+};
+
+export type WalletFeeBumpParams = {
+  txHash: string;
+  fee: string;
+  maxFee: string;
+};
+
 export abstract class Wallet {
   abstract getAddress(): Promise<string>;
   abstract transfer(params: WalletTransferParams): Promise<{ txHash: string }>;
-  abstract getBalance(address: string): Promise<number>;
+
+  /**
+   * Balance of the native coin, or of the token when a token id is given, in whole units. It is
+   * formatted from the integer base unit amount so large balances keep every digit.
+   */
+  abstract getBalance(address: string, tokenId?: string): Promise<string>;
+
+  /**
+   * Pays every output in a single transaction. The fee is in the blockchain native unit.
+   * Wallets of blockchains without batched payouts reject the call.
+   */
+  async transferBatch(
+    _params: WalletBatchTransferParams,
+  ): Promise<{ txHash: string; fee: string }> {
+    throw new WalletError(`${this.constructor.name} does not support batch transfers`);
+  }
+
+  /**
+   * Replaces a pending transaction with the same payments at a higher fee, aiming for the given fee
+   * without going over maxFee (both in the blockchain native unit). Returns the replacement.
+   */
+  async bumpFee(_params: WalletFeeBumpParams): Promise<{ txHash: string; fee: string }> {
+    throw new WalletError(`${this.constructor.name} does not support fee bumping`);
+  }
 }
 
 export class WalletError extends Error {
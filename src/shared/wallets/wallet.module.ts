@@ -2,14 +2,18 @@ import { Module } from '@nestjs/common';
 import { DiscoveryModule } from '@nestjs/core';
 
 import { CryptographyModule } from '../cryptography/cryptography.module';
+import { ArbitrumOneBlockchain } from './blockchains/arbitrum-one.blockchain';
 import { BscMainnetBlockchain } from './blockchains/bsc-mainnet.blockchain';
 import { BtcMainnetBlockchain } from './blockchains/btc-mainnet.blockchain';
 import { BtcTestnetWalletService } from './blockchains/btc-testnet.blockchain';
 import { CgTestnetBlockchain } from './blockchains/cg-testnet.blockchain';
 import { EthHoodiBlockchain } from './blockchains/eth-hoodi.blockchain.js';
 import { EthMainnetBlockchain } from './blockchains/eth-mainnet.blockchain';
+import { PolygonMainnetBlockchain } from './blockchains/polygon-mainnet.blockchain';
 import { SolDevnetBlockchain } from './blockchains/sol-devnet.blockchain';
 import { SolMainnetBlockchain } from './blockchains/sol-mainnet.blockchain';
+import { TronMainnetBlockchain } from './blockchains/tron-mainnet.blockchain';
+import { ChainRegistry } from './chain-registry.service';
 import { WalletConfig } from './wallet.config';
 import { WalletFactory } from './wallet.factory';
 import { WalletService } from './wallet.service';
@@ -20,6 +24,7 @@ import { WalletService } from './wallet.service';
     WalletConfig,
     WalletFactory,
     WalletService,
+    ChainRegistry,
     BtcTestnetWalletService,
 
     // Blockchains
@@ -30,11 +35,17 @@ import { WalletService } from './wallet.service';
     EthMainnetBlockchain,
     SolDevnetBlockchain,
     SolMainnetBlockchain,
+
+    // Chain plug-ins
+    ArbitrumOneBlockchain,
+    PolygonMainnetBlockchain,
+    TronMainnetBlockchain,
   ],
   exports: [
     WalletConfig,
     WalletFactory,
     WalletService,
+    ChainRegistry,
     BtcTestnetWalletService,
 
     // Blockchains
@@ -45,6 +56,11 @@ import { WalletService } from './wallet.service';
     EthMainnetBlockchain,
     SolDevnetBlockchain,
     SolMainnetBlockchain,
+
+    // Chain plug-ins
+    ArbitrumOneBlockchain,
+    PolygonMainnetBlockchain,
+    TronMainnetBlockchain,
   ],
 })
 export class WalletModule {}
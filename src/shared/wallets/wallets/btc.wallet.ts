@@ -3,10 +3,22 @@ import * as ecPair from 'ecpair';
 import invariant from 'tiny-invariant';
 import * as ecc from 'tiny-secp256k1';
 
-import { Wallet, WalletTransferParams } from '../wallet.abstract';
+import { fromLowestDenomination } from '../../utils/decimal';
+import {
+  Wallet,
+  WalletBatchTransferParams,
+  WalletFeeBumpParams,
+  WalletTransferParams,
+} from '../wallet.abstract';
+
+/**
+ * Input sequence signalling BIP125 replace-by-fee, so stuck withdrawals can be fee bumped
+ */
+const RBF_SEQUENCE = 0xfffffffd;
 
 export interface BitcoinRpcClient {
   sendRawTransaction(hexString: string): Promise<string>;
+  getRawTransaction(txid: string): Promise<string>;
   getUnspentOutputs(address: string): Promise<
     {
       txid: string;
@@ -61,6 +73,7 @@ export abstract class BtcWallet extends Wallet {
         psbt.addInput({
           hash: utxo.txid,
           index: utxo.vout,
+          sequence: RBF_SEQUENCE,
           witnessUtxo: {
             script: Buffer.from(utxo.scriptPubKey, 'hex'),
             value: BigInt(utxo.value),
@@ -113,9 +126,181 @@ export abstract class BtcWallet extends Wallet {
       );
     }
   }
-  async getBalance(address: string): Promise<number> {
+
+  /**
+   * One transaction with an output per recipient, so the inputs and change are paid for once
+   */
+  async transferBatch(params: WalletBatchTransferParams): Promise<{ txHash: string; fee: string }> {
+    try {
+      invariant(params.outputs.length > 0, 'Batch transfer requires at least one output');
+
+      const ECPair = ecPair.ECPairFactory(ecc);
+      const keyPair: bitcoin.Signer = ECPair.fromPrivateKey(this.privateKey);
+      const senderAddress = await this.getAddress();
+
+      const utxos = await this.rpcClient.getUnspentOutputs(senderAddress);
+
+      invariant(utxos.length > 0, 'No unspent outputs available');
+
+      const psbt = new bitcoin.Psbt({ network: this.network });
+      const outputSatoshis = params.outputs.map(function (output) {
+        return Math.floor(parseFloat(output.value) * 100000000);
+      });
+      const totalOutput = outputSatoshis.reduce((sum, value) => sum + value, 0);
+      const feeRate = 1; // 1 sat/byte
+
+      // P2WPKH virtual sizes: overhead, per input, per output (recipients plus change)
+      const estimateFee = (inputCount: number) =>
+        Math.ceil((11 + inputCount * 68 + (params.outputs.length + 1) * 31) * feeRate);
+
+      let totalInput = 0;
+      let inputCount = 0;
+
+      for (const utxo of utxos) {
+        psbt.addInput({
+          hash: utxo.txid,
+          index: utxo.vout,
+          sequence: RBF_SEQUENCE,
+          witnessUtxo: {
+            script: Buffer.from(utxo.scriptPubKey, 'hex'),
+            value: BigInt(utxo.value),
+          },
+        });
+        totalInput += utxo.value;
+        inputCount++;
+
+        if (totalInput >= totalOutput + estimateFee(inputCount)) break;
+      }
+
+      const fee = estimateFee(inputCount);
+      invariant(totalInput >= totalOutput + fee, 'Insufficient funds');
+
+      params.outputs.forEach(function (output, index) {
+        psbt.addOutput({
+          address: output.to,
+          value: BigInt(outputSatoshis[index]),
+        });
+      });
+
+      const change = totalInput - totalOutput - fee;
+
+      if (change > 546) {
+        // Dust limit
+        psbt.addOutput({
+          address: senderAddress,
+          value: BigInt(change),
+        });
+      }
+
+      psbt.signAllInputs(keyPair);
+
+      invariant(
+        psbt.validateSignaturesOfAllInputs(() => true),
+        'Invalid signatures',
+      );
+      psbt.finalizeAllInputs();
+
+      const signedTx = psbt.extractTransaction().toHex();
+      const txHash = await this.rpcClient.sendRawTransaction(signedTx);
+
+      // Change under the dust limit is left to the miners as well
+      const paidFee = change > 546 ? fee : totalInput - totalOutput;
+
+      return { txHash, fee: (paidFee / 100000000).toString() };
+    } catch (error) {
+      invariant(
+        false,
+        `Batch transfer failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Replace-by-fee: spends the same inputs to the same outputs and takes the fee increase from the change
+   */
+  async bumpFee(params: WalletFeeBumpParams): Promise<{ txHash: string; fee: string }> {
+    try {
+      const ECPair = ecPair.ECPairFactory(ecc);
+      const keyPair: bitcoin.Signer = ECPair.fromPrivateKey(this.privateKey);
+      const senderAddress = await this.getAddress();
+      const senderScript = Buffer.from(bitcoin.address.toOutputScript(senderAddress, this.network));
+
+      const original = bitcoin.Transaction.fromHex(
+        await this.rpcClient.getRawTransaction(params.txHash),
+      );
+
+      const psbt = new bitcoin.Psbt({ network: this.network });
+      let totalInput = 0;
+
+      for (const input of original.ins) {
+        const previousTxid = Buffer.from(input.hash).reverse().toString('hex');
+        const previous = bitcoin.Transaction.fromHex(
+          await this.rpcClient.getRawTransaction(previousTxid),
+        );
+        const previousOutput = previous.outs[input.index];
+        invariant(previousOutput, `Output ${previousTxid}:${input.index} not found`);
+
+        psbt.addInput({
+          hash: previousTxid,
+          index: input.index,
+          sequence: RBF_SEQUENCE,
+          witnessUtxo: {
+            script: previousOutput.script,
+            value: previousOutput.value,
+          },
+        });
+        totalInput += Number(previousOutput.value);
+      }
+
+      const totalOutput = original.outs.reduce((sum, output) => sum + Number(output.value), 0);
+      const originalFee = totalInput - totalOutput;
+      const changeIndex = original.outs.findIndex(output =>
+        senderScript.equals(Buffer.from(output.script)),
+      );
+      invariant(changeIndex >= 0, 'Transaction has no change output to pay a higher fee from');
+
+      // BIP125: the replacement pays the original fee plus its own relay fee at 1 sat/byte
+      const minimumFee = originalFee + original.virtualSize();
+      const targetFee = Math.round(parseFloat(params.fee) * 100000000);
+      const fee = Math.max(minimumFee, targetFee);
+      invariant(
+        fee <= Math.round(parseFloat(params.maxFee) * 100000000),
+        `Replacement fee of ${fee} satoshis exceeds the maximum of ${params.maxFee}`,
+      );
+
+      const change = Number(original.outs[changeIndex].value) - (fee - originalFee);
+      invariant(change > 546, 'Change output cannot cover the higher fee'); // Dust limit
+
+      original.outs.forEach(function (output, index) {
+        psbt.addOutput({
+          script: output.script,
+          value: index === changeIndex ? BigInt(change) : output.value,
+        });
+      });
+
+      psbt.signAllInputs(keyPair);
+
+      invariant(
+        psbt.validateSignaturesOfAllInputs(() => true),
+        'Invalid signatures',
+      );
+      psbt.finalizeAllInputs();
+
+      const signedTx = psbt.extractTransaction().toHex();
+      const txHash = await this.rpcClient.sendRawTransaction(signedTx);
+
+      return { txHash, fee: (fee / 100000000).toString() };
+    } catch (error) {
+      invariant(
+        false,
+        `Fee bump failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  async getBalance(address: string): Promise<string> {
     const utxos = await this.rpcClient.getUnspentOutputs(address);
-    const totalSatoshis = utxos.reduce((sum, utxo) => sum + utxo.value, 0);
-    return totalSatoshis / 100000000; // Convert to BTC
+    const totalSatoshis = utxos.reduce((sum, utxo) => sum + BigInt(utxo.value), 0n);
+    return fromLowestDenomination(totalSatoshis.toString(), 8); // Convert to BTC
   }
 }
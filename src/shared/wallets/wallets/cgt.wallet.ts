@@ -1,5 +1,6 @@
 import { createHash, randomUUID } from 'node:crypto';
 
+import { fromLowestDenomination } from '../../utils/decimal';
 import { Wallet, type WalletTransferParams } from '../wallet.abstract';
 
 export class CgtWallet extends Wallet {
@@ -18,12 +19,12 @@ export class CgtWallet extends Wallet {
     return { txHash: `0xmock${hash.slice(0, 58)}` };
   }
 
-  async getBalance(address: string): Promise<number> {
+  async getBalance(address: string): Promise<string> {
     // Mock implementation for testnet
     // In real implementation, this would query the CryptoGadai blockchain
     const hash = createHash('sha256').update(address).digest('hex');
     // Generate deterministic mock balance based on address
     const mockBalance = parseInt(hash.slice(0, 8), 16) % 10000;
-    return mockBalance / 100; // Return value between 0-100
+    return fromLowestDenomination(mockBalance, 2); // Return value between 0-100
   }
 }
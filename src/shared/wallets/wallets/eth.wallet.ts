@@ -3,12 +3,44 @@ import type { TransactionRequest } from 'ethers';
 import { ethers } from 'ethers';
 import invariant from 'tiny-invariant';
 
-import { Wallet, WalletTransferParams } from '../wallet.abstract';
+import { fromLowestDenomination } from '../../utils/decimal';
+import {
+  Wallet,
+  WalletBatchTransferParams,
+  WalletFeeBumpParams,
+  WalletTransferParams,
+} from '../wallet.abstract';
+
+const ERC20_TRANSFER_ABI = [
+  'function decimals() view returns (uint8)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+];
+
+const DISPERSE_ABI = [
+  'function disperseEther(address[] recipients, uint256[] values) payable',
+  'function disperseToken(address token, address[] recipients, uint256[] values)',
+];
+
+/**
+ * Disperse contract (disperse.app), deployed at the same address on Ethereum, BSC and most EVM chains
+ */
+export const DISPERSE_CONTRACT_ADDRESS = '0xD152f549545093347A162Dce210e7293f1452150';
+
+/**
+ * Contract address of erc20:/bep20: token ids, undefined for the native coin
+ */
+function getTokenContractAddress(tokenId: string): string | undefined {
+  return tokenId.match(/^(?:erc20|bep20):(0x[0-9a-fA-F]{40})$/)?.[1];
+}
 
 export class EthWallet extends Wallet {
   constructor(
     protected readonly privateKey: Uint8Array<ArrayBufferLike>,
     protected readonly provider: ethers.JsonRpcProvider,
+    protected readonly disperseContractAddress: string = DISPERSE_CONTRACT_ADDRESS,
   ) {
     super();
   }
@@ -32,13 +64,12 @@ export class EthWallet extends Wallet {
       const feeData = await this.provider.getFeeData();
 
       // Build transaction with explicit chain ID
-      const transaction: TransactionRequest = {
-        to: params.to,
-        value: ethers.parseEther(params.value),
-        gasLimit: BigInt(21000),
-        gasPrice: feeData.gasPrice || BigInt(20000000000), // 20 gwei fallback
-        chainId, // Explicitly set chain ID
-      };
+      const transaction: TransactionRequest = await this.buildTransferTransaction(
+        params,
+        wallet.address,
+      );
+      transaction.gasPrice = feeData.gasPrice || BigInt(20000000000); // 20 gwei fallback
+      transaction.chainId = chainId; // Explicitly set chain ID
 
       // Sign transaction
       const signedTx = await wallet.signTransaction(transaction);
@@ -58,11 +89,193 @@ export class EthWallet extends Wallet {
     }
   }
 
-  async getBalance(address: string): Promise<number> {
+  /**
+   * Pays every output through the disperse contract. Token batches approve the contract first
+   * when its allowance is short, and the approval gas is included in the returned fee.
+   */
+  async transferBatch(params: WalletBatchTransferParams): Promise<{ txHash: string; fee: string }> {
+    try {
+      invariant(params.outputs.length > 0, 'Batch transfer requires at least one output');
+
+      const privateKeyHex = Buffer.from(this.privateKey).toString('hex');
+      const wallet = new ethers.Wallet(privateKeyHex, this.provider);
+
+      const network = await this.provider.getNetwork();
+      const chainId = Number(network.chainId);
+      const feeData = await this.provider.getFeeData();
+      const gasPrice = feeData.gasPrice || BigInt(20000000000); // 20 gwei fallback
+
+      const disperse = new ethers.Interface(DISPERSE_ABI);
+      const recipients = params.outputs.map(output => output.to);
+      const contractAddress = getTokenContractAddress(params.tokenId);
+
+      let approvalFee = 0n;
+      let transaction: TransactionRequest;
+
+      if (!contractAddress) {
+        const values = params.outputs.map(output => ethers.parseEther(output.value));
+        transaction = {
+          to: this.disperseContractAddress,
+          value: values.reduce((sum, value) => sum + value, 0n),
+          data: disperse.encodeFunctionData('disperseEther', [recipients, values]),
+        };
+      } else {
+        const token = new ethers.Contract(contractAddress, ERC20_TRANSFER_ABI, this.provider);
+        const decimals = Number(await token.decimals());
+        const values = params.outputs.map(output => ethers.parseUnits(output.value, decimals));
+        const total = values.reduce((sum, value) => sum + value, 0n);
+
+        const allowance = BigInt(
+          await token.allowance(wallet.address, this.disperseContractAddress),
+        );
+        if (allowance < total) {
+          const approvalReceipt = await this.sendSignedTransaction(
+            wallet,
+            {
+              to: contractAddress,
+              value: 0n,
+              data: token.interface.encodeFunctionData('approve', [
+                this.disperseContractAddress,
+                total,
+              ]),
+            },
+            gasPrice,
+            chainId,
+          );
+          approvalFee = (approvalReceipt?.gasUsed ?? 0n) * gasPrice;
+        }
+
+        transaction = {
+          to: this.disperseContractAddress,
+          value: 0n,
+          data: disperse.encodeFunctionData('disperseToken', [contractAddress, recipients, values]),
+        };
+      }
+
+      const receipt = await this.sendSignedTransaction(wallet, transaction, gasPrice, chainId);
+      invariant(receipt, 'Batch transaction receipt is missing');
+
+      return {
+        txHash: receipt.hash,
+        fee: ethers.formatEther(receipt.gasUsed * gasPrice + approvalFee),
+      };
+    } catch (error) {
+      invariant(
+        false,
+        `Batch transfer failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  /**
+   * Re-sends the pending transaction under its nonce at a higher gas price. Nodes only accept
+   * the replacement when the gas price goes up by at least 10%, so it is raised by 12.5% or more.
+   */
+  async bumpFee(params: WalletFeeBumpParams): Promise<{ txHash: string; fee: string }> {
     try {
-      const balance = await this.provider.getBalance(address);
-      // Convert from wei to ETH
-      return parseFloat(ethers.formatEther(balance));
+      const privateKeyHex = Buffer.from(this.privateKey).toString('hex');
+      const wallet = new ethers.Wallet(privateKeyHex, this.provider);
+
+      const original = await this.provider.getTransaction(params.txHash);
+      invariant(original, `Transaction ${params.txHash} not found`);
+      invariant(original.blockNumber === null, `Transaction ${params.txHash} is already mined`);
+
+      const network = await this.provider.getNetwork();
+      const gasLimit = original.gasLimit;
+      const minimumGasPrice = ((original.gasPrice ?? 0n) * 1125n) / 1000n;
+      const targetGasPrice = ethers.parseEther(Number(params.fee).toFixed(18)) / gasLimit;
+      const gasPrice = targetGasPrice > minimumGasPrice ? targetGasPrice : minimumGasPrice;
+
+      const fee = gasPrice * gasLimit;
+      invariant(
+        fee <= ethers.parseEther(Number(params.maxFee).toFixed(18)),
+        `Replacement fee of ${ethers.formatEther(fee)} exceeds the maximum of ${params.maxFee}`,
+      );
+
+      const signedTx = await wallet.signTransaction({
+        to: original.to,
+        value: original.value,
+        data: original.data,
+        nonce: original.nonce,
+        gasLimit,
+        gasPrice,
+        chainId: Number(network.chainId),
+      });
+      const txResponse = await this.provider.broadcastTransaction(signedTx);
+
+      return { txHash: txResponse.hash, fee: ethers.formatEther(fee) };
+    } catch (error) {
+      invariant(
+        false,
+        `Fee bump failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  private async sendSignedTransaction(
+    wallet: ethers.Wallet,
+    transaction: TransactionRequest,
+    gasPrice: bigint,
+    chainId: number,
+  ): Promise<ethers.TransactionReceipt | null> {
+    transaction.gasLimit = await this.provider.estimateGas({
+      ...transaction,
+      from: wallet.address,
+    });
+    transaction.gasPrice = gasPrice;
+    transaction.chainId = chainId;
+    transaction.nonce = await this.provider.getTransactionCount(wallet.address, 'pending');
+
+    const signedTx = await wallet.signTransaction(transaction);
+    const txResponse = await this.provider.broadcastTransaction(signedTx);
+
+    return txResponse.wait();
+  }
+
+  /**
+   * Native transfer, or a token contract call for erc20:/bep20: token ids with value in token units
+   */
+  private async buildTransferTransaction(
+    params: WalletTransferParams,
+    from: string,
+  ): Promise<TransactionRequest> {
+    const contractAddress = getTokenContractAddress(params.tokenId);
+    if (!contractAddress) {
+      return {
+        to: params.to,
+        value: ethers.parseEther(params.value),
+        gasLimit: BigInt(21000),
+      };
+    }
+
+    const token = new ethers.Contract(contractAddress, ERC20_TRANSFER_ABI, this.provider);
+    const decimals = Number(await token.decimals());
+    const data = token.interface.encodeFunctionData('transfer', [
+      params.to,
+      ethers.parseUnits(params.value, decimals),
+    ]);
+    const gasLimit = await this.provider.estimateGas({ from, to: contractAddress, data });
+
+    return {
+      to: contractAddress,
+      value: 0n,
+      data,
+      gasLimit,
+    };
+  }
+
+  async getBalance(address: string, tokenId?: string): Promise<string> {
+    try {
+      const contractAddress = tokenId ? getTokenContractAddress(tokenId) : undefined;
+      if (!contractAddress) {
+        const balance = await this.provider.getBalance(address);
+        // Convert from wei to ETH
+        return fromLowestDenomination(balance.toString(), 18);
+      }
+
+      const token = new ethers.Contract(contractAddress, ERC20_TRANSFER_ABI, this.provider);
+      const [balance, decimals] = await Promise.all([token.balanceOf(address), token.decimals()]);
+      return fromLowestDenomination(BigInt(balance).toString(), Number(decimals));
     } catch (error) {
       invariant(
         false,
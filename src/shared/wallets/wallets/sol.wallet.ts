@@ -1,3 +1,10 @@
+import {
+  createAssociatedTokenAccountInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  unpackAccount,
+  unpackMint,
+} from '@solana/spl-token';
 import {
   Connection,
   Keypair,
@@ -5,11 +12,20 @@ import {
   PublicKey,
   SystemProgram,
   Transaction,
+  TransactionInstruction,
 } from '@solana/web3.js';
 import invariant from 'tiny-invariant';
 
+import { fromLowestDenomination, toLowestDenomination } from '../../utils/decimal';
 import { Wallet, WalletTransferParams } from '../wallet.abstract';
 
+/**
+ * Mint address of spl: token ids, undefined for native SOL
+ */
+function getTokenMintAddress(tokenId: string): string | undefined {
+  return tokenId.match(/^spl:([1-9A-HJ-NP-Za-km-z]{32,44})$/)?.[1];
+}
+
 export abstract class SolWallet extends Wallet {
   protected abstract connection: Connection;
 
@@ -26,15 +42,10 @@ export abstract class SolWallet extends Wallet {
     try {
       const keypair = this.createKeypair();
       const toPubkey = new PublicKey(params.to);
-      const amountLamports = Math.floor(parseFloat(params.value) * LAMPORTS_PER_SOL);
 
       // Build transaction
       const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: keypair.publicKey,
-          toPubkey,
-          lamports: amountLamports,
-        }),
+        ...(await this.buildTransferInstructions(keypair.publicKey, toPubkey, params)),
       );
 
       transaction.feePayer = keypair.publicKey;
@@ -67,12 +78,29 @@ export abstract class SolWallet extends Wallet {
     }
   }
 
-  async getBalance(address: string): Promise<number> {
+  async getBalance(address: string, tokenId?: string): Promise<string> {
     try {
       const publicKey = new PublicKey(address);
-      const balanceLamports = await this.connection.getBalance(publicKey);
-      // Convert from lamports to SOL
-      return balanceLamports / LAMPORTS_PER_SOL;
+      const mintAddress = tokenId ? getTokenMintAddress(tokenId) : undefined;
+      if (!mintAddress) {
+        const balanceLamports = await this.connection.getBalance(publicKey);
+        // Convert from lamports to SOL
+        return fromLowestDenomination(balanceLamports, 9);
+      }
+
+      const mint = await this.getMint(mintAddress);
+      const tokenAccount = getAssociatedTokenAddressSync(
+        mint.address,
+        publicKey,
+        true,
+        mint.programId,
+      );
+      const accountInfo = await this.connection.getAccountInfo(tokenAccount);
+      // An owner without an associated token account holds none of the token
+      const amount = accountInfo
+        ? unpackAccount(tokenAccount, accountInfo, mint.programId).amount
+        : 0n;
+      return fromLowestDenomination(amount.toString(), mint.decimals);
     } catch (error) {
       invariant(
         false,
@@ -81,6 +109,72 @@ export abstract class SolWallet extends Wallet {
     }
   }
 
+  /**
+   * Native transfer, or a checked token transfer for spl: token ids with value in token units.
+   * The recipient associated token account is created first when missing, paid by the sender.
+   */
+  private async buildTransferInstructions(
+    from: PublicKey,
+    to: PublicKey,
+    params: WalletTransferParams,
+  ): Promise<TransactionInstruction[]> {
+    const mintAddress = getTokenMintAddress(params.tokenId);
+    if (!mintAddress) {
+      return [
+        SystemProgram.transfer({
+          fromPubkey: from,
+          toPubkey: to,
+          lamports: Math.floor(parseFloat(params.value) * LAMPORTS_PER_SOL),
+        }),
+      ];
+    }
+
+    const mint = await this.getMint(mintAddress);
+    const source = getAssociatedTokenAddressSync(mint.address, from, false, mint.programId);
+    const destination = getAssociatedTokenAddressSync(mint.address, to, true, mint.programId);
+
+    const instructions: TransactionInstruction[] = [];
+    if (!(await this.connection.getAccountInfo(destination))) {
+      instructions.push(
+        createAssociatedTokenAccountInstruction(
+          from,
+          destination,
+          to,
+          mint.address,
+          mint.programId,
+        ),
+      );
+    }
+    instructions.push(
+      createTransferCheckedInstruction(
+        source,
+        mint.address,
+        destination,
+        from,
+        BigInt(toLowestDenomination(params.value, mint.decimals)),
+        mint.decimals,
+        [],
+        mint.programId,
+      ),
+    );
+
+    return instructions;
+  }
+
+  /**
+   * The mint account owner tells apart Token and Token-2022 mints
+   */
+  private async getMint(
+    mintAddress: string,
+  ): Promise<{ address: PublicKey; programId: PublicKey; decimals: number }> {
+    const address = new PublicKey(mintAddress);
+    const accountInfo = await this.connection.getAccountInfo(address);
+    invariant(accountInfo, `Token mint ${mintAddress} not found`);
+
+    const mint = unpackMint(address, accountInfo, accountInfo.owner);
+    return { address, programId: accountInfo.owner, decimals: mint.decimals };
+  }
+
   private createKeypair(): Keypair {
     // Solana expects a 64-byte secret key, but HDKey provides 32 bytes
     // For Solana, we use the 32-byte private key as seed to generate the keypair
@@ -0,0 +1,271 @@
+import { createHash } from 'node:crypto';
+
+import * as bitcoin from 'bitcoinjs-lib';
+import { ethers } from 'ethers';
+import invariant from 'tiny-invariant';
+
+import { AddressValidator, TRON_ADDRESS_VERSION } from '../../utils/address-validator';
+import { fromLowestDenomination, toLowestDenomination } from '../../utils/decimal';
+import { Wallet, WalletError, WalletTransferParams } from '../wallet.abstract';
+
+export const TRX_TOKEN_ID = 'slip44:195';
+
+/**
+ * Most TRX a TRC-20 transfer may burn for energy, in sun
+ */
+export const TRC20_FEE_LIMIT = 50_000_000;
+
+export type TronTransaction = {
+  txID: string;
+  raw_data: {
+    contract: Array<{
+      type: string;
+      parameter: { value: Record<string, unknown> };
+    }>;
+  };
+  raw_data_hex: string;
+  visible?: boolean;
+};
+
+export type TronContractCall = {
+  ownerAddress: string;
+  contractAddress: string;
+  functionSelector: string;
+  /** ABI encoded arguments, hex without 0x */
+  parameter: string;
+};
+
+export interface TronApiClient {
+  createTransaction(params: {
+    ownerAddress: string;
+    toAddress: string;
+    amount: number;
+  }): Promise<TronTransaction>;
+  triggerSmartContract(
+    params: TronContractCall & { feeLimit: number },
+  ): Promise<{ transaction: TronTransaction }>;
+  triggerConstantContract(
+    params: TronContractCall,
+  ): Promise<{ constant_result: string[]; energy_used?: number }>;
+  broadcastTransaction(
+    transaction: TronTransaction & { signature: string[] },
+  ): Promise<{ result?: boolean; code?: string; message?: string }>;
+  getAccount(address: string): Promise<{ balance?: number }>;
+}
+
+/**
+ * Tron keys are secp256k1 like Ethereum, the address is the Ethereum address with the Tron version byte
+ */
+export function toTronAddress(ethereumAddress: string): string {
+  return bitcoin.address.toBase58Check(
+    Buffer.from(ethereumAddress.slice(2), 'hex'),
+    TRON_ADDRESS_VERSION,
+  );
+}
+
+/**
+ * The 20 byte account of a Tron address, as contracts and event logs see it
+ */
+export function fromTronAddress(address: string): string {
+  const { hash } = bitcoin.address.fromBase58Check(address);
+  return `0x${Buffer.from(hash).toString('hex')}`;
+}
+
+/**
+ * Contract address of a TRC-20 token id (trc20:<base58 address>)
+ */
+export function getTrc20ContractAddress(tokenId?: string): string | undefined {
+  const match = tokenId?.match(/^trc20:(T[1-9A-HJ-NP-Za-km-z]{33})$/);
+  return match && AddressValidator.validateTronAddress(match[1]) ? match[1] : undefined;
+}
+
+export class TronWallet extends Wallet {
+  constructor(
+    protected readonly privateKey: Uint8Array<ArrayBufferLike>,
+    protected readonly apiClient: TronApiClient,
+  ) {
+    super();
+  }
+
+  async getAddress(): Promise<string> {
+    return toTronAddress(ethers.computeAddress(this.getSigningKey()));
+  }
+
+  /**
+   * TRX or TRC-20 transfer with value in whole coins. The node builds the transaction, it is only
+   * signed after checking the node did not change the payment.
+   */
+  async transfer(params: WalletTransferParams): Promise<{ txHash: string }> {
+    const contractAddress = getTrc20ContractAddress(params.tokenId);
+    if (params.tokenId !== TRX_TOKEN_ID && !contractAddress) {
+      throw new WalletError(`TronWallet does not support transfers of ${params.tokenId}`);
+    }
+
+    try {
+      const ownerAddress = await this.getAddress();
+
+      if (contractAddress) {
+        return await this.transferToken(ownerAddress, contractAddress, params);
+      }
+
+      const amount = Number(toLowestDenomination(params.value, 6));
+      invariant(Number.isSafeInteger(amount) && amount > 0, `Invalid amount: ${params.value}`);
+
+      const transaction = await this.apiClient.createTransaction({
+        ownerAddress,
+        toAddress: params.to,
+        amount,
+      });
+
+      const payment = transaction.raw_data.contract[0]?.parameter.value;
+      invariant(
+        transaction.raw_data.contract.length === 1 &&
+          payment?.owner_address === ownerAddress &&
+          payment?.to_address === params.to &&
+          payment?.amount === amount,
+        'Transaction built by the node does not match the transfer',
+      );
+
+      return await this.signAndBroadcast(transaction);
+    } catch (error) {
+      invariant(
+        false,
+        `Transfer failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  async getBalance(address: string, tokenId?: string): Promise<string> {
+    const contractAddress = getTrc20ContractAddress(tokenId);
+    if (tokenId && tokenId !== TRX_TOKEN_ID && !contractAddress) {
+      throw new WalletError(`TronWallet does not support balances of ${tokenId}`);
+    }
+
+    try {
+      if (contractAddress) {
+        const { balance, decimals } = await getTrc20Balance(
+          this.apiClient,
+          address,
+          contractAddress,
+        );
+        return fromLowestDenomination(balance.toString(), decimals);
+      }
+
+      const account = await this.apiClient.getAccount(address);
+      // Accounts that never received TRX do not exist yet
+      return fromLowestDenomination(account.balance ?? 0, 6);
+    } catch (error) {
+      invariant(
+        false,
+        `Get balance failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  private async transferToken(
+    ownerAddress: string,
+    contractAddress: string,
+    params: WalletTransferParams,
+  ): Promise<{ txHash: string }> {
+    const decimals = Number(
+      await callTrc20(this.apiClient, ownerAddress, contractAddress, 'decimals()'),
+    );
+    const amount = BigInt(toLowestDenomination(params.value, decimals));
+    invariant(amount > 0n, `Invalid amount: ${params.value}`);
+
+    const functionSelector = 'transfer(address,uint256)';
+    const parameter = encodeParameters(
+      ['address', 'uint256'],
+      [fromTronAddress(params.to), amount],
+    );
+
+    const { transaction } = await this.apiClient.triggerSmartContract({
+      ownerAddress,
+      contractAddress,
+      functionSelector,
+      parameter,
+      feeLimit: TRC20_FEE_LIMIT,
+    });
+
+    const call = transaction.raw_data.contract[0]?.parameter.value;
+    const expectedData = `${ethers.id(functionSelector).slice(2, 10)}${parameter}`;
+    invariant(
+      transaction.raw_data.contract.length === 1 &&
+        call?.owner_address === ownerAddress &&
+        call?.contract_address === contractAddress &&
+        typeof call?.data === 'string' &&
+        call.data.toLowerCase() === expectedData &&
+        !call.call_value,
+      'Transaction built by the node does not match the transfer',
+    );
+
+    return await this.signAndBroadcast(transaction);
+  }
+
+  /**
+   * Signs the transaction id after checking it is the hash of the transaction data
+   */
+  private async signAndBroadcast(transaction: TronTransaction): Promise<{ txHash: string }> {
+    const txID = createHash('sha256')
+      .update(Buffer.from(transaction.raw_data_hex, 'hex'))
+      .digest('hex');
+    invariant(txID === transaction.txID, 'Transaction id does not match the transaction data');
+
+    const signature = this.getSigningKey().sign(`0x${txID}`).serialized.slice(2);
+    const result = await this.apiClient.broadcastTransaction({
+      ...transaction,
+      signature: [signature],
+    });
+    invariant(result.result, `Broadcast rejected: ${result.code ?? result.message}`);
+
+    return { txHash: txID };
+  }
+
+  private getSigningKey(): ethers.SigningKey {
+    return new ethers.SigningKey(this.privateKey);
+  }
+}
+
+/**
+ * Token balance in the smallest unit, with the decimals of the token
+ */
+export async function getTrc20Balance(
+  apiClient: TronApiClient,
+  address: string,
+  contractAddress: string,
+): Promise<{ balance: bigint; decimals: number }> {
+  const [balance, decimals] = await Promise.all([
+    callTrc20(
+      apiClient,
+      address,
+      contractAddress,
+      'balanceOf(address)',
+      ['address'],
+      [fromTronAddress(address)],
+    ),
+    callTrc20(apiClient, address, contractAddress, 'decimals()'),
+  ]);
+  return { balance, decimals: Number(decimals) };
+}
+
+async function callTrc20(
+  apiClient: TronApiClient,
+  ownerAddress: string,
+  contractAddress: string,
+  functionSelector: string,
+  types: string[] = [],
+  values: unknown[] = [],
+): Promise<bigint> {
+  const { constant_result } = await apiClient.triggerConstantContract({
+    ownerAddress,
+    contractAddress,
+    functionSelector,
+    parameter: encodeParameters(types, values),
+  });
+  invariant(constant_result?.[0], `${functionSelector} returned no result`);
+  return BigInt(`0x${constant_result[0]}`);
+}
+
+export function encodeParameters(types: string[], values: unknown[]): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, values).slice(2);
+}
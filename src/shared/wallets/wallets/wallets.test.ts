@@ -1,16 +1,28 @@
 import type { Wallet } from '../wallet.abstract';
+import type { TronApiClient, TronTransaction } from './tron.wallet';
 
-import { ok, strictEqual } from 'node:assert/strict';
+import { ok, rejects, strictEqual } from 'node:assert/strict';
+import { createHash } from 'node:crypto';
 import { describe, it, mock } from 'node:test';
 
-import { Connection } from '@solana/web3.js';
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  decodeTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_PROGRAM_ID,
+} from '@solana/spl-token';
+import { Connection, PublicKey, Transaction } from '@solana/web3.js';
 import * as bitcoin from 'bitcoinjs-lib';
 import { ethers } from 'ethers';
 
+import { AddressValidator } from '../../utils/address-validator';
 import { BtcWallet } from './btc.wallet';
 import { CgtWallet } from './cgt.wallet';
-import { EthWallet } from './eth.wallet';
+import { DISPERSE_CONTRACT_ADDRESS, EthWallet } from './eth.wallet';
 import { SolWallet } from './sol.wallet';
+import { fromTronAddress, TRX_TOKEN_ID, TronWallet } from './tron.wallet';
 
 describe('Wallet Implementations', () => {
   describe('EthWallet', () => {
@@ -37,8 +49,7 @@ describe('Wallet Implementations', () => {
 
       // Test getBalance
       const balance = await wallet.getBalance(address);
-      ok(typeof balance === 'number', 'Balance should be a number');
-      strictEqual(balance, 1, 'Balance should be 1 ETH');
+      strictEqual(balance, '1.000000000000000000', 'Balance should be 1 ETH');
 
       // Verify wallet extends Wallet abstract class
       ok(wallet instanceof EthWallet, 'Should be instance of EthWallet');
@@ -63,7 +74,130 @@ describe('Wallet Implementations', () => {
       const address = await wallet.getAddress();
       const balance = await wallet.getBalance(address);
 
-      strictEqual(balance, 2.5, 'Balance should be 2.5 ETH');
+      strictEqual(balance, '2.500000000000000000', 'Balance should be 2.5 ETH');
+    });
+
+    it('should transfer and report token balances with the token decimals', async () => {
+      const privateKey = new Uint8Array(32).fill(1);
+      const tokenAddress = '0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d';
+      const erc20 = new ethers.Interface([
+        'function decimals() view returns (uint8)',
+        'function balanceOf(address owner) view returns (uint256)',
+        'function transfer(address to, uint256 amount) returns (bool)',
+      ]);
+      const mockProvider = {
+        call: mock.fn(async (transaction: { data: string }) => {
+          const { name } = erc20.parseTransaction({ data: transaction.data }) ?? {};
+          if (name === 'decimals') return erc20.encodeFunctionResult('decimals', [6]);
+          // Beyond Number.MAX_SAFE_INTEGER base units
+          return erc20.encodeFunctionResult('balanceOf', [BigInt('90071992547409931234567')]);
+        }),
+        estimateGas: mock.fn(async () => BigInt(52000)),
+        getNetwork: mock.fn(async () => ({ chainId: BigInt(56) })),
+        getFeeData: mock.fn(async () => ({ gasPrice: BigInt(3000000000) })),
+        broadcastTransaction: mock.fn(async () => ({
+          hash: '0xtoken',
+          wait: async () => ({ hash: '0xtoken' }),
+        })),
+      };
+
+      const wallet = new EthWallet(privateKey, mockProvider as unknown as ethers.JsonRpcProvider);
+      const address = await wallet.getAddress();
+
+      const balance = await wallet.getBalance(address, `erc20:${tokenAddress}`);
+      strictEqual(balance, '90071992547409931.234567');
+
+      const result = await wallet.transfer({
+        tokenId: `erc20:${tokenAddress}`,
+        from: address,
+        to: '0x1111111111111111111111111111111111111111',
+        value: '12.5',
+      });
+      strictEqual(result.txHash, '0xtoken');
+
+      const [signedTx] = mockProvider.broadcastTransaction.mock.calls[0].arguments as unknown as [
+        string,
+      ];
+      const transaction = ethers.Transaction.from(signedTx);
+      strictEqual(transaction.to?.toLowerCase(), tokenAddress);
+      strictEqual(transaction.value, 0n);
+      strictEqual(transaction.gasLimit, BigInt(52000));
+      const transfer = erc20.parseTransaction({ data: transaction.data });
+      strictEqual(transfer?.name, 'transfer');
+      strictEqual(transfer?.args[1], BigInt(12500000));
+    });
+
+    it('should pay a native batch through the disperse contract', async () => {
+      const privateKey = new Uint8Array(32).fill(1);
+      const mockProvider = {
+        getNetwork: mock.fn(async () => ({ chainId: BigInt(1) })),
+        getFeeData: mock.fn(async () => ({ gasPrice: BigInt(20000000000) })),
+        estimateGas: mock.fn(async () => BigInt(60000)),
+        getTransactionCount: mock.fn(async () => 7),
+        broadcastTransaction: mock.fn(async () => ({
+          hash: '0xbatch',
+          wait: async () => ({ hash: '0xbatch', gasUsed: BigInt(60000) }),
+        })),
+      };
+
+      const wallet = new EthWallet(privateKey, mockProvider as unknown as ethers.JsonRpcProvider);
+      const result = await wallet.transferBatch({
+        tokenId: 'slip44:60',
+        from: await wallet.getAddress(),
+        outputs: [
+          { to: '0x1111111111111111111111111111111111111111', value: '0.5' },
+          { to: '0x2222222222222222222222222222222222222222', value: '0.25' },
+        ],
+      });
+
+      strictEqual(result.txHash, '0xbatch');
+      strictEqual(result.fee, '0.0012', 'Fee should be gas used times gas price');
+      strictEqual(mockProvider.broadcastTransaction.mock.callCount(), 1);
+
+      const [signedTx] = mockProvider.broadcastTransaction.mock.calls[0].arguments as unknown as [
+        string,
+      ];
+      const transaction = ethers.Transaction.from(signedTx);
+      strictEqual(transaction.to, DISPERSE_CONTRACT_ADDRESS);
+      strictEqual(transaction.value, ethers.parseEther('0.75'));
+      strictEqual(transaction.nonce, 7);
+    });
+
+    it('should replace a pending transaction under its nonce at a higher gas price', async () => {
+      const privateKey = new Uint8Array(32).fill(1);
+      const mockProvider = {
+        getNetwork: mock.fn(async () => ({ chainId: BigInt(1) })),
+        getTransaction: mock.fn(async () => ({
+          to: '0x1111111111111111111111111111111111111111',
+          value: ethers.parseEther('0.5'),
+          data: '0x',
+          nonce: 3,
+          gasLimit: BigInt(21000),
+          gasPrice: BigInt(10000000000),
+          blockNumber: null,
+        })),
+        broadcastTransaction: mock.fn(async () => ({ hash: '0xreplacement' })),
+      };
+
+      const wallet = new EthWallet(privateKey, mockProvider as unknown as ethers.JsonRpcProvider);
+      const result = await wallet.bumpFee({ txHash: '0xstuck', fee: '0.0001', maxFee: '0.001' });
+
+      strictEqual(result.txHash, '0xreplacement');
+      // The estimate is below the original gas price, so the minimum 12.5% increase applies
+      strictEqual(result.fee, '0.00023625');
+
+      const [signedTx] = mockProvider.broadcastTransaction.mock.calls[0].arguments as unknown as [
+        string,
+      ];
+      const transaction = ethers.Transaction.from(signedTx);
+      strictEqual(transaction.nonce, 3);
+      strictEqual(transaction.gasPrice, BigInt(11250000000));
+      strictEqual(transaction.value, ethers.parseEther('0.5'));
+
+      await rejects(
+        wallet.bumpFee({ txHash: '0xstuck', fee: '0.0001', maxFee: '0.0002' }),
+        /exceeds the maximum/,
+      );
     });
   });
 
@@ -72,6 +206,7 @@ describe('Wallet Implementations', () => {
       const privateKey = new Uint8Array(32).fill(2);
       const mockRpcClient = {
         sendRawTransaction: mock.fn(async () => 'btc_tx_hash'),
+        getRawTransaction: mock.fn(async () => ''),
         getUnspentOutputs: mock.fn(async () => [
           {
             txid: 'mock_txid',
@@ -96,8 +231,7 @@ describe('Wallet Implementations', () => {
 
       // Test getBalance
       const balance = await wallet.getBalance(address);
-      ok(typeof balance === 'number', 'Balance should be a number');
-      strictEqual(balance, 1, 'Balance should be 1 BTC');
+      strictEqual(balance, '1.00000000', 'Balance should be 1 BTC');
 
       // Verify wallet extends Wallet abstract class
       ok(wallet instanceof BtcWallet, 'Should be instance of BtcWallet');
@@ -110,6 +244,7 @@ describe('Wallet Implementations', () => {
       const privateKey = new Uint8Array(32).fill(2);
       const mockRpcClient = {
         sendRawTransaction: mock.fn(async () => 'btc_tx_hash'),
+        getRawTransaction: mock.fn(async () => ''),
         getUnspentOutputs: mock.fn(async () => [
           { txid: 'tx1', vout: 0, value: 50000000, scriptPubKey: '0014' + '00'.repeat(20) }, // 0.5 BTC
           { txid: 'tx2', vout: 0, value: 30000000, scriptPubKey: '0014' + '00'.repeat(20) }, // 0.3 BTC
@@ -126,7 +261,121 @@ describe('Wallet Implementations', () => {
       const address = await wallet.getAddress();
       const balance = await wallet.getBalance(address);
 
-      strictEqual(balance, 1, 'Balance should be 1 BTC (0.5 + 0.3 + 0.2)');
+      strictEqual(balance, '1.00000000', 'Balance should be 1 BTC (0.5 + 0.3 + 0.2)');
+    });
+
+    it('should pay a batch in one transaction with an output per recipient', async () => {
+      const privateKey = new Uint8Array(32).fill(2);
+      const network = bitcoin.networks.bitcoin;
+      const firstRecipient = bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, 1), network })
+        .address!;
+      const secondRecipient = bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, 2), network })
+        .address!;
+      let senderScript = '';
+
+      const mockRpcClient = {
+        sendRawTransaction: mock.fn(async () => 'btc_batch_hash'),
+        getRawTransaction: mock.fn(async () => ''),
+        getUnspentOutputs: mock.fn(async () => [
+          { txid: '11'.repeat(32), vout: 0, value: 100000000, scriptPubKey: senderScript },
+        ]),
+      };
+
+      class TestBtcWallet extends BtcWallet {
+        protected network = network;
+        protected rpcClient = mockRpcClient;
+      }
+
+      const wallet = new TestBtcWallet(privateKey);
+      const senderAddress = await wallet.getAddress();
+      senderScript = Buffer.from(bitcoin.address.toOutputScript(senderAddress, network)).toString(
+        'hex',
+      );
+
+      const result = await wallet.transferBatch({
+        tokenId: 'slip44:0',
+        from: senderAddress,
+        outputs: [
+          { to: firstRecipient, value: '0.2' },
+          { to: secondRecipient, value: '0.3' },
+        ],
+      });
+
+      strictEqual(result.txHash, 'btc_batch_hash');
+      // 11 overhead + 1 input * 68 + 3 outputs * 31 vbytes at 1 sat/vbyte
+      strictEqual(result.fee, '0.00000172');
+
+      const [rawTx] = mockRpcClient.sendRawTransaction.mock.calls[0].arguments as unknown as [
+        string,
+      ];
+      const outputs = bitcoin.Transaction.fromHex(rawTx).outs;
+      strictEqual(outputs.length, 3, 'Should have two recipient outputs and change');
+      strictEqual(outputs[0].value, BigInt(20000000));
+      strictEqual(outputs[1].value, BigInt(30000000));
+      strictEqual(outputs[2].value, BigInt(100000000 - 50000000 - 172));
+    });
+
+    it('should replace a stuck transaction with a higher fee taken from the change', async () => {
+      const privateKey = new Uint8Array(32).fill(2);
+      const network = bitcoin.networks.bitcoin;
+      const recipient = bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, 1), network }).address!;
+      const rawTransactions: Record<string, string> = {};
+
+      const mockRpcClient = {
+        sendRawTransaction: mock.fn(async (hex: string) => {
+          const txid = bitcoin.Transaction.fromHex(hex).getId();
+          rawTransactions[txid] = hex;
+          return txid;
+        }),
+        getRawTransaction: mock.fn(async (txid: string) => rawTransactions[txid]),
+        getUnspentOutputs: mock.fn(async () => [
+          { txid: previousTxid, vout: 0, value: 100000000, scriptPubKey: senderScript },
+        ]),
+      };
+
+      class TestBtcWallet extends BtcWallet {
+        protected network = network;
+        protected rpcClient = mockRpcClient;
+      }
+
+      const wallet = new TestBtcWallet(privateKey);
+      const senderAddress = await wallet.getAddress();
+      const senderScript = Buffer.from(
+        bitcoin.address.toOutputScript(senderAddress, network),
+      ).toString('hex');
+
+      // Funding transaction of the spent output
+      const previous = new bitcoin.Transaction();
+      previous.addInput(Buffer.alloc(32, 9), 0);
+      previous.addOutput(Buffer.from(senderScript, 'hex'), BigInt(100000000));
+      const previousTxid = previous.getId();
+      rawTransactions[previousTxid] = previous.toHex();
+
+      const stuck = await wallet.transfer({
+        tokenId: 'slip44:0',
+        from: senderAddress,
+        to: recipient,
+        value: '0.2',
+      });
+      const stuckTransaction = bitcoin.Transaction.fromHex(rawTransactions[stuck.txHash]);
+      strictEqual(stuckTransaction.ins[0].sequence, 0xfffffffd, 'Transfers should signal RBF');
+
+      const result = await wallet.bumpFee({
+        txHash: stuck.txHash,
+        fee: '0.00001',
+        maxFee: '0.0001',
+      });
+
+      strictEqual(result.fee, '0.00001');
+      const replacement = bitcoin.Transaction.fromHex(rawTransactions[result.txHash]);
+      strictEqual(replacement.ins.length, 1);
+      strictEqual(replacement.outs[0].value, BigInt(20000000), 'Recipient amount is unchanged');
+      strictEqual(replacement.outs[1].value, BigInt(100000000 - 20000000 - 1000));
+
+      await rejects(
+        wallet.bumpFee({ txHash: stuck.txHash, fee: '0.001', maxFee: '0.0001' }),
+        /exceeds the maximum/,
+      );
     });
   });
 
@@ -155,8 +404,7 @@ describe('Wallet Implementations', () => {
 
       // Test getBalance
       const balance = await wallet.getBalance(address);
-      ok(typeof balance === 'number', 'Balance should be a number');
-      strictEqual(balance, 1, 'Balance should be 1 SOL');
+      strictEqual(balance, '1.000000000', 'Balance should be 1 SOL');
 
       // Verify wallet extends Wallet abstract class
       ok(wallet instanceof SolWallet, 'Should be instance of SolWallet');
@@ -179,7 +427,235 @@ describe('Wallet Implementations', () => {
       const address = await wallet.getAddress();
       const balance = await wallet.getBalance(address);
 
-      strictEqual(balance, 2.5, 'Balance should be 2.5 SOL');
+      strictEqual(balance, '2.500000000', 'Balance should be 2.5 SOL');
+    });
+    it('should create the missing associated token account before an SPL transfer', async () => {
+      const privateKey = new Uint8Array(32).fill(3);
+      const mint = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+      const recipient = new PublicKey('9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM');
+      const mintData = Buffer.alloc(MINT_SIZE);
+      MintLayout.encode(
+        {
+          mintAuthorityOption: 0,
+          mintAuthority: PublicKey.default,
+          supply: BigInt(0),
+          decimals: 6,
+          isInitialized: true,
+          freezeAuthorityOption: 0,
+          freezeAuthority: PublicKey.default,
+        },
+        mintData,
+      );
+      const mockConnection = {
+        getAccountInfo: mock.fn(async (account: PublicKey) =>
+          account.equals(mint)
+            ? { owner: TOKEN_PROGRAM_ID, data: mintData, lamports: 1, executable: false }
+            : null,
+        ),
+        getLatestBlockhash: mock.fn(async () => ({
+          blockhash: PublicKey.default.toBase58(),
+          lastValidBlockHeight: 1,
+        })),
+        sendRawTransaction: mock.fn(async () => 'sol_token_signature'),
+        confirmTransaction: mock.fn(async () => ({ value: { err: null } })),
+      };
+
+      class TestSolWallet extends SolWallet {
+        protected connection = mockConnection as unknown as Connection;
+      }
+
+      const wallet = new TestSolWallet(privateKey);
+      const address = await wallet.getAddress();
+
+      // No associated token account yet, so nothing is held
+      strictEqual(await wallet.getBalance(address, `spl:${mint.toBase58()}`), '0.000000');
+
+      const result = await wallet.transfer({
+        tokenId: `spl:${mint.toBase58()}`,
+        from: address,
+        to: recipient.toBase58(),
+        value: '2.5',
+      });
+      strictEqual(result.txHash, 'sol_token_signature');
+
+      const [rawTransaction] = mockConnection.sendRawTransaction.mock.calls[0]
+        .arguments as unknown as [Buffer];
+      const transaction = Transaction.from(rawTransaction);
+      strictEqual(transaction.instructions.length, 2);
+      ok(transaction.instructions[0].programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID));
+      ok(
+        transaction.instructions[0].keys[1].pubkey.equals(
+          getAssociatedTokenAddressSync(mint, recipient, true),
+        ),
+      );
+      const transfer = decodeTransferCheckedInstruction(transaction.instructions[1]);
+      strictEqual(transfer.data.amount, BigInt(2500000));
+      strictEqual(transfer.data.decimals, 6);
+    });
+  });
+
+  describe('TronWallet', () => {
+    it('should derive a base58check address and report the TRX balance in sun', async () => {
+      const privateKey = new Uint8Array(32).fill(5);
+      const apiClient = {
+        getAccount: mock.fn(async () => ({ balance: 12345678 })),
+      } as unknown as TronApiClient;
+
+      const wallet: Wallet = new TronWallet(privateKey, apiClient);
+      const address = await wallet.getAddress();
+
+      ok(address.startsWith('T'), 'Tron addresses start with T');
+      ok(AddressValidator.validateTronAddress(address), 'Address should be a valid Tron address');
+      ok(
+        !AddressValidator.validateTronAddress(
+          await new EthWallet(privateKey, {} as ethers.JsonRpcProvider).getAddress(),
+        ),
+      );
+      strictEqual(await wallet.getBalance(address), '12.345678');
+    });
+
+    it('should sign and broadcast the transfer built by the node', async () => {
+      const privateKey = new Uint8Array(32).fill(5);
+      const to = 'TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7';
+      const rawDataHex = '0a0b1c2d';
+      const txID = createHash('sha256').update(Buffer.from(rawDataHex, 'hex')).digest('hex');
+
+      const apiClient = {
+        createTransaction: mock.fn(
+          async (params: { ownerAddress: string; toAddress: string; amount: number }) => ({
+            txID,
+            raw_data: {
+              contract: [
+                {
+                  type: 'TransferContract',
+                  parameter: {
+                    value: {
+                      owner_address: params.ownerAddress,
+                      to_address: params.toAddress,
+                      amount: params.amount,
+                    },
+                  },
+                },
+              ],
+            },
+            raw_data_hex: rawDataHex,
+          }),
+        ),
+        broadcastTransaction: mock.fn(async () => ({ result: true })),
+      };
+
+      const wallet = new TronWallet(privateKey, apiClient as unknown as TronApiClient);
+      const result = await wallet.transfer({ tokenId: TRX_TOKEN_ID, from: '', to, value: '1.5' });
+
+      strictEqual(result.txHash, txID);
+      strictEqual(apiClient.createTransaction.mock.calls[0].arguments[0].amount, 1500000);
+      const [broadcast] = apiClient.broadcastTransaction.mock.calls[0].arguments as unknown as [
+        TronTransaction & { signature: string[] },
+      ];
+      strictEqual(broadcast.signature.length, 1);
+      strictEqual(broadcast.signature[0].length, 130, 'Signature should be r, s and v in hex');
+    });
+
+    it('should transfer TRC-20 tokens through the token contract', async () => {
+      const privateKey = new Uint8Array(32).fill(5);
+      const contractAddress = 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t';
+      const to = 'TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7';
+      const rawDataHex = '0c0d0e0f';
+      const txID = createHash('sha256').update(Buffer.from(rawDataHex, 'hex')).digest('hex');
+
+      const apiClient = {
+        triggerConstantContract: mock.fn(async (call: { functionSelector: string }) => ({
+          constant_result: [
+            call.functionSelector === 'decimals()'
+              ? ethers.toBeHex(6, 32).slice(2)
+              : ethers.toBeHex(2500000, 32).slice(2),
+          ],
+        })),
+        triggerSmartContract: mock.fn(
+          async (call: {
+            ownerAddress: string;
+            contractAddress: string;
+            functionSelector: string;
+            parameter: string;
+          }) => ({
+            transaction: {
+              txID,
+              raw_data: {
+                contract: [
+                  {
+                    type: 'TriggerSmartContract',
+                    parameter: {
+                      value: {
+                        owner_address: call.ownerAddress,
+                        contract_address: call.contractAddress,
+                        data: `${ethers.id(call.functionSelector).slice(2, 10)}${call.parameter}`,
+                      },
+                    },
+                  },
+                ],
+              },
+              raw_data_hex: rawDataHex,
+            },
+          }),
+        ),
+        broadcastTransaction: mock.fn(async () => ({ result: true })),
+      };
+
+      const wallet = new TronWallet(privateKey, apiClient as unknown as TronApiClient);
+      const tokenId = `trc20:${contractAddress}`;
+
+      strictEqual(await wallet.getBalance(to, tokenId), '2.500000');
+
+      const result = await wallet.transfer({ tokenId, from: '', to, value: '1.25' });
+      strictEqual(result.txHash, txID);
+
+      const [call] = apiClient.triggerSmartContract.mock.calls[0].arguments;
+      strictEqual(call.contractAddress, contractAddress);
+      strictEqual(call.functionSelector, 'transfer(address,uint256)');
+      const [recipient, amount] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ['address', 'uint256'],
+        `0x${call.parameter}`,
+      );
+      strictEqual((recipient as string).toLowerCase(), fromTronAddress(to));
+      strictEqual(amount, 1250000n);
+      strictEqual(apiClient.broadcastTransaction.mock.callCount(), 1);
+    });
+
+    it('should refuse to sign a transaction paying someone else', async () => {
+      const privateKey = new Uint8Array(32).fill(5);
+      const apiClient = {
+        createTransaction: mock.fn(async (params: { ownerAddress: string; amount: number }) => ({
+          txID: '00',
+          raw_data: {
+            contract: [
+              {
+                type: 'TransferContract',
+                parameter: {
+                  value: {
+                    owner_address: params.ownerAddress,
+                    to_address: 'TLa2f6VPqDgRE67v1736s7bJ8Ray5wYjU7',
+                    amount: params.amount,
+                  },
+                },
+              },
+            ],
+          },
+          raw_data_hex: '00',
+        })),
+        broadcastTransaction: mock.fn(async () => ({ result: true })),
+      };
+
+      const wallet = new TronWallet(privateKey, apiClient as unknown as TronApiClient);
+      await rejects(
+        wallet.transfer({
+          tokenId: TRX_TOKEN_ID,
+          from: '',
+          to: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
+          value: '1',
+        }),
+        /does not match the transfer/,
+      );
+      strictEqual(apiClient.broadcastTransaction.mock.callCount(), 0);
     });
   });
 
@@ -206,8 +682,8 @@ describe('Wallet Implementations', () => {
 
       // Test getBalance
       const balance = await wallet.getBalance(address);
-      ok(typeof balance === 'number', 'Balance should be a number');
-      ok(balance >= 0 && balance <= 100, 'Balance should be between 0-100');
+      ok(typeof balance === 'string', 'Balance should be a string');
+      ok(Number(balance) >= 0 && Number(balance) <= 100, 'Balance should be between 0-100');
 
       // Verify wallet extends Wallet abstract class
       ok(wallet instanceof CgtWallet, 'Should be instance of CgtWallet');
@@ -256,6 +732,7 @@ describe('Wallet Implementations', () => {
         protected network = bitcoin.networks.bitcoin;
         protected rpcClient = {
           sendRawTransaction: mock.fn(async () => ''),
+          getRawTransaction: mock.fn(async () => ''),
           getUnspentOutputs: mock.fn(async () => []),
         };
       }
@@ -378,8 +378,8 @@ describe('Admin Configuration API', function () {
           'ltvCriticalThreshold should be <= ltvLiquidationThreshold',
         );
         ok(
-          currency.ltvLiquidationThreshold <= currency.maxLtv,
-          'ltvLiquidationThreshold should be <= maxLtv',
+          currency.ltvLiquidationThreshold === 0 || currency.ltvWarningThreshold > currency.maxLtv,
+          'ltvWarningThreshold should be > maxLtv',
         );
 
         // Verify amount values are strings (representing big integers)
@@ -462,9 +462,9 @@ describe('Admin Configuration API', function () {
         minLoanPrincipalAmount: '5000000', // 5 USDC
         maxLoanPrincipalAmount: '100000000', // 100 USDC
         maxLtv: 0.8, // 80%
-        ltvWarningThreshold: 0.65, // 65%
-        ltvCriticalThreshold: 0.72, // 72%
-        ltvLiquidationThreshold: 0.78, // 78%
+        ltvWarningThreshold: 0.85, // 85%
+        ltvCriticalThreshold: 0.92, // 92%
+        ltvLiquidationThreshold: 0.98, // 98%
       };
 
       const response = await adminUser.fetch(`/api/admin/currencies/${blockchainKey}/${tokenId}`, {
@@ -522,10 +522,7 @@ describe('Admin Configuration API', function () {
         data.ltvCriticalThreshold <= data.ltvLiquidationThreshold,
         'ltvCriticalThreshold should be <= ltvLiquidationThreshold',
       );
-      ok(
-        data.ltvLiquidationThreshold <= data.maxLtv,
-        'ltvLiquidationThreshold should be <= maxLtv',
-      );
+      ok(data.ltvWarningThreshold > data.maxLtv, 'ltvWarningThreshold should be > maxLtv');
     });
 
     it('should validate currency update parameters', async function () {
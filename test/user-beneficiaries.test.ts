@@ -623,7 +623,7 @@ suite('User Beneficiaries Feature', function () {
       assertDefined(beneficiaryIdParam);
       const beneficiaryId = Number(beneficiaryIdParam);
 
-      // Verify beneficiary is now active
+      // Verify beneficiary is verified but waits for the cooling-off period
       const listResponse = await verificationUser.fetch('/api/beneficiaries');
       equal(listResponse.status, 200);
 
@@ -637,10 +637,19 @@ suite('User Beneficiaries Feature', function () {
       );
       assertDefined(verifiedBeneficiary, 'Verified beneficiary should be in the list');
       assertPropString(verifiedBeneficiary, 'verifiedDate');
+      assertPropString(verifiedBeneficiary, 'activationDate');
       assertPropDefined(verifiedBeneficiary, 'isActive');
 
       ok(verifiedBeneficiary.verifiedDate !== null, 'Beneficiary should have verified date');
-      equal(verifiedBeneficiary.isActive, true, 'Verified beneficiary should be active');
+      ok(
+        new Date(verifiedBeneficiary.activationDate) > new Date(verifiedBeneficiary.verifiedDate),
+        'Beneficiary should activate after the cooling-off period',
+      );
+      equal(
+        verifiedBeneficiary.isActive,
+        false,
+        'Verified beneficiary should not be active during the cooling-off period',
+      );
     });
 
     it('should reject verification with invalid token', async function () {